@@ -1,11 +1,14 @@
 'use client';
 
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import DashboardLayout from '@/app/components/DashboardLayout';
 import GovernanceDashboardAdminV2 from '@/app/components/GovernanceDashboardAdminV2';
+import PaginationControls from '@/app/components/PaginationControls';
+import SortSelect from '@/app/components/SortSelect';
 import { useAuth } from '@/app/lib/auth-context';
 import { ApiClient } from '@/app/lib/api-client';
+import { usePaginatedList } from '@/app/lib/use-paginated-list';
 import { Shield, Users, RefreshCcw, ArrowUpRight, ArrowDownRight, Clock, FileText } from 'lucide-react';
 import {
   ResponsiveContainer,
@@ -19,6 +22,15 @@ import {
 
 type AdminAnalytics = any;
 
+const USERS_PAGE_SIZE = 20;
+
+const USER_SORT_OPTIONS = [
+  { value: 'email', label: 'Email A–Z' },
+  { value: '-email', label: 'Email Z–A' },
+  { value: '-date_joined', label: 'Newest members' },
+  { value: '-last_login', label: 'Recently active' },
+];
+
 type AdminUserRow = {
   user_id: string;
   email: string;
@@ -36,20 +48,32 @@ export default function AdminPage() {
   const { user, isAuthenticated, isLoading } = useAuth();
 
   const [analytics, setAnalytics] = useState<AdminAnalytics | null>(null);
-  const [users, setUsers] = useState<AdminUserRow[]>([]);
   const [featureUsage, setFeatureUsage] = useState<any>(null);
   const [userRegistration, setUserRegistration] = useState<any>(null);
   const [userFeatureUsage, setUserFeatureUsage] = useState<any>(null);
   const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
   const [allTenants, setAllTenants] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [usersLoading, setUsersLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const userSearchReqIdRef = useRef(0);
-
   const isAdmin = !!(user as any)?.is_admin;
   const isSuperAdmin = !!(user as any)?.is_superadmin;
+  const listAllTenants = !!(isSuperAdmin && allTenants);
+
+  // Promote/demote invalidate `admin`, which re-reads the current page.
+  const users = usePaginatedList<AdminUserRow>(
+    (page) => new ApiClient().adminListUsers({ ...page, q: search || undefined, allTenants: listAllTenants }),
+    {
+      mode: 'pages',
+      pageSize: USERS_PAGE_SIZE,
+      ordering: 'email',
+      filterKey: `${search}|${listAllTenants}`,
+      tags: ['admin'],
+      enabled: !isLoading && isAuthenticated && isAdmin,
+    }
+  );
+  const usersLoading = users.loading;
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -72,7 +96,7 @@ export default function AdminPage() {
       if (!a.success) {
         throw new Error(a.error || 'Failed to load admin analytics');
       }
-      setAnalytics(a.data as any);
+      setAnalytics(a.data || null);
 
       if (fu.success) {
         setFeatureUsage(fu.data);
@@ -90,43 +114,17 @@ export default function AdminPage() {
     }
   };
 
-  const loadUsers = async (q?: string) => {
-    const requestId = ++userSearchReqIdRef.current;
-    setUsersLoading(true);
-    try {
-      const client = new ApiClient();
-      const resp = await client.adminListUsers({
-        q: (q ?? query) || undefined,
-        allTenants: !!(isSuperAdmin && allTenants),
-      });
-      if (requestId !== userSearchReqIdRef.current) return; // ignore stale response
-      if (!resp.success) throw new Error(resp.error || 'Failed to load users');
-      const rows = (resp.data as any)?.results || [];
-      setUsers(rows);
-    } catch (e: any) {
-      if (requestId !== userSearchReqIdRef.current) return;
-      setError(e?.message || 'Failed to load users');
-    } finally {
-      if (requestId === userSearchReqIdRef.current) setUsersLoading(false);
-    }
-  };
-
   useEffect(() => {
     if (!isLoading && isAuthenticated && isAdmin) {
       loadDashboard();
-      loadUsers('');
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isLoading, isAuthenticated, isAdmin]);
 
+  // Debounced search.
   useEffect(() => {
-    if (isLoading || !isAuthenticated || !isAdmin) return;
-    const t = setTimeout(() => {
-      loadUsers();
-    }, 250);
+    const t = setTimeout(() => setSearch(query.trim()), 250);
     return () => clearTimeout(t);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [query, allTenants, isSuperAdmin, isLoading, isAuthenticated, isAdmin]);
+  }, [query]);
 
   const promote = async (row: AdminUserRow) => {
     try {
@@ -136,7 +134,6 @@ export default function AdminPage() {
       const client = new ApiClient();
       const resp = await client.adminPromoteUser({ user_id: row.user_id, allTenants: !!(isSuperAdmin && allTenants) });
       if (!resp.success) throw new Error(resp.error || 'Promotion failed');
-      await loadUsers();
     } catch (e: any) {
       setError(e?.message || 'Promotion failed');
     } finally {
@@ -152,7 +149,6 @@ export default function AdminPage() {
       const client = new ApiClient();
       const resp = await client.adminDemoteUser({ user_id: row.user_id, allTenants: !!(isSuperAdmin && allTenants) });
       if (!resp.success) throw new Error(resp.error || 'Demotion failed');
-      await loadUsers();
     } catch (e: any) {
       setError(e?.message || 'Demotion failed');
     } finally {
@@ -318,7 +314,10 @@ export default function AdminPage() {
               </label>
             )}
             <button
-              onClick={() => loadUsers()}
+              onClick={() => {
+                if (query.trim() === search) users.reload();
+                else setSearch(query.trim());
+              }}
               disabled={loading || usersLoading}
               className="w-full sm:w-auto rounded-2xl bg-slate-900 text-white px-4 py-2 text-sm font-semibold hover:bg-slate-800 disabled:opacity-60"
             >
@@ -328,7 +327,7 @@ export default function AdminPage() {
         </div>
 
         <div className="mb-4 text-xs text-slate-500">
-          Showing <span className="font-semibold text-slate-700">{users.length}</span> users
+          <span className="font-semibold text-slate-700">{users.total}</span> users
           {query ? (
             <>
               {' '}for <span className="font-semibold text-slate-700">{query}</span>
@@ -343,6 +342,14 @@ export default function AdminPage() {
           </div>
         )}
 
+        {users.error && (
+          <div className="mb-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-rose-700 text-sm">{users.error}</div>
+        )}
+
+        <div className="mb-3 flex justify-end">
+          <SortSelect value={users.ordering} options={USER_SORT_OPTIONS} onChange={users.setOrdering} />
+        </div>
+
         <div className="overflow-x-auto">
           <table className="min-w-full text-sm">
             <thead>
@@ -354,7 +361,7 @@ export default function AdminPage() {
               </tr>
             </thead>
             <tbody>
-              {users.map((u) => (
+              {users.items.map((u) => (
                 <tr key={u.user_id} className="border-t border-slate-100">
                   <td className="py-3 pr-4 font-medium text-slate-900">{u.email}</td>
                   <td className="py-3 pr-4 text-slate-700">{[u.first_name, u.last_name].filter(Boolean).join(' ') || '—'}</td>
@@ -391,7 +398,7 @@ export default function AdminPage() {
                 </tr>
               ))}
 
-              {!users.length && (
+              {!users.items.length && !usersLoading && (
                 <tr>
                   <td colSpan={4} className="py-8 text-center text-slate-500">
                     No users found.
@@ -402,6 +409,16 @@ export default function AdminPage() {
           </table>
         </div>
 
+        <PaginationControls
+          page={users.page}
+          pageCount={users.pageCount}
+          pageSize={USERS_PAGE_SIZE}
+          total={users.total}
+          onPageChange={users.setPage}
+          disabled={usersLoading}
+          className="mt-4"
+        />
+
         <p className="mt-4 text-xs text-slate-500">
           Note: after promotion/demotion, the user must re-login to update their admin token.
         </p>
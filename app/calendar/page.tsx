@@ -3,6 +3,10 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import DashboardLayout from '../components/DashboardLayout';
 import { ApiClient, CalendarEvent } from '../lib/api-client';
+import type { ApiError } from '../lib/api-error';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import FieldError, { invalidInputClass } from '../components/FieldError';
+import { useQueryRevision } from '../lib/use-query-revision';
 import {
   CalendarDays,
   ChevronLeft,
@@ -16,6 +20,9 @@ type ViewMode = 'month' | 'week' | 'list';
 
 type ContractOption = { id: string; title: string };
 
+/** Event fields with an inline error slot; errors for other fields go in the form notice. */
+const EVENT_FORM_FIELDS = ['title', 'start_datetime', 'end_datetime', 'associated_contract_id', 'summary', 'description'];
+
 const startOfMonth = (d: Date) => new Date(d.getFullYear(), d.getMonth(), 1);
 const endOfMonth = (d: Date) => new Date(d.getFullYear(), d.getMonth() + 1, 0);
 const addDays = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n);
@@ -74,6 +81,7 @@ export default function CalendarPage() {
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<ApiError | null>(null);
 
   const [contracts, setContracts] = useState<ContractOption[]>([]);
 
@@ -141,8 +149,8 @@ export default function CalendarPage() {
       const start = toISODate(monthRange.gridStart);
       const end = toISODate(addDays(monthRange.gridEnd, 1));
       const res = await client.listCalendarEvents({ start, end });
-      if (!res.success) throw new Error(res.error || 'Failed to load events');
-      setEvents((res.data as any)?.results || []);
+      if (!res.success || !res.data) throw new Error(res.error || 'Failed to load events');
+      setEvents(res.data.results);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load events');
     } finally {
@@ -153,13 +161,14 @@ export default function CalendarPage() {
   const loadContracts = async () => {
     try {
       const client = new ApiClient();
-      const res = await client.getContracts({ page_size: '50' } as any);
-      if (!res.success) return;
-      const results = (res.data as any)?.results || (res.data as any) || [];
-      const mapped: ContractOption[] = (Array.isArray(results) ? results : []).map((c: any) => ({
-        id: String(c.id || c.contract_id || ''),
-        title: String(c.title || c.name || 'Untitled'),
-      })).filter((c) => c.id);
+      const res = await client.getContracts({ limit: 50 });
+      if (!res.success || !res.data) {
+        setError(res.error || 'Failed to load contracts');
+        return;
+      }
+      const mapped: ContractOption[] = res.data.results
+        .map((c) => ({ id: String(c.id || ''), title: c.title || 'Untitled' }))
+        .filter((c) => c.id);
       setContracts(mapped);
     } catch {
       // optional
@@ -170,9 +179,11 @@ export default function CalendarPage() {
     void loadMonth();
   }, [monthRange.gridStart, monthRange.gridEnd]);
 
+  const contractsRevision = useQueryRevision(['contracts']);
+
   useEffect(() => {
     void loadContracts();
-  }, []);
+  }, [contractsRevision]);
 
   const resetFormForDay = (day: Date) => {
     const start = new Date(day);
@@ -180,6 +191,7 @@ export default function CalendarPage() {
     const end = new Date(day);
     end.setHours(10, 0, 0, 0);
     setEditingEvent(null);
+    setSaveError(null);
     setFormTitle('');
     setFormSummary('');
     setFormDescription('');
@@ -196,6 +208,7 @@ export default function CalendarPage() {
 
   const startEdit = (ev: CalendarEvent) => {
     setEditingEvent(ev);
+    setSaveError(null);
     setFormTitle(ev.title || '');
     setFormSummary(ev.summary || '');
     setFormDescription(ev.description || '');
@@ -213,6 +226,7 @@ export default function CalendarPage() {
   const save = async () => {
     setBusy(true);
     setError(null);
+    setSaveError(null);
     try {
       const client = new ApiClient();
       const contractTitle = contracts.find((c) => c.id === formContractId)?.title || '';
@@ -228,12 +242,15 @@ export default function CalendarPage() {
         all_day: false,
       };
 
-      if (editingEvent) {
-        const res = await client.updateCalendarEvent(editingEvent.id, payload);
-        if (!res.success) throw new Error(res.error || 'Failed to update event');
-      } else {
-        const res = await client.createCalendarEvent(payload);
-        if (!res.success) throw new Error(res.error || 'Failed to create event');
+      const res = editingEvent
+        ? await client.updateCalendarEvent(editingEvent.id, payload)
+        : await client.createCalendarEvent(payload);
+      if (!res.success) {
+        if (res.apiError) {
+          setSaveError(res.apiError);
+          return;
+        }
+        throw new Error(res.error || (editingEvent ? 'Failed to update event' : 'Failed to create event'));
       }
 
       await loadMonth();
@@ -244,6 +261,12 @@ export default function CalendarPage() {
     }
   };
 
+  const invalid = (field: string) => (saveError?.fieldError(field) ? invalidInputClass : '');
+  const describedBy = (field: string) =>
+    saveError?.fieldError(field)
+      ? { 'aria-invalid': true, 'aria-describedby': `event-${field}-error` }
+      : {};
+
   const remove = async () => {
     if (!editingEvent) return;
     if (!window.confirm('Delete this event?')) return;
@@ -565,9 +588,11 @@ export default function CalendarPage() {
                   <input
                     value={formTitle}
                     onChange={(e) => setFormTitle(e.target.value)}
-                    className="mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200"
+                    className={`mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200 ${invalid('title')}`}
                     placeholder="Vendor Renewal"
+                    {...describedBy('title')}
                   />
+                  <FieldError id="event-title-error" message={saveError?.fieldError('title')} />
                 </div>
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -577,8 +602,10 @@ export default function CalendarPage() {
                       type="datetime-local"
                       value={formStart}
                       onChange={(e) => setFormStart(e.target.value)}
-                      className="mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200"
+                      className={`mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200 ${invalid('start_datetime')}`}
+                      {...describedBy('start_datetime')}
                     />
+                    <FieldError id="event-start_datetime-error" message={saveError?.fieldError('start_datetime')} />
                   </div>
                   <div>
                     <div className="text-[11px] font-bold text-slate-500 tracking-wide">END</div>
@@ -586,8 +613,10 @@ export default function CalendarPage() {
                       type="datetime-local"
                       value={formEnd}
                       onChange={(e) => setFormEnd(e.target.value)}
-                      className="mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200"
+                      className={`mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200 ${invalid('end_datetime')}`}
+                      {...describedBy('end_datetime')}
                     />
+                    <FieldError id="event-end_datetime-error" message={saveError?.fieldError('end_datetime')} />
                   </div>
                 </div>
 
@@ -608,6 +637,7 @@ export default function CalendarPage() {
                     </select>
                     <CalendarDays className="w-4 h-4 text-slate-400 absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none" />
                   </div>
+                  <FieldError id="event-associated_contract_id-error" message={saveError?.fieldError('associated_contract_id')} />
                 </div>
 
                 <div>
@@ -615,9 +645,11 @@ export default function CalendarPage() {
                   <input
                     value={formSummary}
                     onChange={(e) => setFormSummary(e.target.value)}
-                    className="mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200"
+                    className={`mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200 ${invalid('summary')}`}
                     placeholder="Short summary"
+                    {...describedBy('summary')}
                   />
+                  <FieldError id="event-summary-error" message={saveError?.fieldError('summary')} />
                 </div>
 
                 <div>
@@ -626,11 +658,15 @@ export default function CalendarPage() {
                     value={formDescription}
                     onChange={(e) => setFormDescription(e.target.value)}
                     rows={4}
-                    className="mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200 resize-none"
+                    className={`mt-2 w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-rose-200 resize-none ${invalid('description')}`}
                     placeholder="Discussion about renewal terms..."
+                    {...describedBy('description')}
                   />
+                  <FieldError id="event-description-error" message={saveError?.fieldError('description')} />
                 </div>
 
+                {saveError && <ApiErrorNotice error={saveError} inlineFields={EVENT_FORM_FIELDS} onRetry={save} />}
+
                 <button
                   type="button"
                   onClick={save}
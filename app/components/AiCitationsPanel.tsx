@@ -0,0 +1,209 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useEditorState, type Editor } from '@tiptap/react';
+import { BookOpen, ShieldCheck, Sparkles } from 'lucide-react';
+import { ApiClient, type AiCitationsChange, type AiRelevantClause, type Clause } from '@/app/lib/api-client';
+import { findAiChanges, type AiChange } from './tiptap/AiRewriteExtension';
+
+type Props = {
+  editor: Editor | null;
+  className?: string;
+};
+
+// Policy references the AI cites, by id; unknown ones are shown as sent.
+const POLICY_LABELS: Record<string, string> = {
+  'plain-language': 'Plain-language drafting',
+  'drafting-style': 'Drafting style guide',
+  mutuality: 'Mutual obligations',
+  'risk-checklist': 'Risk checklist',
+};
+
+const percent = (similarity?: number) => (similarity == null ? null : `${Math.round(similarity * 100)}%`);
+
+/**
+ * Library clauses by `clause_id`, loaded (every page) the first time `enabled`
+ * is set. A failed load is retried the next time it is enabled.
+ */
+function useLibraryClauses(enabled: boolean) {
+  const api = useMemo(() => new ApiClient(), []);
+  const [clauses, setClauses] = useState<Map<string, Clause> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || clauses) return;
+    let cancelled = false;
+    void api.getAllClauses().then((res) => {
+      if (cancelled) return;
+      if (res.success && res.data) {
+        setClauses(new Map(res.data.map((c) => [c.clause_id, c])));
+        setError(null);
+      } else {
+        setError(res.error || 'Failed to load the clause library');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [api, enabled, clauses]);
+
+  return { clauses, error };
+}
+
+/**
+ * The changes of one AI response with the library clauses and policies each
+ * relied on. Clauses show the similarity the search gave them and open to
+ * their library text; clauses the model was given but no change cites are
+ * listed after the changes.
+ */
+export function AiCitationList({ changes, context }: { changes: AiCitationsChange[]; context: AiRelevantClause[] }) {
+  const [openClause, setOpenClause] = useState<string | null>(null);
+  const { clauses: library, error: libraryError } = useLibraryClauses(!!openClause);
+  const retrieved = new Map(context.map((c) => [c.clause_id, c]));
+  const cited = new Set(changes.flatMap((c) => c.clause_ids));
+  const uncited = context.filter((c) => !cited.has(c.clause_id));
+
+  const clauseChip = (clauseId: string) => {
+    const clause = retrieved.get(clauseId);
+    const score = percent(clause?.similarity);
+    const open = openClause === clauseId;
+    return (
+      <button
+        key={clauseId}
+        type="button"
+        onClick={() => setOpenClause(open ? null : clauseId)}
+        className={`inline-flex max-w-full items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] ${
+          open ? 'border-[#0F141F] bg-[#0F141F] text-white' : 'border-black/10 bg-white text-[#111827] hover:bg-black/5'
+        }`}
+        title={clauseId}
+      >
+        <BookOpen className="w-3 h-3 flex-none" />
+        <span className="truncate">{clause?.name || library?.get(clauseId)?.name || clauseId}</span>
+        {score ? <span className={open ? 'text-white/70' : 'text-black/45'}>{score}</span> : null}
+      </button>
+    );
+  };
+
+  const libraryText = (clauseId: string) => {
+    if (openClause !== clauseId) return null;
+    const clause = library?.get(clauseId);
+    return (
+      <div className="mt-2 rounded-xl border border-black/5 bg-white px-3 py-2 text-[11px] leading-5 text-black/60">
+        {!library ? (
+          libraryError ? <span className="text-rose-600">{libraryError}</span> : 'Loading clause…'
+        ) : clause ? (
+          <>
+            <div className="font-semibold text-[#111827]">
+              {clause.name}
+              <span className="font-normal text-black/40">
+                {' '}
+                · {clause.clause_id}
+                {clause.version != null ? ` · v${clause.version}` : ''}
+              </span>
+            </div>
+            <div className="mt-1 whitespace-pre-wrap">{clause.content}</div>
+          </>
+        ) : (
+          'This clause is no longer in the library.'
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {changes.map((change, i) => (
+        <div key={i} className="rounded-xl border border-black/5 bg-[#F6F3ED]/60 px-3 py-2">
+          <div className="text-xs font-semibold text-[#111827]">{change.summary}</div>
+          {change.clause_ids.length || change.policy_refs.length ? (
+            <div className="mt-1.5 flex flex-wrap gap-1">
+              {change.clause_ids.map(clauseChip)}
+              {change.policy_refs.map((ref) => (
+                <span
+                  key={ref}
+                  className="inline-flex items-center gap-1 rounded-full border border-violet-200 bg-violet-50 px-2 py-0.5 text-[11px] text-violet-800"
+                  title={ref}
+                >
+                  <ShieldCheck className="w-3 h-3" />
+                  {POLICY_LABELS[ref] || ref}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <div className="mt-1 text-[11px] text-black/40">No sources cited.</div>
+          )}
+          {change.clause_ids.map(libraryText)}
+        </div>
+      ))}
+      {uncited.length ? (
+        <div className="px-1">
+          <div className="text-[11px] font-semibold text-black/45">Also retrieved</div>
+          <div className="mt-1 flex flex-wrap gap-1">{uncited.map((c) => clauseChip(c.clause_id))}</div>
+          {uncited.map((c) => libraryText(c.clause_id))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Accepted AI rewrites in the document and what justified them. Hovering a
+ * rewrite highlights its text in the editor; clicking it scrolls there.
+ */
+const AiCitationsPanel: React.FC<Props> = ({ editor, className }) => {
+  const changes =
+    useEditorState({
+      editor,
+      selector: ({ editor: ed }) => (ed ? [...findAiChanges(ed.state.doc).values()] : []),
+      equalityFn: (a, b) =>
+        !!a &&
+        !!b &&
+        a.length === b.length &&
+        a.every((x, i) => x.id === b[i].id && x.from === b[i].from && x.to === b[i].to && x.text === b[i].text),
+    }) || [];
+
+  const highlight = (id: string | null) => {
+    if (editor && !editor.isDestroyed) editor.commands.setAiChangeHighlight(id);
+  };
+
+  const reveal = (change: AiChange) => {
+    editor?.chain().focus().setTextSelection(change.from).scrollIntoView().run();
+  };
+
+  return (
+    <div className={`bg-white rounded-[28px] border border-black/5 shadow-sm overflow-hidden ${className || ''}`}>
+      <div className="px-4 sm:px-6 pt-6 pb-4 border-b border-black/5">
+        <p className="text-sm font-semibold text-[#111827]">AI Citations</p>
+        <p className="text-xs text-black/45 mt-1">Accepted AI rewrites, with the clauses and policies behind each change.</p>
+      </div>
+      <div className="p-4 sm:p-5">
+        {changes.length === 0 ? (
+          <div className="text-sm text-black/45">No AI rewrites yet. Select text in the editor to rewrite it.</div>
+        ) : (
+          <ul className="space-y-4 max-h-[50vh] overflow-y-auto pr-1" onMouseLeave={() => highlight(null)}>
+            {changes.map((change) => (
+              <li key={change.id} onMouseEnter={() => highlight(change.id)}>
+                <button type="button" onClick={() => reveal(change)} className="w-full text-left">
+                  <div className="flex items-center gap-1.5 text-xs font-semibold text-[#111827]">
+                    <Sparkles className="w-3.5 h-3.5 flex-none text-violet-600" />
+                    <span className="truncate">{change.instruction || 'AI rewrite'}</span>
+                  </div>
+                  <div className="text-[11px] text-black/45 mt-0.5">
+                    {change.authorName || 'Unknown'}
+                    {change.date ? ` · ${new Date(change.date).toLocaleString()}` : ''}
+                  </div>
+                  <div className="mt-1 text-xs text-black/60 line-clamp-2">“{change.text.trim()}”</div>
+                </button>
+                <div className="mt-2">
+                  <AiCitationList changes={change.citations} context={change.context} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AiCitationsPanel;
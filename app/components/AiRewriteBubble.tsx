@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { useEditorState, type Editor } from '@tiptap/react';
+import { BubbleMenu } from '@tiptap/react/menus';
+import { Check, Handshake, Loader2, Scissors, Sparkles, Square, X } from 'lucide-react';
+
+import type { AiStreamHandlers } from '@/app/lib/api-client';
+import { getAiRewrite } from './tiptap/AiRewriteExtension';
+
+/** Streams a rewrite of `text`; the editor supplies the contract (or template) it belongs to. */
+export type AiRewriteStream = (request: { text: string; instruction: string }, handlers: AiStreamHandlers) => Promise<void>;
+
+const ACTIONS: Array<{ label: string; instruction: string; icon: React.ElementType }> = [
+  { label: 'Rewrite', instruction: 'Rewrite this clause in plain English without changing its meaning.', icon: Sparkles },
+  { label: 'Tighten', instruction: 'Tighten this clause: remove redundant and filler words.', icon: Scissors },
+  { label: 'Make mutual', instruction: 'Make this clause mutual so that it binds both parties equally.', icon: Handshake },
+];
+
+/**
+ * Selection bubble for inline AI rewrites: pick an action, watch the diff
+ * stream into the text, then edit, accept or reject the proposal.
+ */
+export default function AiRewriteBubble({ editor, stream }: { editor: Editor; stream: AiRewriteStream }) {
+  const abortRef = useRef<AbortController | null>(null);
+
+  const rewrite = useEditorState({ editor, selector: ({ editor }) => (editor ? getAiRewrite(editor.state) : null) });
+
+  // Closing the editor stops the stream.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const update = (patch: Parameters<Editor['commands']['updateAiRewrite']>[0]) =>
+    // The diff grows without the selection moving, so the bubble has to be told to follow it.
+    editor.chain().updateAiRewrite(patch).setMeta('bubbleMenu', 'updatePosition').run();
+
+  const start = async (instruction: string) => {
+    abortRef.current?.abort();
+    if (!editor.chain().focus().startAiRewrite(instruction).run()) return;
+    const original = getAiRewrite(editor.state)?.original || '';
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    let proposal = '';
+    await stream(
+      { text: original, instruction },
+      {
+        signal: controller.signal,
+        onDelta: (delta) => {
+          proposal += delta;
+          update({ proposal });
+        },
+        onRestart: () => {
+          proposal = '';
+          update({ proposal });
+        },
+        onContext: (ctx) => update({ context: ctx.relevant_clauses || [] }),
+        onCitations: (citations) => update({ citations: citations.changes || [] }),
+        onDone: () => update({ status: 'ready' }),
+        onError: (error) => update({ status: 'error', error }),
+      }
+    );
+    if (abortRef.current === controller) abortRef.current = null;
+    // Stopped early: what arrived so far can still be edited and accepted.
+    if (controller.signal.aborted && getAiRewrite(editor.state)?.status === 'streaming') update({ status: 'ready' });
+  };
+
+  const stop = () => abortRef.current?.abort();
+
+  const reject = () => {
+    abortRef.current?.abort();
+    editor.chain().focus().rejectAiRewrite().run();
+  };
+
+  const accept = () => editor.chain().focus().acceptAiRewrite().run();
+
+  const streaming = rewrite?.status === 'streaming';
+  const clauseNames = new Map((rewrite?.context || []).map((c) => [c.clause_id, c.name || c.clause_id]));
+
+  return (
+    <BubbleMenu
+      editor={editor}
+      options={{ placement: 'bottom-start' }}
+      getReferencedVirtualElement={() => {
+        // While a rewrite is open the bubble stays with its diff, wherever the cursor goes.
+        const diff = getAiRewrite(editor.state) ? editor.view.dom.querySelector('.ai-rewrite-diff') : null;
+        return diff ? { getBoundingClientRect: () => diff.getBoundingClientRect(), getClientRects: () => diff.getClientRects() } : null;
+      }}
+      shouldShow={({ editor, element, view, state, from, to }) => {
+        if (!editor.isEditable || !(view.hasFocus() || element.contains(document.activeElement))) return false;
+        return !!getAiRewrite(state) || (!state.selection.empty && !!state.doc.textBetween(from, to).trim());
+      }}
+    >
+      {rewrite ? (
+        <div className="w-[26rem] max-w-[90vw] rounded-2xl border border-black/10 bg-white p-3 text-[#0F141F] shadow-lg">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-1.5 text-xs font-semibold">
+              {streaming ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+              {streaming ? 'Rewriting…' : rewrite.status === 'error' ? 'Rewrite failed' : 'Proposed rewrite'}
+            </div>
+            <div className="text-[11px] text-black/45 truncate">{rewrite.instruction}</div>
+          </div>
+
+          {rewrite.status === 'error' ? (
+            <div className="mt-2 rounded-xl bg-rose-50 px-3 py-2 text-xs text-rose-700">{rewrite.error || 'Something went wrong.'}</div>
+          ) : (
+            <textarea
+              className="mt-2 w-full min-h-[6rem] max-h-48 rounded-xl border border-black/10 bg-[#F6F3ED]/60 px-3 py-2 text-xs leading-5 outline-none focus:border-black/30 disabled:opacity-70"
+              value={rewrite.proposal}
+              onChange={(e) => update({ proposal: e.target.value })}
+              disabled={streaming}
+              aria-label="Proposed text"
+            />
+          )}
+
+          {rewrite.citations.length ? (
+            <ul className="mt-2 space-y-1 text-[11px] text-black/55">
+              {rewrite.citations.map((change, i) => (
+                <li key={i}>
+                  <span className="font-semibold text-black/70">{change.summary}</span>
+                  {change.clause_ids.length ? ` · ${change.clause_ids.map((id) => clauseNames.get(id) || id).join(', ')}` : ''}
+                  {change.policy_refs.length ? ` · ${change.policy_refs.join(', ')}` : ''}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+
+          <div className="mt-3 flex items-center justify-end gap-2">
+            {streaming ? (
+              <button
+                type="button"
+                className="h-8 px-3 rounded-full bg-white border border-black/10 text-black/70 text-xs font-semibold inline-flex items-center gap-1.5"
+                onClick={stop}
+              >
+                <Square className="w-3 h-3" />
+                Stop
+              </button>
+            ) : null}
+            <button
+              type="button"
+              className="h-8 px-3 rounded-full bg-white border border-black/10 text-black/70 text-xs font-semibold inline-flex items-center gap-1.5"
+              onClick={reject}
+            >
+              <X className="w-3.5 h-3.5" />
+              Reject
+            </button>
+            <button
+              type="button"
+              className="h-8 px-3 rounded-full bg-[#0F141F] text-white text-xs font-semibold inline-flex items-center gap-1.5 disabled:opacity-50"
+              onClick={accept}
+              disabled={rewrite.status !== 'ready'}
+            >
+              <Check className="w-3.5 h-3.5" />
+              Accept
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-1 rounded-full border border-black/10 bg-white p-1 shadow-lg">
+          {ACTIONS.map(({ label, instruction, icon: Icon }) => (
+            <button
+              key={label}
+              type="button"
+              className="h-8 px-3 rounded-full text-xs font-semibold text-black/70 hover:bg-black/5 inline-flex items-center gap-1.5"
+              onClick={() => void start(instruction)}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </BubbleMenu>
+  );
+}
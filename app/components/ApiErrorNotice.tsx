@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { ApiError } from '@/app/lib/api-error';
+
+interface ApiErrorNoticeProps {
+  error: ApiError;
+  /**
+   * Fields the form shows inline (`FieldError`). Their messages are left out
+   * here; errors for any other field are listed so nothing gets lost.
+   */
+  inlineFields?: string[];
+  /** Offered when the error is retryable (network, rate limit, 5xx). */
+  onRetry?: () => void;
+  className?: string;
+}
+
+const label = (field: string) => {
+  const text = field.replace(/[._]/g, ' ').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+/** Form-level summary of an `ApiError`: message, unplaced field errors, retry and the request id. */
+const ApiErrorNotice: React.FC<ApiErrorNoticeProps> = ({ error, inlineFields = [], onRetry, className }) => {
+  const isInline = (key: string) => inlineFields.some((field) => key === field || key.startsWith(`${field}.`));
+  const fieldEntries = Object.entries(error.fieldErrors);
+  const unplaced = fieldEntries.filter(([key]) => !isInline(key));
+  const lines = [...error.formErrors, ...unplaced.map(([key, messages]) => `${label(key)}: ${messages.join(' ')}`)];
+  if (!lines.length) lines.push(fieldEntries.length ? 'Please fix the highlighted fields.' : error.message);
+
+  return (
+    <div
+      role="alert"
+      className={`rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700 ${className || ''}`}
+    >
+      {lines.length === 1 ? (
+        <p>{lines[0]}</p>
+      ) : (
+        <ul className="list-disc pl-5 space-y-0.5">
+          {lines.map((line) => (
+            <li key={line}>{line}</li>
+          ))}
+        </ul>
+      )}
+      {(error.requestId || (error.retryable && onRetry)) && (
+        <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+          {error.retryable && onRetry && (
+            <button
+              type="button"
+              onClick={onRetry}
+              className="inline-flex items-center gap-1 font-semibold text-rose-700 hover:text-rose-900"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              Try again
+            </button>
+          )}
+          {error.requestId && (
+            <span className="text-rose-600/80">
+              Reference: <span className="font-mono select-all">{error.requestId}</span>
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiErrorNotice;
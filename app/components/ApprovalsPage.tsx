@@ -29,9 +29,8 @@ export default function ApprovalsPage() {
       setError(null)
       const response = await apiClient.getApprovals()
 
-      if (response.success) {
-        const data = response.data as any
-        const approvalsList = Array.isArray(data) ? data : data.results || []
+      if (response.success && response.data) {
+        const approvalsList = response.data.results
         setApprovals(approvalsList)
       } else {
         setError(response.error || 'Failed to fetch approvals')
@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from 'react';
 import DashboardLayout from './DashboardLayout';
 import { ApiClient, ApprovalRequest } from '@/app/lib/api-client';
+import { useQueryRevision } from '@/app/lib/use-query-revision';
 import { Bell, Search } from 'lucide-react';
 
 type ApprovalRow = {
@@ -41,30 +42,44 @@ const ApprovalsPageV2: React.FC = () => {
     return colors[priority] || 'text-slate-600 bg-slate-50';
   };
 
+  // Reload when approvals (or the contracts they point at) change anywhere in the app.
+  const dataRevision = useQueryRevision(['approvals', 'contracts']);
+  const loadedOnceRef = React.useRef(false);
+
   useEffect(() => {
     const load = async () => {
       try {
-        setLoading(true);
+        if (!loadedOnceRef.current) setLoading(true);
         setError(null);
         const client = new ApiClient();
 
-        const res = await client.getApprovals();
+        const [res, contractsRes] = await Promise.all([client.getApprovals(), client.getContracts()]);
         if (!res.success) {
           setError(res.error || 'Failed to load approvals');
           return;
         }
 
-        const items: ApprovalRequest[] = Array.isArray(res.data)
-          ? (res.data as any)
-          : (res.data as any)?.results || [];
+        const items: ApprovalRequest[] = res.data?.results || [];
+
+        // Resolve titles from the shared contracts list; only contracts missing from it
+        // are fetched one by one (and those reads are de-duplicated by the query cache).
+        const titles = new Map<string, string>();
+        for (const c of contractsRes.data?.results || []) {
+          if (c.title) titles.set(String(c.id), c.title);
+        }
 
         const rows = await Promise.all(
           items.map(async (a: any) => {
             let title = `${a.entity_type || 'Entity'} #${a.entity_id}`;
             if ((a.entity_type || '').toLowerCase().includes('contract') && a.entity_id) {
-              const contractRes = await client.getContractById(String(a.entity_id));
-              if (contractRes.success && contractRes.data) {
-                title = (contractRes.data as any).title || (contractRes.data as any).name || title;
+              const known = titles.get(String(a.entity_id));
+              if (known) {
+                title = known;
+              } else {
+                const contractRes = await client.getContractById(String(a.entity_id));
+                if (contractRes.success && contractRes.data) {
+                  title = contractRes.data.title || title;
+                }
               }
             }
 
@@ -82,6 +97,7 @@ const ApprovalsPageV2: React.FC = () => {
         );
 
         setApprovals(rows);
+        loadedOnceRef.current = true;
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown error');
       } finally {
@@ -90,7 +106,7 @@ const ApprovalsPageV2: React.FC = () => {
     };
 
     load();
-  }, []);
+  }, [dataRevision]);
 
   const filteredApprovals = approvals
     .filter((a) => (filterStatus === 'all' ? true : a.status === filterStatus))
@@ -108,45 +124,15 @@ const ApprovalsPageV2: React.FC = () => {
     return 2.4;
   })();
 
-  const reload = async () => {
-    const client = new ApiClient();
-    const res = await client.getApprovals();
-    if (!res.success) return;
-    const items: ApprovalRequest[] = Array.isArray(res.data) ? (res.data as any) : (res.data as any)?.results || [];
-    const rows = await Promise.all(
-      items.map(async (a: any) => {
-        let title = `${a.entity_type || 'Entity'} #${a.entity_id}`;
-        if ((a.entity_type || '').toLowerCase().includes('contract') && a.entity_id) {
-          const contractRes = await client.getContractById(String(a.entity_id));
-          if (contractRes.success && contractRes.data) {
-            title = (contractRes.data as any).title || (contractRes.data as any).name || title;
-          }
-        }
-        return {
-          id: String(a.id),
-          contractTitle: title,
-          requester: a.requester_id ? `Requester ${String(a.requester_id).slice(0, 6)}` : 'Requester',
-          createdAt: a.created_at || new Date().toISOString(),
-          status: a.status,
-          priority: (a.priority || 'normal') as 'low' | 'normal' | 'high',
-          entityType: a.entity_type,
-          entityId: a.entity_id,
-        } as ApprovalRow;
-      })
-    );
-    setApprovals(rows);
-  };
-
   const handleApprove = async (id: string) => {
     const client = new ApiClient();
+    // Success invalidates 'approvals', which reloads the list via `dataRevision`.
     await client.approveRequest(id);
-    await reload();
   };
 
   const handleReject = async (id: string) => {
     const client = new ApiClient();
     await client.rejectRequest(id);
-    await reload();
   };
 
   return (
@@ -0,0 +1,225 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useEditorState, type Editor } from '@tiptap/react';
+import { GripVertical, RefreshCw } from 'lucide-react';
+import { ApiClient, type Clause } from '@/app/lib/api-client';
+import { CLAUSE_DRAG_TYPE, findClauseBlocks, type ClauseBlockInfo, type LibraryClause } from './tiptap/ClauseBlockExtension';
+
+type Props = {
+  editor: Editor | null;
+  className?: string;
+};
+
+const STATUS_LABEL: Record<ClauseBlockInfo['status'], string> = {
+  synced: 'In sync',
+  edited: 'Edited',
+  outdated: 'Update available',
+  unknown: 'Not in library',
+};
+
+const STATUS_TONE: Record<ClauseBlockInfo['status'], string> = {
+  synced: 'text-emerald-700',
+  edited: 'text-amber-700',
+  outdated: 'text-sky-700',
+  unknown: 'text-black/40',
+};
+
+const toLibraryClause = (c: Clause): LibraryClause => ({
+  clause_id: c.clause_id,
+  name: c.name,
+  version: c.version,
+  content: c.content,
+});
+
+/**
+ * The clause library next to the editor: drag a clause (or press Insert) to add it
+ * as a clause block, and see which inserted clauses drifted from the library.
+ */
+const ClauseLibraryPanel: React.FC<Props> = ({ editor, className }) => {
+  const api = useMemo(() => new ApiClient(), []);
+  const [clauses, setClauses] = useState<Clause[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    void api.getClauses().then((res) => {
+      if (cancelled) return;
+      if (res.success && res.data) {
+        setClauses(res.data.results.filter((c) => c.status !== 'archived'));
+        setError(null);
+      } else {
+        setError(res.error || 'Failed to load clauses');
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [api]);
+
+  // The editor compares clause blocks against the library it was given.
+  useEffect(() => {
+    if (!editor || editor.isDestroyed || !clauses.length) return;
+    editor.commands.setClauseLibrary(clauses.map(toLibraryClause));
+  }, [editor, clauses]);
+
+  const inserted =
+    useEditorState({
+      editor,
+      selector: ({ editor: ed }) => (ed ? findClauseBlocks(ed.state.doc, ed.storage.clauseBlock.library) : []),
+      equalityFn: (a, b) =>
+        !!a &&
+        !!b &&
+        a.length === b.length &&
+        a.every((x, i) => x.pos === b[i].pos && x.status === b[i].status && x.version === b[i].version),
+    }) || [];
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!q) return clauses;
+    return clauses.filter((c) => `${c.name} ${c.clause_id} ${c.contract_type} ${c.content}`.toLowerCase().includes(q));
+  }, [clauses, search]);
+
+  const insert = (c: Clause) => {
+    if (!editor) return;
+    editor.chain().focus().insertClause(toLibraryClause(c)).run();
+  };
+
+  const reveal = (block: ClauseBlockInfo) => {
+    if (!editor) return;
+    editor.chain().focus().setTextSelection(block.pos + 2).scrollIntoView().run();
+  };
+
+  const updateAll = () => {
+    if (!editor) return;
+    // Back to front so earlier positions stay valid.
+    const chain = editor.chain().focus();
+    [...inserted]
+      .reverse()
+      .filter((b) => b.status === 'outdated')
+      .forEach((b) => chain.updateClause(b.pos));
+    chain.run();
+  };
+
+  const outdated = inserted.filter((b) => b.status === 'outdated').length;
+
+  return (
+    <div className={`bg-white rounded-[28px] border border-black/5 shadow-sm overflow-hidden ${className || ''}`}>
+      <div className="px-4 sm:px-6 pt-6 pb-4 border-b border-black/5">
+        <p className="text-sm font-semibold text-[#111827]">Clause Library</p>
+        <p className="text-xs text-black/45 mt-1">Drag a clause into the document, or insert it at the cursor.</p>
+      </div>
+      <div className="p-4 sm:p-5">
+        {inserted.length > 0 && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs font-semibold text-black/55">In this contract</p>
+              {outdated > 0 && (
+                <button
+                  type="button"
+                  onClick={updateAll}
+                  className="inline-flex items-center gap-1 text-xs font-semibold text-sky-700 hover:underline"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  Update {outdated}
+                </button>
+              )}
+            </div>
+            <ul className="mt-2 space-y-1">
+              {inserted.map((b) => (
+                <li key={`${b.pos}-${b.clauseId}`} className="flex items-center gap-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => reveal(b)}
+                    className="min-w-0 flex-1 text-left truncate text-[#111827] hover:underline"
+                    title={b.clauseId}
+                  >
+                    {b.name}
+                    {b.version != null && <span className="text-black/40"> · v{b.version}</span>}
+                  </button>
+                  <span className={`flex-none font-semibold ${STATUS_TONE[b.status]}`}>
+                    {b.status === 'outdated' && b.library?.version ? `v${b.library.version} available` : STATUS_LABEL[b.status]}
+                  </span>
+                  {(b.status === 'outdated' || b.status === 'edited') && (
+                    <button
+                      type="button"
+                      onClick={() => editor?.chain().focus().updateClause(b.pos).run()}
+                      className="flex-none text-black/45 hover:text-black"
+                      title={b.status === 'outdated' ? 'Update to the library version' : 'Reset to the library text'}
+                      aria-label={`Update ${b.name}`}
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 bg-[#F6F3ED] rounded-full px-4 py-2">
+          <svg className="w-4 h-4 text-black/35" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+          <input
+            className="bg-transparent outline-none text-sm w-full"
+            placeholder="Search clauses…"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        {error && <div className="text-xs text-rose-600 mt-3">{error}</div>}
+
+        <div className="mt-4 space-y-3 max-h-[38vh] overflow-y-auto pr-1">
+          {loading ? (
+            <div className="text-sm text-black/45">Loading clauses…</div>
+          ) : filtered.length === 0 ? (
+            <div className="text-sm text-black/45">No clauses found.</div>
+          ) : (
+            filtered.map((c) => (
+              <div
+                key={c.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(CLAUSE_DRAG_TYPE, JSON.stringify(toLibraryClause(c)));
+                  e.dataTransfer.setData('text/plain', c.content);
+                  e.dataTransfer.effectAllowed = 'copy';
+                }}
+                className="rounded-2xl border border-black/5 bg-[#F6F3ED] p-4 cursor-grab active:cursor-grabbing"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 flex items-start gap-2">
+                    <GripVertical className="w-4 h-4 mt-0.5 flex-none text-black/25" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-[#111827] truncate">{c.name}</p>
+                      <p className="text-[11px] text-black/45 mt-1 truncate">
+                        {c.clause_id}
+                        {c.version != null ? ` · v${c.version}` : ''}
+                        {c.is_mandatory ? ' · mandatory' : ''}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => insert(c)}
+                    disabled={!editor}
+                    className="h-9 px-3 rounded-full bg-white border border-black/10 text-sm font-semibold text-[#0F141F] hover:bg-black/5 disabled:opacity-60"
+                  >
+                    Insert
+                  </button>
+                </div>
+                <p className="text-xs text-black/45 mt-2 line-clamp-2">{c.content}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClauseLibraryPanel;
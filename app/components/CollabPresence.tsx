@@ -0,0 +1,80 @@
+'use client';
+
+import React from 'react';
+import type { CollabPeer, CollabStatus } from '@/app/lib/use-collab-session';
+
+interface CollabPresenceProps {
+  status: CollabStatus;
+  peers: CollabPeer[];
+  className?: string;
+}
+
+const STATUS_LABEL: Record<CollabStatus, string> = {
+  off: '',
+  connecting: 'Joining…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+  unavailable: 'Co-editing unavailable',
+};
+
+const STATUS_DOT: Record<CollabStatus, string> = {
+  off: '',
+  connecting: 'bg-amber-400',
+  live: 'bg-emerald-500',
+  reconnecting: 'bg-amber-400',
+  unavailable: 'bg-slate-300',
+};
+
+const MAX_AVATARS = 5;
+
+const initialsOf = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join('') || '?';
+
+/** Who else has the contract open, and the state of the co-editing connection. */
+const CollabPresence: React.FC<CollabPresenceProps> = ({ status, peers, className }) => {
+  if (status === 'off') return null;
+
+  // The same person in two tabs shows once.
+  const people = peers.filter((p, i) => peers.findIndex((q) => q.id === p.id) === i);
+  const shown = people.slice(0, MAX_AVATARS);
+  const hidden = people.length - shown.length;
+
+  return (
+    <div className={`flex items-center gap-2 ${className || ''}`}>
+      {shown.length > 0 && (
+        <div className="flex -space-x-2">
+          {shown.map((p) => {
+            const label = p.self ? `${p.name} (you)` : p.name;
+            return (
+              <span
+                key={p.clientId}
+                title={label}
+                aria-label={label}
+                className="w-7 h-7 rounded-full border-2 border-white grid place-items-center text-[10px] font-bold text-white"
+                style={{ backgroundColor: p.color }}
+              >
+                {initialsOf(p.name)}
+              </span>
+            );
+          })}
+          {hidden > 0 && (
+            <span className="w-7 h-7 rounded-full border-2 border-white bg-slate-200 grid place-items-center text-[10px] font-bold text-slate-600">
+              +{hidden}
+            </span>
+          )}
+        </div>
+      )}
+      <span className="flex items-center gap-1.5 text-xs text-black/45 font-medium">
+        <span className={`w-2 h-2 rounded-full ${STATUS_DOT[status]}`} />
+        {STATUS_LABEL[status]}
+      </span>
+    </div>
+  );
+};
+
+export default CollabPresence;
@@ -0,0 +1,569 @@
+'use client';
+
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useEditorState, type Editor } from '@tiptap/react';
+import type { Transaction } from '@tiptap/pm/state';
+import { Check, MessageSquarePlus, RotateCcw, Trash2 } from 'lucide-react';
+import { ApiClient, type ContractCommentThread, type TeamMember } from '@/app/lib/api-client';
+import { useAuth } from '@/app/lib/auth-context';
+import { useQueryRevision } from '@/app/lib/use-query-revision';
+import { findCommentAnchors } from './tiptap/CommentAnchorExtension';
+
+type Props = {
+  contractId: string;
+  editor: Editor | null;
+  /** Thread to open first (e.g. from a mention notification link). */
+  initialThreadId?: string | null;
+  className?: string;
+};
+
+type Range = { from: number; to: number; quote: string };
+
+const CARD_GAP = 8;
+const NEW_THREAD = '__new__';
+
+const memberLabel = (m: TeamMember) => m.full_name || m.email;
+
+const formatWhen = (iso: string) => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime())
+    ? ''
+    : d.toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+/** Comment text with the @mentions it recorded highlighted. */
+function CommentBody({ body, mentions }: { body: string; mentions: TeamMember[] }) {
+  const labels = mentions.map((m) => `@${memberLabel(m)}`).filter((l) => body.includes(l));
+  if (!labels.length) return <>{body}</>;
+  const escaped = labels.map((l) => l.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = body.split(new RegExp(`(${escaped.join('|')})`, 'g'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        labels.includes(part) ? (
+          <span key={i} className="font-semibold text-[#0F141F] bg-amber-100 rounded px-0.5">
+            {part}
+          </span>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Textarea with an @mention picker. Typing `@` followed by a name searches the
+ * team; picking someone inserts `@Full Name` and records their id.
+ */
+function CommentComposer({
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (body: string, mentions: string[]) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const api = useMemo(() => new ApiClient(), []);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const searchSeqRef = useRef(0);
+  const [body, setBody] = useState('');
+  const [picked, setPicked] = useState<TeamMember[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<TeamMember[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = /(^|\s)@([^\s@]{0,30})$/.exec(value.slice(0, caret));
+    const query = match ? match[2] : null;
+    setMentionQuery(query);
+    setHighlighted(0);
+    if (query === null) {
+      setSuggestions([]);
+      return;
+    }
+    const seq = ++searchSeqRef.current;
+    void api.listTeamMembers({ q: query, limit: 6 }).then((res) => {
+      if (seq !== searchSeqRef.current) return;
+      setSuggestions(res.success && res.data ? res.data.results : []);
+    });
+  };
+
+  const pick = (member: TeamMember) => {
+    const el = textareaRef.current;
+    const caret = el?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@([^\s@]{0,30})$/, `@${memberLabel(member)} `);
+    const next = before + body.slice(caret);
+    setBody(next);
+    setPicked((prev) => (prev.some((m) => m.user_id === member.user_id) ? prev : [...prev, member]));
+    setMentionQuery(null);
+    setSuggestions([]);
+    window.requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const submit = async () => {
+    const text = body.trim();
+    if (!text || submitting) return;
+    // Only mentions whose name is still in the text count.
+    const mentions = picked.filter((m) => text.includes(`@${memberLabel(m)}`)).map((m) => m.user_id);
+    setSubmitting(true);
+    const ok = await onSubmit(text, mentions);
+    setSubmitting(false);
+    if (ok) {
+      setBody('');
+      setPicked([]);
+    }
+  };
+
+  const pickerOpen = mentionQuery !== null && suggestions.length > 0;
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        autoFocus={autoFocus}
+        rows={2}
+        placeholder={placeholder}
+        className="w-full resize-none rounded-xl border border-black/10 bg-white px-3 py-2 text-xs text-[#0F141F] outline-none focus:ring-2 focus:ring-amber-200"
+        onChange={(e) => {
+          setBody(e.target.value);
+          updateMentionQuery(e.target.value, e.target.selectionStart ?? e.target.value.length);
+        }}
+        onKeyDown={(e) => {
+          if (pickerOpen) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+              e.preventDefault();
+              const step = e.key === 'ArrowDown' ? 1 : -1;
+              setHighlighted((h) => (h + step + suggestions.length) % suggestions.length);
+              return;
+            }
+            if (e.key === 'Enter' || e.key === 'Tab') {
+              e.preventDefault();
+              pick(suggestions[highlighted] || suggestions[0]);
+              return;
+            }
+            if (e.key === 'Escape') {
+              e.preventDefault();
+              setMentionQuery(null);
+              setSuggestions([]);
+              return;
+            }
+          }
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            void submit();
+          }
+          if (e.key === 'Escape' && onCancel) onCancel();
+        }}
+      />
+
+      {pickerOpen ? (
+        <ul className="absolute left-0 right-0 top-full mt-1 z-20 rounded-xl border border-black/10 bg-white shadow-lg overflow-hidden">
+          {suggestions.map((m, i) => (
+            <li key={m.user_id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea.
+                  e.preventDefault();
+                  pick(m);
+                }}
+                className={`w-full text-left px-3 py-2 text-xs ${i === highlighted ? 'bg-amber-50' : 'hover:bg-black/5'}`}
+              >
+                <span className="font-semibold text-[#0F141F]">{memberLabel(m)}</span>
+                {m.full_name ? <span className="ml-1 text-black/45">{m.email}</span> : null}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <div className="mt-2 flex items-center justify-end gap-2">
+        {onCancel ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="h-7 px-3 rounded-full border border-black/10 bg-white text-[11px] font-semibold text-black/70"
+          >
+            Cancel
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={() => void submit()}
+          disabled={!body.trim() || submitting}
+          className="h-7 px-3 rounded-full bg-[#0F141F] text-white text-[11px] font-semibold disabled:opacity-50"
+        >
+          {submitting ? 'Posting…' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Margin rail for comment threads anchored in the contract editor. Each card
+ * sits level with its anchored text (pushed down when cards would overlap);
+ * threads whose text was deleted are listed at the end.
+ */
+export default function ContractCommentsRail({ contractId, editor, initialThreadId, className }: Props) {
+  const api = useMemo(() => new ApiClient(), []);
+  const { user } = useAuth();
+  const revision = useQueryRevision([`comments:${contractId}`]);
+
+  const [threads, setThreads] = useState<ContractCommentThread[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(initialThreadId || null);
+  const [draft, setDraft] = useState<Range | null>(null);
+  // The draft as of the latest transaction (a thread is anchored there once it is created).
+  const draftRef = useRef<Range | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const railRef = useRef<HTMLDivElement | null>(null);
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+
+  useEffect(() => {
+    if (!contractId) return;
+    let active = true;
+    void api.listContractCommentThreads(contractId).then((res) => {
+      if (!active) return;
+      if (res.success && res.data) {
+        setThreads(res.data.results);
+        setError(null);
+      } else {
+        setError(res.error || 'Failed to load comments');
+      }
+    });
+    return () => {
+      active = false;
+    };
+  }, [api, contractId, revision]);
+
+  const editorView = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      if (!editor) return { anchors: [], selection: null };
+      const { from, to, empty } = editor.state.selection;
+      return {
+        anchors: [...findCommentAnchors(editor.state.doc).values()],
+        selection: empty ? null : { from, to, quote: editor.state.doc.textBetween(from, to, ' ').slice(0, 500) },
+      };
+    },
+  });
+  const changeDraft = (next: Range | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  };
+
+  // Keep the draft on its text as the document changes; drop it when the text is deleted.
+  useEffect(() => {
+    if (!editor) return;
+    const onTransaction = ({ transaction }: { transaction: Transaction }) => {
+      const current = draftRef.current;
+      if (!current || !transaction.docChanged) return;
+      const from = transaction.mapping.map(current.from, 1);
+      const to = transaction.mapping.map(current.to, -1);
+      const next = from < to ? { ...current, from, to } : null;
+      if (next && from === current.from && to === current.to) return;
+      draftRef.current = next;
+      setDraft(next);
+      if (!next) setActiveId((id) => (id === NEW_THREAD ? null : id));
+    };
+    editor.on('transaction', onTransaction);
+    return () => {
+      editor.off('transaction', onTransaction);
+    };
+  }, [editor]);
+
+  const anchors = useMemo(() => new Map((editorView?.anchors || []).map((a) => [a.threadId, a])), [editorView]);
+  const selection = editorView?.selection || null;
+
+  const openThreads = threads.filter((t) => !t.resolved);
+  const visibleThreads = useMemo(() => {
+    const list = threads.filter((t) => showResolved || !t.resolved || t.id === activeId);
+    // Document order; detached threads last.
+    return list.sort((a, b) => (anchors.get(a.id)?.from ?? Infinity) - (anchors.get(b.id)?.from ?? Infinity));
+  }, [threads, showResolved, activeId, anchors]);
+
+  // Mirror the thread state into the editor highlight.
+  const resolvedKey = threads
+    .filter((t) => t.resolved)
+    .map((t) => t.id)
+    .join(',');
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    editor.commands.setCommentHighlight({ activeId, resolvedIds: resolvedKey ? resolvedKey.split(',') : [] });
+  }, [editor, activeId, resolvedKey]);
+
+  // Clicking anchored text opens its thread.
+  useEffect(() => {
+    if (!editor) return;
+    const dom = editor.view.dom;
+    const onClick = (e: MouseEvent) => {
+      const el = (e.target as HTMLElement | null)?.closest('[data-comment-id]');
+      if (el) setActiveId(el.getAttribute('data-comment-id'));
+    };
+    dom.addEventListener('click', onClick);
+    return () => dom.removeEventListener('click', onClick);
+  }, [editor]);
+
+  // Place each card level with its anchor, stacking cards that would overlap.
+  const layout = () => {
+    const rail = railRef.current;
+    if (!rail || !editor || editor.isDestroyed) return;
+    const railTop = rail.getBoundingClientRect().top;
+    const topOf = (pos: number) => {
+      try {
+        return editor.view.coordsAtPos(Math.min(pos, editor.state.doc.content.size)).top - railTop;
+      } catch {
+        return Infinity;
+      }
+    };
+    const order = [
+      ...(draft ? [{ id: NEW_THREAD, top: topOf(draft.from) }] : []),
+      ...visibleThreads.map((t) => {
+        const anchor = anchors.get(t.id);
+        return { id: t.id, top: anchor ? topOf(anchor.from) : Infinity };
+      }),
+    ].sort((a, b) => a.top - b.top);
+    let bottom = 0;
+    for (const { id, top } of order) {
+      const card = cardRefs.current.get(id);
+      if (!card) continue;
+      const placed = Math.max(Number.isFinite(top) ? top : bottom, bottom);
+      card.style.top = `${placed}px`;
+      bottom = placed + card.offsetHeight + CARD_GAP;
+    }
+    rail.style.minHeight = `${bottom}px`;
+  };
+  const layoutRef = useRef(layout);
+  useLayoutEffect(() => {
+    layoutRef.current = layout;
+    layout();
+  });
+
+  // Text reflows on resize (and images load late), which moves anchors.
+  useEffect(() => {
+    if (!editor || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => layoutRef.current());
+    observer.observe(editor.view.dom);
+    return () => observer.disconnect();
+  }, [editor]);
+
+  const replaceThread = (thread: ContractCommentThread) =>
+    setThreads((prev) => (prev.some((t) => t.id === thread.id) ? prev.map((t) => (t.id === thread.id ? thread : t)) : [...prev, thread]));
+
+  const createThread = async (body: string, mentions: string[]) => {
+    if (!draft || !editor) return false;
+    const res = await api.createContractCommentThread(contractId, { quote: draft.quote, body, mentions });
+    if (!res.success || !res.data) {
+      setError(res.error || 'Failed to add comment');
+      return false;
+    }
+    const thread = res.data;
+    // The text may have moved (or gone, leaving the thread detached) while the request ran.
+    const range = draftRef.current;
+    if (range) editor.chain().setTextSelection({ from: range.from, to: range.to }).setCommentAnchor(thread.id).run();
+    replaceThread(thread);
+    changeDraft(null);
+    setActiveId(thread.id);
+    setError(null);
+    return true;
+  };
+
+  const reply = async (threadId: string, body: string, mentions: string[]) => {
+    const res = await api.replyToContractCommentThread(contractId, threadId, { body, mentions });
+    if (!res.success || !res.data) {
+      setError(res.error || 'Failed to reply');
+      return false;
+    }
+    replaceThread(res.data);
+    setError(null);
+    return true;
+  };
+
+  const setResolved = async (threadId: string, resolved: boolean) => {
+    const res = await api.setContractCommentThreadResolved(contractId, threadId, resolved);
+    if (!res.success || !res.data) {
+      setError(res.error || 'Failed to update thread');
+      return;
+    }
+    replaceThread(res.data);
+    if (resolved && activeId === threadId) setActiveId(null);
+  };
+
+  const deleteThread = async (threadId: string) => {
+    if (!confirm('Delete this comment thread?')) return;
+    const res = await api.deleteContractCommentThread(contractId, threadId);
+    if (!res.success) {
+      setError(res.error || 'Failed to delete thread');
+      return;
+    }
+    editor?.commands.removeCommentAnchor(threadId);
+    setThreads((prev) => prev.filter((t) => t.id !== threadId));
+    if (activeId === threadId) setActiveId(null);
+  };
+
+  const resolvedCount = threads.length - openThreads.length;
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between gap-2 pb-3">
+        <div className="text-xs font-semibold text-[#111827]">
+          Comments <span className="text-black/45 font-normal">· {openThreads.length} open</span>
+        </div>
+        <button
+          type="button"
+          disabled={!selection}
+          onClick={() => {
+            if (!selection) return;
+            changeDraft(selection);
+            setActiveId(NEW_THREAD);
+          }}
+          title={selection ? 'Comment on the selected text' : 'Select text to comment on it'}
+          className="h-7 px-2.5 rounded-full bg-[#0F141F] text-white text-[11px] font-semibold inline-flex items-center gap-1 disabled:opacity-40"
+        >
+          <MessageSquarePlus className="w-3.5 h-3.5" />
+          Comment
+        </button>
+      </div>
+
+      {error ? <div className="mb-2 text-[11px] text-rose-600">{error}</div> : null}
+      {resolvedCount > 0 ? (
+        <button
+          type="button"
+          onClick={() => setShowResolved((v) => !v)}
+          className="mb-2 text-[11px] font-semibold text-black/45 hover:text-black/70"
+        >
+          {showResolved ? 'Hide resolved' : `Show ${resolvedCount} resolved`}
+        </button>
+      ) : null}
+
+      <div ref={railRef} className="relative space-y-2 lg:space-y-0">
+        {draft ? (
+          <div
+            ref={(el) => {
+              if (el) cardRefs.current.set(NEW_THREAD, el);
+              else cardRefs.current.delete(NEW_THREAD);
+            }}
+            className="lg:absolute lg:left-0 lg:right-0 rounded-2xl border border-amber-300 bg-white p-3 shadow-sm"
+          >
+            <p className="text-[11px] text-black/45 italic line-clamp-2 border-l-2 border-amber-300 pl-2 mb-2">{draft.quote}</p>
+            <CommentComposer
+              autoFocus
+              placeholder="Add a comment… (@ to mention)"
+              submitLabel="Comment"
+              onSubmit={createThread}
+              onCancel={() => {
+                changeDraft(null);
+                setActiveId(null);
+              }}
+            />
+          </div>
+        ) : null}
+
+        {visibleThreads.map((thread) => {
+          const active = thread.id === activeId;
+          const detached = !anchors.has(thread.id);
+          const starter = thread.comments[0];
+          const canDelete = !!user && (starter?.author.user_id === user.user_id || !!user.is_admin);
+          return (
+            <div
+              key={thread.id}
+              ref={(el) => {
+                if (el) cardRefs.current.set(thread.id, el);
+                else cardRefs.current.delete(thread.id);
+              }}
+              onClick={() => setActiveId(thread.id)}
+              className={`lg:absolute lg:left-0 lg:right-0 rounded-2xl border bg-white p-3 transition ${
+                active ? 'border-amber-300 shadow-md z-10' : 'border-black/5 shadow-sm'
+              } ${thread.resolved ? 'opacity-70' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="min-w-0 text-[11px] text-black/45 italic line-clamp-2 border-l-2 border-amber-300 pl-2">
+                  {detached ? 'Anchored text was removed' : anchors.get(thread.id)?.text || thread.quote}
+                </p>
+                <div className="flex items-center gap-1 flex-none">
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void setResolved(thread.id, !thread.resolved);
+                    }}
+                    className="w-6 h-6 grid place-items-center rounded-full hover:bg-black/5 text-black/55"
+                    title={thread.resolved ? 'Reopen' : 'Resolve'}
+                    aria-label={thread.resolved ? 'Reopen thread' : 'Resolve thread'}
+                  >
+                    {thread.resolved ? <RotateCcw className="w-3.5 h-3.5" /> : <Check className="w-3.5 h-3.5" />}
+                  </button>
+                  {canDelete ? (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void deleteThread(thread.id);
+                      }}
+                      className="w-6 h-6 grid place-items-center rounded-full hover:bg-rose-50 text-black/40 hover:text-rose-600"
+                      title="Delete thread"
+                      aria-label="Delete thread"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+
+              <ul className="mt-2 space-y-2">
+                {(active ? thread.comments : thread.comments.slice(0, 1)).map((c) => (
+                  <li key={c.id}>
+                    <div className="text-[11px] text-black/45">
+                      <span className="font-semibold text-[#0F141F]">{memberLabel(c.author)}</span> · {formatWhen(c.created_at)}
+                    </div>
+                    <p className="text-xs text-[#0F141F] whitespace-pre-wrap break-words">
+                      <CommentBody body={c.body} mentions={c.mentions} />
+                    </p>
+                  </li>
+                ))}
+              </ul>
+              {!active && thread.comments.length > 1 ? (
+                <div className="mt-1 text-[11px] font-semibold text-black/45">
+                  {thread.comments.length - 1} repl{thread.comments.length === 2 ? 'y' : 'ies'}
+                </div>
+              ) : null}
+              {thread.resolved && thread.resolved_by ? (
+                <div className="mt-2 text-[11px] text-emerald-700">
+                  Resolved by {memberLabel(thread.resolved_by)}
+                  {thread.resolved_at ? ` · ${formatWhen(thread.resolved_at)}` : ''}
+                </div>
+              ) : null}
+
+              {active ? (
+                <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+                  <CommentComposer
+                    placeholder={thread.resolved ? 'Reply to reopen…' : 'Reply… (@ to mention)'}
+                    submitLabel="Reply"
+                    onSubmit={(body, mentions) => reply(thread.id, body, mentions)}
+                  />
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+
+        {!threads.length && !draft ? (
+          <p className="text-[11px] text-black/45">Select text in the contract and press Comment to start a discussion.</p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,29 @@
 'use client';
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import type { Editor } from '@tiptap/react';
+import { useEditorState, type Editor } from '@tiptap/react';
+import type { YMapEvent } from 'yjs';
 import { useRouter, useSearchParams } from 'next/navigation';
 import DashboardLayout from './DashboardLayout';
 import RichTextEditor from './RichTextEditor';
-import { ApiClient, Contract } from '@/app/lib/api-client';
+import type { AiRewriteStream } from './AiRewriteBubble';
+import ContractCommentsRail from './ContractCommentsRail';
+import ContractMergeDialog from './ContractMergeDialog';
+import ContractVersionHistory from './ContractVersionHistory';
+import CollabPresence from './CollabPresence';
+import ClauseLibraryPanel from './ClauseLibraryPanel';
+import MergeFieldsPanel from './MergeFieldsPanel';
+import AiCitationsPanel from './AiCitationsPanel';
+import DefinedTermsPanel from './DefinedTermsPanel';
+import { ApiClient, Contract, type ContractVersionItem, type InhouseStatusResponse } from '@/app/lib/api-client';
+import { editQueue, pushEdit, toEditBase, type EditBase } from '@/app/lib/edit-queue';
 import { sanitizeEditorHtml } from '@/app/lib/sanitize-html';
+import { PAGE_SIZES, pageSetupOf, type PageSetup, type PageSize } from '@/app/lib/page-setup';
+import { useAuth } from '@/app/lib/auth-context';
+import { COLLAB_META, useCollabSession } from '@/app/lib/use-collab-session';
+import { TRACK_CHANGES_SKIP, editorText as trackedEditorText } from './tiptap/TrackChangesExtension';
+import { unfilledMergeFields } from './tiptap/MergeFieldExtension';
+import { NUMBERING_SCHEMES, documentNumberingScheme } from './tiptap/ClauseNumberingExtension';
 
 type TemplateListItem = {
   filename: string;
@@ -35,6 +52,13 @@ const ContractEditorPageV2: React.FC = () => {
   const router = useRouter();
   const searchParams = useSearchParams();
   const contractId = searchParams?.get('id') || '';
+  const { user } = useAuth();
+  const changeAuthor = useMemo(
+    () => (user ? { id: user.user_id, name: user.full_name || user.email } : null),
+    [user]
+  );
+  const collab = useCollabSession(contractId, changeAuthor);
+  const sharedEditing = collab.status === 'live' || collab.status === 'reconnecting';
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -46,9 +70,12 @@ const ContractEditorPageV2: React.FC = () => {
   const [templates, setTemplates] = useState<TemplateListItem[]>([]);
   const [templateSearch, setTemplateSearch] = useState('');
   const [templateApplying, setTemplateApplying] = useState(false);
+  const [appliedTemplate, setAppliedTemplate] = useState<string | null>(null);
 
   const editorApiRef = useRef<Editor | null>(null);
-  const [editorReady, setEditorReady] = useState(false);
+  const docxInputRef = useRef<HTMLInputElement | null>(null);
+  const [editorInstance, setEditorInstance] = useState<Editor | null>(null);
+  const editorReady = !!editorInstance;
   const [editorInitialized, setEditorInitialized] = useState(false);
   const [editorHtml, setEditorHtml] = useState('');
   const [editorText, setEditorText] = useState('');
@@ -57,12 +84,23 @@ const ContractEditorPageV2: React.FC = () => {
   const [saving, setSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [moreOpen, setMoreOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  // Page view: the document laid out as the pages of its PDF.
+  const [pageViewOn, setPageViewOn] = useState(false);
+  const [footerDraft, setFooterDraft] = useState<string | null>(null);
 
   // Autosave ordering controls: prevent out-of-order responses from overwriting newer content.
   const lastLocalEditMsRef = useRef<number>(0);
   const saveSeqRef = useRef<number>(0);
   const saveAbortRef = useRef<AbortController | null>(null);
 
+  // Server copy the current edits are based on; a newer server copy means someone else saved.
+  const baseRef = useRef<EditBase | null>(null);
+  const [conflict, setConflict] = useState<{ base: EditBase; theirs: EditBase } | null>(null);
+  // What load() started from: the server copy (seeds a shared document) and the content shown.
+  const [loadedHtml, setLoadedHtml] = useState<{ server: string; initial: string } | null>(null);
+  const [offlineQueued, setOfflineQueued] = useState(false);
+
   // Local snapshot: protects against API hiccups and gives "real-time" persistence.
   const snapshotTimerRef = useRef<number | null>(null);
   const snapshotKey = useMemo(
@@ -78,18 +116,12 @@ const ContractEditorPageV2: React.FC = () => {
   const [signError, setSignError] = useState<string | null>(null);
   const [signingUrl, setSigningUrl] = useState<string | null>(null);
   const [signStatusLoading, setSignStatusLoading] = useState(false);
-  const [signStatus, setSignStatus] = useState<any | null>(null);
+  const [signStatus, setSignStatus] = useState<InhouseStatusResponse | null>(null);
 
   const [generationCtx, setGenerationCtx] = useState<GenerationContext | null>(null);
   const [rehydrating, setRehydrating] = useState(false);
   const rehydratedOnceRef = useRef(false);
 
-  const unwrapContractLike = (raw: any) => {
-    // Some backend endpoints return { contract: {...} } or { data: {...} }.
-    // Be defensive so we don't accidentally set wrapper objects as the contract.
-    return raw?.contract ?? raw?.data?.contract ?? raw?.data ?? raw;
-  };
-
   const writeLocalSnapshot = (payload: { html: string; text: string; client_updated_at_ms: number }) => {
     if (typeof window === 'undefined') return;
     if (!snapshotKey) return;
@@ -244,38 +276,54 @@ const ContractEditorPageV2: React.FC = () => {
         ]);
         if (!alive) return;
 
-        if (res.success) {
-          const raw: any = res.data as any;
-          const unwrapped: any = unwrapContractLike(raw);
-          setContract(unwrapped as any);
+        // Content that does not match its schema is an error, not a reason to fall back to the contract fields.
+        if (contentRes.violation) {
+          setError(contentRes.error || 'Failed to load contract content');
+          return;
+        }
+        if (res.success && res.data) {
+          const c = res.data;
+          setContract(c);
 
           // Initialize editor state BEFORE rendering the editor to avoid a mount-with-empty flash.
-          const c = unwrapped as any;
-          const md = normalizeMetadata(c?.metadata);
+          const md = normalizeMetadata(c.metadata);
 
-          const content: any = contentRes?.success ? (contentRes.data as any) : null;
+          const content = contentRes.success && contentRes.data ? contentRes.data : null;
           const backendClientMs =
             Number(content?.client_updated_at_ms || md?.editor_client_updated_at_ms || 0) || 0;
 
           const renderedHtml: string | undefined =
-            content?.rendered_html || c?.rendered_html || md?.rendered_html;
+            content?.rendered_html || c.rendered_html || md?.rendered_html;
           const renderedText: string =
             content?.rendered_text ||
-            c?.rendered_text ||
+            c.rendered_text ||
             md?.rendered_text ||
-            c?.raw_text ||
+            c.raw_text ||
             md?.raw_text ||
             '';
 
           const backendHtml = renderedHtml && String(renderedHtml).trim().length > 0 ? String(renderedHtml) : '';
           const backendText = String(renderedText || '');
 
-          const snap = readLocalSnapshot();
-          const snapIsNewer = !!snap && snap.client_updated_at_ms > backendClientMs;
+          const serverBase: EditBase = content
+            ? toEditBase(content)
+            : { html: backendHtml, text: backendText, server_updated_at_ms: null };
+
+          // An unsent edit from an earlier session wins over the snapshot; it carries its own base.
+          const queued = editQueue.get(contractId);
+          const snap = queued
+            ? { html: queued.html, text: queued.text, client_updated_at_ms: queued.client_updated_at_ms }
+            : readLocalSnapshot();
+          const snapIsNewer = !!snap && (!!queued || snap.client_updated_at_ms > backendClientMs);
           const snapHasContent = !!snap && (!isMeaningfullyEmptyHtml(snap.html) || String(snap.text || '').trim().length > 0);
 
           const chosenHtml = snapIsNewer && snapHasContent ? snap!.html : backendHtml;
           const chosenText = snapIsNewer && snapHasContent ? snap!.text : backendText;
+          const resumeQueued = !!queued && snapHasContent;
+
+          baseRef.current = resumeQueued ? queued!.base : serverBase;
+          setConflict(resumeQueued && queued!.conflict ? { base: queued!.base, theirs: queued!.conflict } : null);
+          if (queued && !resumeQueued) editQueue.remove(contractId);
 
           const initialHtml = !isMeaningfullyEmptyHtml(chosenHtml)
             ? String(chosenHtml)
@@ -283,7 +331,13 @@ const ContractEditorPageV2: React.FC = () => {
 
           setEditorHtml(initialHtml || '');
           setEditorText(String(chosenText || ''));
-          setDirty(false);
+          setLoadedHtml({
+            server: !isMeaningfullyEmptyHtml(backendHtml) ? backendHtml : textToHtml(backendText),
+            initial: initialHtml || '',
+          });
+          // A resumed queued edit is pushed by autosave (which also detects server changes).
+          setDirty(resumeQueued);
+          if (resumeQueued) lastLocalEditMsRef.current = queued!.client_updated_at_ms;
           setSaveError(null);
           setEditorInitialized(true);
         } else {
@@ -303,6 +357,13 @@ const ContractEditorPageV2: React.FC = () => {
     };
   }, [contractId]);
 
+  // While this editor is open it pushes its own queued edits; the background flusher skips them.
+  useEffect(() => {
+    if (!contractId) return;
+    editQueue.claim(contractId);
+    return () => editQueue.release(contractId);
+  }, [contractId]);
+
   useEffect(() => {
     if (!contractId) return;
     try {
@@ -426,8 +487,8 @@ const ContractEditorPageV2: React.FC = () => {
           customClauses,
           constraints,
         });
-        if (!res.success) return;
-        const nextText = String((res.data as any)?.rendered_text || '').trim();
+        if (!res.success || !res.data) return;
+        const nextText = res.data.rendered_text.trim();
         if (!nextText) return;
 
         const nextHtml = textToHtml(nextText);
@@ -461,8 +522,12 @@ const ContractEditorPageV2: React.FC = () => {
         ]);
         if (!alive) return;
 
-        const mine = (mineRes.success ? (mineRes.data as any)?.results : []) || [];
-        const pub = (publicRes.success ? (publicRes.data as any)?.results : []) || [];
+        if (!mineRes.success || !mineRes.data || !publicRes.success || !publicRes.data) {
+          setTemplatesError(mineRes.error || publicRes.error || 'Failed to load templates');
+          return;
+        }
+        const mine = mineRes.data.results;
+        const pub = publicRes.data.results;
 
         const merged: TemplateListItem[] = [];
         const seen = new Set<string>();
@@ -509,10 +574,11 @@ const ContractEditorPageV2: React.FC = () => {
   const title = (contract as any)?.title || (contract as any)?.name || 'Contract';
   const updatedAt = (contract as any)?.updated_at ? new Date((contract as any).updated_at).toLocaleString() : null;
 
-  const saveNow = async () => {
-    if (!contractId) return;
+  /** Saves the editor content now; resolves to whether it reached the server. */
+  const saveNow = async (): Promise<boolean> => {
+    if (!contractId) return false;
     const rawHtml = editorApiRef.current?.getHTML() ?? editorHtml;
-    const rawText = editorApiRef.current?.getText() ?? editorText;
+    const rawText = editorApiRef.current ? trackedEditorText(editorApiRef.current) : editorText;
 
     const html = sanitizeEditorHtml(rawHtml);
     const text = String(rawText || '');
@@ -520,7 +586,7 @@ const ContractEditorPageV2: React.FC = () => {
     // Prevent accidental wipes (e.g. editor briefly initializes empty and autosave fires).
     if (isMeaningfullyEmptyHtml(html) && text.trim().length === 0) {
       setSaveError('Refusing to auto-save empty content. Type something or refresh if this was unexpected.');
-      return;
+      return false;
     }
 
     // Snapshot a monotonic timestamp for this content.
@@ -537,24 +603,33 @@ const ContractEditorPageV2: React.FC = () => {
     const controller = new AbortController();
     saveAbortRef.current = controller;
 
+    // This save queues the latest content itself; a pending throttled write would only re-queue older content.
+    if (snapshotTimerRef.current) {
+      window.clearTimeout(snapshotTimerRef.current);
+      snapshotTimerRef.current = null;
+    }
+
+    const base = baseRef.current ?? { html, text, server_updated_at_ms: null };
+    const edit = { contract_id: contractId, html, text, client_updated_at_ms: clientUpdatedAtMs, base };
+    editQueue.put(edit);
+
     try {
       setSaving(true);
       setSaveError(null);
-      const client = new ApiClient();
-      const res = await client.updateContractContent(contractId, {
-        rendered_html: html,
-        rendered_text: text,
-        client_updated_at_ms: clientUpdatedAtMs,
-      }, {
+      const outcome = await pushEdit(new ApiClient(), { ...edit, queued_at_ms: Date.now(), attempts: 0 }, {
         signal: controller.signal,
       });
 
       // Ignore any response from an older save attempt.
-      if (seq !== saveSeqRef.current) return;
+      if (seq !== saveSeqRef.current) return false;
 
-      if (res.success) {
-        const next = unwrapContractLike(res.data as any);
-        setContract(next as any);
+      if (outcome.kind === 'saved') {
+        baseRef.current = outcome.server;
+        // Co-editors take this as their base too.
+        if (sharedEditing) collab.session?.doc.getMap(COLLAB_META).set('saved', outcome.server);
+        editQueue.remove(contractId, clientUpdatedAtMs);
+        setOfflineQueued(false);
+        setContract((prev) => (prev ? { ...prev, rendered_html: html, rendered_text: text } : prev));
 
         // Update local snapshot as a durable client-side fallback.
         writeLocalSnapshot({ html, text, client_updated_at_ms: clientUpdatedAtMs });
@@ -563,7 +638,7 @@ const ContractEditorPageV2: React.FC = () => {
         try {
           window.dispatchEvent(
             new CustomEvent('contracts:changed', {
-              detail: { id: contractId, updated_at: (next as any)?.updated_at || null },
+              detail: { id: contractId, updated_at: outcome.server.server_updated_at_ms || null },
             })
           );
         } catch {
@@ -573,8 +648,15 @@ const ContractEditorPageV2: React.FC = () => {
         if ((lastLocalEditMsRef.current || 0) <= clientUpdatedAtMs) {
           setDirty(false);
         }
-      } else {
-        setSaveError(res.error || 'Failed to save');
+        return true;
+      } else if (outcome.kind === 'conflict') {
+        editQueue.markConflict(contractId, outcome.theirs);
+        setConflict({ base, theirs: outcome.theirs });
+      } else if (outcome.kind === 'offline') {
+        // Stays queued; retried when the browser comes back online.
+        setOfflineQueued(true);
+      } else if (outcome.kind === 'error') {
+        setSaveError(outcome.error);
       }
     } catch (e) {
       // AbortError is expected when typing quickly; don't surface as an error.
@@ -586,10 +668,59 @@ const ContractEditorPageV2: React.FC = () => {
       // Only clear saving state if this is the latest save.
       if (seq === saveSeqRef.current) setSaving(false);
     }
+    return false;
+  };
+
+  const resolveConflict = (mergedHtml: string) => {
+    if (!conflict) return;
+    const theirs = conflict.theirs;
+    const html = sanitizeEditorHtml(mergedHtml);
+    const ed = editorApiRef.current;
+    if (ed) ed.commands.setContent(html, { emitUpdate: false });
+    const text = ed ? trackedEditorText(ed) : editorText;
+
+    baseRef.current = theirs;
+    setConflict(null);
+    setEditorHtml(html);
+    setEditorText(text);
+
+    if (html === sanitizeEditorHtml(theirs.html)) {
+      // Took the server copy as-is: nothing left to save.
+      editQueue.remove(contractId);
+      writeLocalSnapshot({ html, text, client_updated_at_ms: Date.now() });
+      setDirty(false);
+      return;
+    }
+
+    const now = Date.now();
+    lastLocalEditMsRef.current = now;
+    editQueue.rebase(contractId, theirs);
+    editQueue.put({ contract_id: contractId, html, text, client_updated_at_ms: now, base: theirs });
+    writeLocalSnapshot({ html, text, client_updated_at_ms: now });
+    setDirty(true);
+    setEditTick((t) => t + 1);
+  };
+
+  const saveCheckpoint = async (note: string): Promise<string | null> => {
+    // A version snapshots the saved copy, so save what is in the editor first.
+    if (!(await saveNow())) return 'Could not save the current draft, so no checkpoint was created.';
+    const res = await new ApiClient().createContractVersion(contractId, note);
+    return res.success ? null : res.error || 'Failed to save checkpoint';
+  };
+
+  const restoreVersion = async (version: ContractVersionItem & { rendered_html: string }): Promise<string | null> => {
+    const ed = editorApiRef.current;
+    if (!ed) return 'The editor is not ready yet.';
+    // One undoable step, and not a tracked suggestion.
+    ed.chain().setMeta(TRACK_CHANGES_SKIP, true).setContent(sanitizeEditorHtml(version.rendered_html)).run();
+    if (!(await saveNow())) return 'The version is back in the editor but could not be saved yet.';
+    const label = version.version_number ? `version ${version.version_number}` : 'an earlier version';
+    const res = await new ApiClient().createContractVersion(contractId, `Restored ${label}`);
+    return res.success ? null : res.error || 'Restored, but the new version could not be recorded';
   };
 
   const saveIfDirty = async () => {
-    if (!dirty) return;
+    if (!dirty || conflict || !collab.isSaver) return;
     // Fire-and-forget is OK; saveNow handles aborting older saves.
     await saveNow();
   };
@@ -604,19 +735,55 @@ const ContractEditorPageV2: React.FC = () => {
     document.addEventListener('visibilitychange', onVis);
     return () => document.removeEventListener('visibilitychange', onVis);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dirty, contractId]);
+  }, [dirty, conflict, contractId, collab.isSaver]);
+
+  // Push queued edits as soon as the connection is back.
+  useEffect(() => {
+    if (!offlineQueued) return;
+    const onOnline = () => {
+      void saveIfDirty();
+    };
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [offlineQueued, dirty, conflict, contractId, collab.isSaver]);
 
   // Auto-save with a small debounce.
   useEffect(() => {
     if (!editorReady) return;
     if (!dirty) return;
     if (!editorInitialized) return;
+    // Saving would just hit the same conflict again; wait for the merge.
+    if (conflict) return;
+    // A shared document is saved by one tab only (see useCollabSession).
+    if (!collab.isSaver) return;
     const t = window.setTimeout(() => {
       saveNow();
     }, 900);
     return () => window.clearTimeout(t);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [editTick, dirty, editorReady, contractId]);
+  }, [editTick, dirty, editorReady, conflict, contractId, collab.isSaver]);
+
+  // Follow the saves of whichever co-editor is saving the shared document.
+  useEffect(() => {
+    const session = collab.session;
+    if (!session) return;
+    const meta = session.doc.getMap<EditBase>(COLLAB_META);
+    const onMeta = (event: YMapEvent<EditBase>) => {
+      if (event.transaction.local || !event.keysChanged.has('saved')) return;
+      const saved = meta.get('saved');
+      if (!saved) return;
+      baseRef.current = saved;
+      setContract((prev) => (prev ? { ...prev, rendered_html: saved.html, rendered_text: saved.text } : prev));
+      const ed = editorApiRef.current;
+      if (ed && sanitizeEditorHtml(ed.getHTML()) === saved.html) {
+        editQueue.remove(contractId);
+        setDirty(false);
+      }
+    };
+    meta.observe(onMeta);
+    return () => meta.unobserve(onMeta);
+  }, [collab.session, contractId]);
 
   const applyTemplateToEditor = async (filename: string) => {
     const ed = editorApiRef.current;
@@ -626,17 +793,18 @@ const ContractEditorPageV2: React.FC = () => {
       setTemplatesError(null);
       const client = new ApiClient();
       const res = await client.getTemplateFileContent(filename);
-      if (!res.success) {
+      if (!res.success || !res.data) {
         setTemplatesError(res.error || 'Failed to load template content');
         return;
       }
 
-      const content = String((res.data as any)?.content || '');
+      const content = res.data.content;
       const nextHtml = textToHtml(content);
 
       ed.commands.setContent(nextHtml, { emitUpdate: false });
       setEditorHtml(nextHtml);
       setEditorText(content);
+      setAppliedTemplate(filename);
 
       setDirty(true);
       setEditTick((t) => t + 1);
@@ -671,12 +839,12 @@ const ContractEditorPageV2: React.FC = () => {
       setSignError(null);
       const client = new ApiClient();
       const res = await client.inhouseStatus(contractId);
-      if (!res.success) {
+      if (!res.success || !res.data) {
         const msg = res.error || 'Failed to fetch status';
         setSignError(msg);
         return;
       }
-      setSignStatus(res.data as any);
+      setSignStatus(res.data);
     } catch (e) {
       const msg = e instanceof Error ? e.message : 'Failed to fetch status';
       setSignError(msg);
@@ -687,6 +855,10 @@ const ContractEditorPageV2: React.FC = () => {
 
   const startSigning = async () => {
     if (!contractId) return;
+    if (unfilledFields.length) {
+      setSignError('Fill in the required contract fields before sending.');
+      return;
+    }
     const cleaned = signers
       .map((s) => ({ email: s.email.trim(), name: s.name.trim() }))
       .filter((s) => s.email && s.name);
@@ -704,12 +876,12 @@ const ContractEditorPageV2: React.FC = () => {
         signers: cleaned,
         signing_order: signingOrder,
       });
-      if (!res.success) {
+      if (!res.success || !res.data) {
         setSignError(res.error || 'Failed to start signing');
         return;
       }
 
-      const url = String((res.data as any)?.signing_url || '');
+      const url = String(res.data.signing_url || '');
       const urlErr = validateSigningUrl(url);
       if (urlErr) {
         setSignError(urlErr);
@@ -732,8 +904,8 @@ const ContractEditorPageV2: React.FC = () => {
 
   const downloadExecuted = async () => {
     if (!contractId) return;
-    const statusVal = String((signStatus as any)?.status || '').toLowerCase();
-    const allSigned = Boolean((signStatus as any)?.all_signed);
+    const statusVal = String(signStatus?.status || '').toLowerCase();
+    const allSigned = Boolean(signStatus?.all_signed);
     const completed = statusVal === 'completed' || statusVal === 'executed';
     if (!completed || !allSigned) {
       setSignError('Signing is not completed yet.');
@@ -748,14 +920,29 @@ const ContractEditorPageV2: React.FC = () => {
     }
   };
 
+  // Inline rewrites from the editor's selection bubble.
+  const streamAiRewrite: AiRewriteStream = (request, handlers) =>
+    new ApiClient().streamContractAiGenerate(
+      contractId,
+      { prompt: request.instruction, current_text: request.text, mode: 'rewrite' },
+      handlers
+    );
+
+  // Rendered from the editor, like the DOCX download, so unsaved edits are in it.
   const downloadPdf = async () => {
-    if (!contractId) return;
-    const client = new ApiClient();
-    const res = await client.downloadContractPdf(contractId);
-    if (res.success && res.data) {
-      triggerDownload(res.data, `${title.replace(/\s+/g, '_')}.pdf`);
-    } else {
-      setError(res.error || 'Failed to download PDF');
+    const ed = editorApiRef.current;
+    if (!ed) return;
+    try {
+      const { downloadHtmlAsPdf } = await import('@/app/lib/downloads');
+      await downloadHtmlAsPdf({
+        filename: title.replace(/\s+/g, '_'),
+        title,
+        html: sanitizeEditorHtml(ed.getHTML()),
+        pageSize: pageSetup.size,
+        footer: pageSetup.footer,
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to download PDF');
     }
   };
 
@@ -770,6 +957,41 @@ const ContractEditorPageV2: React.FC = () => {
     }
   };
 
+  // Built from the editor rather than the saved copy, so unsaved edits and open suggestions go into the file.
+  const downloadDocx = async () => {
+    const ed = editorApiRef.current;
+    if (!ed) return;
+    try {
+      const { exportDocx } = await import('@/app/lib/docx');
+      const scheme = documentNumberingScheme(ed.state.doc);
+      const blob = await exportDocx(ed.getJSON(), {
+        title,
+        clauseNumbering: NUMBERING_SCHEMES.find((s) => s.id === scheme) || NUMBERING_SCHEMES[0],
+        pageSize: pageSetup.size,
+      });
+      triggerDownload(blob, `${title.replace(/\s+/g, '_')}.docx`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create DOCX');
+    }
+  };
+
+  const importDocxFile = async (file: File) => {
+    const ed = editorApiRef.current;
+    if (!ed) return;
+    if (ed.getText().trim() && !window.confirm(`Replace the contract text with "${file.name}"? You can undo this or restore an earlier version.`)) {
+      return;
+    }
+    try {
+      const { importDocx } = await import('@/app/lib/docx');
+      const { html } = await importDocx(await file.arrayBuffer());
+      // One undoable step, and not a tracked suggestion.
+      ed.chain().setMeta(TRACK_CHANGES_SKIP, true).setContent(sanitizeEditorHtml(html)).run();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to import DOCX');
+    }
+  };
+
   const deleteContract = async () => {
     if (!contractId) return;
     const ok = window.confirm('Delete this contract? This cannot be undone.');
@@ -791,6 +1013,14 @@ const ContractEditorPageV2: React.FC = () => {
     }
   };
 
+  const collabEditor = useMemo(
+    () =>
+      sharedEditing && collab.session && loadedHtml
+        ? { session: collab.session, seedHtml: loadedHtml.server, draftHtml: loadedHtml.initial }
+        : null,
+    [sharedEditing, collab.session, loadedHtml]
+  );
+
   const filteredTemplates = useMemo(() => {
     const q = templateSearch.trim().toLowerCase();
     if (!q) return templates;
@@ -800,6 +1030,45 @@ const ContractEditorPageV2: React.FC = () => {
     });
   }, [templates, templateSearch]);
 
+  // The schema for the merge fields: the template added here last, else the one the contract came from.
+  const contractMd = normalizeMetadata(contract?.metadata);
+  const pageSetup = pageSetupOf(contractMd);
+
+  // Page size and footer are saved with the contract, for its PDF (here, on the server and when signing).
+  const savePageSetup = async (next: PageSetup) => {
+    if (!contractId) return;
+    const metadata = { ...normalizeMetadata(contract?.metadata), page_setup: next };
+    setContract((prev) => (prev ? { ...prev, metadata } : prev));
+    const res = await new ApiClient().updateContract(contractId, { metadata });
+    if (!res.success) setError(res.error || 'Failed to save page setup');
+  };
+  const mergeFieldTemplate =
+    appliedTemplate ||
+    String(contractMd?.template_filename || contractMd?.template || generationCtx?.template || '').trim() ||
+    null;
+
+  // Required merge fields still empty; sending for signature waits for them.
+  const unfilledFields =
+    useEditorState({
+      editor: editorInstance,
+      selector: ({ editor: ed }) => {
+        if (!ed) return [];
+        const fields = ed.storage.mergeField.fields;
+        return unfilledMergeFields(ed.state.doc, fields).map((use) => ({
+          key: use.key,
+          label: fields.get(use.key)?.label || use.key,
+          pos: use.positions[0],
+        }));
+      },
+      equalityFn: (a, b) =>
+        !!a && !!b && a.length === b.length && a.every((x, i) => x.key === b[i].key && x.pos === b[i].pos && x.label === b[i].label),
+    }) || [];
+
+  const showField = (pos: number) => {
+    setSignOpen(false);
+    editorApiRef.current?.chain().focus().setNodeSelection(pos).scrollIntoView().run();
+  };
+
   return (
     <DashboardLayout>
       <div className="bg-[#F2F0EB]">
@@ -829,12 +1098,23 @@ const ContractEditorPageV2: React.FC = () => {
                   <div className="flex items-center gap-2 flex-shrink-0">
                     <span className="w-2 h-2 rounded-full bg-emerald-500" />
                     <span className="text-xs text-black/45 font-medium">
-                      {saving ? 'Saving…' : dirty ? 'Unsaved changes' : `Updated ${updatedAt}`}
+                      {conflict
+                        ? 'Conflicting changes'
+                        : saving
+                          ? 'Saving…'
+                          : offlineQueued && dirty
+                            ? 'Offline — changes queued'
+                            : dirty
+                              ? 'Unsaved changes'
+                              : `Updated ${updatedAt}`}
                     </span>
                   </div>
                 )}
               </div>
-              <p className="text-xs text-black/40 mt-1 truncate">Contract ID: {String(contractId || '')}</p>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1">
+                <p className="text-xs text-black/40 truncate">Contract ID: {String(contractId || '')}</p>
+                <CollabPresence status={collab.status} peers={collab.peers} />
+              </div>
               {saveError && <p className="text-xs text-rose-600 mt-1">{saveError}</p>}
             </div>
           </div>
@@ -879,6 +1159,17 @@ const ContractEditorPageV2: React.FC = () => {
                     <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
                   </svg>
                 </button>
+                <input
+                  ref={docxInputRef}
+                  type="file"
+                  accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) void importDocxFile(file);
+                  }}
+                />
 
                 {moreOpen && (
                   <div className="absolute right-0 top-12 w-48 bg-white rounded-2xl border border-black/10 shadow-lg overflow-hidden z-20">
@@ -902,6 +1193,26 @@ const ContractEditorPageV2: React.FC = () => {
                     >
                       Download TXT
                     </button>
+                    <button
+                      onClick={() => {
+                        setMoreOpen(false);
+                        downloadDocx();
+                      }}
+                      className="w-full text-left px-4 py-3 text-sm hover:bg-black/5"
+                      type="button"
+                    >
+                      Download DOCX
+                    </button>
+                    <button
+                      onClick={() => {
+                        setMoreOpen(false);
+                        docxInputRef.current?.click();
+                      }}
+                      className="w-full text-left px-4 py-3 text-sm hover:bg-black/5"
+                      type="button"
+                    >
+                      Import DOCX…
+                    </button>
                     <button
                       onClick={() => {
                         setMoreOpen(false);
@@ -912,6 +1223,16 @@ const ContractEditorPageV2: React.FC = () => {
                     >
                       Save now
                     </button>
+                    <button
+                      onClick={() => {
+                        setMoreOpen(false);
+                        setHistoryOpen(true);
+                      }}
+                      className="w-full text-left px-4 py-3 text-sm hover:bg-black/5"
+                      type="button"
+                    >
+                      Version history
+                    </button>
                     <div className="h-px bg-black/5" />
 
                     <button
@@ -937,38 +1258,107 @@ const ContractEditorPageV2: React.FC = () => {
                 <div className="text-sm text-black/45">No contract found.</div>
               ) : rehydrating ? (
                 <div className="text-sm text-black/45">Restoring template content…</div>
+              ) : collab.status === 'connecting' ? (
+                <div className="text-sm text-black/45">Joining co-editing session…</div>
               ) : (
-                <RichTextEditor
-                  valueHtml={editorHtml}
-                  disabled={false}
-                  onEditorReady={(ed) => {
-                    editorApiRef.current = ed;
-                    setEditorReady(!!ed);
-                  }}
-                  onChange={(html, text) => {
-                    setEditorHtml(html);
-                    setEditorText(text);
-                    const now = Date.now();
-                    lastLocalEditMsRef.current = now;
-                    setDirty(true);
-                    setEditTick((t) => t + 1);
-
-                    // Throttled local snapshot write.
-                    if (snapshotTimerRef.current) {
-                      window.clearTimeout(snapshotTimerRef.current);
-                    }
-                    snapshotTimerRef.current = window.setTimeout(() => {
-                      writeLocalSnapshot({ html, text, client_updated_at_ms: now });
-                    }, 250);
-                  }}
-                  editorClassName="min-h-[60vh] rounded-2xl border border-black/10 bg-white px-5 py-4 text-[13px] leading-6 text-slate-900 font-serif outline-none"
-                />
+                <div className="flex flex-col lg:flex-row gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="mb-3 flex flex-wrap items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setPageViewOn((v) => !v)}
+                        className={`h-8 px-3 rounded-full border text-xs font-semibold transition ${
+                          pageViewOn ? 'bg-[#0F141F] border-[#0F141F] text-white' : 'bg-white border-black/10 text-black/70 hover:bg-black/5'
+                        }`}
+                        aria-pressed={pageViewOn}
+                      >
+                        Page view
+                      </button>
+                      {pageViewOn ? (
+                        <>
+                          <select
+                            value={pageSetup.size}
+                            onChange={(e) => void savePageSetup({ ...pageSetup, size: e.target.value as PageSize })}
+                            className="h-8 rounded-full border border-black/10 bg-white px-3 text-xs font-semibold text-black/70"
+                            aria-label="Page size"
+                          >
+                            {(Object.keys(PAGE_SIZES) as PageSize[]).map((size) => (
+                              <option key={size} value={size}>
+                                {PAGE_SIZES[size].label}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            value={footerDraft ?? pageSetup.footer ?? ''}
+                            onChange={(e) => setFooterDraft(e.target.value)}
+                            onBlur={() => {
+                              if (footerDraft === null) return;
+                              const footer = footerDraft.trim();
+                              setFooterDraft(null);
+                              if (footer !== (pageSetup.footer || '')) {
+                                void savePageSetup(footer ? { ...pageSetup, footer } : { size: pageSetup.size });
+                              }
+                            }}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') e.currentTarget.blur();
+                            }}
+                            placeholder="Footer text"
+                            className="h-8 flex-1 min-w-[10rem] rounded-full border border-black/10 bg-white px-3 text-xs text-black/70 outline-none"
+                            aria-label="Footer text"
+                          />
+                        </>
+                      ) : null}
+                    </div>
+                    <RichTextEditor
+                      valueHtml={editorHtml}
+                      pageView={pageViewOn ? { ...pageSetup, footer: footerDraft ?? pageSetup.footer, title } : null}
+                      disabled={false}
+                      trackChangesAuthor={changeAuthor}
+                      collaboration={collabEditor}
+                      aiRewrite={contractId ? streamAiRewrite : undefined}
+                      onEditorReady={(ed) => {
+                        editorApiRef.current = ed;
+                        setEditorInstance(ed);
+                      }}
+                      onChange={(html, text) => {
+                        setEditorHtml(html);
+                        setEditorText(text);
+                        const now = Date.now();
+                        lastLocalEditMsRef.current = now;
+                        setDirty(true);
+                        setEditTick((t) => t + 1);
+    
+                        // Throttled local snapshot write.
+                        if (snapshotTimerRef.current) {
+                          window.clearTimeout(snapshotTimerRef.current);
+                        }
+                        snapshotTimerRef.current = window.setTimeout(() => {
+                          writeLocalSnapshot({ html, text, client_updated_at_ms: now });
+                          if (baseRef.current) {
+                            editQueue.put({ contract_id: contractId, html, text, client_updated_at_ms: now, base: baseRef.current });
+                          }
+                        }, 250);
+                      }}
+                      editorClassName="min-h-[60vh] rounded-2xl border border-black/10 bg-white px-5 py-4 text-[13px] leading-6 text-slate-900 font-serif outline-none"
+                    />
+                  </div>
+                  <ContractCommentsRail
+                    contractId={contractId}
+                    editor={editorInstance}
+                    initialThreadId={searchParams?.get('thread')}
+                    className="lg:w-64 flex-none lg:pt-4"
+                  />
+                </div>
               )}
             </div>
           </section>
 
           {/* Right Panel */}
           <aside className="col-span-12 lg:col-span-4 space-y-6">
+            <MergeFieldsPanel editor={editorInstance} templateFilename={mergeFieldTemplate} />
+            <DefinedTermsPanel editor={editorInstance} />
+            <ClauseLibraryPanel editor={editorInstance} />
+            <AiCitationsPanel editor={editorInstance} />
             <div className="bg-white rounded-[28px] border border-black/5 shadow-sm overflow-hidden">
               <div className="px-4 sm:px-6 pt-6 pb-4 border-b border-black/5">
                 <p className="text-sm font-semibold text-[#111827]">Add Template</p>
@@ -1027,6 +1417,26 @@ const ContractEditorPageV2: React.FC = () => {
           </aside>
         </div>
 
+        {conflict && (
+          <ContractMergeDialog
+            baseHtml={conflict.base.html}
+            mineHtml={editorApiRef.current?.getHTML() ?? editorHtml}
+            theirsHtml={conflict.theirs.html}
+            theirsUpdatedAtMs={conflict.theirs.server_updated_at_ms}
+            onResolve={resolveConflict}
+          />
+        )}
+
+        {historyOpen && contractId && (
+          <ContractVersionHistory
+            contractId={contractId}
+            currentHtml={editorHtml}
+            onCheckpoint={saveCheckpoint}
+            onRestore={restoreVersion}
+            onClose={() => setHistoryOpen(false)}
+          />
+        )}
+
         {signOpen && (
           <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true">
             <div className="w-full max-w-xl bg-white rounded-[28px] border border-black/10 shadow-2xl overflow-hidden">
@@ -1124,6 +1534,26 @@ const ContractEditorPageV2: React.FC = () => {
                   ))}
                 </div>
 
+                {unfilledFields.length > 0 && (
+                  <div className="rounded-2xl border border-rose-200 bg-rose-50 p-4">
+                    <div className="text-xs font-semibold text-rose-700">
+                      {unfilledFields.length === 1 ? '1 required field is' : `${unfilledFields.length} required fields are`} still empty
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {unfilledFields.map((f) => (
+                        <button
+                          key={f.key}
+                          type="button"
+                          onClick={() => showField(f.pos)}
+                          className="h-7 px-3 rounded-full bg-white border border-rose-200 text-xs font-semibold text-rose-700 hover:bg-rose-100"
+                        >
+                          {f.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {signError && <div className="text-xs text-rose-600">{signError}</div>}
 
                 {signingUrl ? (
@@ -1138,14 +1568,14 @@ const ContractEditorPageV2: React.FC = () => {
                     <div className="flex items-center justify-between gap-3">
                       <div>
                         <div className="text-xs text-black/45 font-semibold">Status</div>
-                        <div className="text-sm font-semibold text-[#111827]">{String((signStatus as any)?.status || 'unknown')}</div>
+                        <div className="text-sm font-semibold text-[#111827]">{String(signStatus?.status || 'unknown')}</div>
                       </div>
                       <button
                         type="button"
                         onClick={downloadExecuted}
                         disabled={(() => {
-                          const statusVal = String((signStatus as any)?.status || '').toLowerCase();
-                          const allSigned = Boolean((signStatus as any)?.all_signed);
+                          const statusVal = String(signStatus?.status || '').toLowerCase();
+                          const allSigned = Boolean(signStatus?.all_signed);
                           const completed = statusVal === 'completed' || statusVal === 'executed';
                           return !completed || !allSigned;
                         })()}
@@ -1155,9 +1585,9 @@ const ContractEditorPageV2: React.FC = () => {
                       </button>
                     </div>
 
-                    {(signStatus as any)?.signers?.length ? (
+                    {signStatus?.signers?.length ? (
                       <div className="mt-3 space-y-2">
-                        {(signStatus as any).signers.map((s: any) => (
+                        {signStatus.signers.map((s) => (
                           <div key={String(s.email)} className="flex items-center justify-between text-xs">
                             <div className="text-black/70 truncate">{String(s.name || s.email)}</div>
                             {(() => {
@@ -1189,8 +1619,8 @@ const ContractEditorPageV2: React.FC = () => {
                         ))}
 
                         {(() => {
-                          const signersArr = Array.isArray((signStatus as any)?.signers) ? (signStatus as any).signers : [];
-                          const anyDeclined = signersArr.some((x: any) => {
+                          const signersArr = signStatus?.signers || [];
+                          const anyDeclined = signersArr.some((x) => {
                             const s = String(x?.status || '').toLowerCase();
                             return ['declined', 'rejected', 'canceled', 'cancelled', 'refused'].includes(s);
                           });
@@ -1218,7 +1648,7 @@ const ContractEditorPageV2: React.FC = () => {
                   <button
                     type="button"
                     onClick={startSigning}
-                    disabled={signing}
+                    disabled={signing || unfilledFields.length > 0}
                     className="h-10 px-4 rounded-full bg-[#FF5C7A] text-white text-sm font-semibold disabled:opacity-60"
                   >
                     {signing ? 'Starting…' : 'Start signing'}
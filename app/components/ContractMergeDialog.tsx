@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { merge3, splitHtmlBlocks } from '@/app/lib/merge3';
+import { sanitizeEditorHtml } from '@/app/lib/sanitize-html';
+
+type Choice = 'mine' | 'theirs' | 'both';
+
+interface ContractMergeDialogProps {
+  baseHtml: string;
+  mineHtml: string;
+  theirsHtml: string;
+  /** When the server copy was written, if known. */
+  theirsUpdatedAtMs?: number | null;
+  onResolve: (html: string) => void;
+}
+
+const Blocks: React.FC<{ blocks: string[]; empty: string }> = ({ blocks, empty }) =>
+  blocks.length ? (
+    <div
+      className="max-w-none text-[12px] leading-5 text-slate-900 font-serif"
+      dangerouslySetInnerHTML={{ __html: sanitizeEditorHtml(blocks.join('')) }}
+    />
+  ) : (
+    <div className="text-[11px] italic text-black/35">{empty}</div>
+  );
+
+/**
+ * Three-way merge of the local editor copy against a newer server copy.
+ * Non-overlapping changes are merged automatically; each overlapping change
+ * shows base / mine / theirs side by side and lets the user pick.
+ */
+const ContractMergeDialog: React.FC<ContractMergeDialogProps> = ({
+  baseHtml,
+  mineHtml,
+  theirsHtml,
+  theirsUpdatedAtMs,
+  onResolve,
+}) => {
+  const chunks = useMemo(
+    () => merge3(splitHtmlBlocks(baseHtml), splitHtmlBlocks(mineHtml), splitHtmlBlocks(theirsHtml)),
+    [baseHtml, mineHtml, theirsHtml]
+  );
+  const conflictCount = chunks.filter((c) => c.kind === 'conflict').length;
+  const [choices, setChoices] = useState<Record<number, Choice>>({});
+
+  const mergedHtml = () =>
+    chunks
+      .map((chunk, i) => {
+        if (chunk.kind === 'stable') return chunk.blocks.join('');
+        const choice = choices[i] || 'mine';
+        if (choice === 'theirs') return chunk.theirs.join('');
+        if (choice === 'both') return [...chunk.mine, ...chunk.theirs].join('');
+        return chunk.mine.join('');
+      })
+      .join('');
+
+  const theirsAt = theirsUpdatedAtMs ? new Date(theirsUpdatedAtMs).toLocaleString() : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-5xl bg-white rounded-[28px] border border-black/10 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 pt-6 pb-4 border-b border-black/5">
+          <p className="text-lg font-bold text-[#111827]">This contract changed while you were editing</p>
+          <p className="text-xs text-black/45 mt-1">
+            {theirsAt ? `Someone saved a newer version (${theirsAt}). ` : 'Someone saved a newer version. '}
+            {conflictCount === 0
+              ? 'Your changes don’t overlap and can be merged automatically.'
+              : `${conflictCount} section${conflictCount === 1 ? '' : 's'} changed on both sides. Choose which version to keep.`}
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {conflictCount === 0 ? (
+            <div className="rounded-2xl border border-black/10 bg-[#F6F3ED] p-4">
+              <Blocks blocks={splitHtmlBlocks(mergedHtml())} empty="(empty document)" />
+            </div>
+          ) : (
+            chunks.map((chunk, i) => {
+              if (chunk.kind !== 'conflict') return null;
+              const choice = choices[i] || 'mine';
+              return (
+                <div key={i} className="rounded-2xl border border-amber-200 overflow-hidden">
+                  <div className="grid grid-cols-1 md:grid-cols-3 divide-y md:divide-y-0 md:divide-x divide-black/5">
+                    <div className="p-4 bg-slate-50">
+                      <div className="text-[11px] font-semibold text-black/45 uppercase tracking-wide mb-2">Original</div>
+                      <Blocks blocks={chunk.base} empty="(not present)" />
+                    </div>
+                    <div className={`p-4 ${choice !== 'theirs' ? 'bg-emerald-50/60' : ''}`}>
+                      <div className="text-[11px] font-semibold text-black/45 uppercase tracking-wide mb-2">Your version</div>
+                      <Blocks blocks={chunk.mine} empty="(removed)" />
+                    </div>
+                    <div className={`p-4 ${choice !== 'mine' ? 'bg-emerald-50/60' : ''}`}>
+                      <div className="text-[11px] font-semibold text-black/45 uppercase tracking-wide mb-2">Their version</div>
+                      <Blocks blocks={chunk.theirs} empty="(removed)" />
+                    </div>
+                  </div>
+                  <div className="px-4 py-3 border-t border-black/5 flex flex-wrap items-center justify-end gap-2">
+                    {(['mine', 'theirs', 'both'] as Choice[]).map((c) => (
+                      <button
+                        key={c}
+                        type="button"
+                        onClick={() => setChoices((prev) => ({ ...prev, [i]: c }))}
+                        className={`h-8 px-3 rounded-full border text-xs font-semibold ${
+                          choice === c
+                            ? 'bg-[#0F141F] text-white border-[#0F141F]'
+                            : 'bg-white text-black/70 border-black/10 hover:bg-black/5'
+                        }`}
+                      >
+                        {c === 'mine' ? 'Keep mine' : c === 'theirs' ? 'Take theirs' : 'Keep both'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-black/5 flex flex-wrap items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => onResolve(theirsHtml)}
+            className="h-10 px-4 rounded-full bg-white border border-black/10 text-black/70 text-sm font-semibold hover:bg-black/5"
+          >
+            Discard my changes
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve(mineHtml)}
+            className="h-10 px-4 rounded-full bg-white border border-black/10 text-black/70 text-sm font-semibold hover:bg-black/5"
+          >
+            Overwrite with mine
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve(mergedHtml())}
+            className="h-10 px-4 rounded-full bg-[#FF5C7A] text-white text-sm font-semibold"
+          >
+            Apply merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContractMergeDialog;
@@ -0,0 +1,361 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { BookmarkPlus, Columns2, History, Loader2, RotateCcw, Rows2, X } from 'lucide-react';
+import { ApiClient, type ContractVersionItem } from '@/app/lib/api-client';
+import { redline, redlineStats, type RedlineRow } from '@/app/lib/redline';
+import { sanitizeEditorHtml } from '@/app/lib/sanitize-html';
+import { useQueryRevision } from '@/app/lib/use-query-revision';
+
+/** Pseudo version id for the editor's current content. */
+const CURRENT = 'current';
+
+interface ContractVersionHistoryProps {
+  contractId: string;
+  /** Editor content right now, compared as "Current draft". */
+  currentHtml: string;
+  /** Save the editor and record a version with `note`. Resolves to an error message, or null. */
+  onCheckpoint: (note: string) => Promise<string | null>;
+  /** Put `version`'s content back in the editor and record it as a new version. */
+  onRestore: (version: ContractVersionItem & { rendered_html: string }) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const versionLabel = (v: ContractVersionItem) => (v.version_number ? `Version ${v.version_number}` : 'Version');
+
+const formatTime = (iso?: string) => (iso ? new Date(iso).toLocaleString() : '');
+
+const Html: React.FC<{ html: string; className?: string }> = ({ html, className }) => (
+  <div className={className} dangerouslySetInnerHTML={{ __html: sanitizeEditorHtml(html) }} />
+);
+
+const ROW_TONE: Record<RedlineRow['type'], string> = {
+  equal: '',
+  change: '',
+  insert: 'redline-block-insert',
+  delete: 'redline-block-delete',
+};
+
+const InlineRedline: React.FC<{ rows: RedlineRow[] }> = ({ rows }) => (
+  <div className="redline text-[12px] leading-5 text-slate-900 font-serif space-y-1">
+    {rows.map((row, i) => (
+      <Html key={i} html={row.type === 'change' ? row.inline : row.html} className={ROW_TONE[row.type]} />
+    ))}
+  </div>
+);
+
+const SideBySideRedline: React.FC<{ rows: RedlineRow[] }> = ({ rows }) => (
+  <div className="redline text-[12px] leading-5 text-slate-900 font-serif grid grid-cols-2 gap-x-4 gap-y-1">
+    {rows.map((row, i) => {
+      const left = row.type === 'change' ? row.before : row.type === 'insert' ? '' : row.html;
+      const right = row.type === 'change' ? row.after : row.type === 'delete' ? '' : row.html;
+      return (
+        <React.Fragment key={i}>
+          <Html html={left} className={row.type === 'delete' ? ROW_TONE.delete : ''} />
+          <Html html={right} className={row.type === 'insert' ? ROW_TONE.insert : ''} />
+        </React.Fragment>
+      );
+    })}
+  </div>
+);
+
+/**
+ * Version timeline of a contract: compare any two versions (or the current
+ * draft) as a redline, restore an old version, or save a named checkpoint.
+ */
+const ContractVersionHistory: React.FC<ContractVersionHistoryProps> = ({
+  contractId,
+  currentHtml,
+  onCheckpoint,
+  onRestore,
+  onClose,
+}) => {
+  const revision = useQueryRevision([`contract:${contractId}`]);
+  const [versions, setVersions] = useState<ContractVersionItem[] | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  // Version content by id, or why it could not be loaded (not retried while the panel is open).
+  const [contents, setContents] = useState<Record<string, { html: string } | { error: string }>>({});
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string>(CURRENT);
+  const [mode, setMode] = useState<'inline' | 'split'>('inline');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    new ApiClient().getContractVersions(contractId).then((res) => {
+      if (!alive) return;
+      if (res.success && res.data) {
+        setVersions(res.data.results);
+        setListError(null);
+      } else {
+        setListError(res.error || 'Failed to load versions');
+      }
+    });
+    return () => {
+      alive = false;
+    };
+  }, [contractId, revision]);
+
+  // Until something is picked, compare the latest version with the current draft.
+  const from = fromId ?? versions?.[0]?.id ?? null;
+
+  useEffect(() => {
+    const missing = [from, toId].filter((id): id is string => !!id && id !== CURRENT && contents[id] === undefined);
+    if (!missing.length) return;
+    let alive = true;
+    const client = new ApiClient();
+    Promise.all(missing.map((id) => client.getContractVersion(contractId, id))).then((results) => {
+      if (!alive) return;
+      const loaded: typeof contents = {};
+      results.forEach((res, i) => {
+        loaded[missing[i]] = res.success && res.data
+          ? { html: res.data.rendered_html || '' }
+          : { error: res.error || 'Failed to load version' };
+      });
+      setContents((prev) => ({ ...prev, ...loaded }));
+    });
+    return () => {
+      alive = false;
+    };
+  }, [contractId, from, toId, contents]);
+
+  const htmlOf = (id: string | null) => {
+    if (id === CURRENT) return currentHtml;
+    const entry = id ? contents[id] : undefined;
+    return entry && 'html' in entry ? entry.html : undefined;
+  };
+  const errorOf = (id: string | null) => {
+    const entry = id ? contents[id] : undefined;
+    return entry && 'error' in entry ? entry.error : null;
+  };
+  const beforeHtml = htmlOf(from);
+  const afterHtml = htmlOf(toId);
+  const contentError = errorOf(from) || errorOf(toId);
+
+  const rows = useMemo(
+    () => (beforeHtml !== undefined && afterHtml !== undefined ? redline(beforeHtml, afterHtml) : null),
+    [beforeHtml, afterHtml]
+  );
+  const stats = rows ? redlineStats(rows) : null;
+  const unchanged = !!stats && stats.inserted + stats.deleted + stats.changed === 0;
+
+  const options = [
+    { id: CURRENT, label: 'Current draft' },
+    ...(versions || []).map((v) => ({ id: v.id, label: `${versionLabel(v)}${v.change_summary ? ` — ${v.change_summary}` : ''}` })),
+  ];
+
+  const saveCheckpoint = async () => {
+    const text = note.trim();
+    if (!text) return;
+    setBusy('checkpoint');
+    setActionError(null);
+    const error = await onCheckpoint(text);
+    setBusy(null);
+    if (error) setActionError(error);
+    else setNote('');
+  };
+
+  const restore = async (v: ContractVersionItem) => {
+    if (!window.confirm(`Restore ${versionLabel(v).toLowerCase()}? It is saved as a new version; nothing is lost.`)) return;
+    setBusy(v.id);
+    setActionError(null);
+    let html = htmlOf(v.id);
+    if (html === undefined) {
+      const res = await new ApiClient().getContractVersion(contractId, v.id);
+      if (!res.success || !res.data) {
+        setBusy(null);
+        setActionError(res.error || 'Failed to load version');
+        return;
+      }
+      html = res.data.rendered_html || '';
+    }
+    const error = await onRestore({ ...v, rendered_html: html });
+    setBusy(null);
+    if (error) setActionError(error);
+    else {
+      setFromId(v.id);
+      setToId(CURRENT);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" role="dialog" aria-modal="true">
+      <div className="w-full max-w-6xl bg-white rounded-[28px] border border-black/10 shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 pt-6 pb-4 border-b border-black/5 flex items-start justify-between gap-4">
+          <div>
+            <p className="text-lg font-bold text-[#111827] flex items-center gap-2">
+              <History className="w-5 h-5" /> Version history
+            </p>
+            <p className="text-xs text-black/45 mt-1">Pick two versions to compare. Restoring keeps every version.</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="w-9 h-9 rounded-full hover:bg-black/5 grid place-items-center text-black/45"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row min-h-0 flex-1">
+          {/* Timeline */}
+          <aside className="md:w-72 flex-none border-b md:border-b-0 md:border-r border-black/5 flex flex-col min-h-0">
+            <div className="p-4 border-b border-black/5">
+              <label className="text-[11px] font-semibold text-black/45 uppercase tracking-wide" htmlFor="checkpoint-note">
+                Save a checkpoint
+              </label>
+              <div className="mt-2 flex gap-2">
+                <input
+                  id="checkpoint-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') void saveCheckpoint();
+                  }}
+                  placeholder="e.g. Sent to counterparty"
+                  className="flex-1 min-w-0 h-9 px-3 rounded-xl border border-black/10 text-sm focus:outline-none focus:ring-2 focus:ring-rose-200"
+                />
+                <button
+                  type="button"
+                  onClick={() => void saveCheckpoint()}
+                  disabled={!note.trim() || !!busy}
+                  aria-label="Save checkpoint"
+                  title="Save checkpoint"
+                  className="h-9 w-9 rounded-xl bg-[#0F141F] text-white grid place-items-center disabled:opacity-40"
+                >
+                  {busy === 'checkpoint' ? <Loader2 className="w-4 h-4 animate-spin" /> : <BookmarkPlus className="w-4 h-4" />}
+                </button>
+              </div>
+              {actionError && <p className="text-xs text-rose-600 mt-2">{actionError}</p>}
+            </div>
+
+            <ol className="overflow-y-auto p-2 space-y-1 max-h-64 md:max-h-none">
+              <li>
+                <button
+                  type="button"
+                  onClick={() => setToId(CURRENT)}
+                  className={`w-full text-left rounded-2xl px-3 py-2 ${toId === CURRENT ? 'bg-[#F6F3ED]' : 'hover:bg-black/5'}`}
+                >
+                  <p className="text-sm font-semibold text-[#111827]">Current draft</p>
+                  <p className="text-[11px] text-black/45">What is in the editor now</p>
+                </button>
+              </li>
+              {listError && <li className="px-3 py-2 text-xs text-rose-600">{listError}</li>}
+              {!versions && !listError && <li className="px-3 py-2 text-xs text-black/45">Loading versions…</li>}
+              {versions?.length === 0 && <li className="px-3 py-2 text-xs text-black/45">No versions saved yet.</li>}
+              {versions?.map((v) => {
+                const selected = v.id === from || v.id === toId;
+                return (
+                  <li key={v.id}>
+                    <div
+                      className={`group rounded-2xl px-3 py-2 flex items-start gap-2 ${selected ? 'bg-[#F6F3ED]' : 'hover:bg-black/5'}`}
+                    >
+                      <button type="button" onClick={() => setFromId(v.id)} className="flex-1 min-w-0 text-left">
+                        <p className="text-sm font-semibold text-[#111827]">
+                          {versionLabel(v)}
+                          {v.id === from && <span className="ml-2 text-[10px] font-bold text-rose-600">FROM</span>}
+                          {v.id === toId && <span className="ml-2 text-[10px] font-bold text-emerald-600">TO</span>}
+                        </p>
+                        {v.change_summary && <p className="text-xs text-black/70 truncate">{v.change_summary}</p>}
+                        <p className="text-[11px] text-black/45 truncate">
+                          {[v.created_by_name, formatTime(v.created_at)].filter(Boolean).join(' · ')}
+                        </p>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void restore(v)}
+                        disabled={!!busy}
+                        aria-label={`Restore ${versionLabel(v)}`}
+                        title="Restore as a new version"
+                        className="w-7 h-7 rounded-full grid place-items-center text-black/45 hover:bg-white hover:text-black disabled:opacity-40"
+                      >
+                        {busy === v.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </aside>
+
+          {/* Comparison */}
+          <section className="flex-1 min-w-0 flex flex-col min-h-0">
+            <div className="px-6 py-3 border-b border-black/5 flex flex-wrap items-center gap-2 text-xs">
+              <select
+                value={from || ''}
+                onChange={(e) => setFromId(e.target.value)}
+                aria-label="Compare from"
+                className="h-8 max-w-[14rem] rounded-xl border border-black/10 px-2 bg-white"
+              >
+                {options.map((o) => (
+                  <option key={o.id} value={o.id}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              <span className="text-black/45">→</span>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value)}
+                aria-label="Compare to"
+                className="h-8 max-w-[14rem] rounded-xl border border-black/10 px-2 bg-white"
+              >
+                {options.map((o) => (
+                  <option key={o.id} value={o.id}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+              {stats && (
+                <span className="text-black/45">
+                  {unchanged
+                    ? 'No differences'
+                    : `${stats.changed} edited · ${stats.inserted} added · ${stats.deleted} removed`}
+                </span>
+              )}
+              <div className="ml-auto flex rounded-xl border border-black/10 overflow-hidden">
+                <button
+                  type="button"
+                  onClick={() => setMode('inline')}
+                  aria-pressed={mode === 'inline'}
+                  title="Inline redline"
+                  className={`h-8 px-2 ${mode === 'inline' ? 'bg-[#0F141F] text-white' : 'bg-white text-black/60'}`}
+                >
+                  <Rows2 className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode('split')}
+                  aria-pressed={mode === 'split'}
+                  title="Side by side"
+                  className={`h-8 px-2 ${mode === 'split' ? 'bg-[#0F141F] text-white' : 'bg-white text-black/60'}`}
+                >
+                  <Columns2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 overflow-y-auto">
+              {contentError ? (
+                <p className="text-sm text-rose-600">{contentError}</p>
+              ) : !from ? (
+                <p className="text-sm text-black/45">Pick a version to compare.</p>
+              ) : !rows ? (
+                <p className="text-sm text-black/45">Loading…</p>
+              ) : mode === 'inline' ? (
+                <InlineRedline rows={rows} />
+              ) : (
+                <SideBySideRedline rows={rows} />
+              )}
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContractVersionHistory;
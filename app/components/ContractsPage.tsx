@@ -42,18 +42,17 @@ export default function ContractsPage() {
       setError(null)
       const response = await apiClient.getContracts()
 
-      if (response.success) {
-        const data = response.data as any
-        const contractsList = Array.isArray(data) ? data : data.results || []
+      if (response.success && response.data) {
+        const contractsList = response.data.results
         setContracts(contractsList)
 
         // Calculate stats from real data
         const newStats = {
           total: contractsList.length,
-          draft: contractsList.filter((c: any) => c.status === 'draft').length,
-          pending: contractsList.filter((c: any) => c.status === 'pending').length,
-          approved: contractsList.filter((c: any) => c.status === 'approved').length,
-          rejected: contractsList.filter((c: any) => c.status === 'rejected').length,
+          draft: contractsList.filter((c) => c.status === 'draft').length,
+          pending: contractsList.filter((c) => c.status === 'pending').length,
+          approved: contractsList.filter((c) => c.status === 'approved').length,
+          rejected: contractsList.filter((c) => c.status === 'rejected').length,
         }
         setStats(newStats)
       } else {
@@ -1,97 +1,81 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import DashboardLayout from './DashboardLayout';
+import LoadMore from './LoadMore';
+import SortSelect from './SortSelect';
 import { useRouter } from 'next/navigation';
-import { ApiClient, Contract } from '@/app/lib/api-client';
-import { FileText, Search, Trash2 } from 'lucide-react';
+import { ApiClient, Contract, ContractStatistics } from '@/app/lib/api-client';
+import { usePaginatedList } from '@/app/lib/use-paginated-list';
+import { useQueryRevision } from '@/app/lib/use-query-revision';
+import { FileText, MessageSquare, Search, Trash2 } from 'lucide-react';
 
-interface ContractStats {
-  total: number;
-  draft: number;
-  pending: number;
-  approved: number;
-  rejected: number;
-}
+const SORT_OPTIONS = [
+  { value: '-updated_at', label: 'Recently updated' },
+  { value: 'updated_at', label: 'Least recently updated' },
+  { value: '-created_at', label: 'Newest first' },
+  { value: 'title', label: 'Title A–Z' },
+  { value: '-title', label: 'Title Z–A' },
+];
 
 const ContractsPageV2: React.FC = () => {
-  const [contracts, setContracts] = useState<Contract[]>([]);
-  const [stats, setStats] = useState<ContractStats>({
-    total: 0,
-    draft: 0,
-    pending: 0,
-    approved: 0,
-    rejected: 0,
-  });
-  const [loading, setLoading] = useState(true);
+  const [stats, setStats] = useState<ContractStatistics>({ total: 0 });
   const [error, setError] = useState<string | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const router = useRouter();
 
-  const lastRefreshAtRef = React.useRef<number>(0);
+  // Debounced search; filtering and sorting happen on the server.
+  useEffect(() => {
+    const handle = window.setTimeout(() => setQuery(search.trim()), 250);
+    return () => window.clearTimeout(handle);
+  }, [search]);
+
+  const contracts = usePaginatedList<Contract>(
+    (page) =>
+      new ApiClient().getContracts({
+        ...page,
+        status: filterStatus === 'all' ? undefined : filterStatus,
+        search: query || undefined,
+      }),
+    // Contract mutations anywhere in the app (including `contracts:changed` from the editor)
+    // invalidate the shared cache; the loaded rows are re-read when that happens.
+    { ordering: '-updated_at', filterKey: `${filterStatus}|${query}`, tags: ['contracts'] }
+  );
+  const { reload } = contracts;
+
+  // Counts across all contracts, not just the loaded pages.
+  const fetchStats = useCallback(async () => {
+    const response = await new ApiClient().getContractStatistics();
+    if (response.success && response.data) setStats(response.data);
+  }, []);
 
+  const dataRevision = useQueryRevision(['contracts']);
   useEffect(() => {
-    fetchContracts();
+    void fetchStats();
+  }, [fetchStats, dataRevision]);
 
+  useEffect(() => {
     // Keep list reasonably fresh (edit page updates `updated_at`).
     // This is intentionally lightweight; "true" realtime would use websockets.
-    const onFocus = () => fetchContracts();
-    window.addEventListener('focus', onFocus);
-
-    const onChanged = () => {
-      const now = Date.now();
-      if (now - lastRefreshAtRef.current < 800) return;
-      lastRefreshAtRef.current = now;
-      fetchContracts();
+    const refresh = () => {
+      reload();
+      void fetchStats();
     };
-    window.addEventListener('contracts:changed', onChanged as any);
+    window.addEventListener('focus', refresh);
 
     const interval = window.setInterval(() => {
       // Avoid unnecessary work when tab is hidden.
-      if (document.visibilityState === 'visible') fetchContracts();
+      if (document.visibilityState === 'visible') refresh();
     }, 15000);
 
     return () => {
-      window.removeEventListener('focus', onFocus);
-      window.removeEventListener('contracts:changed', onChanged as any);
+      window.removeEventListener('focus', refresh);
       window.clearInterval(interval);
     };
-  }, []);
-
-  const fetchContracts = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      lastRefreshAtRef.current = Date.now();
-      const client = new ApiClient();
-      const response = await client.getContracts();
-
-      if (response.success) {
-        const contractsList = Array.isArray(response.data)
-          ? response.data
-          : response.data?.results || [];
-        setContracts(contractsList);
-
-        // Calculate stats
-        const newStats = {
-          total: contractsList.length,
-          draft: contractsList.filter((c: any) => c.status === 'draft').length,
-          pending: contractsList.filter((c: any) => c.status === 'pending').length,
-          approved: contractsList.filter((c: any) => c.status === 'approved').length,
-          rejected: contractsList.filter((c: any) => c.status === 'rejected').length,
-        };
-        setStats(newStats);
-      } else {
-        setError(response.error || 'Failed to fetch contracts');
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-    } finally {
-      setLoading(false);
-    }
-  };
+  }, [reload, fetchStats]);
 
   const deleteOne = async (contract: any) => {
     const id = String(contract?.id || '').trim();
@@ -111,9 +95,7 @@ const ContractsPageV2: React.FC = () => {
         return;
       }
 
-      // Refresh list and notify any other pages.
-      await fetchContracts();
-      window.dispatchEvent(new Event('contracts:changed'));
+      // deleteContract invalidates contract lists and statistics; this page reloads via `dataRevision`.
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to delete contract');
     } finally {
@@ -143,17 +125,8 @@ const ContractsPageV2: React.FC = () => {
     return colors[status] || 'bg-slate-50 text-slate-700 border-slate-200';
   };
 
-  const filteredContracts =
-    filterStatus === 'all'
-      ? contracts
-      : contracts.filter((c: any) => c.status === filterStatus);
-
-  const visibleContracts = filteredContracts.filter((c: any) => {
-    const s = search.trim().toLowerCase();
-    if (!s) return true;
-    const name = (c.title || c.name || '').toLowerCase();
-    return name.includes(s);
-  });
+  const visibleContracts = contracts.items;
+  const listError = error || contracts.error;
 
   return (
     <DashboardLayout>
@@ -182,7 +155,7 @@ const ContractsPageV2: React.FC = () => {
 
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
-        {[{ label: 'Total', value: stats.total }, { label: 'Draft', value: stats.draft }, { label: 'Pending', value: stats.pending }, { label: 'Approved', value: stats.approved }].map((s) => (
+        {[{ label: 'Total', value: stats.total }, { label: 'Draft', value: stats.draft ?? 0 }, { label: 'Pending', value: stats.pending ?? 0 }, { label: 'Approved', value: stats.approved ?? 0 }].map((s) => (
           <div key={s.label} className="rounded-3xl bg-white border border-slate-200 p-6">
             <p className="text-slate-500 text-sm">{s.label}</p>
             <p className="text-4xl font-extrabold text-slate-900 mt-2">{String(s.value).padStart(2, '0')}</p>
@@ -195,10 +168,11 @@ const ContractsPageV2: React.FC = () => {
         <div className="px-6 py-5 border-b border-slate-200 flex items-center justify-between flex-wrap gap-3">
           <div>
             <p className="text-lg font-extrabold text-slate-900">All Contracts</p>
-            <p className="text-sm text-slate-500 mt-1">{visibleContracts.length} contract{visibleContracts.length !== 1 ? 's' : ''}</p>
+            <p className="text-sm text-slate-500 mt-1">{contracts.total} contract{contracts.total !== 1 ? 's' : ''}</p>
           </div>
 
-          <div className="flex gap-2 flex-wrap">
+          <div className="flex gap-2 flex-wrap items-center">
+            <SortSelect value={contracts.ordering} options={SORT_OPTIONS} onChange={contracts.setOrdering} />
             {['all', 'draft', 'pending', 'approved', 'rejected'].map((status) => (
               <button
                 key={status}
@@ -216,10 +190,10 @@ const ContractsPageV2: React.FC = () => {
         </div>
 
         <div className="divide-y divide-slate-200">
-          {loading ? (
+          {contracts.loading ? (
             <div className="py-16 text-center text-slate-500">Loading contracts…</div>
-          ) : error ? (
-            <div className="py-16 text-center text-rose-600">{error}</div>
+          ) : listError ? (
+            <div className="py-16 text-center text-rose-600">{listError}</div>
           ) : visibleContracts.length === 0 ? (
             <div className="py-16 text-center text-slate-500">No contracts found</div>
           ) : (
@@ -244,6 +218,15 @@ const ContractsPageV2: React.FC = () => {
                   </div>
 
                   <div className="flex items-center gap-3 shrink-0">
+                    {Number(contract.unresolved_comment_count) > 0 && (
+                      <span
+                        className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-semibold bg-amber-50 text-amber-700 border border-amber-200"
+                        title={`${contract.unresolved_comment_count} unresolved comment thread${contract.unresolved_comment_count === 1 ? '' : 's'}`}
+                      >
+                        <MessageSquare className="w-3.5 h-3.5" />
+                        {contract.unresolved_comment_count}
+                      </span>
+                    )}
                     <span className={`inline-block px-3 py-1 rounded-full text-xs font-semibold border ${getStatusColor(contract.status)}`}>
                       {String(contract.status).toUpperCase()}
                     </span>
@@ -271,6 +254,17 @@ const ContractsPageV2: React.FC = () => {
             ))
           )}
         </div>
+        {!contracts.loading && !listError && (
+          <LoadMore
+            shown={visibleContracts.length}
+            total={contracts.total}
+            hasMore={contracts.hasMore}
+            loading={contracts.loadingMore}
+            onLoadMore={contracts.loadMore}
+            noun="contracts"
+            className="border-t border-slate-200"
+          />
+        )}
       </div>
     </DashboardLayout>
   );
@@ -3,6 +3,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Sidebar from './Sidebar';
+import { http } from '../lib/http';
 
 // Type definitions
 interface Statistics {
@@ -33,9 +34,6 @@ const Dashboard = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
-  // Base URL (no trailing /api). Endpoints are under /api/v1
-  const BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://lawflow-267708864896.asia-south1.run.app';
-  
   // Helper to get token from localStorage
   const getToken = () => {
     if (typeof window !== 'undefined') {
@@ -57,18 +55,13 @@ const Dashboard = () => {
         return;
       }
 
-      const headers = { 
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json' 
-      };
-
       // Fetch Statistics (Cards & Charts)
-      const statsRes = await fetch(`${BASE_URL}/api/v1/contracts/statistics/`, { headers });
+      const statsRes = await http.send('/api/v1/contracts/statistics/');
       if (!statsRes.ok) throw new Error('Failed to fetch statistics');
       const statsData = await statsRes.json();
       
       // Fetch Recent Contracts (List)
-      const recentRes = await fetch(`${BASE_URL}/api/v1/contracts/recent/`, { headers });
+      const recentRes = await http.send('/api/v1/contracts/recent/');
       if (!recentRes.ok) throw new Error('Failed to fetch recent contracts');
       const recentData = await recentRes.json();
 
@@ -33,7 +33,7 @@ interface Template {
   id: string;
   name: string;
   description?: string;
-  created_at: string;
+  created_at?: string;
 }
 
 interface Clause {
@@ -73,12 +73,12 @@ const DashboardContent: React.FC<DashboardProps> = ({ onLogout }) => {
       const client = new ApiClient();
       // Fetch all data in parallel
       const [contractsResponse, templatesResponse] = await Promise.all([
-        client.getContracts().catch(() => ({ data: [] })),
-        client.getTemplates().catch(() => ({ data: [] })),
+        client.getContracts().catch(() => null),
+        client.getTemplates().catch(() => null),
       ]);
 
-      setRecentContracts(contractsResponse?.data || []);
-      setTemplates(templatesResponse?.data || []);
+      setRecentContracts(contractsResponse?.data?.results || []);
+      setTemplates(templatesResponse?.data?.results || []);
       setClauses([]);
       setJobs([]);
     } catch (err) {
@@ -1,8 +1,12 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import SidebarV2 from './SidebarV2';
+import UploadTray from './UploadTray';
+import SessionExpiryWarning from './SessionExpiryWarning';
 import { Menu } from 'lucide-react';
+import { useEditQueueFlusher } from '@/app/lib/use-edit-queue-flusher';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -11,8 +15,19 @@ interface DashboardLayoutProps {
 const DashboardLayout: React.FC<DashboardLayoutProps> = ({
   children,
 }) => {
+  const router = useRouter();
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
 
+  // Contract edits queued while offline (or in a closed editor) are pushed from any page.
+  useEditQueueFlusher();
+
+  // The session ended here or in another tab (logout, expiry, refresh rejected).
+  useEffect(() => {
+    const onLogout = () => router.replace('/login');
+    window.addEventListener('auth:logout', onLogout);
+    return () => window.removeEventListener('auth:logout', onLogout);
+  }, [router]);
+
   return (
     <div className="flex h-screen bg-[#F2F0EB]">
       {/* Sidebar */}
@@ -35,6 +50,11 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
           {children}
         </div>
       </main>
+
+      {/* Uploads keep running across pages */}
+      <UploadTray />
+
+      <SessionExpiryWarning />
     </div>
   );
 };
@@ -4,7 +4,8 @@ import React, { useEffect, useState } from 'react';
 import DashboardLayout from './DashboardLayout';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/app/lib/auth-context';
-import { ApiClient } from '@/app/lib/api-client';
+import { ApiClient, type ContractStatus } from '@/app/lib/api-client';
+import { useQueryRevision } from '@/app/lib/use-query-revision';
 import {
   CalendarDays,
   ClipboardCheck,
@@ -29,7 +30,7 @@ interface Contract {
   id: string;
   name: string;
   title?: string;
-  status: 'draft' | 'pending' | 'approved' | 'rejected';
+  status: ContractStatus;
   date: string;
   created_at?: string;
   value: number;
@@ -198,6 +199,10 @@ const DashboardPageV2: React.FC = () => {
   const [growth, setGrowth] = useState<GrowthPoint[]>([]);
   const [insights, setInsights] = useState<DashboardInsights | null>(null);
   const [insightsLoading, setInsightsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Re-read (from the shared cache) when dashboard data is invalidated or revalidated.
+  const dataRevision = useQueryRevision(['contracts', 'dashboard', 'calendar']);
 
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -219,6 +224,9 @@ const DashboardPageV2: React.FC = () => {
         // Wide window so dashboard always has events to show (next 3 upcoming, else last 3 past).
         start.setDate(start.getDate() - 365);
         end.setDate(end.getDate() + 365);
+        // Day-aligned bounds keep the request (and its cache key) stable across visits.
+        start.setHours(0, 0, 0, 0);
+        end.setHours(0, 0, 0, 0);
         const [statsResponse, recentResponse, contractsResponse, insightsResponse, eventsResponse] = await Promise.all([
           client.getContractStatistics(),
           client.getRecentContracts(5),
@@ -240,24 +248,25 @@ const DashboardPageV2: React.FC = () => {
           return;
         }
 
+        // A failed section (or a payload that broke the API contract) is reported, not shown as empty.
+        const failed = [statsResponse, recentResponse, contractsResponse, insightsResponse, eventsResponse].find((r) => !r.success);
+        setLoadError(failed ? failed.error || 'Failed to load dashboard data' : null);
+
         if (statsResponse.success && statsResponse.data) {
+          const counts = statsResponse.data;
           setStats({
-            total: (statsResponse.data as any).total || 0,
-            draft: (statsResponse.data as any).draft || 0,
-            pending: (statsResponse.data as any).pending || 0,
-            approved: (statsResponse.data as any).approved || 0,
-            rejected: (statsResponse.data as any).rejected || 0,
+            total: counts.total || 0,
+            draft: counts.draft || 0,
+            pending: counts.pending || 0,
+            approved: counts.approved || 0,
+            rejected: counts.rejected || 0,
           });
         }
 
         if (recentResponse.success && recentResponse.data) {
-          const contracts = Array.isArray(recentResponse.data)
-            ? recentResponse.data
-            : (recentResponse.data as any).results || [];
-
-          const recent: Contract[] = contracts.slice(0, 5).map((contract: any) => ({
+          const recent: Contract[] = recentResponse.data.results.slice(0, 5).map((contract) => ({
             id: contract.id,
-            name: contract.title || contract.name,
+            name: contract.title,
             status: contract.status,
             date: contract.created_at || new Date().toISOString().split('T')[0],
             value: contract.value || 0,
@@ -268,9 +277,7 @@ const DashboardPageV2: React.FC = () => {
         }
 
         if (contractsResponse.success && contractsResponse.data) {
-          const all = Array.isArray(contractsResponse.data)
-            ? contractsResponse.data
-            : (contractsResponse.data as any).results || [];
+          const all = contractsResponse.data.results;
 
           const now = new Date();
 
@@ -282,10 +289,9 @@ const DashboardPageV2: React.FC = () => {
           const points: GrowthPoint[] = months.map((d) => {
             const monthKey = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
             const label = d.toLocaleString(undefined, { month: 'short' });
-            const count = all.filter((c: any) => {
-              const created = c.created_at || c.createdAt || c.date || c.created;
-              if (!created) return false;
-              const cd = new Date(created);
+            const count = all.filter((c) => {
+              if (!c.created_at) return false;
+              const cd = new Date(c.created_at);
               const k = `${cd.getFullYear()}-${String(cd.getMonth() + 1).padStart(2, '0')}`;
               return k === monthKey;
             }).length;
@@ -296,20 +302,15 @@ const DashboardPageV2: React.FC = () => {
         }
 
         if (insightsResponse.success && insightsResponse.data) {
-          setInsights(insightsResponse.data as any);
+          setInsights(insightsResponse.data);
         }
 
-        if (eventsResponse && (eventsResponse as any).success && (eventsResponse as any).data) {
-          const raw = (eventsResponse as any).data;
-          const items = Array.isArray(raw) ? raw : raw.results || [];
-
+        if (eventsResponse.success && eventsResponse.data) {
           const now = new Date();
-          const normalized = items
-            .map((e: any) => {
-              const startIso = e.start_datetime || e.startDatetime || e.start;
-              const endIso = e.end_datetime || e.endDatetime || e.end;
-              const startStr = startIso ? String(startIso) : '';
-              const endStr = endIso ? String(endIso) : undefined;
+          const normalized = eventsResponse.data.results
+            .map((e) => {
+              const startStr = e.start_datetime || '';
+              const endStr = e.end_datetime || undefined;
               const startDate = startStr ? new Date(startStr) : null;
               const startMs = startDate && !Number.isNaN(startDate.getTime()) ? startDate.getTime() : Number.NaN;
 
@@ -318,7 +319,7 @@ const DashboardPageV2: React.FC = () => {
                 title: String(e.title || 'Untitled event'),
                 start: startStr,
                 end: endStr,
-                allDay: Boolean(e.all_day ?? e.allDay ?? false),
+                allDay: e.all_day,
                 category: e.category,
                 __startMs: startMs,
               };
@@ -353,7 +354,7 @@ const DashboardPageV2: React.FC = () => {
     if (user && !isLoading && isAuthenticated) {
       fetchData();
     }
-  }, [user, isLoading, isAuthenticated, router]);
+  }, [user, isLoading, isAuthenticated, router, dataRevision]);
 
   const formatActivity = (c: Contract) => {
     const name = c.title || c.name;
@@ -445,6 +446,10 @@ const DashboardPageV2: React.FC = () => {
         </div>
       </div>
 
+      {loadError ? (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-2xl text-sm">{loadError}</div>
+      ) : null}
+
       {/* Summary cards */}
       <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-5 mb-8">
         <div className="rounded-[28px] bg-gradient-to-br from-rose-400 to-pink-500 text-white p-6 relative overflow-hidden">
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useEditorState, type Editor } from '@tiptap/react';
+import type { DefinedTermsReport, TermIssue, TermIssueKind, TextSpan } from '@/app/lib/defined-terms';
+import { getDefinedTerms } from './tiptap/DefinedTermsExtension';
+
+type Props = {
+  editor: Editor | null;
+  className?: string;
+};
+
+const ISSUE_LABEL: Record<TermIssueKind, string> = {
+  'used-before-definition': 'Used before definition',
+  unused: 'Never used',
+  'inconsistent-case': 'Capitalisation',
+  'defined-twice': 'Defined twice',
+};
+
+const ISSUE_TONE: Record<TermIssueKind, string> = {
+  'used-before-definition': 'text-rose-700',
+  unused: 'text-black/45',
+  'inconsistent-case': 'text-amber-700',
+  'defined-twice': 'text-rose-700',
+};
+
+/** The span with some of the text around it, on one line. */
+function snippet(blocks: string[], span: TextSpan): { before: string; text: string; after: string } {
+  const text = blocks[span.block] || '';
+  const start = Math.max(0, span.start - 40);
+  const end = Math.min(text.length, span.end + 40);
+  const clean = (s: string) => s.replace(/\s+/g, ' ');
+  return {
+    before: `${start > 0 ? '…' : ''}${clean(text.slice(start, span.start))}`,
+    text: clean(text.slice(span.start, span.end)),
+    after: `${clean(text.slice(span.end, end))}${end < text.length ? '…' : ''}`,
+  };
+}
+
+/**
+ * Issues and terms of a defined-terms report. With `onSelect`, rows are
+ * buttons (to go to the text); `onHover` follows the term under the pointer.
+ */
+export function DefinedTermsList({
+  report,
+  blocks,
+  onSelect,
+  onHover,
+}: {
+  report: DefinedTermsReport;
+  blocks: string[];
+  onSelect?: (span: TextSpan) => void;
+  onHover?: (term: string | null) => void;
+}) {
+  const [tab, setTab] = useState<'issues' | 'terms'>('issues');
+
+  const row = (key: string, term: string, span: TextSpan, children: React.ReactNode) => {
+    const className = 'w-full text-left rounded-xl border border-black/5 bg-[#F6F3ED]/60 px-3 py-2';
+    return (
+      <li key={key} onMouseEnter={() => onHover?.(term)}>
+        {onSelect ? (
+          <button type="button" className={`${className} hover:bg-[#F6F3ED]`} onClick={() => onSelect(span)}>
+            {children}
+          </button>
+        ) : (
+          <div className={className}>{children}</div>
+        )}
+      </li>
+    );
+  };
+
+  const context = (span: TextSpan) => {
+    const s = snippet(blocks, span);
+    return (
+      <div className="mt-1 text-[11px] leading-4 text-black/50 line-clamp-2">
+        {s.before}
+        <span className="font-semibold text-[#111827]">{s.text}</span>
+        {s.after}
+      </div>
+    );
+  };
+
+  const issueRow = (issue: TermIssue, i: number) =>
+    row(
+      `${issue.kind}:${i}`,
+      issue.term,
+      issue.span,
+      <>
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span className="font-semibold text-[#111827] truncate">{issue.term}</span>
+          <span className={`flex-none text-[11px] font-semibold ${ISSUE_TONE[issue.kind]}`}>{ISSUE_LABEL[issue.kind]}</span>
+        </div>
+        {context(issue.span)}
+      </>
+    );
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 rounded-full bg-[#F6F3ED] p-1 text-xs font-semibold">
+        {(['issues', 'terms'] as const).map((t) => (
+          <button
+            key={t}
+            type="button"
+            onClick={() => setTab(t)}
+            className={`flex-1 h-7 rounded-full ${tab === t ? 'bg-white shadow-sm text-[#111827]' : 'text-black/50'}`}
+          >
+            {t === 'issues' ? `Issues (${report.issues.length})` : `Terms (${report.terms.length})`}
+          </button>
+        ))}
+      </div>
+
+      <ul className="mt-3 space-y-2 max-h-[45vh] overflow-y-auto pr-1" onMouseLeave={() => onHover?.(null)}>
+        {tab === 'issues' ? (
+          report.issues.length ? (
+            report.issues.map(issueRow)
+          ) : (
+            <li className="text-sm text-black/45">
+              {report.terms.length ? 'Every defined term is used consistently.' : 'No defined terms found.'}
+            </li>
+          )
+        ) : report.terms.length ? (
+          report.terms.map((t) =>
+            row(
+              t.term,
+              t.term,
+              t.definition,
+              <>
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-semibold text-[#111827] truncate">{t.term}</span>
+                  <span className="flex-none text-[11px] text-black/45">
+                    {t.uses.length} use{t.uses.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+                {context(t.definition)}
+              </>
+            )
+          )
+        ) : (
+          <li className="text-sm text-black/45">
+            No defined terms found. Terms are picked up from definitions like “Services” means … or (the “Customer”).
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Live defined-terms sidebar for the editor: extracted definitions and the
+ * issues in their use, kept up to date as the document changes. Clicking a
+ * row selects the text; hovering a term highlights its definition and uses.
+ */
+const DefinedTermsPanel: React.FC<Props> = ({ editor, className }) => {
+  const analysis = useEditorState({
+    editor,
+    selector: ({ editor: ed }) => (ed ? getDefinedTerms(ed.state) : null),
+    // A new analysis is only made once typing pauses after a change.
+    equalityFn: (a, b) => a === b,
+  });
+
+  const select = (span: TextSpan) => {
+    if (!editor || !analysis) return;
+    const { from, to } = analysis.range(span);
+    editor.chain().focus().setTextSelection({ from, to }).scrollIntoView().run();
+  };
+
+  const hover = (term: string | null) => {
+    if (editor && !editor.isDestroyed) editor.commands.setDefinedTermHighlight(term);
+  };
+
+  return (
+    <div className={`bg-white rounded-[28px] border border-black/5 shadow-sm overflow-hidden ${className || ''}`}>
+      <div className="px-4 sm:px-6 pt-6 pb-4 border-b border-black/5">
+        <p className="text-sm font-semibold text-[#111827]">Defined Terms</p>
+        <p className="text-xs text-black/45 mt-1">Definitions in this contract and where their use is inconsistent.</p>
+      </div>
+      <div className="p-4 sm:p-5">
+        {analysis ? (
+          <DefinedTermsList report={analysis.report} blocks={analysis.blocks} onSelect={select} onHover={hover} />
+        ) : (
+          <div className="text-sm text-black/45">Loading…</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DefinedTermsPanel;
@@ -0,0 +1,21 @@
+'use client';
+
+import React from 'react';
+
+/**
+ * Inline message under a form field. Give the input `aria-describedby={id}` and
+ * `aria-invalid` so screen readers announce it with the field.
+ */
+const FieldError: React.FC<{ id: string; message?: string | null }> = ({ id, message }) => {
+  if (!message) return null;
+  return (
+    <p id={id} role="alert" className="mt-1.5 text-xs font-medium text-rose-600">
+      {message}
+    </p>
+  );
+};
+
+export default FieldError;
+
+/** Border/ring classes for an input with an error, matching the rose error palette. */
+export const invalidInputClass = 'border-rose-300 focus:ring-rose-300 bg-rose-50/40';
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useEditorState, type Editor } from '@tiptap/react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import { getFindState } from './tiptap/FindReplaceExtension';
+
+type Props = {
+  editor: Editor;
+  dark?: boolean;
+  className?: string;
+  onClose: () => void;
+};
+
+/**
+ * Find and replace bar for the editor toolbar. The search runs as you type
+ * and highlights every match; Enter goes to the next match (Shift+Enter to the
+ * previous one), Enter in the replace field replaces the current one.
+ */
+export default function FindReplacePanel({ editor, dark, className, onClose }: Props) {
+  const [search, setSearch] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [regex, setRegex] = useState(false);
+  const searchRef = useRef<HTMLInputElement | null>(null);
+
+  const find = useEditorState({
+    editor,
+    selector: ({ editor: ed }) => {
+      const state = ed ? getFindState(ed.state) : null;
+      return { count: state?.matches.length || 0, current: state?.current ?? -1, error: state?.error || null };
+    },
+    equalityFn: (a, b) => !!a && !!b && a.count === b.count && a.current === b.current && a.error === b.error,
+  });
+
+  useEffect(() => {
+    searchRef.current?.focus();
+    searchRef.current?.select();
+  }, []);
+
+  useEffect(() => {
+    if (editor.isDestroyed) return;
+    editor.commands.setFindQuery(search ? { search, caseSensitive, wholeWord, regex } : null);
+  }, [editor, search, caseSensitive, wholeWord, regex]);
+
+  // Highlights go when the bar does.
+  useEffect(
+    () => () => {
+      if (!editor.isDestroyed) editor.commands.setFindQuery(null);
+    },
+    [editor]
+  );
+
+  const count = find?.count || 0;
+  const current = find?.current ?? -1;
+  const error = find?.error || null;
+
+  const inputClass = `h-8 min-w-0 flex-1 rounded-full border px-3 text-xs outline-none ${
+    dark ? 'border-white/10 bg-transparent text-white placeholder:text-white/40' : 'border-black/10 bg-white text-black/80'
+  }`;
+  const optionClass = (active: boolean) =>
+    `h-7 px-2.5 rounded-full border text-[11px] font-semibold transition ${
+      active
+        ? dark
+          ? 'bg-white text-[#0F141F] border-white'
+          : 'bg-[#0F141F] text-white border-[#0F141F]'
+        : dark
+          ? 'border-white/10 text-white/70 hover:bg-white/10'
+          : 'border-black/10 bg-white text-black/60 hover:bg-black/5'
+    }`;
+  const iconClass = `h-8 w-8 flex-none rounded-full border grid place-items-center transition disabled:opacity-50 ${
+    dark ? 'border-white/10 text-white/85 hover:bg-white/10' : 'border-black/10 bg-white text-black/70 hover:bg-black/5'
+  }`;
+
+  const onEscape = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Escape') return;
+    e.preventDefault();
+    onClose();
+    editor.commands.focus();
+  };
+
+  return (
+    <div className={className} onKeyDown={onEscape}>
+      <div className="flex items-center gap-2">
+        <input
+          ref={searchRef}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return;
+            e.preventDefault();
+            if (e.shiftKey) editor.commands.findPrevious();
+            else editor.commands.findNext();
+          }}
+          placeholder={regex ? 'Find (regular expression)' : 'Find'}
+          aria-label="Find"
+          className={inputClass}
+        />
+        <span
+          className={`flex-none min-w-[4.5rem] text-right text-[11px] tabular-nums ${
+            error ? 'text-rose-600' : dark ? 'text-white/60' : 'text-black/45'
+          }`}
+        >
+          {error ? 'Invalid' : !search ? '' : count ? `${current >= 0 ? current + 1 : '–'} of ${count}` : 'No matches'}
+        </span>
+        <button type="button" className={iconClass} aria-label="Previous match" title="Previous match (Shift+Enter)" disabled={!count} onClick={() => editor.commands.findPrevious()}>
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button type="button" className={iconClass} aria-label="Next match" title="Next match (Enter)" disabled={!count} onClick={() => editor.commands.findNext()}>
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button type="button" className={iconClass} aria-label="Close find and replace" title="Close (Esc)" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="mt-2 flex items-center gap-2">
+        <input
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return;
+            e.preventDefault();
+            editor.commands.replaceMatch(replacement);
+          }}
+          placeholder={regex ? 'Replace with ($1 for a group)' : 'Replace with'}
+          aria-label="Replace with"
+          className={inputClass}
+        />
+        <button
+          type="button"
+          className={`h-8 px-3 flex-none rounded-full border text-xs font-semibold disabled:opacity-50 ${
+            dark ? 'border-white/10 text-white/85 hover:bg-white/10' : 'border-black/10 bg-white text-black/70 hover:bg-black/5'
+          }`}
+          disabled={current < 0}
+          onClick={() => editor.commands.replaceMatch(replacement)}
+        >
+          Replace
+        </button>
+        <button
+          type="button"
+          className="h-8 px-3 flex-none rounded-full bg-[#0F141F] text-white text-xs font-semibold disabled:opacity-50"
+          disabled={!count}
+          onClick={() => editor.commands.replaceAllMatches(replacement)}
+        >
+          Replace all
+        </button>
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-1.5">
+        <button type="button" className={optionClass(caseSensitive)} aria-pressed={caseSensitive} onClick={() => setCaseSensitive((v) => !v)}>
+          Match case
+        </button>
+        <button type="button" className={optionClass(wholeWord)} aria-pressed={wholeWord} onClick={() => setWholeWord((v) => !v)}>
+          Whole word
+        </button>
+        <button type="button" className={optionClass(regex)} aria-pressed={regex} onClick={() => setRegex((v) => !v)}>
+          Regex
+        </button>
+        {error ? <span className="text-[11px] text-rose-600 truncate">{error}</span> : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface LoadMoreProps {
+  /** Rows on screen and across all pages. */
+  shown: number;
+  total: number;
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  /** "contracts", "requests"… */
+  noun?: string;
+  className?: string;
+}
+
+/**
+ * Footer for an infinitely scrolling list: loads the next page when it scrolls
+ * into view, with a button for keyboards and browsers without IntersectionObserver.
+ */
+const LoadMore: React.FC<LoadMoreProps> = ({ shown, total, hasMore, loading, onLoadMore, noun = 'items', className }) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  });
+
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || !hasMore || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) onLoadMoreRef.current();
+      },
+      { rootMargin: '200px 0px' }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [hasMore, shown]);
+
+  if (!total) return null;
+
+  return (
+    <div ref={sentinelRef} className={`flex items-center justify-center gap-3 py-4 text-xs text-slate-500 ${className || ''}`}>
+      <span>
+        Showing {shown} of {total} {noun}
+      </span>
+      {hasMore &&
+        (loading ? (
+          <span className="inline-flex items-center gap-1.5 font-semibold text-slate-600">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            Loading…
+          </span>
+        ) : (
+          <button type="button" onClick={onLoadMore} className="font-semibold text-slate-700 hover:text-slate-900">
+            Load more
+          </button>
+        ))}
+    </div>
+  );
+};
+
+export default LoadMore;
@@ -0,0 +1,221 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useEditorState, type Editor } from '@tiptap/react';
+import { NodeSelection } from '@tiptap/pm/state';
+import { ChevronDown, ChevronRight, Plus } from 'lucide-react';
+import { ApiClient, type TemplateSchemaSection } from '@/app/lib/api-client';
+import { findMergeFields, type MergeFieldDef, type MergeFieldUse } from './tiptap/MergeFieldExtension';
+
+type Props = {
+  editor: Editor | null;
+  /** Template file whose schema describes the fields (null: fields are shown untyped). */
+  templateFilename: string | null;
+  className?: string;
+};
+
+type FieldRow = { def: MergeFieldDef | null; key: string; use: MergeFieldUse | undefined };
+
+const OTHER_SECTION = 'Other fields';
+
+/**
+ * Form for the merge fields in the document, bound to the template schema:
+ * one input per field (typed from the schema), writing into every chip of the
+ * field. Clicking a chip in the text opens the panel on its field.
+ */
+const MergeFieldsPanel: React.FC<Props> = ({ editor, templateFilename, className }) => {
+  const api = useMemo(() => new ApiClient(), []);
+  const [sections, setSections] = useState<TemplateSchemaSection[]>([]);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const inputRefs = useRef(new Map<string, HTMLInputElement | HTMLSelectElement>());
+
+  useEffect(() => {
+    if (!templateFilename) return;
+    let cancelled = false;
+    void api.getTemplateFileSchema(templateFilename).then((res) => {
+      if (cancelled) return;
+      if (res.success && res.data) {
+        setSections(res.data.sections || []);
+        setSchemaError(null);
+      } else {
+        setSections([]);
+        setSchemaError(res.error || 'Failed to load the template fields');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [api, templateFilename]);
+
+  // Chips are typed and checked against the schema.
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    editor.commands.setMergeFieldSchema(sections.flatMap((s) => s.fields));
+  }, [editor, sections]);
+
+  const state = useEditorState({
+    editor,
+    selector: ({ editor: ed }) => {
+      if (!ed) return { uses: new Map<string, MergeFieldUse>(), selectedKey: null };
+      const { selection } = ed.state;
+      const selectedKey =
+        selection instanceof NodeSelection && selection.node.type.name === 'mergeField'
+          ? String(selection.node.attrs.key)
+          : null;
+      return { uses: findMergeFields(ed.state.doc), selectedKey };
+    },
+    equalityFn: (a, b) =>
+      !!a &&
+      !!b &&
+      a.selectedKey === b.selectedKey &&
+      a.uses.size === b.uses.size &&
+      [...a.uses.values()].every((u) => {
+        const other = b.uses.get(u.key);
+        return !!other && other.value === u.value && other.positions.join() === u.positions.join();
+      }),
+  });
+  const uses = useMemo(() => state?.uses || new Map<string, MergeFieldUse>(), [state]);
+  const selectedKey = state?.selectedKey || null;
+
+  // Schema sections (fields of the template), then fields the schema does not know.
+  const groups = useMemo(() => {
+    const known = new Set<string>();
+    const out: Array<{ title: string; rows: FieldRow[] }> = sections.map((s) => ({
+      title: s.title,
+      rows: s.fields.map((def) => {
+        known.add(def.key);
+        return { def, key: def.key, use: uses.get(def.key) };
+      }),
+    }));
+    const other = [...uses.values()].filter((u) => !known.has(u.key)).map((use) => ({ def: null, key: use.key, use }));
+    if (other.length) out.push({ title: OTHER_SECTION, rows: other });
+    return out.filter((g) => g.rows.length);
+  }, [sections, uses]);
+
+  const rows = groups.flatMap((g) => g.rows);
+  const missing = rows.filter((r) => r.use && !r.use.value.trim() && (!r.def || r.def.required)).length;
+  const filled = rows.filter((r) => r.use?.value.trim()).length;
+  const inDocument = rows.filter((r) => r.use).length;
+  const open = expanded || !!selectedKey;
+
+  // A chip clicked in the text: bring its input into view.
+  useEffect(() => {
+    if (!selectedKey) return;
+    const input = inputRefs.current.get(selectedKey);
+    input?.scrollIntoView({ block: 'nearest' });
+  }, [selectedKey]);
+
+  if (!rows.length) return null;
+
+  const setValue = (key: string, value: string) => {
+    editor?.commands.setMergeFieldValue(key, value);
+  };
+
+  const selectChip = (use: MergeFieldUse) => {
+    editor?.chain().setNodeSelection(use.positions[0]).scrollIntoView().run();
+  };
+
+  const renderInput = (row: FieldRow) => {
+    const value = row.use?.value || '';
+    const ref = (el: HTMLInputElement | HTMLSelectElement | null) => {
+      if (el) inputRefs.current.set(row.key, el);
+      else inputRefs.current.delete(row.key);
+    };
+    const base =
+      'w-full h-9 px-3 rounded-xl border bg-white text-sm outline-none focus:border-black/30 disabled:bg-black/5 disabled:text-black/35';
+    const tone = row.key === selectedKey ? 'border-[#FF5C7A]' : 'border-black/10';
+    const disabled = !row.use || !editor?.isEditable;
+    if (row.def?.type === 'select') {
+      return (
+        <select
+          ref={ref}
+          value={value}
+          disabled={disabled}
+          onChange={(e) => setValue(row.key, e.target.value)}
+          className={`${base} ${tone}`}
+        >
+          <option value="">Select…</option>
+          {(row.def.options || []).map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        ref={ref}
+        type={row.def?.type === 'number' ? 'number' : row.def?.type === 'date' ? 'date' : 'text'}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => setValue(row.key, e.target.value)}
+        onFocus={() => row.use && row.key !== selectedKey && selectChip(row.use)}
+        className={`${base} ${tone}`}
+      />
+    );
+  };
+
+  return (
+    <div className={`bg-white rounded-[28px] border border-black/5 shadow-sm overflow-hidden ${className || ''}`}>
+      <button
+        type="button"
+        onClick={() => setExpanded(!open)}
+        className="w-full text-left px-4 sm:px-6 pt-6 pb-4 border-b border-black/5 flex items-start justify-between gap-3"
+        aria-expanded={open}
+      >
+        <div>
+          <p className="text-sm font-semibold text-[#111827]">Contract Fields</p>
+          <p className="text-xs text-black/45 mt-1">
+            {filled} of {inDocument} filled
+            {missing > 0 ? <span className="text-rose-600 font-semibold"> · {missing} required missing</span> : null}
+          </p>
+        </div>
+        {open ? <ChevronDown className="w-4 h-4 mt-1 text-black/40" /> : <ChevronRight className="w-4 h-4 mt-1 text-black/40" />}
+      </button>
+
+      {open && (
+        <div className="p-4 sm:p-5 space-y-5 max-h-[50vh] overflow-y-auto">
+          {schemaError && <div className="text-xs text-rose-600">{schemaError}</div>}
+          {groups.map((g) => (
+            <div key={g.title}>
+              <p className="text-xs font-semibold text-black/55">{g.title}</p>
+              <div className="mt-2 space-y-3">
+                {g.rows.map((row) => (
+                  <label key={row.key} className="block">
+                    <span className="flex items-center justify-between gap-2 text-[11px] text-black/55 mb-1">
+                      <span className="truncate">
+                        {row.def?.label || row.key}
+                        {(!row.def || row.def.required) && <span className="text-rose-600"> *</span>}
+                      </span>
+                      {!row.use && editor?.isEditable ? (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            editor.chain().focus().insertMergeField(row.key).run();
+                          }}
+                          className="inline-flex items-center gap-0.5 font-semibold text-black/55 hover:text-black"
+                          title="Insert this field at the cursor"
+                        >
+                          <Plus className="w-3 h-3" />
+                          Insert
+                        </button>
+                      ) : row.use && row.use.positions.length > 1 ? (
+                        <span className="text-black/35">{row.use.positions.length} places</span>
+                      ) : null}
+                    </span>
+                    {renderInput(row)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MergeFieldsPanel;
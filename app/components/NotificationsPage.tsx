@@ -1,47 +1,62 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { apiClient, Notification } from '@/app/lib/api-client'
+import { usePaginatedList } from '@/app/lib/use-paginated-list'
+import { useQueryRevision } from '@/app/lib/use-query-revision'
+import LoadMore from '@/app/components/LoadMore'
 
 export default function NotificationsPage() {
-  const [notifications, setNotifications] = useState<Notification[]>([])
-  const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [filter, setFilter] = useState<'all' | 'unread'>('all')
+  const [stats, setStats] = useState({ total: 0, unread: 0 })
 
-  useEffect(() => {
-    fetchNotifications()
-    // Refresh every 30 seconds
-    const interval = setInterval(fetchNotifications, 30000)
-    return () => clearInterval(interval)
+  const notifications = usePaginatedList<Notification>(
+    (page) => apiClient.getNotifications({ ...page, unread: filter === 'unread' }),
+    { ordering: '-created_at', filterKey: filter, tags: ['notifications'] }
+  )
+  const { reload } = notifications
+
+  // Both counts cover every page, whichever tab is showing.
+  const fetchStats = useCallback(async () => {
+    const [all, unread] = await Promise.all([
+      apiClient.getNotifications({ limit: 1 }),
+      apiClient.getNotifications({ limit: 1, unread: true }),
+    ])
+    return {
+      total: all.success && all.data ? all.data.count : 0,
+      unread: unread.success && unread.data ? unread.data.count : 0,
+    }
   }, [])
 
-  const fetchNotifications = async () => {
-    try {
-      setLoading(true)
-      setError(null)
-      const response = await apiClient.getNotifications()
-
-      if (response.success) {
-        const data = response.data as any
-        const notificationsList = Array.isArray(data) ? data : data.results || []
-        setNotifications(notificationsList)
-      } else {
-        setError(response.error || 'Failed to fetch notifications')
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error')
-    } finally {
-      setLoading(false)
+  const dataRevision = useQueryRevision(['notifications'])
+  useEffect(() => {
+    let active = true
+    void fetchStats().then((next) => {
+      if (active) setStats(next)
+    })
+    return () => {
+      active = false
     }
-  }
+  }, [fetchStats, dataRevision])
+
+  const refresh = useCallback(() => {
+    reload()
+    void fetchStats().then(setStats)
+  }, [reload, fetchStats])
+
+  useEffect(() => {
+    // Refresh every 30 seconds
+    const interval = setInterval(refresh, 30000)
+    return () => clearInterval(interval)
+  }, [refresh])
 
   const handleMarkAsRead = async (id: string) => {
     try {
+      setError(null)
+      // Invalidates `notifications`, which re-reads the list and the counts.
       const response = await apiClient.markNotificationAsRead(id)
-      if (response.success) {
-        await fetchNotifications()
-      } else {
+      if (!response.success) {
         setError(response.error || 'Failed to mark as read')
       }
     } catch (err) {
@@ -49,13 +64,8 @@ export default function NotificationsPage() {
     }
   }
 
-  const filteredNotifications =
-    filter === 'unread' ? notifications.filter((n) => !n.read) : notifications
-
-  const stats = {
-    total: notifications.length,
-    unread: notifications.filter((n) => !n.read).length,
-  }
+  const filteredNotifications = notifications.items
+  const listError = error || notifications.error
 
   const getTypeColor = (type: string) => {
     switch (type) {
@@ -91,7 +101,7 @@ export default function NotificationsPage() {
     }
   }
 
-  if (loading && notifications.length === 0) {
+  if (notifications.loading && filteredNotifications.length === 0) {
     return (
       <div className="flex items-center justify-center h-screen">
         <div className="text-center">
@@ -112,9 +122,9 @@ export default function NotificationsPage() {
         </div>
 
         {/* Error Message */}
-        {error && (
+        {listError && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
-            {error}
+            {listError}
           </div>
         )}
 
@@ -153,7 +163,7 @@ export default function NotificationsPage() {
             Unread ({stats.unread})
           </button>
           <button
-            onClick={() => fetchNotifications()}
+            onClick={refresh}
             className="ml-auto px-4 py-2 bg-white text-gray-900 rounded-lg border border-gray-200 hover:bg-gray-50 transition font-medium"
           >
             Refresh
@@ -222,6 +232,17 @@ export default function NotificationsPage() {
             ))
           )}
         </div>
+
+        {!notifications.loading && (
+          <LoadMore
+            shown={filteredNotifications.length}
+            total={notifications.total}
+            hasMore={notifications.hasMore}
+            loading={notifications.loadingMore}
+            onLoadMore={notifications.loadMore}
+            noun="notifications"
+          />
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,56 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { PAGE_SIZES, PX_PER_PT, type PageSize } from '@/app/lib/page-setup';
+
+type Props = {
+  /** The page view's page size; null renders the children as they are. */
+  size: PageSize | null;
+  children: React.ReactNode;
+};
+
+/**
+ * Fits pages of a real page width into the space available, scaling them
+ * down like a PDF viewer's fit-to-width. The wrappers stay in place when the
+ * page view is off so the editor inside is not remounted.
+ */
+export default function PageViewFrame({ size, children }: Props) {
+  const outerRef = useRef<HTMLDivElement | null>(null);
+  const innerRef = useRef<HTMLDivElement | null>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  const pageWidth = size ? PAGE_SIZES[size].width * PX_PER_PT : 0;
+
+  useEffect(() => {
+    const outer = outerRef.current;
+    const inner = innerRef.current;
+    if (!pageWidth || !outer || !inner) return;
+    const measure = () => setBox({ width: outer.clientWidth, height: inner.offsetHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(outer);
+    observer.observe(inner);
+    return () => observer.disconnect();
+  }, [pageWidth]);
+
+  const scale = pageWidth && box.width ? Math.min(1, box.width / pageWidth) : 1;
+
+  return (
+    <div ref={outerRef} className={pageWidth ? 'overflow-hidden' : undefined} style={pageWidth ? { height: box.height * scale } : undefined}>
+      <div
+        ref={innerRef}
+        style={
+          pageWidth
+            ? {
+                width: pageWidth,
+                marginLeft: Math.max(0, (box.width - pageWidth) / 2),
+                transform: scale < 1 ? `scale(${scale})` : undefined,
+                transformOrigin: 'top left',
+              }
+            : undefined
+        }
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
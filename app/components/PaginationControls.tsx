@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationControlsProps {
+  /** 1-based. */
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/** "21–40 of 132" with previous/next buttons, for tables paged one screen at a time. */
+const PaginationControls: React.FC<PaginationControlsProps> = ({
+  page,
+  pageCount,
+  pageSize,
+  total,
+  onPageChange,
+  disabled,
+  className,
+}) => {
+  if (!total) return null;
+  const first = (page - 1) * pageSize + 1;
+  const last = Math.min(total, page * pageSize);
+  const button =
+    'inline-flex items-center justify-center w-8 h-8 rounded-full border border-slate-200 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white';
+
+  return (
+    <nav aria-label="Pagination" className={`flex items-center justify-between gap-3 text-xs text-slate-500 ${className || ''}`}>
+      <span>
+        {first}–{last} of {total}
+      </span>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className={button}
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page <= 1}
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <span className="tabular-nums">
+          Page {page} of {pageCount}
+        </span>
+        <button
+          type="button"
+          className={button}
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page >= pageCount}
+          aria-label="Next page"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+    </nav>
+  );
+};
+
+export default PaginationControls;
@@ -1,20 +1,32 @@
 'use client';
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { EditorContent, useEditor, type Editor } from '@tiptap/react';
+import { EditorContent, useEditor, useEditorState, type Editor } from '@tiptap/react';
+import { createDocument } from '@tiptap/core';
 import {
   AlignCenter,
   AlignJustify,
   AlignLeft,
   AlignRight,
   Bold,
+  Check,
+  CheckCheck,
   ChevronDown,
+  FilePenLine,
+  Hash,
   ImagePlus,
   Italic,
   Link2,
   List,
+  ListChecks,
   ListOrdered,
+  ListIndentDecrease,
+  ListIndentIncrease,
+  ListTree,
+  Magnet,
   Redo2,
+  Search,
+  SeparatorHorizontal,
   Strikethrough,
   Subscript as SubscriptIcon,
   Superscript as SuperscriptIcon,
@@ -25,6 +37,8 @@ import {
   Highlighter,
   Eraser,
   Braces,
+  Table as TableIcon,
+  X,
 } from 'lucide-react';
 import StarterKit from '@tiptap/starter-kit';
 import Underline from '@tiptap/extension-underline';
@@ -37,9 +51,33 @@ import Link from '@tiptap/extension-link';
 import Placeholder from '@tiptap/extension-placeholder';
 import Subscript from '@tiptap/extension-subscript';
 import Superscript from '@tiptap/extension-superscript';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCaret from '@tiptap/extension-collaboration-caret';
 
 import { FontSizeExtension } from './tiptap/FontSizeExtension';
 import { ResizableImageExtension, type ImageAlign } from './tiptap/ResizableImageExtension';
+import { CommentAnchorExtension } from './tiptap/CommentAnchorExtension';
+import { ClauseBlockExtension } from './tiptap/ClauseBlockExtension';
+import { MergeFieldExtension } from './tiptap/MergeFieldExtension';
+import { TableExtensions } from './tiptap/TableExtension';
+import {
+  ClauseNumberingExtensions,
+  CLAUSE_LEVELS,
+  NUMBERING_SCHEMES,
+  documentNumberingScheme,
+  findClauseRefs,
+  findClauses,
+  type NumberingSchemeId,
+} from './tiptap/ClauseNumberingExtension';
+import { TrackChangesExtension, collectChanges, editorText, type ChangeAuthor } from './tiptap/TrackChangesExtension';
+import { AiRewriteExtension } from './tiptap/AiRewriteExtension';
+import { DefinedTermsExtension } from './tiptap/DefinedTermsExtension';
+import { PageLayoutExtensions, type PageViewOptions } from './tiptap/PageLayoutExtension';
+import { FindReplaceExtension } from './tiptap/FindReplaceExtension';
+import AiRewriteBubble, { type AiRewriteStream } from './AiRewriteBubble';
+import PageViewFrame from './PageViewFrame';
+import FindReplacePanel from './FindReplacePanel';
+import { seedCollabDoc, type CollabSession } from '@/app/lib/use-collab-session';
 
 type Props = {
   valueHtml: string;
@@ -52,6 +90,18 @@ type Props = {
   toolbarVariant?: 'light' | 'dark';
   toolbarPlacement?: 'top' | 'floating';
   onEditorReady?: (editor: Editor | null) => void;
+  /** Enables suggestion mode (tracked changes); edits are attributed to this user. */
+  trackChangesAuthor?: ChangeAuthor | null;
+  /**
+   * Co-edit a shared document instead of `valueHtml`, with remote carets. An
+   * empty shared document is filled from `seedHtml` (the server copy); an unsaved
+   * `draftHtml` from an earlier visit is then applied on top as a normal edit.
+   */
+  collaboration?: { session: CollabSession; seedHtml: string; draftHtml?: string } | null;
+  /** Enables the selection bubble for inline AI rewrites, streamed through this function. */
+  aiRewrite?: AiRewriteStream;
+  /** Shows the document as PDF pages (size, margins, running header and footer) instead of one canvas. */
+  pageView?: PageViewOptions | null;
 };
 
 const FONT_FAMILIES: Array<{ label: string; value: string }> = [
@@ -85,18 +135,29 @@ export default function RichTextEditor({
   toolbarVariant = 'light',
   toolbarPlacement = 'top',
   onEditorReady,
+  trackChangesAuthor,
+  collaboration,
+  aiRewrite,
+  pageView,
 }: Props) {
   const [linkOpen, setLinkOpen] = useState(false);
   const [linkUrl, setLinkUrl] = useState('');
   const [imageOpen, setImageOpen] = useState(false);
   const imageFileRef = useRef<HTMLInputElement | null>(null);
   const [moreOpen, setMoreOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [refOpen, setRefOpen] = useState(false);
+  const [findOpen, setFindOpen] = useState(false);
+  const trackChangesAvailable = trackChangesAuthor !== undefined;
+  const collabSession = collaboration?.session || null;
 
   const extensions = useMemo(
     () => [
       StarterKit.configure({
         heading: { levels: [1, 2, 3] },
         codeBlock: false,
+        // The collaboration extension brings its own (per-user) undo history.
+        ...(collabSession ? { undoRedo: false as const } : {}),
       }),
       Underline,
       TextStyle,
@@ -125,27 +186,49 @@ export default function RichTextEditor({
       Placeholder.configure({
         placeholder: placeholder || 'Start typing…',
       }),
+      TrackChangesExtension,
+      CommentAnchorExtension,
+      ClauseBlockExtension,
+      MergeFieldExtension,
+      ...TableExtensions,
+      ...ClauseNumberingExtensions,
+      AiRewriteExtension,
+      DefinedTermsExtension,
+      ...PageLayoutExtensions,
+      FindReplaceExtension,
+      ...(collabSession
+        ? [
+            Collaboration.configure({ document: collabSession.doc }),
+            CollaborationCaret.configure({ provider: collabSession.provider, user: collabSession.user }),
+          ]
+        : []),
     ],
-    [placeholder]
+    [placeholder, collabSession]
   );
 
-  const editor = useEditor({
-    extensions,
-    content: valueHtml || '',
-    editable: !disabled,
-    // Next.js may pre-render/hydrate client components; TipTap needs this to avoid hydration mismatch.
-    immediatelyRender: false,
-    editorProps: {
-      attributes: {
-        class:
-          editorClassName ||
-          'min-h-[60vh] rounded-2xl border border-black/10 bg-white px-5 py-4 text-[13px] leading-6 text-slate-900 outline-none',
+  const editor = useEditor(
+    {
+      extensions,
+      // Shared documents get their content from the session.
+      content: collabSession ? undefined : valueHtml || '',
+      editable: !disabled,
+      // Next.js may pre-render/hydrate client components; TipTap needs this to avoid hydration mismatch.
+      immediatelyRender: false,
+      editorProps: {
+        attributes: {
+          class:
+            editorClassName ||
+            'min-h-[60vh] rounded-2xl border border-black/10 bg-white px-5 py-4 text-[13px] leading-6 text-slate-900 outline-none',
+        },
+      },
+      onUpdate: ({ editor }) => {
+        // Plain text (search, AI, exports) reads as if suggestions were accepted.
+        onChange(editor.getHTML(), editorText(editor));
       },
     },
-    onUpdate: ({ editor }) => {
-      onChange(editor.getHTML(), editor.getText());
-    },
-  });
+    // A new session needs a new editor: the shared document is bound when it is created.
+    [collabSession]
+  );
 
   // Keep editable in sync.
   useEffect(() => {
@@ -160,9 +243,83 @@ export default function RichTextEditor({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [editor]);
 
-  // Sync external HTML changes into the editor (AI updates, initial load, etc).
   useEffect(() => {
     if (!editor) return;
+    editor.commands.setTrackChangesAuthor(trackChangesAuthor || null);
+  }, [editor, trackChangesAuthor]);
+
+  const pageSize = pageView?.size;
+  const pageTitle = pageView?.title;
+  const pageFooter = pageView?.footer;
+  useEffect(() => {
+    if (!editor) return;
+    editor.commands.setPageView(pageSize ? { size: pageSize, title: pageTitle || '', footer: pageFooter } : null);
+  }, [editor, pageSize, pageTitle, pageFooter]);
+
+  const review = useEditorState({
+    editor,
+    selector: ({ editor }) =>
+      editor
+        ? { tracking: editor.storage.trackChanges.enabled, changes: collectChanges(editor.state.doc) }
+        : { tracking: false, changes: [] },
+  });
+  const trackedChanges = review?.changes || [];
+  const tracking = !!review?.tracking;
+
+  const table = useEditorState({
+    editor,
+    selector: ({ editor }) =>
+      editor?.isActive('table')
+        ? {
+            active: true,
+            canMerge: editor.can().mergeCells(),
+            canSplit: editor.can().splitCell(),
+          }
+        : { active: false, canMerge: false, canSplit: false },
+  });
+
+  const numbering = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      if (!editor) return { clauses: [], brokenRefs: [], scheme: 'legal' as NumberingSchemeId, current: null };
+      const { doc, selection } = editor.state;
+      const clauses = findClauses(doc);
+      const block = selection.$from.parent;
+      const current = block.isTextblock
+        ? clauses.find((c) => c.pos >= selection.$from.start() && c.pos < selection.$from.end()) || null
+        : null;
+      return {
+        clauses,
+        brokenRefs: findClauseRefs(doc).filter((r) => r.broken),
+        scheme: documentNumberingScheme(doc) || ('legal' as NumberingSchemeId),
+        current,
+      };
+    },
+    equalityFn: (a, b) =>
+      !!a &&
+      !!b &&
+      a.scheme === b.scheme &&
+      a.current?.pos === b.current?.pos &&
+      a.current?.reference === b.current?.reference &&
+      a.brokenRefs.map((r) => r.pos).join() === b.brokenRefs.map((r) => r.pos).join() &&
+      a.clauses.length === b.clauses.length &&
+      a.clauses.every((c, i) => c.id === b.clauses[i].id && c.reference === b.clauses[i].reference && c.text === b.clauses[i].text),
+  });
+  const clauses = numbering?.clauses || [];
+  const brokenRefs = numbering?.brokenRefs || [];
+  const currentClause = numbering?.current || null;
+
+  useEffect(() => {
+    if (!editor || !collaboration) return;
+    const { session, seedHtml, draftHtml } = collaboration;
+    if (!seedCollabDoc(session.doc, createDocument(seedHtml || '', editor.schema))) return;
+    if (draftHtml && draftHtml !== seedHtml) editor.commands.setContent(draftHtml);
+  }, [editor, collaboration]);
+
+  // Sync external HTML changes into the editor (AI updates, initial load, etc).
+  // A shared document is only changed through the editor.
+  useEffect(() => {
+    if (!editor || collabSession) return;
     const next = valueHtml || '';
     const current = editor.getHTML();
     if (next && next !== current) {
@@ -171,7 +328,7 @@ export default function RichTextEditor({
     if (!next && current) {
       editor.commands.setContent('', { emitUpdate: false });
     }
-  }, [editor, valueHtml]);
+  }, [editor, valueHtml, collabSession]);
 
   const currentFontFamily = editor?.getAttributes('textStyle')?.fontFamily || '';
   const currentFontSize = editor?.getAttributes('textStyle')?.fontSize || null;
@@ -287,7 +444,16 @@ export default function RichTextEditor({
   };
 
   return (
-    <div className={className}>
+    <div
+      className={className}
+      onKeyDown={(e) => {
+        // Mod-F opens find and replace instead of the browser's find.
+        if ((e.metaKey || e.ctrlKey) && !e.altKey && e.key.toLowerCase() === 'f' && !disabledUi) {
+          e.preventDefault();
+          setFindOpen(true);
+        }
+      }}
+    >
       <div
         className={`border-b ${toolbarIsDark ? 'border-white/10' : 'border-black/5'} ${
           toolbarPlacement === 'floating' ? 'bg-transparent px-0 pt-0 pb-3' : 'p-4'
@@ -413,10 +579,94 @@ export default function RichTextEditor({
             <ImagePlus className="w-4 h-4" />
           </ToolbarIconButton>
 
+          <ToolbarIconButton
+            label="Insert table"
+            disabled={disabledUi || !!table?.active}
+            onClick={() => editor?.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()}
+          >
+            <TableIcon className="w-4 h-4" />
+          </ToolbarIconButton>
+
+          <ToolbarIconButton
+            label={currentClause ? 'Remove clause numbering' : 'Numbered clause'}
+            active={!!currentClause}
+            disabled={disabledUi}
+            onClick={() => editor?.chain().focus().toggleClauseNumber().run()}
+          >
+            <ListTree className="w-4 h-4" />
+          </ToolbarIconButton>
+
+          <button
+            type="button"
+            title={brokenRefs.length ? `Cross-references (${brokenRefs.length} broken)` : 'Insert cross-reference'}
+            aria-label="Insert cross-reference"
+            onClick={() => {
+              setRefOpen((v) => !v);
+              setLinkOpen(false);
+              setImageOpen(false);
+              setMoreOpen(false);
+            }}
+            disabled={disabledUi}
+            className={`h-8 sm:h-9 min-w-8 sm:min-w-9 rounded-full border px-2 flex items-center justify-center gap-1 text-xs font-semibold flex-none transition ${
+              refOpen ? toolbarButtonActiveClass : toolbarButtonIdleClass
+            } disabled:opacity-60`}
+          >
+            <Hash className="w-4 h-4" />
+            {brokenRefs.length ? <span className="text-rose-600 tabular-nums">{brokenRefs.length}</span> : null}
+          </button>
+
           <ToolbarIconButton label="Insert {{ }} placeholder" disabled={disabledUi} onClick={insertPlaceholder}>
             <Braces className="w-4 h-4" />
           </ToolbarIconButton>
 
+          <ToolbarIconButton
+            label="Page break"
+            disabled={disabledUi}
+            onClick={() => editor?.chain().focus().setPageBreak().run()}
+          >
+            <SeparatorHorizontal className="w-4 h-4" />
+          </ToolbarIconButton>
+
+          <ToolbarIconButton
+            label={findOpen ? 'Close find and replace' : 'Find and replace'}
+            active={findOpen}
+            disabled={disabledUi}
+            onClick={() => setFindOpen((v) => !v)}
+          >
+            <Search className="w-4 h-4" />
+          </ToolbarIconButton>
+
+          {trackChangesAvailable ? (
+            <>
+              <div className={`w-px h-6 ${toolbarIsDark ? 'bg-white/15' : 'bg-black/10'} mx-1 flex-none`} />
+              <ToolbarIconButton
+                label={tracking ? 'Stop tracking changes' : 'Track changes'}
+                active={tracking}
+                disabled={disabledUi}
+                onClick={() => editor?.chain().focus().toggleTrackChanges().run()}
+              >
+                <FilePenLine className="w-4 h-4" />
+              </ToolbarIconButton>
+              <button
+                type="button"
+                title="Review changes"
+                onClick={() => {
+                  setReviewOpen((v) => !v);
+                  setMoreOpen(false);
+                  setLinkOpen(false);
+                  setImageOpen(false);
+                }}
+                disabled={!editor}
+                className={`h-8 sm:h-9 rounded-full border px-3 flex items-center gap-1.5 text-xs font-semibold flex-none transition ${
+                  reviewOpen ? toolbarButtonActiveClass : toolbarButtonIdleClass
+                } disabled:opacity-60`}
+              >
+                <ListChecks className="w-4 h-4" />
+                <span className="tabular-nums">{trackedChanges.length}</span>
+              </button>
+            </>
+          ) : null}
+
           <ToolbarIconButton
             label={moreOpen ? 'Close more tools' : 'More tools'}
             disabled={disabledUi}
@@ -577,6 +827,14 @@ export default function RichTextEditor({
               >
                 <AlignJustify className="w-4 h-4" />
               </ToolbarIconButton>
+              <ToolbarIconButton
+                label="Keep with next"
+                active={!!editor?.isActive({ keepWithNext: true })}
+                disabled={disabledUi}
+                onClick={() => editor?.chain().focus().toggleKeepWithNext().run()}
+              >
+                <Magnet className="w-4 h-4" />
+              </ToolbarIconButton>
 
               <ToolbarIconButton
                 label="Clear formatting"
@@ -757,10 +1015,259 @@ export default function RichTextEditor({
             </button>
           </div>
         ) : null}
+
+        {table?.active && !disabledUi ? (
+          <div className={`mt-3 rounded-2xl border px-3 py-2 shadow-sm flex flex-wrap items-center gap-1.5 ${toolbarShellClass}`}>
+            <div className={`text-xs font-semibold mr-1 ${toolbarIsDark ? 'text-white/80' : 'text-black/50'}`}>Table</div>
+            {(
+              [
+                ['Row above', () => editor?.chain().focus().addRowBefore().run()],
+                ['Row below', () => editor?.chain().focus().addRowAfter().run()],
+                ['Delete row', () => editor?.chain().focus().deleteRow().run()],
+                ['Column left', () => editor?.chain().focus().addColumnBefore().run()],
+                ['Column right', () => editor?.chain().focus().addColumnAfter().run()],
+                ['Delete column', () => editor?.chain().focus().deleteColumn().run()],
+              ] as Array<[string, () => void]>
+            ).map(([label, run]) => (
+              <button
+                key={label}
+                type="button"
+                onClick={run}
+                className={`h-8 px-3 rounded-full border text-xs font-semibold transition ${toolbarButtonIdleClass}`}
+              >
+                {label}
+              </button>
+            ))}
+            <div className={`w-px h-6 ${toolbarIsDark ? 'bg-white/15' : 'bg-black/10'} mx-1`} />
+            <button
+              type="button"
+              onClick={() => editor?.chain().focus().mergeCells().run()}
+              disabled={!table.canMerge}
+              title="Select several cells to merge them"
+              className={`h-8 px-3 rounded-full border text-xs font-semibold transition ${toolbarButtonIdleClass} disabled:opacity-50`}
+            >
+              Merge cells
+            </button>
+            <button
+              type="button"
+              onClick={() => editor?.chain().focus().splitCell().run()}
+              disabled={!table.canSplit}
+              className={`h-8 px-3 rounded-full border text-xs font-semibold transition ${toolbarButtonIdleClass} disabled:opacity-50`}
+            >
+              Split cell
+            </button>
+            <button
+              type="button"
+              onClick={() => editor?.chain().focus().toggleHeaderRow().run()}
+              className={`h-8 px-3 rounded-full border text-xs font-semibold transition ${toolbarButtonIdleClass}`}
+            >
+              Header row
+            </button>
+            <button
+              type="button"
+              onClick={() => editor?.chain().focus().toggleHeaderColumn().run()}
+              className={`h-8 px-3 rounded-full border text-xs font-semibold transition ${toolbarButtonIdleClass}`}
+            >
+              Header column
+            </button>
+            <button
+              type="button"
+              onClick={() => editor?.chain().focus().deleteTable().run()}
+              className="h-8 px-3 rounded-full border border-rose-200 bg-white text-xs font-semibold text-rose-600 hover:bg-rose-50 ml-auto"
+            >
+              Delete table
+            </button>
+          </div>
+        ) : null}
+
+        {currentClause && !disabledUi ? (
+          <div className={`mt-3 rounded-2xl border px-3 py-2 shadow-sm flex flex-wrap items-center gap-1.5 ${toolbarShellClass}`}>
+            <div className={`text-xs font-semibold mr-1 ${toolbarIsDark ? 'text-white/80' : 'text-black/50'}`}>
+              Clause {currentClause.reference}
+            </div>
+            <ToolbarIconButton
+              label="Outdent clause (Shift+Tab)"
+              disabled={currentClause.level <= 1}
+              onClick={() => editor?.chain().focus().outdentClause().run()}
+            >
+              <ListIndentDecrease className="w-4 h-4" />
+            </ToolbarIconButton>
+            <ToolbarIconButton
+              label="Indent clause (Tab)"
+              disabled={currentClause.level >= CLAUSE_LEVELS}
+              onClick={() => editor?.chain().focus().indentClause().run()}
+            >
+              <ListIndentIncrease className="w-4 h-4" />
+            </ToolbarIconButton>
+            <select
+              className={`h-8 rounded-full border px-3 text-xs outline-none ${
+                toolbarIsDark ? 'border-white/10 bg-transparent text-white' : 'border-black/10 bg-white text-black/70'
+              }`}
+              value={numbering?.scheme || 'legal'}
+              onChange={(e) => editor?.chain().focus().setClauseNumberingScheme(e.target.value as NumberingSchemeId).run()}
+              aria-label="Numbering scheme"
+            >
+              {NUMBERING_SCHEMES.map((scheme) => (
+                <option key={scheme.id} value={scheme.id}>
+                  {scheme.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+
+        {refOpen && !disabledUi ? (
+          <div className={`mt-3 rounded-2xl border p-3 shadow-sm ${toolbarShellClass}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm font-semibold">Insert cross-reference</div>
+              <button
+                type="button"
+                className="h-8 px-3 rounded-full bg-white border border-black/10 text-black/70 text-xs font-semibold"
+                onClick={() => setRefOpen(false)}
+              >
+                Close
+              </button>
+            </div>
+
+            {brokenRefs.length ? (
+              <div className="mt-3 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-700 flex flex-wrap items-center gap-2">
+                <span className="font-semibold">
+                  {brokenRefs.length} broken reference{brokenRefs.length === 1 ? '' : 's'} (clause deleted):
+                </span>
+                {brokenRefs.map((ref) => (
+                  <button
+                    key={ref.pos}
+                    type="button"
+                    className="underline decoration-dotted"
+                    onClick={() => editor?.chain().focus().setNodeSelection(ref.pos).scrollIntoView().run()}
+                  >
+                    {ref.label || '?'}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+
+            {clauses.length ? (
+              <ul className="mt-3 max-h-64 overflow-y-auto space-y-1">
+                {clauses.map((clause) => (
+                  <li key={clause.id || clause.pos}>
+                    <button
+                      type="button"
+                      disabled={!clause.id}
+                      onClick={() => {
+                        editor?.chain().focus().insertClauseRef(clause.id).run();
+                        setRefOpen(false);
+                      }}
+                      className={`w-full text-left rounded-xl px-3 py-1.5 text-xs flex items-baseline gap-2 ${
+                        toolbarIsDark ? 'hover:bg-white/10' : 'hover:bg-black/5'
+                      }`}
+                      style={{ paddingLeft: `${0.75 + (clause.level - 1) * 0.75}rem` }}
+                    >
+                      <span className="font-semibold tabular-nums flex-none">{clause.reference}</span>
+                      <span className={`truncate ${toolbarIsDark ? 'text-white/60' : 'text-black/50'}`}>
+                        {clause.text || '(no text)'}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className={`mt-3 text-xs ${toolbarIsDark ? 'text-white/60' : 'text-black/45'}`}>
+                No numbered clauses yet. Number a heading or paragraph with the clause button, then reference it here.
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        {findOpen && editor && !disabledUi ? (
+          <FindReplacePanel
+            editor={editor}
+            dark={toolbarIsDark}
+            className={`mt-3 rounded-2xl border p-3 shadow-sm ${toolbarShellClass}`}
+            onClose={() => setFindOpen(false)}
+          />
+        ) : null}
+
+        {reviewOpen && trackChangesAvailable ? (
+          <div className={`mt-3 rounded-2xl border p-3 shadow-sm ${toolbarShellClass}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm font-semibold">
+                {trackedChanges.length ? `${trackedChanges.length} tracked change${trackedChanges.length === 1 ? '' : 's'}` : 'No tracked changes'}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="h-8 px-3 rounded-full bg-[#0F141F] text-white text-xs font-semibold inline-flex items-center gap-1.5 disabled:opacity-50"
+                  onClick={() => editor?.chain().focus().acceptAllChanges().run()}
+                  disabled={disabledUi || !trackedChanges.length}
+                >
+                  <CheckCheck className="w-3.5 h-3.5" />
+                  Accept all
+                </button>
+                <button
+                  type="button"
+                  className="h-8 px-3 rounded-full bg-white border border-black/10 text-black/70 text-xs font-semibold disabled:opacity-50"
+                  onClick={() => editor?.chain().focus().rejectAllChanges().run()}
+                  disabled={disabledUi || !trackedChanges.length}
+                >
+                  Reject all
+                </button>
+              </div>
+            </div>
+
+            {trackedChanges.length ? (
+              <ul className="mt-3 max-h-64 overflow-y-auto space-y-2">
+                {trackedChanges.map((change) => (
+                  <li
+                    key={`${change.kind}:${change.id}`}
+                    className={`flex items-start gap-3 rounded-xl border px-3 py-2 ${
+                      toolbarIsDark ? 'border-white/10' : 'border-black/5 bg-[#F6F3ED]/60'
+                    }`}
+                  >
+                    <button
+                      type="button"
+                      className="min-w-0 flex-1 text-left"
+                      onClick={() => editor?.chain().focus().setTextSelection(change.from).scrollIntoView().run()}
+                    >
+                      <div className={`text-[11px] ${toolbarIsDark ? 'text-white/60' : 'text-black/45'}`}>
+                        <span className={`font-semibold ${change.kind === 'insertion' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                          {change.kind === 'insertion' ? 'Inserted' : 'Deleted'}
+                        </span>
+                        {' · '}
+                        {change.authorName || 'Unknown author'}
+                        {change.date ? ` · ${new Date(change.date).toLocaleString()}` : ''}
+                      </div>
+                      <div className={`text-xs truncate ${change.kind === 'deletion' ? 'line-through' : ''}`}>
+                        {change.text.trim() || '(no text)'}
+                      </div>
+                    </button>
+                    <ToolbarIconButton
+                      label="Accept change"
+                      disabled={disabledUi}
+                      onClick={() => editor?.chain().focus().acceptChange(change.id).run()}
+                    >
+                      <Check className="w-4 h-4" />
+                    </ToolbarIconButton>
+                    <ToolbarIconButton
+                      label="Reject change"
+                      disabled={disabledUi}
+                      onClick={() => editor?.chain().focus().rejectChange(change.id).run()}
+                    >
+                      <X className="w-4 h-4" />
+                    </ToolbarIconButton>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
       </div>
 
       <div className={contentWrapperClassName || 'p-4 bg-[#F6F3ED]'}>
-        <EditorContent editor={editor} />
+        <PageViewFrame size={pageSize || null}>
+          <EditorContent editor={editor} />
+        </PageViewFrame>
+        {editor && aiRewrite ? <AiRewriteBubble editor={editor} stream={aiRewrite} /> : null}
       </div>
     </div>
   );
@@ -30,9 +30,8 @@ export default function SearchPage() {
         response = await apiClient.advancedSearch({ query })
       }
 
-      if (response.success) {
-        const data = response.data as any
-        const resultsList = Array.isArray(data) ? data : data.results || []
+      if (response.success && response.data) {
+        const resultsList = response.data.results
         setResults(resultsList)
       } else {
         setError(response.error || 'Search failed')
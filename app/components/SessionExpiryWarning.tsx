@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Clock } from 'lucide-react';
+import { endSession } from '@/app/lib/http';
+import { sessionMonitor } from '@/app/lib/session';
+import { useSessionStatus } from '@/app/lib/use-session-status';
+
+const formatRemaining = (ms: number): string => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return minutes ? `${minutes}:${String(seconds).padStart(2, '0')}` : `${seconds}s`;
+};
+
+/**
+ * Countdown shown shortly before the session ends for good (refresh token
+ * expiry), with a way to extend it. Mounted by `DashboardLayout`.
+ */
+const SessionExpiryWarning: React.FC = () => {
+  const router = useRouter();
+  const { endsAt, expiring, cannotExtend } = useSessionStatus();
+  const [now, setNow] = useState<number | null>(null);
+  const [extending, setExtending] = useState(false);
+
+  useEffect(() => {
+    if (!expiring) return;
+    const tick = () => setNow(Date.now());
+    const timer = window.setInterval(tick, 1000);
+    const first = window.setTimeout(tick, 0);
+    return () => {
+      window.clearInterval(timer);
+      window.clearTimeout(first);
+    };
+  }, [expiring]);
+
+  if (!expiring || endsAt === null || now === null) return null;
+
+  const stay = async () => {
+    setExtending(true);
+    try {
+      await sessionMonitor.extend();
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  const signInAgain = () => {
+    endSession();
+    router.push('/login');
+  };
+
+  return (
+    <div
+      role="alertdialog"
+      aria-live="assertive"
+      aria-labelledby="session-expiry-title"
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-[80] w-[calc(100vw-2rem)] max-w-md bg-white rounded-2xl border border-black/10 shadow-2xl px-5 py-4"
+    >
+      <div className="flex items-start gap-3">
+        <div className="w-9 h-9 rounded-full bg-amber-50 text-amber-600 grid place-items-center flex-shrink-0">
+          <Clock className="w-4 h-4" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <div id="session-expiry-title" className="text-sm font-semibold text-slate-900">
+            Your session ends in {formatRemaining(endsAt - now)}
+          </div>
+          <div className="text-xs text-black/55 mt-0.5">
+            {cannotExtend
+              ? "This session can't be extended. Save your work, then sign in again."
+              : 'You will be signed out in every open tab. Unsaved changes may be lost.'}
+          </div>
+          <div className="mt-3 flex items-center gap-2">
+            {!cannotExtend && (
+              <button
+                type="button"
+                onClick={stay}
+                disabled={extending}
+                className="h-9 px-4 rounded-full bg-[#0F141F] text-white text-xs font-semibold disabled:opacity-60"
+              >
+                {extending ? 'Extending…' : 'Stay signed in'}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={signInAgain}
+              className="h-9 px-4 rounded-full border border-black/10 text-xs font-semibold text-slate-700 hover:bg-black/5"
+            >
+              Sign in again
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryWarning;
@@ -1,14 +1,32 @@
 'use client';
 
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Download, FileSignature, Search } from 'lucide-react';
 
 import DashboardLayout from './DashboardLayout';
+import LoadMore from './LoadMore';
+import SortSelect from './SortSelect';
 import { ApiClient, InhouseSigningRequestListItem } from '../lib/api-client';
+import { usePaginatedList } from '../lib/use-paginated-list';
+import { useQueryRevision } from '../lib/use-query-revision';
 
 type StatusFilter = 'all' | 'draft' | 'sent' | 'in_progress' | 'completed' | 'declined' | 'failed';
 
+const SORT_OPTIONS = [
+	{ value: '-updated_at', label: 'Recently updated' },
+	{ value: '-sent_at', label: 'Recently sent' },
+	{ value: 'expires_at', label: 'Expiring soonest' },
+	{ value: 'contract_title', label: 'Contract A–Z' },
+];
+
+interface SigningStats {
+	total: number;
+	draft: number;
+	active: number;
+	completed: number;
+}
+
 function formatMaybeDate(value: any): string {
 	if (!value) return '—';
 	const d = new Date(String(value));
@@ -48,80 +66,61 @@ async function downloadBlob(blob: Blob, filename: string) {
 
 const SigningRequestsPageV2: React.FC = () => {
 	const router = useRouter();
-	const [rows, setRows] = useState<InhouseSigningRequestListItem[]>([]);
-	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
 	const [filterStatus, setFilterStatus] = useState<StatusFilter>('all');
 	const [search, setSearch] = useState('');
+	const [query, setQuery] = useState('');
+	const [stats, setStats] = useState<SigningStats>({ total: 0, draft: 0, active: 0, completed: 0 });
 	const [downloadingFor, setDownloadingFor] = useState<string | null>(null);
 
-	const lastRefreshAtRef = useRef<number>(0);
-
-	const fetchRequests = async (params?: { q?: string; status?: StatusFilter }) => {
-		try {
-			setLoading(true);
-			setError(null);
-			lastRefreshAtRef.current = Date.now();
-
-			const client = new ApiClient();
-			const res = await client.inhouseListSigningRequests({
-				q: params?.q,
-				status: params?.status && params.status !== 'all' ? params.status : undefined,
-				limit: 200,
-				offset: 0,
-			});
-
-			if (!res.success) {
-				setError(res.error || 'Failed to fetch signing requests');
-				setRows([]);
-				return;
-			}
+	// Debounced search; filtering and sorting happen on the server.
+	useEffect(() => {
+		const handle = window.setTimeout(() => setQuery(search.trim()), 250);
+		return () => window.clearTimeout(handle);
+	}, [search]);
 
-			const results = Array.isArray(res.data?.results) ? res.data!.results : [];
-			setRows(results);
-		} catch (e) {
-			setError(e instanceof Error ? e.message : 'Failed to fetch signing requests');
-			setRows([]);
-		} finally {
-			setLoading(false);
-		}
-	};
+	const requests = usePaginatedList<InhouseSigningRequestListItem>(
+		(page) =>
+			new ApiClient().inhouseListSigningRequests({
+				...page,
+				q: query || undefined,
+				status: filterStatus !== 'all' ? filterStatus : undefined,
+			}),
+		{ ordering: '-updated_at', filterKey: `${filterStatus}|${query}`, tags: ['signing'] }
+	);
+	const { reload } = requests;
 
-	// Initial load + lightweight refresh on focus.
-	useEffect(() => {
-		fetchRequests();
-		const onFocus = () => fetchRequests({ q: search.trim() || undefined, status: filterStatus });
-		window.addEventListener('focus', onFocus);
-		return () => window.removeEventListener('focus', onFocus);
-		// eslint-disable-next-line react-hooks/exhaustive-deps
+	// Totals per status come from the list counts (`limit: 1`), so they cover every page.
+	const fetchStats = useCallback(async () => {
+		const client = new ApiClient();
+		const count = async (status?: string) => {
+			const res = await client.inhouseListSigningRequests({ status, limit: 1 });
+			return res.success && res.data ? res.data.count : 0;
+		};
+		const [total, draft, sent, inProgress, completed] = await Promise.all([
+			count(),
+			count('draft'),
+			count('sent'),
+			count('in_progress'),
+			count('completed'),
+		]);
+		setStats({ total, draft, active: sent + inProgress, completed });
 	}, []);
 
-	// Debounced search/filter.
+	const dataRevision = useQueryRevision(['signing']);
 	useEffect(() => {
-		const q = search.trim();
-		const handle = window.setTimeout(() => {
-			fetchRequests({ q: q || undefined, status: filterStatus });
-		}, 250);
-		return () => window.clearTimeout(handle);
-	}, [search, filterStatus]);
+		void fetchStats();
+	}, [fetchStats, dataRevision]);
 
-	const stats = useMemo(() => {
-		const by = (s: string) => rows.filter((r) => String(r.status || '').toLowerCase() === s).length;
-		const sent = by('sent');
-		const inProgress = by('in_progress') + by('in progress');
-		const completed = by('completed');
-		const declined = by('declined');
-		const failed = by('failed');
-		const draft = by('draft');
-		const active = sent + inProgress;
-		return {
-			total: rows.length,
-			draft,
-			active,
-			completed,
-			declined: declined + failed,
+	// Lightweight refresh on focus.
+	useEffect(() => {
+		const onFocus = () => {
+			reload();
+			void fetchStats();
 		};
-	}, [rows]);
+		window.addEventListener('focus', onFocus);
+		return () => window.removeEventListener('focus', onFocus);
+	}, [reload, fetchStats]);
 
 	const openSigningStatus = (contractId: string) => {
 		router.push(`/contracts/signing-status?id=${encodeURIComponent(contractId)}&provider=inhouse`);
@@ -169,7 +168,8 @@ const SigningRequestsPageV2: React.FC = () => {
 		}
 	};
 
-	const visibleRows = rows;
+	const visibleRows = requests.items;
+	const listError = error || requests.error;
 
 	return (
 		<DashboardLayout>
@@ -222,10 +222,11 @@ const SigningRequestsPageV2: React.FC = () => {
 				<div className="px-6 py-5 border-b border-slate-200 flex items-center justify-between flex-wrap gap-3">
 					<div>
 						<p className="text-lg font-extrabold text-slate-900">All Signing Requests</p>
-						<p className="text-sm text-slate-500 mt-1">{visibleRows.length} request{visibleRows.length !== 1 ? 's' : ''}</p>
+						<p className="text-sm text-slate-500 mt-1">{requests.total} request{requests.total !== 1 ? 's' : ''}</p>
 					</div>
 
-					<div className="flex gap-2 flex-wrap">
+					<div className="flex gap-2 flex-wrap items-center">
+						<SortSelect value={requests.ordering} options={SORT_OPTIONS} onChange={requests.setOrdering} />
 						{(['all', 'draft', 'sent', 'in_progress', 'completed', 'declined', 'failed'] as StatusFilter[]).map((s) => (
 							<button
 								key={s}
@@ -247,10 +248,10 @@ const SigningRequestsPageV2: React.FC = () => {
 				</div>
 
 				<div className="divide-y divide-slate-200">
-					{loading ? (
+					{requests.loading ? (
 						<div className="py-16 text-center text-slate-500">Loading signing requests…</div>
-					) : error ? (
-						<div className="py-16 text-center text-rose-600">{error}</div>
+					) : listError ? (
+						<div className="py-16 text-center text-rose-600">{listError}</div>
 					) : visibleRows.length === 0 ? (
 						<div className="py-16 text-center text-slate-500">No signing requests found</div>
 					) : (
@@ -332,6 +333,17 @@ const SigningRequestsPageV2: React.FC = () => {
 						})
 					)}
 				</div>
+				{!requests.loading && !listError && (
+					<LoadMore
+						shown={visibleRows.length}
+						total={requests.total}
+						hasMore={requests.hasMore}
+						loading={requests.loadingMore}
+						onLoadMore={requests.loadMore}
+						noun="requests"
+						className="border-t border-slate-200"
+					/>
+				)}
 			</div>
 		</DashboardLayout>
 	);
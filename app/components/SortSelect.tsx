@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { ArrowUpDown } from 'lucide-react';
+
+export interface SortOption {
+  /** `ordering` value sent to the server (`-updated_at`). */
+  value: string;
+  label: string;
+}
+
+interface SortSelectProps {
+  value: string;
+  options: SortOption[];
+  onChange: (ordering: string) => void;
+  className?: string;
+}
+
+/** Server-side sort order picker for paginated lists. */
+const SortSelect: React.FC<SortSelectProps> = ({ value, options, onChange, className }) => (
+  <label className={`relative inline-flex items-center ${className || ''}`}>
+    <span className="sr-only">Sort by</span>
+    <ArrowUpDown className="w-3.5 h-3.5 text-slate-400 absolute left-3 pointer-events-none" />
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="appearance-none bg-white border border-slate-200 rounded-xl pl-8 pr-3 py-2 text-xs font-semibold text-slate-700 focus:outline-none focus:ring-2 focus:ring-rose-200"
+    >
+      {options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export default SortSelect;
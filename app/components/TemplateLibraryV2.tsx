@@ -16,11 +16,17 @@ import {
   Shield,
 } from 'lucide-react';
 import { ApiClient, FileTemplateItem } from '@/app/lib/api-client';
+import type { ApiError } from '@/app/lib/api-error';
+import ApiErrorNotice from './ApiErrorNotice';
+import FieldError, { invalidInputClass } from './FieldError';
 import { useAuth } from '@/app/lib/auth-context';
 import { downloadTextAsPdf } from '@/app/lib/downloads';
 
 type Template = FileTemplateItem;
 
+/** Create-template fields with an inline error slot (`filename` is shown under Name). */
+const CREATE_FORM_FIELDS = ['name', 'filename', 'description', 'content'];
+
 function statusPill(status: string) {
   const s = (status || '').toLowerCase();
   if (s === 'published' || s === 'active') return { label: 'ACTIVE', cls: 'bg-emerald-50 text-emerald-700 border-emerald-200' };
@@ -45,6 +51,7 @@ const TemplateLibrary: React.FC = () => {
   const [createType, setCreateType] = useState('NDA');
   const [createDescription, setCreateDescription] = useState('');
   const [createContent, setCreateContent] = useState('');
+  const [createError, setCreateError] = useState<ApiError | null>(null);
   const [myTemplatesCount, setMyTemplatesCount] = useState<number | null>(null);
   const [downloadOpen, setDownloadOpen] = useState(false);
   const [showOnlyMine, setShowOnlyMine] = useState(false);
@@ -79,10 +86,11 @@ const TemplateLibrary: React.FC = () => {
         const client = new ApiClient();
         const response = await client.getTemplateFileContent(selectedTemplate.filename);
         if (response.success && response.data) {
-          const content = (response.data as any).content || '';
+          const content = response.data.content;
           setRawTemplateDoc(content);
           return;
         }
+        setError(response.error || 'Failed to load the template');
         setRawTemplateDoc('');
       } catch {
         setRawTemplateDoc('');
@@ -134,10 +142,13 @@ const TemplateLibrary: React.FC = () => {
       try {
         const client = new ApiClient();
         const res = await client.semanticSearchWithParams(q, { entity_type: 'template', limit: '50' });
-        const results = (res.data as any)?.results || [];
+        if (!res.success || !res.data) {
+          setSemanticMatches(null);
+          return;
+        }
         const filenames: string[] = [];
-        for (const r of results) {
-          const fn = (r?.metadata && (r.metadata.filename as string)) || '';
+        for (const r of res.data.results) {
+          const fn = String(r.metadata?.filename || '');
           if (fn) filenames.push(fn);
         }
         setSemanticMatches(filenames.length ? filenames : []);
@@ -155,12 +166,12 @@ const TemplateLibrary: React.FC = () => {
       const client = new ApiClient();
       const response = await client.listTemplateFiles();
 
-      if (!response.success) {
+      if (!response.success || !response.data) {
         setError(response.error || 'Failed to load templates');
         return;
       }
 
-      const templateList = (response.data as any)?.results || [];
+      const templateList = response.data.results;
 
       setTemplates(templateList);
       if (templateList.length > 0) {
@@ -177,12 +188,11 @@ const TemplateLibrary: React.FC = () => {
     try {
       const client = new ApiClient();
       const res = await client.listMyTemplateFiles();
-      if (!res.success) {
+      if (!res.success || !res.data) {
         setMyTemplatesCount(0);
         return;
       }
-      const count = (res.data as any)?.count;
-      setMyTemplatesCount(typeof count === 'number' ? count : ((res.data as any)?.results || []).length);
+      setMyTemplatesCount(res.data.count);
     } catch {
       setMyTemplatesCount(0);
     }
@@ -223,6 +233,12 @@ const TemplateLibrary: React.FC = () => {
     }
   };
 
+  // The filename is derived from the name, so filename errors (e.g. duplicates) belong under Name.
+  const createFieldError = (field: string) =>
+    createError?.fieldError(field) || (field === 'name' ? createError?.fieldError('filename') : undefined);
+  const createFieldProps = (field: string) =>
+    createFieldError(field) ? { 'aria-invalid': true, 'aria-describedby': `create-${field}-error` } : {};
+
   const createTemplate = async () => {
     try {
       if (!user) {
@@ -230,6 +246,7 @@ const TemplateLibrary: React.FC = () => {
         return;
       }
       setCreateBusy(true);
+      setCreateError(null);
       const client = new ApiClient();
       const displayName = createName.trim() || 'New Template';
       const content =
@@ -249,7 +266,9 @@ const TemplateLibrary: React.FC = () => {
         content,
       });
       if (!res.success) {
-        setError(res.error || 'Failed to create template');
+        // The modal stays open, so show the problem in it rather than on the page behind.
+        if (res.apiError) setCreateError(res.apiError);
+        else setError(res.error || 'Failed to create template');
         return;
       }
       setCreateOpen(false);
@@ -448,6 +467,7 @@ const TemplateLibrary: React.FC = () => {
                   setError('Please log in to create templates.');
                   return;
                 }
+                setCreateError(null);
                 setCreateOpen(true);
               }}
               className="inline-flex items-center justify-center gap-2 rounded-full bg-[#0F141F] text-white px-5 py-3 text-sm font-semibold w-full sm:w-auto"
@@ -537,6 +557,7 @@ const TemplateLibrary: React.FC = () => {
                         setError('Please log in to create templates.');
                         return;
                       }
+                      setCreateError(null);
                       setCreateOpen(true);
                     }}
                     className="inline-flex items-center gap-2 text-sm font-semibold text-slate-900 hover:text-slate-700"
@@ -733,9 +754,11 @@ const TemplateLibrary: React.FC = () => {
                 <input
                   value={createName}
                   onChange={(e) => setCreateName(e.target.value)}
-                  className="mt-2 w-full rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-rose-200"
+                  className={`mt-2 w-full rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-rose-200 ${createFieldError('name') ? invalidInputClass : ''}`}
                   placeholder="e.g. Standard MSA"
+                  {...createFieldProps('name')}
                 />
+                <FieldError id="create-name-error" message={createFieldError('name')} />
               </div>
 
               <div>
@@ -762,9 +785,11 @@ const TemplateLibrary: React.FC = () => {
                 <textarea
                   value={createDescription}
                   onChange={(e) => setCreateDescription(e.target.value)}
-                  className="mt-2 w-full min-h-[96px] rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-rose-200"
+                  className={`mt-2 w-full min-h-[96px] rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-rose-200 ${createFieldError('description') ? invalidInputClass : ''}`}
                   placeholder="Short summary (optional)"
+                  {...createFieldProps('description')}
                 />
+                <FieldError id="create-description-error" message={createFieldError('description')} />
               </div>
 
               <div>
@@ -772,13 +797,19 @@ const TemplateLibrary: React.FC = () => {
                 <textarea
                   value={createContent}
                   onChange={(e) => setCreateContent(e.target.value)}
-                  className="mt-2 w-full min-h-[180px] rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-rose-200 font-mono"
+                  className={`mt-2 w-full min-h-[180px] rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-rose-200 font-mono ${createFieldError('content') ? invalidInputClass : ''}`}
                   placeholder="Paste the exact template text (.txt) you want to display"
+                  {...createFieldProps('content')}
                 />
+                <FieldError id="create-content-error" message={createFieldError('content')} />
                 <p className="text-xs text-slate-500 mt-2">Saved to your template library.</p>
               </div>
             </div>
 
+            {createError && (
+              <ApiErrorNotice error={createError} inlineFields={CREATE_FORM_FIELDS} onRetry={createTemplate} className="mt-5" />
+            )}
+
             <div className="mt-6 flex items-center gap-3">
               <button
                 className="flex-1 rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm font-semibold text-slate-700"
@@ -28,9 +28,8 @@ export default function TemplatesPage() {
       setError(null)
       const response = await apiClient.getTemplates()
 
-      if (response.success) {
-        const data = response.data as any
-        const templatesList = Array.isArray(data) ? data : data.results || []
+      if (response.success && response.data) {
+        const templatesList = response.data.results
         setTemplates(templatesList)
       } else {
         setError(response.error || 'Failed to fetch templates')
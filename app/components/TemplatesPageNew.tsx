@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react'
 import Sidebar from './Sidebar'
+import { http } from '../lib/http'
 
 type IconProps = React.SVGProps<SVGSVGElement> & { title?: string }
 
@@ -72,8 +73,6 @@ interface TemplateTypesResponse {
 // CONSTANTS
 // ============================================================================
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://lawflow-267708864896.asia-south1.run.appapi/v1'
-
 const TEMPLATE_ICONS: Record<string, React.ReactNode> = {
   NDA: <IconShield className="w-6 h-6" />,
   MSA: <IconFileSignature className="w-6 h-6" />,
@@ -125,7 +124,7 @@ export default function TemplatesPageNew({ onLogout }: TemplatesPageNewProps) {
       setLoading(true)
       setError(null)
 
-      const response = await fetch(`${API_BASE_URL}/templates/types/`)
+      const response = await http.send('/api/v1/templates/types/')
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: Failed to fetch templates`)
@@ -151,7 +150,7 @@ export default function TemplatesPageNew({ onLogout }: TemplatesPageNewProps) {
       setContentLoading(true)
       setError(null)
 
-      const response = await fetch(`${API_BASE_URL}/templates/files/${templateType}/`)
+      const response = await http.send(`/api/v1/templates/files/${templateType}/`)
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: Failed to fetch template content`)
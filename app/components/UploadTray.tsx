@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, FileText, Pause, Play, RotateCcw, X } from 'lucide-react';
+import { uploadManager, type UploadTask } from '@/app/lib/uploads';
+import { uploadPercent, useUploads } from '@/app/lib/use-uploads';
+
+const formatBytes = (bytes: number): string => {
+  const b = Number(bytes || 0);
+  if (b < 1024) return `${b} B`;
+  const kb = b / 1024;
+  if (kb < 1024) return `${kb.toFixed(0)} KB`;
+  const mb = kb / 1024;
+  if (mb < 1024) return `${mb.toFixed(1)} MB`;
+  return `${(mb / 1024).toFixed(1)} GB`;
+};
+
+const statusLabel = (t: UploadTask): string => {
+  switch (t.status) {
+    case 'queued':
+      return 'Waiting…';
+    case 'uploading':
+      return `${formatBytes(t.loaded)} of ${formatBytes(t.size)}`;
+    case 'completing':
+      return 'Finishing…';
+    case 'paused':
+      return `Paused at ${formatBytes(t.loaded)}`;
+    case 'interrupted':
+      return `Interrupted at ${formatBytes(t.loaded)} — choose the file again to resume`;
+    case 'failed':
+      return t.error || 'Upload failed';
+    case 'done':
+      return t.purpose === 'review' ? 'Uploaded — analysis running' : 'Uploaded';
+    case 'canceled':
+      return 'Cancelled';
+  }
+};
+
+const IconButton: React.FC<{ label: string; onClick: () => void; children: React.ReactNode }> = ({
+  label,
+  onClick,
+  children,
+}) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="w-7 h-7 rounded-full grid place-items-center text-black/45 hover:text-black hover:bg-black/5"
+    aria-label={label}
+    title={label}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Floating list of uploads. Mounted by `DashboardLayout`, so it stays visible
+ * (and uploads keep running) while the user moves between pages.
+ */
+const UploadTray: React.FC = () => {
+  const tasks = useUploads();
+  const [collapsed, setCollapsed] = useState(false);
+  const [pickError, setPickError] = useState<string | null>(null);
+  const resumeInputRef = useRef<HTMLInputElement | null>(null);
+  const resumeTargetRef = useRef<string | null>(null);
+
+  const active = tasks.filter((t) => ['queued', 'uploading', 'completing'].includes(t.status)).length;
+
+  // Leaving the app would stop the transfer (it can be resumed, but warn anyway).
+  useEffect(() => {
+    if (!active) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, [active]);
+
+  if (!tasks.length) return null;
+
+  const pickFileFor = (id: string) => {
+    resumeTargetRef.current = id;
+    setPickError(null);
+    resumeInputRef.current?.click();
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[70] w-[calc(100vw-2rem)] max-w-sm bg-white rounded-2xl border border-black/10 shadow-2xl overflow-hidden">
+      <div className="px-4 py-3 flex items-center justify-between gap-2 bg-[#0F141F] text-white">
+        <div className="text-sm font-semibold">
+          {active ? `Uploading ${active} file${active === 1 ? '' : 's'}` : 'Uploads'}
+        </div>
+        <div className="flex items-center gap-1">
+          {tasks.some((t) => t.status === 'done' || t.status === 'canceled') && (
+            <button
+              type="button"
+              onClick={() => uploadManager.clearFinished()}
+              className="text-[11px] font-semibold text-white/70 hover:text-white px-2"
+            >
+              Clear finished
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setCollapsed((v) => !v)}
+            className="w-7 h-7 rounded-full grid place-items-center text-white/70 hover:text-white hover:bg-white/10"
+            aria-label={collapsed ? 'Expand uploads' : 'Collapse uploads'}
+          >
+            {collapsed ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <div className="max-h-72 overflow-y-auto divide-y divide-black/5">
+          {tasks.map((t) => {
+            const pct = uploadPercent(t) ?? (t.status === 'done' ? 100 : t.size ? Math.round((t.loaded / t.size) * 100) : 0);
+            const failed = t.status === 'failed' || t.status === 'interrupted';
+            return (
+              <div key={t.id} className="px-4 py-3">
+                <div className="flex items-center gap-3">
+                  <FileText className="w-4 h-4 text-rose-500 flex-shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <div className="text-xs font-semibold text-slate-900 truncate">{t.fileName}</div>
+                    <div className={`text-[11px] truncate ${failed ? 'text-rose-600' : 'text-black/45'}`}>{statusLabel(t)}</div>
+                  </div>
+                  <div className="flex items-center flex-shrink-0">
+                    {t.status === 'uploading' && t.resumable && (
+                      <IconButton label="Pause" onClick={() => uploadManager.pause(t.id)}>
+                        <Pause className="w-3.5 h-3.5" />
+                      </IconButton>
+                    )}
+                    {(t.status === 'paused' || t.status === 'failed') && (
+                      <IconButton
+                        label={t.status === 'paused' ? 'Resume' : 'Retry'}
+                        onClick={() => {
+                          const err = uploadManager.resume(t.id);
+                          if (err) pickFileFor(t.id);
+                        }}
+                      >
+                        {t.status === 'paused' ? <Play className="w-3.5 h-3.5" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                      </IconButton>
+                    )}
+                    {t.status === 'interrupted' && (
+                      <IconButton label="Choose file to resume" onClick={() => pickFileFor(t.id)}>
+                        <Play className="w-3.5 h-3.5" />
+                      </IconButton>
+                    )}
+                    <IconButton
+                      label={t.status === 'done' || t.status === 'canceled' ? 'Dismiss' : 'Cancel upload'}
+                      onClick={() => uploadManager.dismiss(t.id)}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </IconButton>
+                  </div>
+                </div>
+                {t.status !== 'done' && t.status !== 'canceled' && (
+                  <div className="mt-2 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-[width] duration-200 ${
+                        failed ? 'bg-rose-300' : t.status === 'paused' ? 'bg-slate-300' : 'bg-gradient-to-r from-rose-500 to-fuchsia-500'
+                      }`}
+                      style={{ width: `${pct}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {pickError && <div className="px-4 py-2 text-[11px] text-rose-600">{pickError}</div>}
+        </div>
+      )}
+
+      <input
+        ref={resumeInputRef}
+        type="file"
+        className="hidden"
+        onChange={(e) => {
+          const f = e.target.files?.[0];
+          const id = resumeTargetRef.current;
+          if (f && id) setPickError(uploadManager.resume(id, f));
+          if (resumeInputRef.current) resumeInputRef.current.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default UploadTray;
@@ -25,9 +25,8 @@ export default function WorkflowsPage() {
       setError(null)
       const response = await apiClient.getWorkflows()
 
-      if (response.success) {
-        const data = response.data as any
-        const workflowsList = Array.isArray(data) ? data : data.results || []
+      if (response.success && response.data) {
+        const workflowsList = response.data.results
         setWorkflows(workflowsList)
       } else {
         setError(response.error || 'Failed to fetch workflows')
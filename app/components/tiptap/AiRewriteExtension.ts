@@ -0,0 +1,388 @@
+import { Extension, Mark, mergeAttributes } from '@tiptap/core';
+import { Fragment, Slice, type Mark as PmMark, type Node as PmNode, type Schema } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+import type { AiCitationsChange, AiRelevantClause } from '@/app/lib/api-client';
+import { diffBlocks } from '@/app/lib/merge3';
+
+/**
+ * Inline AI rewrites of selected text.
+ *
+ * While a rewrite is open the selected range is hidden and a word diff from
+ * the original to the (streaming, then editable) proposal is shown in its
+ * place. The proposal lives in plugin state, so nothing reaches the document
+ * or the undo history until it is accepted. Accepting replaces the range with
+ * the proposal wrapped in an `aiChange` mark, saved as
+ * `<span class="ai-change" data-ai-change="{id}" …>` together with the
+ * instruction and the citations (`AiCitationsEvent` changes and the library
+ * clauses the model was given) that justified it. In suggestion mode the
+ * replacement is tracked like any other edit.
+ */
+
+export type AiRewriteStatus = 'streaming' | 'ready' | 'error';
+
+export interface AiRewriteState {
+  /** The range being rewritten, mapped through edits made meanwhile. */
+  from: number;
+  to: number;
+  original: string;
+  instruction: string;
+  proposal: string;
+  status: AiRewriteStatus;
+  error: string | null;
+  citations: AiCitationsChange[];
+  context: AiRelevantClause[];
+}
+
+/** An accepted rewrite, as recorded in the document. */
+export interface AiChange {
+  id: string;
+  instruction: string;
+  citations: AiCitationsChange[];
+  context: AiRelevantClause[];
+  authorName: string | null;
+  /** ISO timestamp of the accept. */
+  date: string | null;
+  text: string;
+  /** First-to-last range of the marked text. */
+  from: number;
+  to: number;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    aiRewrite: {
+      /** Open a rewrite of the selected text; the proposal starts empty and streaming. */
+      startAiRewrite: (instruction: string) => ReturnType;
+      /** Update the open rewrite (streamed text, edits, citations, status). */
+      updateAiRewrite: (patch: Partial<Omit<AiRewriteState, 'from' | 'to' | 'original'>>) => ReturnType;
+      /** Replace the range with the proposal and record the change. */
+      acceptAiRewrite: () => ReturnType;
+      /** Close the rewrite and leave the text as it was. */
+      rejectAiRewrite: () => ReturnType;
+      /** Emphasise the text of an accepted change (e.g. while its citations are hovered). */
+      setAiChangeHighlight: (id: string | null) => ReturnType;
+    };
+  }
+}
+
+export const aiRewriteKey = new PluginKey<AiRewriteState | null>('aiRewrite');
+
+const aiChangeHighlightKey = new PluginKey<string | null>('aiChangeHighlight');
+
+/** The open rewrite, if any. */
+export const getAiRewrite = (state: EditorState) => aiRewriteKey.getState(state) || null;
+
+const newAiChangeId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const stringAttribute = (key: string, name: string) => ({
+  default: null,
+  parseHTML: (el: HTMLElement) => el.getAttribute(name),
+  renderHTML: (attrs: Record<string, unknown>) => (attrs[key] ? { [name]: attrs[key] } : {}),
+});
+
+// Citations are kept as JSON so they travel with `rendered_html`.
+const jsonAttribute = (key: string, name: string) => ({
+  default: [],
+  parseHTML: (el: HTMLElement) => {
+    try {
+      const value = JSON.parse(el.getAttribute(name) || '[]');
+      return Array.isArray(value) ? value : [];
+    } catch {
+      return [];
+    }
+  },
+  renderHTML: (attrs: Record<string, unknown>) => {
+    const value = attrs[key];
+    return Array.isArray(value) && value.length ? { [name]: JSON.stringify(value) } : {};
+  },
+});
+
+/** Every accepted rewrite in the document, keyed by id, in document order. */
+export function findAiChanges(doc: PmNode): Map<string, AiChange> {
+  const changes = new Map<string, AiChange>();
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+    const mark = node.marks.find((m) => m.type.name === 'aiChange' && m.attrs.id);
+    if (!mark) return;
+    const id = String(mark.attrs.id);
+    const text = node.isText ? node.text || '' : '';
+    const existing = changes.get(id);
+    if (existing) {
+      // A later paragraph of the same change.
+      if (pos > existing.to) existing.text += '\n';
+      existing.to = pos + node.nodeSize;
+      existing.text += text;
+    } else {
+      changes.set(id, {
+        id,
+        instruction: mark.attrs.instruction || '',
+        citations: mark.attrs.citations || [],
+        context: mark.attrs.context || [],
+        authorName: mark.attrs.authorName || null,
+        date: mark.attrs.date || null,
+        text,
+        from: pos,
+        to: pos + node.nodeSize,
+      });
+    }
+  });
+  return changes;
+}
+
+const AiChangeMark = Mark.create({
+  name: 'aiChange',
+  inclusive: false,
+
+  addAttributes() {
+    return {
+      id: stringAttribute('id', 'data-ai-change'),
+      instruction: stringAttribute('instruction', 'data-ai-instruction'),
+      citations: jsonAttribute('citations', 'data-ai-citations'),
+      context: jsonAttribute('context', 'data-ai-context'),
+      authorName: stringAttribute('authorName', 'data-ai-author'),
+      date: stringAttribute('date', 'data-ai-date'),
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-ai-change]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes({ class: 'ai-change' }, HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      setAiChangeHighlight:
+        (id) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(aiChangeHighlightKey, id).setMeta('addToHistory', false);
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const type = this.type;
+    return [
+      new Plugin<string | null>({
+        key: aiChangeHighlightKey,
+        state: {
+          init: () => null,
+          apply: (tr, value) => {
+            const next = tr.getMeta(aiChangeHighlightKey) as string | null | undefined;
+            return next === undefined ? value : next;
+          },
+        },
+        props: {
+          decorations(state) {
+            const activeId = aiChangeHighlightKey.getState(state);
+            if (!activeId) return null;
+            const decorations: Decoration[] = [];
+            state.doc.descendants((node, pos) => {
+              if (node.isInline && node.marks.some((m) => m.type === type && m.attrs.id === activeId)) {
+                decorations.push(Decoration.inline(pos, pos + node.nodeSize, { class: 'ai-change-active' }));
+              }
+            });
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+// ==================== PROPOSAL ====================
+
+// Marks that describe the old text rather than its formatting.
+const DROPPED_MARKS = new Set(['insertion', 'deletion', 'commentAnchor', 'aiChange']);
+
+/** Inline content for one paragraph of proposal text; single newlines become line breaks. */
+function inlineContent(schema: Schema, text: string, marks: readonly PmMark[]): PmNode[] {
+  const nodes: PmNode[] = [];
+  text.split('\n').forEach((line, i) => {
+    if (i > 0 && schema.nodes.hardBreak) nodes.push(schema.nodes.hardBreak.create(null, null, marks));
+    if (line) nodes.push(schema.text(line, marks));
+  });
+  return nodes;
+}
+
+/** The proposal as a slice: one paragraph joins the surrounding text, several split it. */
+function proposalSlice(schema: Schema, text: string, marks: readonly PmMark[]): Slice {
+  const paragraphs = text.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  if (paragraphs.length === 1) return new Slice(Fragment.from(inlineContent(schema, paragraphs[0], marks)), 0, 0);
+  const blocks = paragraphs.map((p) => schema.nodes.paragraph.create(null, inlineContent(schema, p.trim(), marks)));
+  return new Slice(Fragment.from(blocks), 1, 1);
+}
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+/** The inline diff shown in place of the original text. */
+function renderDiff(rewrite: AiRewriteState): HTMLElement {
+  const root = document.createElement('span');
+  root.className = `ai-rewrite-diff ai-rewrite-${rewrite.status}`;
+  root.contentEditable = 'false';
+  const ops = diffBlocks(tokenize(rewrite.original), tokenize(rewrite.proposal));
+  for (const op of ops) {
+    // While streaming, the tail of the original is only "deleted" because the proposal hasn't got there yet.
+    if (op.type === 'delete' && rewrite.status === 'streaming' && op === ops[ops.length - 1]) {
+      const pending = document.createElement('span');
+      pending.className = 'ai-rewrite-pending';
+      pending.textContent = op.blocks.join('');
+      root.appendChild(pending);
+      continue;
+    }
+    const el = document.createElement(op.type === 'insert' ? 'ins' : op.type === 'delete' ? 'del' : 'span');
+    el.textContent = op.blocks.join('');
+    root.appendChild(el);
+  }
+  if (rewrite.status === 'streaming') {
+    const cursor = document.createElement('span');
+    cursor.className = 'ai-rewrite-cursor';
+    root.appendChild(cursor);
+  }
+  return root;
+}
+
+// ==================== EXTENSION ====================
+
+export const AiRewriteExtension = Extension.create({
+  name: 'aiRewrite',
+
+  addExtensions() {
+    return [AiChangeMark];
+  },
+
+  addCommands() {
+    return {
+      startAiRewrite:
+        (instruction) =>
+        ({ state, tr, dispatch }) => {
+          const { from, to, empty } = state.selection;
+          if (empty) return false;
+          const original = state.doc.textBetween(from, to, '\n\n', '\n');
+          if (!original.trim()) return false;
+          if (dispatch) {
+            const rewrite: AiRewriteState = {
+              from,
+              to,
+              original,
+              instruction,
+              proposal: '',
+              status: 'streaming',
+              error: null,
+              citations: [],
+              context: [],
+            };
+            tr.setMeta(aiRewriteKey, rewrite).setMeta('addToHistory', false);
+          }
+          return true;
+        },
+      updateAiRewrite:
+        (patch) =>
+        ({ state, tr, dispatch }) => {
+          const rewrite = getAiRewrite(state);
+          if (!rewrite) return false;
+          if (dispatch) tr.setMeta(aiRewriteKey, { ...rewrite, ...patch }).setMeta('addToHistory', false);
+          return true;
+        },
+      acceptAiRewrite:
+        () =>
+        ({ state, tr, dispatch, editor }) => {
+          const rewrite = getAiRewrite(state);
+          if (!rewrite || rewrite.status === 'streaming') return false;
+          if (dispatch) {
+            const { schema } = state;
+            const $from = state.doc.resolve(rewrite.from);
+            const kept = ($from.marksAcross(state.doc.resolve(rewrite.to)) || $from.marks()).filter(
+              (m) => !DROPPED_MARKS.has(m.type.name)
+            );
+            const change = schema.marks.aiChange.create({
+              id: newAiChangeId(),
+              instruction: rewrite.instruction,
+              citations: rewrite.citations,
+              context: rewrite.context,
+              authorName: editor.storage.trackChanges?.author?.name || null,
+              date: new Date().toISOString(),
+            });
+            const proposal = rewrite.proposal.trim();
+            if (proposal) tr.replaceRange(rewrite.from, rewrite.to, proposalSlice(schema, proposal, change.addToSet(kept)));
+            else tr.delete(rewrite.from, rewrite.to);
+            tr.setSelection(TextSelection.create(tr.doc, tr.mapping.map(rewrite.to)));
+            tr.setMeta(aiRewriteKey, null);
+          }
+          return true;
+        },
+      rejectAiRewrite:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const rewrite = getAiRewrite(state);
+          if (!rewrite) return false;
+          if (dispatch) {
+            tr.setSelection(TextSelection.create(tr.doc, rewrite.from, rewrite.to));
+            tr.setMeta(aiRewriteKey, null).setMeta('addToHistory', false);
+          }
+          return true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      Escape: () => this.editor.commands.rejectAiRewrite(),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<AiRewriteState | null>({
+        key: aiRewriteKey,
+        state: {
+          init: () => null,
+          apply: (tr, value) => {
+            const next = tr.getMeta(aiRewriteKey) as AiRewriteState | null | undefined;
+            if (next !== undefined) return next;
+            if (!value || !tr.docChanged) return value;
+            const from = tr.mapping.map(value.from, 1);
+            const to = tr.mapping.map(value.to, -1);
+            // The text being rewritten was deleted (e.g. by a collaborator).
+            return from < to ? { ...value, from, to } : null;
+          },
+        },
+        props: {
+          decorations(state) {
+            const rewrite = getAiRewrite(state);
+            if (!rewrite) return null;
+            const { from, to } = rewrite;
+            const decorations: Decoration[] = [];
+            state.doc.nodesBetween(from, to, (node, pos) => {
+              // Blocks wholly inside the range disappear, except the last one, which holds the diff.
+              if (node.isTextblock && pos + 1 >= from && pos + node.nodeSize - 1 < to) {
+                decorations.push(Decoration.node(pos, pos + node.nodeSize, { class: 'ai-rewrite-hidden' }));
+              }
+              if (node.isInline) {
+                decorations.push(
+                  Decoration.inline(Math.max(pos, from), Math.min(pos + node.nodeSize, to), { class: 'ai-rewrite-hidden' })
+                );
+              }
+            });
+            decorations.push(
+              Decoration.widget(to, () => renderDiff(rewrite), {
+                side: -1,
+                key: `ai-rewrite:${rewrite.status}:${rewrite.proposal.length}:${rewrite.proposal.slice(-16)}`,
+                ignoreSelection: true,
+              })
+            );
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
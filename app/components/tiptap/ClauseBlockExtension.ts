@@ -0,0 +1,223 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import type { Node as PmNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { ReactNodeViewRenderer } from '@tiptap/react';
+
+import ClauseBlockNodeView from './ClauseBlockNodeView';
+import { acceptedText } from './TrackChangesExtension';
+
+/**
+ * Clause library blocks.
+ *
+ * A clause inserted from the library is wrapped in
+ * `<section class="clause-block" data-clause-id data-clause-version data-clause-name>`,
+ * so the document remembers which library clause (and which version of it) the
+ * text came from. Compared against the library (`setClauseLibrary`), each block
+ * is in sync, edited (its text drifted from the library text) or outdated (the
+ * library has a newer version), and `updateClause` replaces it with the
+ * library text.
+ */
+
+/** The library fields a clause block needs. */
+export interface LibraryClause {
+  clause_id: string;
+  name: string;
+  version?: number;
+  content: string;
+}
+
+export type ClauseStatus = 'synced' | 'edited' | 'outdated' | 'unknown';
+
+export interface ClauseBlockInfo {
+  pos: number;
+  clauseId: string;
+  name: string;
+  version: number | null;
+  status: ClauseStatus;
+  /** The library clause, when it is loaded. */
+  library?: LibraryClause;
+}
+
+interface ClauseBlockStorage {
+  library: Map<string, LibraryClause>;
+}
+
+/** `dataTransfer` type used when dragging a clause from the library sidebar. */
+export const CLAUSE_DRAG_TYPE = 'application/x-clm-clause';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    clauseBlock: {
+      /** Insert a library clause at `position` (default: the selection). */
+      insertClause: (clause: LibraryClause, position?: number) => ReturnType;
+      /** Library clauses to compare inserted blocks against. */
+      setClauseLibrary: (clauses: LibraryClause[]) => ReturnType;
+      /** Replace the block at `position` with the current library text and version. */
+      updateClause: (position: number) => ReturnType;
+    };
+  }
+
+  interface Storage {
+    clauseBlock: ClauseBlockStorage;
+  }
+}
+
+const clauseLibraryKey = new PluginKey('clauseLibrary');
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/** Library text as paragraph texts: blank lines separate paragraphs. */
+const clauseParagraphs = (content: string): string[] =>
+  String(content || '')
+    .split(/\n{2,}/)
+    .map((p) => p.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean);
+
+export function clauseStatus(node: PmNode, library: Map<string, LibraryClause>): ClauseStatus {
+  const clause = library.get(String(node.attrs.clauseId || ''));
+  if (!clause) return 'unknown';
+  if ((clause.version ?? 0) > (Number(node.attrs.version) || 0)) return 'outdated';
+  // Text suggested for deletion no longer counts; suggested insertions do.
+  return normalizeText(acceptedText(node)) === normalizeText(clause.content) ? 'synced' : 'edited';
+}
+
+/** Every clause block in `doc`, in document order, with its status against `library`. */
+export function findClauseBlocks(doc: PmNode, library: Map<string, LibraryClause>): ClauseBlockInfo[] {
+  const blocks: ClauseBlockInfo[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'clauseBlock') return;
+    const clauseId = String(node.attrs.clauseId || '');
+    blocks.push({
+      pos,
+      clauseId,
+      name: String(node.attrs.name || clauseId),
+      version: node.attrs.version == null ? null : Number(node.attrs.version),
+      status: clauseStatus(node, library),
+      library: library.get(clauseId),
+    });
+    return false;
+  });
+  return blocks;
+}
+
+export const ClauseBlockExtension = Node.create({
+  name: 'clauseBlock',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+  draggable: true,
+
+  addAttributes() {
+    return {
+      clauseId: {
+        default: null,
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-clause-id'),
+        renderHTML: (attrs: Record<string, unknown>) => (attrs.clauseId ? { 'data-clause-id': attrs.clauseId } : {}),
+      },
+      version: {
+        default: null,
+        parseHTML: (el: HTMLElement) => {
+          const n = Number(el.getAttribute('data-clause-version'));
+          return Number.isFinite(n) && n > 0 ? n : null;
+        },
+        renderHTML: (attrs: Record<string, unknown>) =>
+          attrs.version != null ? { 'data-clause-version': String(attrs.version) } : {},
+      },
+      name: {
+        default: null,
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-clause-name'),
+        renderHTML: (attrs: Record<string, unknown>) => (attrs.name ? { 'data-clause-name': attrs.name } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'section[data-clause-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['section', mergeAttributes({ class: 'clause-block' }, HTMLAttributes), 0];
+  },
+
+  addStorage() {
+    return {
+      library: new Map(),
+    } as ClauseBlockStorage;
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ClauseBlockNodeView);
+  },
+
+  addCommands() {
+    return {
+      insertClause:
+        (clause, position) =>
+        ({ commands, state }) => {
+          const paragraphs = clauseParagraphs(clause.content);
+          return commands.insertContentAt(position ?? state.selection.to, {
+            type: this.name,
+            attrs: { clauseId: clause.clause_id, version: clause.version ?? null, name: clause.name },
+            content: paragraphs.length
+              ? paragraphs.map((text) => ({ type: 'paragraph', content: [{ type: 'text', text }] }))
+              : [{ type: 'paragraph' }],
+          });
+        },
+      setClauseLibrary:
+        (clauses) =>
+        ({ tr, dispatch }) => {
+          this.storage.library = new Map(clauses.map((c) => [c.clause_id, c]));
+          // No document change; wakes up node views and editor-state selectors.
+          if (dispatch) tr.setMeta(clauseLibraryKey, true).setMeta('addToHistory', false);
+          return true;
+        },
+      updateClause:
+        (position) =>
+        ({ state, tr, dispatch }) => {
+          const node = state.doc.nodeAt(position);
+          if (!node || node.type.name !== this.name) return false;
+          const clause = this.storage.library.get(String(node.attrs.clauseId || ''));
+          if (!clause) return false;
+          if (dispatch) {
+            const paragraphs = clauseParagraphs(clause.content).map((text) =>
+              state.schema.nodes.paragraph.create(null, state.schema.text(text))
+            );
+            const body = paragraphs.length ? paragraphs : [state.schema.nodes.paragraph.create()];
+            tr.replaceWith(position + 1, position + node.nodeSize - 1, body);
+            tr.setNodeMarkup(position, undefined, { ...node.attrs, version: clause.version ?? null, name: clause.name });
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const editor = this.editor;
+    return [
+      new Plugin({
+        key: clauseLibraryKey,
+        props: {
+          // Clauses dragged in from the library sidebar.
+          handleDrop(view, event) {
+            const raw = event.dataTransfer?.getData(CLAUSE_DRAG_TYPE);
+            if (!raw) return false;
+            let clause: LibraryClause;
+            try {
+              clause = JSON.parse(raw) as LibraryClause;
+            } catch {
+              return false;
+            }
+            const coords = view.posAtCoords({ left: event.clientX, top: event.clientY });
+            if (!coords || !clause?.clause_id) return false;
+            event.preventDefault();
+            // Drop between blocks: after the top-level block under the pointer.
+            const $pos = view.state.doc.resolve(coords.pos);
+            const at = $pos.depth > 0 ? $pos.after(1) : coords.pos;
+            editor.chain().focus().insertClause(clause, at).run();
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,76 @@
+'use client';
+
+import React from 'react';
+import { NodeViewContent, NodeViewWrapper, useEditorState, type NodeViewProps } from '@tiptap/react';
+import { BookText, GripVertical, RefreshCw } from 'lucide-react';
+
+import { clauseStatus, type ClauseStatus } from './ClauseBlockExtension';
+
+const STATUS_TONE: Record<ClauseStatus, string> = {
+  synced: 'bg-emerald-50 text-emerald-700',
+  edited: 'bg-amber-50 text-amber-700',
+  outdated: 'bg-sky-50 text-sky-700',
+  unknown: 'bg-slate-100 text-slate-500',
+};
+
+export default function ClauseBlockNodeView({ node, editor, getPos }: NodeViewProps) {
+  const { status, library } = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      const clauses = editor.storage.clauseBlock.library;
+      return { status: clauseStatus(node, clauses), library: clauses.get(String(node.attrs.clauseId || '')) };
+    },
+  });
+  const libraryLoaded = editor.storage.clauseBlock.library.size > 0;
+  const version = node.attrs.version as number | null;
+
+  const label =
+    status === 'synced'
+      ? 'Matches library'
+      : status === 'edited'
+        ? 'Edited'
+        : status === 'outdated'
+          ? `Library v${library?.version} available`
+          : 'Not in library';
+
+  const update = () => {
+    const pos = getPos();
+    if (typeof pos === 'number') editor.chain().focus().updateClause(pos).run();
+  };
+
+  return (
+    <NodeViewWrapper as="section" className={`clause-block clause-block-${status}`} data-clause-id={node.attrs.clauseId}>
+      <div
+        contentEditable={false}
+        className="clause-block-header flex items-center gap-2 text-[11px] font-sans select-none"
+      >
+        <span data-drag-handle className="cursor-grab text-black/30 hover:text-black/60" title="Drag to move">
+          <GripVertical className="w-3.5 h-3.5" />
+        </span>
+        <BookText className="w-3.5 h-3.5 text-black/40" />
+        <span className="font-semibold text-black/70 truncate">{node.attrs.name || node.attrs.clauseId}</span>
+        {version != null && <span className="text-black/40">v{version}</span>}
+        {libraryLoaded && (
+          <span
+            className={`px-2 py-0.5 rounded-full font-semibold ${STATUS_TONE[status]}`}
+            title={status === 'edited' ? 'The text differs from the clause library.' : undefined}
+          >
+            {label}
+          </span>
+        )}
+        {(status === 'outdated' || status === 'edited') && editor.isEditable && (
+          <button
+            type="button"
+            onClick={update}
+            className="ml-auto inline-flex items-center gap-1 px-2 py-0.5 rounded-full border border-black/10 bg-white text-black/70 hover:bg-black/5"
+            title="Replace with the current library text"
+          >
+            <RefreshCw className="w-3 h-3" />
+            {status === 'outdated' ? `Update to v${library?.version}` : 'Reset to library'}
+          </button>
+        )}
+      </div>
+      <NodeViewContent className="clause-block-body" />
+    </NodeViewWrapper>
+  );
+}
@@ -0,0 +1,518 @@
+import { Node, combineTransactionSteps, mergeAttributes } from '@tiptap/core';
+import type { Node as PmNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, type EditorState, type Transaction } from '@tiptap/pm/state';
+
+import { TRACK_CHANGES_SKIP } from './TrackChangesExtension';
+
+/**
+ * Automatic clause numbering and cross-references.
+ *
+ * A paragraph or heading is a numbered clause when it holds a `clauseNumber`
+ * chip, saved as `<span class="clause-number" data-clause-anchor="…"
+ * data-clause-level="2" data-numbering="legal">4.2 </span>`. A `clauseRef`
+ * (`<span class="clause-ref" data-clause-ref="…">4.2</span>`) points at a clause
+ * by its anchor. Numbers and reference labels are recomputed after every edit and
+ * stored as the chips' text, so the saved HTML, `rendered_text` and the
+ * downloads read correctly without the editor. A reference whose clause is gone
+ * (or suggested for deletion) keeps its last label and is flagged as broken.
+ */
+
+export type NumberingSchemeId = 'legal' | 'decimal' | 'outline';
+
+type CounterStyle = 'decimal' | 'lower-alpha' | 'upper-alpha' | 'lower-roman' | 'upper-roman';
+
+interface NumberingLevel {
+  style: CounterStyle;
+  /** `(a)`: shown on its own and appended to the parent's reference in brackets. */
+  bracketed?: boolean;
+  /** Shown as the full reference (`4.2`) rather than its own counter (`B`). */
+  full?: boolean;
+}
+
+export interface NumberingScheme {
+  id: NumberingSchemeId;
+  label: string;
+  levels: NumberingLevel[];
+}
+
+export const CLAUSE_LEVELS = 4;
+
+export const NUMBERING_SCHEMES: NumberingScheme[] = [
+  {
+    id: 'legal',
+    label: '1 · 1.1 · (a) · (i)',
+    levels: [
+      { style: 'decimal', full: true },
+      { style: 'decimal', full: true },
+      { style: 'lower-alpha', bracketed: true },
+      { style: 'lower-roman', bracketed: true },
+    ],
+  },
+  {
+    id: 'decimal',
+    label: '1 · 1.1 · 1.1.1 · 1.1.1.1',
+    levels: [
+      { style: 'decimal', full: true },
+      { style: 'decimal', full: true },
+      { style: 'decimal', full: true },
+      { style: 'decimal', full: true },
+    ],
+  },
+  {
+    id: 'outline',
+    label: 'I · A · 1 · (a)',
+    levels: [
+      { style: 'upper-roman' },
+      { style: 'upper-alpha' },
+      { style: 'decimal' },
+      { style: 'lower-alpha', bracketed: true },
+    ],
+  },
+];
+
+export interface ClauseInfo {
+  id: string;
+  level: number;
+  /** Position of the `clauseNumber` chip. */
+  pos: number;
+  /** As shown at the clause (`1.`, `4.2`, `(a)`). */
+  label: string;
+  /** As shown by references (`4.2(a)`). */
+  reference: string;
+  /** Text of the clause's paragraph or heading. */
+  text: string;
+}
+
+export interface ClauseRefInfo {
+  pos: number;
+  target: string;
+  label: string;
+  broken: boolean;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    clauseNumber: {
+      /** Number the paragraph/heading at the selection, or stop numbering it. */
+      toggleClauseNumber: () => ReturnType;
+      /** Level (1–4) of the clause at the selection. */
+      setClauseLevel: (level: number) => ReturnType;
+      indentClause: () => ReturnType;
+      outdentClause: () => ReturnType;
+      /** Numbering scheme of the whole document. */
+      setClauseNumberingScheme: (scheme: NumberingSchemeId) => ReturnType;
+    };
+    clauseRef: {
+      /** Insert a reference to the clause with anchor `target` at the selection. */
+      insertClauseRef: (target: string) => ReturnType;
+    };
+  }
+}
+
+const clauseNumberingKey = new PluginKey('clauseNumbering');
+
+const newClauseId = () =>
+  `cl-${
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID().slice(0, 8)
+      : Math.random().toString(36).slice(2, 10)
+  }`;
+
+const ROMAN: Array<[number, string]> = [
+  [1000, 'm'],
+  [900, 'cm'],
+  [500, 'd'],
+  [400, 'cd'],
+  [100, 'c'],
+  [90, 'xc'],
+  [50, 'l'],
+  [40, 'xl'],
+  [10, 'x'],
+  [9, 'ix'],
+  [5, 'v'],
+  [4, 'iv'],
+  [1, 'i'],
+];
+
+function formatCounter(n: number, style: CounterStyle): string {
+  if (style === 'decimal') return String(n);
+  let out = '';
+  if (style === 'lower-alpha' || style === 'upper-alpha') {
+    // a … z, aa, ab …
+    for (let rest = n; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+      out = String.fromCharCode(97 + ((rest - 1) % 26)) + out;
+    }
+  } else {
+    let rest = n;
+    for (const [value, numeral] of ROMAN) {
+      for (; rest >= value; rest -= value) out += numeral;
+    }
+  }
+  return style.startsWith('upper') ? out.toUpperCase() : out;
+}
+
+const schemeById = (id: unknown) => NUMBERING_SCHEMES.find((s) => s.id === id) || null;
+
+const isDeleted = (node: PmNode) => node.marks.some((m) => m.type.name === 'deletion');
+
+const clampLevel = (level: number) => Math.max(1, Math.min(CLAUSE_LEVELS, Math.round(level) || 1));
+
+/** The chip numbering a paragraph/heading (only its first one counts). */
+function clauseChip(block: PmNode): { node: PmNode; offset: number } | null {
+  let found: { node: PmNode; offset: number } | null = null;
+  block.forEach((child, offset) => {
+    if (!found && child.type.name === 'clauseNumber' && !isDeleted(child)) found = { node: child, offset };
+  });
+  return found;
+}
+
+/** Scheme of the document: the one saved on its first clause. */
+export function documentNumberingScheme(doc: PmNode): NumberingSchemeId | null {
+  let scheme: NumberingSchemeId | null = null;
+  doc.descendants((node) => {
+    if (scheme) return false;
+    if (node.type.name === 'clauseNumber') scheme = schemeById(node.attrs.scheme)?.id || null;
+  });
+  return scheme;
+}
+
+/** Every numbered clause in `doc`, in order, with the numbers it should show. */
+export function findClauses(doc: PmNode, fallbackScheme: NumberingSchemeId = 'legal'): ClauseInfo[] {
+  const scheme = schemeById(documentNumberingScheme(doc)) || schemeById(fallbackScheme) || NUMBERING_SCHEMES[0];
+  const counters: number[] = Array(CLAUSE_LEVELS).fill(0);
+  const references: Array<string | null> = Array(CLAUSE_LEVELS).fill(null);
+  const clauses: ClauseInfo[] = [];
+
+  doc.descendants((block, blockPos) => {
+    if (!block.isTextblock) return;
+    const chip = clauseChip(block);
+    if (chip) {
+      const { node: child, offset } = chip;
+      const index = clampLevel(Number(child.attrs.level)) - 1;
+      const level = scheme.levels[index];
+      counters[index]++;
+      for (let i = index + 1; i < CLAUSE_LEVELS; i++) {
+        counters[i] = 0;
+        references[i] = null;
+      }
+      // A skipped level (a (a) clause straight under 1) is left out of the reference.
+      const parent = references.slice(0, index).filter((r): r is string => r !== null).pop() || '';
+      const own = formatCounter(counters[index], level.style);
+      const reference = level.bracketed ? `${parent}(${own})` : parent ? `${parent}.${own}` : own;
+      references[index] = reference;
+      const shown = level.bracketed ? `(${own})` : level.full ? reference : own;
+      clauses.push({
+        id: String(child.attrs.id || ''),
+        level: index + 1,
+        pos: blockPos + 1 + offset,
+        label: shown.includes('.') || shown.includes('(') ? shown : `${shown}.`,
+        reference,
+        text: block.textContent.trim(),
+      });
+    }
+    return false;
+  });
+  return clauses;
+}
+
+export function findClauseRefs(doc: PmNode): ClauseRefInfo[] {
+  const refs: ClauseRefInfo[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'clauseRef') return;
+    refs.push({ pos, target: String(node.attrs.target || ''), label: String(node.attrs.label || ''), broken: !!node.attrs.broken });
+  });
+  return refs;
+}
+
+/**
+ * Bring numbers, anchors and reference labels in line with the document:
+ * pasted copies of a clause get a new anchor (references stay on the original,
+ * the chip at a position in `existing`), clauses share the document's scheme.
+ * Returns whether anything changed.
+ */
+function syncClauseNumbers(tr: Transaction, fallbackScheme: NumberingSchemeId, existing = new Set<number>()) {
+  const before = tr.steps.length;
+  const scheme = documentNumberingScheme(tr.doc) || fallbackScheme;
+  const clauses = findClauses(tr.doc, fallbackScheme);
+  const owners = new Map<string, number>();
+  for (const clause of clauses) {
+    if (clause.id && (!owners.has(clause.id) || existing.has(clause.pos))) owners.set(clause.id, clause.pos);
+  }
+  const byId = new Map<string, ClauseInfo>();
+
+  for (const clause of clauses) {
+    const node = tr.doc.nodeAt(clause.pos);
+    if (!node) continue;
+    let id = clause.id;
+    if (!id || owners.get(id) !== clause.pos) {
+      id = newClauseId();
+      tr.setNodeAttribute(clause.pos, 'id', id);
+    }
+    byId.set(id, { ...clause, id });
+    if (node.attrs.label !== clause.label) tr.setNodeAttribute(clause.pos, 'label', clause.label);
+    if (node.attrs.scheme !== scheme) tr.setNodeAttribute(clause.pos, 'scheme', scheme);
+  }
+
+  for (const ref of findClauseRefs(tr.doc)) {
+    const target = byId.get(ref.target);
+    const label = target ? target.reference : ref.label;
+    if (ref.label !== label) tr.setNodeAttribute(ref.pos, 'label', label);
+    if (ref.broken !== !target) tr.setNodeAttribute(ref.pos, 'broken', !target);
+  }
+  return tr.steps.length > before;
+}
+
+/** The clause chip of the paragraph/heading holding the selection. */
+function clauseAtSelection(state: EditorState): { pos: number; node: PmNode } | null {
+  const { $from } = state.selection;
+  const chip = $from.parent.isTextblock ? clauseChip($from.parent) : null;
+  return chip ? { pos: $from.start() + chip.offset, node: chip.node } : null;
+}
+
+/**
+ * Level for a newly numbered block, from the clauses before it: a heading sits
+ * with the last numbered heading of its size (or one below a bigger one), a
+ * paragraph with the clause paragraph before it (or one below a heading).
+ */
+function defaultLevel(state: EditorState): number {
+  const { $from } = state.selection;
+  const previous: Array<{ level: number; heading: number | null }> = [];
+  state.doc.nodesBetween(0, $from.before(), (node) => {
+    if (!node.isTextblock) return;
+    const chip = clauseChip(node);
+    if (chip) {
+      previous.push({
+        level: clampLevel(Number(chip.node.attrs.level)),
+        heading: node.type.name === 'heading' ? Number(node.attrs.level) : null,
+      });
+    }
+    return false;
+  });
+
+  if ($from.parent.type.name === 'heading') {
+    const size = Number($from.parent.attrs.level);
+    const above = previous.filter((p) => p.heading !== null && p.heading <= size).pop();
+    if (!above) return 1;
+    return above.heading === size ? above.level : clampLevel(above.level + 1);
+  }
+  const last = previous[previous.length - 1];
+  if (!last) return 1;
+  return last.heading !== null ? clampLevel(last.level + 1) : last.level;
+}
+
+export const ClauseNumber = Node.create<{ scheme: NumberingSchemeId }>({
+  name: 'clauseNumber',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: false,
+
+  addOptions() {
+    return { scheme: 'legal' };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: '',
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-clause-anchor') || '',
+        renderHTML: (attrs: Record<string, unknown>) => ({ 'data-clause-anchor': attrs.id }),
+      },
+      level: {
+        default: 1,
+        parseHTML: (el: HTMLElement) => clampLevel(Number(el.getAttribute('data-clause-level'))),
+        renderHTML: (attrs: Record<string, unknown>) => ({ 'data-clause-level': attrs.level }),
+      },
+      scheme: {
+        default: null,
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-numbering'),
+        renderHTML: (attrs: Record<string, unknown>) => (attrs.scheme ? { 'data-numbering': attrs.scheme } : {}),
+      },
+      label: {
+        default: '',
+        parseHTML: (el: HTMLElement) => (el.textContent || '').trim(),
+        rendered: false,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-clause-anchor]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    // The space keeps the number apart from the clause text in plain-text copies.
+    return ['span', mergeAttributes({ class: 'clause-number' }, HTMLAttributes), `${node.attrs.label || '#'} `];
+  },
+
+  renderText({ node }) {
+    return `${node.attrs.label || '#'} `;
+  },
+
+  addCommands() {
+    return {
+      toggleClauseNumber:
+        () =>
+        ({ state, tr, dispatch }) => {
+          if (!state.selection.$from.parent.isTextblock) return false;
+          const clause = clauseAtSelection(state);
+          if (!dispatch) return true;
+          if (clause) {
+            tr.delete(clause.pos, clause.pos + clause.node.nodeSize);
+          } else {
+            const scheme = documentNumberingScheme(state.doc) || this.options.scheme;
+            tr.insert(state.selection.$from.start(), this.type.create({ level: defaultLevel(state), scheme }));
+          }
+          return true;
+        },
+      setClauseLevel:
+        (level) =>
+        ({ state, tr, dispatch }) => {
+          const clause = clauseAtSelection(state);
+          if (!clause || clampLevel(level) !== level || clause.node.attrs.level === level) return false;
+          if (dispatch) tr.setNodeAttribute(clause.pos, 'level', level);
+          return true;
+        },
+      indentClause:
+        () =>
+        ({ state, commands }) => {
+          const clause = clauseAtSelection(state);
+          return !!clause && commands.setClauseLevel(Number(clause.node.attrs.level) + 1);
+        },
+      outdentClause:
+        () =>
+        ({ state, commands }) => {
+          const clause = clauseAtSelection(state);
+          return !!clause && commands.setClauseLevel(Number(clause.node.attrs.level) - 1);
+        },
+      setClauseNumberingScheme:
+        (scheme) =>
+        ({ tr, dispatch }) => {
+          if (!schemeById(scheme)) return false;
+          if (dispatch) {
+            tr.doc.descendants((node, pos) => {
+              if (node.type.name === 'clauseNumber' && node.attrs.scheme !== scheme) tr.setNodeAttribute(pos, 'scheme', scheme);
+            });
+          }
+          return true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    // Lists and tables keep their own Tab/Enter.
+    const inClause = () =>
+      !this.editor.isActive('listItem') && !this.editor.isActive('table') && !!clauseAtSelection(this.editor.state);
+    return {
+      // Handled even at the first/last level, so Tab does not move focus out of the editor.
+      Tab: () => inClause() && (this.editor.commands.indentClause() || true),
+      'Shift-Tab': () => inClause() && (this.editor.commands.outdentClause() || true),
+      // Enter in a numbered paragraph numbers the next one; on an empty clause it stops numbering.
+      Enter: () => {
+        const { state } = this.editor;
+        const { selection } = state;
+        const clause = clauseAtSelection(state);
+        if (!inClause() || !clause || !selection.empty || selection.$from.parent.type.name !== 'paragraph') return false;
+        if (selection.from <= clause.pos) return false;
+        if (!selection.$from.parent.textContent.trim()) return this.editor.commands.toggleClauseNumber();
+        const { level, scheme } = clause.node.attrs;
+        return this.editor
+          .chain()
+          .splitBlock()
+          .command(({ tr }) => {
+            tr.insert(tr.selection.$from.start(), this.type.create({ level, scheme }));
+            return true;
+          })
+          .run();
+      },
+    };
+  },
+
+  onCreate() {
+    if (this.editor.extensionManager.extensions.some((e) => e.name === 'collaboration')) return;
+    const { tr } = this.editor.state;
+    if (!syncClauseNumbers(tr, this.options.scheme)) return;
+    this.editor.view.dispatch(
+      tr.setMeta('addToHistory', false).setMeta('preventUpdate', true).setMeta(TRACK_CHANGES_SKIP, true)
+    );
+  },
+
+  addProseMirrorPlugins() {
+    const fallbackScheme = this.options.scheme;
+    return [
+      new Plugin({
+        key: clauseNumberingKey,
+        // Renumbering follows every edit, remote ones included: it only depends on
+        // the document, so co-editors arrive at the same numbers.
+        appendTransaction(transactions, oldState, newState) {
+          if (!transactions.some((t) => t.docChanged && !t.getMeta(clauseNumberingKey))) return null;
+          // Where the clauses from before the edit are now.
+          const { mapping } = combineTransactionSteps(oldState.doc, [...transactions]);
+          const existing = new Set<number>();
+          for (const clause of findClauses(oldState.doc, fallbackScheme)) {
+            const mapped = mapping.mapResult(clause.pos, 1);
+            if (!mapped.deleted) existing.add(mapped.pos);
+          }
+          const tr = newState.tr;
+          if (!syncClauseNumbers(tr, fallbackScheme, existing)) return null;
+          return tr.setMeta(clauseNumberingKey, true).setMeta('addToHistory', false).setMeta(TRACK_CHANGES_SKIP, true);
+        },
+      }),
+    ];
+  },
+});
+
+export const ClauseRef = Node.create({
+  name: 'clauseRef',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      target: {
+        default: '',
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-clause-ref') || '',
+        renderHTML: (attrs: Record<string, unknown>) => ({ 'data-clause-ref': attrs.target }),
+      },
+      label: {
+        default: '',
+        parseHTML: (el: HTMLElement) => (el.textContent || '').trim(),
+        rendered: false,
+      },
+      broken: {
+        default: false,
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-ref-broken') === 'true',
+        renderHTML: (attrs: Record<string, unknown>) =>
+          attrs.broken ? { 'data-ref-broken': 'true', title: 'The referenced clause was deleted' } : {},
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-clause-ref]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes({ class: 'clause-ref' }, HTMLAttributes), String(node.attrs.label || '?')];
+  },
+
+  renderText({ node }) {
+    return String(node.attrs.label || '?');
+  },
+
+  addCommands() {
+    return {
+      insertClauseRef:
+        (target) =>
+        ({ state, commands }) => {
+          const clause = findClauses(state.doc).find((c) => c.id === target);
+          if (!clause) return false;
+          return commands.insertContent({ type: this.name, attrs: { target, label: clause.reference } });
+        },
+    };
+  },
+});
+
+export const ClauseNumberingExtensions = [ClauseNumber, ClauseRef];
@@ -0,0 +1,155 @@
+import { Mark, mergeAttributes } from '@tiptap/core';
+import type { Node as PmNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+/**
+ * Anchors comment threads to ranges of text.
+ *
+ * The range is wrapped in `<span class="comment-anchor" data-comment-id="{threadId}">`,
+ * so it is saved with the document and follows the text through edits. Ranges
+ * of different threads may overlap. The highlight (open vs resolved, the
+ * active thread) is view state, applied with decorations rather than stored.
+ */
+
+export interface CommentAnchor {
+  threadId: string;
+  from: number;
+  to: number;
+  text: string;
+}
+
+interface CommentHighlightState {
+  activeId: string | null;
+  resolvedIds: string[];
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    commentAnchor: {
+      /** Anchor the selected text to a thread. */
+      setCommentAnchor: (threadId: string) => ReturnType;
+      /** Remove a thread's anchor wherever it is in the document. */
+      removeCommentAnchor: (threadId: string) => ReturnType;
+      /** Emphasise the active thread's text and mute resolved ones. */
+      setCommentHighlight: (state: Partial<CommentHighlightState>) => ReturnType;
+    };
+  }
+}
+
+const commentHighlightKey = new PluginKey<CommentHighlightState>('commentHighlight');
+
+/** First-to-last range of every anchored thread, keyed by thread id. */
+export function findCommentAnchors(doc: PmNode): Map<string, CommentAnchor> {
+  const anchors = new Map<string, CommentAnchor>();
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+    for (const mark of node.marks) {
+      if (mark.type.name !== 'commentAnchor' || !mark.attrs.threadId) continue;
+      const threadId = String(mark.attrs.threadId);
+      const text = node.isText ? node.text || '' : '';
+      const existing = anchors.get(threadId);
+      if (existing) {
+        existing.to = pos + node.nodeSize;
+        existing.text += text;
+      } else {
+        anchors.set(threadId, { threadId, from: pos, to: pos + node.nodeSize, text });
+      }
+    }
+  });
+  return anchors;
+}
+
+export const CommentAnchorExtension = Mark.create({
+  name: 'commentAnchor',
+  inclusive: false,
+  // Overlapping threads: several anchors (with different ids) on the same text.
+  excludes: '',
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-comment-id'),
+        renderHTML: (attrs: Record<string, unknown>) => (attrs.threadId ? { 'data-comment-id': attrs.threadId } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-comment-id]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes({ class: 'comment-anchor' }, HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      setCommentAnchor:
+        (threadId) =>
+        ({ state, tr, dispatch }) => {
+          const { from, to, empty } = state.selection;
+          if (empty) return false;
+          if (dispatch) tr.addMark(from, to, this.type.create({ threadId }));
+          return true;
+        },
+      removeCommentAnchor:
+        (threadId) =>
+        ({ tr, dispatch }) => {
+          const ranges: Array<{ from: number; to: number }> = [];
+          tr.doc.descendants((node, pos) => {
+            if (node.isInline && node.marks.some((m) => m.type === this.type && m.attrs.threadId === threadId)) {
+              ranges.push({ from: pos, to: pos + node.nodeSize });
+            }
+          });
+          if (!ranges.length) return false;
+          if (dispatch) {
+            for (const range of ranges) tr.removeMark(range.from, range.to, this.type.create({ threadId }));
+          }
+          return true;
+        },
+      setCommentHighlight:
+        (next) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(commentHighlightKey, next).setMeta('addToHistory', false);
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const type = this.type;
+    return [
+      new Plugin<CommentHighlightState>({
+        key: commentHighlightKey,
+        state: {
+          init: () => ({ activeId: null, resolvedIds: [] }),
+          apply: (tr, value) => {
+            const next = tr.getMeta(commentHighlightKey) as Partial<CommentHighlightState> | undefined;
+            return next ? { ...value, ...next } : value;
+          },
+        },
+        props: {
+          decorations(state) {
+            const { activeId, resolvedIds } = commentHighlightKey.getState(state) || { activeId: null, resolvedIds: [] };
+            const resolved = new Set(resolvedIds);
+            const decorations: Decoration[] = [];
+            state.doc.descendants((node, pos) => {
+              if (!node.isInline) return;
+              const ids = node.marks.filter((m) => m.type === type).map((m) => String(m.attrs.threadId));
+              if (!ids.length) return;
+              // Text stays highlighted while any open thread covers it.
+              const classes = [
+                ids.some((id) => !resolved.has(id)) ? 'comment-anchor-open' : '',
+                activeId && ids.includes(activeId) ? 'comment-anchor-active' : '',
+              ].filter(Boolean);
+              if (classes.length) decorations.push(Decoration.inline(pos, pos + node.nodeSize, { class: classes.join(' ') }));
+            });
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,174 @@
+import { Extension } from '@tiptap/core';
+import type { Node as PmNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+import { analyzeDefinedTerms, type DefinedTermsReport, type TextSpan } from '@/app/lib/defined-terms';
+
+/**
+ * Live defined-terms analysis of the document (`app/lib/defined-terms.ts`).
+ *
+ * The report is kept in plugin state together with a map from each
+ * paragraph's text back to document positions, and recomputed once typing
+ * pauses; until then its underlines move with the edits. Issues are underlined
+ * in the text; the term picked in the sidebar (`setDefinedTermHighlight`) has
+ * its definition and uses highlighted. Text suggested for deletion is left
+ * out, as if the suggestion were accepted.
+ */
+
+export interface DefinedTermsAnalysis {
+  report: DefinedTermsReport;
+  /** Paragraph texts the report refers to. */
+  blocks: string[];
+  /** Document range of a span of the report. */
+  range: (span: TextSpan) => { from: number; to: number };
+}
+
+interface DefinedTermsState {
+  analysis: DefinedTermsAnalysis;
+  activeTerm: string | null;
+  /** Issue underlines and the active term's highlights, mapped through edits made since `analysis`. */
+  decorations: DecorationSet;
+  /** The document has changed since `analysis`. */
+  stale: boolean;
+}
+
+interface DefinedTermsMeta {
+  activeTerm?: string | null;
+  /** Analyse the document again. */
+  refresh?: boolean;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    definedTerms: {
+      /** Highlight the definition and uses of `term` (null: none). */
+      setDefinedTermHighlight: (term: string | null) => ReturnType;
+    };
+  }
+}
+
+const definedTermsKey = new PluginKey<DefinedTermsState>('definedTerms');
+
+// How long typing pauses before the document is analysed again.
+const ANALYSIS_DELAY = 300;
+
+// Stands in for chips (merge fields, clause numbers) so they break words without shifting offsets.
+const OBJECT_CHAR = '\ufffc';
+
+function analyzeDocument(doc: PmNode): DefinedTermsAnalysis {
+  const blocks: string[] = [];
+  const positions: number[][] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return;
+    let text = '';
+    const map: number[] = [];
+    node.forEach((child, offset) => {
+      const start = pos + 1 + offset;
+      if (child.isText) {
+        if (child.marks.some((m) => m.type.name === 'deletion')) return;
+        const value = child.text || '';
+        text += value;
+        for (let i = 0; i < value.length; i++) map.push(start + i);
+      } else {
+        text += child.type.name === 'hardBreak' ? '\n' : OBJECT_CHAR;
+        map.push(start);
+      }
+    });
+    map.push(pos + node.nodeSize - 1);
+    blocks.push(text);
+    positions.push(map);
+    return false;
+  });
+  return {
+    report: analyzeDefinedTerms(blocks),
+    blocks,
+    range: (span) => {
+      const map = positions[span.block] || [];
+      const from = map[span.start] ?? 0;
+      // Just past the last character of the span.
+      const to = span.end > span.start ? (map[span.end - 1] ?? from) + 1 : from;
+      return { from, to };
+    },
+  };
+}
+
+function buildDecorations(doc: PmNode, analysis: DefinedTermsAnalysis, activeTerm: string | null): DecorationSet {
+  const decorations: Decoration[] = [];
+  for (const issue of analysis.report.issues) {
+    const { from, to } = analysis.range(issue.span);
+    if (from < to) {
+      decorations.push(Decoration.inline(from, to, { class: `defined-term-issue defined-term-${issue.kind}`, title: issue.message }));
+    }
+  }
+  const active = activeTerm ? analysis.report.terms.find((t) => t.term === activeTerm) : null;
+  if (active) {
+    for (const span of [active.definition, ...active.uses]) {
+      const { from, to } = analysis.range(span);
+      if (from < to) decorations.push(Decoration.inline(from, to, { class: 'defined-term-active' }));
+    }
+  }
+  return DecorationSet.create(doc, decorations);
+}
+
+function analyzedState(doc: PmNode, activeTerm: string | null): DefinedTermsState {
+  const analysis = analyzeDocument(doc);
+  return { analysis, activeTerm, decorations: buildDecorations(doc, analysis, activeTerm), stale: false };
+}
+
+/** The analysis of the editor's current document (as of the last pause in typing). */
+export const getDefinedTerms = (state: EditorState): DefinedTermsAnalysis | null =>
+  definedTermsKey.getState(state)?.analysis || null;
+
+export const DefinedTermsExtension = Extension.create({
+  name: 'definedTerms',
+
+  addCommands() {
+    return {
+      setDefinedTermHighlight:
+        (term) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(definedTermsKey, { activeTerm: term }).setMeta('addToHistory', false);
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<DefinedTermsState>({
+        key: definedTermsKey,
+        state: {
+          init: (_, state) => analyzedState(state.doc, null),
+          apply: (tr, value, _, newState) => {
+            const meta = tr.getMeta(definedTermsKey) as DefinedTermsMeta | undefined;
+            const activeTerm = meta?.activeTerm !== undefined ? meta.activeTerm : value.activeTerm;
+            const stale = value.stale || tr.docChanged;
+            // A highlight needs the current positions, so it does not wait for the pause.
+            if (stale && (meta?.refresh || activeTerm !== value.activeTerm)) return analyzedState(newState.doc, activeTerm);
+            if (tr.docChanged) return { ...value, decorations: value.decorations.map(tr.mapping, tr.doc), stale };
+            if (activeTerm === value.activeTerm) return value;
+            return { ...value, activeTerm, decorations: buildDecorations(newState.doc, value.analysis, activeTerm) };
+          },
+        },
+        view: () => {
+          let timer = 0;
+          return {
+            update: (view, prevState) => {
+              if (view.state.doc === prevState.doc || !definedTermsKey.getState(view.state)?.stale) return;
+              window.clearTimeout(timer);
+              timer = window.setTimeout(() => {
+                if (view.isDestroyed || !definedTermsKey.getState(view.state)?.stale) return;
+                view.dispatch(view.state.tr.setMeta(definedTermsKey, { refresh: true }).setMeta('addToHistory', false));
+              }, ANALYSIS_DELAY);
+            },
+            destroy: () => window.clearTimeout(timer),
+          };
+        },
+        props: {
+          decorations: (state) => definedTermsKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
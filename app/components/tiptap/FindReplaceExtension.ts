@@ -0,0 +1,288 @@
+import { Extension, type CommandProps } from '@tiptap/core';
+import { Mark, type Node as PmNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+/**
+ * Find and replace across the document.
+ *
+ * The query (`setFindQuery`) is matched paragraph by paragraph, as plain text,
+ * literally or as a regular expression, optionally case-sensitive and on whole
+ * words only. Matches are kept in plugin state, re-found whenever the document
+ * changes, and highlighted; one of them is current (`findNext` /
+ * `findPrevious`). Replacing is an ordinary edit, so it is undoable (replace
+ * all is a single step) and is tracked in suggestion mode. Only the characters
+ * that differ are replaced, and they take the formatting of the text they
+ * replace. Text suggested for deletion and chips (merge fields, clause
+ * numbers) are never part of a match.
+ */
+
+export interface FindQuery {
+  search: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface FindMatch {
+  from: number;
+  to: number;
+  /** Document position of each matched character. */
+  chars: number[];
+  /** The regular expression match, for `$1`-style replacements. */
+  match: RegExpExecArray;
+}
+
+export interface FindState {
+  query: FindQuery | null;
+  matches: FindMatch[];
+  /** Index of the current match; -1 when there is none. */
+  current: number;
+  /** Why the query could not be used (an invalid regular expression). */
+  error: string | null;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    findReplace: {
+      /** Find (and highlight) `query` in the document; null clears the search. */
+      setFindQuery: (query: FindQuery | null) => ReturnType;
+      /** Make the next (or previous) match current, select it and scroll to it. */
+      findNext: () => ReturnType;
+      findPrevious: () => ReturnType;
+      /** Replace the current match and move on to the next one. */
+      replaceMatch: (replacement: string) => ReturnType;
+      /** Replace every match, as one undoable step. */
+      replaceAllMatches: (replacement: string) => ReturnType;
+    };
+  }
+}
+
+const findReplaceKey = new PluginKey<FindState>('findReplace');
+
+// Stands in for what a match cannot include: chips and text suggested for deletion.
+const OBJECT_CHAR = '\ufffc';
+
+const EMPTY: FindState = { query: null, matches: [], current: -1, error: null };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Regular expressions are read as written, without Unicode mode, which rejects escapes like `\-` and `a{`.
+// Whole words alone use it, to end at letters and digits of any script ("Müller", "東京"), unless the expression
+// is not valid there; it then falls back to `\w` word characters.
+function compileQuery(query: FindQuery): RegExp {
+  const source = query.regex ? query.search : escapeRegExp(query.search);
+  const flags = query.caseSensitive ? 'g' : 'gi';
+  if (!query.wholeWord) return new RegExp(source, flags);
+  try {
+    return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`, `${flags}u`);
+  } catch (e) {
+    if (!query.regex) throw e;
+    return new RegExp(`(?<!\\w)(?:${source})(?!\\w)`, flags);
+  }
+}
+
+function findMatches(doc: PmNode, pattern: RegExp): FindMatch[] {
+  const matches: FindMatch[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return;
+    let text = '';
+    const map: number[] = [];
+    node.forEach((child, offset) => {
+      const start = pos + 1 + offset;
+      if (child.isText) {
+        const value = child.text || '';
+        const deleted = child.marks.some((m) => m.type.name === 'deletion');
+        text += deleted ? OBJECT_CHAR.repeat(value.length) : value;
+        for (let i = 0; i < value.length; i++) map.push(start + i);
+      } else {
+        text += child.type.name === 'hardBreak' ? '\n' : OBJECT_CHAR;
+        map.push(start);
+      }
+    });
+    pattern.lastIndex = 0;
+    for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+      if (!m[0]) {
+        // An empty match (`^`, `a*`) would match forever; skip past it (a whole character).
+        pattern.lastIndex += (text.codePointAt(pattern.lastIndex) ?? 0) > 0xffff ? 2 : 1;
+        continue;
+      }
+      if (m[0].includes(OBJECT_CHAR)) continue;
+      const chars = map.slice(m.index, m.index + m[0].length);
+      matches.push({ from: chars[0], to: chars[chars.length - 1] + 1, chars, match: m });
+    }
+    return false;
+  });
+  return matches;
+}
+
+/** `$&`, `$1` and `$<name>` in a regular expression's replacement, as in `String.prototype.replace`. */
+function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, what: string, name?: string) => {
+    if (what === '$') return '$';
+    if (what === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? token;
+    const group = Number(what);
+    return group > 0 && group < match.length ? match[group] ?? '' : token;
+  });
+}
+
+/**
+ * Replace one match in `tr`. Only the characters between the common start and
+ * end of the old and new text change. Each new character takes the formatting
+ * of the old one in its place (the last one past the end), so replacing
+ * "**Acme** Corp" with "Beta Ltd" keeps "Beta" bold.
+ */
+function replaceInTransaction(tr: Transaction, found: FindMatch, replacement: string) {
+  const before = found.match[0];
+  let start = 0;
+  while (start < before.length && start < replacement.length && before[start] === replacement[start]) start++;
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < replacement.length - start &&
+    before[before.length - 1 - end] === replacement[replacement.length - 1 - end]
+  ) {
+    end++;
+  }
+  const removed = before.length - start - end;
+  const inserted = replacement.slice(start, replacement.length - end);
+  if (!removed && !inserted) return;
+
+  const from = tr.mapping.map(found.chars[start] ?? found.to);
+  const to = removed ? tr.mapping.map(found.chars[start + removed - 1] + 1) : from;
+  if (!inserted) {
+    tr.delete(from, to);
+    return;
+  }
+  const marksOf = (index: number) => {
+    const pos = found.chars[index];
+    const node = pos === undefined ? null : tr.doc.nodeAt(tr.mapping.map(pos));
+    return node?.isText ? node.marks : Mark.none;
+  };
+  const nodes: PmNode[] = [];
+  let run = '';
+  let runMarks: readonly Mark[] | null = null;
+  for (let i = 0; i < inserted.length; i++) {
+    // Pure insertions take the formatting of the character before them (or after, at the start).
+    const source = removed ? start + Math.min(i, removed - 1) : start > 0 ? start - 1 : start;
+    const marks = marksOf(source);
+    if (runMarks && !Mark.sameSet(marks, runMarks)) {
+      nodes.push(tr.doc.type.schema.text(run, runMarks));
+      run = '';
+    }
+    run += inserted[i];
+    runMarks = marks;
+  }
+  nodes.push(tr.doc.type.schema.text(run, runMarks));
+  tr.replaceWith(from, to, nodes);
+}
+
+/** The current search of the editor: its query, matches and current match. */
+export const getFindState = (state: EditorState): FindState => findReplaceKey.getState(state) || EMPTY;
+
+export const FindReplaceExtension = Extension.create({
+  name: 'findReplace',
+
+  addCommands() {
+    const moveTo =
+      (step: 1 | -1) =>
+      () =>
+      ({ state, tr, dispatch }: CommandProps) => {
+        const find = getFindState(state);
+        if (!find.matches.length) return false;
+        const count = find.matches.length;
+        const current = find.current < 0 ? (step > 0 ? 0 : count - 1) : (find.current + step + count) % count;
+        if (dispatch) {
+          const { from, to } = find.matches[current];
+          tr.setMeta(findReplaceKey, { current })
+            .setSelection(TextSelection.create(tr.doc, from, to))
+            .scrollIntoView();
+        }
+        return true;
+      };
+
+    return {
+      setFindQuery:
+        (query) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(findReplaceKey, { query }).setMeta('addToHistory', false);
+          return true;
+        },
+      findNext: moveTo(1),
+      findPrevious: moveTo(-1),
+      replaceMatch:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const find = getFindState(state);
+          const found = find.matches[find.current];
+          if (!found || !find.query) return false;
+          if (dispatch) {
+            replaceInTransaction(tr, found, find.query.regex ? expandReplacement(replacement, found.match) : replacement);
+            // The next match is the first one after the replaced text.
+            const next = tr.mapping.map(found.to);
+            tr.setMeta(findReplaceKey, { after: next }).setSelection(TextSelection.create(tr.doc, next));
+          }
+          return true;
+        },
+      replaceAllMatches:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const find = getFindState(state);
+          if (!find.matches.length || !find.query) return false;
+          if (dispatch) {
+            for (const found of find.matches) {
+              replaceInTransaction(tr, found, find.query.regex ? expandReplacement(replacement, found.match) : replacement);
+            }
+          }
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<FindState>({
+        key: findReplaceKey,
+        state: {
+          init: () => EMPTY,
+          apply: (tr, value, _, newState) => {
+            const meta = tr.getMeta(findReplaceKey) as
+              | { query?: FindQuery | null; current?: number; after?: number }
+              | undefined;
+            const query = meta?.query !== undefined ? meta.query : value.query;
+            if (!query || !query.search) return query ? { ...EMPTY, query } : EMPTY;
+
+            if (meta?.current !== undefined) return { ...value, current: meta.current };
+            if (!tr.docChanged && meta?.query === undefined && meta?.after === undefined) return value;
+
+            let pattern: RegExp;
+            try {
+              pattern = compileQuery(query);
+            } catch (e) {
+              return { ...EMPTY, query, error: e instanceof Error ? e.message : 'Invalid regular expression' };
+            }
+            const matches = findMatches(newState.doc, pattern);
+            // A new search starts at the cursor; edits keep the same match current; a replace moves to the next one.
+            const previous = value.matches[value.current];
+            const anchor =
+              meta?.after ?? (meta?.query !== undefined ? newState.selection.from : previous ? tr.mapping.map(previous.from) : -1);
+            let current = anchor < 0 ? -1 : matches.findIndex((m) => m.from >= anchor);
+            if (anchor >= 0 && current < 0 && matches.length) current = 0;
+            return { query, matches, current, error: null };
+          },
+        },
+        props: {
+          decorations(state) {
+            const find = getFindState(state);
+            if (!find.matches.length) return null;
+            return DecorationSet.create(
+              state.doc,
+              find.matches.map((m, i) => Decoration.inline(m.from, m.to, { class: i === find.current ? 'find-match find-match-current' : 'find-match' }))
+            );
+          },
+        },
+      }),
+    ];
+  },
+});
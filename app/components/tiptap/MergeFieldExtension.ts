@@ -0,0 +1,253 @@
+import { Node, combineTransactionSteps, getChangedRanges, mergeAttributes } from '@tiptap/core';
+import type { Node as PmNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { ySyncPluginKey } from '@tiptap/y-tiptap';
+
+import { TRACK_CHANGES_SKIP } from './TrackChangesExtension';
+
+/**
+ * Merge fields ("placeholders") of a template, as chips in the text.
+ *
+ * `{{field}}` tokens in the document become `mergeField` nodes, saved as
+ * `<span class="merge-field" data-merge-field="field" data-field-value="…">`
+ * with the value (or the `{{field}}` token while empty) as their text, so the
+ * saved HTML and plain text read correctly without the editor. Given the
+ * template schema (`setMergeFieldSchema`), chips are styled by field type and
+ * `[field]` tokens (how generation renders unfilled fields) are picked up too.
+ */
+
+/** The schema fields a chip needs (matches `TemplateSchemaField`). */
+export interface MergeFieldDef {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'date' | 'select';
+  required: boolean;
+  options?: string[];
+}
+
+export interface MergeFieldUse {
+  key: string;
+  /** The value of the first chip; every chip of a field is set together. */
+  value: string;
+  /** Position of every chip of the field, in document order. */
+  positions: number[];
+}
+
+interface MergeFieldStorage {
+  fields: Map<string, MergeFieldDef>;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    mergeField: {
+      /** Insert a chip for `key` at the selection. */
+      insertMergeField: (key: string) => ReturnType;
+      /** Set the value of every chip of `key` (an empty value shows the token again). */
+      setMergeFieldValue: (key: string, value: string) => ReturnType;
+      /** Template schema the chips are checked and styled against. */
+      setMergeFieldSchema: (fields: MergeFieldDef[]) => ReturnType;
+    };
+  }
+
+  interface Storage {
+    mergeField: MergeFieldStorage;
+  }
+}
+
+const mergeFieldKey = new PluginKey('mergeField');
+
+const BRACES_TOKEN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+const BRACKET_TOKEN = /\[([a-zA-Z0-9_]+)\]/g;
+
+export const mergeFieldToken = (key: string) => `{{${key}}}`;
+
+/** Every merge field used in `doc`, keyed by field, in order of first use. */
+export function findMergeFields(doc: PmNode): Map<string, MergeFieldUse> {
+  const uses = new Map<string, MergeFieldUse>();
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'mergeField') return;
+    const key = String(node.attrs.key || '');
+    const existing = uses.get(key);
+    if (existing) existing.positions.push(pos);
+    else uses.set(key, { key, value: String(node.attrs.value || ''), positions: [pos] });
+  });
+  return uses;
+}
+
+/**
+ * Fields that still need a value before the contract goes out: required schema
+ * fields, and fields the schema does not know (their token would be sent as is).
+ */
+export function unfilledMergeFields(doc: PmNode, fields: Map<string, MergeFieldDef>): MergeFieldUse[] {
+  return [...findMergeFields(doc).values()].filter((use) => {
+    if (use.value.trim()) return false;
+    const def = fields.get(use.key);
+    return !def || def.required;
+  });
+}
+
+/**
+ * Replace field tokens inside the textblocks touching `ranges` with chips.
+ * `[field]` only counts for fields in `known`. Returns whether anything changed.
+ */
+function convertTokens(tr: Transaction, ranges: Array<{ from: number; to: number }>, known: Map<string, MergeFieldDef>) {
+  const type = tr.doc.type.schema.nodes.mergeField;
+  const matches: Array<{ from: number; to: number; key: string; node: PmNode }> = [];
+  const seen = new Set<number>();
+
+  for (const range of ranges) {
+    tr.doc.nodesBetween(range.from, range.to, (block, blockPos) => {
+      if (!block.isTextblock) return;
+      if (seen.has(blockPos)) return false;
+      seen.add(blockPos);
+      block.forEach((child, offset) => {
+        if (!child.isText || child.marks.some((m) => m.type.name === 'deletion')) return;
+        const text = child.text || '';
+        const start = blockPos + 1 + offset;
+        for (const m of text.matchAll(BRACES_TOKEN)) {
+          matches.push({ from: start + m.index, to: start + m.index + m[0].length, key: m[1], node: child });
+        }
+        for (const m of text.matchAll(BRACKET_TOKEN)) {
+          if (!known.has(m[1])) continue;
+          matches.push({ from: start + m.index, to: start + m.index + m[0].length, key: m[1], node: child });
+        }
+      });
+      return false;
+    });
+  }
+
+  // Back to front so earlier positions stay valid.
+  matches.sort((a, b) => b.from - a.from);
+  for (const m of matches) tr.replaceWith(m.from, m.to, type.create({ key: m.key }, null, m.node.marks));
+  return matches.length > 0;
+}
+
+export const MergeFieldExtension = Node.create({
+  name: 'mergeField',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      key: {
+        default: '',
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-merge-field') || '',
+        renderHTML: (attrs: Record<string, unknown>) => ({ 'data-merge-field': attrs.key }),
+      },
+      value: {
+        default: '',
+        parseHTML: (el: HTMLElement) => el.getAttribute('data-field-value') || '',
+        renderHTML: (attrs: Record<string, unknown>) => (attrs.value ? { 'data-field-value': attrs.value } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-merge-field]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ class: 'merge-field' }, HTMLAttributes),
+      String(node.attrs.value || '') || mergeFieldToken(String(node.attrs.key)),
+    ];
+  },
+
+  renderText({ node }) {
+    return String(node.attrs.value || '') || mergeFieldToken(String(node.attrs.key));
+  },
+
+  addStorage() {
+    return {
+      fields: new Map(),
+    } as MergeFieldStorage;
+  },
+
+  addCommands() {
+    return {
+      insertMergeField:
+        (key) =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name, attrs: { key } }),
+      setMergeFieldValue:
+        (key, value) =>
+        ({ tr, dispatch }) => {
+          const use = findMergeFields(tr.doc).get(key);
+          if (!use) return false;
+          if (dispatch) {
+            for (const pos of use.positions) tr.setNodeAttribute(pos, 'value', value);
+          }
+          return true;
+        },
+      setMergeFieldSchema:
+        (fields) =>
+        ({ tr, dispatch }) => {
+          this.storage.fields = new Map(fields.map((f) => [f.key, f]));
+          if (dispatch) {
+            // `[field]` tokens of the newly known fields; skipped when co-editing so two
+            // people opening the contract do not both convert (and duplicate) them.
+            if (!this.editor.extensionManager.extensions.some((e) => e.name === 'collaboration')) {
+              convertTokens(tr, [{ from: 0, to: tr.doc.content.size }], this.storage.fields);
+            }
+            // Restyles the chips; not an edit of the user's.
+            tr.setMeta(mergeFieldKey, true)
+              .setMeta('addToHistory', false)
+              .setMeta('preventUpdate', true)
+              .setMeta(TRACK_CHANGES_SKIP, true);
+          }
+          return true;
+        },
+    };
+  },
+
+  onCreate() {
+    if (this.editor.extensionManager.extensions.some((e) => e.name === 'collaboration')) return;
+    const { tr } = this.editor.state;
+    if (!convertTokens(tr, [{ from: 0, to: tr.doc.content.size }], this.storage.fields)) return;
+    this.editor.view.dispatch(
+      tr.setMeta('addToHistory', false).setMeta('preventUpdate', true).setMeta(TRACK_CHANGES_SKIP, true)
+    );
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+    return [
+      new Plugin({
+        key: mergeFieldKey,
+        // Tokens typed, pasted or loaded into the editor; only the changed text is scanned.
+        appendTransaction(transactions, oldState, newState) {
+          const local = transactions.filter((t) => t.docChanged && !t.getMeta(ySyncPluginKey) && !t.getMeta(mergeFieldKey));
+          if (!local.length) return null;
+          const transform = combineTransactionSteps(oldState.doc, local);
+          const ranges = getChangedRanges(transform).map(({ newRange }) => newRange);
+          const tr = newState.tr;
+          return convertTokens(tr, ranges, storage.fields) ? tr.setMeta(mergeFieldKey, true).setMeta(TRACK_CHANGES_SKIP, true) : null;
+        },
+        props: {
+          decorations(state) {
+            const decorations: Decoration[] = [];
+            state.doc.descendants((node, pos) => {
+              if (node.type.name !== 'mergeField') return;
+              const def = storage.fields.get(String(node.attrs.key));
+              const empty = !String(node.attrs.value || '').trim();
+              const classes = [
+                `merge-field-${def?.type || 'unknown'}`,
+                empty ? 'merge-field-empty' : '',
+                empty && (!def || def.required) ? 'merge-field-missing' : '',
+              ].filter(Boolean);
+              const title = def
+                ? `${def.label} (${def.type}${def.required ? ', required' : ''})`
+                : `${node.attrs.key} (not in the template schema)`;
+              decorations.push(Decoration.node(pos, pos + node.nodeSize, { class: classes.join(' '), title }));
+            });
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
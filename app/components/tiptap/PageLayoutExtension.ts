@@ -0,0 +1,549 @@
+import { Extension, Node, canInsertNode, isNodeSelection, mergeAttributes } from '@tiptap/core';
+import type { Node as PmNode } from '@tiptap/pm/model';
+import { NodeSelection, Plugin, PluginKey, TextSelection } from '@tiptap/pm/state';
+import { Decoration, DecorationSet, type EditorView } from '@tiptap/pm/view';
+
+import {
+  FOOTER_BASELINE,
+  HEADER_BASELINE,
+  PAGE_MARGINS,
+  PAGE_SIZES,
+  PX_PER_PT,
+  type PageSetup,
+} from '@/app/lib/page-setup';
+
+/**
+ * Page layout: manual page breaks, keep-with-next and the page view.
+ *
+ * A page break is saved as `<div data-page-break>`; headings, and paragraphs
+ * marked `data-keep-with-next`, stay on the page of the block after them.
+ * The PDF (`html-pdf.ts`) and Word exports honour both.
+ *
+ * The page view (`setPageView`) shows the document on pages of the PDF's size
+ * and margins, in the PDF's type, with its running header, footer and page
+ * numbers. The document is measured without page gaps (in a hidden copy of
+ * the editor DOM) and split the way the PDF renderer splits it: paragraphs
+ * between lines, a manual break or a kept block moving what follows to the
+ * next page. A gap widget then fills out each page and draws its footer and
+ * the next page's header. A block that cannot be split (a table, an image)
+ * and is taller than a page runs on past the end of its page.
+ */
+
+export interface PageViewOptions extends PageSetup {
+  /** Running header; the PDF uses the contract title. */
+  title: string;
+}
+
+interface PageGap {
+  /** Where the next page starts: before a block, or inside a paragraph between two of its lines. */
+  pos: number;
+  inline: boolean;
+  /** Top of the next page's content in the document laid out without gaps (px). */
+  top: number;
+  height: number;
+  /** Space the gap moves content by beyond its own height (block margins that no longer collapse). */
+  extra: number;
+}
+
+interface PageViewState {
+  options: PageViewOptions | null;
+  gaps: PageGap[];
+  /** Space after the content that fills out the last page. */
+  end: number;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    pageBreak: {
+      /** Start a new page at the selection. */
+      setPageBreak: () => ReturnType;
+    };
+    pageLayout: {
+      /** Keep the selected headings and paragraphs on the page of the block after them, or stop keeping them. */
+      toggleKeepWithNext: () => ReturnType;
+      /** Show the document as pages (null: one continuous canvas). */
+      setPageView: (options: PageViewOptions | null) => ReturnType;
+    };
+  }
+}
+
+const pageLayoutKey = new PluginKey<PageViewState>('pageLayout');
+
+const KEEP_TYPES = ['paragraph', 'heading'];
+
+// Space between two pages, in px.
+const PAGE_GAP = 24;
+
+const keepsWithNext = (node: PmNode) => node.type.name === 'heading' || !!node.attrs.keepWithNext;
+
+function pageGeometry(options: PageViewOptions) {
+  const size = PAGE_SIZES[options.size] || PAGE_SIZES.letter;
+  return {
+    width: size.width * PX_PER_PT,
+    height: size.height * PX_PER_PT,
+    x: PAGE_MARGINS.x * PX_PER_PT,
+    top: PAGE_MARGINS.top * PX_PER_PT,
+    bottom: PAGE_MARGINS.bottom * PX_PER_PT,
+  };
+}
+
+export const PageBreak = Node.create({
+  name: 'pageBreak',
+  group: 'block',
+  atom: true,
+  selectable: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-page-break]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-page-break': '', class: 'page-break' })];
+  },
+
+  addCommands() {
+    return {
+      setPageBreak:
+        () =>
+        ({ chain, state }) => {
+          if (!canInsertNode(state, this.type)) return false;
+          const { selection } = state;
+          const insert = isNodeSelection(selection)
+            ? chain().insertContentAt(selection.$to.pos, { type: this.name })
+            : chain().insertContent({ type: this.name });
+          return insert
+            .command(({ tr, dispatch }) => {
+              if (!dispatch) return true;
+              // Typing carries on after the break; at the end of the document that needs a new paragraph.
+              const { $to } = tr.selection;
+              if ($to.nodeAfter?.isTextblock) tr.setSelection(TextSelection.create(tr.doc, $to.pos + 1));
+              else if ($to.nodeAfter?.isBlock) tr.setSelection(NodeSelection.create(tr.doc, $to.pos));
+              else if (!$to.nodeAfter) {
+                const paragraph = state.schema.nodes.paragraph.create();
+                tr.insert($to.end(), paragraph);
+                tr.setSelection(TextSelection.create(tr.doc, $to.end() + 1));
+              }
+              tr.scrollIntoView();
+              return true;
+            })
+            .run();
+        },
+    };
+  },
+});
+
+// ==================== MEASURING ====================
+
+/** A block the pages are made of, and where a page break before it goes (before the containers it starts). */
+interface LayoutUnit {
+  pos: number;
+  node: PmNode;
+  before: number;
+}
+
+/** Textblocks, tables and leaf blocks, in document order; lists, quotes and clause blocks are looked into. */
+function layoutUnits(doc: PmNode): LayoutUnit[] {
+  const units: LayoutUnit[] = [];
+  const visit = (parent: PmNode, start: number, parentBefore: number | null) => {
+    parent.forEach((node, offset, index) => {
+      const pos = start + offset;
+      const before = index === 0 && parentBefore !== null ? parentBefore : pos;
+      if (node.isTextblock || node.isLeaf || node.type.spec.tableRole === 'table') units.push({ pos, node, before });
+      else visit(node, pos + 1, before);
+    });
+  };
+  visit(doc, 0, null);
+  return units;
+}
+
+/** Where rendered text or a block is, to check a gap against: a character, or an element's top. */
+type Probe = { text: Text; offset: number } | { element: HTMLElement };
+
+function probeTop(probe: Probe): number | null {
+  if ('element' in probe) return probe.element.isConnected ? probe.element.getBoundingClientRect().top : null;
+  if (!probe.text.isConnected || probe.offset >= probe.text.length) return null;
+  const range = document.createRange();
+  range.setStart(probe.text, probe.offset);
+  range.setEnd(probe.text, probe.offset + 1);
+  return range.getBoundingClientRect().top;
+}
+
+/** The first character of the line of `el` that reaches below `limit` (viewport px), with its top. */
+function lineCrossing(el: HTMLElement, limit: number): { text: Text; offset: number; top: number } | null {
+  const range = document.createRange();
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  let line: { text: Text; offset: number; top: number } | null = null;
+  let lineBottom = -Infinity;
+  for (let text = walker.nextNode() as Text | null; text; text = walker.nextNode() as Text | null) {
+    for (let i = 0; i < text.length; i++) {
+      range.setStart(text, i);
+      range.setEnd(text, i + 1);
+      const rect = range.getBoundingClientRect();
+      if (!rect.height) continue;
+      if (!line || rect.top >= lineBottom - 1) {
+        line = { text, offset: i, top: rect.top };
+        lineBottom = rect.bottom;
+      } else {
+        lineBottom = Math.max(lineBottom, rect.bottom);
+      }
+      if (rect.bottom > limit) return line;
+    }
+  }
+  return null;
+}
+
+/**
+ * Page gaps for the editor's current content. Breaks are found in a copy of
+ * the editor without gaps; the gap heights are then checked against where the
+ * content after each existing gap actually is.
+ */
+function measurePages(view: EditorView, state: PageViewState): Pick<PageViewState, 'gaps' | 'end'> | null {
+  const options = state.options;
+  const dom = view.dom as HTMLElement;
+  const host = dom.parentElement;
+  if (!options || !host || !dom.offsetWidth) return null;
+  const page = pageGeometry(options);
+  const body = page.height - page.top - page.bottom;
+  // The page view may be scaled down to fit; measurements are in unscaled px.
+  const scale = dom.getBoundingClientRect().width / dom.offsetWidth || 1;
+
+  const copy = dom.cloneNode(true) as HTMLElement;
+  const copies = new Map<globalThis.Node, globalThis.Node>();
+  const originals = new Map<globalThis.Node, globalThis.Node>();
+  const pair = (original: globalThis.Node, clone: globalThis.Node) => {
+    copies.set(original, clone);
+    originals.set(clone, original);
+    original.childNodes.forEach((child, i) => pair(child, clone.childNodes[i]));
+  };
+  pair(dom, copy);
+  // Images keep the size they loaded at.
+  dom.querySelectorAll('img').forEach((img) => {
+    const clone = copies.get(img) as HTMLElement | undefined;
+    if (clone) clone.style.height = `${img.offsetHeight}px`;
+  });
+  copy.querySelectorAll('.page-view-gap, .page-view-end').forEach((el) => el.remove());
+  copy.removeAttribute('contenteditable');
+  copy.setAttribute('aria-hidden', 'true');
+  Object.assign(copy.style, {
+    position: 'absolute',
+    top: '0',
+    left: '0',
+    width: `${dom.offsetWidth}px`,
+    visibility: 'hidden',
+    pointerEvents: 'none',
+  });
+  host.appendChild(copy);
+
+  try {
+    const copyRect = copy.getBoundingClientRect();
+    const origin = copyRect.top + page.top * scale;
+    const natural = (y: number) => (y - origin) / scale;
+    const copyOf = (pos: number) => {
+      const el = view.nodeDOM(pos);
+      const clone = el ? copies.get(el) : null;
+      return clone instanceof HTMLElement ? { el: el as HTMLElement, clone } : null;
+    };
+
+    const found: Array<Omit<PageGap, 'height' | 'extra'> & { probe: Probe }> = [];
+    let pageTop = 0;
+    let placed = false;
+    let forced = false;
+    const breakAt = (gap: (typeof found)[number]) => {
+      found.push(gap);
+      pageTop = gap.top;
+      placed = false;
+    };
+
+    const units = layoutUnits(view.state.doc);
+    units.forEach((unit, i) => {
+      if (unit.node.type.name === 'pageBreak') {
+        // A break on a page that is still empty adds no blank page.
+        forced = forced || placed;
+        return;
+      }
+      const own = copyOf(unit.pos);
+      const start = copyOf(unit.before);
+      if (!own || !start) return;
+      const top = natural(start.clone.getBoundingClientRect().top);
+      const bottom = natural(own.clone.getBoundingClientRect().bottom);
+
+      if (forced) {
+        forced = false;
+        breakAt({ pos: unit.before, inline: false, top, probe: { element: start.el } });
+      } else if (placed) {
+        // Kept blocks bring the first line of the block after them, unless together they are taller than a page.
+        let needed = bottom;
+        for (let j = i; keepsWithNext(units[j].node) && units[j + 1]?.node.type.name !== 'pageBreak'; j++) {
+          const next = units[j + 1] && copyOf(units[j + 1].pos);
+          if (!next) break;
+          const rect = next.clone.getBoundingClientRect();
+          const firstLine = units[j + 1].node.isTextblock ? parseFloat(getComputedStyle(next.clone).lineHeight) * scale : Infinity;
+          const nextBottom = natural(Math.min(rect.bottom, rect.top + (firstLine || Infinity)));
+          if (nextBottom - top > body) break;
+          needed = nextBottom;
+        }
+        // A paragraph that runs past the page on its own is split between lines below.
+        if (needed - pageTop > body && (needed > bottom || !unit.node.isTextblock)) {
+          breakAt({ pos: unit.before, inline: false, top, probe: { element: start.el } });
+        }
+      }
+
+      if (unit.node.isTextblock) {
+        while (bottom - pageTop > body) {
+          const line = lineCrossing(own.clone, origin + (pageTop + body) * scale);
+          if (!line) break;
+          const lineTop = natural(line.top);
+          const text = originals.get(line.text) as Text | undefined;
+          const pos = text ? view.posAtDOM(text, line.offset) : -1;
+          if (lineTop <= top + 0.5 || pos <= unit.pos + 1 || pos >= unit.pos + unit.node.nodeSize - 1) {
+            // Not even the first line fits: the paragraph starts the next page.
+            if (!placed) break;
+            breakAt({ pos: unit.before, inline: false, top, probe: { element: start.el } });
+            continue;
+          }
+          breakAt({ pos, inline: true, top: lineTop, probe: { text: text!, offset: line.offset } });
+          placed = true;
+        }
+      }
+      placed = true;
+    });
+
+    // Each gap fills out its page, checked against where the content after it is now (the margins around it).
+    const pitch = page.height + PAGE_GAP;
+    const band = page.bottom + PAGE_GAP + page.top;
+    const editorTop = dom.getBoundingClientRect().top;
+    const previous = new Map(state.gaps.map((gap) => [gap.pos, gap]));
+    let lastTop = 0;
+    let lastRendered: number | null = page.top;
+    const gaps = found.map(({ probe, ...gap }): PageGap => {
+      const old = previous.get(gap.pos);
+      const at = probeTop(probe);
+      const rendered = at === null ? null : (at - editorTop) / scale;
+      let extra = old?.extra ?? 0;
+      if (old && old.inline === gap.inline && rendered !== null && lastRendered !== null) {
+        extra = rendered - lastRendered - (gap.top - lastTop) - old.height;
+      }
+      const height = Math.max(band, pitch - (gap.top - lastTop) - extra);
+      lastTop = gap.top;
+      lastRendered = old && rendered !== null ? rendered : null;
+      return { ...gap, height, extra };
+    });
+    const contentEnd = natural(copyRect.bottom);
+    const end = Math.max(page.bottom, page.height - page.top - (contentEnd - lastTop));
+    return { gaps, end };
+  } finally {
+    copy.remove();
+  }
+}
+
+const sameLayout = (state: PageViewState, next: Pick<PageViewState, 'gaps' | 'end'>) =>
+  Math.abs(state.end - next.end) < 0.5 &&
+  state.gaps.length === next.gaps.length &&
+  state.gaps.every(
+    (gap, i) => gap.pos === next.gaps[i].pos && gap.inline === next.gaps[i].inline && Math.abs(gap.height - next.gaps[i].height) < 0.5
+  );
+
+// ==================== RENDERING ====================
+
+function label(className: string, text: string) {
+  const el = document.createElement('div');
+  el.className = className;
+  el.textContent = text;
+  return el;
+}
+
+/** The end of one page: its footer, the space between pages and the next page's header. */
+function gapElement(options: PageViewOptions, gap: PageGap, page: number, pages: number) {
+  const el = document.createElement('div');
+  el.className = 'page-view-gap';
+  el.contentEditable = 'false';
+  el.style.height = `${gap.height}px`;
+  const band = document.createElement('div');
+  band.className = 'page-view-band';
+  band.style.marginTop = `calc(${gap.height}px - var(--page-band))`;
+  const footer = document.createElement('div');
+  footer.className = 'page-view-footer';
+  footer.append(label('page-view-footer-text', options.footer || ''), label('page-view-page-number', `Page ${page} of ${pages}`));
+  band.append(footer, label('page-view-separator', ''), label('page-view-header', options.title));
+  el.append(band);
+  return el;
+}
+
+/** The rest of the last page and its footer. */
+function endElement(options: PageViewOptions, end: number, pages: number) {
+  const el = document.createElement('div');
+  el.className = 'page-view-end';
+  el.contentEditable = 'false';
+  el.style.height = `${end}px`;
+  const footer = document.createElement('div');
+  footer.className = 'page-view-footer';
+  footer.append(label('page-view-footer-text', options.footer || ''), label('page-view-page-number', `Page ${pages} of ${pages}`));
+  el.append(footer);
+  return el;
+}
+
+export const PageLayoutExtension = Extension.create({
+  name: 'pageLayout',
+  // Ahead of the hard break's Mod-Enter.
+  priority: 101,
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: KEEP_TYPES,
+        attributes: {
+          keepWithNext: {
+            default: false,
+            parseHTML: (element) => element.hasAttribute('data-keep-with-next'),
+            renderHTML: (attributes) => (attributes.keepWithNext ? { 'data-keep-with-next': '' } : {}),
+          },
+        },
+      },
+    ];
+  },
+
+  addCommands() {
+    return {
+      toggleKeepWithNext:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const blocks: number[] = [];
+          let keep: boolean | null = null;
+          state.doc.nodesBetween(state.selection.from, state.selection.to, (node, pos) => {
+            if (KEEP_TYPES.includes(node.type.name)) {
+              blocks.push(pos);
+              if (keep === null) keep = !node.attrs.keepWithNext;
+            }
+            return !node.isTextblock;
+          });
+          if (!blocks.length) return false;
+          if (dispatch) blocks.forEach((pos) => tr.setNodeAttribute(pos, 'keepWithNext', keep));
+          return true;
+        },
+      setPageView:
+        (options) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(pageLayoutKey, { options }).setMeta('addToHistory', false);
+          return true;
+        },
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-Enter': () => this.editor.commands.setPageBreak(),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<PageViewState>({
+        key: pageLayoutKey,
+        state: {
+          init: () => ({ options: null, gaps: [], end: 0 }),
+          apply: (tr, value) => {
+            const meta = tr.getMeta(pageLayoutKey) as Partial<PageViewState> | undefined;
+            let next = value;
+            if (tr.docChanged && value.gaps.length) {
+              next = { ...next, gaps: value.gaps.map((gap) => ({ ...gap, pos: tr.mapping.map(gap.pos) })) };
+            }
+            if (meta?.options !== undefined) {
+              // Another page size (or none) is laid out afresh; a new title or footer keeps the pages.
+              const relayout = !meta.options || meta.options.size !== value.options?.size;
+              next = { ...next, options: meta.options, ...(relayout ? { gaps: [], end: 0 } : {}) };
+            }
+            if (meta?.gaps) next = { ...next, gaps: meta.gaps, end: meta.end ?? next.end };
+            return next;
+          },
+        },
+        view: (view) => {
+          let timer = 0;
+          let passes = 0;
+          const run = () => {
+            timer = 0;
+            const state = pageLayoutKey.getState(view.state);
+            if (!state?.options || view.isDestroyed) return;
+            const result = measurePages(view, state);
+            if (!result || sameLayout(state, result)) {
+              passes = 0;
+              return;
+            }
+            // Gaps settle in a pass or two; more means the layout is flip-flopping.
+            if (++passes > 4) return;
+            view.dispatch(view.state.tr.setMeta(pageLayoutKey, result).setMeta('addToHistory', false));
+          };
+          const schedule = (delay = 0) => {
+            window.clearTimeout(timer);
+            timer = window.setTimeout(() => requestAnimationFrame(run), delay);
+          };
+          // Resizing, images loading and fonts arriving all show up as a change of size.
+          const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(() => schedule());
+          observer?.observe(view.dom);
+          return {
+            update: (view, prevState) => {
+              const state = pageLayoutKey.getState(view.state);
+              const before = pageLayoutKey.getState(prevState);
+              if (!state?.options) return;
+              if (view.state.doc !== prevState.doc) {
+                passes = 0;
+                // Typing is measured once it pauses.
+                schedule(150);
+              } else if (state.options !== before?.options || state.gaps !== before.gaps) {
+                schedule();
+              }
+            },
+            destroy: () => {
+              window.clearTimeout(timer);
+              observer?.disconnect();
+            },
+          };
+        },
+        props: {
+          attributes: (state): Record<string, string> => {
+            const options = pageLayoutKey.getState(state)?.options;
+            if (!options) return {};
+            const page = pageGeometry(options);
+            return {
+              class: 'page-view',
+              'data-page-header': options.title,
+              style: [
+                `--page-width: ${page.width}px`,
+                `--page-margin-x: ${page.x}px`,
+                `--page-margin-top: ${page.top}px`,
+                `--page-margin-bottom: ${page.bottom}px`,
+                `--page-gap: ${PAGE_GAP}px`,
+                `--page-band: ${page.bottom + PAGE_GAP + page.top}px`,
+                `--page-header-baseline: ${HEADER_BASELINE * PX_PER_PT}px`,
+                `--page-footer-baseline: ${FOOTER_BASELINE * PX_PER_PT}px`,
+              ].join('; '),
+            };
+          },
+          decorations(state) {
+            const layout = pageLayoutKey.getState(state);
+            const options = layout?.options;
+            if (!layout || !options) return null;
+            const pages = layout.gaps.length + 1;
+            const labels = `${options.title}\n${options.footer || ''}`;
+            const decorations = layout.gaps.map((gap, i) =>
+              Decoration.widget(gap.pos, () => gapElement(options, gap, i + 1, pages), {
+                side: -1,
+                key: `page-gap:${i}:${pages}:${gap.inline}:${Math.round(gap.height * 10)}:${labels}`,
+                ignoreSelection: true,
+              })
+            );
+            decorations.push(
+              Decoration.widget(state.doc.content.size, () => endElement(options, layout.end, pages), {
+                side: 1,
+                key: `page-end:${pages}:${Math.round(layout.end * 10)}:${labels}`,
+                ignoreSelection: true,
+              })
+            );
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export const PageLayoutExtensions = [PageBreak, PageLayoutExtension];
@@ -0,0 +1,75 @@
+import { getTextSerializersFromSchema, type TextSerializer } from '@tiptap/core';
+import { Table, TableCell, TableHeader, TableRow } from '@tiptap/extension-table';
+import type { Node as PmNode } from '@tiptap/pm/model';
+import { TableMap } from '@tiptap/pm/tables';
+
+import { formatTextTable } from '@/app/lib/table-text';
+
+/**
+ * Tables for pricing schedules, SLAs and milestones.
+ *
+ * TipTap's table nodes (merged cells, header rows/columns, resizable columns
+ * saved as `colwidth`), plus a plain-text form: `editor.getText()` and
+ * `rendered_text` lay a table out as padded ` | ` columns instead of one cell
+ * per line. Text suggested for deletion is left out, like `acceptedText`.
+ */
+
+function cellText(cell: PmNode, serializers: Record<string, TextSerializer>): string {
+  const parts: string[] = [];
+  cell.descendants((node) => {
+    if (!node.isTextblock) return;
+    let text = '';
+    node.forEach((child, offset, index) => {
+      if (child.marks.some((m) => m.type.name === 'deletion')) return;
+      if (child.isText) text += child.text;
+      else if (child.type.name === 'hardBreak') text += ' ';
+      else if (serializers[child.type.name]) {
+        text += serializers[child.type.name]({ node: child, pos: offset, parent: node, index, range: { from: 0, to: 0 } });
+      }
+    });
+    parts.push(text);
+    return false;
+  });
+  return parts.join(' ');
+}
+
+/** A table node as aligned plain text; merged cells show their text once. */
+export function tableText(table: PmNode): string {
+  const serializers = getTextSerializersFromSchema(table.type.schema);
+  const map = TableMap.get(table);
+  const rows: string[][] = [];
+  for (let r = 0; r < map.height; r++) {
+    const row: string[] = [];
+    for (let c = 0; c < map.width; c++) {
+      const offset = map.map[r * map.width + c];
+      const rect = map.findCell(offset);
+      // Only the top-left slot of a merged cell carries its text.
+      row.push(rect.left === c && rect.top === r ? cellText(table.nodeAt(offset)!, serializers) : '');
+    }
+    rows.push(row);
+  }
+
+  // Leading rows made only of header cells are the table's header.
+  let headerRows = 0;
+  while (headerRows < table.childCount) {
+    const row = table.child(headerRows);
+    let allHeaders = true;
+    row.forEach((cell) => {
+      if (cell.type.name !== 'tableHeader') allHeaders = false;
+    });
+    if (!allHeaders) break;
+    headerRows++;
+  }
+  return formatTextTable(rows, headerRows);
+}
+
+export const ContractTable = Table.extend({
+  renderText({ node }) {
+    return tableText(node);
+  },
+}).configure({
+  resizable: true,
+  HTMLAttributes: { class: 'contract-table' },
+});
+
+export const TableExtensions = [ContractTable, TableRow, TableHeader, TableCell];
@@ -0,0 +1,426 @@
+import { Extension, Mark, getTextSerializersFromSchema, mergeAttributes, type Editor } from '@tiptap/core';
+import type { MarkType, Node as PmNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection, type Transaction } from '@tiptap/pm/state';
+import { Mapping, ReplaceStep, type StepMap } from '@tiptap/pm/transform';
+import { ySyncPluginKey } from '@tiptap/y-tiptap';
+
+/**
+ * Word-style tracked changes ("suggestion mode").
+ *
+ * While tracking is on, typed or pasted text gets an `insertion` mark and
+ * deleted text stays in the document with a `deletion` mark instead of being
+ * removed. Both carry a change id, the author and an ISO timestamp, and render
+ * as `<ins>` / `<del>` with `data-*` attributes, so they survive the round trip
+ * through `rendered_html`. Accepting or rejecting a change resolves its marks.
+ *
+ * Only text is tracked: formatting, paragraph splits/joins and block nodes
+ * (images) change directly.
+ */
+
+export type ChangeKind = 'insertion' | 'deletion';
+
+export interface ChangeAuthor {
+  id: string;
+  name: string;
+}
+
+export interface TrackedChange {
+  id: string;
+  kind: ChangeKind;
+  authorId: string | null;
+  authorName: string | null;
+  /** ISO timestamp of the edit. */
+  date: string | null;
+  text: string;
+  /** Document range of the first segment (for scrolling to it). */
+  from: number;
+  to: number;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    trackChanges: {
+      setTrackChanges: (enabled: boolean) => ReturnType;
+      toggleTrackChanges: () => ReturnType;
+      setTrackChangesAuthor: (author: ChangeAuthor | null) => ReturnType;
+      /** Keep an insertion / apply a deletion. */
+      acceptChange: (id: string) => ReturnType;
+      /** Drop an insertion / restore deleted text. */
+      rejectChange: (id: string) => ReturnType;
+      acceptAllChanges: () => ReturnType;
+      rejectAllChanges: () => ReturnType;
+    };
+  }
+
+  interface Storage {
+    trackChanges: TrackChangesStorage;
+  }
+}
+
+interface TrackChangesStorage {
+  enabled: boolean;
+  author: ChangeAuthor | null;
+}
+
+/** Transactions carrying this meta are applied as-is (accept/reject, remote content). */
+export const TRACK_CHANGES_SKIP = 'trackChangesSkip';
+
+const trackChangesKey = new PluginKey('trackChanges');
+
+const newChangeId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const changeAttributes = () => ({
+  id: {
+    default: null,
+    parseHTML: (el: HTMLElement) => el.getAttribute('data-change-id'),
+    renderHTML: (attrs: Record<string, unknown>) => (attrs.id ? { 'data-change-id': attrs.id } : {}),
+  },
+  authorId: {
+    default: null,
+    parseHTML: (el: HTMLElement) => el.getAttribute('data-author-id'),
+    renderHTML: (attrs: Record<string, unknown>) => (attrs.authorId ? { 'data-author-id': attrs.authorId } : {}),
+  },
+  authorName: {
+    default: null,
+    parseHTML: (el: HTMLElement) => el.getAttribute('data-author'),
+    renderHTML: (attrs: Record<string, unknown>) => (attrs.authorName ? { 'data-author': attrs.authorName } : {}),
+  },
+  date: {
+    default: null,
+    parseHTML: (el: HTMLElement) => el.getAttribute('data-date'),
+    renderHTML: (attrs: Record<string, unknown>) => (attrs.date ? { 'data-date': attrs.date } : {}),
+  },
+});
+
+const changeTitle = (attrs: Record<string, unknown>, verb: string) => {
+  const who = attrs.authorName ? String(attrs.authorName) : 'Someone';
+  const when = attrs.date ? new Date(String(attrs.date)).toLocaleString() : '';
+  return `${verb} by ${who}${when ? ` · ${when}` : ''}`;
+};
+
+export const InsertionMark = Mark.create({
+  name: 'insertion',
+  inclusive: false,
+  addAttributes: changeAttributes,
+  parseHTML() {
+    return [{ tag: 'ins[data-change-id]' }];
+  },
+  renderHTML({ HTMLAttributes, mark }) {
+    return ['ins', mergeAttributes({ class: 'tc-insertion', title: changeTitle(mark.attrs, 'Inserted') }, HTMLAttributes), 0];
+  },
+});
+
+export const DeletionMark = Mark.create({
+  name: 'deletion',
+  inclusive: false,
+  addAttributes: changeAttributes,
+  parseHTML() {
+    // Ahead of the strike mark, which also parses `<del>`.
+    return [{ tag: 'del[data-change-id]', priority: 60 }];
+  },
+  renderHTML({ HTMLAttributes, mark }) {
+    return ['del', mergeAttributes({ class: 'tc-deletion', title: changeTitle(mark.attrs, 'Deleted') }, HTMLAttributes), 0];
+  },
+});
+
+// ==================== HELPERS ====================
+
+type Range = { from: number; to: number };
+
+/** Inline ranges in [from, to] carrying `type` (optionally only change `id`), in document order. */
+function markedRanges(doc: PmNode, type: MarkType, from: number, to: number, id?: string): Range[] {
+  const ranges: Range[] = [];
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isInline) return;
+    const mark = type.isInSet(node.marks);
+    if (!mark || (id !== undefined && mark.attrs.id !== id)) return;
+    const start = Math.max(pos, from);
+    const end = Math.min(pos + node.nodeSize, to);
+    const last = ranges[ranges.length - 1];
+    if (last && last.to === start) last.to = end;
+    else ranges.push({ from: start, to: end });
+  });
+  return ranges;
+}
+
+/** Attributes of a same-author change mark right next to [from, to], to extend that change instead of starting a new one. */
+function adjacentChange(doc: PmNode, type: MarkType, from: number, to: number, authorId: string | null) {
+  for (const node of [doc.resolve(from).nodeBefore, doc.resolve(to).nodeAfter]) {
+    const mark = node && type.isInSet(node.marks);
+    if (mark && mark.attrs.authorId === authorId) return mark.attrs;
+  }
+  return null;
+}
+
+const hasInlineContent = (doc: PmNode, from: number, to: number) => {
+  let found = false;
+  doc.nodesBetween(from, to, (node) => {
+    if (found) return false;
+    if (node.isInline) found = true;
+  });
+  return found;
+};
+
+/** Every change in the document, one entry per change id. */
+export function collectChanges(doc: PmNode): TrackedChange[] {
+  const byId = new Map<string, TrackedChange>();
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+    for (const mark of node.marks) {
+      const kind = mark.type.name as ChangeKind;
+      if (kind !== 'insertion' && kind !== 'deletion') continue;
+      const id = String(mark.attrs.id || '');
+      if (!id) continue;
+      const key = `${kind}:${id}`;
+      const text = node.isText ? node.text || '' : ' ';
+      const existing = byId.get(key);
+      if (existing) {
+        existing.text += text;
+        continue;
+      }
+      byId.set(key, {
+        id,
+        kind,
+        authorId: mark.attrs.authorId ?? null,
+        authorName: mark.attrs.authorName ?? null,
+        date: mark.attrs.date ?? null,
+        text,
+        from: pos,
+        to: pos + node.nodeSize,
+      });
+    }
+  });
+  return [...byId.values()].sort((a, b) => a.from - b.from);
+}
+
+/**
+ * Plain text of the document as if every change were accepted (deleted text
+ * left out), with blocks separated like `editor.getText()`.
+ */
+export function acceptedText(doc: PmNode): string {
+  // Nodes with their own text (`renderText`), e.g. merge fields and tables.
+  const serializers = getTextSerializersFromSchema(doc.type.schema);
+  const blocks: string[] = [];
+  doc.descendants((node, pos, parent, index) => {
+    if (!node.isTextblock && node.isBlock && serializers[node.type.name]) {
+      blocks.push(serializers[node.type.name]({ node, pos, parent: parent!, index, range: { from: 0, to: 0 } }));
+      return false;
+    }
+    if (!node.isTextblock) return;
+    let text = '';
+    node.forEach((child, offset, index) => {
+      if (child.marks.some((m) => m.type.name === 'deletion')) return;
+      if (child.isText) text += child.text;
+      else if (child.type.name === 'hardBreak') text += '\n';
+      else if (serializers[child.type.name]) {
+        text += serializers[child.type.name]({ node: child, pos: offset, parent: node, index, range: { from: 0, to: 0 } });
+      }
+    });
+    blocks.push(text);
+    return false;
+  });
+  return blocks.join('\n\n');
+}
+
+/** `editor.getText()`, leaving out text that is only suggested for deletion. */
+export function editorText(editor: Editor): string {
+  const { doc, schema } = editor.state;
+  const deletion = schema.marks.deletion;
+  return deletion && doc.rangeHasMark(0, doc.content.size, deletion) ? acceptedText(doc) : editor.getText();
+}
+
+/**
+ * Resolve changes (all, or one id): `accept` keeps insertions and removes
+ * deleted text; reject does the opposite.
+ */
+function resolveChanges(tr: Transaction, accept: boolean, id?: string) {
+  const { insertion, deletion } = tr.doc.type.schema.marks;
+  const size = tr.doc.content.size;
+  const removeText = markedRanges(tr.doc, accept ? deletion : insertion, 0, size, id);
+  const keepText = markedRanges(tr.doc, accept ? insertion : deletion, 0, size, id);
+
+  for (const range of keepText) {
+    tr.removeMark(range.from, range.to, accept ? insertion : deletion);
+  }
+  for (const range of [...removeText].reverse()) {
+    tr.delete(range.from, range.to);
+  }
+  tr.setMeta(TRACK_CHANGES_SKIP, true);
+  return removeText.length + keepText.length > 0;
+}
+
+// ==================== TRACKING ====================
+
+/** Transactions whose edits are not the user's own typing. */
+const isUntracked = (tr: Transaction) =>
+  !!tr.getMeta(TRACK_CHANGES_SKIP) ||
+  !!tr.getMeta('preventUpdate') ||
+  tr.getMeta('addToHistory') === false ||
+  // Undo / redo replay history rather than making new edits.
+  !!tr.getMeta('history$') ||
+  // Co-editing: remote edits (and collaborative undo) arrive already tracked by their author.
+  !!tr.getMeta(ySyncPluginKey);
+
+/**
+ * Turn the plain edits in `transactions` into tracked ones: mark inserted text,
+ * and put deleted text back with a deletion mark.
+ */
+function trackEdits(transactions: readonly Transaction[], author: ChangeAuthor | null, tr: Transaction, cursorBefore: { empty: boolean; from: number }) {
+  const { insertion, deletion } = tr.doc.type.schema.marks;
+  const steps: Array<{ step: ReplaceStep | null; docBefore: PmNode; tracked: boolean }> = [];
+  const maps: StepMap[] = [];
+  for (const t of transactions) {
+    const tracked = !isUntracked(t);
+    t.steps.forEach((step, i) => {
+      maps.push(step.getMap());
+      steps.push({ step: step instanceof ReplaceStep ? step : null, docBefore: t.docs[i], tracked });
+    });
+  }
+
+  const date = new Date().toISOString();
+  const authorId = author?.id ?? null;
+  const attrsFor = (type: MarkType, from: number, to: number) =>
+    adjacentChange(tr.doc, type, from, to, authorId) || { id: newChangeId(), authorId, authorName: author?.name ?? null, date };
+  let cursor: number | null = null;
+
+  steps.forEach(({ step, docBefore, tracked }, index) => {
+    if (!tracked || !step) return;
+    // Positions right after this step → the batch's final document → our tracked document.
+    const later = new Mapping(maps.slice(index + 1));
+    const toCurrent = (pos: number, assoc: number) => tr.mapping.map(later.map(pos, assoc), assoc);
+    const { from, to, slice } = step;
+
+    if (slice.size) {
+      const start = toCurrent(from, -1);
+      const end = toCurrent(from + slice.size, 1);
+      if (end > start && hasInlineContent(tr.doc, start, end)) {
+        const attrs = attrsFor(insertion, start, end);
+        tr.removeMark(start, end, deletion);
+        tr.removeMark(start, end, insertion);
+        tr.addMark(start, end, insertion.create(attrs));
+      }
+    }
+
+    if (to > from && hasInlineContent(docBefore, from, to)) {
+      const deleted = docBefore.slice(from, to);
+      const pos = toCurrent(from, -1);
+      const stepsBefore = tr.steps.length;
+      tr.replace(pos, pos, deleted);
+      let end = tr.mapping.slice(stepsBefore).map(pos, 1);
+
+      // Deleting your own suggestion just takes it back.
+      const own = markedRanges(tr.doc, insertion, pos, end).filter((range) => {
+        const node = tr.doc.nodeAt(range.from);
+        return !!node && insertion.isInSet(node.marks)?.attrs.authorId === authorId;
+      });
+      for (const range of [...own].reverse()) tr.delete(range.from, range.to);
+      end = tr.mapping.slice(stepsBefore).map(pos, 1);
+
+      if (end > pos) {
+        const attrs = attrsFor(deletion, pos, end);
+        const fresh: Range[] = [];
+        tr.doc.nodesBetween(pos, end, (node, nodePos) => {
+          if (node.isInline && !deletion.isInSet(node.marks)) {
+            fresh.push({ from: Math.max(nodePos, pos), to: Math.min(nodePos + node.nodeSize, end) });
+          }
+        });
+        for (const range of fresh) tr.addMark(range.from, range.to, deletion.create(attrs));
+      }
+
+      // Backspace: move in front of the text just struck through so the next one reaches new text.
+      if (cursorBefore.empty && cursorBefore.from === to && !slice.size) cursor = pos;
+    }
+  });
+
+  if (cursor !== null) tr.setSelection(TextSelection.create(tr.doc, cursor));
+  return tr.docChanged;
+}
+
+// ==================== EXTENSION ====================
+
+export interface TrackChangesOptions {
+  /** Start in suggestion mode. */
+  enabled: boolean;
+  author: ChangeAuthor | null;
+}
+
+export const TrackChangesExtension = Extension.create<TrackChangesOptions, TrackChangesStorage>({
+  name: 'trackChanges',
+
+  addOptions() {
+    return {
+      enabled: false,
+      author: null,
+    };
+  },
+
+  addStorage() {
+    return {
+      enabled: this.options.enabled,
+      author: this.options.author,
+    };
+  },
+
+  addExtensions() {
+    return [InsertionMark, DeletionMark];
+  },
+
+  addCommands() {
+    return {
+      setTrackChanges:
+        (enabled) =>
+        ({ tr, dispatch }) => {
+          this.storage.enabled = enabled;
+          // A no-op transaction so toolbars reading editor state re-render.
+          if (dispatch) tr.setMeta(trackChangesKey, { enabled });
+          return true;
+        },
+      toggleTrackChanges:
+        () =>
+        ({ commands }) =>
+          commands.setTrackChanges(!this.storage.enabled),
+      setTrackChangesAuthor:
+        (author) =>
+        () => {
+          this.storage.author = author;
+          return true;
+        },
+      acceptChange:
+        (id) =>
+        ({ tr }) =>
+          resolveChanges(tr, true, id),
+      rejectChange:
+        (id) =>
+        ({ tr }) =>
+          resolveChanges(tr, false, id),
+      acceptAllChanges:
+        () =>
+        ({ tr }) =>
+          resolveChanges(tr, true),
+      rejectAllChanges:
+        () =>
+        ({ tr }) =>
+          resolveChanges(tr, false),
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+    return [
+      new Plugin({
+        key: trackChangesKey,
+        appendTransaction(transactions, oldState, newState) {
+          if (!storage.enabled) return null;
+          if (!transactions.some((t) => t.docChanged && !isUntracked(t))) return null;
+          const tr = newState.tr;
+          const cursorBefore = { empty: oldState.selection.empty, from: oldState.selection.from };
+          if (!trackEdits(transactions, storage.author, tr, cursorBefore) && !tr.selectionSet) return null;
+          return tr.setMeta(TRACK_CHANGES_SKIP, true);
+        },
+      }),
+    ];
+  },
+});
@@ -366,9 +366,8 @@ export default function SigningStatusPage() {
 			]);
 			if (!sRes.success) throw new Error(sRes.error || 'Failed to load signing status');
 			setStatusData(sRes.data);
-			if (aRes.success) {
-				const logs = Array.isArray((aRes.data as any)?.logs) ? (aRes.data as any).logs : [];
-				setAuditLogs(logs);
+			if (aRes.success && aRes.data) {
+				setAuditLogs(aRes.data.logs);
 			} else {
 				setAuditError(aRes.error || 'Failed to load audit logs');
 			}
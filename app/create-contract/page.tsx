@@ -5,6 +5,8 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import type { Editor } from '@tiptap/react';
 import { useAuth } from '../lib/auth-context';
 import {
+  AiCitationsEvent,
+  AiRelevantClause,
   ApiClient,
   Clause,
   FileTemplateItem,
@@ -14,8 +16,12 @@ import {
 } from '../lib/api-client';
 import DashboardLayout from '../components/DashboardLayout';
 import RichTextEditor from '../components/RichTextEditor';
+import { AiCitationList } from '../components/AiCitationsPanel';
 import { ChevronLeft, FileText, Search, Sparkles } from 'lucide-react';
 import { sanitizeEditorHtml } from '../lib/sanitize-html';
+import type { ApiError } from '../lib/api-error';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import FieldError, { invalidInputClass } from '../components/FieldError';
 
 // Types
 type Template = FileTemplateItem;
@@ -97,6 +103,7 @@ const CreateContractInner = () => {
   const [templatesLoading, setTemplatesLoading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<ApiError | null>(null);
   const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
   const [schemaLoading, setSchemaLoading] = useState(false);
   const [schema, setSchema] = useState<TemplateFileSchemaResponse | null>(null);
@@ -125,6 +132,8 @@ const CreateContractInner = () => {
   const [aiBaseText, setAiBaseText] = useState('');
   const [aiBaseHtml, setAiBaseHtml] = useState('');
   const [aiSuggestionText, setAiSuggestionText] = useState('');
+  const [aiCitations, setAiCitations] = useState<AiCitationsEvent | null>(null);
+  const [aiContext, setAiContext] = useState<AiRelevantClause[]>([]);
   const [aiTemplateQuery, setAiTemplateQuery] = useState('');
   const [aiLoadingTemplate, setAiLoadingTemplate] = useState(false);
   const [aiGenerating, setAiGenerating] = useState(false);
@@ -133,6 +142,7 @@ const CreateContractInner = () => {
   const aiAbortRef = useRef<AbortController | null>(null);
   const aiEditorApiRef = useRef<Editor | null>(null);
   const aiAutoStartTemplateRef = useRef<string>('');
+  const formRef = useRef<HTMLFormElement | null>(null);
 
   type AiDraft = {
     template: string;
@@ -287,12 +297,13 @@ const CreateContractInner = () => {
         setSchemaLoading(true);
         const client = new ApiClient();
         const schemaRes = await client.getTemplateFileSchema(selectedTemplate);
-        if (!schemaRes.success) {
+        if (!schemaRes.success || !schemaRes.data) {
           setSchema(null);
+          setError(schemaRes.error || 'Failed to load the template fields');
           return;
         }
 
-        const s = schemaRes.data as any as TemplateFileSchemaResponse;
+        const s = schemaRes.data;
         setSchema(s);
 
         // Ensure fieldValues has keys for required schema fields.
@@ -312,22 +323,20 @@ const CreateContractInner = () => {
 
         setClausesLoading(true);
         const clausesRes = await client.getClauses({ contract_type: s.template_type });
-        if (clausesRes.success) {
-          const data: any = clausesRes.data as any;
-          const list = Array.isArray(data) ? data : Array.isArray(data?.results) ? data.results : [];
-          setClauses(list);
-        } else {
+        if (!clausesRes.success || !clausesRes.data) {
           setClauses([]);
+          setError(clausesRes.error || 'Failed to load clauses');
+        } else {
+          setClauses(clausesRes.data.results);
         }
 
         setConstraintLibraryLoading(true);
         const consRes = await client.getConstraintsLibrary({});
-        if (consRes.success) {
-          const data: any = consRes.data as any;
-          const list = Array.isArray(data?.results) ? data.results : Array.isArray(data) ? data : [];
-          setConstraintLibrary(list);
-        } else {
+        if (!consRes.success || !consRes.data) {
           setConstraintLibrary([]);
+          setError(consRes.error || 'Failed to load the constraints library');
+        } else {
+          setConstraintLibrary(consRes.data.results.map((c) => ({ key: c.name, label: c.name })));
         }
       } finally {
         setSchemaLoading(false);
@@ -470,12 +479,12 @@ const CreateContractInner = () => {
       setAiLoadingTemplate(true);
       const client = new ApiClient();
       const res = await client.getTemplateFileContent(selectedTemplate);
-      if (!res.success) {
+      if (!res.success || !res.data) {
         setAiError(res.error || 'Failed to load template');
         return;
       }
-      const content = String((res.data as any)?.content || '');
-      const name = String((res.data as any)?.name || '') || String(selectedTemplate || 'Template');
+      const content = res.data.content;
+      const name = res.data.name || String(selectedTemplate || 'Template');
       setAiTitle(name);
       setAiBaseText(content);
       setAiBaseHtml(textToHtml(content));
@@ -520,6 +529,8 @@ const CreateContractInner = () => {
       setAiGenerating(true);
       let nextText = '';
       setAiSuggestionText('');
+      setAiCitations(null);
+      setAiContext([]);
 
       const client = new ApiClient();
       await client.streamTemplateAiGenerate(
@@ -534,6 +545,12 @@ const CreateContractInner = () => {
             nextText += delta;
             setAiSuggestionText(nextText);
           },
+          onRestart: () => {
+            nextText = '';
+            setAiSuggestionText('');
+          },
+          onContext: (ctx) => setAiContext(ctx.relevant_clauses || []),
+          onCitations: (citations) => setAiCitations(citations),
           onDone: () => {
             setAiSuggestionText(nextText);
           },
@@ -561,10 +578,12 @@ const CreateContractInner = () => {
     setAiBaseText(next);
     setAiBaseHtml(textToHtml(next));
     setAiSuggestionText('');
+    setAiCitations(null);
   };
 
   const rejectAiSuggestion = () => {
     setAiSuggestionText('');
+    setAiCitations(null);
   };
 
   const createDraftFromAi = async () => {
@@ -604,11 +623,11 @@ const CreateContractInner = () => {
               editor_client_updated_at_ms: Date.now(),
             },
       });
-      if (!res.success) {
+      if (!res.success || !res.data) {
         setAiError(res.error || 'Failed to create draft');
         return;
       }
-      const id = String((res.data as any)?.id || '');
+      const id = String(res.data.id || '');
       if (!id) {
         setAiError('Draft created but no contract id returned');
         return;
@@ -656,11 +675,11 @@ const CreateContractInner = () => {
       const client = new ApiClient();
       const templatesResponse = await client.listTemplateFiles();
 
-      if (!templatesResponse.success) {
+      if (!templatesResponse.success || !templatesResponse.data) {
         setError(templatesResponse.error || 'Failed to load templates');
         setTemplates([]);
       } else {
-        const templateList = (templatesResponse.data as any)?.results || [];
+        const templateList = templatesResponse.data.results;
         setTemplates(templateList);
 
         const templateFromQuery = searchParams.get('template');
@@ -692,8 +711,11 @@ const CreateContractInner = () => {
           customClauses,
           constraints,
         });
-        if (res.success) {
-          setPreviewText(((res.data as any)?.rendered_text as string) || '');
+        if (res.success && res.data) {
+          setPreviewText(res.data.rendered_text);
+        } else {
+          setPreviewText('');
+          setError(res.error || 'Failed to render the preview');
         }
       } finally {
         setPreviewLoading(false);
@@ -707,6 +729,11 @@ const CreateContractInner = () => {
     setFieldValues((p) => ({ ...p, [key]: value }));
   };
 
+  // Template inputs are sent as `structured_inputs`, so the backend reports them nested under it.
+  const inputError = (key: string) => submitError?.fieldError(`structured_inputs.${key}`);
+  const inputErrorProps = (key: string) =>
+    inputError(key) ? { 'aria-invalid': true, 'aria-describedby': `input-${key}-error` } : {};
+
   const toggleClause = (clauseId: string) => {
     setSelectedClauseIds((prev) =>
       prev.includes(clauseId) ? prev.filter((c) => c !== clauseId) : [...prev, clauseId]
@@ -747,6 +774,7 @@ const CreateContractInner = () => {
 
     setLoading(true);
     setError(null);
+    setSubmitError(null);
 
     try {
       const client = new ApiClient();
@@ -759,12 +787,13 @@ const CreateContractInner = () => {
         structuredInputs: fieldValues,
       });
 
-      if (!response.success) {
-        setError(response.error || 'Failed to create contract');
+      if (!response.success || !response.data) {
+        if (response.apiError) setSubmitError(response.apiError);
+        else setError(response.error || 'Failed to create contract');
         return;
       }
 
-      const contractId = (response.data as any)?.contract?.id;
+      const contractId = response.data.contract.id;
       if (contractId) {
         // Persist generation context so the editor can show template/clauses/inputs.
         writeGenerationContext({
@@ -1101,6 +1130,13 @@ const CreateContractInner = () => {
                                 </div>
                               )}
 
+                              {aiCitations?.changes.length ? (
+                                <div className="mt-4">
+                                  <div className="text-[11px] font-semibold text-black/45 mb-2">Why these changes</div>
+                                  <AiCitationList changes={aiCitations.changes} context={aiContext} />
+                                </div>
+                              ) : null}
+
                               <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
                                 <button
                                   type="button"
@@ -1218,8 +1254,16 @@ const CreateContractInner = () => {
                   <p className="font-medium">{error}</p>
                 </div>
               )}
+              {submitError && (
+                <ApiErrorNotice
+                  error={submitError}
+                  inlineFields={['structured_inputs']}
+                  onRetry={() => formRef.current?.requestSubmit()}
+                  className="mt-6 px-6 py-4"
+                />
+              )}
 
-              <form onSubmit={handleSubmit} className="mt-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+              <form ref={formRef} onSubmit={handleSubmit} className="mt-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
                 {/* Left: Data Entry */}
                 <div className="bg-white rounded-[18px] border border-black/5 shadow-sm overflow-hidden lg:col-span-5">
                   <div className="px-5 py-4 border-b border-black/5 flex items-center justify-between">
@@ -1289,7 +1333,8 @@ const CreateContractInner = () => {
                                     <select
                                       value={fieldValues[f.key] || ''}
                                       onChange={(e) => setField(f.key, e.target.value)}
-                                      className="w-full px-4 py-3 border border-black/10 rounded-xl bg-white focus:ring-2 focus:ring-[#FF5C7A]/30 focus:border-[#FF5C7A]/40"
+                                      className={`w-full px-4 py-3 border border-black/10 rounded-xl bg-white focus:ring-2 focus:ring-[#FF5C7A]/30 focus:border-[#FF5C7A]/40 ${inputError(f.key) ? invalidInputClass : ''}`}
+                                      {...inputErrorProps(f.key)}
                                     >
                                       <option value="">Select…</option>
                                       {(f.options || []).map((o) => (
@@ -1303,10 +1348,12 @@ const CreateContractInner = () => {
                                       type={f.type}
                                       value={fieldValues[f.key] || ''}
                                       onChange={(e) => setField(f.key, e.target.value)}
-                                      className="w-full px-4 py-3 border border-black/10 rounded-xl bg-white focus:ring-2 focus:ring-[#FF5C7A]/30 focus:border-[#FF5C7A]/40"
+                                      className={`w-full px-4 py-3 border border-black/10 rounded-xl bg-white focus:ring-2 focus:ring-[#FF5C7A]/30 focus:border-[#FF5C7A]/40 ${inputError(f.key) ? invalidInputClass : ''}`}
                                       placeholder={f.label}
+                                      {...inputErrorProps(f.key)}
                                     />
                                   )}
+                                  <FieldError id={`input-${f.key}-error`} message={inputError(f.key)} />
                                 </div>
                               ))}
                             </div>
@@ -9,8 +9,57 @@ export interface ApiResponse<T = any> {
   data?: T
   error?: string
   status: number
+  /** Set when the server answered 2xx but the payload did not match the endpoint schema. */
+  violation?: ApiContractViolationError
+  /** Set for HTTP and network failures: code, field-level messages, retryability, request id. */
+  apiError?: ApiError
 }
 
+/**
+ * Raised (returned via `ApiResponse.violation`) when a backend payload does not
+ * match the schema the UI was built against. Lets screens show "the server sent
+ * something unexpected" instead of silently rendering an empty table.
+ */
+export class ApiContractViolationError extends Error {
+  constructor(
+    public endpoint: string,
+    public issues: SchemaIssue[],
+    public payload?: unknown
+  ) {
+    super(`Unexpected response from ${endpoint}: ${formatSchemaIssues(issues)}`)
+    this.name = 'ApiContractViolationError'
+  }
+}
+
+export type { ApiList } from './schema'
+
+/**
+ * Window and sort order for list endpoints, in DRF's `LimitOffsetPagination`
+ * and `OrderingFilter` terms. Every paginated list method accepts these and
+ * answers with an `ApiList` whose `count` is the total across all pages.
+ */
+export interface PageParams {
+  limit?: number
+  offset?: number
+  /** Field to sort by, `-` prefixed for descending (`-updated_at`). */
+  ordering?: string
+}
+
+type QueryValue = string | number | boolean | null | undefined
+
+/** `?a=1&b=x` from the params that are set, or '' when none are. */
+function toQueryString(params: Record<string, QueryValue>): string {
+  const qs = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === '') continue
+    qs.set(key, String(value))
+  }
+  const text = qs.toString()
+  return text ? `?${text}` : ''
+}
+
+const pageQuery = (page?: PageParams) => ({ limit: page?.limit, offset: page?.offset, ordering: page?.ordering })
+
 export type AiMode = 'rewrite' | 'suggest' | 'summarize' | 'risk_spotting'
 
 export interface AiRelevantClause {
@@ -33,26 +82,56 @@ export interface AiCitationsEvent {
   changes: AiCitationsChange[]
 }
 
+/** Callbacks for `streamContractAiGenerate` / `streamTemplateAiGenerate`. */
+export interface AiStreamHandlers {
+  onDelta: (delta: string) => void
+  onContext?: (ctx: AiContextEvent) => void
+  onCitations?: (citations: AiCitationsEvent) => void
+  onDone?: () => void
+  onError?: (error: string) => void
+  /**
+   * The connection dropped before the server tagged any event, so the stream
+   * starts over from the first delta: discard the text received so far.
+   */
+  onRestart?: () => void
+  signal?: AbortSignal
+}
+
+type AiStreamEvents = {
+  delta: { delta?: string } | string
+  context: AiContextEvent
+  citations: AiCitationsEvent
+  done: unknown
+  error: { error?: string } | string
+}
+
 export interface TenantAiPolicy {
   tenant_id: string
   scrub_pii: boolean
   send_full_contract_text: boolean
 }
 
+// Known statuses are listed for autocomplete; the backend also emits workflow
+// statuses (e.g. executed, signed) that the list/dashboards render generically.
+export type ContractStatus = 'draft' | 'pending' | 'approved' | 'rejected' | (string & {})
+
 export interface Contract {
   id: string
   title: string
   description?: string
-  status: 'draft' | 'pending' | 'approved' | 'rejected'
+  status: ContractStatus
   created_at: string
   updated_at: string
   value?: number
   created_by?: string
+  /** Open comment threads on the contract text. */
+  unresolved_comment_count?: number
 
   // Detail fields (present on GET /contracts/{id}/)
   metadata?: any
   rendered_text?: string
   rendered_html?: string
+  raw_text?: string
 }
 
 export interface ContractContentResponse {
@@ -95,7 +174,7 @@ export interface ContractGenerateResponse {
 }
 
 export interface ContractGenerateFromFileResponse {
-  contract: any
+  contract: Contract
   rendered_text: string
   raw_text: string
 }
@@ -212,6 +291,8 @@ export interface SearchResult {
   entity_type: string
   content_preview: string
   relevance_score: number
+  /** Entity fields the result was found by (a template's `filename`, a contract's `status`). */
+  metadata?: Record<string, unknown>
 }
 
 export interface PrivateUploadItem {
@@ -235,6 +316,20 @@ export interface PrivateUploadUrlResponse {
   expires_in: number
 }
 
+/** What a resumable upload becomes once completed. */
+export type UploadPurpose = 'private' | 'review'
+
+/** Server-side state of a resumable (chunked) upload. */
+export interface UploadSession {
+  upload_id: string
+  /** Chunk size the server expects; every chunk but the last must be exactly this long. */
+  chunk_size: number
+  /** Contiguous bytes stored so far; the next chunk starts here. */
+  received_bytes: number
+  size: number
+  expires_at?: string | null
+}
+
 export interface EsignSigner {
   email: string
   name: string
@@ -364,281 +459,364 @@ export interface CalendarEvent {
   updated_at?: string
 }
 
+export interface AuthSessionResponse {
+  access?: string
+  refresh?: string
+  user?: User
+  message?: string
+  pending_verification?: boolean
+  email?: string
+}
+
+export interface MessageResponse {
+  success?: boolean
+  message?: string
+}
+
+export interface AdminMe {
+  is_admin?: boolean
+  is_superadmin?: boolean
+  email?: string
+  tenant_id?: string
+}
+
+export interface AdminUser {
+  user_id: string
+  email: string
+  first_name?: string
+  last_name?: string
+  tenant_id: string
+  is_active: boolean
+  is_admin: boolean
+  date_joined?: string
+  last_login?: string
+}
+
+export interface AdminActivityItem {
+  id: string
+  action?: string
+  entity_type?: string
+  entity_id?: string
+  user_email?: string
+  created_at?: string
+}
+
+export interface AdminFeatureUsage {
+  month_features?: Record<string, Record<string, number>>
+  top_features?: Array<{ feature: string; total_usage: number; unique_users: number; avg_per_user: number }>
+  adoption_rate?: number
+  users_with_activity?: number
+  total_active_users?: number
+}
+
+export interface AdminUserRegistration {
+  registration_data?: Array<{ month: string; label: string; registered: number; active: number }>
+  total_registered?: number
+  total_active?: number
+  active_percentage?: number
+}
+
+export interface AdminUserFeatureUsage {
+  top_users?: Array<{
+    user_id: string
+    email: string
+    name: string
+    total_actions: number
+    features_used: Array<{ entity_type: string; count: number }>
+  }>
+  feature_distribution?: Array<{ feature: string; usage_count: number; user_count: number; adoption_rate: number }>
+  total_users?: number
+}
+
+/** Shape varies per backend release; screens read it defensively. */
+export type AdminAnalytics = Record<string, unknown>
+
+export interface DashboardInsights {
+  feature_usage_30d: Array<{ key: string; count: number }>
+  review_count_30d?: number
+  upload_count_30d?: number
+  repository_upload_count_30d?: number
+  private_upload_count_30d?: number
+  contracts_r2_upload_count_30d?: number
+  templates_count?: number
+  template_files_count?: number
+  contract_templates_count?: number
+  activity_last_14_days: Array<{ date: string; count: number }>
+  contract_types_180d: Array<{ type: string; count: number }>
+  ai_tasks_by_status_180d: Array<{ status: string; count: number }>
+  reviews_by_status_180d: Array<{ status: string; count: number }>
+  calendar_by_category_180d: Array<{ category: string; count: number }>
+  calendar_upcoming_30d: number
+  calendar_upcoming_365d?: number
+  esign_by_provider_180d: Array<{ provider: string; count: number }>
+}
+
+export interface ContractStatistics {
+  total: number
+  draft?: number
+  pending?: number
+  approved?: number
+  rejected?: number
+}
+
+export interface ContractVersionItem {
+  id: string
+  version_number?: number
+  change_summary?: string
+  created_at?: string
+  created_by?: string
+  /** Display name of `created_by`. */
+  created_by_name?: string
+  /** Content as of this version; only returned by `getContractVersion`. */
+  rendered_html?: string
+  rendered_text?: string
+}
+
+/** A colleague as shown on comments and in the @mention picker. */
+export interface TeamMember {
+  user_id: string
+  email: string
+  full_name?: string
+}
+
+export interface ContractComment {
+  id: string
+  body: string
+  author: TeamMember
+  /** Users @mentioned in `body` (they are notified). */
+  mentions: TeamMember[]
+  created_at: string
+}
+
+/**
+ * A discussion anchored to a range of contract text. The editor wraps the range
+ * in `<span data-comment-id="{id}">`, so the anchor is saved with `rendered_html`
+ * and moves with the text as the document is edited.
+ */
+export interface ContractCommentThread {
+  id: string
+  contract_id: string
+  /** The text that was selected when the thread was opened. */
+  quote: string
+  resolved: boolean
+  resolved_by?: TeamMember | null
+  resolved_at?: string | null
+  created_at: string
+  comments: ContractComment[]
+}
+
+export interface WorkflowInstance {
+  id: string
+  workflow_id?: string
+  status?: string
+  current_step?: number
+  created_at?: string
+}
+
+export interface InhouseStatusResponse {
+  success?: boolean
+  contract_id?: string
+  status?: string
+  all_signed?: boolean
+  signing_order?: string
+  expires_at?: string | null
+  signers?: InhouseSigningRequestSigner[]
+}
+
+export interface InhouseSignerSession {
+  success?: boolean
+  contract_id?: string
+  contract_title?: string
+  signer?: { email: string; name: string; status?: string }
+  pdf_url?: string | null
+  status?: string
+}
+
+export interface InhouseAuditLog {
+  event?: string
+  message?: string
+  signer_email?: string | null
+  created_at?: string
+}
+
+export interface ContractCreatedResponse {
+  contract: Contract
+}
+
+export interface RepositoryItem {
+  id: string
+  name?: string
+  title?: string
+  created_at?: string
+}
+
+export interface MetadataField {
+  id: string
+  name: string
+  field_type?: string
+}
+
+export interface HealthResponse {
+  status: string
+}
+
+import type { User } from './api'
+import { formatSchemaIssues, type ApiList, type Schema, type SchemaIssue } from './schema'
+import { schemas } from './api-schemas'
+import { ApiError, apiErrorFromException, apiErrorFromResponse } from './api-error'
 import { API_BASE_URL } from './env'
+import { http, tokenStore, type HttpClient, type UploadProgress } from './http'
+import { queryCache, type QueryTag } from './query-cache'
+import { openEventStream } from './event-stream'
 
 export class ApiClient {
   private baseUrl: string
-  private token: string | null = null
-  private refreshToken: string | null = null
+  private http: HttpClient
 
   private static readonly API_V1_PREFIX = '/api/v1'
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = String(baseUrl || API_BASE_URL).trim().replace(/\/+$/, '')
-    this.loadTokens()
-  }
-
-  private loadTokens() {
-    if (typeof window !== 'undefined') {
-      this.token = localStorage.getItem('access_token')
-      this.refreshToken = localStorage.getItem('refresh_token')
-    }
+    // Token attachment, refresh-on-401, retries and `auth:logout` live in the shared pipeline.
+    this.http = this.baseUrl === API_BASE_URL ? http : http.withBaseUrl(this.baseUrl)
   }
 
   private setTokens(access: string, refresh?: string) {
-    this.token = access
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('access_token', access)
-      if (refresh) {
-        this.refreshToken = refresh
-        localStorage.setItem('refresh_token', refresh)
-      }
-    }
+    tokenStore.setTokens(access, refresh)
   }
 
   private clearTokens() {
-    this.token = null
-    this.refreshToken = null
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('access_token')
-      localStorage.removeItem('refresh_token')
-    }
+    tokenStore.clearTokens()
   }
 
-  private async refreshAccessToken(): Promise<boolean> {
-    // Tokens may have been set by a different module (e.g. authAPI in api.ts)
-    // so always reload before attempting refresh.
-    this.loadTokens()
-    if (!this.refreshToken) return false
+  /**
+   * Validate a 2xx payload against the endpoint schema. A mismatch becomes a
+   * failed response carrying an `ApiContractViolationError`.
+   */
+  private validate<T>(
+    method: string,
+    endpoint: string,
+    schema: Schema<T>,
+    payload: unknown,
+    status: number
+  ): ApiResponse<T> {
+    const parsed = schema.parse(payload)
+    if (parsed.ok) {
+      return { success: true, data: parsed.value, status }
+    }
+    const violation = new ApiContractViolationError(`${method} ${endpoint.split('?')[0]}`, parsed.issues, payload)
+    return { success: false, error: violation.message, status, violation }
+  }
 
-    try {
-      const response = await fetch(`${this.baseUrl}/api/auth/refresh/`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ refresh: this.refreshToken }),
-      })
+  /** A failed `ApiResponse`; `error` stays the human-readable summary for existing callers. */
+  private failure(apiError: ApiError, message: string = apiError.message): ApiResponse<never> {
+    return { success: false, error: message, status: apiError.status, apiError }
+  }
 
-      const data = await response.json().catch(() => ({}))
-      if (!response.ok) {
-        return false
-      }
+  /** Turn a pipeline response into an `ApiResponse`, validating 2xx JSON against `schema`. */
+  private async toApiResponse<T>(method: string, endpoint: string, schema: Schema<T>, response: Response): Promise<ApiResponse<T>> {
+    const responseData = await response.json().catch(() => ({}))
 
-      const access = (data as any)?.access
-      const refresh = (data as any)?.refresh
-      if (access) {
-        this.setTokens(access, refresh)
-        return true
-      }
+    if (response.status === 401) {
+      // Don't throw; let callers handle 401 explicitly. The pipeline has already refreshed or logged out.
+      return this.failure(apiErrorFromResponse(401, responseData, response.headers), 'Unauthorized - Please log in again')
+    }
 
-      return false
-    } catch {
-      return false
+    if (!response.ok) {
+      return this.failure(apiErrorFromResponse(response.status, responseData, response.headers))
     }
+
+    return this.validate(method, endpoint, schema, responseData, response.status)
   }
 
   private async request<T>(
     method: string,
     endpoint: string,
+    schema: Schema<T>,
     data?: any,
     customHeaders?: Record<string, string>,
     allowRetry: boolean = true,
     options?: { auth?: boolean; signal?: AbortSignal }
   ): Promise<ApiResponse<T>> {
     try {
-      // Support the exported singleton `apiClient` and any long-lived instances.
-      this.loadTokens()
-
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        ...customHeaders,
-      }
-
-      const useAuth = options?.auth !== false
-
-      if (useAuth && this.token) {
-        headers['Authorization'] = `Bearer ${this.token}`
-      }
-
-      const config: RequestInit = {
+      const hasBody = data && (method === 'POST' || method === 'PUT' || method === 'PATCH')
+      const response = await this.http.send(endpoint, {
         method,
-        headers,
-        credentials: 'include',
-      }
-
-      if (options?.signal) {
-        config.signal = options.signal
-      }
-
-      if (data && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
-        config.body = JSON.stringify(data)
-      }
-
-      const response = await fetch(`${this.baseUrl}${endpoint}`, config)
-
-      if (response.status === 401) {
-        if (useAuth && allowRetry && (await this.refreshAccessToken())) {
-          return this.request(method, endpoint, data, customHeaders, false, options)
-        }
-        if (useAuth) {
-          this.clearTokens()
-          if (typeof window !== 'undefined') {
-            window.dispatchEvent(new Event('auth:logout'))
-          }
-        }
-        // Don't throw; let callers handle 401 explicitly.
-        return {
-          success: false,
-          error: 'Unauthorized - Please log in again',
-          status: 401,
-        }
-      }
-
-      const responseData = await response.json().catch(() => ({}))
-
-      if (!response.ok) {
-        return {
-          success: false,
-          error:
-            responseData.error ||
-            responseData.message ||
-            responseData.detail ||
-            responseData.details ||
-            'Request failed',
-          status: response.status,
-        }
-      }
-
-      return {
-        success: true,
-        data: responseData,
-        status: response.status,
-      }
+        headers: { 'Content-Type': 'application/json', ...customHeaders },
+        json: hasBody ? data : undefined,
+        signal: options?.signal,
+        auth: options?.auth !== false,
+        refresh: allowRetry,
+      })
+      return this.toApiResponse(method, endpoint, schema, response)
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        status: 0,
-      }
+      return this.failure(apiErrorFromException(error, 'Unknown error'))
     }
   }
 
   private async multipartRequest<T>(
     method: 'POST' | 'PUT' | 'PATCH',
     endpoint: string,
+    schema: Schema<T>,
     formData: FormData,
     allowRetry: boolean = true
   ): Promise<ApiResponse<T>> {
     try {
-      this.loadTokens()
-      const headers: Record<string, string> = {}
-      if (this.token) {
-        headers['Authorization'] = `Bearer ${this.token}`
-      }
+      const response = await this.http.send(endpoint, { method, body: formData, refresh: allowRetry })
+      return this.toApiResponse(method, endpoint, schema, response)
+    } catch (error) {
+      return this.failure(apiErrorFromException(error, 'Unknown error'))
+    }
+  }
 
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+  private async multipartRequestWithProgress<T>(
+    method: 'POST' | 'PUT' | 'PATCH',
+    endpoint: string,
+    schema: Schema<T>,
+    formData: FormData,
+    opts?: {
+      onProgress?: (info: UploadProgress) => void
+      signal?: AbortSignal
+    }
+  ): Promise<ApiResponse<T>> {
+    try {
+      // A progress callback makes the pipeline use its XHR transport; refresh/replay still applies.
+      const response = await this.http.send(endpoint, {
         method,
-        headers,
-        credentials: 'include',
         body: formData,
+        signal: opts?.signal,
+        onUploadProgress: opts?.onProgress || (() => {}),
       })
-
-      if (response.status === 401) {
-        if (allowRetry && (await this.refreshAccessToken())) {
-          return this.multipartRequest(method, endpoint, formData, false)
-        }
-        return {
-          success: false,
-          error: 'Unauthorized - Please log in again',
-          status: 401,
-        }
-      }
-
-      const responseData = await response.json().catch(() => ({}))
-      if (!response.ok) {
-        return {
-          success: false,
-          error: (responseData as any)?.message || (responseData as any)?.detail || 'Request failed',
-          status: response.status,
-        }
-      }
-
-      return {
-        success: true,
-        data: responseData as T,
-        status: response.status,
-      }
+      return this.toApiResponse(method, endpoint, schema, response)
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        status: 0,
-      }
+      return this.failure(apiErrorFromException(error))
     }
   }
 
-  private async multipartRequestWithProgress<T>(
-    method: 'POST' | 'PUT' | 'PATCH',
+  /** Raw binary body (e.g. one upload chunk), sent over XHR so progress can be reported. */
+  private async binaryRequestWithProgress<T>(
+    method: 'PUT' | 'POST',
     endpoint: string,
-    formData: FormData,
+    schema: Schema<T>,
+    body: Blob,
+    headers: Record<string, string>,
     opts?: {
-      onProgress?: (info: { loaded: number; total?: number; percent?: number }) => void
+      signal?: AbortSignal
+      onProgress?: (info: UploadProgress) => void
     }
   ): Promise<ApiResponse<T>> {
-    // fetch() does not reliably expose upload progress; use XHR.
-    this.loadTokens()
-    const url = `${this.baseUrl}${endpoint}`
-
-    return new Promise((resolve) => {
-      try {
-        const xhr = new XMLHttpRequest()
-        xhr.open(method, url, true)
-        xhr.withCredentials = true
-        if (this.token) {
-          xhr.setRequestHeader('Authorization', `Bearer ${this.token}`)
-        }
-
-        if (xhr.upload && opts?.onProgress) {
-          xhr.upload.onprogress = (evt) => {
-            const total = evt.lengthComputable ? evt.total : undefined
-            const percent = total ? Math.round((evt.loaded / total) * 100) : undefined
-            opts.onProgress?.({ loaded: evt.loaded, total, percent })
-          }
-        }
-
-        xhr.onerror = () => {
-          resolve({ success: false, error: 'Network error', status: 0 })
-        }
-
-        xhr.onload = () => {
-          const status = xhr.status
-          const raw = xhr.responseText
-          let data: any = {}
-          try {
-            data = raw ? JSON.parse(raw) : {}
-          } catch {
-            data = {}
-          }
-
-          if (status === 401) {
-            // Best-effort: refresh is async and XHR cannot be retried without rebuilding FormData.
-            resolve({ success: false, error: 'Unauthorized - Please log in again', status: 401 })
-            return
-          }
-
-          if (status < 200 || status >= 300) {
-            resolve({ success: false, error: data?.message || data?.detail || 'Request failed', status })
-            return
-          }
-
-          resolve({ success: true, data: data as T, status })
-        }
-
-        xhr.send(formData)
-      } catch (e) {
-        resolve({ success: false, error: e instanceof Error ? e.message : 'Unknown error', status: 0 })
-      }
-    })
+    try {
+      const response = await this.http.send(endpoint, {
+        method,
+        headers: { 'Content-Type': 'application/octet-stream', ...headers },
+        body,
+        signal: opts?.signal,
+        onUploadProgress: opts?.onProgress || (() => {}),
+      })
+      return this.toApiResponse(method, endpoint, schema, response)
+    } catch (error) {
+      return this.failure(apiErrorFromException(error))
+    }
   }
 
   private async blobRequest(
@@ -647,136 +825,139 @@ export class ApiClient {
     options?: { auth?: boolean }
   ): Promise<ApiResponse<Blob>> {
     try {
-      this.loadTokens()
-
-      const headers: Record<string, string> = {}
-      const useAuth = options?.auth !== false
-
-      if (useAuth && this.token) {
-        headers['Authorization'] = `Bearer ${this.token}`
-      }
-
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      const response = await this.http.send(endpoint, {
         method: 'GET',
-        headers,
-        credentials: 'include',
+        auth: options?.auth !== false,
+        refresh: allowRetry,
       })
 
-      if (response.status === 401) {
-        if (useAuth && allowRetry && (await this.refreshAccessToken())) {
-          return this.blobRequest(endpoint, false, options)
-        }
-        return { success: false, error: 'Unauthorized - Please log in again', status: 401 }
-      }
-
       if (!response.ok) {
-        return { success: false, error: 'Request failed', status: response.status }
+        const body = await response.json().catch(() => null)
+        const apiError = apiErrorFromResponse(response.status, body, response.headers)
+        return this.failure(apiError, response.status === 401 ? 'Unauthorized - Please log in again' : apiError.message)
       }
 
       const blob = await response.blob()
       return { success: true, data: blob, status: response.status }
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        status: 0,
-      }
+      return this.failure(apiErrorFromException(error, 'Unknown error'))
     }
   }
 
+  /** Cached GET: de-duplicated, stale-while-revalidate, invalidated by `tags` (see `query-cache.ts`). */
+  private query<T>(
+    endpoint: string,
+    schema: Schema<T>,
+    tags: QueryTag[],
+    options?: { auth?: boolean }
+  ): Promise<ApiResponse<T>> {
+    return queryCache.fetch(
+      `${this.baseUrl}${endpoint}`,
+      () => this.request('GET', endpoint, schema, undefined, undefined, true, options),
+      { tags }
+    )
+  }
+
+  /** Invalidate cached reads for `tags` once the mutation succeeds. */
+  private async invalidating<T>(tags: QueryTag[], pending: Promise<ApiResponse<T>>): Promise<ApiResponse<T>> {
+    const response = await pending
+    if (response.success) queryCache.invalidate(tags)
+    return response
+  }
+
   // ==================== AUTHENTICATION ====================
-  async register(email: string, password: string, fullName: string): Promise<ApiResponse> {
-    const response = await this.request('POST', '/api/auth/register/', {
-      email,
-      password,
-      full_name: fullName,
-    })
+  async register(email: string, password: string, fullName: string): Promise<ApiResponse<AuthSessionResponse>> {
+    const response = await this.request(
+      'POST',
+      '/api/auth/register/',
+      schemas.authSession,
+      { email, password, full_name: fullName },
+      undefined,
+      false,
+      { auth: false }
+    )
 
-    if (response.success && (response.data as any)?.access) {
-      this.setTokens((response.data as any).access, (response.data as any).refresh)
+    if (response.success && response.data?.access) {
+      this.setTokens(response.data.access, response.data.refresh)
     }
 
     return response
   }
 
-  async login(email: string, password: string): Promise<ApiResponse> {
-    const response = await this.request('POST', '/api/auth/login/', {
-      email,
-      password,
+  async login(email: string, password: string): Promise<ApiResponse<AuthSessionResponse>> {
+    const response = await this.request('POST', '/api/auth/login/', schemas.authSession, { email, password }, undefined, false, {
+      auth: false,
     })
 
-    if (response.success && (response.data as any)?.access) {
-      this.setTokens((response.data as any).access, (response.data as any).refresh)
+    if (response.success && response.data?.access) {
+      this.setTokens(response.data.access, response.data.refresh)
     }
 
     return response
   }
 
-  async logout(): Promise<ApiResponse> {
-    const response = await this.request('POST', '/api/auth/logout/', {})
+  async logout(): Promise<ApiResponse<MessageResponse>> {
+    const response = await this.request('POST', '/api/auth/logout/', schemas.message, {})
     this.clearTokens()
     return response
   }
 
-  async getCurrentUser(): Promise<ApiResponse> {
-    return this.request('GET', '/api/auth/me/')
+  async getCurrentUser(): Promise<ApiResponse<User>> {
+    return this.request('GET', '/api/auth/me/', schemas.user)
   }
 
   // ==================== ADMIN ====================
-  async getAdminMe(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/admin/me/`)
+  async getAdminMe(): Promise<ApiResponse<AdminMe>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/admin/me/`, schemas.adminMe, ['admin'])
   }
 
-  async getAdminAnalytics(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/admin/analytics/`)
+  async getAdminAnalytics(): Promise<ApiResponse<AdminAnalytics>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/admin/analytics/`, schemas.adminAnalytics, ['admin'])
   }
 
-  async getAdminActivity(params?: { limit?: number }): Promise<ApiResponse> {
+  async getAdminActivity(params?: { limit?: number }): Promise<ApiResponse<ApiList<AdminActivityItem>>> {
     const limit = params?.limit ?? 50
     const queryString = limit ? `?${new URLSearchParams({ limit: String(limit) }).toString()}` : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/admin/activity/${queryString}`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/admin/activity/${queryString}`, schemas.adminActivity, ['admin'])
   }
 
-  async adminListUsers(params?: { q?: string; allTenants?: boolean }): Promise<ApiResponse> {
-    const qs: Record<string, string> = {}
-    if (params?.q) qs.q = params.q
-    if (params?.allTenants) qs.all_tenants = '1'
-    const queryString = Object.keys(qs).length ? `?${new URLSearchParams(qs).toString()}` : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/admin/users/${queryString}`)
+  async adminListUsers(params?: PageParams & { q?: string; allTenants?: boolean }): Promise<ApiResponse<ApiList<AdminUser>>> {
+    const queryString = toQueryString({ q: params?.q, all_tenants: params?.allTenants ? '1' : undefined, ...pageQuery(params) })
+    return this.query(`${ApiClient.API_V1_PREFIX}/admin/users/${queryString}`, schemas.adminUsers, ['admin'])
   }
 
-  async adminPromoteUser(payload: { user_id?: string; email?: string; allTenants?: boolean }): Promise<ApiResponse> {
+  async adminPromoteUser(payload: { user_id?: string; email?: string; allTenants?: boolean }): Promise<ApiResponse<{ success?: boolean; user?: AdminUser }>> {
     const queryString = payload.allTenants ? '?all_tenants=1' : ''
     const { allTenants, ...body } = payload
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/admin/users/promote/${queryString}`, body)
+    return this.invalidating(['admin'], this.request('POST', `${ApiClient.API_V1_PREFIX}/admin/users/promote/${queryString}`, schemas.adminUserMutation, body))
   }
 
-  async adminDemoteUser(payload: { user_id?: string; email?: string; allTenants?: boolean }): Promise<ApiResponse> {
+  async adminDemoteUser(payload: { user_id?: string; email?: string; allTenants?: boolean }): Promise<ApiResponse<{ success?: boolean; user?: AdminUser }>> {
     const queryString = payload.allTenants ? '?all_tenants=1' : ''
     const { allTenants, ...body } = payload
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/admin/users/demote/${queryString}`, body)
+    return this.invalidating(['admin'], this.request('POST', `${ApiClient.API_V1_PREFIX}/admin/users/demote/${queryString}`, schemas.adminUserMutation, body))
   }
 
-  async getAdminFeatureUsage(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/admin/feature-usage/`)
+  async getAdminFeatureUsage(): Promise<ApiResponse<AdminFeatureUsage>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/admin/feature-usage/`, schemas.adminFeatureUsage, ['admin'])
   }
 
-  async getAdminUserRegistration(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/admin/user-registration/`)
+  async getAdminUserRegistration(): Promise<ApiResponse<AdminUserRegistration>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/admin/user-registration/`, schemas.adminUserRegistration, ['admin'])
   }
 
-  async getAdminUserFeatureUsage(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/admin/user-feature-usage/`)
+  async getAdminUserFeatureUsage(): Promise<ApiResponse<AdminUserFeatureUsage>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/admin/user-feature-usage/`, schemas.adminUserFeatureUsage, ['admin'])
   }
 
   // ==================== DASHBOARD ====================
-  async getDashboardInsights(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/dashboard/insights/`)
+  async getDashboardInsights(): Promise<ApiResponse<DashboardInsights>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/dashboard/insights/`, schemas.dashboardInsights, ['dashboard', 'contracts'])
   }
 
   // ==================== CONTRACTS ====================
   async createContract(data: Partial<Contract>): Promise<ApiResponse<Contract>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/`, data)
+    return this.invalidating(['contracts'], this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/`, schemas.contractLike, data))
   }
 
   async generateContract(params: {
@@ -786,13 +967,13 @@ export class ApiClient {
     title?: string
     selectedClauses?: string[]
   }): Promise<ApiResponse<ContractGenerateResponse>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/generate/`, {
+    return this.invalidating(['contracts'], this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/generate/`, schemas.contractGenerate, {
       template_id: params.templateId,
       structured_inputs: params.structuredInputs || {},
       user_instructions: params.userInstructions,
       title: params.title,
       selected_clauses: params.selectedClauses || [],
-    })
+    }))
   }
 
   async generateContractFromFile(params: {
@@ -804,7 +985,7 @@ export class ApiClient {
     customClauses?: Array<{ title?: string; content: string }>
     constraints?: Array<{ name: string; value: string }>
   }): Promise<ApiResponse<ContractGenerateFromFileResponse>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/generate-from-file/`, {
+    return this.invalidating(['contracts'], this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/generate-from-file/`, schemas.contractGenerateFromFile, {
       filename: params.filename,
       structured_inputs: params.structuredInputs || {},
       user_instructions: params.userInstructions,
@@ -812,281 +993,95 @@ export class ApiClient {
       selected_clauses: params.selectedClauses || [],
       custom_clauses: params.customClauses || [],
       constraints: params.constraints || [],
-    })
+    }))
   }
 
-  async getContracts(params?: Record<string, any>): Promise<ApiResponse> {
-    const queryString = params ? '?' + new URLSearchParams(params).toString() : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contracts/${queryString}`)
+  async getContracts(
+    params?: PageParams & { status?: string; search?: string; contract_type?: string }
+  ): Promise<ApiResponse<ApiList<Contract>>> {
+    const queryString = toQueryString({
+      status: params?.status,
+      search: params?.search,
+      contract_type: params?.contract_type,
+      ...pageQuery(params),
+    })
+    return this.query(`${ApiClient.API_V1_PREFIX}/contracts/${queryString}`, schemas.contracts, ['contracts'])
   }
 
   async getContractById(id: string): Promise<ApiResponse<Contract>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contracts/${id}/`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/contracts/${id}/`, schemas.contractLike, ['contracts', `contract:${id}`])
   }
 
   async getContractContent(id: string): Promise<ApiResponse<ContractContentResponse>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contracts/${id}/content/`)
+    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contracts/${id}/content/`, schemas.contractContent)
   }
 
   async updateContract(id: string, data: Partial<Contract>): Promise<ApiResponse<Contract>> {
-    return this.request('PUT', `${ApiClient.API_V1_PREFIX}/contracts/${id}/`, data)
+    return this.invalidating(['contracts', `contract:${id}`], this.request('PUT', `${ApiClient.API_V1_PREFIX}/contracts/${id}/`, schemas.contractLike, data))
   }
 
   async updateContractContent(
     id: string,
-    data: { rendered_text?: string; rendered_html?: string; client_updated_at_ms?: number },
+    data: { rendered_text?: string; rendered_html?: string; client_updated_at_ms?: number; base_server_updated_at_ms?: number | null },
     opts?: { signal?: AbortSignal }
-  ): Promise<ApiResponse<any>> {
-    return this.request('PATCH', `${ApiClient.API_V1_PREFIX}/contracts/${id}/content/`, data, undefined, true, {
+  ): Promise<ApiResponse<ContractContentResponse>> {
+    return this.invalidating(['contracts', `contract:${id}`], this.request('PATCH', `${ApiClient.API_V1_PREFIX}/contracts/${id}/content/`, schemas.contractContent, data, undefined, true, {
       signal: opts?.signal,
-    })
+    }))
   }
 
   async streamContractAiGenerate(
     id: string,
     payload: { prompt: string; current_text?: string; mode?: AiMode; jurisdiction?: string },
-    handlers: {
-      onDelta: (delta: string) => void
-      onContext?: (ctx: AiContextEvent) => void
-      onCitations?: (citations: AiCitationsEvent) => void
-      onDone?: () => void
-      onError?: (error: string) => void
-      signal?: AbortSignal
-    }
+    handlers: AiStreamHandlers
   ): Promise<void> {
-    this.loadTokens()
-    if (!this.token) {
-      handlers.onError?.('Not authenticated')
-      return
-    }
-
-    const doFetch = async () =>
-      fetch(`${this.baseUrl}${ApiClient.API_V1_PREFIX}/contracts/${id}/ai/generate-stream/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.token}`,
-        },
-        credentials: 'include',
-        body: JSON.stringify(payload),
-        signal: handlers.signal,
-      })
-
-    let response = await doFetch()
-    if (response.status === 401) {
-      const ok = await this.refreshAccessToken()
-      if (ok) {
-        response = await doFetch()
-      }
-    }
-
-    if (!response.ok || !response.body) {
-      const text = await response.text().catch(() => '')
-      handlers.onError?.(text || `Request failed (${response.status})`)
-      return
-    }
-
-    const reader = response.body.getReader()
-    const decoder = new TextDecoder()
-
-    let buffer = ''
-    const handleFrame = (frame: string) => {
-      // SSE frame is a set of lines terminated by a blank line.
-      // We care about: event: <name> and data: <json>
-      const lines = frame.split(/\r?\n/)
-      let eventName = 'message'
-      const dataLines: string[] = []
-      for (const line of lines) {
-        if (line.startsWith('event:')) eventName = line.slice(6).trim()
-        if (line.startsWith('data:')) dataLines.push(line.slice(5).trim())
-      }
-      const dataStr = dataLines.join('\n')
-      if (!dataStr) return
-
-      if (eventName === 'delta') {
-        try {
-          const obj = JSON.parse(dataStr)
-          const delta = String(obj?.delta || '')
-          if (delta) handlers.onDelta(delta)
-        } catch {
-          // Fallback: treat as raw
-          handlers.onDelta(dataStr)
-        }
-        return
-      }
-
-      if (eventName === 'done') {
-        handlers.onDone?.()
-        return
-      }
-
-      if (eventName === 'context') {
-        try {
-          const obj = JSON.parse(dataStr)
-          handlers.onContext?.(obj as AiContextEvent)
-        } catch {
-          // ignore
-        }
-        return
-      }
-
-      if (eventName === 'citations') {
-        try {
-          const obj = JSON.parse(dataStr)
-          handlers.onCitations?.(obj as AiCitationsEvent)
-        } catch {
-          // ignore
-        }
-        return
-      }
-
-      if (eventName === 'error') {
-        try {
-          const obj = JSON.parse(dataStr)
-          handlers.onError?.(String(obj?.error || 'Unknown error'))
-        } catch {
-          handlers.onError?.(dataStr)
-        }
-      }
-    }
-
-    while (true) {
-      const { value, done } = await reader.read()
-      if (done) break
-      buffer += decoder.decode(value, { stream: true })
-
-      // Split on blank line delimiter. Keep any remainder.
-      while (true) {
-        const idx = buffer.indexOf('\n\n')
-        if (idx === -1) break
-        const frame = buffer.slice(0, idx)
-        buffer = buffer.slice(idx + 2)
-        if (frame.trim()) handleFrame(frame)
-      }
-    }
-
-    // Handle trailing frame if present.
-    if (buffer.trim()) handleFrame(buffer)
+    return this.streamAi(`${ApiClient.API_V1_PREFIX}/contracts/${id}/ai/generate-stream/`, payload, handlers)
   }
 
   async streamTemplateAiGenerate(
     payload: { prompt: string; current_text: string; contract_type?: string; mode?: AiMode; jurisdiction?: string },
-    handlers: {
-      onDelta: (delta: string) => void
-      onContext?: (ctx: AiContextEvent) => void
-      onCitations?: (citations: AiCitationsEvent) => void
-      onDone?: () => void
-      onError?: (error: string) => void
-      signal?: AbortSignal
-    }
+    handlers: AiStreamHandlers
   ): Promise<void> {
-    this.loadTokens()
-    if (!this.token) {
-      handlers.onError?.('Not authenticated')
-      return
-    }
-
-    const doFetch = async () =>
-      fetch(`${this.baseUrl}${ApiClient.API_V1_PREFIX}/ai/generate/template-stream/`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.token}`,
-        },
-        credentials: 'include',
-        body: JSON.stringify(payload),
-        signal: handlers.signal,
-      })
-
-    let response = await doFetch()
-    if (response.status === 401) {
-      const ok = await this.refreshAccessToken()
-      if (ok) {
-        response = await doFetch()
-      }
-    }
+    return this.streamAi(`${ApiClient.API_V1_PREFIX}/ai/generate/template-stream/`, payload, handlers)
+  }
 
-    if (!response.ok || !response.body) {
-      const text = await response.text().catch(() => '')
-      handlers.onError?.(text || `Request failed (${response.status})`)
+  /**
+   * Shared by the AI generate streams (`delta`/`context`/`citations`/`done`/`error`).
+   * Resolves once the stream has finished, failed (`onError`) or been cancelled.
+   */
+  private async streamAi(endpoint: string, payload: Record<string, unknown>, handlers: AiStreamHandlers): Promise<void> {
+    if (!tokenStore.getAccessToken()) {
+      handlers.onError?.('Not authenticated')
       return
     }
 
-    const reader = response.body.getReader()
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    const handleFrame = (frame: string) => {
-      const lines = frame.split(/\r?\n/)
-      let eventName = 'message'
-      const dataLines: string[] = []
-      for (const line of lines) {
-        if (line.startsWith('event:')) eventName = line.slice(6).trim()
-        if (line.startsWith('data:')) dataLines.push(line.slice(5).trim())
-      }
-      const dataStr = dataLines.join('\n')
-      if (!dataStr) return
-
-      if (eventName === 'delta') {
-        try {
-          const obj = JSON.parse(dataStr)
-          const delta = String(obj?.delta || '')
+    const stream = openEventStream<AiStreamEvents>(endpoint, {
+      client: this.http,
+      json: payload,
+      signal: handlers.signal,
+      endOn: ['done', 'error'],
+      on: {
+        delta: (data) => {
+          // Older backends send the delta as plain text rather than `{delta}`.
+          const delta = typeof data === 'string' ? data : String(data?.delta || '')
           if (delta) handlers.onDelta(delta)
-        } catch {
-          handlers.onDelta(dataStr)
-        }
-        return
-      }
-
-      if (eventName === 'done') {
-        handlers.onDone?.()
-        return
-      }
-
-      if (eventName === 'context') {
-        try {
-          const obj = JSON.parse(dataStr)
-          handlers.onContext?.(obj as AiContextEvent)
-        } catch {
-          // ignore
-        }
-        return
-      }
-
-      if (eventName === 'citations') {
-        try {
-          const obj = JSON.parse(dataStr)
-          handlers.onCitations?.(obj as AiCitationsEvent)
-        } catch {
-          // ignore
-        }
-        return
-      }
-
-      if (eventName === 'error') {
-        try {
-          const obj = JSON.parse(dataStr)
-          handlers.onError?.(String(obj?.error || 'Unknown error'))
-        } catch {
-          handlers.onError?.(dataStr)
-        }
-      }
-    }
-
-    while (true) {
-      const { value, done } = await reader.read()
-      if (done) break
-      buffer += decoder.decode(value, { stream: true })
-      while (true) {
-        const idx = buffer.indexOf('\n\n')
-        if (idx === -1) break
-        const frame = buffer.slice(0, idx)
-        buffer = buffer.slice(idx + 2)
-        if (frame.trim()) handleFrame(frame)
-      }
-    }
+        },
+        context: (data) => {
+          if (data && typeof data === 'object') handlers.onContext?.(data)
+        },
+        citations: (data) => {
+          if (data && typeof data === 'object') handlers.onCitations?.(data)
+        },
+        done: () => handlers.onDone?.(),
+        error: (data) => handlers.onError?.(typeof data === 'string' ? data : String(data?.error || 'Unknown error')),
+      },
+      onReconnect: ({ resumed }) => {
+        if (!resumed) handlers.onRestart?.()
+      },
+    })
 
-    if (buffer.trim()) handleFrame(buffer)
+    const result = await stream.done
+    if (result.status === 'failed') handlers.onError?.(result.error.message)
   }
 
   async createContractFromContent(params: {
@@ -1095,14 +1090,14 @@ export class ApiClient {
     rendered_text?: string
     rendered_html?: string
     metadata?: Record<string, any>
-  }): Promise<ApiResponse<any>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/create-from-content/`, {
+  }): Promise<ApiResponse<Contract>> {
+    return this.invalidating(['contracts'], this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/create-from-content/`, schemas.contractLike, {
       title: params.title,
       contract_type: params.contract_type,
       rendered_text: params.rendered_text,
       rendered_html: params.rendered_html,
       metadata: params.metadata,
-    })
+    }))
   }
 
   async downloadContractTxt(id: string): Promise<ApiResponse<Blob>> {
@@ -1130,16 +1125,16 @@ export class ApiClient {
       invite_urls?: Array<{ email: string; name: string; signing_url: string }>
     }>
   > {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/inhouse/esign/start/`, {
+    return this.invalidating(['signing', 'contracts'], this.request('POST', `${ApiClient.API_V1_PREFIX}/inhouse/esign/start/`, schemas.inhouseStart, {
       contract_id: params.contract_id,
       signers: params.signers,
       signing_order: params.signing_order || 'sequential',
       expires_in_days: params.expires_in_days ?? 30,
-    })
+    }))
   }
 
-  async inhouseStatus(contractId: string, opts?: { signal?: AbortSignal }): Promise<ApiResponse<any>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/inhouse/esign/status/${contractId}/`, undefined, undefined, true, {
+  async inhouseStatus(contractId: string, opts?: { signal?: AbortSignal }): Promise<ApiResponse<InhouseStatusResponse>> {
+    return this.request('GET', `${ApiClient.API_V1_PREFIX}/inhouse/esign/status/${contractId}/`, schemas.inhouseStatus, undefined, undefined, true, {
       signal: opts?.signal,
     })
   }
@@ -1152,55 +1147,48 @@ export class ApiClient {
     return this.blobRequest(`${ApiClient.API_V1_PREFIX}/inhouse/esign/certificate/${contractId}/`)
   }
 
-  async inhouseAudit(contractId: string, params?: { limit?: number }): Promise<ApiResponse<{ success: boolean; contract_id: string; logs: any[] }>> {
+  async inhouseAudit(contractId: string, params?: { limit?: number }): Promise<ApiResponse<{ success: boolean; contract_id: string; logs: InhouseAuditLog[] }>> {
     const qs = new URLSearchParams()
     if (typeof params?.limit === 'number') qs.set('limit', String(params.limit))
     const queryString = String(qs.toString() || '')
     const suffix = queryString ? `?${queryString}` : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/inhouse/esign/audit/${contractId}/${suffix}`)
+    return this.request('GET', `${ApiClient.API_V1_PREFIX}/inhouse/esign/audit/${contractId}/${suffix}`, schemas.inhouseAudit)
   }
 
-  async inhouseListSigningRequests(params?: {
-    q?: string
-    status?: string
-    limit?: number
-    offset?: number
-  }): Promise<ApiResponse<InhouseSigningRequestsListResponse>> {
-    const qs: Record<string, string> = {}
-    if (params?.q) qs.q = params.q
-    if (params?.status) qs.status = params.status
-    if (typeof params?.limit === 'number') qs.limit = String(params.limit)
-    if (typeof params?.offset === 'number') qs.offset = String(params.offset)
-    const queryString = Object.keys(qs).length ? `?${new URLSearchParams(qs).toString()}` : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/inhouse/esign/requests/${queryString}`)
+  async inhouseListSigningRequests(
+    params?: PageParams & { q?: string; status?: string }
+  ): Promise<ApiResponse<ApiList<InhouseSigningRequestListItem>>> {
+    const queryString = toQueryString({ q: params?.q, status: params?.status, ...pageQuery(params) })
+    return this.query(`${ApiClient.API_V1_PREFIX}/inhouse/esign/requests/${queryString}`, schemas.inhouseSigningRequests, ['signing'])
   }
 
-  async inhouseSignerSession(token: string, deviceId?: string): Promise<ApiResponse<any>> {
+  async inhouseSignerSession(token: string, deviceId?: string): Promise<ApiResponse<InhouseSignerSession>> {
     const headers = deviceId ? { 'X-Device-Id': deviceId } : undefined
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/inhouse/esign/session/${token}/`, undefined, headers, true, {
+    return this.request('GET', `${ApiClient.API_V1_PREFIX}/inhouse/esign/session/${token}/`, schemas.inhouseSignerSession, undefined, headers, true, {
       auth: false,
     })
   }
 
-  async inhouseSignerSign(token: string, signature_data_url: string, deviceId?: string): Promise<ApiResponse<any>> {
+  async inhouseSignerSign(token: string, signature_data_url: string, deviceId?: string): Promise<ApiResponse<{ success?: boolean; status?: string; all_signed?: boolean }>> {
     const headers = deviceId ? { 'X-Device-Id': deviceId } : undefined
-    return this.request(
+    return this.invalidating(['signing'], this.request(
       'POST',
       `${ApiClient.API_V1_PREFIX}/inhouse/esign/sign/${token}/`,
+      schemas.inhouseSignResult,
       { signature_data_url },
       headers,
       true,
       { auth: false }
-    )
+    ))
   }
 
 
   async getTenantAiPolicy(): Promise<ApiResponse<TenantAiPolicy>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/ai/policy/`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/ai/policy/`, schemas.tenantAiPolicy, ['ai-policy'])
   }
 
   async updateTenantAiPolicy(patch: Partial<Pick<TenantAiPolicy, 'scrub_pii' | 'send_full_contract_text'>>): Promise<ApiResponse<TenantAiPolicy>> {
-    return this.request('PUT', `${ApiClient.API_V1_PREFIX}/ai/policy/`, patch)
+    return this.invalidating(['ai-policy'], this.request('PUT', `${ApiClient.API_V1_PREFIX}/ai/policy/`, schemas.tenantAiPolicy, patch))
   }
 
   async submitAiFeedback(payload: {
@@ -1211,111 +1199,171 @@ export class ApiClient {
     contract_type?: string
     metadata?: Record<string, any>
   }): Promise<ApiResponse<{ id: string }>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/ai/feedback/`, payload)
+    return this.request('POST', `${ApiClient.API_V1_PREFIX}/ai/feedback/`, schemas.aiFeedback, payload)
   }
 
-  async deleteContract(id: string): Promise<ApiResponse> {
-    return this.request('DELETE', `${ApiClient.API_V1_PREFIX}/contracts/${id}/`)
+  async deleteContract(id: string): Promise<ApiResponse<unknown>> {
+    return this.invalidating(['contracts', `contract:${id}`], this.request('DELETE', `${ApiClient.API_V1_PREFIX}/contracts/${id}/`, schemas.empty))
   }
 
   async cloneContract(id: string, newTitle: string): Promise<ApiResponse<Contract>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/${id}/clone/`, {
+    return this.invalidating(['contracts'], this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/${id}/clone/`, schemas.contractLike, {
       title: newTitle,
-    })
+    }))
+  }
+
+  async getContractVersions(id: string): Promise<ApiResponse<ApiList<ContractVersionItem>>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/contracts/${id}/versions/`, schemas.contractVersions, [`contract:${id}`])
   }
 
-  async getContractVersions(id: string): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contracts/${id}/versions/`)
+  async getContractVersion(id: string, versionId: string): Promise<ApiResponse<ContractVersionItem>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/contracts/${id}/versions/${versionId}/`, schemas.contractVersion, [`contract:${id}`])
   }
 
+  /** Snapshot the contract's saved content as a new version, with `changeSummary` as its note. */
   async createContractVersion(
     id: string,
     changeSummary: string,
     selectedClauses?: string[]
-  ): Promise<ApiResponse> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/${id}/versions/`, {
+  ): Promise<ApiResponse<ContractVersionItem>> {
+    return this.invalidating([`contract:${id}`], this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/${id}/versions/`, schemas.contractVersion, {
       change_summary: changeSummary,
       selected_clauses: selectedClauses || [],
-    })
+    }))
   }
 
-  async getContractStatistics(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contracts/statistics/`)
+  // ==================== CONTRACT COMMENTS ====================
+  async listContractCommentThreads(contractId: string): Promise<ApiResponse<ApiList<ContractCommentThread>>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/contracts/${contractId}/comments/`, schemas.contractCommentThreads, [`comments:${contractId}`])
   }
 
-  async getRecentContracts(limit: number = 5): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contracts/recent/?limit=${limit}`)
+  async createContractCommentThread(
+    contractId: string,
+    data: { quote: string; body: string; mentions?: string[] }
+  ): Promise<ApiResponse<ContractCommentThread>> {
+    return this.invalidating(['contracts', `comments:${contractId}`], this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/${contractId}/comments/`, schemas.contractCommentThread, {
+      quote: data.quote,
+      body: data.body,
+      mentions: data.mentions || [],
+    }))
+  }
+
+  async replyToContractCommentThread(
+    contractId: string,
+    threadId: string,
+    data: { body: string; mentions?: string[] }
+  ): Promise<ApiResponse<ContractCommentThread>> {
+    return this.invalidating([`comments:${contractId}`], this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/${contractId}/comments/${threadId}/replies/`, schemas.contractCommentThread, {
+      body: data.body,
+      mentions: data.mentions || [],
+    }))
+  }
+
+  async setContractCommentThreadResolved(contractId: string, threadId: string, resolved: boolean): Promise<ApiResponse<ContractCommentThread>> {
+    return this.invalidating(['contracts', `comments:${contractId}`], this.request('PATCH', `${ApiClient.API_V1_PREFIX}/contracts/${contractId}/comments/${threadId}/`, schemas.contractCommentThread, {
+      resolved,
+    }))
+  }
+
+  async deleteContractCommentThread(contractId: string, threadId: string): Promise<ApiResponse<unknown>> {
+    return this.invalidating(['contracts', `comments:${contractId}`], this.request('DELETE', `${ApiClient.API_V1_PREFIX}/contracts/${contractId}/comments/${threadId}/`, schemas.empty))
+  }
+
+  /** Colleagues in the current tenant, for @mentions. */
+  async listTeamMembers(params?: { q?: string; limit?: number }): Promise<ApiResponse<ApiList<TeamMember>>> {
+    const queryString = toQueryString({ q: params?.q, limit: params?.limit })
+    return this.query(`${ApiClient.API_V1_PREFIX}/team/members/${queryString}`, schemas.teamMembers, ['team'])
+  }
+
+  async getContractStatistics(): Promise<ApiResponse<ContractStatistics>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/contracts/statistics/`, schemas.contractStatistics, ['contracts'])
+  }
+
+  async getRecentContracts(limit: number = 5): Promise<ApiResponse<ApiList<Contract>>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/contracts/recent/?limit=${limit}`, schemas.contracts, ['contracts'])
   }
 
   // ==================== CLAUSES ====================
-  async getClauses(params?: Record<string, any>): Promise<ApiResponse<Clause[]>> {
+  async getClauses(params?: Record<string, any>): Promise<ApiResponse<ApiList<Clause>>> {
     const queryString = params ? '?' + new URLSearchParams(params).toString() : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/clauses/${queryString}`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/clauses/${queryString}`, schemas.clauses, ['clauses'])
+  }
+
+  /** The whole clause library, read page by page; fails if any page does. */
+  async getAllClauses(params?: { contract_type?: string }): Promise<ApiResponse<Clause[]>> {
+    const clauses: Clause[] = []
+    const limit = 100
+    for (let offset = 0; ; offset += limit) {
+      const res = await this.getClauses({ ...params, limit, offset })
+      if (!res.success || !res.data) return { ...res, data: undefined }
+      clauses.push(...res.data.results)
+      if (!res.data.next || !res.data.results.length) return { ...res, data: clauses }
+    }
   }
 
-  async getConstraintsLibrary(params?: Record<string, any>): Promise<ApiResponse<{ success: boolean; count: number; results: any[] }>> {
+  async getConstraintsLibrary(params?: Record<string, any>): Promise<ApiResponse<ApiList<{ name: string }>>> {
     const queryString = params ? '?' + new URLSearchParams(params).toString() : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/clauses/constraints-library/${queryString}`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/clauses/constraints-library/${queryString}`, schemas.constraintsLibrary, ['clauses'])
   }
 
   // ==================== TEMPLATES ====================
   async createTemplate(data: Partial<ContractTemplate>): Promise<ApiResponse<ContractTemplate>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contract-templates/`, data)
+    return this.invalidating(['templates'], this.request('POST', `${ApiClient.API_V1_PREFIX}/contract-templates/`, schemas.contractTemplate, data))
   }
 
-  async getTemplates(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contract-templates/`)
+  async getTemplates(): Promise<ApiResponse<ApiList<ContractTemplate>>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/contract-templates/`, schemas.contractTemplates, ['templates'])
   }
 
   async getTemplateById(id: string): Promise<ApiResponse<ContractTemplate>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/contract-templates/${id}/`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/contract-templates/${id}/`, schemas.contractTemplate, ['templates'])
   }
 
   async updateTemplate(
     id: string,
     data: Partial<ContractTemplate>
   ): Promise<ApiResponse<ContractTemplate>> {
-    return this.request('PUT', `${ApiClient.API_V1_PREFIX}/contract-templates/${id}/`, data)
+    return this.invalidating(['templates'], this.request('PUT', `${ApiClient.API_V1_PREFIX}/contract-templates/${id}/`, schemas.contractTemplate, data))
   }
 
-  async deleteTemplate(id: string): Promise<ApiResponse> {
-    return this.request('DELETE', `${ApiClient.API_V1_PREFIX}/contract-templates/${id}/`)
+  async deleteTemplate(id: string): Promise<ApiResponse<unknown>> {
+    return this.invalidating(['templates'], this.request('DELETE', `${ApiClient.API_V1_PREFIX}/contract-templates/${id}/`, schemas.empty))
   }
 
   async getTemplateFile(templateType: string): Promise<ApiResponse<TemplateFileResponse>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/templates/files/${templateType}/`, undefined, undefined, true, {
+    return this.query(`${ApiClient.API_V1_PREFIX}/templates/files/${templateType}/`, schemas.templateFile, ['templates'], {
       auth: false,
     })
   }
 
   // ==================== DB-BACKED TEMPLATE FILES ====================
-  async listTemplateFiles(): Promise<ApiResponse<{ success: boolean; count: number; results: FileTemplateItem[] }>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/templates/files/`)
+  async listTemplateFiles(): Promise<ApiResponse<ApiList<FileTemplateItem>>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/templates/files/`, schemas.fileTemplateItems, ['templates'])
   }
 
   async createTemplateFile(params: { name?: string; filename?: string; description?: string; content: string }): Promise<ApiResponse<{ success: boolean; template: FileTemplateItem }>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/templates/files/`, params)
+    return this.invalidating(['templates'], this.request('POST', `${ApiClient.API_V1_PREFIX}/templates/files/`, schemas.fileTemplateCreated, params))
   }
 
-  async listMyTemplateFiles(): Promise<ApiResponse<{ success: boolean; count: number; results: FileTemplateItem[] }>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/templates/files/mine/`)
+  async listMyTemplateFiles(): Promise<ApiResponse<ApiList<FileTemplateItem>>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/templates/files/mine/`, schemas.fileTemplateItems, ['templates'])
   }
 
   async deleteTemplateFile(filename: string): Promise<ApiResponse<{ success: boolean; filename?: string }>> {
     const safe = encodeURIComponent(filename)
-    return this.request('DELETE', `${ApiClient.API_V1_PREFIX}/templates/files/delete/${safe}/`)
+    return this.invalidating(['templates'], this.request('DELETE', `${ApiClient.API_V1_PREFIX}/templates/files/delete/${safe}/`, schemas.fileTemplateDeleted))
   }
 
   async getTemplateFileContent(filename: string): Promise<ApiResponse<FileTemplateContentResponse>> {
     const safe = encodeURIComponent(filename)
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/templates/files/content/${safe}/`, undefined, undefined, true, {
+    return this.query(`${ApiClient.API_V1_PREFIX}/templates/files/content/${safe}/`, schemas.fileTemplateContent, ['templates'], {
       auth: false,
     })
   }
 
   async getTemplateFileSchema(filename: string): Promise<ApiResponse<TemplateFileSchemaResponse>> {
     const safe = encodeURIComponent(filename)
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/templates/files/schema/${safe}/`, undefined, undefined, true, {
+    return this.query(`${ApiClient.API_V1_PREFIX}/templates/files/schema/${safe}/`, schemas.templateFileSchema, ['templates'], {
       auth: false,
     })
   }
@@ -1327,7 +1375,7 @@ export class ApiClient {
     customClauses?: Array<{ title?: string; content: string }>
     constraints?: Array<{ name: string; value: string }>
   }): Promise<ApiResponse<ContractPreviewFromFileResponse>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/preview-from-file/`, {
+    return this.request('POST', `${ApiClient.API_V1_PREFIX}/contracts/preview-from-file/`, schemas.contractPreviewFromFile, {
       filename: params.filename,
       structured_inputs: params.structuredInputs || {},
       selected_clauses: params.selectedClauses || [],
@@ -1341,7 +1389,7 @@ export class ApiClient {
     filename: string
   ): Promise<ApiResponse<{ success: boolean; filename: string; config: TemplateSignatureFieldsConfig; source?: string }>> {
     const safe = encodeURIComponent(filename)
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/templates/files/signature-fields-config/${safe}/`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/templates/files/signature-fields-config/${safe}/`, schemas.signatureFieldsConfigResponse, ['templates'])
   }
 
   async saveTemplateFileSignaturePositions(
@@ -1349,123 +1397,172 @@ export class ApiClient {
     positions: TemplateSignatureFieldPlacement[]
   ): Promise<ApiResponse<{ success: boolean; filename: string; config: TemplateSignatureFieldsConfig }>> {
     const safe = encodeURIComponent(filename)
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/templates/files/drag-signature-positions/${safe}/`, {
+    return this.invalidating(['templates'], this.request('POST', `${ApiClient.API_V1_PREFIX}/templates/files/drag-signature-positions/${safe}/`, schemas.signatureFieldsSaved, {
       positions,
-    })
+    }))
   }
 
   // ==================== WORKFLOWS ====================
   async createWorkflow(data: Partial<Workflow>): Promise<ApiResponse<Workflow>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/workflows/`, data)
+    return this.invalidating(['workflows'], this.request('POST', `${ApiClient.API_V1_PREFIX}/workflows/`, schemas.workflow, data))
   }
 
-  async getWorkflows(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/workflows/`)
+  async getWorkflows(): Promise<ApiResponse<ApiList<Workflow>>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/workflows/`, schemas.workflows, ['workflows'])
   }
 
   async getWorkflowById(id: string): Promise<ApiResponse<Workflow>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/workflows/${id}/`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/workflows/${id}/`, schemas.workflow, ['workflows'])
   }
 
   async updateWorkflow(id: string, data: Partial<Workflow>): Promise<ApiResponse<Workflow>> {
-    return this.request('PUT', `${ApiClient.API_V1_PREFIX}/workflows/${id}/`, data)
+    return this.invalidating(['workflows'], this.request('PUT', `${ApiClient.API_V1_PREFIX}/workflows/${id}/`, schemas.workflow, data))
   }
 
-  async deleteWorkflow(id: string): Promise<ApiResponse> {
-    return this.request('DELETE', `${ApiClient.API_V1_PREFIX}/workflows/${id}/`)
+  async deleteWorkflow(id: string): Promise<ApiResponse<unknown>> {
+    return this.invalidating(['workflows'], this.request('DELETE', `${ApiClient.API_V1_PREFIX}/workflows/${id}/`, schemas.empty))
   }
 
-  async getWorkflowInstances(workflowId: string): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/workflows/${workflowId}/instances/`)
+  async getWorkflowInstances(workflowId: string): Promise<ApiResponse<ApiList<WorkflowInstance>>> {
+    return this.query(`${ApiClient.API_V1_PREFIX}/workflows/${workflowId}/instances/`, schemas.workflowInstances, ['workflows'])
   }
 
   // ==================== APPROVALS ====================
   async createApproval(data: Partial<ApprovalRequest>): Promise<ApiResponse<ApprovalRequest>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/approvals/`, data)
+    return this.invalidating(['approvals', 'contracts'], this.request('POST', `${ApiClient.API_V1_PREFIX}/approvals/`, schemas.approvalRequest, data))
   }
 
-  async getApprovals(params?: Record<string, any>): Promise<ApiResponse> {
-    const queryString = params ? '?' + new URLSearchParams(params).toString() : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/approvals/${queryString}`)
+  async getApprovals(params?: PageParams & { status?: string }): Promise<ApiResponse<ApiList<ApprovalRequest>>> {
+    const queryString = toQueryString({ status: params?.status, ...pageQuery(params) })
+    return this.query(`${ApiClient.API_V1_PREFIX}/approvals/${queryString}`, schemas.approvalRequests, ['approvals'])
   }
 
   async getApprovalById(id: string): Promise<ApiResponse<ApprovalRequest>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/approvals/${id}/`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/approvals/${id}/`, schemas.approvalRequest, ['approvals'])
   }
 
   async updateApproval(
     id: string,
     data: Partial<ApprovalRequest>
   ): Promise<ApiResponse<ApprovalRequest>> {
-    return this.request('PUT', `${ApiClient.API_V1_PREFIX}/approvals/${id}/`, data)
+    return this.invalidating(['approvals', 'contracts'], this.request('PUT', `${ApiClient.API_V1_PREFIX}/approvals/${id}/`, schemas.approvalRequest, data))
   }
 
-  async approveRequest(id: string, comment?: string): Promise<ApiResponse> {
-    return this.request('PUT', `${ApiClient.API_V1_PREFIX}/approvals/${id}/`, {
+  async approveRequest(id: string, comment?: string): Promise<ApiResponse<ApprovalRequest>> {
+    return this.invalidating(['approvals', 'contracts'], this.request('PUT', `${ApiClient.API_V1_PREFIX}/approvals/${id}/`, schemas.approvalRequest, {
       status: 'approved',
       comment,
-    })
+    }))
   }
 
-  async rejectRequest(id: string, reason?: string): Promise<ApiResponse> {
-    return this.request('PUT', `${ApiClient.API_V1_PREFIX}/approvals/${id}/`, {
+  async rejectRequest(id: string, reason?: string): Promise<ApiResponse<ApprovalRequest>> {
+    return this.invalidating(['approvals', 'contracts'], this.request('PUT', `${ApiClient.API_V1_PREFIX}/approvals/${id}/`, schemas.approvalRequest, {
       status: 'rejected',
       comment: reason,
-    })
+    }))
   }
 
   // ==================== NOTIFICATIONS ====================
-  async getNotifications(params?: Record<string, any>): Promise<ApiResponse> {
-    const queryString = params ? '?' + new URLSearchParams(params).toString() : ''
-    return this.request('GET', `/api/notifications/${queryString}`)
+  async getNotifications(params?: PageParams & { unread?: boolean }): Promise<ApiResponse<ApiList<Notification>>> {
+    const queryString = toQueryString({ read: params?.unread ? 'false' : undefined, ...pageQuery(params) })
+    return this.query(`/api/notifications/${queryString}`, schemas.notifications, ['notifications'])
   }
 
   async createNotification(data: any): Promise<ApiResponse<Notification>> {
-    return this.request('POST', '/api/notifications/', data)
+    return this.invalidating(['notifications'], this.request('POST', '/api/notifications/', schemas.notification, data))
   }
 
-  async markNotificationAsRead(id: string): Promise<ApiResponse> {
-    return this.request('PUT', `/api/notifications/${id}/`, { read: true })
+  async markNotificationAsRead(id: string): Promise<ApiResponse<Notification>> {
+    return this.invalidating(['notifications'], this.request('PUT', `/api/notifications/${id}/`, schemas.notification, { read: true }))
   }
 
   // ==================== PRIVATE UPLOADS (R2-ONLY) ====================
-  async listPrivateUploads(): Promise<ApiResponse<PrivateUploadsListResponse>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/private-uploads/`)
+  async listPrivateUploads(params?: PageParams & { q?: string }): Promise<ApiResponse<ApiList<PrivateUploadItem>>> {
+    const queryString = toQueryString({ q: params?.q, ...pageQuery(params) })
+    return this.query(`${ApiClient.API_V1_PREFIX}/private-uploads/${queryString}`, schemas.privateUploads, ['uploads'])
   }
 
   async getPrivateUploadUrl(key: string): Promise<ApiResponse<PrivateUploadUrlResponse>> {
     const encoded = encodeURIComponent(key)
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/private-uploads/url/?key=${encoded}`)
+    return this.request('GET', `${ApiClient.API_V1_PREFIX}/private-uploads/url/?key=${encoded}`, schemas.privateUploadUrl)
   }
 
-  async deletePrivateUpload(key: string): Promise<ApiResponse<{ success: boolean }>> {
+  async deletePrivateUpload(key: string): Promise<ApiResponse<MessageResponse>> {
     const encoded = encodeURIComponent(key)
-    return this.request('DELETE', `${ApiClient.API_V1_PREFIX}/private-uploads/?key=${encoded}`)
+    return this.invalidating(['uploads'], this.request('DELETE', `${ApiClient.API_V1_PREFIX}/private-uploads/?key=${encoded}`, schemas.message))
   }
 
-  async uploadPrivateUpload(file: File): Promise<ApiResponse<any>> {
+  async uploadPrivateUpload(file: File): Promise<ApiResponse<{ success?: boolean; key?: string }>> {
     const form = new FormData()
     form.append('file', file)
-    return this.multipartRequest('POST', `${ApiClient.API_V1_PREFIX}/private-uploads/`, form)
+    return this.invalidating(['uploads'], this.multipartRequest('POST', `${ApiClient.API_V1_PREFIX}/private-uploads/`, schemas.privateUploadCreated, form))
   }
 
   async uploadPrivateUploadWithProgress(
     file: File,
-    opts?: { onProgress?: (info: { loaded: number; total?: number; percent?: number }) => void }
-  ): Promise<ApiResponse<any>> {
+    opts?: { onProgress?: (info: { loaded: number; total?: number; percent?: number }) => void; signal?: AbortSignal }
+  ): Promise<ApiResponse<{ success?: boolean; key?: string }>> {
     const form = new FormData()
     form.append('file', file)
-    return this.multipartRequestWithProgress('POST', `${ApiClient.API_V1_PREFIX}/private-uploads/`, form, opts)
+    return this.invalidating(['uploads'], this.multipartRequestWithProgress('POST', `${ApiClient.API_V1_PREFIX}/private-uploads/`, schemas.privateUploadCreated, form, opts))
+  }
+
+  // ==================== RESUMABLE UPLOADS ====================
+  // Large files are sent in chunks (see `app/lib/uploads.ts`). Backends without
+  // these endpoints answer 404 and callers fall back to the single-request uploads.
+
+  async createUploadSession(data: {
+    purpose: UploadPurpose
+    filename: string
+    size: number
+    content_type: string
+    chunk_size?: number
+    title?: string
+    analyze?: boolean
+  }): Promise<ApiResponse<UploadSession>> {
+    return this.request('POST', `${ApiClient.API_V1_PREFIX}/uploads/sessions/`, schemas.uploadSession, data)
+  }
+
+  async getUploadSession(uploadId: string): Promise<ApiResponse<UploadSession>> {
+    return this.request('GET', `${ApiClient.API_V1_PREFIX}/uploads/sessions/${uploadId}/`, schemas.uploadSession)
+  }
+
+  /** Store `chunk` at byte `offset`. Re-sending a chunk the server already has is harmless. */
+  async uploadChunk(
+    uploadId: string,
+    chunk: Blob,
+    offset: number,
+    totalSize: number,
+    opts?: { signal?: AbortSignal; onProgress?: (info: UploadProgress) => void }
+  ): Promise<ApiResponse<UploadSession>> {
+    const end = offset + chunk.size - 1
+    return this.binaryRequestWithProgress('PUT', `${ApiClient.API_V1_PREFIX}/uploads/sessions/${uploadId}/`, schemas.uploadSession, chunk, {
+      'Content-Range': `bytes ${offset}-${end}/${totalSize}`,
+    }, opts)
+  }
+
+  async completePrivateUploadSession(uploadId: string): Promise<ApiResponse<{ success?: boolean; key?: string }>> {
+    return this.invalidating(['uploads'], this.request('POST', `${ApiClient.API_V1_PREFIX}/uploads/sessions/${uploadId}/complete/`, schemas.privateUploadCreated, {}))
+  }
+
+  async completeReviewUploadSession(
+    uploadId: string
+  ): Promise<ApiResponse<{ success: boolean; review_contract: ReviewContractDetail }>> {
+    return this.invalidating(['reviews'], this.request('POST', `${ApiClient.API_V1_PREFIX}/uploads/sessions/${uploadId}/complete/`, schemas.reviewContractMutation, {}))
+  }
+
+  async abortUploadSession(uploadId: string): Promise<ApiResponse<unknown>> {
+    return this.request('DELETE', `${ApiClient.API_V1_PREFIX}/uploads/sessions/${uploadId}/`, schemas.empty)
   }
 
   // ==================== REVIEW CONTRACTS ====================
-  async listReviewContracts(params?: { q?: string }): Promise<ApiResponse<ReviewContractsListResponse>> {
-    const qs = params?.q ? `?q=${encodeURIComponent(params.q)}` : ''
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/review-contracts/${qs}`)
+  async listReviewContracts(params?: PageParams & { q?: string }): Promise<ApiResponse<ApiList<ReviewContractListItem>>> {
+    const queryString = toQueryString({ q: params?.q, ...pageQuery(params) })
+    return this.query(`${ApiClient.API_V1_PREFIX}/review-contracts/${queryString}`, schemas.reviewContracts, ['reviews'])
   }
 
   async getReviewContractById(id: string): Promise<ApiResponse<ReviewContractDetail>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/review-contracts/${id}/`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/review-contracts/${id}/`, schemas.reviewContractDetail, ['reviews'])
   }
 
   async uploadReviewContract(
@@ -1476,7 +1573,7 @@ export class ApiClient {
     form.append('file', file)
     if (opts?.title) form.append('title', opts.title)
     if (typeof opts?.analyze === 'boolean') form.append('analyze', String(opts.analyze))
-    return this.multipartRequest('POST', `${ApiClient.API_V1_PREFIX}/review-contracts/`, form)
+    return this.invalidating(['reviews'], this.multipartRequest('POST', `${ApiClient.API_V1_PREFIX}/review-contracts/`, schemas.reviewContractMutation, form))
   }
 
   async uploadReviewContractWithProgress(
@@ -1485,29 +1582,31 @@ export class ApiClient {
       title?: string
       analyze?: boolean
       onProgress?: (info: { loaded: number; total?: number; percent?: number }) => void
+      signal?: AbortSignal
     }
   ): Promise<ApiResponse<{ success: boolean; review_contract: ReviewContractDetail }>> {
     const form = new FormData()
     form.append('file', file)
     if (opts?.title) form.append('title', opts.title)
     if (typeof opts?.analyze === 'boolean') form.append('analyze', String(opts.analyze))
-    return this.multipartRequestWithProgress('POST', `${ApiClient.API_V1_PREFIX}/review-contracts/`, form, {
+    return this.invalidating(['reviews'], this.multipartRequestWithProgress('POST', `${ApiClient.API_V1_PREFIX}/review-contracts/`, schemas.reviewContractMutation, form, {
       onProgress: opts?.onProgress,
-    })
+      signal: opts?.signal,
+    }))
   }
 
-  async deleteReviewContract(id: string): Promise<ApiResponse<any>> {
-    return this.request('DELETE', `${ApiClient.API_V1_PREFIX}/review-contracts/${id}/`)
+  async deleteReviewContract(id: string): Promise<ApiResponse<unknown>> {
+    return this.invalidating(['reviews'], this.request('DELETE', `${ApiClient.API_V1_PREFIX}/review-contracts/${id}/`, schemas.empty))
   }
 
   async getReviewContractUrl(id: string): Promise<ApiResponse<ReviewContractUrlResponse>> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/review-contracts/${id}/url/`)
+    return this.request('GET', `${ApiClient.API_V1_PREFIX}/review-contracts/${id}/url/`, schemas.reviewContractUrl)
   }
 
   async analyzeReviewContract(
     id: string
   ): Promise<ApiResponse<{ success: boolean; review_contract: ReviewContractDetail }>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/review-contracts/${id}/analyze/`, {})
+    return this.invalidating(['reviews'], this.request('POST', `${ApiClient.API_V1_PREFIX}/review-contracts/${id}/analyze/`, schemas.reviewContractMutation, {}))
   }
 
   async downloadReviewReportTxt(id: string): Promise<ApiResponse<Blob>> {
@@ -1519,79 +1618,79 @@ export class ApiClient {
   }
 
   // ==================== CALENDAR EVENTS ====================
-  async listCalendarEvents(params: { start: string; end: string }): Promise<ApiResponse<{ results: CalendarEvent[] }>> {
+  async listCalendarEvents(params: { start: string; end: string }): Promise<ApiResponse<ApiList<CalendarEvent>>> {
     const qs = new URLSearchParams({ start: params.start, end: params.end }).toString()
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/events/?${qs}`)
+    return this.query(`${ApiClient.API_V1_PREFIX}/events/?${qs}`, schemas.calendarEvents, ['calendar'])
   }
 
   async createCalendarEvent(data: Partial<CalendarEvent>): Promise<ApiResponse<CalendarEvent>> {
-    return this.request('POST', `${ApiClient.API_V1_PREFIX}/events/`, data)
+    return this.invalidating(['calendar'], this.request('POST', `${ApiClient.API_V1_PREFIX}/events/`, schemas.calendarEvent, data))
   }
 
   async updateCalendarEvent(id: string, data: Partial<CalendarEvent>): Promise<ApiResponse<CalendarEvent>> {
-    return this.request('PATCH', `${ApiClient.API_V1_PREFIX}/events/${id}/`, data)
+    return this.invalidating(['calendar'], this.request('PATCH', `${ApiClient.API_V1_PREFIX}/events/${id}/`, schemas.calendarEvent, data))
   }
 
-  async deleteCalendarEvent(id: string): Promise<ApiResponse> {
-    return this.request('DELETE', `${ApiClient.API_V1_PREFIX}/events/${id}/`)
+  async deleteCalendarEvent(id: string): Promise<ApiResponse<unknown>> {
+    return this.invalidating(['calendar'], this.request('DELETE', `${ApiClient.API_V1_PREFIX}/events/${id}/`, schemas.empty))
   }
 
   // ==================== SEARCH ====================
-  async search(query: string, params?: Record<string, any>): Promise<ApiResponse> {
+  async search(query: string, params?: Record<string, any>): Promise<ApiResponse<ApiList<SearchResult>>> {
     const fullParams = { q: query, ...params }
     const queryString = '?' + new URLSearchParams(fullParams).toString()
-    return this.request('GET', `/api/search/${queryString}`)
+    return this.request('GET', `/api/search/${queryString}`, schemas.searchResults)
   }
 
-  async semanticSearch(query: string): Promise<ApiResponse> {
-    return this.request('GET', `/api/search/semantic/?q=${encodeURIComponent(query)}`)
+  async semanticSearch(query: string): Promise<ApiResponse<ApiList<SearchResult>>> {
+    return this.request('GET', `/api/search/semantic/?q=${encodeURIComponent(query)}`, schemas.searchResults)
   }
 
-  async semanticSearchWithParams(query: string, params?: Record<string, any>): Promise<ApiResponse> {
+  async semanticSearchWithParams(query: string, params?: Record<string, any>): Promise<ApiResponse<ApiList<SearchResult>>> {
     const qs = new URLSearchParams({ q: query, ...(params || {}) }).toString()
-    return this.request('GET', `/api/search/semantic/?${qs}`)
+    return this.request('GET', `/api/search/semantic/?${qs}`, schemas.searchResults)
   }
 
-  async advancedSearch(data: any): Promise<ApiResponse> {
-    return this.request('POST', '/api/search/advanced/', data)
+  async advancedSearch(data: any): Promise<ApiResponse<ApiList<SearchResult>>> {
+    return this.request('POST', '/api/search/advanced/', schemas.searchResults, data)
   }
 
-  async getSearchSuggestions(query: string): Promise<ApiResponse> {
-    return this.request('GET', `/api/search/suggestions/?q=${encodeURIComponent(query)}`)
+  async getSearchSuggestions(query: string): Promise<ApiResponse<ApiList<string>>> {
+    return this.request('GET', `/api/search/suggestions/?q=${encodeURIComponent(query)}`, schemas.searchSuggestions)
   }
 
   // ==================== DOCUMENTS ====================
-  async listDocuments(): Promise<ApiResponse> {
-    return this.request('GET', '/api/documents/')
+  async listDocuments(): Promise<ApiResponse<ApiList<RepositoryItem>>> {
+    return this.query('/api/documents/', schemas.repositoryItems, ['repository'])
   }
 
-  async getRepository(): Promise<ApiResponse> {
-    return this.request('GET', '/api/repository/')
+  async getRepository(): Promise<ApiResponse<ApiList<RepositoryItem>>> {
+    return this.query('/api/repository/', schemas.repositoryItems, ['repository'])
   }
 
-  async getRepositoryFolders(): Promise<ApiResponse> {
-    return this.request('GET', '/api/repository/folders/')
+  async getRepositoryFolders(): Promise<ApiResponse<ApiList<RepositoryItem>>> {
+    return this.query('/api/repository/folders/', schemas.repositoryItems, ['repository'])
   }
 
-  async createFolder(name: string, parentId?: string): Promise<ApiResponse> {
-    return this.request('POST', '/api/repository/folders/', {
+  async createFolder(name: string, parentId?: string): Promise<ApiResponse<RepositoryItem>> {
+    return this.invalidating(['repository'], this.request('POST', '/api/repository/folders/', schemas.repositoryItem, {
       name,
       parent_id: parentId,
-    })
+    }))
   }
 
   // ==================== METADATA ====================
-  async createMetadataField(data: any): Promise<ApiResponse> {
-    return this.request('POST', '/api/metadata/fields/', data)
+  async createMetadataField(data: any): Promise<ApiResponse<MetadataField>> {
+    return this.invalidating(['repository'], this.request('POST', '/api/metadata/fields/', schemas.metadataField, data))
   }
 
-  async getMetadataFields(): Promise<ApiResponse> {
-    return this.request('GET', '/api/metadata/fields/')
+  async getMetadataFields(): Promise<ApiResponse<ApiList<MetadataField>>> {
+    return this.query('/api/metadata/fields/', schemas.metadataFields, ['repository'])
   }
 
   // ==================== HEALTH ====================
-  async getHealth(): Promise<ApiResponse> {
-    return this.request('GET', `${ApiClient.API_V1_PREFIX}/health/`)
+  async getHealth(): Promise<ApiResponse<HealthResponse>> {
+    return this.request('GET', `${ApiClient.API_V1_PREFIX}/health/`, schemas.health)
   }
 }
 
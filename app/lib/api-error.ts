@@ -0,0 +1,167 @@
+/**
+ * One error model for every backend failure.
+ *
+ * The backend answers errors in a few shapes: `{ error }` / `{ detail }` /
+ * `{ message }`, DRF serializer errors (`{ field: ['msg'] }`, nested for
+ * nested serializers), sometimes wrapped in `{ errors }` / `{ details }`.
+ * `ApiError` normalises them into a status, an optional machine-readable code,
+ * field-level messages, whether retrying can help, and the request id for
+ * support. `ApiClient` returns it as `ApiResponse.apiError`; `api.ts` throws it.
+ */
+
+/** Field path (`email`, `metadata.end_date`, `signers.0.email`) → messages. */
+export type FieldErrors = Record<string, string[]>
+
+/** A JSON error body; non-object bodies are not kept. */
+export type ErrorBody = Record<string, unknown>
+
+// ============================================================================
+// ERROR
+// ============================================================================
+
+export interface ApiErrorInit {
+  /** Machine-readable code (`validation_error`, `not_found`, …) when the backend sends one. */
+  code?: string | null
+  fieldErrors?: FieldErrors
+  /** Errors not tied to a field (`non_field_errors`), shown with the form. */
+  formErrors?: string[]
+  /** Sending the same request again may succeed (network, timeouts, rate limits, 5xx). */
+  retryable?: boolean
+  requestId?: string | null
+  /** The parsed error body, for endpoint-specific flags such as `pending_verification`. */
+  data?: ErrorBody | null
+}
+
+export class ApiError extends Error {
+  readonly code: string | null
+  readonly fieldErrors: FieldErrors
+  readonly formErrors: string[]
+  readonly retryable: boolean
+  readonly requestId: string | null
+  readonly data: ErrorBody | null
+
+  constructor(
+    message: string,
+    /** HTTP status, or 0 when no response arrived (network failure, abort). */
+    public status: number,
+    init: ApiErrorInit = {}
+  ) {
+    super(message)
+    this.name = 'ApiError'
+    this.code = init.code ?? null
+    this.fieldErrors = init.fieldErrors ?? {}
+    this.formErrors = init.formErrors ?? []
+    this.retryable = init.retryable ?? false
+    this.requestId = init.requestId ?? null
+    this.data = init.data ?? null
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0
+  }
+
+  /** First message for `field` or any of its nested paths (`metadata` matches `metadata.end_date`). */
+  fieldError(field: string): string | undefined {
+    const own = this.fieldErrors[field]?.[0]
+    if (own) return own
+    const nested = Object.keys(this.fieldErrors).find((key) => key.startsWith(`${field}.`))
+    return nested ? this.fieldErrors[nested][0] : undefined
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+/** Keys that carry the summary message or metadata rather than a field error. */
+const RESERVED_KEYS = new Set(['error', 'message', 'detail', 'details', 'errors', 'code', 'error_code', 'request_id', 'retryable'])
+const FORM_KEYS = new Set(['non_field_errors', '__all__'])
+
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-correlation-id', 'request-id']
+
+const isObject = (value: unknown): value is ErrorBody => !!value && typeof value === 'object' && !Array.isArray(value)
+
+const firstString = (...values: unknown[]) => values.find((v): v is string => typeof v === 'string' && v.trim() !== '')
+
+/**
+ * Collect DRF-style field errors. Only list values and nested objects count:
+ * plain strings next to the message (`email` in a 403 `pending_verification`
+ * body) are data, not errors.
+ */
+function collectFieldErrors(body: ErrorBody, prefix: string, out: FieldErrors, form: string[]) {
+  for (const [key, value] of Object.entries(body)) {
+    if (!prefix && RESERVED_KEYS.has(key)) continue
+    const path = prefix ? `${prefix}.${key}` : key
+
+    if (Array.isArray(value)) {
+      const messages: string[] = []
+      value.forEach((item, index) => {
+        if (typeof item === 'string') messages.push(item)
+        else if (isObject(item)) {
+          const detail = firstString(item.message, item.detail)
+          if (detail) messages.push(detail)
+          else collectFieldErrors(item, `${path}.${index}`, out, form)
+        }
+      })
+      if (!messages.length) continue
+      if (!prefix && FORM_KEYS.has(key)) form.push(...messages)
+      else out[path] = [...(out[path] || []), ...messages]
+    } else if (isObject(value)) {
+      collectFieldErrors(value, path, out, form)
+    } else if (prefix && typeof value === 'string') {
+      // Inside a nested error object every string is a message.
+      out[path] = [...(out[path] || []), value]
+    }
+  }
+}
+
+/** "email: Already exists. • password: Too short." for bodies without a summary message. */
+function summarise(fieldErrors: FieldErrors, formErrors: string[]): string | undefined {
+  const parts = [
+    ...formErrors,
+    ...Object.entries(fieldErrors).map(([field, messages]) => `${field.replace(/[._]/g, ' ')}: ${messages.join(' ')}`),
+  ]
+  return parts.length ? parts.join(' • ') : undefined
+}
+
+/** Build an `ApiError` from an error response. `body` is the parsed JSON (or text) body. */
+export function apiErrorFromResponse(status: number, body: unknown, headers?: Headers): ApiError {
+  const data = isObject(body) ? body : null
+  const fieldErrors: FieldErrors = {}
+  const formErrors: string[] = []
+  if (data) {
+    collectFieldErrors(data, '', fieldErrors, formErrors)
+    for (const wrapper of [data.errors, data.details]) {
+      if (isObject(wrapper)) collectFieldErrors(wrapper, '', fieldErrors, formErrors)
+    }
+  }
+
+  // Proxies answer with HTML error pages; those make poor messages.
+  const text = typeof body === 'string' && body.length < 300 && !body.trimStart().startsWith('<') ? body : undefined
+  const message =
+    firstString(data?.error, data?.message, data?.detail, data?.details, text) ||
+    summarise(fieldErrors, formErrors) ||
+    `Request failed (${status})`
+
+  const retryHint = data?.retryable
+  return new ApiError(message, status, {
+    code: firstString(data?.code, data?.error_code) ?? null,
+    fieldErrors,
+    formErrors,
+    retryable: typeof retryHint === 'boolean' ? retryHint : RETRYABLE_STATUSES.has(status),
+    requestId: firstString(...REQUEST_ID_HEADERS.map((name) => headers?.get(name)), data?.request_id) ?? null,
+    data,
+  })
+}
+
+/** Build an `ApiError` for a request that got no response. Aborts are not retryable. */
+export function apiErrorFromException(error: unknown, fallback: string = 'Network error'): ApiError {
+  if (isApiError(error)) return error
+  const aborted = error instanceof Error && error.name === 'AbortError'
+  const message = error instanceof Error && error.message ? error.message : fallback
+  return new ApiError(message, 0, { code: aborted ? 'aborted' : 'network_error', retryable: !aborted })
+}
@@ -0,0 +1,679 @@
+/**
+ * Runtime schemas for every payload `ApiClient` hands to the UI.
+ *
+ * Each schema is typed against the interface exported from `api-client.ts`, so
+ * the compiler keeps the two in sync: if an interface gains a required field the
+ * schema must validate it too.
+ */
+
+import type {
+  AdminActivityItem,
+  AdminAnalytics,
+  AdminFeatureUsage,
+  AdminMe,
+  AdminUser,
+  AdminUserFeatureUsage,
+  AdminUserRegistration,
+  ApprovalRequest,
+  AuthSessionResponse,
+  CalendarEvent,
+  Clause,
+  Contract,
+  ContractComment,
+  ContractCommentThread,
+  ContractContentResponse,
+  ContractGenerateFromFileResponse,
+  ContractGenerateResponse,
+  ContractPreviewFromFileResponse,
+  ContractStatistics,
+  ContractTemplate,
+  ContractVersionItem,
+  DashboardInsights,
+  EsignSigningOrder,
+  FileTemplateContentResponse,
+  FileTemplateItem,
+  HealthResponse,
+  InhouseAuditLog,
+  InhouseSignerSession,
+  InhouseSigningRequestListItem,
+  InhouseSigningRequestSigner,
+  InhouseStatusResponse,
+  MessageResponse,
+  MetadataField,
+  Notification,
+  PrivateUploadItem,
+  PrivateUploadUrlResponse,
+  RepositoryItem,
+  ReviewContractDetail,
+  ReviewContractListItem,
+  ReviewContractUrlResponse,
+  SearchResult,
+  TeamMember,
+  TemplateFileResponse,
+  TemplateFileSchemaResponse,
+  TemplateSignatureFieldsConfig,
+  TenantAiPolicy,
+  UploadSession,
+  Workflow,
+  WorkflowInstance,
+} from './api-client'
+import type { User } from './api'
+import { s, type Schema } from './schema'
+
+const str = s.optional(s.string())
+const num = s.optional(s.number())
+const bool = s.optional(s.boolean())
+
+const countRows = <K extends string>(key: K) =>
+  s.array(s.object({ [key]: s.string(), count: s.numeric() } as { [P in K]: Schema<string> } & { count: Schema<number> }))
+
+// ==================== AUTH ====================
+const user: Schema<User> = s.object({
+  user_id: s.id(),
+  email: s.string(),
+  full_name: str,
+  tenant_id: s.optional(s.id()),
+  is_admin: bool,
+  is_superadmin: bool,
+})
+
+const authSession: Schema<AuthSessionResponse> = s.object({
+  access: str,
+  refresh: str,
+  user: s.optional(user),
+  message: str,
+  pending_verification: bool,
+  email: str,
+})
+
+const message: Schema<MessageResponse> = s.object({ success: bool, message: str })
+
+// ==================== ADMIN ====================
+const adminMe: Schema<AdminMe> = s.object({ is_admin: bool, is_superadmin: bool, email: str, tenant_id: s.optional(s.id()) })
+
+const adminUser: Schema<AdminUser> = s.object({
+  user_id: s.id(),
+  email: s.string(),
+  first_name: str,
+  last_name: str,
+  tenant_id: s.id(),
+  is_active: s.boolean(),
+  is_admin: s.boolean(),
+  date_joined: str,
+  last_login: str,
+})
+
+const adminActivityItem: Schema<AdminActivityItem> = s.object({
+  id: s.id(),
+  action: str,
+  entity_type: str,
+  entity_id: s.optional(s.id()),
+  user_email: str,
+  created_at: str,
+})
+
+const adminAnalytics: Schema<AdminAnalytics> = s.object({})
+
+const adminFeatureUsage: Schema<AdminFeatureUsage> = s.object({
+  month_features: s.optional(s.record(s.record(s.numeric()))),
+  top_features: s.optional(
+    s.array(
+      s.object({ feature: s.string(), total_usage: s.numeric(), unique_users: s.numeric(), avg_per_user: s.numeric() })
+    )
+  ),
+  adoption_rate: s.optional(s.numeric()),
+  users_with_activity: s.optional(s.numeric()),
+  total_active_users: s.optional(s.numeric()),
+})
+
+const adminUserRegistration: Schema<AdminUserRegistration> = s.object({
+  registration_data: s.optional(
+    s.array(s.object({ month: s.string(), label: s.string(), registered: s.numeric(), active: s.numeric() }))
+  ),
+  total_registered: s.optional(s.numeric()),
+  total_active: s.optional(s.numeric()),
+  active_percentage: s.optional(s.numeric()),
+})
+
+const adminUserFeatureUsage: Schema<AdminUserFeatureUsage> = s.object({
+  top_users: s.optional(
+    s.array(
+      s.object({
+        user_id: s.id(),
+        email: s.string(),
+        name: s.string(),
+        total_actions: s.numeric(),
+        features_used: s.array(s.object({ entity_type: s.string(), count: s.numeric() })),
+      })
+    )
+  ),
+  feature_distribution: s.optional(
+    s.array(
+      s.object({ feature: s.string(), usage_count: s.numeric(), user_count: s.numeric(), adoption_rate: s.numeric() })
+    )
+  ),
+  total_users: s.optional(s.numeric()),
+})
+
+// ==================== DASHBOARD ====================
+const dashboardInsights: Schema<DashboardInsights> = s.object({
+  feature_usage_30d: countRows('key'),
+  review_count_30d: num,
+  upload_count_30d: num,
+  repository_upload_count_30d: num,
+  private_upload_count_30d: num,
+  contracts_r2_upload_count_30d: num,
+  templates_count: num,
+  template_files_count: num,
+  contract_templates_count: num,
+  activity_last_14_days: countRows('date'),
+  contract_types_180d: countRows('type'),
+  ai_tasks_by_status_180d: countRows('status'),
+  reviews_by_status_180d: countRows('status'),
+  calendar_by_category_180d: countRows('category'),
+  calendar_upcoming_30d: s.numeric(),
+  calendar_upcoming_365d: s.optional(s.numeric()),
+  esign_by_provider_180d: countRows('provider'),
+})
+
+// ==================== CONTRACTS ====================
+const contract: Schema<Contract> = s.object({
+  id: s.id(),
+  title: s.string(),
+  description: str,
+  status: s.string(),
+  created_at: s.string(),
+  updated_at: s.string(),
+  value: s.optional(s.numeric()),
+  created_by: s.optional(s.id()),
+  unresolved_comment_count: s.optional(s.numeric()),
+  metadata: s.unknown(),
+  rendered_text: str,
+  rendered_html: str,
+  raw_text: str,
+})
+
+/** Write endpoints answer either the contract itself or `{ contract: {...} }`. */
+const contractLike: Schema<Contract> = s.preprocess(
+  (input) =>
+    input && typeof input === 'object' && 'contract' in input ? (input as { contract: unknown }).contract : input,
+  contract
+)
+
+const contractContent: Schema<ContractContentResponse> = s.object({
+  contract_id: s.id(),
+  r2_key: s.nullish(s.string()),
+  client_updated_at_ms: s.nullish(s.numeric()),
+  server_updated_at_ms: s.nullish(s.numeric()),
+  rendered_text: s.string(),
+  rendered_html: s.string(),
+})
+
+const contractGenerate: Schema<ContractGenerateResponse> = s.object({
+  contract: s.unknown(),
+  version: s.unknown(),
+  mandatory_clauses: s.array(s.unknown()),
+  clause_suggestions: s.record(s.unknown()),
+  validation_errors: s.array(s.unknown()),
+})
+
+const contractGenerateFromFile: Schema<ContractGenerateFromFileResponse> = s.object({
+  contract,
+  rendered_text: s.string(),
+  raw_text: s.string(),
+})
+
+const contractStatistics: Schema<ContractStatistics> = s.object({
+  total: s.numeric(),
+  draft: s.optional(s.numeric()),
+  pending: s.optional(s.numeric()),
+  approved: s.optional(s.numeric()),
+  rejected: s.optional(s.numeric()),
+})
+
+const contractVersion: Schema<ContractVersionItem> = s.object({
+  id: s.id(),
+  version_number: s.optional(s.numeric()),
+  change_summary: str,
+  created_at: str,
+  created_by: s.optional(s.id()),
+  created_by_name: str,
+  rendered_html: str,
+  rendered_text: str,
+})
+
+// ==================== CONTRACT COMMENTS ====================
+const teamMember: Schema<TeamMember> = s.object({
+  user_id: s.id(),
+  email: s.string(),
+  full_name: str,
+})
+
+const contractComment: Schema<ContractComment> = s.object({
+  id: s.id(),
+  body: s.string(),
+  author: teamMember,
+  mentions: s.array(teamMember),
+  created_at: s.string(),
+})
+
+const contractCommentThread: Schema<ContractCommentThread> = s.object({
+  id: s.id(),
+  contract_id: s.id(),
+  quote: s.string(),
+  resolved: s.boolean(),
+  resolved_by: s.nullish(teamMember),
+  resolved_at: s.nullish(s.string()),
+  created_at: s.string(),
+  comments: s.array(contractComment),
+})
+
+// ==================== CLAUSES ====================
+const clause: Schema<Clause> = s.object({
+  id: s.id(),
+  clause_id: s.string(),
+  name: s.string(),
+  version: s.optional(s.numeric()),
+  contract_type: s.string(),
+  content: s.string(),
+  status: s.string(),
+  is_mandatory: bool,
+  tags: s.unknown(),
+})
+
+// ==================== TEMPLATES ====================
+const contractTemplate: Schema<ContractTemplate> = s.object({
+  id: s.id(),
+  name: s.string(),
+  contract_type: s.string(),
+  description: str,
+  r2_key: str,
+  merge_fields: s.optional(s.array(s.string())),
+  status: s.string(),
+})
+
+const templateFile: Schema<TemplateFileResponse> = s.object({
+  success: s.boolean(),
+  template_type: s.string(),
+  filename: s.string(),
+  content: s.string(),
+  size: s.numeric(),
+  display_name: str,
+  description: str,
+})
+
+const fileTemplateItem: Schema<FileTemplateItem> = s.object({
+  id: s.id(),
+  filename: s.string(),
+  name: s.string(),
+  contract_type: s.string(),
+  description: str,
+  status: s.string(),
+  created_at: str,
+  updated_at: str,
+  created_by_id: s.optional(s.id()),
+  created_by_email: str,
+})
+
+const fileTemplateContent: Schema<FileTemplateContentResponse> = s.object({
+  success: s.boolean(),
+  filename: s.string(),
+  name: s.string(),
+  template_type: s.string(),
+  content: s.string(),
+  size: s.numeric(),
+})
+
+const templateSchemaField = s.object({
+  key: s.string(),
+  label: s.string(),
+  type: s.oneOf(['text', 'number', 'date', 'select'] as const),
+  required: s.boolean(),
+  options: s.optional(s.array(s.string())),
+  in_template: bool,
+})
+
+const templateFileSchema: Schema<TemplateFileSchemaResponse> = s.object({
+  success: s.boolean(),
+  filename: s.string(),
+  name: s.string(),
+  template_type: s.string(),
+  placeholders: s.array(s.string()),
+  sections: s.array(s.object({ title: s.string(), fields: s.array(templateSchemaField) })),
+  clauses_ui: s.object({
+    allow_library_selection: s.boolean(),
+    allow_custom_clauses: s.boolean(),
+    allow_constraints: s.boolean(),
+  }),
+})
+
+const contractPreviewFromFile: Schema<ContractPreviewFromFileResponse> = s.object({
+  success: s.boolean(),
+  filename: s.string(),
+  contract_type: s.string(),
+  raw_text: s.string(),
+  rendered_text: s.string(),
+})
+
+const signatureFieldPosition = s.object({ x: s.numeric(), y: s.numeric(), width: s.numeric(), height: s.numeric() })
+
+const signatureFieldsConfig: Schema<TemplateSignatureFieldsConfig> = s.object({
+  fields: s.array(
+    s.object({
+      label: str,
+      type: s.oneOf(['signature'] as const),
+      page_number: s.numeric(),
+      position: signatureFieldPosition,
+      required: bool,
+      recipient_index: s.numeric(),
+    })
+  ),
+  auto_stack: bool,
+  stack_spacing: s.optional(s.numeric()),
+  source: str,
+})
+
+// ==================== WORKFLOWS / APPROVALS ====================
+const workflow: Schema<Workflow> = s.object({
+  id: s.id(),
+  name: s.string(),
+  description: str,
+  status: s.oneOf(['active', 'inactive', 'archived'] as const),
+  steps: s.array(
+    s.object({
+      step_number: s.numeric(),
+      name: s.string(),
+      assigned_to: s.array(s.string()),
+      action_type: str,
+    })
+  ),
+  created_at: s.string(),
+})
+
+const workflowInstance: Schema<WorkflowInstance> = s.object({
+  id: s.id(),
+  workflow_id: s.optional(s.id()),
+  status: str,
+  current_step: s.optional(s.numeric()),
+  created_at: str,
+})
+
+const approvalRequest: Schema<ApprovalRequest> = s.object({
+  id: s.id(),
+  entity_type: s.string(),
+  entity_id: s.id(),
+  requester_id: s.id(),
+  status: s.oneOf(['pending', 'approved', 'rejected'] as const),
+  comment: str,
+  priority: s.optional(s.oneOf(['low', 'normal', 'high'] as const)),
+  created_at: s.string(),
+  updated_at: s.string(),
+})
+
+// ==================== NOTIFICATIONS / SEARCH ====================
+const notification: Schema<Notification> = s.object({
+  id: s.id(),
+  type: s.string(),
+  subject: s.string(),
+  message: s.string(),
+  read: s.boolean(),
+  created_at: s.string(),
+  action_url: str,
+})
+
+const searchResult: Schema<SearchResult> = s.object({
+  id: s.id(),
+  title: s.string(),
+  entity_type: s.string(),
+  content_preview: s.preprocess((v) => v ?? '', s.string()),
+  relevance_score: s.preprocess((v) => v ?? 0, s.numeric()),
+  metadata: s.optional(s.record(s.unknown())),
+})
+
+// ==================== PRIVATE UPLOADS ====================
+const privateUpload: Schema<PrivateUploadItem> = s.object({
+  key: s.string(),
+  filename: s.string(),
+  file_type: s.string(),
+  size: s.numeric(),
+  uploaded_at: s.nullish(s.string()),
+})
+
+const privateUploadUrl: Schema<PrivateUploadUrlResponse> = s.object({
+  success: s.boolean(),
+  key: s.string(),
+  url: s.string(),
+  expires_in: s.numeric(),
+})
+
+const uploadSession: Schema<UploadSession> = s.object({
+  upload_id: s.id(),
+  chunk_size: s.numeric(),
+  received_bytes: s.numeric(),
+  size: s.numeric(),
+  expires_at: s.nullish(s.string()),
+})
+
+// ==================== INHOUSE E-SIGN ====================
+const signingOrder: Schema<EsignSigningOrder> = s.oneOf(['sequential', 'parallel'] as const)
+
+const inhouseSigner: Schema<InhouseSigningRequestSigner> = s.object({
+  email: s.string(),
+  name: s.string(),
+  status: s.string(),
+  signed_at: s.nullish(s.string()),
+  has_signed: bool,
+  recipient_index: s.optional(s.numeric()),
+})
+
+const inhouseSigningRequest: Schema<InhouseSigningRequestListItem> = s.object({
+  id: s.id(),
+  provider: s.optional(s.oneOf(['inhouse'] as const)),
+  contract_id: s.id(),
+  contract_title: str,
+  status: s.string(),
+  signing_order: signingOrder,
+  sent_at: s.nullish(s.string()),
+  completed_at: s.nullish(s.string()),
+  expires_at: s.nullish(s.string()),
+  last_activity_at: s.nullish(s.string()),
+  created_at: s.nullish(s.string()),
+  updated_at: s.nullish(s.string()),
+  owner_email: s.nullish(s.string()),
+  owner_name: s.nullish(s.string()),
+  signers: s.array(inhouseSigner),
+})
+
+const inhouseStart = s.object({
+  success: s.boolean(),
+  contract_id: s.id(),
+  status: str,
+  signing_order: str,
+  expires_at: s.nullish(s.string()),
+  signing_url: s.nullish(s.string()),
+  invite_urls: s.optional(s.array(s.object({ email: s.string(), name: s.string(), signing_url: s.string() }))),
+})
+
+const inhouseStatus: Schema<InhouseStatusResponse> = s.object({
+  success: bool,
+  contract_id: s.optional(s.id()),
+  status: str,
+  all_signed: bool,
+  signing_order: str,
+  expires_at: s.nullish(s.string()),
+  signers: s.optional(s.array(inhouseSigner)),
+})
+
+const inhouseSignerSession: Schema<InhouseSignerSession> = s.object({
+  success: bool,
+  contract_id: s.optional(s.id()),
+  contract_title: str,
+  signer: s.optional(s.object({ email: s.string(), name: s.string(), status: str })),
+  pdf_url: s.nullish(s.string()),
+  status: str,
+})
+
+const inhouseAuditLog: Schema<InhouseAuditLog> = s.object({
+  event: str,
+  message: str,
+  signer_email: s.nullish(s.string()),
+  created_at: str,
+})
+
+// ==================== AI ====================
+const tenantAiPolicy: Schema<TenantAiPolicy> = s.object({
+  tenant_id: s.id(),
+  scrub_pii: s.boolean(),
+  send_full_contract_text: s.boolean(),
+})
+
+// ==================== REVIEW CONTRACTS ====================
+const reviewStatus = s.oneOf(['uploaded', 'processing', 'ready', 'failed'] as const)
+
+const reviewContractFields = {
+  id: s.id(),
+  title: s.string(),
+  original_filename: s.string(),
+  file_type: s.string(),
+  size_bytes: s.numeric(),
+  status: reviewStatus,
+  created_at: s.string(),
+  updated_at: s.string(),
+}
+
+const reviewContract: Schema<ReviewContractListItem> = s.object(reviewContractFields)
+
+const reviewContractDetail: Schema<ReviewContractDetail> = s.object({
+  ...reviewContractFields,
+  r2_key: s.string(),
+  error_message: s.nullish(s.string()),
+  analysis: s.unknown(),
+  review_text: str,
+})
+
+const reviewContractUrl: Schema<ReviewContractUrlResponse> = s.object({
+  success: s.boolean(),
+  url: s.string(),
+  expires_in: s.numeric(),
+})
+
+// ==================== CALENDAR ====================
+const calendarEvent: Schema<CalendarEvent> = s.object({
+  id: s.id(),
+  title: s.string(),
+  summary: str,
+  description: str,
+  start_datetime: s.string(),
+  end_datetime: s.string(),
+  all_day: s.boolean(),
+  category: s.oneOf(['renewal', 'expiry', 'meeting'] as const),
+  associated_contract_id: s.nullish(s.id()),
+  associated_contract_title: str,
+  created_at: str,
+  updated_at: str,
+})
+
+// ==================== REPOSITORY / METADATA / HEALTH ====================
+const repositoryItem: Schema<RepositoryItem> = s.object({ id: s.id(), name: str, title: str, created_at: str })
+
+const metadataField: Schema<MetadataField> = s.object({ id: s.id(), name: s.string(), field_type: str })
+
+const health: Schema<HealthResponse> = s.object({ status: s.string() })
+
+/** Endpoints whose body is irrelevant (DELETE 204s, fire-and-forget POSTs). */
+const empty = s.unknown()
+
+export const schemas = {
+  user,
+  authSession,
+  message,
+  empty,
+
+  adminMe,
+  adminUser,
+  adminUsers: s.list(adminUser),
+  adminActivity: s.list(adminActivityItem),
+  adminAnalytics,
+  adminFeatureUsage,
+  adminUserRegistration,
+  adminUserFeatureUsage,
+  adminUserMutation: s.object({ success: bool, user: s.optional(adminUser) }),
+
+  dashboardInsights,
+
+  contract,
+  contractLike,
+  contracts: s.list(contract),
+  contractContent,
+  contractGenerate,
+  contractGenerateFromFile,
+  contractStatistics,
+  contractVersion,
+  contractVersions: s.list(contractVersion),
+  contractCommentThread,
+  contractCommentThreads: s.list(contractCommentThread),
+  teamMembers: s.list(teamMember),
+
+  clauses: s.list(clause),
+  constraintsLibrary: s.list(s.object({ name: s.string() })),
+
+  contractTemplate,
+  contractTemplates: s.list(contractTemplate),
+  templateFile,
+  fileTemplateItems: s.list(fileTemplateItem),
+  fileTemplateCreated: s.object({ success: s.boolean(), template: fileTemplateItem }),
+  fileTemplateDeleted: s.object({ success: s.boolean(), filename: str }),
+  fileTemplateContent,
+  templateFileSchema,
+  contractPreviewFromFile,
+  signatureFieldsConfigResponse: s.object({
+    success: s.boolean(),
+    filename: s.string(),
+    config: signatureFieldsConfig,
+    source: str,
+  }),
+  signatureFieldsSaved: s.object({ success: s.boolean(), filename: s.string(), config: signatureFieldsConfig }),
+
+  workflow,
+  workflows: s.list(workflow),
+  workflowInstances: s.list(workflowInstance),
+
+  approvalRequest,
+  approvalRequests: s.list(approvalRequest),
+
+  notification,
+  notifications: s.list(notification),
+
+  searchResults: s.list(searchResult),
+  searchSuggestions: s.list(s.string(), { key: 'suggestions' }),
+
+  privateUploads: s.list(privateUpload),
+  privateUploadUrl,
+  privateUploadCreated: s.object({ success: bool, key: str }),
+  uploadSession,
+
+  inhouseStart,
+  inhouseStatus,
+  inhouseSigningRequests: s.list(inhouseSigningRequest),
+  inhouseSignerSession,
+  inhouseSignResult: s.object({ success: bool, status: str, all_signed: bool }),
+  inhouseAudit: s.object({ success: s.boolean(), contract_id: s.id(), logs: s.array(inhouseAuditLog) }),
+
+  tenantAiPolicy,
+  aiFeedback: s.object({ id: s.id() }),
+
+  reviewContract,
+  reviewContracts: s.list(reviewContract),
+  reviewContractDetail,
+  reviewContractMutation: s.object({ success: s.boolean(), review_contract: reviewContractDetail }),
+  reviewContractUrl,
+
+  calendarEvent,
+  calendarEvents: s.list(calendarEvent),
+
+  repositoryItem,
+  repositoryItems: s.list(repositoryItem),
+  metadataField,
+  metadataFields: s.list(metadataField),
+  health,
+}
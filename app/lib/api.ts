@@ -3,9 +3,15 @@
  * Production-level API integration with proper error handling and typing
  */
 
-import { API_BASE_URL } from './env'
+import { ApiError, apiErrorFromException, apiErrorFromResponse } from './api-error'
+import { decodeJwt, http, tokenStore, type HttpRequestInit } from './http'
 
-const BASE_URL = API_BASE_URL
+/**
+ * Explicit bearer header for helpers that take an `accessToken` argument. The
+ * shared pipeline replaces it with the current stored token (and refreshes on
+ * 401), so it only matters when nothing is stored yet.
+ */
+const bearer = (accessToken: string) => ({ Authorization: `Bearer ${accessToken}` })
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -69,59 +75,14 @@ export interface VerifyOTPData {
 // API ERROR HANDLING
 // ============================================================================
 
-export class APIError extends Error {
-  constructor(
-    public status: number,
-    public message: string,
-    public data?: any
-  ) {
-    super(message)
-    this.name = 'APIError'
-  }
-}
-
-function formatValidationErrors(data: any): string | null {
-  if (!data || typeof data !== 'object' || Array.isArray(data)) return null
-
-  const parts: string[] = []
-  for (const [rawKey, value] of Object.entries(data)) {
-    if (value == null) continue
-
-    const key = String(rawKey)
-    const label = key.replace(/_/g, ' ')
-
-    const collect = (v: any): string[] => {
-      if (v == null) return []
-      if (typeof v === 'string') return [v]
-      if (Array.isArray(v)) return v.flatMap(collect)
-      if (typeof v === 'object') {
-        if (typeof (v as any).detail === 'string') return [(v as any).detail]
-        if (typeof (v as any).message === 'string') return [(v as any).message]
-        const nested = formatValidationErrors(v)
-        if (nested) return [nested]
-        try {
-          return [JSON.stringify(v)]
-        } catch {
-          return [String(v)]
-        }
-      }
-      return [String(v)]
-    }
-
-    const messages = collect(value).filter(Boolean)
-    if (messages.length === 0) continue
-
-    // Prefer showing general errors without a noisy label.
-    if (key === 'non_field_errors' || key === 'detail') {
-      parts.push(messages.join(' '))
-      continue
-    }
-
-    parts.push(`${label}: ${messages.join(' ')}`)
-  }
+/** Kept for existing imports; the same class as `ApiError`. */
+export { ApiError as APIError }
 
-  return parts.length ? parts.join(' • ') : null
-}
+/** `http.send` that fails with an `ApiError` (status 0) when no response arrives. */
+const send = (path: string, init: HttpRequestInit) =>
+  http.send(path, init).catch((error: unknown) => {
+    throw apiErrorFromException(error)
+  })
 
 async function handleResponse<T>(response: Response): Promise<T> {
   const contentType = response.headers.get('content-type')
@@ -133,20 +94,12 @@ async function handleResponse<T>(response: Response): Promise<T> {
     } else {
       data = await response.text()
     }
-  } catch (error) {
+  } catch {
     data = null
   }
 
   if (!response.ok) {
-    let errorMessage =
-      data?.error ||
-      data?.message ||
-      data?.detail ||
-      (typeof data === 'string' ? data : null) ||
-      formatValidationErrors(data) ||
-      `HTTP Error: ${response.status}`
-
-    throw new APIError(response.status, errorMessage, data)
+    throw apiErrorFromResponse(response.status, data, response.headers)
   }
 
   return data as T
@@ -163,71 +116,18 @@ export const tokenManager = {
     }
   },
 
-  getAccessToken: (): string | null => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('access_token')
-    }
-    return null
-  },
-
-  getRefreshToken: (): string | null => {
-    if (typeof window !== 'undefined') {
-      return localStorage.getItem('refresh_token')
-    }
-    return null
-  },
-
-  setTokens: (access: string, refresh: string): void => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('access_token', access)
-      localStorage.setItem('refresh_token', refresh)
-      tokenManager._notifyAuthChanged()
-    }
-  },
-
-  setUser: (user: User): void => {
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('user', JSON.stringify(user))
-      tokenManager._notifyAuthChanged()
-    }
-  },
-
-  getUser: (): User | null => {
-    if (typeof window !== 'undefined') {
-      const user = localStorage.getItem('user')
-      return user ? JSON.parse(user) : null
-    }
-    return null
-  },
-
-  clearTokens: (): void => {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('access_token')
-      localStorage.removeItem('refresh_token')
-      localStorage.removeItem('user')
-      tokenManager._notifyAuthChanged()
-    }
-  },
+  // Storage is owned by the shared HTTP pipeline (`tokenStore` in ./http).
+  getAccessToken: tokenStore.getAccessToken,
+  getRefreshToken: tokenStore.getRefreshToken,
+  setTokens: (access: string, refresh: string): void => tokenStore.setTokens(access, refresh),
+  setUser: tokenStore.setUser,
+  getUser: tokenStore.getUser,
+  clearTokens: tokenStore.clearTokens,
 
   /**
    * Decode JWT token payload
    */
-  decodeToken: (token: string): any => {
-    try {
-      const parts = token.split('.')
-      if (parts.length !== 3) {
-        throw new Error('Invalid token format')
-      }
-
-      const decoded = JSON.parse(
-        Buffer.from(parts[1], 'base64').toString('utf-8')
-      )
-      return decoded
-    } catch (error) {
-      console.error('Failed to decode token:', error)
-      return null
-    }
-  },
+  decodeToken: (token: string): any => decodeJwt(token),
 
   /**
    * Check if token is expired
@@ -266,13 +166,7 @@ export const tokenManager = {
 export async function registerUser(
   credentials: RegisterCredentials
 ): Promise<PendingRegisterResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/register/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(credentials),
-  })
+  const response = await send('/api/auth/register/', { method: 'POST', auth: false, json: credentials })
 
   return handleResponse<PendingRegisterResponse>(response)
 }
@@ -284,13 +178,7 @@ export async function registerUser(
 export async function loginUser(
   credentials: LoginCredentials
 ): Promise<AuthResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/login/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(credentials),
-  })
+  const response = await send('/api/auth/login/', { method: 'POST', auth: false, json: credentials })
 
   return handleResponse<AuthResponse>(response)
 }
@@ -300,13 +188,7 @@ export async function loginUser(
  * POST /api/auth/google/
  */
 export async function googleLogin(credential: string): Promise<AuthResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/google/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ credential }),
-  })
+  const response = await send('/api/auth/google/', { method: 'POST', auth: false, json: { credential } })
 
   const result = await handleResponse<AuthResponse>(response)
   tokenManager.setTokens(result.access, result.refresh)
@@ -319,13 +201,7 @@ export async function googleLogin(credential: string): Promise<AuthResponse> {
  * GET /api/auth/me/
  */
 export async function getCurrentUser(accessToken: string): Promise<User> {
-  const response = await fetch(`${BASE_URL}/api/auth/me/`, {
-    method: 'GET',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-  })
+  const response = await send('/api/auth/me/', { method: 'GET', headers: bearer(accessToken) })
 
   return handleResponse<User>(response)
 }
@@ -337,13 +213,7 @@ export async function getCurrentUser(accessToken: string): Promise<User> {
 export async function refreshAccessToken(
   refreshToken: string
 ): Promise<AuthResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/refresh/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ refresh: refreshToken }),
-  })
+  const response = await send('/api/auth/refresh/', { method: 'POST', auth: false, json: { refresh: refreshToken } })
 
   return handleResponse<AuthResponse>(response)
 }
@@ -353,13 +223,7 @@ export async function refreshAccessToken(
  * POST /api/auth/logout/
  */
 export async function logoutUser(accessToken: string): Promise<OTPResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/logout/`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-  })
+  const response = await send('/api/auth/logout/', { method: 'POST', headers: bearer(accessToken) })
 
   return handleResponse<OTPResponse>(response)
 }
@@ -369,13 +233,7 @@ export async function logoutUser(accessToken: string): Promise<OTPResponse> {
  * POST /api/auth/request-login-otp/
  */
 export async function requestLoginOTP(email: string): Promise<OTPResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/request-login-otp/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ email }),
-  })
+  const response = await send('/api/auth/request-login-otp/', { method: 'POST', auth: false, json: { email } })
 
   return handleResponse<OTPResponse>(response)
 }
@@ -387,13 +245,7 @@ export async function requestLoginOTP(email: string): Promise<OTPResponse> {
 export async function verifyEmailOTP(
   data: VerifyOTPData
 ): Promise<AuthResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/verify-email-otp/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(data),
-  })
+  const response = await send('/api/auth/verify-email-otp/', { method: 'POST', auth: false, json: data })
 
   const result = await handleResponse<AuthResponse>(response)
   tokenManager.setTokens(result.access, result.refresh)
@@ -406,13 +258,7 @@ export async function verifyEmailOTP(
  * POST /api/auth/forgot-password/
  */
 export async function requestPasswordReset(email: string): Promise<OTPResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/forgot-password/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ email }),
-  })
+  const response = await send('/api/auth/forgot-password/', { method: 'POST', auth: false, json: { email } })
 
   return handleResponse<OTPResponse>(response)
 }
@@ -424,16 +270,7 @@ export async function requestPasswordReset(email: string): Promise<OTPResponse>
 export async function verifyPasswordResetOTP(
   data: VerifyOTPData
 ): Promise<OTPResponse> {
-  const response = await fetch(
-    `${BASE_URL}/api/auth/verify-password-reset-otp/`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    }
-  )
+  const response = await send('/api/auth/verify-password-reset-otp/', { method: 'POST', auth: false, json: data })
 
   return handleResponse<OTPResponse>(response)
 }
@@ -445,16 +282,7 @@ export async function verifyPasswordResetOTP(
 export async function resendPasswordResetOTP(
   email: string
 ): Promise<OTPResponse> {
-  const response = await fetch(
-    `${BASE_URL}/api/auth/resend-password-reset-otp/`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ email }),
-    }
-  )
+  const response = await send('/api/auth/resend-password-reset-otp/', { method: 'POST', auth: false, json: { email } })
 
   return handleResponse<OTPResponse>(response)
 }
@@ -466,13 +294,7 @@ export async function resendPasswordResetOTP(
 export async function resetPassword(
   data: ResetPasswordData
 ): Promise<OTPResponse> {
-  const response = await fetch(`${BASE_URL}/api/auth/reset-password/`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(data),
-  })
+  const response = await send('/api/auth/reset-password/', { method: 'POST', auth: false, json: data })
 
   return handleResponse<OTPResponse>(response)
 }
@@ -503,160 +325,84 @@ export interface ContractVersion {
 export const contractAPI = {
   // GET /api/contracts/statistics/
   getStatistics: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/statistics/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/contracts/statistics/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any>(response)
   },
 
   // GET /api/contracts/recent/
   getRecentContracts: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/recent/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/contracts/recent/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any>(response)
   },
 
   // GET /api/contracts/
   listContracts: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/contracts/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<Contract[]>(response)
   },
 
   // POST /api/contracts/
   createContract: async (accessToken: string, data: any) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send('/api/contracts/', { method: 'POST', headers: bearer(accessToken), json: data })
 
     return handleResponse<Contract>(response)
   },
 
   // GET /api/contracts/{id}/
   getContractById: async (accessToken: string, id: string) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/${id}/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send(`/api/contracts/${id}/`, { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<Contract>(response)
   },
 
   // PUT /api/contracts/{id}/
   updateContract: async (accessToken: string, id: string, data: any) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/${id}/`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send(`/api/contracts/${id}/`, { method: 'PUT', headers: bearer(accessToken), json: data })
 
     return handleResponse<Contract>(response)
   },
 
   // POST /api/contracts/{id}/clone/
   cloneContract: async (accessToken: string, id: string) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/${id}/clone/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send(`/api/contracts/${id}/clone/`, { method: 'POST', headers: bearer(accessToken) })
 
     return handleResponse<Contract>(response)
   },
 
   // POST /api/contracts/{id}/versions/
   createContractVersion: async (accessToken: string, id: string, data: any) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/${id}/versions/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send(`/api/contracts/${id}/versions/`, { method: 'POST', headers: bearer(accessToken), json: data })
 
     return handleResponse<ContractVersion>(response)
   },
 
   // GET /api/contracts/{id}/versions/
   listContractVersions: async (accessToken: string, id: string) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/${id}/versions/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send(`/api/contracts/${id}/versions/`, { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<ContractVersion[]>(response)
   },
 
   // POST /api/contracts/validate-clauses/
   validateClauses: async (accessToken: string, clauses: unknown[]) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/validate-clauses/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify({ clauses }),
-    })
+    const response = await send('/api/contracts/validate-clauses/', { method: 'POST', headers: bearer(accessToken), json: { clauses } })
 
     return handleResponse<any>(response)
   },
 
   // GET /api/contracts/search/
   searchContracts: async (accessToken: string, query: string) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/search/?q=${encodeURIComponent(query)}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send(`/api/contracts/search/?q=${encodeURIComponent(query)}`, { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<Contract[]>(response)
   },
 
   // GET /api/contracts/filter/
   filterContracts: async (accessToken: string, status: string) => {
-    const response = await fetch(`${BASE_URL}/api/contracts/filter/?status=${status}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send(`/api/contracts/filter/?status=${status}`, { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<Contract[]>(response)
   },
@@ -736,13 +482,7 @@ export interface TemplateCreateResponse {
 export const templateAPI = {
   // GET /api/v1/templates/types/ - Get all template types
   getAllTemplateTypes: async (accessToken: string): Promise<TemplateTypesResponse> => {
-    const response = await fetch(`${BASE_URL}/api/v1/templates/types/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/v1/templates/types/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<TemplateTypesResponse>(response)
   },
@@ -752,26 +492,14 @@ export const templateAPI = {
     accessToken: string,
     templateType: string
   ): Promise<TemplateTypeDetailResponse> => {
-    const response = await fetch(`${BASE_URL}/api/v1/templates/types/${templateType}/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send(`/api/v1/templates/types/${templateType}/`, { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<TemplateTypeDetailResponse>(response)
   },
 
   // GET /api/v1/templates/summary/ - Get template summary
   getTemplateSummary: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/v1/templates/summary/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/v1/templates/summary/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any>(response)
   },
@@ -781,14 +509,7 @@ export const templateAPI = {
     accessToken: string,
     data: TemplateValidateRequest
   ): Promise<TemplateValidateResponse> => {
-    const response = await fetch(`${BASE_URL}/api/v1/templates/validate/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send('/api/v1/templates/validate/', { method: 'POST', headers: bearer(accessToken), json: data })
 
     return handleResponse<TemplateValidateResponse>(response)
   },
@@ -798,14 +519,7 @@ export const templateAPI = {
     accessToken: string,
     data: TemplateCreateRequest
   ): Promise<TemplateCreateResponse> => {
-    const response = await fetch(`${BASE_URL}/api/v1/templates/create-from-type/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send('/api/v1/templates/create-from-type/', { method: 'POST', headers: bearer(accessToken), json: data })
 
     return handleResponse<TemplateCreateResponse>(response)
   },
@@ -813,40 +527,21 @@ export const templateAPI = {
   // Legacy endpoints (kept for backward compatibility)
   // GET /api/v1/contract-templates/
   getTemplates: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/v1/contract-templates/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/v1/contract-templates/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any[]>(response)
   },
 
   // POST /api/v1/contract-templates/
   createTemplate: async (accessToken: string, data: any) => {
-    const response = await fetch(`${BASE_URL}/api/v1/contract-templates/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send('/api/v1/contract-templates/', { method: 'POST', headers: bearer(accessToken), json: data })
 
     return handleResponse<any>(response)
   },
 
   // GET /api/v1/contract-templates/{id}/
   getTemplateById: async (accessToken: string, id: string) => {
-    const response = await fetch(`${BASE_URL}/api/v1/contract-templates/${id}/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send(`/api/v1/contract-templates/${id}/`, { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any>(response)
   },
@@ -855,40 +550,21 @@ export const templateAPI = {
 export const workflowAPI = {
   // GET /api/workflows/
   getWorkflows: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/workflows/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/workflows/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any[]>(response)
   },
 
   // POST /api/workflows/
   createWorkflow: async (accessToken: string, data: any) => {
-    const response = await fetch(`${BASE_URL}/api/workflows/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send('/api/workflows/', { method: 'POST', headers: bearer(accessToken), json: data })
 
     return handleResponse<any>(response)
   },
 
   // GET /api/workflows/{id}/
   getWorkflowById: async (accessToken: string, id: string) => {
-    const response = await fetch(`${BASE_URL}/api/workflows/${id}/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send(`/api/workflows/${id}/`, { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any>(response)
   },
@@ -897,27 +573,14 @@ export const workflowAPI = {
 export const notificationAPI = {
   // GET /api/notifications/
   getNotifications: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/notifications/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/notifications/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any[]>(response)
   },
 
   // POST /api/notifications/
   createNotification: async (accessToken: string, data: any) => {
-    const response = await fetch(`${BASE_URL}/api/notifications/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send('/api/notifications/', { method: 'POST', headers: bearer(accessToken), json: data })
 
     return handleResponse<any>(response)
   },
@@ -926,27 +589,14 @@ export const notificationAPI = {
 export const approvalAPI = {
   // POST /api/approval-requests/
   createApprovalRequest: async (accessToken: string, data: any) => {
-    const response = await fetch(`${BASE_URL}/api/approval-requests/`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-      body: JSON.stringify(data),
-    })
+    const response = await send('/api/approval-requests/', { method: 'POST', headers: bearer(accessToken), json: data })
 
     return handleResponse<any>(response)
   },
 
   // GET /api/approval-requests/pending/
   getPendingApprovals: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/approval-requests/pending/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/approval-requests/pending/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any[]>(response)
   },
@@ -955,39 +605,21 @@ export const approvalAPI = {
 export const repositoryAPI = {
   // GET /api/documents/
   getDocuments: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/documents/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/documents/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any[]>(response)
   },
 
   // GET /api/repository/
   getRepositoryContents: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/repository/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/repository/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any>(response)
   },
 
   // GET /api/repository/folders/
   getRepositoryFolders: async (accessToken: string) => {
-    const response = await fetch(`${BASE_URL}/api/repository/folders/`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${accessToken}`,
-      },
-    })
+    const response = await send('/api/repository/folders/', { method: 'GET', headers: bearer(accessToken) })
 
     return handleResponse<any[]>(response)
   },
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useState, useEffect } from 'react'
 import { authAPI, tokenManager, User } from './api'
 import { ApiClient } from './api-client'
+import { sessionMonitor } from './session'
 
 interface AuthContextType {
   isAuthenticated: boolean
@@ -38,9 +39,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           const client = new ApiClient()
           const me = await client.getCurrentUser()
           if (me.success && me.data) {
-            const u = (me.data as any) as User
-            setUser(u)
-            tokenManager.setUser(u)
+            setUser(me.data)
+            tokenManager.setUser(me.data)
           }
         } catch {
           // ignore
@@ -68,13 +68,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
 
     if (typeof window !== 'undefined') {
+      // Both also fire for logins, refreshes and logouts in other tabs (see `./http`).
       window.addEventListener('auth:logout', handleLogout)
       window.addEventListener('auth:tokens', syncFromStorage)
-      window.addEventListener('storage', (e) => {
-        if (e.key === 'access_token' && !e.newValue) {
-          handleLogout()
-        }
-      })
+      sessionMonitor.start()
     }
 
     return () => {
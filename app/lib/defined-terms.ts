@@ -0,0 +1,206 @@
+/**
+ * Defined terms of a contract and how consistently they are used.
+ *
+ * Definitions are quoted capitalised terms followed by "means" (or "has the
+ * meaning", "refers to", "includes"), introduced by "referred to as", or quoted
+ * inside a parenthesis (`(the "Services")`). Every other whole-word occurrence
+ * of a term, or of its plural, is a use, except in the sentence a parenthesis
+ * defines it from. The text comes in blocks (paragraphs),
+ * so callers can map positions back to their own document model.
+ */
+
+export type TermIssueKind = 'used-before-definition' | 'unused' | 'inconsistent-case' | 'defined-twice'
+
+/** `start`/`end` are offsets into `blocks[block]`. */
+export interface TextSpan {
+  block: number
+  start: number
+  end: number
+}
+
+export interface DefinedTerm {
+  term: string
+  /** The first definition (the quoted term). */
+  definition: TextSpan
+  uses: TextSpan[]
+}
+
+export interface TermIssue {
+  kind: TermIssueKind
+  term: string
+  span: TextSpan
+  /** The text at `span`, as written. */
+  text: string
+  message: string
+}
+
+export interface DefinedTermsReport {
+  terms: DefinedTerm[]
+  issues: TermIssue[]
+}
+
+// Up to six words, starting with a capital of any script ("Société", "Übergabe"), as written between the quotes.
+const QUOTED_TERM = /["“](\p{Lu}[\p{L}\p{N}_'’&/-]*(?:\s+[\p{L}\p{N}_'’&/-]+){0,5})["”]/gu
+const DEFINES_AFTER = /^\s*,?\s*(?:shall\s+)?(?:means?|has\s+the\s+meaning|shall\s+have\s+the\s+meaning|refers?\s+to|includes?)\b/i
+const DEFINES_BEFORE = /\b(?:referred\s+to\s+as|defined\s+as|known\s+as)\s+(?:the\s+)?$/i
+
+/** Inside a parenthesis that is still open at `index`. */
+function inParenthesis(text: string, index: number): boolean {
+  const open = text.lastIndexOf('(', index)
+  return open !== -1 && text.lastIndexOf(')', index) < open
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * The term and its plural ("Party" → "Parties"), also possessive ("Supplier's",
+ * matched without the "'s") and after a prefix ("non-Disclosing Party").
+ */
+function termPattern(term: string): RegExp {
+  const plural = /[^aeiou]y$/i.test(term) ? `${escapeRegExp(term.slice(0, -1))}ies` : `${escapeRegExp(term)}(?:e?s)?`
+  return new RegExp(`(?<![\\p{L}\\p{N}_'’])(?:${escapeRegExp(term)}|${plural})(?=(?:['’]s)?(?![\\p{L}\\p{N}_'’-]))`, 'giu')
+}
+
+const before = (a: TextSpan, b: TextSpan) => a.block < b.block || (a.block === b.block && a.start < b.start)
+
+const within = (outer: TextSpan, span: TextSpan) =>
+  outer.block === span.block && outer.start <= span.start && span.end <= outer.end
+
+/** Spans that do not overlap one another, per block and sorted by start, so overlaps are found by binary search. */
+type SpanIndex = Map<number, TextSpan[]>
+
+/** Index of the last span in `spans` starting before `end` (-1: none). */
+function lastStartingBefore(spans: TextSpan[], end: number): number {
+  let low = 0
+  let high = spans.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (spans[mid].start < end) low = mid + 1
+    else high = mid
+  }
+  return low - 1
+}
+
+// Spans that do not overlap end in the order they start, so only the last one starting before `span` ends can reach it.
+function overlaps(index: SpanIndex, span: TextSpan): boolean {
+  const spans = index.get(span.block)
+  if (!spans) return false
+  const i = lastStartingBefore(spans, span.end)
+  return i >= 0 && spans[i].end > span.start
+}
+
+/** Adds `span`, which overlaps none of `index`. */
+function addSpan(index: SpanIndex, span: TextSpan) {
+  const spans = index.get(span.block) || []
+  spans.splice(lastStartingBefore(spans, span.end) + 1, 0, span)
+  index.set(span.block, spans)
+}
+
+/** Where the sentence around `index` starts. */
+function sentenceStart(text: string, index: number): number {
+  const ends = [...text.slice(0, index).matchAll(/[.;:!?]\s+/g)]
+  const last = ends[ends.length - 1]
+  return last ? (last.index ?? 0) + last[0].length : 0
+}
+
+interface Definition {
+  /** The quoted term. */
+  span: TextSpan
+  /**
+   * For a definition in a parenthesis, its sentence up to the parenthesis: it names what is defined
+   * (`This Agreement (the "Agreement")`), so the term there is not a use.
+   */
+  lead?: TextSpan
+}
+
+function findDefinitions(blocks: string[]): Map<string, Definition[]> {
+  const definitions = new Map<string, Definition[]>()
+  blocks.forEach((text, block) => {
+    for (const match of text.matchAll(QUOTED_TERM)) {
+      const index = match.index ?? 0
+      const end = index + match[0].length
+      const parenthetical = inParenthesis(text, index)
+      const defines =
+        DEFINES_AFTER.test(text.slice(end, end + 40)) ||
+        DEFINES_BEFORE.test(text.slice(Math.max(0, index - 30), index)) ||
+        parenthetical
+      if (!defines) continue
+      const term = match[1].replace(/\s+/g, ' ')
+      // The span covers the term, not its quotes.
+      const definition: Definition = { span: { block, start: index + 1, end: end - 1 } }
+      if (parenthetical) {
+        const open = text.lastIndexOf('(', index)
+        definition.lead = { block, start: sentenceStart(text, open), end: open }
+      }
+      definitions.set(term, [...(definitions.get(term) || []), definition])
+    }
+  })
+  return definitions
+}
+
+/** Definitions, uses and the issues found in `blocks` (paragraph texts, in document order). */
+export function analyzeDefinedTerms(blocks: string[]): DefinedTermsReport {
+  const definitions = findDefinitions(blocks)
+  const allDefinitions: SpanIndex = new Map()
+  for (const definition of [...definitions.values()].flat()) addSpan(allDefinitions, definition.span)
+  const issues: TermIssue[] = []
+  const textAt = (span: TextSpan) => blocks[span.block].slice(span.start, span.end)
+
+  // Longest terms first, so "Confidential Information" is not also a use of "Information".
+  const claimed: SpanIndex = new Map()
+  const byLength = [...definitions.keys()].sort((a, b) => b.length - a.length)
+  const found = new Map<string, DefinedTerm>()
+
+  for (const term of byLength) {
+    const defined = definitions.get(term)!
+    const spans = defined.map((d) => d.span)
+    const leads = defined.flatMap((d) => (d.lead ? [d.lead] : []))
+    const uses: TextSpan[] = []
+    const pattern = termPattern(term)
+    blocks.forEach((text, block) => {
+      for (const match of text.matchAll(pattern)) {
+        const span = { block, start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }
+        if (overlaps(allDefinitions, span) || overlaps(claimed, span)) continue
+        addSpan(claimed, span)
+        if (leads.some((lead) => within(lead, span))) continue
+        const written = match[0]
+        const exact = written.startsWith(term) || (term.endsWith('y') && written.startsWith(term.slice(0, -1)))
+        if (exact) {
+          uses.push(span)
+        } else if (written !== written.toUpperCase()) {
+          // All-caps text (headings) is not a capitalisation slip.
+          issues.push({
+            kind: 'inconsistent-case',
+            term,
+            span,
+            text: written,
+            message: `"${written}" should be capitalised as the defined term "${term}".`,
+          })
+        }
+      }
+    })
+
+    const definition = spans[0]
+    found.set(term, { term, definition, uses })
+    for (const use of uses.filter((u) => before(u, definition))) {
+      issues.push({
+        kind: 'used-before-definition',
+        term,
+        span: use,
+        text: textAt(use),
+        message: `"${term}" is used before it is defined.`,
+      })
+    }
+    if (!uses.length) {
+      issues.push({ kind: 'unused', term, span: definition, text: term, message: `"${term}" is defined but never used.` })
+    }
+    for (const again of spans.slice(1)) {
+      issues.push({ kind: 'defined-twice', term, span: again, text: term, message: `"${term}" is defined more than once.` })
+    }
+  }
+
+  // Terms in the order they are defined; issues in document order.
+  const terms = [...found.values()].sort((a, b) => (before(a.definition, b.definition) ? -1 : 1))
+  issues.sort((a, b) => (before(a.span, b.span) ? -1 : before(b.span, a.span) ? 1 : 0))
+  return { terms, issues }
+}
@@ -0,0 +1,476 @@
+/**
+ * Word (.docx) import and export for contracts, done in the browser.
+ *
+ * Import goes through mammoth to editor HTML: headings, lists, tables, bold /
+ * italic / underline and images come across, and numbered headings (or
+ * paragraphs styled "Clause N") become numbered clauses. Export builds the
+ * document from the editor's JSON with `docx`: clause numbers become Word
+ * numbering, cross-references links to bookmarked clauses, and suggestions
+ * tracked revisions, so the file keeps working in Word. Page breaks and
+ * keep-with-next carry over, on the contract's page size. A file exported
+ * here comes back with its clauses and cross-references intact.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import mammoth from 'mammoth'
+import type { NumberingScheme } from '@/app/components/tiptap/ClauseNumberingExtension'
+import {
+  AlignmentType,
+  Bookmark,
+  BorderStyle,
+  DeletedTextRun,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  InsertedTextRun,
+  InternalHyperlink,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ILevelsOptions,
+  type IParagraphOptions,
+  type IRunOptions,
+  type ParagraphChild,
+} from 'docx'
+import { PAGE_SIZES, type PageSize } from './page-setup'
+
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+export const isDocxFile = (file: File) => file.name.toLowerCase().endsWith('.docx') || file.type === DOCX_MIME
+
+// ==================== IMPORT ====================
+
+export interface DocxImport {
+  html: string
+  text: string
+  /** What mammoth could not convert (unknown styles, unsupported content). */
+  warnings: string[]
+}
+
+// Editor headings go down to h3.
+const HEADING_STYLE = /^heading\s*(\d)$/i
+const CLAUSE_STYLE = /^clause\s*(\d)$/i
+const CLAUSE_LEVELS = 4
+
+// Numbered clauses reach the style map under a made-up style name, which maps them to a classed tag.
+const clauseStyleName = (tag: string, level: number) => `docx-clause ${tag} ${level}`
+
+const STYLE_MAP = [
+  'u => u',
+  ...['p', 'h1', 'h2', 'h3'].flatMap((tag) =>
+    Array.from({ length: CLAUSE_LEVELS }, (_, i) => `p[style-name='${clauseStyleName(tag, i + 1)}'] => ${tag}.docx-clause-${i + 1}:fresh`)
+  ),
+  "p[style-name='Heading 4'] => h3:fresh",
+  "p[style-name='Heading 5'] => h3:fresh",
+  "p[style-name='Heading 6'] => h3:fresh",
+]
+
+/** mammoth document transform: numbered headings / "Clause N" paragraphs lose their list numbering and become clauses. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- mammoth's document model is untyped
+function markClauses(element: any): any {
+  if (element.type === 'paragraph') {
+    const numbering = element.numbering
+    const heading = HEADING_STYLE.exec(element.styleName || '')
+    if (!numbering?.isOrdered || (!heading && !CLAUSE_STYLE.test(element.styleName || ''))) return element
+    const tag = heading ? `h${Math.min(3, Number(heading[1]) || 1)}` : 'p'
+    const level = Math.min(CLAUSE_LEVELS, Number(numbering.level) + 1 || 1)
+    return { ...element, styleName: clauseStyleName(tag, level), numbering: null }
+  }
+  return Array.isArray(element.children) ? { ...element, children: element.children.map(markClauses) } : element
+}
+
+export async function importDocx(data: ArrayBuffer): Promise<DocxImport> {
+  const [converted, raw] = await Promise.all([
+    mammoth.convertToHtml({ arrayBuffer: data }, { styleMap: STYLE_MAP, transformDocument: markClauses }),
+    mammoth.extractRawText({ arrayBuffer: data }),
+  ])
+  const html = converted.value
+    // The editor numbers a clause from an empty `clauseNumber` chip at its start.
+    .replace(
+      /<(p|h[1-3]) class="docx-clause-(\d)">/g,
+      (_, tag: string, level: string) => `<${tag}><span class="clause-number" data-clause-anchor="" data-clause-level="${level}"></span>`
+    )
+    // Clauses exported from here keep their anchor (the bookmark right after the number), and links to them are cross-references again.
+    .replace(/data-clause-anchor="" (data-clause-level="\d")><\/span><a id="_Ref_(\w+)"><\/a>/g, 'data-clause-anchor="$2" $1></span>')
+    .replace(/<a href="#_Ref_(\w+)">([^<]*)<\/a>/g, '<span class="clause-ref" data-clause-ref="$1">$2</span>')
+  return {
+    html,
+    text: raw.value.replace(/\n{3,}/g, '\n\n').trim(),
+    warnings: converted.messages.map((m) => m.message),
+  }
+}
+
+// ==================== EXPORT ====================
+
+export interface DocxExportOptions {
+  title: string
+  /** Numbering scheme of the document's clauses (Word numbers them itself). */
+  clauseNumbering: NumberingScheme
+  /** Letter unless given. */
+  pageSize?: PageSize
+}
+
+// 1" margins on the PDF's page sizes.
+const MARGIN = 1440
+const TWIPS_PER_PT = 20
+const TWIPS_PER_PX = 15
+const INDENT = 720
+
+const CLAUSES = 'clauses'
+const ORDERED = 'ordered-list'
+const BULLETS = 'bullet-list'
+
+const COUNTER_FORMATS = {
+  decimal: LevelFormat.DECIMAL,
+  'lower-alpha': LevelFormat.LOWER_LETTER,
+  'upper-alpha': LevelFormat.UPPER_LETTER,
+  'lower-roman': LevelFormat.LOWER_ROMAN,
+  'upper-roman': LevelFormat.UPPER_ROMAN,
+} as const
+
+const ALIGNMENTS: Record<string, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED,
+}
+
+const HEADINGS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3]
+
+/** The same labels as the editor (`1.`, `4.2`, `(a)`), as Word level text. */
+function clauseLevels(scheme: NumberingScheme): ILevelsOptions[] {
+  return scheme.levels.map((level, i) => {
+    const own = `%${i + 1}`
+    const shown = level.bracketed
+      ? `(${own})`
+      : level.full
+        ? scheme.levels.slice(0, i + 1).map((l, j) => (l.bracketed ? `(%${j + 1})` : `%${j + 1}`)).join('.').replace(/\.\(/g, '(')
+        : own
+    return {
+      level: i,
+      format: COUNTER_FORMATS[level.style],
+      text: shown.includes('.') || shown.includes('(') ? shown : `${shown}.`,
+      alignment: AlignmentType.LEFT,
+      style: { paragraph: { indent: { left: INDENT * (i + 1), hanging: INDENT } } },
+    }
+  })
+}
+
+function listLevels(ordered: boolean): ILevelsOptions[] {
+  const formats = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN]
+  const bullets = ['•', '◦', '▪']
+  return Array.from({ length: 6 }, (_, i) => ({
+    level: i,
+    format: ordered ? formats[i % 3] : LevelFormat.BULLET,
+    text: ordered ? `%${i + 1}.` : bullets[i % 3],
+    alignment: AlignmentType.LEFT,
+    style: { paragraph: { indent: { left: INDENT * (i + 1), hanging: 360 } } },
+  }))
+}
+
+const hexColor = (value: unknown): string | undefined => {
+  const s = String(value || '').trim()
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(s)
+  if (short) return `${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`.toUpperCase()
+  const long = /^#([0-9a-f]{6})$/i.exec(s)
+  if (long) return long[1].toUpperCase()
+  const rgb = /^rgba?\((\d+),\s*(\d+),\s*(\d+)/i.exec(s)
+  return rgb ? rgb.slice(1, 4).map((n) => Number(n).toString(16).padStart(2, '0')).join('').toUpperCase() : undefined
+}
+
+// A clause anchor as a Word bookmark name (hidden `_Ref…` bookmarks are what Word's own cross-references use).
+const bookmarkName = (anchor: string) => `_Ref_${anchor.replace(/\W/g, '_')}`.slice(0, 40)
+
+function runOptions(marks: JSONContent['marks'] = []): IRunOptions {
+  let options: IRunOptions = {}
+  for (const mark of marks) {
+    const attrs = mark.attrs || {}
+    if (mark.type === 'bold') options = { ...options, bold: true }
+    if (mark.type === 'italic') options = { ...options, italics: true }
+    if (mark.type === 'underline') options = { ...options, underline: {} }
+    if (mark.type === 'strike') options = { ...options, strike: true }
+    if (mark.type === 'subscript') options = { ...options, subScript: true }
+    if (mark.type === 'superscript') options = { ...options, superScript: true }
+    if (mark.type === 'code') options = { ...options, font: 'Courier New' }
+    if (mark.type === 'highlight') {
+      options = { ...options, shading: { type: ShadingType.CLEAR, color: 'auto', fill: hexColor(attrs.color) || 'FEF08A' } }
+    }
+    if (mark.type === 'textStyle') {
+      const size = parseFloat(String(attrs.fontSize || ''))
+      const font = String(attrs.fontFamily || '').split(',')[0].replace(/["']/g, '').trim()
+      options = {
+        ...options,
+        ...(hexColor(attrs.color) ? { color: hexColor(attrs.color) } : {}),
+        // px to half-points
+        ...(size > 0 ? { size: Math.round(size * 1.5) } : {}),
+        ...(font && !font.startsWith('ui-') ? { font } : {}),
+      }
+    }
+  }
+  return options
+}
+
+interface LoadedImage {
+  data: Uint8Array
+  type: 'png' | 'jpg' | 'gif' | 'bmp'
+  width: number
+  height: number
+}
+
+async function loadImage(src: string): Promise<LoadedImage | null> {
+  const match = /^data:image\/(png|jpe?g|gif|bmp);base64,/i.exec(src)
+  if (!match || typeof createImageBitmap !== 'function') return null
+  try {
+    const blob = await fetch(src).then((r) => r.blob())
+    const bitmap = await createImageBitmap(blob)
+    const image: LoadedImage = {
+      data: new Uint8Array(await blob.arrayBuffer()),
+      type: match[1].toLowerCase().startsWith('jp') ? 'jpg' : (match[1].toLowerCase() as LoadedImage['type']),
+      width: bitmap.width,
+      height: bitmap.height,
+    }
+    bitmap.close()
+    return image
+  } catch {
+    return null
+  }
+}
+
+function collectImages(node: JSONContent, out: Set<string>) {
+  if (node.type === 'image' && node.attrs?.src) out.add(String(node.attrs.src))
+  node.content?.forEach((child) => collectImages(child, out))
+}
+
+/** Writes one document; keeps the state that spans blocks (list instances, revision ids). */
+class DocxWriter {
+  private listInstance = 0
+  private revisionIds = new Map<string, number>()
+
+  constructor(
+    private images: Map<string, LoadedImage>,
+    private textWidth: number
+  ) {}
+
+  private revisionId(changeId: unknown) {
+    const key = String(changeId || '')
+    if (!this.revisionIds.has(key)) this.revisionIds.set(key, this.revisionIds.size + 1)
+    return this.revisionIds.get(key)!
+  }
+
+  private inline(nodes: JSONContent[] = []): ParagraphChild[] {
+    const out: ParagraphChild[] = []
+    for (const node of nodes) {
+      const marks = node.marks || []
+      const options = runOptions(marks)
+      const insertion = marks.find((m) => m.type === 'insertion')
+      const deletion = marks.find((m) => m.type === 'deletion')
+      const link = marks.find((m) => m.type === 'link')
+      let text: string | null = null
+      if (node.type === 'text') text = node.text || ''
+      if (node.type === 'mergeField') text = String(node.attrs?.value || '') || `{{${node.attrs?.key}}}`
+      if (node.type === 'hardBreak') {
+        out.push(new TextRun({ ...options, break: 1 }))
+        continue
+      }
+      if (node.type === 'clauseRef') {
+        const run = new TextRun({ ...options, text: String(node.attrs?.label || '?') })
+        out.push(
+          node.attrs?.broken ? run : new InternalHyperlink({ anchor: bookmarkName(String(node.attrs?.target || '')), children: [run] })
+        )
+        continue
+      }
+      // Clause numbers are the paragraph's Word numbering.
+      if (text === null) continue
+
+      const href = link?.attrs?.href ? String(link.attrs.href) : null
+      const runOpts = { ...options, text, ...(href ? { style: 'Hyperlink' } : {}) }
+      const revision = insertion || deletion
+      const run = revision
+        ? new (insertion ? InsertedTextRun : DeletedTextRun)({
+            ...runOpts,
+            id: this.revisionId(revision.attrs?.id),
+            author: String(revision.attrs?.authorName || 'Unknown author'),
+            date: String(revision.attrs?.date || new Date().toISOString()),
+          })
+        : new TextRun(runOpts)
+      out.push(href ? new ExternalHyperlink({ link: href, children: [run] }) : run)
+    }
+    return out
+  }
+
+  private paragraph(node: JSONContent, extra: IParagraphOptions = {}): Paragraph {
+    const content = node.content || []
+    const clause = content.find((c) => c.type === 'clauseNumber' && !(c.marks || []).some((m) => m.type === 'deletion'))
+    const anchor = String(clause?.attrs?.id || '')
+    const children = this.inline(content)
+    const heading = node.type === 'heading' ? HEADINGS[Math.min(HEADINGS.length, Number(node.attrs?.level) || 1) - 1] : null
+    const clauseLevel = Math.min(CLAUSE_LEVELS, Number(clause?.attrs?.level) || 1)
+    return new Paragraph({
+      ...extra,
+      ...(heading ? { heading } : {}),
+      ...(node.attrs?.keepWithNext ? { keepNext: true } : {}),
+      ...(ALIGNMENTS[String(node.attrs?.textAlign)] ? { alignment: ALIGNMENTS[String(node.attrs?.textAlign)] } : {}),
+      // Numbered paragraphs get a "Clause N" style, so they read back as clauses rather than a list.
+      ...(clause
+        ? { numbering: { reference: CLAUSES, level: clauseLevel - 1 }, ...(heading ? {} : { style: `Clause${clauseLevel}` }) }
+        : {}),
+      children: anchor ? [new Bookmark({ id: bookmarkName(anchor), children })] : children,
+    })
+  }
+
+  private table(node: JSONContent): Table {
+    const rows = node.content || []
+    // Column widths from the first row, in twips; unsized columns share what is left.
+    const widths = (rows[0]?.content || []).flatMap((cell) => {
+      const span = Number(cell.attrs?.colspan) || 1
+      const saved = Array.isArray(cell.attrs?.colwidth) ? (cell.attrs.colwidth as number[]) : []
+      return Array.from({ length: span }, (_, i) => (saved[i] ? saved[i] * TWIPS_PER_PX : 0))
+    })
+    const sized = widths.reduce((a, b) => a + b, 0)
+    const unsized = widths.filter((w) => !w).length
+    const rest = unsized ? Math.max(0, this.textWidth - sized) / unsized : 0
+    const scale = sized + rest * unsized > this.textWidth ? this.textWidth / (sized + rest * unsized) : 1
+    const columnWidths = widths.map((w) => Math.round((w || rest) * scale))
+
+    return new Table({
+      width: { size: this.textWidth, type: WidthType.DXA },
+      columnWidths,
+      rows: rows.map((row) => {
+        const cells = row.content || []
+        const header = cells.length > 0 && cells.every((c) => c.type === 'tableHeader')
+        return new TableRow({
+          // Only set when on: readers take `tblHeader` as set even with `val="off"`.
+          ...(header ? { tableHeader: true } : {}),
+          children: cells.map((cell) => {
+            const blocks = this.blocks(cell.content || [])
+            const colspan = Number(cell.attrs?.colspan) || 1
+            const rowspan = Number(cell.attrs?.rowspan) || 1
+            return new TableCell({
+              children: blocks.length ? blocks : [new Paragraph({})],
+              ...(colspan > 1 ? { columnSpan: colspan } : {}),
+              ...(rowspan > 1 ? { rowSpan: rowspan } : {}),
+              ...(cell.type === 'tableHeader' ? { shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F6F3ED' } } : {}),
+            })
+          }),
+        })
+      }),
+    })
+  }
+
+  private list(node: JSONContent, depth: number, quote: number): Array<Paragraph | Table> {
+    const ordered = node.type === 'orderedList'
+    const instance = ++this.listInstance
+    return (node.content || []).flatMap((item) =>
+      (item.content || []).flatMap((child, index) => {
+        if (child.type === 'bulletList' || child.type === 'orderedList') return this.list(child, depth + 1, quote)
+        // The item's first paragraph carries the number; later ones line up with its text.
+        if (index === 0 && (child.type === 'paragraph' || child.type === 'heading')) {
+          return [this.paragraph(child, { numbering: { reference: ordered ? ORDERED : BULLETS, level: depth, instance } })]
+        }
+        return this.blocks([child], quote, INDENT * (depth + 1))
+      })
+    )
+  }
+
+  blocks(nodes: JSONContent[], quote = 0, indent = 0): Array<Paragraph | Table> {
+    const left = indent + quote * INDENT
+    const extra: IParagraphOptions = left ? { indent: { left } } : {}
+    return nodes.flatMap((node): Array<Paragraph | Table> => {
+      switch (node.type) {
+        case 'paragraph':
+        case 'heading':
+          return [this.paragraph(node, extra)]
+        case 'bulletList':
+        case 'orderedList':
+          return this.list(node, 0, quote)
+        case 'blockquote':
+          return this.blocks(node.content || [], quote + 1, indent)
+        case 'table':
+          return [this.table(node)]
+        case 'horizontalRule':
+          return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'auto', space: 1 } } })]
+        case 'pageBreak':
+          return [new Paragraph({ children: [new PageBreak()] })]
+        case 'image': {
+          const image = this.images.get(String(node.attrs?.src || ''))
+          if (!image) return []
+          // The editor sizes images as a share of the text width.
+          const share = Math.min(100, parseFloat(String(node.attrs?.width || '')) || 100) / 100
+          const width = Math.min(image.width, (this.textWidth / TWIPS_PER_PX) * share)
+          return [
+            new Paragraph({
+              ...extra,
+              alignment: ALIGNMENTS[String(node.attrs?.align)] || AlignmentType.CENTER,
+              children: [
+                new ImageRun({
+                  type: image.type,
+                  data: image.data,
+                  transformation: { width, height: (image.height * width) / image.width },
+                }),
+              ],
+            }),
+          ]
+        }
+        default:
+          // Containers (clause library blocks) and anything unknown: their content.
+          return node.content ? this.blocks(node.content, quote, indent) : []
+      }
+    })
+  }
+}
+
+export async function exportDocx(doc: JSONContent, options: DocxExportOptions): Promise<Blob> {
+  const sources = new Set<string>()
+  collectImages(doc, sources)
+  const images = new Map<string, LoadedImage>()
+  await Promise.all(
+    [...sources].map(async (src) => {
+      const image = await loadImage(src)
+      if (image) images.set(src, image)
+    })
+  )
+
+  const page = PAGE_SIZES[options.pageSize || 'letter']
+  const width = Math.round(page.width * TWIPS_PER_PT)
+  const height = Math.round(page.height * TWIPS_PER_PT)
+  const body = new DocxWriter(images, width - MARGIN * 2).blocks(doc.content || [])
+  const document = new Document({
+    title: options.title,
+    styles: {
+      paragraphStyles: Array.from({ length: CLAUSE_LEVELS }, (_, i) => ({
+        id: `Clause${i + 1}`,
+        name: `Clause ${i + 1}`,
+        basedOn: 'Normal',
+        next: 'Normal',
+        quickFormat: true,
+      })),
+    },
+    numbering: {
+      config: [
+        { reference: CLAUSES, levels: clauseLevels(options.clauseNumbering) },
+        { reference: ORDERED, levels: listLevels(true) },
+        { reference: BULLETS, levels: listLevels(false) },
+      ],
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width, height },
+            margin: { top: MARGIN, right: MARGIN, bottom: MARGIN, left: MARGIN },
+          },
+        },
+        children: body.length ? body : [new Paragraph({})],
+      },
+    ],
+  })
+  return Packer.toBlob(document)
+}
@@ -0,0 +1,261 @@
+/**
+ * Persistent outbox for contract editor saves.
+ *
+ * Every edit is queued in `localStorage` (one entry per contract, latest wins)
+ * together with the server copy it was based on. Entries survive reloads and
+ * offline periods and are pushed by the editor itself or, when no editor is
+ * open, by `flushEditQueue()` (see `useEditQueueFlusher`).
+ *
+ * Before writing, `pushEdit` checks whether the server copy moved on since the
+ * base was taken. If it did, the entry is marked as a conflict instead of being
+ * written, and the editor offers a three-way merge (base / mine / theirs).
+ * Backends that enforce `base_server_updated_at_ms` themselves (409 on a stale
+ * base, `CONDITIONAL_SAVES`) are written to directly, and the server copy is
+ * only read after a 409.
+ */
+
+import { ApiClient, type ContractContentResponse } from './api-client'
+import { CONDITIONAL_SAVES } from './env'
+import { sameHtml } from './merge3'
+
+/** A server copy of the contract content. */
+export interface EditBase {
+  html: string
+  text: string
+  server_updated_at_ms: number | null
+}
+
+export interface PendingEdit {
+  contract_id: string
+  html: string
+  text: string
+  client_updated_at_ms: number
+  /** Server copy the edit started from. */
+  base: EditBase
+  queued_at_ms: number
+  attempts: number
+  /** Newer server copy that could not be merged automatically. */
+  conflict?: EditBase
+}
+
+export type SaveOutcome =
+  | { kind: 'saved'; server: EditBase }
+  | { kind: 'conflict'; theirs: EditBase }
+  | { kind: 'offline' }
+  | { kind: 'aborted' }
+  | { kind: 'error'; error: string; status: number }
+
+const STORAGE_KEY = 'clm:contractEditor:outbox:v1'
+
+const isBrowser = () => typeof window !== 'undefined'
+
+function readAll(): Record<string, PendingEdit> {
+  if (!isBrowser()) return {}
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : {}
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+function writeAll(entries: Record<string, PendingEdit>) {
+  if (!isBrowser()) return
+  try {
+    if (Object.keys(entries).length) localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+    else localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Quota errors: the editor still has its own snapshot.
+  }
+}
+
+// Contracts with an open editor in this tab; the background flusher leaves them alone.
+const claimed = new Set<string>()
+
+// Editors re-queue on every edit, so a recent entry probably belongs to an editor open in another tab.
+const IDLE_BEFORE_FLUSH_MS = 60_000
+
+// Failed background saves are retried this many times; after that the entry waits for its editor.
+const MAX_FLUSH_ATTEMPTS = 5
+
+export const editQueue = {
+  list: (): PendingEdit[] => Object.values(readAll()),
+
+  get: (contractId: string): PendingEdit | null => readAll()[contractId] || null,
+
+  /** Queue an edit. Older edits than the one already queued are ignored. */
+  put: (edit: Omit<PendingEdit, 'queued_at_ms' | 'attempts'>) => {
+    const entries = readAll()
+    const existing = entries[edit.contract_id]
+    if (existing && existing.client_updated_at_ms > edit.client_updated_at_ms) return
+    entries[edit.contract_id] = {
+      ...edit,
+      conflict: edit.conflict ?? existing?.conflict,
+      queued_at_ms: Date.now(),
+      attempts: existing?.attempts ?? 0,
+    }
+    writeAll(entries)
+  },
+
+  /** Drop the entry once it is saved, unless a newer edit was queued meanwhile. */
+  remove: (contractId: string, upToClientMs?: number) => {
+    const entries = readAll()
+    const existing = entries[contractId]
+    if (!existing) return
+    if (upToClientMs !== undefined && existing.client_updated_at_ms > upToClientMs) return
+    delete entries[contractId]
+    writeAll(entries)
+  },
+
+  markConflict: (contractId: string, theirs: EditBase) => {
+    const entries = readAll()
+    const existing = entries[contractId]
+    if (!existing) return
+    entries[contractId] = { ...existing, conflict: theirs }
+    writeAll(entries)
+  },
+
+  /** Replace the base after a merge and clear the conflict. */
+  rebase: (contractId: string, base: EditBase) => {
+    const entries = readAll()
+    const existing = entries[contractId]
+    if (!existing) return
+    entries[contractId] = { ...existing, base, conflict: undefined }
+    writeAll(entries)
+  },
+
+  claim: (contractId: string) => {
+    claimed.add(contractId)
+  },
+
+  release: (contractId: string) => {
+    claimed.delete(contractId)
+  },
+}
+
+export const toEditBase = (content: ContractContentResponse): EditBase => ({
+  html: content.rendered_html || '',
+  text: content.rendered_text || '',
+  server_updated_at_ms: content.server_updated_at_ms ?? null,
+})
+
+const isOffline = () => isBrowser() && typeof navigator !== 'undefined' && navigator.onLine === false
+
+/**
+ * Write one queued edit, refusing to overwrite server changes made since its base.
+ * The server is also sent `base_server_updated_at_ms`; a 409 for it is a conflict too.
+ */
+export async function pushEdit(
+  client: ApiClient,
+  edit: PendingEdit,
+  opts?: { signal?: AbortSignal }
+): Promise<SaveOutcome> {
+  if (isOffline()) return { kind: 'offline' }
+
+  const write = (baseMs: number | null) =>
+    client.updateContractContent(
+      edit.contract_id,
+      {
+        rendered_html: edit.html,
+        rendered_text: edit.text,
+        client_updated_at_ms: edit.client_updated_at_ms,
+        base_server_updated_at_ms: baseMs,
+      },
+      { signal: opts?.signal }
+    )
+
+  const readLatest = async (): Promise<EditBase | SaveOutcome> => {
+    const latest = await client.getContractContent(edit.contract_id)
+    if (opts?.signal?.aborted) return { kind: 'aborted' }
+    if (!latest.success || !latest.data) {
+      if (latest.status === 0) return { kind: 'offline' }
+      return { kind: 'error', error: latest.error || 'Failed to load the latest version', status: latest.status }
+    }
+    return toEditBase(latest.data)
+  }
+
+  let baseMs = edit.base.server_updated_at_ms
+  if (!CONDITIONAL_SAVES) {
+    // The backend may not check the base itself: compare with its copy before writing.
+    const theirs = await readLatest()
+    if ('kind' in theirs) return theirs
+    if (isNewerThanBase(theirs, edit.base) && !sameHtml(theirs.html, edit.base.html) && !sameHtml(theirs.html, edit.html)) {
+      return { kind: 'conflict', theirs }
+    }
+    baseMs = theirs.server_updated_at_ms
+  }
+
+  let res = await write(baseMs)
+  if (opts?.signal?.aborted) return { kind: 'aborted' }
+
+  if (res.status === 409) {
+    const theirs = await readLatest()
+    if ('kind' in theirs) return theirs
+    // The server already has this edit (saved from another tab).
+    if (sameHtml(theirs.html, edit.html)) return { kind: 'saved', server: theirs }
+    if (!sameHtml(theirs.html, edit.base.html)) return { kind: 'conflict', theirs }
+    // Only the version moved on, not the content: write again on top of it, once.
+    res = await write(theirs.server_updated_at_ms)
+    if (opts?.signal?.aborted) return { kind: 'aborted' }
+    if (res.status === 409) return { kind: 'conflict', theirs }
+  }
+
+  if (!res.success || !res.data) {
+    if (res.status === 0) return { kind: 'offline' }
+    return { kind: 'error', error: res.error || 'Save failed', status: res.status }
+  }
+
+  return {
+    kind: 'saved',
+    server: {
+      html: res.data.rendered_html ?? edit.html,
+      text: res.data.rendered_text ?? edit.text,
+      server_updated_at_ms: res.data.server_updated_at_ms ?? null,
+    },
+  }
+}
+
+function isNewerThanBase(server: EditBase, base: EditBase): boolean {
+  if (server.server_updated_at_ms == null || base.server_updated_at_ms == null) {
+    // No version stamps: fall back to comparing content.
+    return !sameHtml(server.html, base.html)
+  }
+  return server.server_updated_at_ms > base.server_updated_at_ms
+}
+
+let flushing: Promise<void> | null = null
+
+/** Push every queued edit that has no open editor, no unresolved conflict and retries left. */
+export function flushEditQueue(): Promise<void> {
+  if (flushing) return flushing
+  flushing = (async () => {
+    const client = new ApiClient()
+    for (const edit of editQueue.list()) {
+      if (claimed.has(edit.contract_id) || edit.conflict) continue
+      if (edit.attempts >= MAX_FLUSH_ATTEMPTS) continue
+      if (Date.now() - edit.queued_at_ms < IDLE_BEFORE_FLUSH_MS) continue
+      const outcome = await pushEdit(client, edit)
+      if (outcome.kind === 'offline') break
+      if (outcome.kind === 'saved') {
+        editQueue.remove(edit.contract_id, edit.client_updated_at_ms)
+        window.dispatchEvent(new CustomEvent('contracts:changed', { detail: { id: edit.contract_id } }))
+      } else if (outcome.kind === 'conflict') {
+        editQueue.markConflict(edit.contract_id, outcome.theirs)
+      } else if (outcome.kind === 'error' && outcome.status === 404) {
+        // Contract was deleted; nothing left to save into.
+        editQueue.remove(edit.contract_id)
+      } else if (outcome.kind === 'error') {
+        const entries = readAll()
+        const entry = entries[edit.contract_id]
+        if (entry) {
+          entries[edit.contract_id] = { ...entry, attempts: entry.attempts + 1 }
+          writeAll(entries)
+        }
+      }
+    }
+  })().finally(() => {
+    flushing = null
+  })
+  return flushing
+}
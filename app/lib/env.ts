@@ -22,3 +22,32 @@ export const API_BASE_URL: string = normalizeBaseUrl(
     process.env.NEXT_PUBLIC_API_URL ||
     DEFAULT_API_BASE_URL
 )
+
+/**
+ * Optional request header carrying the signed-in user's tenant id (e.g. `X-Tenant-ID`).
+ * Empty (the default) disables the tenant interceptor in `app/lib/http.ts`.
+ */
+export const TENANT_HEADER: string = (process.env.NEXT_PUBLIC_TENANT_HEADER || '').trim()
+
+/**
+ * Serve every API call from the in-browser mock backend (`app/lib/mock-api/`)
+ * instead of `API_BASE_URL`. Enable with `NEXT_PUBLIC_MOCK_API=1`.
+ */
+export const MOCK_API: boolean = /^(1|true|yes)$/i.test((process.env.NEXT_PUBLIC_MOCK_API || '').trim())
+
+/**
+ * The backend refuses (409) content writes whose `base_server_updated_at_ms` is
+ * older than its copy, so editor saves can skip reading the server copy first.
+ * Enable with `NEXT_PUBLIC_CONDITIONAL_SAVES=1`; the mock backend always does.
+ */
+export const CONDITIONAL_SAVES: boolean =
+  MOCK_API || /^(1|true|yes)$/i.test((process.env.NEXT_PUBLIC_CONDITIONAL_SAVES || '').trim())
+
+/** Simulated network latency of the mock backend, in milliseconds. */
+export const MOCK_API_LATENCY_MS: number = Math.max(0, Number(process.env.NEXT_PUBLIC_MOCK_API_LATENCY_MS ?? 120) || 0)
+
+/**
+ * y-websocket server for real-time co-editing in the contract editor (e.g. `ws://localhost:1234`,
+ * see `npm run collab-server`). Empty (the default) keeps single-user editing with autosave.
+ */
+export const COLLAB_URL: string = normalizeBaseUrl(process.env.NEXT_PUBLIC_COLLAB_URL || '')
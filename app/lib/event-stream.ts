@@ -0,0 +1,356 @@
+/**
+ * Server-sent event streams over the shared HTTP pipeline.
+ *
+ * `EventSource` can't POST or set headers, so streams are read from a `fetch`
+ * body instead: requests go through `http` (auth, refresh-on-401, tenant) and
+ * frames are parsed here. On top of that, `openEventStream` adds what the
+ * browser's `EventSource` would give us:
+ *
+ * - reconnection with backoff when the connection drops or the server answers
+ *   with a transient error (429 / 5xx), honouring the server's `retry:` hint;
+ * - resume: reconnects send `Last-Event-ID`, so a server that tags frames with
+ *   `id:` continues where it left off;
+ * - an idle timeout: no bytes (not even a `:` heartbeat) for `idleTimeoutMs`
+ *   counts as a dropped connection;
+ * - one cancel path: `close()` or the caller's `AbortSignal`.
+ *
+ * `done` never rejects; it resolves with how the stream ended.
+ */
+
+import { apiErrorFromResponse } from './api-error'
+import { http as defaultHttp, type HttpClient } from './http'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Event name → payload type. Payloads are parsed as JSON, falling back to the raw string. */
+export type EventMap = Record<string, unknown>
+
+export interface EventMeta {
+  /** The event's `id:` (or the last one seen before it). */
+  id: string | null
+}
+
+export type EventHandlers<M extends EventMap> = {
+  [K in keyof M]?: (data: M[K], meta: EventMeta) => void
+}
+
+export interface ReconnectInfo {
+  /** 1 for the first reconnect after a drop; resets once events flow again. */
+  attempt: number
+  /**
+   * True when the server will be asked to resume after `lastEventId`. False
+   * means no id was seen yet, so the stream starts over and anything already
+   * received should be discarded.
+   */
+  resumed: boolean
+  lastEventId: string | null
+}
+
+export interface EventStreamOptions<M extends EventMap> {
+  method?: string
+  /** Request body, serialised as JSON. Re-sent on every reconnect. */
+  json?: unknown
+  headers?: Record<string, string>
+  signal?: AbortSignal
+  on: EventHandlers<M>
+  /** Events that complete the stream; it is closed right after they're handled. Defaults to `['done']`. */
+  endOn?: Array<keyof M & string>
+  /** Reconnects allowed in a row before giving up. Defaults to 3. */
+  retries?: number
+  /** First reconnect delay (doubles per attempt). The server's `retry:` field replaces it. Defaults to 1s. */
+  retryDelayMs?: number
+  /** Drop and reconnect after this long without any bytes. Defaults to 45s; 0 disables. */
+  idleTimeoutMs?: number
+  onOpen?: () => void
+  onReconnect?: (info: ReconnectInfo) => void
+  /** Use another pipeline (tests, other backends). Defaults to the shared `http`. */
+  client?: HttpClient
+}
+
+export type EventStreamResult =
+  | { status: 'completed' }
+  | { status: 'cancelled' }
+  | { status: 'failed'; error: EventStreamError }
+
+export interface EventStream {
+  done: Promise<EventStreamResult>
+  close(): void
+  readonly lastEventId: string | null
+}
+
+export class EventStreamError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status of the rejected (re)connect, or 0 for network failures and timeouts. */
+    public status: number = 0
+  ) {
+    super(message)
+    this.name = 'EventStreamError'
+  }
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+export interface SseMessage {
+  event: string
+  data: string
+  id: string | null
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format. Feed it decoded text in
+ * arbitrary chunks; it emits complete frames. Handles CRLF/CR/LF line endings,
+ * `:` comments (heartbeats), multi-line `data:` and `retry:`.
+ */
+export function createSseParser(handlers: {
+  onFrame: (frame: SseMessage) => void
+  onRetry?: (ms: number) => void
+  /** Id carried over from a previous connection (ids persist until the server sends a new one). */
+  lastEventId?: string | null
+}) {
+  let buffer = ''
+  let event = ''
+  let data: string[] = []
+  let lastId = handlers.lastEventId ?? null
+
+  const dispatch = () => {
+    if (data.length) handlers.onFrame({ event: event || 'message', data: data.join('\n'), id: lastId })
+    event = ''
+    data = []
+  }
+
+  const line = (text: string) => {
+    if (text === '') return dispatch()
+    if (text.startsWith(':')) return
+    const colon = text.indexOf(':')
+    const field = colon === -1 ? text : text.slice(0, colon)
+    let value = colon === -1 ? '' : text.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    if (field === 'event') event = value
+    else if (field === 'data') data.push(value)
+    else if (field === 'id' && !value.includes('\0')) lastId = value || null
+    else if (field === 'retry' && /^\d+$/.test(value)) handlers.onRetry?.(Number(value))
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk
+      // A trailing CR may be the first half of CRLF: wait for the next chunk.
+      const re = /\r\n|\r(?!$)|\n/g
+      let start = 0
+      let match: RegExpExecArray | null
+      while ((match = re.exec(buffer))) {
+        line(buffer.slice(start, match.index))
+        start = match.index + match[0].length
+      }
+      buffer = buffer.slice(start)
+    },
+    /** The body ended: a final frame without its blank line still counts. */
+    end() {
+      if (buffer) line(buffer.replace(/\r$/, ''))
+      buffer = ''
+      dispatch()
+    },
+    get lastEventId() {
+      return lastId
+    },
+  }
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+const DEFAULT_RETRIES = 3
+const DEFAULT_RETRY_DELAY_MS = 1000
+const DEFAULT_IDLE_TIMEOUT_MS = 45_000
+const MAX_RETRY_DELAY_MS = 30_000
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504])
+
+const parseData = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '')
+  return apiErrorFromResponse(response.status, parseData(text), response.headers).message
+}
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal.aborted) return resolve()
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', done)
+      resolve()
+    }
+    signal.addEventListener('abort', done, { once: true })
+  })
+
+/** Thrown inside a connection when it should be retried rather than failed. */
+class Dropped extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public retryAfterMs?: number
+  ) {
+    super(message)
+  }
+}
+
+export function openEventStream<M extends EventMap>(path: string, options: EventStreamOptions<M>): EventStream {
+  const client = options.client ?? defaultHttp
+  const retries = options.retries ?? DEFAULT_RETRIES
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
+  const endOn = new Set<string>(options.endOn ?? ['done'])
+
+  const cancel = new AbortController()
+  const onCallerAbort = () => cancel.abort()
+  if (options.signal?.aborted) cancel.abort()
+  options.signal?.addEventListener('abort', onCallerAbort, { once: true })
+
+  let retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+  let lastEventId: string | null = null
+  /** Reconnects in a row; reset by every event received. */
+  let attempt = 0
+
+  /** One connection. Resolves true when an `endOn` event arrived, false when the body simply ended. */
+  const connect = async (): Promise<boolean> => {
+    const connection = new AbortController()
+    const stop = () => connection.abort()
+    cancel.signal.addEventListener('abort', stop, { once: true })
+
+    let idle = false
+    let idleTimer: ReturnType<typeof setTimeout> | undefined
+    const touch = () => {
+      if (!idleTimeoutMs) return
+      clearTimeout(idleTimer)
+      idleTimer = setTimeout(() => {
+        idle = true
+        connection.abort()
+      }, idleTimeoutMs)
+    }
+
+    try {
+      touch()
+      let response: Response
+      try {
+        response = await client.send(path, {
+          method: options.method ?? (options.json === undefined ? 'GET' : 'POST'),
+          json: options.json,
+          headers: {
+            Accept: 'text/event-stream',
+            ...options.headers,
+            ...(lastEventId !== null ? { 'Last-Event-ID': lastEventId } : {}),
+          },
+          signal: connection.signal,
+        })
+      } catch (error) {
+        if (cancel.signal.aborted) throw error
+        throw new Dropped(0, idle ? 'The stream timed out' : error instanceof Error && error.message ? error.message : 'Network error')
+      }
+
+      if (!response.ok || !response.body) {
+        const message = await errorMessage(response)
+        if (RETRYABLE_STATUSES.has(response.status)) {
+          const retryAfter = Number(response.headers.get('retry-after'))
+          throw new Dropped(response.status, message, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined)
+        }
+        throw new EventStreamError(message, response.status)
+      }
+
+      options.onOpen?.()
+      let ended = false
+      const parser = createSseParser({
+        lastEventId,
+        onRetry: (ms) => {
+          retryDelayMs = ms
+        },
+        onFrame: (frame) => {
+          if (ended) return
+          lastEventId = frame.id
+          attempt = 0
+          const handler = options.on[frame.event as keyof M]
+          handler?.(parseData(frame.data) as M[keyof M], { id: frame.id })
+          if (endOn.has(frame.event)) ended = true
+        },
+      })
+
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      // Not every transport ties the body to the signal: cancelling the reader unblocks `read()` either way.
+      const release = () => void reader.cancel().catch(() => {})
+      connection.signal.addEventListener('abort', release, { once: true })
+      try {
+        while (!ended) {
+          const { value, done } = await reader.read()
+          if (connection.signal.aborted) break
+          touch()
+          if (done) {
+            parser.push(decoder.decode())
+            parser.end()
+            break
+          }
+          parser.push(decoder.decode(value, { stream: true }))
+        }
+      } catch {
+        if (!connection.signal.aborted) throw new Dropped(0, 'The connection was interrupted')
+      } finally {
+        connection.signal.removeEventListener('abort', release)
+        if (ended) release()
+      }
+      if (cancel.signal.aborted) return false
+      if (idle) throw new Dropped(0, 'The stream timed out')
+      return ended
+    } finally {
+      clearTimeout(idleTimer)
+      cancel.signal.removeEventListener('abort', stop)
+    }
+  }
+
+  const run = async (): Promise<EventStreamResult> => {
+    try {
+      while (!cancel.signal.aborted) {
+        try {
+          const ended = await connect()
+          if (cancel.signal.aborted) break
+          // Without `endOn` events, a clean end of the body is the end of the stream.
+          if (ended || !endOn.size) return { status: 'completed' }
+          throw new Dropped(0, 'The stream ended unexpectedly')
+        } catch (error) {
+          if (cancel.signal.aborted) break
+          if (!(error instanceof Dropped)) {
+            return { status: 'failed', error: error instanceof EventStreamError ? error : new EventStreamError(String(error)) }
+          }
+          if (attempt >= retries) return { status: 'failed', error: new EventStreamError(error.message, error.status) }
+          attempt++
+          const backoff = error.retryAfterMs ?? Math.min(MAX_RETRY_DELAY_MS, retryDelayMs * 2 ** (attempt - 1))
+          await wait(backoff, cancel.signal)
+          if (cancel.signal.aborted) break
+          options.onReconnect?.({ attempt, resumed: lastEventId !== null, lastEventId })
+        }
+      }
+      return { status: 'cancelled' }
+    } finally {
+      options.signal?.removeEventListener('abort', onCallerAbort)
+    }
+  }
+
+  return {
+    done: run(),
+    close: () => cancel.abort(),
+    get lastEventId() {
+      return lastEventId
+    },
+  }
+}
@@ -0,0 +1,815 @@
+/**
+ * Contract HTML (`rendered_html`, editor HTML) as a PDF, laid out in the
+ * browser: headings, paragraphs with their marks, lists, block quotes,
+ * tables and images, on Letter or A4 pages (`page-setup.ts`) with a running
+ * header, an optional footer and page numbers. Manual page breaks
+ * (`data-page-break`) start a new page, and headings and paragraphs marked
+ * `data-keep-with-next` stay on the page of what follows them. Fonts are embedded (`pdf-fonts.ts`), so names like
+ * "Müller", ₹ amounts and CJK parties print as written.
+ *
+ * Text suggested for deletion is left out, like `rendered_text`.
+ */
+
+import { PDFDocument, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from 'pdf-lib'
+import { embedPdfFonts, type PdfFonts, type PdfFontStyle } from './pdf-fonts'
+import { FOOTER_BASELINE, HEADER_BASELINE, PAGE_MARGINS, PAGE_SIZES, type PageSize } from './page-setup'
+
+export interface PdfOptions {
+  /** Document title; also the running header unless `header` is given. */
+  title: string
+  header?: string
+  /** Printed at the foot of each page, left of the page number. */
+  footer?: string
+  /** Letter unless given. */
+  pageSize?: PageSize
+}
+
+export interface RenderedPdf {
+  blob: Blob
+  /** Characters no embedded font has; they print as `?`. */
+  missing: string[]
+}
+
+// ==================== PAGE ====================
+
+const { x: MARGIN_X, top: MARGIN_TOP, bottom: MARGIN_BOTTOM } = PAGE_MARGINS
+
+// CSS pixels (editor widths, font sizes) to points.
+const PX = 0.75
+
+const BODY_SIZE = 11
+const LINE_HEIGHT = 1.4
+const PARAGRAPH_SPACE = 8
+const LIST_INDENT = 20
+const QUOTE_INDENT = 16
+const CELL_PADDING = 5
+
+const TEXT_COLOR = rgb(0.1, 0.12, 0.16)
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5)
+const LINK_COLOR = rgb(0.1, 0.35, 0.75)
+const RULE_COLOR = rgb(0.75, 0.77, 0.8)
+const HEADER_FILL = rgb(0.96, 0.95, 0.93)
+const CODE_FILL = rgb(0.94, 0.94, 0.95)
+const HIGHLIGHT_FILL = rgb(1, 0.94, 0.54)
+
+const HEADINGS: Record<string, { size: number; before: number; after: number }> = {
+  H1: { size: 18, before: 16, after: 8 },
+  H2: { size: 15, before: 14, after: 6 },
+  H3: { size: 13, before: 12, after: 4 },
+  H4: { size: 11.5, before: 10, after: 4 },
+  H5: { size: 11, before: 10, after: 4 },
+  H6: { size: 11, before: 10, after: 4 },
+}
+
+// ==================== DOCUMENT MODEL ====================
+
+type Align = 'left' | 'center' | 'right' | 'justify'
+
+interface RunStyle {
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  code?: boolean
+  script?: 'sup' | 'sub'
+  color?: RGB
+  highlight?: RGB
+  size?: number
+}
+
+/** Inline text; a hard line break is a run of `'\n'`. */
+interface Run {
+  text: string
+  style: RunStyle
+}
+
+interface TextBlock {
+  kind: 'text'
+  runs: Run[]
+  size: number
+  before: number
+  after: number
+  align: Align
+  indent: number
+  /** Block quote bars, as offsets from the left of the container. */
+  bars: number[]
+  /** List bullet or number, hung left of the first line. */
+  marker?: string
+  keepWithNext?: boolean
+}
+
+interface TableCell {
+  blocks: Block[]
+  colspan: number
+  rowspan: number
+  header: boolean
+  /** `colwidth` (px) of each column the cell spans, where saved. */
+  widths: Array<number | undefined>
+}
+
+interface TableBlock {
+  kind: 'table'
+  rows: TableCell[][]
+  indent: number
+}
+
+interface ImageBlock {
+  kind: 'image'
+  src: string
+  width?: number
+  indent: number
+}
+
+interface RuleBlock {
+  kind: 'rule'
+  indent: number
+}
+
+interface PageBreakBlock {
+  kind: 'break'
+}
+
+type Block = TextBlock | TableBlock | ImageBlock | RuleBlock | PageBreakBlock
+
+// ==================== READING HTML ====================
+
+interface ReadContext {
+  style: RunStyle
+  indent: number
+  bars: number[]
+  align?: Align
+  /** Space after a paragraph; tighter inside lists. */
+  after: number
+  listDepth: number
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'TABLE', 'HR', 'IMG', 'PRE',
+  'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'FIGURE',
+])
+
+const BULLETS = ['•', '–', '•']
+
+function parseColor(value: string | null | undefined): RGB | undefined {
+  const v = (value || '').trim()
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(v)
+  if (hex) {
+    const h = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1]
+    return rgb(parseInt(h.slice(0, 2), 16) / 255, parseInt(h.slice(2, 4), 16) / 255, parseInt(h.slice(4, 6), 16) / 255)
+  }
+  const fn = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i.exec(v)
+  return fn ? rgb(Number(fn[1]) / 255, Number(fn[2]) / 255, Number(fn[3]) / 255) : undefined
+}
+
+function parseFontSize(value: string): number | undefined {
+  const m = /^([\d.]+)(px|pt)$/.exec(value.trim())
+  if (!m) return undefined
+  return m[2] === 'px' ? Number(m[1]) * PX : Number(m[1])
+}
+
+function alignOf(el: HTMLElement): Align | undefined {
+  const a = el.style?.textAlign
+  return a === 'center' || a === 'right' || a === 'justify' || a === 'left' ? a : undefined
+}
+
+function readRuns(node: Node, style: RunStyle, runs: Run[], preserve = false) {
+  if (node.nodeType === 3) {
+    const text = preserve ? (node as Text).data : (node as Text).data.replace(/\s+/g, ' ')
+    if (!preserve) {
+      if (text) runs.push({ text, style })
+      return
+    }
+    text.split('\n').forEach((line, i) => {
+      if (i) runs.push({ text: '\n', style })
+      if (line) runs.push({ text: line.replace(/\t/g, '    '), style })
+    })
+    return
+  }
+  if (node.nodeType !== 1) return
+  const el = node as HTMLElement
+  const s: RunStyle = { ...style }
+  switch (el.tagName) {
+    case 'BR':
+      runs.push({ text: '\n', style })
+      return
+    case 'DEL':
+      // Suggested deletions.
+      return
+    case 'IMG':
+      return
+    case 'STRONG':
+    case 'B':
+      s.bold = true
+      break
+    case 'EM':
+    case 'I':
+      s.italic = true
+      break
+    case 'U':
+      s.underline = true
+      break
+    case 'S':
+    case 'STRIKE':
+      s.strike = true
+      break
+    case 'CODE':
+      s.code = true
+      break
+    case 'SUP':
+    case 'SUB':
+      s.script = el.tagName === 'SUP' ? 'sup' : 'sub'
+      break
+    case 'MARK':
+      s.highlight = parseColor(el.getAttribute('data-color')) || parseColor(el.style.backgroundColor) || HIGHLIGHT_FILL
+      break
+    case 'A':
+      s.color = LINK_COLOR
+      s.underline = true
+      break
+  }
+  const color = parseColor(el.style?.color)
+  if (color) s.color = color
+  const size = parseFontSize(el.style?.fontSize || '')
+  if (size) s.size = size
+  if (el.style?.fontWeight === 'bold' || Number(el.style?.fontWeight) >= 600) s.bold = true
+  if (el.style?.fontStyle === 'italic') s.italic = true
+  el.childNodes.forEach((child) => readRuns(child, s, runs, preserve))
+}
+
+function textBlock(runs: Run[], ctx: ReadContext, extra: Partial<TextBlock> = {}): TextBlock {
+  return {
+    kind: 'text',
+    runs,
+    size: BODY_SIZE,
+    before: 0,
+    after: ctx.after,
+    align: ctx.align || 'left',
+    indent: ctx.indent,
+    bars: ctx.bars,
+    ...extra,
+  }
+}
+
+function readBlocks(parent: Node, ctx: ReadContext): Block[] {
+  const blocks: Block[] = []
+  // Inline content outside a paragraph (text straight in a cell or list item) makes one.
+  let loose: Run[] = []
+  const flush = () => {
+    if (loose.some((r) => r.text.trim())) blocks.push(textBlock(loose, ctx))
+    loose = []
+  }
+  parent.childNodes.forEach((node) => {
+    if (node.nodeType === 1 && BLOCK_TAGS.has((node as Element).tagName)) {
+      flush()
+      blocks.push(...readBlock(node as HTMLElement, ctx))
+    } else {
+      readRuns(node, ctx.style, loose)
+    }
+  })
+  flush()
+  return blocks
+}
+
+function readBlock(el: HTMLElement, ctx: ReadContext): Block[] {
+  const tag = el.tagName
+  const align = alignOf(el) || ctx.align
+  if (el.hasAttribute('data-page-break')) return [{ kind: 'break' }]
+  if (tag === 'P' || HEADINGS[tag]) {
+    const heading = HEADINGS[tag]
+    const runs: Run[] = []
+    readRuns(el, heading ? { ...ctx.style, bold: true } : ctx.style, runs)
+    const keepWithNext = !!heading || el.hasAttribute('data-keep-with-next')
+    return [
+      textBlock(
+        runs,
+        { ...ctx, align },
+        heading ? { size: heading.size, before: heading.before, after: heading.after, keepWithNext } : { keepWithNext }
+      ),
+    ]
+  }
+  if (tag === 'PRE') {
+    const runs: Run[] = []
+    readRuns(el, { ...ctx.style, code: true }, runs, true)
+    return [textBlock(runs, ctx, { size: BODY_SIZE - 1 })]
+  }
+  if (tag === 'UL' || tag === 'OL') {
+    const start = Number(el.getAttribute('start')) || 1
+    const inner: ReadContext = { ...ctx, indent: ctx.indent + LIST_INDENT, after: 3, listDepth: ctx.listDepth + 1 }
+    const items = Array.from(el.children).filter((child) => child.tagName === 'LI')
+    const blocks = items.flatMap((li, i) => {
+      const itemBlocks = readBlocks(li, inner)
+      const marker = tag === 'OL' ? `${start + i}.` : BULLETS[ctx.listDepth % BULLETS.length]
+      const first = itemBlocks[0]
+      if (first?.kind === 'text') first.marker = marker
+      else itemBlocks.unshift(textBlock([], inner, { marker }))
+      return itemBlocks
+    })
+    const last = blocks[blocks.length - 1]
+    if (last?.kind === 'text') last.after = Math.max(last.after, ctx.after)
+    return blocks
+  }
+  if (tag === 'BLOCKQUOTE') {
+    return readBlocks(el, {
+      ...ctx,
+      style: { ...ctx.style, color: ctx.style.color || MUTED_COLOR },
+      indent: ctx.indent + QUOTE_INDENT,
+      bars: [...ctx.bars, ctx.indent + 4],
+    })
+  }
+  if (tag === 'TABLE') return [readTable(el, ctx)]
+  if (tag === 'HR') return [{ kind: 'rule', indent: ctx.indent }]
+  if (tag === 'IMG') {
+    const src = el.getAttribute('src') || ''
+    const width = Number(el.getAttribute('width')) || undefined
+    return src ? [{ kind: 'image', src, width, indent: ctx.indent }] : []
+  }
+  return readBlocks(el, { ...ctx, align })
+}
+
+function readTable(table: HTMLElement, ctx: ReadContext): TableBlock {
+  const cellContext: ReadContext = { style: ctx.style, indent: 0, bars: [], after: 4, listDepth: 0 }
+  const rows = Array.from(table.querySelectorAll('tr'))
+    // Rows of tables nested in a cell belong to that table.
+    .filter((tr) => tr.closest('table') === table)
+    .map((tr) =>
+      Array.from(tr.children)
+        .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+        .map((cell): TableCell => {
+          const header = cell.tagName === 'TH'
+          const colspan = Math.max(1, Number(cell.getAttribute('colspan')) || 1)
+          const saved = (cell.getAttribute('colwidth') || '').split(',').map((w) => Number(w) || undefined)
+          return {
+            blocks: readBlocks(cell, header ? { ...cellContext, style: { ...cellContext.style, bold: true } } : cellContext),
+            colspan,
+            rowspan: Math.max(1, Number(cell.getAttribute('rowspan')) || 1),
+            header,
+            widths: Array.from({ length: colspan }, (_, i) => saved[i]),
+          }
+        })
+    )
+  return { kind: 'table', rows, indent: ctx.indent }
+}
+
+// ==================== LAYOUT ====================
+
+/** A piece of the document that goes on one page: a line of text, a table row, an image. */
+interface Box {
+  height: number
+  /** Space above it, dropped at the top of a page. */
+  before: number
+  keepWithNext?: boolean
+  /** A manual page break: what follows starts a new page. */
+  pageBreak?: boolean
+  /** Table header rows, drawn again above this box when it starts a page. */
+  repeat?: Box[]
+  draw(page: PDFPage, x: number, top: number): void
+}
+
+interface LayoutContext {
+  fonts: PdfFonts
+  images: Map<string, PDFImage>
+  /** Height of the text area of a page. */
+  bodyHeight: number
+}
+
+interface Token {
+  text: string
+  segments: Array<{ text: string; font: PDFFont; width: number }>
+  width: number
+  size: number
+  style: RunStyle
+  space?: boolean
+  lineBreak?: boolean
+}
+
+// Each CJK character can start a line; other text breaks at spaces.
+const TOKEN = /(\s+)|([⺀-鿿가-힯豈-﫿＀-￯])|([^\s⺀-鿿가-힯豈-﫿＀-￯]+)/gu
+
+const fontStyle = (style: RunStyle): PdfFontStyle =>
+  style.bold && style.italic ? 'boldItalic' : style.bold ? 'bold' : style.italic ? 'italic' : 'regular'
+
+function measure(fonts: PdfFonts, text: string, style: RunStyle, size: number): Token {
+  const segments = fonts.runs(text, fontStyle(style)).map((run) => ({ ...run, width: run.font.widthOfTextAtSize(run.text, size) }))
+  return { text, segments, width: segments.reduce((sum, s) => sum + s.width, 0), size, style }
+}
+
+function tokenize(runs: Run[], baseSize: number, fonts: PdfFonts): Token[] {
+  const tokens: Token[] = []
+  for (const run of runs) {
+    const size = (run.style.size || baseSize) * (run.style.script ? 0.72 : 1)
+    if (run.text === '\n') {
+      tokens.push({ text: '', segments: [], width: 0, size, style: run.style, lineBreak: true })
+      continue
+    }
+    for (const m of run.text.matchAll(TOKEN)) {
+      if (m[1]) tokens.push({ ...measure(fonts, ' ', run.style, size), space: true })
+      else tokens.push(measure(fonts, m[0], run.style, size))
+    }
+  }
+  return tokens
+}
+
+/** A word wider than the line, cut into pieces that fit. */
+function splitToken(token: Token, width: number, fonts: PdfFonts): Token[] {
+  const pieces: Token[] = []
+  let text = ''
+  for (const ch of token.text) {
+    if (text && measure(fonts, text + ch, token.style, token.size).width > width) {
+      pieces.push(measure(fonts, text, token.style, token.size))
+      text = ''
+    }
+    text += ch
+  }
+  if (text) pieces.push(measure(fonts, text, token.style, token.size))
+  return pieces
+}
+
+interface Line {
+  tokens: Token[]
+  width: number
+  /** Ends at a `<br>` or the end of the paragraph (not stretched when justified). */
+  last: boolean
+}
+
+function breakLines(tokens: Token[], width: number, fonts: PdfFonts): Line[] {
+  const lines: Line[] = []
+  let line: Line = { tokens: [], width: 0, last: false }
+  const end = (last: boolean) => {
+    while (line.tokens.length && line.tokens[line.tokens.length - 1].space) line.width -= line.tokens.pop()!.width
+    line.last = last
+    lines.push(line)
+    line = { tokens: [], width: 0, last: false }
+  }
+  const add = (token: Token) => {
+    line.tokens.push(token)
+    line.width += token.width
+  }
+  for (const token of tokens) {
+    if (token.lineBreak) {
+      end(true)
+      continue
+    }
+    if (token.space) {
+      const prev = line.tokens[line.tokens.length - 1]
+      if (prev && !prev.space) add(token)
+      continue
+    }
+    if (line.width + token.width > width && line.tokens.some((t) => !t.space)) end(false)
+    if (token.width > width) {
+      const pieces = splitToken(token, width, fonts)
+      pieces.slice(0, -1).forEach((piece) => {
+        add(piece)
+        end(false)
+      })
+      add(pieces[pieces.length - 1])
+    } else {
+      add(token)
+    }
+  }
+  end(true)
+  return lines
+}
+
+function layoutText(block: TextBlock, width: number, lc: LayoutContext): Box[] {
+  const avail = width - block.indent
+  const lines = breakLines(tokenize(block.runs, block.size, lc.fonts), avail, lc.fonts)
+  const marker = block.marker ? measure(lc.fonts, block.marker, {}, block.size) : null
+
+  return lines.map((line, index): Box => {
+    const size = Math.max(block.size, ...line.tokens.map((t) => (t.style.script ? t.size / 0.72 : t.size)))
+    const height = size * LINE_HEIGHT
+    return {
+      height,
+      before: index === 0 ? block.before : 0,
+      keepWithNext: block.keepWithNext && index === lines.length - 1,
+      draw(page, x, top) {
+        const left = x + block.indent
+        const baseline = top - height / 2 - size * 0.3
+        for (const bar of block.bars) {
+          page.drawLine({ start: { x: x + bar, y: top }, end: { x: x + bar, y: top - height }, thickness: 2, color: RULE_COLOR })
+        }
+        if (marker && index === 0) {
+          let mx = left - 6 - marker.width
+          for (const segment of marker.segments) {
+            page.drawText(segment.text, { x: mx, y: baseline, size: block.size, font: segment.font, color: TEXT_COLOR })
+            mx += segment.width
+          }
+        }
+
+        const slack = avail - line.width
+        const spaces = line.tokens.filter((t) => t.space).length
+        let cx = left + (block.align === 'center' ? slack / 2 : block.align === 'right' ? slack : 0)
+        const stretch = block.align === 'justify' && !line.last && spaces ? slack / spaces : 0
+        for (const token of line.tokens) {
+          const { style } = token
+          const width = token.width + (token.space ? stretch : 0)
+          const y = baseline + (style.script === 'sup' ? size * 0.33 : style.script === 'sub' ? -size * 0.15 : 0)
+          const fill = style.highlight || (style.code ? CODE_FILL : undefined)
+          if (fill) page.drawRectangle({ x: cx, y: y - token.size * 0.25, width, height: token.size * 1.15, color: fill })
+          const color = style.color || TEXT_COLOR
+          if (!token.space) {
+            let sx = cx
+            for (const segment of token.segments) {
+              page.drawText(segment.text, { x: sx, y, size: token.size, font: segment.font, color })
+              sx += segment.width
+            }
+          }
+          const thickness = Math.max(0.5, token.size * 0.05)
+          if (style.underline) page.drawLine({ start: { x: cx, y: y - token.size * 0.12 }, end: { x: cx + width, y: y - token.size * 0.12 }, thickness, color })
+          if (style.strike) page.drawLine({ start: { x: cx, y: y + token.size * 0.28 }, end: { x: cx + width, y: y + token.size * 0.28 }, thickness, color })
+          cx += width
+        }
+      },
+    }
+  })
+}
+
+interface TableSlot {
+  cell: TableCell
+  top: number
+  left: number
+  rowspan: number
+}
+
+function layoutTable(block: TableBlock, width: number, lc: LayoutContext): Box[] {
+  // Cells on a grid: a merged cell fills several slots.
+  const grid: TableSlot[][] = block.rows.map(() => [])
+  block.rows.forEach((row, r) => {
+    let c = 0
+    for (const cell of row) {
+      while (grid[r][c]) c++
+      const slot: TableSlot = { cell, top: r, left: c, rowspan: Math.min(cell.rowspan, block.rows.length - r) }
+      for (let dr = 0; dr < slot.rowspan; dr++) for (let dc = 0; dc < cell.colspan; dc++) grid[r + dr][c + dc] = slot
+      c += cell.colspan
+    }
+  })
+  const columns = Math.max(0, ...grid.map((row) => row.length))
+  if (!columns) return []
+
+  // Saved column widths, scaled to the page; columns without one share what is left.
+  const avail = width - block.indent
+  const saved = Array.from({ length: columns }, (_, c) => {
+    for (const row of grid) {
+      const slot = row[c]
+      const w = slot?.cell.widths[c - slot.left]
+      if (w) return w * PX
+    }
+    return 0
+  })
+  const total = saved.reduce((a, b) => a + b, 0)
+  const unset = saved.filter((w) => !w).length
+  const scale = total > avail || !unset ? avail / Math.max(total, 1) : 1
+  const rest = unset ? (avail - total * scale) / unset : 0
+  const widths = saved.map((w) => (w ? w * scale : rest))
+  const xAt = (c: number) => widths.slice(0, c).reduce((a, b) => a + b, 0)
+  const spanWidth = (slot: TableSlot) => widths.slice(slot.left, slot.left + slot.cell.colspan).reduce((a, b) => a + b, 0)
+
+  // Cell content, laid out on its own; a cell is drawn whole on the row where it starts.
+  const contents = new Map<TableSlot, { boxes: Box[]; height: number }>()
+  for (const row of grid) {
+    for (const slot of row) {
+      if (!slot || contents.has(slot)) continue
+      const boxes = layoutBlocks(slot.cell.blocks, spanWidth(slot) - CELL_PADDING * 2, lc)
+      const height = boxes.reduce((sum, box, i) => sum + box.height + (i ? box.before : 0), 0)
+      contents.set(slot, { boxes, height })
+    }
+  }
+  // A cell merged down adds what it still needs to its last row.
+  const minRow = BODY_SIZE * LINE_HEIGHT + CELL_PADDING * 2
+  const heights: number[] = []
+  grid.forEach((row, r) => {
+    let height = minRow
+    row.forEach((slot, c) => {
+      if (!slot || slot.left !== c || slot.top + slot.rowspan - 1 !== r) return
+      const above = heights.slice(slot.top, r).reduce((a, b) => a + b, 0)
+      height = Math.max(height, contents.get(slot)!.height + CELL_PADDING * 2 - above)
+    })
+    heights.push(height)
+  })
+
+  const border = { thickness: 0.5, color: RULE_COLOR }
+  const rowBox = (r: number): Box => ({
+    height: heights[r],
+    before: 0,
+    draw(page, x, top) {
+      const bottom = top - heights[r]
+      grid[r].forEach((slot, c) => {
+        if (!slot || slot.left !== c) return
+        const cx = x + block.indent + xAt(c)
+        const cw = spanWidth(slot)
+        if (slot.cell.header) page.drawRectangle({ x: cx, y: bottom, width: cw, height: heights[r], color: HEADER_FILL })
+        if (slot.top === r) {
+          let y = top - CELL_PADDING
+          contents.get(slot)!.boxes.forEach((box, i) => {
+            if (i) y -= box.before
+            box.draw(page, cx + CELL_PADDING, y)
+            y -= box.height
+          })
+          page.drawLine({ start: { x: cx, y: top }, end: { x: cx + cw, y: top }, ...border })
+        }
+        if (slot.top + slot.rowspan - 1 === r) page.drawLine({ start: { x: cx, y: bottom }, end: { x: cx + cw, y: bottom }, ...border })
+        page.drawLine({ start: { x: cx, y: top }, end: { x: cx, y: bottom }, ...border })
+        page.drawLine({ start: { x: cx + cw, y: top }, end: { x: cx + cw, y: bottom }, ...border })
+      })
+    },
+  })
+
+  // Leading rows made only of header cells are repeated on each page the table continues on.
+  let headerRows = 0
+  while (headerRows < grid.length - 1 && grid[headerRows].every((slot) => slot?.cell.header)) headerRows++
+  const header = Array.from({ length: headerRows }, (_, r): Box => ({ ...rowBox(r), keepWithNext: r === headerRows - 1 }))
+  return grid.map((_, r) => {
+    const box = r < headerRows ? header[r] : { ...rowBox(r), repeat: header }
+    return r === 0 ? { ...box, before: PARAGRAPH_SPACE / 2 } : box
+  })
+}
+
+function layoutImage(block: ImageBlock, width: number, lc: LayoutContext): Box[] {
+  const image = lc.images.get(block.src)
+  if (!image) return []
+  const avail = width - block.indent
+  let w = block.width ? block.width * PX : image.width * PX
+  let h = (w / image.width) * image.height
+  const fit = Math.min(1, avail / w, lc.bodyHeight / h)
+  w *= fit
+  h *= fit
+  return [
+    {
+      height: h,
+      before: PARAGRAPH_SPACE / 2,
+      draw(page, x, top) {
+        page.drawImage(image, { x: x + block.indent, y: top - h, width: w, height: h })
+      },
+    },
+  ]
+}
+
+function layoutBlocks(blocks: Block[], width: number, lc: LayoutContext): Box[] {
+  const boxes: Box[] = []
+  let after = 0
+  for (const block of blocks) {
+    if (block.kind === 'break') {
+      boxes.push({ height: 0, before: 0, pageBreak: true, draw() {} })
+      after = 0
+      continue
+    }
+    let laid: Box[]
+    if (block.kind === 'text') laid = layoutText(block, width, lc)
+    else if (block.kind === 'table') laid = layoutTable(block, width, lc)
+    else if (block.kind === 'image') laid = layoutImage(block, width, lc)
+    else {
+      laid = [
+        {
+          height: 1,
+          before: PARAGRAPH_SPACE,
+          draw(page, x, top) {
+            page.drawLine({ start: { x: x + block.indent, y: top }, end: { x: x + width, y: top }, thickness: 0.75, color: RULE_COLOR })
+          },
+        },
+      ]
+    }
+    if (!laid.length) continue
+    // Margins collapse: the gap between two blocks is the larger of their spacings.
+    laid[0] = { ...laid[0], before: Math.max(laid[0].before, after) }
+    boxes.push(...laid)
+    after = block.kind === 'text' ? block.after : PARAGRAPH_SPACE
+  }
+  return boxes
+}
+
+// ==================== RENDERING ====================
+
+async function embedImage(pdf: PDFDocument, src: string): Promise<PDFImage | null> {
+  try {
+    const bytes = new Uint8Array(await (await fetch(src)).arrayBuffer())
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes)
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes)
+    // GIF, WebP…: re-encoded as PNG through a canvas.
+    const bitmap = await createImageBitmap(new Blob([bytes]))
+    const canvas = document.createElement('canvas')
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0)
+    const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'))
+    return png ? await pdf.embedPng(new Uint8Array(await png.arrayBuffer())) : null
+  } catch {
+    // An image that cannot be loaded (blocked, broken) is left out rather than failing the PDF.
+    return null
+  }
+}
+
+/** One line of text, cut short with an ellipsis past `maxWidth`. */
+function drawLabel(page: PDFPage, fonts: PdfFonts, text: string, x: number, y: number, maxWidth: number, align: 'left' | 'right' = 'left') {
+  const size = 8.5
+  let label = measure(fonts, text, {}, size)
+  if (label.width > maxWidth) {
+    let cut = text
+    while (cut && label.width > maxWidth) {
+      cut = cut.slice(0, -1)
+      label = measure(fonts, `${cut.trimEnd()}…`, {}, size)
+    }
+  }
+  let lx = align === 'right' ? x - label.width : x
+  for (const segment of label.segments) {
+    page.drawText(segment.text, { x: lx, y, size, font: segment.font, color: MUTED_COLOR })
+    lx += segment.width
+  }
+}
+
+export async function renderHtmlPdf(html: string, options: PdfOptions): Promise<Blob> {
+  return (await renderHtmlPdfChecked(html, options)).blob
+}
+
+/** `renderHtmlPdf`, also telling which characters could not be drawn. */
+export async function renderHtmlPdfChecked(html: string, options: PdfOptions): Promise<RenderedPdf> {
+  const body = new DOMParser().parseFromString(html, 'text/html').body
+  const blocks = readBlocks(body, { style: {}, indent: 0, bars: [], after: PARAGRAPH_SPACE, listDepth: 0 })
+  const header = (options.header ?? options.title).trim()
+  const footer = (options.footer || '').trim()
+  const { width: pageWidth, height: pageHeight } = PAGE_SIZES[options.pageSize || 'letter']
+  const bodyWidth = pageWidth - MARGIN_X * 2
+  const bodyHeight = pageHeight - MARGIN_TOP - MARGIN_BOTTOM
+
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(options.title)
+  const fonts = await embedPdfFonts(pdf, `${body.textContent || ''} ${header} ${footer} ${BULLETS.join('')} Page of 0123456789…`)
+  const images = new Map<string, PDFImage>()
+  for (const img of Array.from(body.querySelectorAll('img'))) {
+    const src = img.getAttribute('src') || ''
+    if (!src || images.has(src)) continue
+    const image = await embedImage(pdf, src)
+    if (image) images.set(src, image)
+  }
+  const boxes = layoutBlocks(blocks, bodyWidth, { fonts, images, bodyHeight })
+
+  const pages: PDFPage[] = []
+  let page!: PDFPage
+  let y = 0
+  const newPage = () => {
+    page = pdf.addPage([pageWidth, pageHeight])
+    pages.push(page)
+    y = pageHeight - MARGIN_TOP
+  }
+  const place = (box: Box) => {
+    box.draw(page, MARGIN_X, y)
+    y -= box.height
+  }
+  newPage()
+  boxes.forEach((box, i) => {
+    const atTop = y === pageHeight - MARGIN_TOP
+    if (box.pageBreak) {
+      // A break on a page that is still empty adds no blank page.
+      if (!atTop) newPage()
+      return
+    }
+    let needed = (atTop ? 0 : box.before) + box.height
+    // A heading (or a paragraph kept with the next) stays with the first line after it, through chains of them,
+    // unless together they would not fit on any page.
+    for (let j = i; boxes[j].keepWithNext && boxes[j + 1] && !boxes[j + 1].pageBreak; j++) {
+      const more = needed + boxes[j + 1].before + boxes[j + 1].height
+      if (more > bodyHeight) break
+      needed = more
+    }
+    if (!atTop && y - needed < MARGIN_BOTTOM) {
+      newPage()
+      box.repeat?.forEach(place)
+    } else if (!atTop) {
+      y -= box.before
+    }
+    place(box)
+  })
+
+  pages.forEach((p, i) => {
+    if (header) {
+      drawLabel(p, fonts, header, MARGIN_X, pageHeight - HEADER_BASELINE, bodyWidth)
+      const rule = pageHeight - HEADER_BASELINE - 8
+      p.drawLine({ start: { x: MARGIN_X, y: rule }, end: { x: pageWidth - MARGIN_X, y: rule }, thickness: 0.5, color: RULE_COLOR })
+    }
+    if (footer) drawLabel(p, fonts, footer, MARGIN_X, FOOTER_BASELINE, bodyWidth - 80)
+    drawLabel(p, fonts, `Page ${i + 1} of ${pages.length}`, pageWidth - MARGIN_X, FOOTER_BASELINE, 80, 'right')
+  })
+
+  const bytes = await pdf.save()
+  return { blob: new Blob([bytes as BlobPart], { type: 'application/pdf' }), missing: fonts.missing }
+}
+
+const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+function textPdfHtml(text: string, title: string): string {
+  const paragraphs = text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .filter((p) => p.trim())
+    .map((p) => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+  return `<h1>${escapeHtml(title)}</h1>${paragraphs.join('')}`
+}
+
+/** Plain text (a template, a report) as a PDF under a title heading: blank lines separate paragraphs. */
+export function renderTextPdf(text: string, options: PdfOptions): Promise<Blob> {
+  return renderHtmlPdf(textPdfHtml(text, options.title), options)
+}
+
+/** `renderTextPdf`, also telling which characters could not be drawn. */
+export function renderTextPdfChecked(text: string, options: PdfOptions): Promise<RenderedPdf> {
+  return renderHtmlPdfChecked(textPdfHtml(text, options.title), options)
+}
@@ -0,0 +1,513 @@
+/**
+ * Shared HTTP pipeline for every backend call.
+ *
+ * `api.ts` (auth + legacy helpers) and `ApiClient` both send through `http`, so
+ * token attachment, refresh-on-401, retries and `auth:logout` behave the same no
+ * matter which module issued the request. Behaviour is composed from interceptors
+ * (koa-style middleware around the transport); add your own with `http.use()`.
+ */
+
+import type { User } from './api'
+import { API_BASE_URL, MOCK_API, TENANT_HEADER } from './env'
+
+export interface UploadProgress {
+  loaded: number
+  total?: number
+  percent?: number
+}
+
+export interface HttpRequest {
+  method: string
+  /** Fully resolved URL. */
+  url: string
+  headers: Record<string, string>
+  body?: BodyInit | null
+  signal?: AbortSignal
+  /** Attach the stored access token. Defaults to true for backend paths, false for absolute URLs. */
+  auth: boolean
+  /** Let the refresh interceptor refresh the session and replay this request once on 401. */
+  refresh: boolean
+  /** Upload progress callback; switches the transport to XHR (fetch cannot report upload progress). */
+  onUploadProgress?: (info: UploadProgress) => void
+}
+
+export interface HttpRequestInit {
+  method?: string
+  headers?: Record<string, string>
+  /** Serialised as the JSON body (sets `Content-Type`). */
+  json?: unknown
+  body?: BodyInit | null
+  signal?: AbortSignal
+  auth?: boolean
+  refresh?: boolean
+  onUploadProgress?: (info: UploadProgress) => void
+}
+
+export type HttpHandler = (req: HttpRequest) => Promise<Response>
+export type HttpInterceptor = (req: HttpRequest, next: HttpHandler) => Promise<Response>
+export type HttpTransport = HttpHandler
+
+const isBrowser = () => typeof window !== 'undefined'
+
+// ============================================================================
+// TOKEN STORAGE
+// ============================================================================
+
+const SESSION_KEYS = ['access_token', 'refresh_token', 'user'] as const
+
+/**
+ * Single owner of the persisted session. Emits `auth:tokens` on every change
+ * and tells the other open tabs (see "CROSS-TAB SYNC" below). Writes that
+ * don't change anything are silent, so tabs reacting to each other can't loop.
+ */
+export const tokenStore = {
+  getAccessToken: (): string | null => (isBrowser() ? localStorage.getItem('access_token') : null),
+
+  getRefreshToken: (): string | null => (isBrowser() ? localStorage.getItem('refresh_token') : null),
+
+  setTokens: (access: string, refresh?: string): void => {
+    if (!isBrowser()) return
+    const changed = access !== localStorage.getItem('access_token') || (!!refresh && refresh !== localStorage.getItem('refresh_token'))
+    if (!changed) return
+    localStorage.setItem('access_token', access)
+    if (refresh) localStorage.setItem('refresh_token', refresh)
+    notifyAuthChanged()
+  },
+
+  getUser: (): User | null => {
+    if (!isBrowser()) return null
+    const raw = localStorage.getItem('user')
+    if (!raw) return null
+    try {
+      return JSON.parse(raw) as User
+    } catch {
+      return null
+    }
+  },
+
+  setUser: (user: User): void => {
+    if (!isBrowser()) return
+    const raw = JSON.stringify(user)
+    if (raw === localStorage.getItem('user')) return
+    localStorage.setItem('user', raw)
+    notifyAuthChanged()
+  },
+
+  clearTokens: (): void => {
+    if (!isBrowser()) return
+    if (SESSION_KEYS.every((key) => localStorage.getItem(key) === null)) return
+    for (const key of SESSION_KEYS) localStorage.removeItem(key)
+    notifyAuthChanged()
+  },
+}
+
+function notifyAuthChanged() {
+  if (isBrowser()) {
+    signedInHere = !!tokenStore.getAccessToken()
+    window.dispatchEvent(new Event('auth:tokens'))
+    const message: SessionMessage = { type: 'changed', signedIn: signedInHere }
+    sessionChannel()?.postMessage(message)
+  }
+}
+
+/** Claims of a JWT (unverified), or null when `token` isn't one. */
+export function decodeJwt(token: string | null | undefined): { exp?: number; iat?: number; [claim: string]: unknown } | null {
+  const payload = token?.split('.')[1]
+  if (!payload) return null
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/')
+    const bytes = Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), (c) => c.charCodeAt(0))
+    const claims = JSON.parse(new TextDecoder().decode(bytes))
+    return claims && typeof claims === 'object' ? claims : null
+  } catch {
+    return null
+  }
+}
+
+/** When `token` expires (epoch ms), from its `exp` claim. Null for opaque tokens. */
+export function tokenExpiresAt(token: string | null | undefined): number | null {
+  const exp = decodeJwt(token)?.exp
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null
+}
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+let refreshInFlight: Promise<boolean> | null = null
+
+/**
+ * Exchange the stored refresh token for a new access token. Concurrent callers
+ * share one in-flight request, so a burst of 401s triggers a single refresh;
+ * across tabs, refreshes run one at a time (see `withRefreshLock`).
+ */
+export function refreshSession(baseUrl: string = API_BASE_URL): Promise<boolean> {
+  if (!refreshInFlight) {
+    const staleAccess = tokenStore.getAccessToken()
+    refreshInFlight = withRefreshLock(() => {
+      // Another tab refreshed while we waited for the lock: use its tokens instead of
+      // spending (and, with rotation, invalidating) the refresh token a second time.
+      const current = tokenStore.getAccessToken()
+      if (current && current !== staleAccess && !expiresWithin(current, REFRESH_LOCK_FRESH_MS)) return Promise.resolve(true)
+      return doRefresh(baseUrl)
+    }).finally(() => {
+      refreshInFlight = null
+    })
+  }
+  return refreshInFlight
+}
+
+/** A token refreshed by another tab is reused only if it has at least this long left. */
+const REFRESH_LOCK_FRESH_MS = 30_000
+
+const expiresWithin = (token: string, ms: number) => {
+  const expiresAt = tokenExpiresAt(token)
+  return expiresAt !== null && expiresAt - Date.now() < ms
+}
+
+/**
+ * Run `fn` while holding a lock shared by every tab of this origin (Web Locks),
+ * so two tabs never present the same refresh token. Browsers without Web Locks
+ * fall back to the per-tab single flight above.
+ */
+function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  const locks = isBrowser() ? (navigator as Navigator & { locks?: LockManager }).locks : undefined
+  if (!locks?.request) return fn()
+  return locks.request('clm:auth-refresh', fn) as Promise<T>
+}
+
+async function doRefresh(baseUrl: string): Promise<boolean> {
+  const refresh = tokenStore.getRefreshToken()
+  if (!refresh) return false
+
+  try {
+    // Straight to the transport: the refresh call must not re-enter the refresh interceptor.
+    const response = await defaultTransport({
+      method: 'POST',
+      url: `${baseUrl}/api/auth/refresh/`,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh }),
+      auth: false,
+      refresh: false,
+    })
+    if (!response.ok) return false
+
+    const data = await response.json().catch(() => ({}))
+    const access = (data as { access?: unknown })?.access
+    const rotated = (data as { refresh?: unknown })?.refresh
+    if (typeof access !== 'string' || !access) return false
+
+    tokenStore.setTokens(access, typeof rotated === 'string' ? rotated : undefined)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Drop the local session and tell the app (AuthProvider listens for `auth:logout`). */
+export function endSession() {
+  tokenStore.clearTokens()
+  if (isBrowser()) {
+    window.dispatchEvent(new Event('auth:logout'))
+  }
+}
+
+// ============================================================================
+// CROSS-TAB SYNC
+// ============================================================================
+
+// Every tab reads the session from localStorage, so a change made in one tab only
+// needs announcing: the others dispatch the same window events they would for a
+// local change (`auth:tokens`, plus `auth:logout` when the session went away).
+// Login, token rotation and logout all travel this way. Storage events are
+// also followed, for browsers without BroadcastChannel.
+
+type SessionMessage = { type: 'changed'; signedIn: boolean }
+
+let channel: BroadcastChannel | null | undefined
+
+function sessionChannel(): BroadcastChannel | null {
+  if (channel !== undefined) return channel
+  channel = null
+  if (isBrowser() && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel('clm:session')
+    channel.onmessage = (e: MessageEvent<SessionMessage>) => {
+      if (e.data?.type === 'changed') followOtherTab(e.data.signedIn)
+    }
+  }
+  return channel
+}
+
+/** Whether this tab last saw a session; a change to signed out means another tab logged out. */
+let signedInHere = false
+
+function followOtherTab(signedIn: boolean) {
+  const wasSignedIn = signedInHere
+  signedInHere = signedIn
+  window.dispatchEvent(new Event('auth:tokens'))
+  if (wasSignedIn && !signedIn) window.dispatchEvent(new Event('auth:logout'))
+}
+
+if (isBrowser()) {
+  signedInHere = !!tokenStore.getAccessToken()
+  sessionChannel()
+  window.addEventListener('storage', (e) => {
+    if (e.key === 'access_token' || e.key === null) followOtherTab(!!e.newValue)
+  })
+}
+
+// ============================================================================
+// INTERCEPTORS
+// ============================================================================
+
+/** Attaches the current access token. Read per attempt so replays pick up a refreshed token. */
+export const authInterceptor: HttpInterceptor = (req, next) => {
+  if (!req.auth) return next(req)
+  const token = tokenStore.getAccessToken()
+  if (!token) return next(req)
+  return next({ ...req, headers: { ...req.headers, Authorization: `Bearer ${token}` } })
+}
+
+/** Sends the signed-in user's tenant id in `headerName`. Disabled when no header name is configured. */
+export function tenantInterceptor(headerName: string = TENANT_HEADER): HttpInterceptor {
+  return (req, next) => {
+    if (!headerName || !req.auth || req.headers[headerName]) return next(req)
+    const tenantId = tokenStore.getUser()?.tenant_id
+    if (!tenantId) return next(req)
+    return next({ ...req, headers: { ...req.headers, [headerName]: String(tenantId) } })
+  }
+}
+
+/**
+ * On 401 for an authenticated request: refresh once and replay. If the session
+ * cannot be refreshed, end it so every screen logs out the same way.
+ */
+export function refreshInterceptor(baseUrl: string = API_BASE_URL): HttpInterceptor {
+  return async (req, next) => {
+    const response = await next(req)
+    if (response.status !== 401 || !req.auth) return response
+
+    if (req.refresh && (await refreshSession(baseUrl))) {
+      return next({ ...req, refresh: false })
+    }
+
+    endSession()
+    return response
+  }
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS'])
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504])
+
+/**
+ * Retries idempotent requests on network failures and transient gateway errors,
+ * with exponential backoff (honouring `Retry-After` when present).
+ */
+export function retryInterceptor(opts?: { retries?: number; baseDelayMs?: number }): HttpInterceptor {
+  const retries = opts?.retries ?? 2
+  const baseDelayMs = opts?.baseDelayMs ?? 300
+
+  return async (req, next) => {
+    if (!IDEMPOTENT_METHODS.has(req.method.toUpperCase())) return next(req)
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response
+      try {
+        response = await next(req)
+      } catch (error) {
+        if (attempt >= retries || isAbortError(error) || req.signal?.aborted) throw error
+        await sleep(backoff(attempt, baseDelayMs), req.signal)
+        continue
+      }
+
+      if (attempt >= retries || !RETRYABLE_STATUSES.has(response.status)) return response
+
+      const retryAfter = Number(response.headers.get('retry-after'))
+      await sleep(Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : backoff(attempt, baseDelayMs), req.signal)
+    }
+  }
+}
+
+/** Logs method, path, status and duration. Only installed by default in development. */
+export const loggingInterceptor: HttpInterceptor = async (req, next) => {
+  const startedAt = Date.now()
+  const path = req.url.split('?')[0]
+  try {
+    const response = await next(req)
+    console.debug(`[http] ${req.method} ${path} → ${response.status} (${Date.now() - startedAt}ms)`)
+    return response
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.debug(`[http] ${req.method} ${path} → failed (${Date.now() - startedAt}ms)`, error)
+    }
+    throw error
+  }
+}
+
+const backoff = (attempt: number, baseDelayMs: number) =>
+  baseDelayMs * 2 ** attempt + Math.round(Math.random() * baseDelayMs)
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError'
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+export const fetchTransport: HttpTransport = (req) => {
+  if (req.onUploadProgress) return xhrTransport(req)
+  return fetch(req.url, {
+    method: req.method,
+    headers: req.headers,
+    body: req.body,
+    signal: req.signal,
+    credentials: 'include',
+  })
+}
+
+/**
+ * Answers from the in-browser mock backend. Loaded on first use, so builds
+ * without `NEXT_PUBLIC_MOCK_API` never fetch the fixtures.
+ */
+export const mockTransport: HttpTransport = (req) => import('./mock-api').then((m) => m.handleMockRequest(req))
+
+/** Real network, or the mock backend when `NEXT_PUBLIC_MOCK_API=1`. */
+export const defaultTransport: HttpTransport = (req) => (MOCK_API ? mockTransport(req) : fetchTransport(req))
+
+/** XHR-backed transport that still resolves to a `Response`, so interceptors stay transport-agnostic. */
+function xhrTransport(req: HttpRequest): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open(req.method, req.url, true)
+    xhr.withCredentials = true
+    for (const [name, value] of Object.entries(req.headers)) {
+      xhr.setRequestHeader(name, value)
+    }
+
+    if (xhr.upload && req.onUploadProgress) {
+      const onProgress = req.onUploadProgress
+      xhr.upload.onprogress = (evt) => {
+        const total = evt.lengthComputable ? evt.total : undefined
+        const percent = total ? Math.round((evt.loaded / total) * 100) : undefined
+        onProgress({ loaded: evt.loaded, total, percent })
+      }
+    }
+
+    const onAbort = () => xhr.abort()
+    req.signal?.addEventListener('abort', onAbort, { once: true })
+    const cleanup = () => req.signal?.removeEventListener('abort', onAbort)
+
+    xhr.onerror = () => {
+      cleanup()
+      reject(new TypeError('Network error'))
+    }
+    xhr.onabort = () => {
+      cleanup()
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    xhr.onload = () => {
+      cleanup()
+      const headers = new Headers()
+      for (const line of xhr.getAllResponseHeaders().trim().split(/[\r\n]+/)) {
+        const idx = line.indexOf(':')
+        if (idx > 0) headers.append(line.slice(0, idx).trim(), line.slice(idx + 1).trim())
+      }
+      const nullBody = [204, 205, 304].includes(xhr.status)
+      resolve(new Response(nullBody ? null : xhr.responseText, { status: xhr.status, statusText: xhr.statusText, headers }))
+    }
+
+    if (req.signal?.aborted) {
+      xhr.abort()
+      return
+    }
+    xhr.send((req.body ?? null) as XMLHttpRequestBodyInit | null)
+  })
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+const isAbsoluteUrl = (url: string) => /^[a-z][a-z\d+.-]*:/i.test(url)
+
+export class HttpClient {
+  constructor(
+    private baseUrl: string = API_BASE_URL,
+    private interceptors: HttpInterceptor[] = [],
+    private transport: HttpTransport = defaultTransport
+  ) {
+    this.baseUrl = String(baseUrl || API_BASE_URL).trim().replace(/\/+$/, '')
+  }
+
+  /** Append an interceptor (innermost so far). Returns a function that removes it. */
+  use(interceptor: HttpInterceptor): () => void {
+    this.interceptors.push(interceptor)
+    return () => {
+      const idx = this.interceptors.indexOf(interceptor)
+      if (idx !== -1) this.interceptors.splice(idx, 1)
+    }
+  }
+
+  /** Same pipeline (shared interceptor list), different backend origin. */
+  withBaseUrl(baseUrl: string): HttpClient {
+    return new HttpClient(baseUrl, this.interceptors, this.transport)
+  }
+
+  /** Send a request through the interceptor chain. Network failures reject; HTTP errors resolve. */
+  send(path: string, init: HttpRequestInit = {}): Promise<Response> {
+    const absolute = isAbsoluteUrl(path)
+    const headers: Record<string, string> = { ...init.headers }
+    let body = init.body
+    if (init.json !== undefined) {
+      headers['Content-Type'] = headers['Content-Type'] || 'application/json'
+      body = JSON.stringify(init.json)
+    }
+
+    const req: HttpRequest = {
+      method: (init.method || 'GET').toUpperCase(),
+      url: absolute ? path : `${this.baseUrl}${path}`,
+      headers,
+      body,
+      signal: init.signal,
+      auth: init.auth ?? !absolute,
+      refresh: init.refresh ?? true,
+      onUploadProgress: init.onUploadProgress,
+    }
+
+    const chain = this.interceptors.reduceRight<HttpHandler>(
+      (next, interceptor) => (r) => interceptor(r, next),
+      this.transport
+    )
+    return chain(req)
+  }
+}
+
+/** Default stack, outermost first: logging → retry → refresh → tenant → auth → transport. */
+export function defaultInterceptors(baseUrl: string = API_BASE_URL): HttpInterceptor[] {
+  return [
+    ...(process.env.NODE_ENV === 'development' ? [loggingInterceptor] : []),
+    retryInterceptor(),
+    refreshInterceptor(baseUrl),
+    tenantInterceptor(),
+    authInterceptor,
+  ]
+}
+
+export const http = new HttpClient(API_BASE_URL, defaultInterceptors())
@@ -0,0 +1,182 @@
+/**
+ * Block-level diff and three-way merge for editor HTML.
+ *
+ * Documents are compared as sequences of top-level blocks (paragraphs, headings,
+ * lists, tables, ...), which is the granularity people reason about when they
+ * reconcile two edits of the same contract.
+ */
+
+export type DiffOp = { type: 'equal' | 'insert' | 'delete'; blocks: string[] }
+
+export type MergeChunk =
+  | { kind: 'stable'; blocks: string[] }
+  | { kind: 'conflict'; base: string[]; mine: string[]; theirs: string[] }
+
+const BLOCK_START = /(?=<(?:p|h[1-6]|ul|ol|blockquote|pre|table|hr|div|section|figure|img)\b)/i
+
+/** Split editor HTML into its top-level blocks. */
+export function splitHtmlBlocks(html: string): string[] {
+  const raw = String(html || '').trim()
+  if (!raw) return []
+
+  if (typeof DOMParser !== 'undefined') {
+    const doc = new DOMParser().parseFromString(`<body>${raw}</body>`, 'text/html')
+    const blocks: string[] = []
+    doc.body.childNodes.forEach((node) => {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        blocks.push((node as Element).outerHTML)
+      } else if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+        const p = doc.createElement('p')
+        p.textContent = node.textContent
+        blocks.push(p.outerHTML)
+      }
+    })
+    return blocks
+  }
+
+  return raw
+    .split(BLOCK_START)
+    .map((b) => b.trim())
+    .filter(Boolean)
+}
+
+/** Comparison key: ignores whitespace-only differences. */
+export const normalizeBlock = (block: string) => block.replace(/\s+/g, ' ').replace(/>\s+</g, '><').trim()
+
+/** True when two HTML documents have the same blocks (ignoring whitespace). */
+export function sameHtml(a: string, b: string): boolean {
+  const x = splitHtmlBlocks(a).map(normalizeBlock)
+  const y = splitHtmlBlocks(b).map(normalizeBlock)
+  return x.length === y.length && x.every((v, i) => v === y[i])
+}
+
+/**
+ * Longest common subsequence of two block lists. Returns, for each index of `a`,
+ * the matched index in `b` (or -1). Common prefix/suffix are matched up front so
+ * the quadratic table only covers the edited middle.
+ */
+function lcsMatches(a: string[], b: string[]): number[] {
+  const ka = a.map(normalizeBlock)
+  const kb = b.map(normalizeBlock)
+  const matches = new Array<number>(a.length).fill(-1)
+
+  let start = 0
+  while (start < ka.length && start < kb.length && ka[start] === kb[start]) {
+    matches[start] = start
+    start++
+  }
+  let endA = ka.length
+  let endB = kb.length
+  while (endA > start && endB > start && ka[endA - 1] === kb[endB - 1]) {
+    endA--
+    endB--
+    matches[endA] = endB
+  }
+
+  const n = endA - start
+  const m = endB - start
+  if (n === 0 || m === 0) return matches
+
+  const width = m + 1
+  const table = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] =
+        ka[start + i] === kb[start + j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (ka[start + i] === kb[start + j]) {
+      matches[start + i] = start + j
+      i++
+      j++
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return matches
+}
+
+/** Block diff from `a` to `b`. */
+export function diffBlocks(a: string[], b: string[]): DiffOp[] {
+  const matches = lcsMatches(a, b)
+  const ops: DiffOp[] = []
+  const push = (type: DiffOp['type'], block: string) => {
+    const last = ops[ops.length - 1]
+    if (last && last.type === type) last.blocks.push(block)
+    else ops.push({ type, blocks: [block] })
+  }
+
+  let j = 0
+  for (let i = 0; i < a.length; i++) {
+    const target = matches[i]
+    if (target === -1) {
+      push('delete', a[i])
+      continue
+    }
+    while (j < target) push('insert', b[j++])
+    push('equal', b[j++])
+  }
+  while (j < b.length) push('insert', b[j++])
+  return ops
+}
+
+const sameBlocks = (x: string[], y: string[]) =>
+  x.length === y.length && x.every((v, i) => normalizeBlock(v) === normalizeBlock(y[i]))
+
+/**
+ * Three-way merge (diff3). Regions changed on only one side are taken from that
+ * side; regions changed identically on both sides are taken once; everything
+ * else becomes a conflict chunk.
+ */
+export function merge3(base: string[], mine: string[], theirs: string[]): MergeChunk[] {
+  const toMine = lcsMatches(base, mine)
+  const toTheirs = lcsMatches(base, theirs)
+  const chunks: MergeChunk[] = []
+  const stable = (blocks: string[]) => {
+    if (!blocks.length) return
+    const last = chunks[chunks.length - 1]
+    if (last && last.kind === 'stable') last.blocks.push(...blocks)
+    else chunks.push({ kind: 'stable', blocks: [...blocks] })
+  }
+
+  let i = 0
+  let a = 0
+  let b = 0
+  while (i < base.length || a < mine.length || b < theirs.length) {
+    // Unchanged on both sides.
+    while (i < base.length && toMine[i] === a && toTheirs[i] === b) {
+      stable([mine[a]])
+      i++
+      a++
+      b++
+    }
+    if (i >= base.length && a >= mine.length && b >= theirs.length) break
+
+    // Next base block that both sides still contain.
+    let k = i
+    while (k < base.length && (toMine[k] === -1 || toTheirs[k] === -1)) k++
+    const aEnd = k < base.length ? toMine[k] : mine.length
+    const bEnd = k < base.length ? toTheirs[k] : theirs.length
+
+    const baseChunk = base.slice(i, k)
+    const mineChunk = mine.slice(a, aEnd)
+    const theirsChunk = theirs.slice(b, bEnd)
+
+    if (sameBlocks(mineChunk, baseChunk)) stable(theirsChunk)
+    else if (sameBlocks(theirsChunk, baseChunk) || sameBlocks(mineChunk, theirsChunk)) stable(mineChunk)
+    else chunks.push({ kind: 'conflict', base: baseChunk, mine: mineChunk, theirs: theirsChunk })
+
+    i = k
+    a = aEnd
+    b = bEnd
+  }
+  return chunks
+}
@@ -0,0 +1,288 @@
+import type { AdminUser, DashboardInsights } from '../api-client'
+import { db, logActivity, type MockUser } from './db'
+import { applyOrdering, fail, json, matchesQuery, paginate, route, type MockRequest } from './router'
+
+const V1 = '/api/v1'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const toAdminUser = (u: MockUser): AdminUser => ({
+  user_id: u.user_id,
+  email: u.email,
+  first_name: u.first_name,
+  last_name: u.last_name,
+  tenant_id: u.tenant_id,
+  is_active: u.is_active,
+  is_admin: !!u.is_admin,
+  date_joined: u.date_joined,
+  last_login: u.last_login,
+})
+
+/** Admin routes answer 403 for everyone else, like the backend's `IsAdminUser`. */
+const forbidden = (req: MockRequest) => (req.user.is_admin || req.user.is_superadmin ? null : fail(403, 'Admin access required.'))
+
+const since = (iso: string | null | undefined, ms: number) => !!iso && Date.parse(iso) >= Date.now() - ms
+
+const countBy = <T>(items: T[], key: (item: T) => string) => {
+  const counts = new Map<string, number>()
+  for (const item of items) counts.set(key(item), (counts.get(key(item)) || 0) + 1)
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])
+}
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate())
+const isoDate = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+const monthKey = (d: Date) => isoDate(d).slice(0, 7)
+
+/** Last `n` calendar days, oldest first. */
+function lastDays(n: number): Date[] {
+  const today = startOfDay(new Date())
+  return Array.from({ length: n }, (_, i) => new Date(today.getTime() - (n - 1 - i) * DAY))
+}
+
+/** First day of each of the last `n` months, oldest first. */
+function lastMonths(n: number): Date[] {
+  const now = new Date()
+  return Array.from({ length: n }, (_, i) => new Date(now.getFullYear(), now.getMonth() - (n - 1 - i), 1))
+}
+
+function tenantData(tenantId: string) {
+  const s = db.state
+  return {
+    users: s.users.filter((u) => u.tenant_id === tenantId),
+    contracts: s.contracts.filter((c) => c.tenant_id === tenantId),
+    templates: s.contract_templates.filter((t) => t.tenant_id === tenantId),
+    signing: s.signing_requests.filter((r) => r.tenant_id === tenantId),
+    activity: s.activity.filter((a) => a.tenant_id === tenantId),
+    reviews: s.reviews.filter((r) => r.tenant_id === tenantId),
+    uploads: s.uploads.filter((u) => u.tenant_id === tenantId),
+    events: s.events.filter((e) => e.tenant_id === tenantId),
+  }
+}
+
+function trends(tenantId: string, buckets: Date[], bucketKey: (d: Date) => string) {
+  const t = tenantData(tenantId)
+  const count = (dates: Array<string | null | undefined>) => {
+    const counts = new Map<string, number>()
+    for (const iso of dates) if (iso) counts.set(bucketKey(new Date(iso)), (counts.get(bucketKey(new Date(iso))) || 0) + 1)
+    return (d: Date) => counts.get(bucketKey(d)) || 0
+  }
+  const contracts = count(t.contracts.map((c) => c.created_at))
+  const templates = count(t.templates.map((x) => x.created_at))
+  const sent = count(t.signing.map((r) => r.sent_at))
+  const completed = count(t.signing.map((r) => r.completed_at))
+  const audit = count(t.activity.map((a) => a.created_at))
+  return buckets.map((d) => ({
+    contracts_created: contracts(d),
+    templates_created: templates(d),
+    signing_sent: sent(d),
+    signing_completed: completed(d),
+    audit_logs: audit(d),
+  }))
+}
+
+// ==================== ADMIN ====================
+
+route('GET', `${V1}/admin/me/`, (req) =>
+  json({ is_admin: req.user.is_admin, is_superadmin: req.user.is_superadmin, email: req.user.email, tenant_id: req.user.tenant_id })
+)
+
+route('GET', `${V1}/admin/analytics/`, (req) => {
+  const denied = forbidden(req)
+  if (denied) return denied
+  const t = tenantData(req.user.tenant_id)
+  const days = lastDays(7)
+  const months12 = lastMonths(12)
+  const monthly = trends(req.user.tenant_id, months12, monthKey).map((row, i) => {
+    const d = months12[i]
+    return {
+      month_start: isoDate(d),
+      label: d.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+      contracts_created: row.contracts_created,
+      templates_created: row.templates_created,
+      signing_sent: row.signing_sent,
+      signing_completed: row.signing_completed,
+    }
+  })
+  return json({
+    users: {
+      total: t.users.length,
+      active: t.users.filter((u) => u.is_active).length,
+      admins: t.users.filter((u) => u.is_admin).length,
+      superadmins: t.users.filter((u) => u.is_superadmin).length,
+    },
+    contracts: {
+      total: t.contracts.length,
+      by_contract_type: countBy(t.contracts, (c) => c.contract_type).map(([contract_type, count]) => ({ contract_type, count })),
+      expiring_next_30d: t.contracts.filter((c) => {
+        const end = Date.parse(String(c.metadata?.end_date || ''))
+        return !Number.isNaN(end) && end >= Date.now() && end <= Date.now() + 30 * DAY
+      }).length,
+    },
+    templates: {
+      total: t.templates.length,
+      top_templates: t.templates
+        .map((x) => ({ name: x.name, contracts_count: t.contracts.filter((c) => c.metadata?.template_id === x.id).length }))
+        .sort((a, b) => b.contracts_count - a.contracts_count)
+        .slice(0, 5),
+    },
+    approvals: { total: db.state.approvals.filter((a) => t.contracts.some((c) => c.id === a.entity_id)).length },
+    activity_summary: { audit_logs_last_7d: t.activity.filter((a) => since(a.created_at, 7 * DAY)).length },
+    trends_last_7_days: trends(req.user.tenant_id, days, isoDate).map((row, i) => ({
+      label: days[i].toLocaleDateString('en-US', { weekday: 'short' }),
+      ...row,
+    })),
+    trends_last_6_months: monthly.slice(-6),
+    trends_last_12_months: monthly,
+  })
+})
+
+route('GET', `${V1}/admin/activity/`, (req) => {
+  const denied = forbidden(req)
+  if (denied) return denied
+  const limit = Number(req.query.get('limit')) || 50
+  const results = tenantData(req.user.tenant_id)
+    .activity.slice(0, limit)
+    .map((a) => ({ id: a.id, action: a.action, entity_type: a.entity_type, entity_id: a.entity_id, user_email: a.user_email, created_at: a.created_at }))
+  return json({ count: results.length, results })
+})
+
+route('GET', `${V1}/admin/users/`, (req) => {
+  const denied = forbidden(req)
+  if (denied) return denied
+  const allTenants = req.query.get('all_tenants') === '1'
+  if (allTenants && !req.user.is_superadmin) return fail(403, 'Only superadmins can list users across tenants.')
+  const q = req.query.get('q')
+  const results = db.state.users
+    .filter((u) => (allTenants || u.tenant_id === req.user.tenant_id) && matchesQuery(u, q, ['email', 'full_name']))
+    .map(toAdminUser)
+  return paginate(req, applyOrdering(results, req.query.get('ordering'), 'email'))
+})
+
+function setAdmin(req: MockRequest, isAdmin: boolean) {
+  const denied = forbidden(req)
+  if (denied) return denied
+  const allTenants = req.query.get('all_tenants') === '1' && req.user.is_superadmin
+  const target = db.state.users.find(
+    (u) =>
+      (allTenants || u.tenant_id === req.user.tenant_id) &&
+      ((req.json.user_id && u.user_id === req.json.user_id) ||
+        (req.json.email && u.email.toLowerCase() === String(req.json.email).trim().toLowerCase()))
+  )
+  if (!target) return fail(404, 'User not found.')
+  if (!isAdmin && target.user_id === req.user.user_id) return fail(400, 'You cannot remove your own admin access.')
+  if (!isAdmin && target.is_superadmin) return fail(400, 'Superadmins cannot be demoted.')
+  target.is_admin = isAdmin
+  logActivity(req.user, isAdmin ? 'promote' : 'demote', 'user', target.user_id)
+  return json({ success: true, user: toAdminUser(target) })
+}
+
+route('POST', `${V1}/admin/users/promote/`, (req) => setAdmin(req, true))
+route('POST', `${V1}/admin/users/demote/`, (req) => setAdmin(req, false))
+
+route('GET', `${V1}/admin/feature-usage/`, (req) => {
+  const denied = forbidden(req)
+  if (denied) return denied
+  const t = tenantData(req.user.tenant_id)
+  const month_features: Record<string, Record<string, number>> = {}
+  for (const a of t.activity) {
+    const month = monthKey(new Date(a.created_at || 0))
+    const feature = a.entity_type || 'other'
+    month_features[month] = month_features[month] || {}
+    month_features[month][feature] = (month_features[month][feature] || 0) + 1
+  }
+  const top_features = countBy(t.activity, (a) => a.entity_type || 'other').map(([feature, total_usage]) => {
+    const unique_users = new Set(t.activity.filter((a) => (a.entity_type || 'other') === feature).map((a) => a.user_id)).size
+    return { feature, total_usage, unique_users, avg_per_user: Math.round((total_usage / Math.max(1, unique_users)) * 10) / 10 }
+  })
+  const activeUsers = t.users.filter((u) => u.is_active)
+  const withActivity = new Set(t.activity.map((a) => a.user_id)).size
+  return json({
+    month_features,
+    top_features,
+    adoption_rate: Math.round((withActivity / Math.max(1, activeUsers.length)) * 100),
+    users_with_activity: withActivity,
+    total_active_users: activeUsers.length,
+  })
+})
+
+route('GET', `${V1}/admin/user-registration/`, (req) => {
+  const denied = forbidden(req)
+  if (denied) return denied
+  const users = tenantData(req.user.tenant_id).users
+  const registration_data = lastMonths(12).map((d) => {
+    const joined = users.filter((u) => monthKey(new Date(u.date_joined)) === monthKey(d))
+    return {
+      month: monthKey(d),
+      label: d.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+      registered: joined.length,
+      active: joined.filter((u) => u.is_active).length,
+    }
+  })
+  const active = users.filter((u) => u.is_active).length
+  return json({
+    registration_data,
+    total_registered: users.length,
+    total_active: active,
+    active_percentage: Math.round((active / Math.max(1, users.length)) * 100),
+  })
+})
+
+route('GET', `${V1}/admin/user-feature-usage/`, (req) => {
+  const denied = forbidden(req)
+  if (denied) return denied
+  const t = tenantData(req.user.tenant_id)
+  const top_users = t.users
+    .map((u) => {
+      const mine = t.activity.filter((a) => a.user_id === u.user_id)
+      return {
+        user_id: u.user_id,
+        email: u.email,
+        name: u.full_name,
+        total_actions: mine.length,
+        features_used: countBy(mine, (a) => a.entity_type || 'other').map(([entity_type, count]) => ({ entity_type, count })),
+      }
+    })
+    .filter((u) => u.total_actions > 0)
+    .sort((a, b) => b.total_actions - a.total_actions)
+    .slice(0, 10)
+  const feature_distribution = countBy(t.activity, (a) => a.entity_type || 'other').map(([feature, usage_count]) => {
+    const user_count = new Set(t.activity.filter((a) => (a.entity_type || 'other') === feature).map((a) => a.user_id)).size
+    return { feature, usage_count, user_count, adoption_rate: Math.round((user_count / Math.max(1, t.users.length)) * 100) }
+  })
+  return json({ top_users, feature_distribution, total_users: t.users.length })
+})
+
+// ==================== DASHBOARD ====================
+
+route('GET', `${V1}/dashboard/insights/`, (req) => {
+  const t = tenantData(req.user.tenant_id)
+  const recent = <T>(items: T[], date: (item: T) => string | null | undefined, days: number) =>
+    items.filter((item) => since(date(item), days * DAY))
+  const upcoming = (days: number) =>
+    t.events.filter((e) => {
+      const start = Date.parse(e.start_datetime)
+      return start >= Date.now() && start <= Date.now() + days * DAY
+    }).length
+
+  const insights: DashboardInsights = {
+    feature_usage_30d: countBy(recent(t.activity, (a) => a.created_at, 30), (a) => a.entity_type || 'other').map(([key, count]) => ({ key, count })),
+    review_count_30d: recent(t.reviews, (r) => r.created_at, 30).length,
+    upload_count_30d: recent(t.uploads, (u) => u.uploaded_at, 30).length,
+    private_upload_count_30d: recent(t.uploads, (u) => u.uploaded_at, 30).length,
+    templates_count: t.templates.length + db.state.template_files.length,
+    template_files_count: db.state.template_files.length,
+    contract_templates_count: t.templates.length,
+    activity_last_14_days: lastDays(14).map((d) => ({
+      date: isoDate(d),
+      count: t.activity.filter((a) => a.created_at && isoDate(new Date(a.created_at)) === isoDate(d)).length,
+    })),
+    contract_types_180d: countBy(recent(t.contracts, (c) => c.created_at, 180), (c) => c.contract_type).map(([type, count]) => ({ type, count })),
+    ai_tasks_by_status_180d: [],
+    reviews_by_status_180d: countBy(recent(t.reviews, (r) => r.created_at, 180), (r) => r.status).map(([status, count]) => ({ status, count })),
+    calendar_by_category_180d: countBy(recent(t.events, (e) => e.created_at, 180), (e) => e.category).map(([category, count]) => ({ category, count })),
+    calendar_upcoming_30d: upcoming(30),
+    calendar_upcoming_365d: upcoming(365),
+    esign_by_provider_180d: countBy(recent(t.signing, (r) => r.created_at, 180), (r) => r.provider || 'inhouse').map(([provider, count]) => ({ provider, count })),
+  }
+  return json(insights)
+})
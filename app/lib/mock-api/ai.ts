@@ -0,0 +1,211 @@
+import type { AiCitationsChange, AiMode, AiRelevantClause, Clause } from '../api-client'
+import { db, logActivity, newId, nowIso } from './db'
+import { fail, json, route, type MockRequest } from './router'
+import { resumeIndex, sseResponse, toDeltas, type SseFrame } from './sse'
+
+const V1 = '/api/v1'
+
+const words = (text: string) => new Set((text.toLowerCase().match(/[a-z]{4,}/g) || []).map((w) => w.replace(/s$/, '')))
+
+/** Library clauses ranked by word overlap with the prompt (a stand-in for the embedding search). */
+function relevantClauses(prompt: string, contractType?: string): Array<Clause & { similarity: number }> {
+  const promptWords = words(prompt)
+  if (!promptWords.size) return []
+  return db.state.clauses
+    .map((c) => {
+      const clauseWords = words(`${c.name} ${c.content}`)
+      const hits = [...promptWords].filter((w) => clauseWords.has(w)).length
+      const boost = contractType && c.contract_type === contractType ? 0.1 : 0
+      return { ...c, similarity: Math.min(0.99, hits / promptWords.size + (hits ? boost : 0)) }
+    })
+    .filter((c) => c.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, 3)
+}
+
+const sentenceCase = (s: string) => s.charAt(0).toUpperCase() + s.slice(1)
+
+// ==================== INLINE REWRITES ====================
+
+type Rewrite = { find: RegExp; replace: string; summary: string }
+
+const PLAIN_ENGLISH: Rewrite[] = [
+  { find: /\bshall\b/gi, replace: 'will', summary: 'Replaced "shall" with "will"' },
+  { find: /\bin the event that\b/gi, replace: 'if', summary: 'Replaced "in the event that" with "if"' },
+  { find: /\bprior to\b/gi, replace: 'before', summary: 'Replaced "prior to" with "before"' },
+  { find: /\bpursuant to\b/gi, replace: 'under', summary: 'Replaced "pursuant to" with "under"' },
+  { find: /\bin accordance with\b/gi, replace: 'under', summary: 'Replaced "in accordance with" with "under"' },
+  { find: /\bnotwithstanding\b/gi, replace: 'despite', summary: 'Replaced "notwithstanding" with "despite"' },
+  { find: /\bforthwith\b/gi, replace: 'immediately', summary: 'Replaced "forthwith" with "immediately"' },
+  { find: /\bcommence(s|d)?\b/gi, replace: 'start$1', summary: 'Replaced "commence" with "start"' },
+  { find: /\bhereby\s+/gi, replace: '', summary: 'Removed "hereby"' },
+]
+
+const TIGHTEN: Rewrite[] = [
+  { find: /\bin order to\b/gi, replace: 'to', summary: 'Shortened "in order to"' },
+  { find: /\bfor the purpose of\b/gi, replace: 'for', summary: 'Shortened "for the purpose of"' },
+  { find: /\bdue to the fact that\b/gi, replace: 'because', summary: 'Shortened "due to the fact that"' },
+  { find: /\bin the event that\b/gi, replace: 'if', summary: 'Shortened "in the event that"' },
+  { find: /\bany and all\b/gi, replace: 'all', summary: 'Removed the doublet "any and all"' },
+  { find: /\beach and every\b/gi, replace: 'each', summary: 'Removed the doublet "each and every"' },
+  { find: /\bnull and void\b/gi, replace: 'void', summary: 'Removed the doublet "null and void"' },
+  { find: /\bis able to\b/gi, replace: 'can', summary: 'Shortened "is able to"' },
+  { find: /\band\/or\b/gi, replace: 'or', summary: 'Replaced "and/or" with "or"' },
+  { find: /\bhereby\s+/gi, replace: '', summary: 'Removed "hereby"' },
+]
+
+const PARTY = /\b(?:[Tt]he\s+)?(Disclosing Party|Receiving Party|Client|Customer|Supplier|Vendor|Provider|Service Provider|Contractor|Consultant|Licensee|Licensor|Buyer|Seller|Recipient|Discloser|Company)\b/g
+
+// "In the event that" → "If" at the start of a sentence.
+const matchCase = (match: string, replacement: string) => (/^[A-Z]/.test(match) ? sentenceCase(replacement) : replacement)
+
+function applyRewrites(text: string, rewrites: Rewrite[], policyRef: string, clauseIds: string[]) {
+  const changes: AiCitationsChange[] = []
+  let next = text
+  for (const rewrite of rewrites) {
+    if (next.search(rewrite.find) === -1) continue
+    next = next.replace(rewrite.find, (match, ...groups) =>
+      matchCase(match, rewrite.replace.replace('$1', typeof groups[0] === 'string' ? groups[0] : ''))
+    )
+    changes.push({ summary: rewrite.summary, clause_ids: clauseIds, policy_refs: [policyRef] })
+  }
+  return { text: next, changes }
+}
+
+/** The first party named carries the obligation to "each party"; any other party becomes "the other party". */
+function makeMutual(text: string, clauseIds: string[]) {
+  const parties = [...new Set([...text.matchAll(PARTY)].map((m) => m[1]))]
+  if (!parties.length) return { text, changes: [] as AiCitationsChange[] }
+  const [first, ...others] = parties
+  const next = text.replace(PARTY, (match, party: string, offset: number) => {
+    const replacement = party === first ? 'each party' : 'the other party'
+    const sentenceStart = offset === 0 || /[.!?:;]\s*$|\n\s*$/.test(text.slice(0, offset))
+    return sentenceStart ? sentenceCase(replacement) : replacement
+  })
+  const changes: AiCitationsChange[] = [
+    { summary: `Made the obligations of the ${first} apply to each party`, clause_ids: clauseIds, policy_refs: ['mutuality'] },
+    ...others.map((party) => ({ summary: `Replaced "${party}" with "the other party"`, clause_ids: clauseIds, policy_refs: ['mutuality'] })),
+  ]
+  return { text: next, changes }
+}
+
+/** Edits the text in place for the editor's rewrite actions, or null for other prompts. */
+function inlineRewrite(prompt: string, text: string, clauses: Clause[]) {
+  const clauseIds = clauses.map((c) => c.clause_id)
+  if (/\bmutual\b/i.test(prompt)) return makeMutual(text, clauseIds)
+  if (/\b(tighten|concise|shorten)/i.test(prompt)) return applyRewrites(text, TIGHTEN, 'drafting-style', clauseIds)
+  if (/\bplain (english|language)\b/i.test(prompt)) return applyRewrites(text, PLAIN_ENGLISH, 'plain-language', clauseIds)
+  return null
+}
+
+/**
+ * The full revised text for `mode`, built without a model: the editor's rewrite
+ * actions (plain English, tighten, make mutual) edit the text word by word, and
+ * other prompts add the library clauses that match as new sections, which is
+ * enough to exercise the streaming, accept/reject and citation UIs.
+ */
+function revise(mode: AiMode, prompt: string, current: string, clauses: Clause[]) {
+  const text = current.trim()
+  const changes: AiCitationsChange[] = []
+
+  if (mode === 'summarize') {
+    const paragraphs = text.split(/\n\s*\n/).filter((p) => p.trim())
+    const firstSentences = paragraphs.slice(0, 6).map((p) => `- ${p.trim().split(/(?<=[.!?])\s/)[0]}`)
+    changes.push({ summary: 'Summarised the document', clause_ids: [], policy_refs: [] })
+    return { text: `Summary\n\n${firstSentences.join('\n')}`, changes }
+  }
+
+  if (mode === 'risk_spotting') {
+    const risks = [
+      /unlimited|without limit/i.test(text) ? '- Liability appears uncapped.' : '',
+      !/governing law|laws of/i.test(text) ? '- No governing law clause was found.' : '',
+      !/terminat/i.test(text) ? '- No termination rights were found.' : '',
+      /auto(matic(ally)?)?[- ]renew/i.test(text) ? '- The agreement renews automatically.' : '',
+    ].filter(Boolean)
+    changes.push({ summary: 'Reviewed the document for common risks', clause_ids: [], policy_refs: ['risk-checklist'] })
+    return { text: `Risks\n\n${risks.length ? risks.join('\n') : '- No common risks were found.'}`, changes }
+  }
+
+  if (mode === 'suggest') {
+    const lines = clauses.length
+      ? clauses.map((c) => `- Consider adding "${c.name}" (${c.clause_id}): ${c.content}`)
+      : [`- ${sentenceCase(prompt.replace(/[.\s]+$/, ''))}.`]
+    changes.push({ summary: 'Suggested library clauses', clause_ids: clauses.map((c) => c.clause_id), policy_refs: [] })
+    return { text: `${text}\n\nSuggestions\n\n${lines.join('\n')}`, changes }
+  }
+
+  const inline = inlineRewrite(prompt, text, clauses)
+  if (inline) {
+    if (!inline.changes.length) inline.changes.push({ summary: 'No changes were needed', clause_ids: [], policy_refs: [] })
+    return inline
+  }
+
+  const additions = clauses.length
+    ? clauses.filter((c) => !text.includes(c.content)).map((c) => `${c.name}\n\n${c.content}`)
+    : [`Additional Terms\n\n${sentenceCase(prompt.replace(/[.\s]+$/, ''))}.`]
+  for (const c of clauses) changes.push({ summary: `Added ${c.name}`, clause_ids: [c.clause_id], policy_refs: [] })
+  if (!clauses.length) changes.push({ summary: 'Added the requested terms', clause_ids: [], policy_refs: [] })
+  return { text: [text, ...additions].join('\n\n'), changes }
+}
+
+/** `searchText` (the prompt by default) is what library clauses are ranked against. */
+function generateStream(req: MockRequest, contractType?: string, searchText?: string) {
+  const prompt = String(req.json.prompt || '').trim()
+  if (!prompt) return fail(400, 'A prompt is required.', { prompt: ['This field is required.'] })
+  const mode: AiMode = ['rewrite', 'suggest', 'summarize', 'risk_spotting'].includes(req.json.mode) ? req.json.mode : 'rewrite'
+
+  const clauses = relevantClauses(searchText || prompt, contractType)
+  const context: AiRelevantClause[] = clauses.map((c) => ({ clause_id: c.clause_id, name: c.name, similarity: Math.round(c.similarity * 100) / 100 }))
+  const { text, changes } = revise(mode, prompt, String(req.json.current_text || ''), clauses)
+  const lastEventId = req.headers['last-event-id']
+  if (!resumeIndex(lastEventId)) logActivity(req.user, 'generate', 'ai')
+
+  const frames: SseFrame[] = [
+    { event: 'context', data: { relevant_clauses: context } },
+    ...toDeltas(text),
+    { event: 'citations', data: { changes } },
+    { event: 'done', data: {} },
+  ]
+  return sseResponse(frames, req.raw.signal, lastEventId)
+}
+
+route('POST', `${V1}/contracts/:id/ai/generate-stream/`, (req) => {
+  const contract = db.state.contracts.find((c) => c.id === req.params.id && c.tenant_id === req.user.tenant_id)
+  if (!contract) return fail(404, 'Contract not found.')
+  // Text sent with the prompt is a selection being rewritten: find clauses like it.
+  const searchText = req.json.current_text ? `${req.json.prompt || ''} ${req.json.current_text}` : undefined
+  if (!req.json.current_text) req.json.current_text = contract.rendered_text
+  return generateStream(req, contract.contract_type, searchText)
+})
+
+route('POST', `${V1}/ai/generate/template-stream/`, (req) => generateStream(req, req.json.contract_type))
+
+// ==================== POLICY & FEEDBACK ====================
+
+function tenantPolicy(tenantId: string) {
+  let policy = db.state.ai_policies.find((p) => p.tenant_id === tenantId)
+  if (!policy) {
+    policy = { tenant_id: tenantId, scrub_pii: true, send_full_contract_text: false }
+    db.state.ai_policies.push(policy)
+  }
+  return policy
+}
+
+route('GET', `${V1}/ai/policy/`, (req) => json(tenantPolicy(req.user.tenant_id)))
+
+route('PUT', `${V1}/ai/policy/`, (req) => {
+  if (!req.user.is_admin) return fail(403, 'Only admins can change the AI policy.')
+  const policy = tenantPolicy(req.user.tenant_id)
+  if (typeof req.json.scrub_pii === 'boolean') policy.scrub_pii = req.json.scrub_pii
+  if (typeof req.json.send_full_contract_text === 'boolean') policy.send_full_contract_text = req.json.send_full_contract_text
+  return json(policy)
+})
+
+route('POST', `${V1}/ai/feedback/`, (req) => {
+  if (!req.json.feature || typeof req.json.helpful !== 'boolean') {
+    return fail(400, 'feature and helpful are required.', { feature: ['This field is required.'], helpful: ['This field is required.'] })
+  }
+  const feedback = { id: newId(), feature: String(req.json.feature), helpful: req.json.helpful, created_at: nowIso() }
+  db.state.ai_feedback.push(feedback)
+  return json({ id: feedback.id }, 201)
+})
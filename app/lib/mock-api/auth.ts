@@ -0,0 +1,165 @@
+import { db, logActivity, newId, nowIso, toUser, type MockOtp, type MockUser } from './db'
+import { DEMO_OTP } from './fixtures'
+import { fail, json, requireFields, route } from './router'
+import { consumeRefreshToken, issueTokens, revokeToken } from './tokens'
+
+const OTP_TTL_MS = 10 * 60 * 1000
+
+const findUser = (email: unknown) =>
+  db.state.users.find((u) => u.email.toLowerCase() === String(email || '').trim().toLowerCase())
+
+function session(user: MockUser, message?: string) {
+  user.last_login = nowIso()
+  logActivity(user, 'login', 'auth', user.user_id)
+  return json({ ...issueTokens(user), user: toUser(user), ...(message ? { message } : {}) })
+}
+
+function sendOtp(email: string, purpose: MockOtp['purpose']) {
+  db.state.otps = db.state.otps.filter((o) => !(o.email === email && o.purpose === purpose))
+  db.state.otps.push({ email, code: DEMO_OTP, purpose, expires_at_ms: Date.now() + OTP_TTL_MS })
+}
+
+function checkOtp(email: string, code: unknown, purposes: MockOtp['purpose'][]): MockOtp | null {
+  const otp = db.state.otps.find((o) => o.email === email && purposes.includes(o.purpose) && o.code === String(code || '').trim())
+  return otp && otp.expires_at_ms > Date.now() ? otp : null
+}
+
+route('POST', '/api/auth/register/', (req) => {
+  const invalid = requireFields(req.json, ['email', 'password', 'full_name'])
+  if (invalid) return invalid
+  const email = String(req.json.email).trim().toLowerCase()
+  if (String(req.json.password).length < 8) {
+    return fail(400, 'Password must be at least 8 characters.', { password: ['Ensure this field has at least 8 characters.'] })
+  }
+  const existing = findUser(email)
+  if (existing?.email_verified) return fail(400, 'A user with this email already exists.', { email: ['A user with this email already exists.'] })
+
+  const [first, ...rest] = String(req.json.full_name).trim().split(/\s+/)
+  const tenant = db.state.users[0]?.tenant_id || newId()
+  if (!existing) {
+    db.state.users.push({
+      user_id: newId(),
+      email,
+      full_name: String(req.json.full_name).trim(),
+      first_name: first || '',
+      last_name: rest.join(' '),
+      tenant_id: tenant,
+      password: String(req.json.password),
+      is_admin: false,
+      is_superadmin: false,
+      is_active: true,
+      email_verified: false,
+      date_joined: nowIso(),
+    })
+  } else {
+    existing.password = String(req.json.password)
+  }
+  sendOtp(email, 'verify')
+  return json({ message: 'Verification code sent to your email.', pending_verification: true, email }, 201)
+}, { public: true })
+
+route('POST', '/api/auth/login/', (req) => {
+  const invalid = requireFields(req.json, ['email', 'password'])
+  if (invalid) return invalid
+  const user = findUser(req.json.email)
+  if (!user || user.password !== String(req.json.password)) return fail(401, 'Invalid email or password.')
+  if (!user.is_active) return fail(403, 'This account has been deactivated.')
+  if (!user.email_verified) {
+    sendOtp(user.email, 'verify')
+    return json({ error: 'Email not verified. A new verification code has been sent.', pending_verification: true, email: user.email }, 403)
+  }
+  return session(user)
+}, { public: true })
+
+// Accepts any Google ID token; the email claim (when readable) picks or creates the account.
+route('POST', '/api/auth/google/', (req) => {
+  const credential = String(req.json.credential || '')
+  if (!credential) return fail(400, 'Missing Google credential.')
+  let email = ''
+  try {
+    const payload = JSON.parse(atob(credential.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+    email = String(payload?.email || '')
+  } catch {
+    // Not a JWT: sign in as the first demo user.
+  }
+  let user = email ? findUser(email) : db.state.users[0]
+  if (!user) {
+    user = {
+      user_id: newId(),
+      email: email.toLowerCase(),
+      full_name: email.split('@')[0],
+      first_name: email.split('@')[0],
+      last_name: '',
+      tenant_id: db.state.users[0].tenant_id,
+      password: newId(),
+      is_admin: false,
+      is_superadmin: false,
+      is_active: true,
+      email_verified: true,
+      date_joined: nowIso(),
+    }
+    db.state.users.push(user)
+  }
+  return session(user)
+}, { public: true })
+
+route('GET', '/api/auth/me/', (req) => json(toUser(req.user)))
+
+route('POST', '/api/auth/refresh/', (req) => {
+  const user = consumeRefreshToken(String(req.json.refresh || ''))
+  if (!user) return json({ detail: 'Token is invalid or expired', code: 'token_not_valid' }, 401)
+  return json(issueTokens(user))
+}, { public: true })
+
+route('POST', '/api/auth/logout/', (req) => {
+  if (req.json.refresh) revokeToken(String(req.json.refresh))
+  return json({ success: true, message: 'Logged out.' })
+})
+
+route('POST', '/api/auth/request-login-otp/', (req) => {
+  const user = findUser(req.json.email)
+  // Same answer whether or not the account exists.
+  if (user) sendOtp(user.email, 'login')
+  return json({ message: 'If an account exists, a login code has been sent.' })
+}, { public: true })
+
+route('POST', '/api/auth/verify-email-otp/', (req) => {
+  const user = findUser(req.json.email)
+  const otp = user && checkOtp(user.email, req.json.otp, ['verify', 'login'])
+  if (!user || !otp) return fail(400, 'Invalid or expired code.', { otp: ['Invalid or expired code.'] })
+  db.state.otps = db.state.otps.filter((o) => o !== otp)
+  user.email_verified = true
+  return session(user, otp.purpose === 'verify' ? 'Email verified.' : undefined)
+}, { public: true })
+
+const startReset = (email: unknown) => {
+  const user = findUser(email)
+  if (user) sendOtp(user.email, 'reset')
+  return json({ message: 'If an account exists, a reset code has been sent.' })
+}
+
+route('POST', '/api/auth/forgot-password/', (req) => startReset(req.json.email), { public: true })
+
+route('POST', '/api/auth/resend-password-reset-otp/', (req) => startReset(req.json.email), { public: true })
+
+route('POST', '/api/auth/verify-password-reset-otp/', (req) => {
+  const user = findUser(req.json.email)
+  const otp = user && checkOtp(user.email, req.json.otp, ['reset'])
+  if (!user || !otp) return fail(400, 'Invalid or expired code.', { otp: ['Invalid or expired code.'] })
+  otp.verified = true
+  return json({ message: 'Code verified.' })
+}, { public: true })
+
+route('POST', '/api/auth/reset-password/', (req) => {
+  const invalid = requireFields(req.json, ['email', 'otp', 'password'])
+  if (invalid) return invalid
+  const user = findUser(req.json.email)
+  const otp = user && checkOtp(user.email, req.json.otp, ['reset'])
+  if (!user || !otp) return fail(400, 'Invalid or expired code.', { otp: ['Invalid or expired code.'] })
+  if (String(req.json.password).length < 8) {
+    return fail(400, 'Password must be at least 8 characters.', { password: ['Ensure this field has at least 8 characters.'] })
+  }
+  user.password = String(req.json.password)
+  db.state.otps = db.state.otps.filter((o) => o !== otp)
+  return json({ message: 'Password has been reset. You can sign in now.' })
+}, { public: true })
@@ -0,0 +1,89 @@
+import type { CalendarEvent } from '../api-client'
+import { db, logActivity, newId, nowIso } from './db'
+import { fail, json, noContent, requireFields, route, type MockRequest } from './router'
+
+const EVENTS = '/api/v1/events'
+
+const CATEGORIES: CalendarEvent['category'][] = ['renewal', 'expiry', 'meeting']
+
+const visibleEvents = (req: MockRequest) => db.state.events.filter((e) => e.tenant_id === req.user.tenant_id)
+
+const toEvent = (e: CalendarEvent & { tenant_id: string }): CalendarEvent => {
+  const out: Partial<typeof e> = { ...e }
+  delete out.tenant_id
+  return out as CalendarEvent
+}
+
+/** DRF-style field errors for an event, or null when it is valid. */
+function validate(event: Partial<CalendarEvent>): Record<string, string[]> | null {
+  const errors: Record<string, string[]> = {}
+  const start = Date.parse(String(event.start_datetime || ''))
+  const end = Date.parse(String(event.end_datetime || ''))
+  if (!String(event.title || '').trim()) errors.title = ['This field is required.']
+  if (Number.isNaN(start)) errors.start_datetime = ['Enter a valid date/time.']
+  if (Number.isNaN(end)) errors.end_datetime = ['Enter a valid date/time.']
+  if (!errors.start_datetime && !errors.end_datetime && end < start) errors.end_datetime = ['End must be after the start.']
+  if (event.category && !CATEGORIES.includes(event.category)) errors.category = [`Must be one of: ${CATEGORIES.join(', ')}.`]
+  return Object.keys(errors).length ? errors : null
+}
+
+const contractTitle = (id: unknown) => db.state.contracts.find((c) => c.id === id)?.title
+
+route('GET', `${EVENTS}/`, (req) => {
+  const from = Date.parse(req.query.get('start') || '')
+  const to = Date.parse(req.query.get('end') || '')
+  const results = visibleEvents(req)
+    .filter((e) => (Number.isNaN(to) || Date.parse(e.start_datetime) <= to) && (Number.isNaN(from) || Date.parse(e.end_datetime) >= from))
+    .sort((a, b) => a.start_datetime.localeCompare(b.start_datetime))
+    .map(toEvent)
+  return json({ count: results.length, results })
+})
+
+route('POST', `${EVENTS}/`, (req) => {
+  const invalid = requireFields(req.json, ['title', 'start_datetime', 'end_datetime'])
+  if (invalid) return invalid
+  const errors = validate(req.json)
+  if (errors) return fail(400, Object.values(errors)[0][0], errors)
+  const event = {
+    id: newId(),
+    title: String(req.json.title).trim(),
+    description: req.json.description || '',
+    start_datetime: new Date(req.json.start_datetime).toISOString(),
+    end_datetime: new Date(req.json.end_datetime).toISOString(),
+    all_day: !!req.json.all_day,
+    category: (req.json.category || 'meeting') as CalendarEvent['category'],
+    associated_contract_id: req.json.associated_contract_id || null,
+    associated_contract_title: contractTitle(req.json.associated_contract_id),
+    created_at: nowIso(),
+    updated_at: nowIso(),
+    tenant_id: req.user.tenant_id,
+  }
+  db.state.events.push(event)
+  logActivity(req.user, 'create', 'event', event.id)
+  return json(toEvent(event), 201)
+})
+
+route('PATCH', `${EVENTS}/:id/`, (req) => {
+  const event = visibleEvents(req).find((e) => e.id === req.params.id)
+  if (!event) return fail(404, 'Event not found.')
+  const next = { ...event }
+  for (const key of ['title', 'description', 'start_datetime', 'end_datetime', 'all_day', 'category', 'associated_contract_id'] as const) {
+    if (req.json[key] !== undefined) Object.assign(next, { [key]: req.json[key] })
+  }
+  const errors = validate(next)
+  if (errors) return fail(400, Object.values(errors)[0][0], errors)
+  Object.assign(event, next, {
+    start_datetime: new Date(next.start_datetime).toISOString(),
+    end_datetime: new Date(next.end_datetime).toISOString(),
+    associated_contract_title: contractTitle(next.associated_contract_id),
+    updated_at: nowIso(),
+  })
+  return json(toEvent(event))
+})
+
+route('DELETE', `${EVENTS}/:id/`, (req) => {
+  const event = visibleEvents(req).find((e) => e.id === req.params.id)
+  if (!event) return fail(404, 'Event not found.')
+  db.state.events = db.state.events.filter((e) => e !== event)
+  return noContent()
+})
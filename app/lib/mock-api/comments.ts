@@ -0,0 +1,147 @@
+import { db, logActivity, newId, notify, nowIso, type MockComment, type MockCommentThread, type MockUser } from './db'
+import { fail, json, matchesQuery, noContent, paginate, requireFields, route, type MockRequest } from './router'
+
+const V1 = '/api/v1'
+
+const tenantUsers = (user: MockUser) => db.state.users.filter((u) => u.tenant_id === user.tenant_id && u.is_active)
+
+const toMember = (userId: string | null) => {
+  const u = userId ? db.state.users.find((x) => x.user_id === userId) : undefined
+  return u ? { user_id: u.user_id, email: u.email, full_name: u.full_name } : null
+}
+
+const toComment = (c: MockComment) => ({
+  id: c.id,
+  body: c.body,
+  author: toMember(c.author_id) || { user_id: c.author_id, email: '' },
+  mentions: c.mention_ids.map(toMember).filter(Boolean),
+  created_at: c.created_at,
+})
+
+const toThread = (t: MockCommentThread) => ({
+  id: t.id,
+  contract_id: t.contract_id,
+  quote: t.quote,
+  resolved: t.resolved,
+  resolved_by: toMember(t.resolved_by_id),
+  resolved_at: t.resolved_at,
+  created_at: t.created_at,
+  comments: t.comments.map(toComment),
+})
+
+export const unresolvedCommentCount = (contractId: string) =>
+  db.state.comment_threads.filter((t) => t.contract_id === contractId && !t.resolved).length
+
+const findContract = (req: MockRequest) =>
+  db.state.contracts.find((c) => c.id === req.params.id && c.tenant_id === req.user.tenant_id)
+
+const findThread = (req: MockRequest) =>
+  db.state.comment_threads.find((t) => t.id === req.params.threadId && t.contract_id === req.params.id && t.tenant_id === req.user.tenant_id)
+
+/** Build a comment and notify the colleagues it mentions (other than the author). */
+function addComment(req: MockRequest, thread: MockCommentThread, contractTitle: string): MockComment {
+  const colleagues = new Set(tenantUsers(req.user).map((u) => u.user_id))
+  const mentions: string[] = Array.isArray(req.json.mentions) ? req.json.mentions.map(String) : []
+  const comment: MockComment = {
+    id: newId(),
+    body: String(req.json.body).trim(),
+    author_id: req.user.user_id,
+    mention_ids: [...new Set(mentions)].filter((id) => colleagues.has(id)),
+    created_at: nowIso(),
+  }
+  thread.comments.push(comment)
+  for (const userId of comment.mention_ids) {
+    if (userId === req.user.user_id) continue
+    notify(userId, {
+      type: 'mention',
+      subject: `${req.user.full_name} mentioned you`,
+      message: `On ${contractTitle}: "${comment.body.slice(0, 140)}"`,
+      action_url: `/contracts/editor?id=${thread.contract_id}&thread=${thread.id}`,
+    })
+  }
+  return comment
+}
+
+// ==================== THREADS ====================
+
+function listThreads(req: MockRequest) {
+  const contract = findContract(req)
+  if (!contract) return fail(404, 'Contract not found.')
+  const threads = db.state.comment_threads
+    .filter((t) => t.contract_id === contract.id)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+  return json({ count: threads.length, results: threads.map(toThread) })
+}
+
+function createThread(req: MockRequest) {
+  const contract = findContract(req)
+  if (!contract) return fail(404, 'Contract not found.')
+  const invalid = requireFields(req.json, ['body'])
+  if (invalid) return invalid
+  const thread: MockCommentThread = {
+    id: newId(),
+    contract_id: contract.id,
+    tenant_id: req.user.tenant_id,
+    quote: String(req.json.quote || '').slice(0, 500),
+    resolved: false,
+    resolved_by_id: null,
+    resolved_at: null,
+    created_at: nowIso(),
+    comments: [],
+  }
+  addComment(req, thread, contract.title)
+  db.state.comment_threads.push(thread)
+  logActivity(req.user, 'comment', 'contract', contract.id)
+  return json(toThread(thread), 201)
+}
+
+function reply(req: MockRequest) {
+  const contract = findContract(req)
+  const thread = findThread(req)
+  if (!contract || !thread) return fail(404, 'Comment thread not found.')
+  const invalid = requireFields(req.json, ['body'])
+  if (invalid) return invalid
+  addComment(req, thread, contract.title)
+  // Replying to a resolved thread reopens it.
+  thread.resolved = false
+  thread.resolved_by_id = null
+  thread.resolved_at = null
+  return json(toThread(thread), 201)
+}
+
+function updateThread(req: MockRequest) {
+  const thread = findThread(req)
+  if (!thread) return fail(404, 'Comment thread not found.')
+  if (typeof req.json.resolved === 'boolean') {
+    thread.resolved = req.json.resolved
+    thread.resolved_by_id = req.json.resolved ? req.user.user_id : null
+    thread.resolved_at = req.json.resolved ? nowIso() : null
+  }
+  return json(toThread(thread))
+}
+
+function removeThread(req: MockRequest) {
+  const thread = findThread(req)
+  if (!thread) return fail(404, 'Comment thread not found.')
+  if (thread.comments[0]?.author_id !== req.user.user_id && !req.user.is_admin) {
+    return fail(403, 'Only the author of a thread can delete it.')
+  }
+  db.state.comment_threads = db.state.comment_threads.filter((t) => t !== thread)
+  return noContent()
+}
+
+route('GET', `${V1}/contracts/:id/comments/`, listThreads)
+route('POST', `${V1}/contracts/:id/comments/`, createThread)
+route('PATCH', `${V1}/contracts/:id/comments/:threadId/`, updateThread)
+route('DELETE', `${V1}/contracts/:id/comments/:threadId/`, removeThread)
+route('POST', `${V1}/contracts/:id/comments/:threadId/replies/`, reply)
+
+// ==================== TEAM ====================
+
+route('GET', `${V1}/team/members/`, (req) => {
+  const q = req.query.get('q')
+  const members = tenantUsers(req.user)
+    .filter((u) => matchesQuery(u, q, ['full_name', 'email']))
+    .map((u) => toMember(u.user_id))
+  return paginate(req, members)
+})
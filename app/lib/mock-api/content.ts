@@ -0,0 +1,162 @@
+/**
+ * Text helpers shared by the fixtures and handlers: placeholder filling,
+ * HTML <-> text conversion and generated contract bodies.
+ */
+
+import { formatTextTable } from '../table-text'
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/** `{{ key }}` placeholders, in order of first appearance. */
+export function extractPlaceholders(content: string): string[] {
+  const keys: string[] = []
+  for (const m of content.matchAll(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g)) {
+    if (!keys.includes(m[1])) keys.push(m[1])
+  }
+  return keys
+}
+
+/** Replace placeholders with `values`; unknown ones stay visible as `[key]`. */
+export function fillPlaceholders(content: string, values: Record<string, unknown>): string {
+  return content.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (_, key: string) => {
+    const value = values[key]
+    return value === undefined || value === null || String(value).trim() === '' ? `[${key}]` : String(value)
+  })
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+
+/** One grid slot of a table; a merged cell fills several slots and `top`/`left` is where it starts. */
+export interface TableSlot {
+  text: string
+  header: boolean
+  top: number
+  left: number
+  rowspan: number
+  colspan: number
+}
+
+export interface HtmlTable {
+  /** Every row has one slot per column. */
+  rows: TableSlot[][]
+  /** Leading rows made only of header cells. */
+  headerRows: number
+  /** Column widths (px) the editor saved as `colwidth`, where set. */
+  widths: Array<number | null>
+}
+
+const TABLE_HTML = /(<table\b[\s\S]*?<\/table>)/i
+
+/** Rows and cells of an editor table (`<table>` HTML), with merged cells laid out on a grid. */
+export function parseHtmlTable(html: string): HtmlTable {
+  const rowsHtml = [...html.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)].map((m) => m[1])
+  const grid: TableSlot[][] = rowsHtml.map(() => [])
+  const widths: Array<number | null> = []
+
+  rowsHtml.forEach((rowHtml, r) => {
+    let c = 0
+    for (const m of rowHtml.matchAll(/<(td|th)\b([^>]*)>([\s\S]*?)<\/\1>/gi)) {
+      while (grid[r][c]) c++
+      const attrs = m[2]
+      const colspan = Math.max(1, Number(/colspan="(\d+)"/i.exec(attrs)?.[1]) || 1)
+      const rowspan = Math.min(rowsHtml.length - r, Math.max(1, Number(/rowspan="(\d+)"/i.exec(attrs)?.[1]) || 1))
+      const text = decodeEntities(m[3].replace(/<\s*br\s*\/?>/gi, ' ').replace(/<\/(p|li|div)>/gi, ' ').replace(/<[^>]+>/g, ''))
+        .replace(/\s+/g, ' ')
+        .trim()
+      const slot: TableSlot = { text, header: m[1].toLowerCase() === 'th', top: r, left: c, rowspan, colspan }
+      for (let dr = 0; dr < rowspan; dr++) {
+        for (let dc = 0; dc < colspan; dc++) grid[r + dr][c + dc] = slot
+      }
+      const colwidths = (/colwidth="([\d,]+)"/i.exec(attrs)?.[1] || '').split(',')
+      colwidths.forEach((w, i) => {
+        if (Number(w) > 0 && widths[c + i] == null) widths[c + i] = Number(w)
+      })
+      c += colspan
+    }
+  })
+
+  const columns = Math.max(0, ...grid.map((row) => row.length))
+  const rows = grid.map((row, r) =>
+    Array.from({ length: columns }, (_, c) => row[c] || { text: '', header: false, top: r, left: c, rowspan: 1, colspan: 1 })
+  )
+  let headerRows = 0
+  while (headerRows < rows.length && rows[headerRows].every((slot) => slot.header)) headerRows++
+  return { rows, headerRows, widths: Array.from({ length: columns }, (_, c) => widths[c] ?? null) }
+}
+
+/** A parsed table as aligned plain text, like the editor's `rendered_text`. */
+export const tableToText = (table: HtmlTable) =>
+  formatTextTable(
+    table.rows.map((row, r) => row.map((slot, c) => (slot.top === r && slot.left === c ? slot.text : ''))),
+    table.headerRows
+  )
+
+/** Editor HTML split into runs of ordinary blocks and tables, in order. */
+export function splitTables(html: string): Array<{ html: string; table: boolean }> {
+  return html
+    .split(TABLE_HTML)
+    .map((part, i) => ({ html: part, table: i % 2 === 1 }))
+    .filter((part) => part.table || part.html.trim())
+}
+
+function blocksToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<\s*br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|h[1-6]|li|div|tr|blockquote)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+}
+
+export function htmlToText(html: string): string {
+  return splitTables(html)
+    .map((part) => (part.table ? `\n\n${tableToText(parseHtmlTable(part.html))}\n\n` : blocksToText(part.html)))
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Plain text to editor HTML: blank lines separate paragraphs, short
+ * upper-case or numbered lines become headings.
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block, i) => {
+      const single = !block.includes('\n')
+      if (i === 0 && single && block.length < 90) return `<h1>${escapeHtml(block)}</h1>`
+      if (single && block.length < 70 && (/^\d+(\.\d+)*\.?\s+\S/.test(block) || block === block.toUpperCase())) {
+        return `<h2>${escapeHtml(block)}</h2>`
+      }
+      return `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`
+    })
+    .join('')
+}
+
+export interface ContractSection {
+  heading: string
+  body: string
+}
+
+export function renderContractHtml(params: {
+  title: string
+  intro: string
+  sections: ContractSection[]
+}): string {
+  const sections = params.sections
+    .map((s, i) => `<h2>${i + 1}. ${escapeHtml(s.heading)}</h2><p>${escapeHtml(s.body)}</p>`)
+    .join('')
+  const signatures =
+    '<h2>Signatures</h2><p>IN WITNESS WHEREOF, the parties have executed this Agreement as of the Effective Date.</p>'
+  return `<h1>${escapeHtml(params.title)}</h1><p>${escapeHtml(params.intro)}</p>${sections}${signatures}`
+}
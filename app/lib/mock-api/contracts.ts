@@ -0,0 +1,411 @@
+import { db, logActivity, newId, nowIso, type MockContract, type MockContractVersion, type MockUser } from './db'
+import { unresolvedCommentCount } from './comments'
+import { escapeHtml, fillPlaceholders, htmlToText, textToHtml } from './content'
+import { renderHtmlPdf, renderTextPdf } from '../html-pdf'
+import { pageSetupOf } from '../page-setup'
+import { requiredPlaceholders } from './templates'
+import { applyOrdering, blobResponse, fail, json, matchesQuery, noContent, paginate, requireFields, route, type JsonBody, type MockRequest } from './router'
+
+const V1 = '/api/v1'
+
+const visibleContracts = (user: MockUser) => db.state.contracts.filter((c) => c.tenant_id === user.tenant_id)
+
+const findContract = (req: MockRequest): MockContract | undefined =>
+  visibleContracts(req.user).find((c) => c.id === req.params.id)
+
+/** List/detail payload: everything but the tenant bookkeeping. */
+function toContract(c: MockContract) {
+  const out: Partial<MockContract> = { ...c, unresolved_comment_count: unresolvedCommentCount(c.id) }
+  delete out.tenant_id
+  return out
+}
+
+const EDITABLE_FIELDS = ['title', 'description', 'status', 'value', 'metadata', 'contract_type', 'rendered_html', 'rendered_text'] as const
+
+export function createContractRecord(
+  user: MockUser,
+  data: { title: string; contract_type?: string; description?: string; status?: string; value?: number; metadata?: unknown; rendered_html?: string; rendered_text?: string }
+): MockContract {
+  const html = data.rendered_html || (data.rendered_text ? textToHtml(data.rendered_text) : `<h1>${data.title}</h1><p></p>`)
+  const now = Date.now()
+  const contract: MockContract = {
+    id: newId(),
+    title: data.title,
+    description: data.description,
+    status: data.status || 'draft',
+    contract_type: data.contract_type || 'general',
+    value: data.value,
+    created_by: user.user_id,
+    tenant_id: user.tenant_id,
+    created_at: new Date(now).toISOString(),
+    updated_at: new Date(now).toISOString(),
+    metadata: data.metadata ?? {},
+    rendered_html: html,
+    rendered_text: data.rendered_text || htmlToText(html),
+    server_updated_at_ms: now,
+    client_updated_at_ms: null,
+  }
+  db.state.contracts.unshift(contract)
+  logActivity(user, 'create', 'contract', contract.id)
+  return contract
+}
+
+function touch(contract: MockContract) {
+  contract.server_updated_at_ms = Math.max(Date.now(), contract.server_updated_at_ms + 1)
+  contract.updated_at = new Date(contract.server_updated_at_ms).toISOString()
+}
+
+/** Fill a file template and append the chosen library clauses, custom clauses and constraints. */
+export function renderFileTemplate(
+  content: string,
+  body: JsonBody
+): string {
+  const parts = [fillPlaceholders(content, body.structured_inputs || {})]
+  const selected: string[] = Array.isArray(body.selected_clauses) ? body.selected_clauses : []
+  const library = db.state.clauses.filter((c) => selected.includes(c.clause_id) || selected.includes(c.id))
+  const custom: Array<{ title?: string; content: string }> = Array.isArray(body.custom_clauses) ? body.custom_clauses : []
+  const extra = [
+    ...library.map((c) => ({ title: c.name, content: c.content })),
+    ...custom.filter((c) => String(c?.content || '').trim()).map((c) => ({ title: c.title || 'Additional Clause', content: c.content })),
+  ]
+  if (extra.length) {
+    parts.push('ADDITIONAL CLAUSES')
+    extra.forEach((c, i) => parts.push(`${i + 1}. ${c.title}`, c.content))
+  }
+  const constraints: Array<{ name: string; value: string }> = Array.isArray(body.constraints) ? body.constraints : []
+  const filled = constraints.filter((c) => String(c?.value || '').trim())
+  if (filled.length) {
+    parts.push('AGREED PARAMETERS')
+    parts.push(filled.map((c) => `${c.name}: ${c.value}`).join('\n'))
+  }
+  return parts.join('\n\n')
+}
+
+// ==================== COLLECTION ====================
+
+function listContracts(req: MockRequest) {
+  const q = req.query.get('search') || req.query.get('q')
+  const status = req.query.get('status')
+  const type = req.query.get('contract_type')
+  const items = visibleContracts(req.user).filter(
+    (c) =>
+      matchesQuery(c, q, ['title', 'description', 'contract_type']) &&
+      (!status || c.status === status) &&
+      (!type || c.contract_type === type)
+  )
+  return paginate(req, applyOrdering(items, req.query.get('ordering'), '-updated_at').map(toContract))
+}
+
+function statistics(req: MockRequest) {
+  const items = visibleContracts(req.user)
+  const count = (status: string) => items.filter((c) => c.status === status).length
+  return json({
+    total: items.length,
+    draft: count('draft'),
+    pending: count('pending'),
+    approved: count('approved'),
+    rejected: count('rejected'),
+    executed: count('executed'),
+  })
+}
+
+function recent(req: MockRequest) {
+  const limit = Math.max(1, Number(req.query.get('limit')) || 5)
+  return json(applyOrdering(visibleContracts(req.user), '-updated_at', '-updated_at').slice(0, limit).map(toContract))
+}
+
+function create(req: MockRequest) {
+  const invalid = requireFields(req.json, ['title'])
+  if (invalid) return invalid
+  return json(toContract(createContractRecord(req.user, { ...req.json, title: String(req.json.title) })), 201)
+}
+
+// ==================== ITEM ====================
+
+function detail(req: MockRequest) {
+  const c = findContract(req)
+  return c ? json(toContract(c)) : fail(404, 'Contract not found.')
+}
+
+function update(req: MockRequest) {
+  const c = findContract(req)
+  if (!c) return fail(404, 'Contract not found.')
+  for (const key of EDITABLE_FIELDS) {
+    if (req.json[key] !== undefined) Object.assign(c, { [key]: req.json[key] })
+  }
+  if (typeof req.json.rendered_html === 'string' && typeof req.json.rendered_text !== 'string') {
+    c.rendered_text = htmlToText(req.json.rendered_html)
+  }
+  touch(c)
+  logActivity(req.user, 'update', 'contract', c.id)
+  return json(toContract(c))
+}
+
+function remove(req: MockRequest) {
+  const c = findContract(req)
+  if (!c) return fail(404, 'Contract not found.')
+  db.state.contracts = db.state.contracts.filter((x) => x !== c)
+  db.state.contract_versions = db.state.contract_versions.filter((v) => v.contract_id !== c.id)
+  db.state.comment_threads = db.state.comment_threads.filter((t) => t.contract_id !== c.id)
+  logActivity(req.user, 'delete', 'contract', c.id)
+  return noContent()
+}
+
+function clone(req: MockRequest) {
+  const c = findContract(req)
+  if (!c) return fail(404, 'Contract not found.')
+  const copy = createContractRecord(req.user, {
+    title: String(req.json.title || `${c.title} (copy)`),
+    contract_type: c.contract_type,
+    description: c.description,
+    value: c.value,
+    metadata: c.metadata,
+    rendered_html: c.rendered_html,
+    rendered_text: c.rendered_text,
+  })
+  return json(toContract(copy), 201)
+}
+
+// The list leaves out content; the detail carries it.
+const toVersionSummary = (v: MockContractVersion) => ({
+  id: v.id,
+  version_number: v.version_number,
+  change_summary: v.change_summary,
+  created_at: v.created_at,
+  created_by: v.created_by,
+  created_by_name: db.state.users.find((u) => u.user_id === v.created_by)?.full_name,
+})
+
+const toVersion = (v: MockContractVersion) => ({ ...toVersionSummary(v), rendered_html: v.rendered_html, rendered_text: v.rendered_text })
+
+function listVersions(req: MockRequest) {
+  const c = findContract(req)
+  if (!c) return fail(404, 'Contract not found.')
+  const versions = db.state.contract_versions
+    .filter((v) => v.contract_id === c.id)
+    .sort((a, b) => (b.version_number || 0) - (a.version_number || 0))
+    .map(toVersionSummary)
+  return json({ count: versions.length, results: versions })
+}
+
+function versionDetail(req: MockRequest) {
+  const c = findContract(req)
+  const v = c && db.state.contract_versions.find((x) => x.contract_id === c.id && x.id === req.params.versionId)
+  return v ? json(toVersion(v)) : fail(404, 'Version not found.')
+}
+
+function createVersion(req: MockRequest) {
+  const c = findContract(req)
+  if (!c) return fail(404, 'Contract not found.')
+  const latest = Math.max(0, ...db.state.contract_versions.filter((v) => v.contract_id === c.id).map((v) => v.version_number || 0))
+  const version = {
+    id: newId(),
+    contract_id: c.id,
+    version_number: latest + 1,
+    change_summary: String(req.json.change_summary || ''),
+    created_at: nowIso(),
+    created_by: req.user.user_id,
+    rendered_html: c.rendered_html,
+    rendered_text: c.rendered_text,
+  }
+  db.state.contract_versions.push(version)
+  logActivity(req.user, 'version', 'contract', c.id)
+  return json(toVersion(version), 201)
+}
+
+// ==================== CONTENT ====================
+
+const toContent = (c: MockContract) => ({
+  contract_id: c.id,
+  r2_key: `contracts/${c.id}/content.html`,
+  client_updated_at_ms: c.client_updated_at_ms ?? null,
+  server_updated_at_ms: c.server_updated_at_ms,
+  rendered_text: c.rendered_text,
+  rendered_html: c.rendered_html,
+})
+
+// Honours `base_server_updated_at_ms`: a write based on an older copy is refused with 409.
+function updateContent(req: MockRequest) {
+  const c = findContract(req)
+  if (!c) return fail(404, 'Contract not found.')
+  const base = req.json.base_server_updated_at_ms
+  if (typeof base === 'number' && base < c.server_updated_at_ms) {
+    return json({ error: 'The contract was changed by someone else.', ...toContent(c) }, 409)
+  }
+  if (typeof req.json.rendered_html === 'string') c.rendered_html = req.json.rendered_html
+  if (typeof req.json.rendered_text === 'string') c.rendered_text = req.json.rendered_text
+  else if (typeof req.json.rendered_html === 'string') c.rendered_text = htmlToText(req.json.rendered_html)
+  c.client_updated_at_ms = typeof req.json.client_updated_at_ms === 'number' ? req.json.client_updated_at_ms : null
+  touch(c)
+  return json(toContent(c))
+}
+
+// ==================== GENERATION ====================
+
+function generate(req: MockRequest) {
+  const template = db.state.contract_templates.find((t) => t.id === req.json.template_id)
+  if (!template) return fail(400, 'Template not found.', { template_id: ['Unknown template.'] })
+  const inputs: Record<string, unknown> = req.json.structured_inputs || {}
+  const type = Object.values(db.state.template_types).find((t) => t.contract_type === template.contract_type)
+  const missing = (type?.required_fields || []).filter((f) => !String(inputs[f.name] ?? '').trim()).map((f) => f.name)
+  const mandatory = db.state.clauses.filter((c) => type?.mandatory_clauses.includes(c.clause_id))
+  const selected = db.state.clauses.filter((c) => (req.json.selected_clauses || []).includes(c.clause_id))
+  const lines = [
+    String(req.json.title || template.name).toUpperCase(),
+    ...Object.entries(inputs).map(([k, v]) => `${k.replace(/_/g, ' ')}: ${v}`),
+    ...[...mandatory, ...selected].flatMap((c, i) => [`${i + 1}. ${c.name}`, c.content]),
+  ]
+  const contract = createContractRecord(req.user, {
+    title: String(req.json.title || template.name),
+    contract_type: template.contract_type,
+    rendered_text: lines.join('\n\n'),
+    metadata: { template_id: template.id, structured_inputs: inputs },
+  })
+  const version = { id: newId(), contract_id: contract.id, version_number: 1, change_summary: 'Generated from template', created_at: nowIso(), created_by: req.user.user_id, rendered_html: contract.rendered_html, rendered_text: contract.rendered_text }
+  db.state.contract_versions.push(version)
+  return json(
+    {
+      contract: toContract(contract),
+      version,
+      mandatory_clauses: mandatory,
+      clause_suggestions: Object.fromEntries(
+        db.state.clauses.filter((c) => c.contract_type === template.contract_type && !c.is_mandatory).map((c) => [c.clause_id, c])
+      ),
+      validation_errors: missing.map((field) => ({ field, message: 'This field is required.' })),
+    },
+    201
+  )
+}
+
+const findTemplateFile = (filename: unknown) => db.state.template_files.find((t) => t.filename === filename)
+
+function previewFromFile(req: MockRequest) {
+  const file = findTemplateFile(req.json.filename)
+  if (!file) return fail(404, 'Template file not found.')
+  const rendered = renderFileTemplate(file.content, req.json)
+  return json({ success: true, filename: file.filename, contract_type: file.contract_type, raw_text: file.content, rendered_text: rendered })
+}
+
+function generateFromFile(req: MockRequest) {
+  const file = findTemplateFile(req.json.filename)
+  if (!file) return fail(404, 'Template file not found.')
+  const inputs = req.json.structured_inputs || {}
+  const missing = requiredPlaceholders(file.content).filter((key) => !String(inputs[key] ?? '').trim())
+  if (missing.length) {
+    // Nested serializer errors, as DRF reports them for `structured_inputs`.
+    return json(
+      {
+        error: 'Some required fields are missing.',
+        code: 'validation_error',
+        structured_inputs: Object.fromEntries(missing.map((key) => [key, ['This field is required.']])),
+      },
+      400
+    )
+  }
+  const rendered = renderFileTemplate(file.content, req.json)
+  const contract = createContractRecord(req.user, {
+    title: String(req.json.title || file.name),
+    contract_type: file.contract_type,
+    rendered_text: rendered,
+    metadata: { template_filename: file.filename, structured_inputs: req.json.structured_inputs || {} },
+  })
+  return json({ contract: toContract(contract), rendered_text: rendered, raw_text: file.content }, 201)
+}
+
+function createFromContent(req: MockRequest) {
+  const invalid = requireFields(req.json, ['title'])
+  if (invalid) return invalid
+  const contract = createContractRecord(req.user, {
+    title: String(req.json.title),
+    contract_type: req.json.contract_type,
+    rendered_html: req.json.rendered_html,
+    rendered_text: req.json.rendered_text,
+    metadata: req.json.metadata,
+  })
+  return json({ contract: toContract(contract) }, 201)
+}
+
+// ==================== DOWNLOADS ====================
+
+const fileBase = (c: MockContract) => c.title.trim().replace(/[^\w.-]+/g, '_')
+
+/**
+ * A contract's PDF on its page setup: the rendered HTML, paginated as in the
+ * editor's page view, or the plain text when there is none. `appendix` text
+ * (signatures) is printed after the contract.
+ */
+export function contractPdf(c: MockContract, appendix?: string): Promise<Blob> {
+  const { size, footer } = pageSetupOf(c.metadata)
+  const options = { title: c.title, pageSize: size, footer }
+  if (!c.rendered_html?.trim()) {
+    return renderTextPdf(appendix ? `${c.rendered_text}\n\n${appendix}` : c.rendered_text, options)
+  }
+  const tail = appendix ? `<p>${escapeHtml(appendix).replace(/\n/g, '<br>')}</p>` : ''
+  return renderHtmlPdf(`${c.rendered_html}${tail}`, options)
+}
+
+async function downloadPdf(req: MockRequest) {
+  const c = findContract(req)
+  if (!c) return fail(404, 'Contract not found.')
+  return blobResponse(await contractPdf(c), `${fileBase(c)}.pdf`)
+}
+
+function downloadTxt(req: MockRequest) {
+  const c = findContract(req)
+  if (!c) return fail(404, 'Contract not found.')
+  return blobResponse(new Blob([c.rendered_text], { type: 'text/plain' }), `${fileBase(c)}.txt`)
+}
+
+// ==================== CLAUSES ====================
+
+function listClauses(req: MockRequest) {
+  const type = req.query.get('contract_type')
+  const q = req.query.get('search') || req.query.get('q')
+  const items = db.state.clauses.filter(
+    (c) => (!type || c.contract_type === type || c.contract_type === 'general') && matchesQuery(c, q, ['name', 'clause_id', 'content'])
+  )
+  return paginate(req, items)
+}
+
+function validateClauses(req: MockRequest) {
+  const ids: string[] = Array.isArray(req.json.clauses) ? req.json.clauses : []
+  const known = new Set(db.state.clauses.map((c) => c.clause_id))
+  const unknown = ids.filter((id) => !known.has(id))
+  return json({ valid: unknown.length === 0, unknown_clauses: unknown })
+}
+
+// Specific paths before `:id`, so `statistics/` is not read as a contract id.
+// Legacy search/filter helpers used by `contractAPI` in api.ts.
+route('POST', '/api/contracts/validate-clauses/', validateClauses)
+route('GET', '/api/contracts/search/', listContracts)
+route('GET', '/api/contracts/filter/', listContracts)
+
+for (const prefix of [`${V1}/contracts`, '/api/contracts']) {
+  route('GET', `${prefix}/`, listContracts)
+  route('POST', `${prefix}/`, create)
+  route('GET', `${prefix}/statistics/`, statistics)
+  route('GET', `${prefix}/recent/`, recent)
+  route('GET', `${prefix}/:id/`, detail)
+  route('PUT', `${prefix}/:id/`, update)
+  route('PATCH', `${prefix}/:id/`, update)
+  route('DELETE', `${prefix}/:id/`, remove)
+  route('POST', `${prefix}/:id/clone/`, clone)
+  route('GET', `${prefix}/:id/versions/`, listVersions)
+  route('POST', `${prefix}/:id/versions/`, createVersion)
+  route('GET', `${prefix}/:id/versions/:versionId/`, versionDetail)
+}
+
+route('POST', `${V1}/contracts/generate/`, generate)
+route('POST', `${V1}/contracts/generate-from-file/`, generateFromFile)
+route('POST', `${V1}/contracts/preview-from-file/`, previewFromFile)
+route('POST', `${V1}/contracts/create-from-content/`, createFromContent)
+route('GET', `${V1}/contracts/:id/content/`, (req) => {
+  const c = findContract(req)
+  return c ? json(toContent(c)) : fail(404, 'Contract not found.')
+})
+route('PATCH', `${V1}/contracts/:id/content/`, updateContent)
+route('GET', `${V1}/contracts/:id/download-pdf/`, downloadPdf)
+route('GET', `${V1}/contracts/:id/download-txt/`, downloadTxt)
+
+route('GET', `${V1}/clauses/`, listClauses)
+route('GET', `${V1}/clauses/constraints-library/`, (req) => paginate(req, db.state.constraints))
@@ -0,0 +1,239 @@
+/**
+ * In-memory data store behind the mock backend.
+ *
+ * Seeded from `fixtures.ts` and persisted to `localStorage` after every write,
+ * so data survives reloads the way a real backend would. File bytes (uploads,
+ * review documents) only live in memory; after a reload their URLs serve a
+ * generated placeholder instead.
+ */
+
+import type {
+  AdminActivityItem,
+  ApprovalRequest,
+  CalendarEvent,
+  Clause,
+  Contract,
+  ContractTemplate,
+  ContractVersionItem,
+  FileTemplateItem,
+  InhouseAuditLog,
+  InhouseSigningRequestListItem,
+  InhouseSigningRequestSigner,
+  MetadataField,
+  Notification,
+  PrivateUploadItem,
+  RepositoryItem,
+  ReviewContractDetail,
+  TemplateSignatureFieldsConfig,
+  TenantAiPolicy,
+  UploadPurpose,
+  UploadSession,
+  Workflow,
+  WorkflowInstance,
+} from '../api-client'
+import type { TemplateTypeInfo, User } from '../api'
+import { seedState } from './fixtures'
+
+export interface MockUser extends User {
+  tenant_id: string
+  password: string
+  first_name: string
+  last_name: string
+  is_active: boolean
+  email_verified: boolean
+  date_joined: string
+  last_login?: string
+}
+
+export interface MockContract extends Contract {
+  contract_type: string
+  tenant_id: string
+  rendered_html: string
+  rendered_text: string
+  server_updated_at_ms: number
+  client_updated_at_ms?: number | null
+}
+
+export interface MockContractVersion extends ContractVersionItem {
+  contract_id: string
+  rendered_html: string
+  rendered_text: string
+}
+
+export interface MockComment {
+  id: string
+  body: string
+  author_id: string
+  mention_ids: string[]
+  created_at: string
+}
+
+export interface MockCommentThread {
+  id: string
+  contract_id: string
+  tenant_id: string
+  quote: string
+  resolved: boolean
+  resolved_by_id: string | null
+  resolved_at: string | null
+  created_at: string
+  comments: MockComment[]
+}
+
+export interface MockTemplateFile extends FileTemplateItem {
+  content: string
+}
+
+export interface MockSigner extends InhouseSigningRequestSigner {
+  token: string
+}
+
+export interface MockSigningRequest extends InhouseSigningRequestListItem {
+  tenant_id: string
+  signers: MockSigner[]
+  audit: InhouseAuditLog[]
+}
+
+export interface MockReview extends ReviewContractDetail {
+  tenant_id: string
+  /** While `processing`, the analysis is reported as finished once this time passes. */
+  ready_at_ms: number | null
+}
+
+export interface MockUpload extends PrivateUploadItem {
+  tenant_id: string
+}
+
+export interface MockUploadSession extends UploadSession {
+  purpose: UploadPurpose
+  filename: string
+  content_type: string
+  title?: string
+  analyze?: boolean
+  user_id: string
+  tenant_id: string
+}
+
+export interface MockOtp {
+  email: string
+  code: string
+  purpose: 'verify' | 'login' | 'reset'
+  expires_at_ms: number
+  verified?: boolean
+}
+
+export interface MockState {
+  version: number
+  users: MockUser[]
+  otps: MockOtp[]
+  revoked_jtis: string[]
+  contracts: MockContract[]
+  contract_versions: MockContractVersion[]
+  comment_threads: MockCommentThread[]
+  clauses: Clause[]
+  constraints: Array<{ name: string }>
+  contract_templates: Array<ContractTemplate & { tenant_id: string; created_at: string }>
+  template_types: Record<string, TemplateTypeInfo>
+  template_files: MockTemplateFile[]
+  signature_configs: Record<string, TemplateSignatureFieldsConfig>
+  workflows: Workflow[]
+  workflow_instances: WorkflowInstance[]
+  approvals: ApprovalRequest[]
+  notifications: Array<Notification & { user_id: string }>
+  uploads: MockUpload[]
+  upload_sessions: MockUploadSession[]
+  reviews: MockReview[]
+  events: Array<CalendarEvent & { tenant_id: string }>
+  signing_requests: MockSigningRequest[]
+  activity: Array<AdminActivityItem & { tenant_id: string; user_id: string }>
+  ai_policies: TenantAiPolicy[]
+  ai_feedback: Array<{ id: string; feature: string; helpful: boolean; created_at: string }>
+  folders: Array<RepositoryItem & { parent_id?: string | null }>
+  metadata_fields: MetadataField[]
+}
+
+/** Bump when the state shape changes; stored data with another version is reseeded. */
+const STATE_VERSION = 2
+const STORAGE_KEY = 'clm:mock-api:db:v1'
+
+const isBrowser = () => typeof window !== 'undefined'
+
+function load(): MockState {
+  if (isBrowser()) {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY)
+      const parsed = raw ? (JSON.parse(raw) as MockState) : null
+      if (parsed && parsed.version === STATE_VERSION) return parsed
+    } catch {
+      // Corrupt snapshot: reseed below.
+    }
+  }
+  return seedState(Date.now(), STATE_VERSION)
+}
+
+let state: MockState | null = null
+
+export const db = {
+  get state(): MockState {
+    if (!state) state = load()
+    return state
+  },
+
+  /** File bytes by storage key (`r2_key` / upload key / session id). Not persisted. */
+  files: new Map<string, Blob>(),
+
+  save() {
+    if (!isBrowser() || !state) return
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    } catch {
+      // Quota errors: keep serving from memory.
+    }
+  },
+
+  /** Throw away every change and start again from the fixtures. */
+  reset() {
+    state = seedState(Date.now(), STATE_VERSION)
+    db.files.clear()
+    if (isBrowser()) localStorage.removeItem(STORAGE_KEY)
+  },
+}
+
+export const newId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+        const r = (Math.random() * 16) | 0
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16)
+      })
+
+export const nowIso = () => new Date().toISOString()
+
+/** Record an audit entry (feeds the admin activity feed and analytics). */
+export function logActivity(user: MockUser, action: string, entityType: string, entityId?: string) {
+  db.state.activity.unshift({
+    id: newId(),
+    action,
+    entity_type: entityType,
+    entity_id: entityId,
+    user_email: user.email,
+    user_id: user.user_id,
+    tenant_id: user.tenant_id,
+    created_at: nowIso(),
+  })
+  if (db.state.activity.length > 500) db.state.activity.length = 500
+}
+
+export function notify(userId: string, data: Pick<Notification, 'type' | 'subject' | 'message'> & { action_url?: string }) {
+  db.state.notifications.unshift({ id: newId(), read: false, created_at: nowIso(), user_id: userId, ...data })
+}
+
+/** Public shape of a user (never includes the password). */
+export const toUser = (u: MockUser): User => ({
+  user_id: u.user_id,
+  email: u.email,
+  full_name: u.full_name,
+  tenant_id: u.tenant_id,
+  is_admin: u.is_admin,
+  is_superadmin: u.is_superadmin,
+})
@@ -0,0 +1,268 @@
+import type { EsignSigner } from '../api-client'
+import { db, logActivity, newId, notify, nowIso, type MockSigningRequest } from './db'
+import { renderTextPdf } from '../html-pdf'
+import { contractPdf } from './contracts'
+import { applyOrdering, blobResponse, fail, json, matchesQuery, paginate, route, type MockRequest } from './router'
+
+const ESIGN = '/api/v1/inhouse/esign'
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Where a signer would open the document. The signer-facing app is not part of
+ * this repo; drive signing through `POST /inhouse/esign/sign/{token}/` instead.
+ */
+const signingUrl = (token: string) =>
+  `${typeof window !== 'undefined' ? window.location.origin : 'http://localhost:3000'}/sign/${encodeURIComponent(token)}`
+
+const objectUrl = (blob: Blob) => (typeof URL.createObjectURL === 'function' ? URL.createObjectURL(blob) : null)
+
+const latestRequestFor = (contractId: string, tenantId: string) =>
+  db.state.signing_requests
+    .filter((r) => r.contract_id === contractId && r.tenant_id === tenantId)
+    .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))[0]
+
+const findByToken = (token: string) => {
+  for (const request of db.state.signing_requests) {
+    const signer = request.signers.find((s) => s.token === token)
+    if (signer) return { request, signer }
+  }
+  return null
+}
+
+/** Public signer shape (tokens never leave the mock backend except in invite URLs). */
+const publicSigners = (r: MockSigningRequest) =>
+  r.signers.map((s) => ({
+    email: s.email,
+    name: s.name,
+    status: s.status,
+    signed_at: s.signed_at ?? null,
+    has_signed: !!s.has_signed,
+    recipient_index: s.recipient_index,
+  }))
+
+function toListItem(r: MockSigningRequest) {
+  return {
+    id: r.id,
+    provider: 'inhouse' as const,
+    contract_id: r.contract_id,
+    contract_title: r.contract_title,
+    status: r.status,
+    signing_order: r.signing_order,
+    sent_at: r.sent_at,
+    completed_at: r.completed_at,
+    expires_at: r.expires_at,
+    last_activity_at: r.last_activity_at,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+    owner_email: r.owner_email,
+    owner_name: r.owner_name,
+    signers: publicSigners(r),
+  }
+}
+
+function audit(r: MockSigningRequest, event: string, message: string, signerEmail?: string) {
+  const at = nowIso()
+  r.audit.push({ event, message, signer_email: signerEmail ?? null, created_at: at })
+  r.last_activity_at = at
+  r.updated_at = at
+}
+
+const isExpired = (r: MockSigningRequest) => !!r.expires_at && Date.parse(r.expires_at) < Date.now()
+
+/** Whose turn it is: everyone unsigned in parallel mode, the first unsigned signer in sequential mode. */
+function canSignNow(r: MockSigningRequest, recipientIndex: number): boolean {
+  if (r.signing_order === 'parallel') return true
+  const next = r.signers.find((s) => !s.has_signed)
+  return next?.recipient_index === recipientIndex
+}
+
+// ==================== OWNER ENDPOINTS ====================
+
+route('POST', `${ESIGN}/start/`, (req) => {
+  const contract = db.state.contracts.find((c) => c.id === req.json.contract_id && c.tenant_id === req.user.tenant_id)
+  if (!contract) return fail(404, 'Contract not found.')
+  const signers: EsignSigner[] = Array.isArray(req.json.signers) ? req.json.signers : []
+  const invalid = signers.filter((s) => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(s?.email || '')) || !String(s?.name || '').trim())
+  if (!signers.length || invalid.length) {
+    return fail(400, 'Every signer needs a name and a valid email.', { signers: ['Every signer needs a name and a valid email.'] })
+  }
+  const existing = latestRequestFor(contract.id, req.user.tenant_id)
+  if (existing && ['sent', 'in_progress'].includes(existing.status) && !isExpired(existing)) {
+    return fail(409, 'This contract already has a signing request in progress.')
+  }
+
+  const at = nowIso()
+  const request: MockSigningRequest = {
+    id: newId(),
+    provider: 'inhouse',
+    contract_id: contract.id,
+    contract_title: contract.title,
+    status: 'sent',
+    signing_order: req.json.signing_order === 'parallel' ? 'parallel' : 'sequential',
+    sent_at: at,
+    completed_at: null,
+    expires_at: new Date(Date.now() + (Number(req.json.expires_in_days) || 30) * DAY).toISOString(),
+    last_activity_at: at,
+    created_at: at,
+    updated_at: at,
+    owner_email: req.user.email,
+    owner_name: req.user.full_name,
+    tenant_id: req.user.tenant_id,
+    signers: signers.map((s, i) => ({
+      email: s.email.trim().toLowerCase(),
+      name: s.name.trim(),
+      status: 'pending',
+      signed_at: null,
+      has_signed: false,
+      recipient_index: i,
+      token: newId(),
+    })),
+    audit: [],
+  }
+  audit(request, 'sent', `Signing request sent to ${signers.length} signer${signers.length === 1 ? '' : 's'}`)
+  db.state.signing_requests.unshift(request)
+  contract.status = 'pending'
+  logActivity(req.user, 'send', 'esign', contract.id)
+
+  return json(
+    {
+      success: true,
+      contract_id: contract.id,
+      status: request.status,
+      signing_order: request.signing_order,
+      expires_at: request.expires_at,
+      signing_url: signingUrl(request.signers[0].token),
+      invite_urls: request.signers.map((s) => ({ email: s.email, name: s.name, signing_url: signingUrl(s.token) })),
+    },
+    201
+  )
+})
+
+route('GET', `${ESIGN}/status/:contractId/`, (req) => {
+  const r = latestRequestFor(req.params.contractId, req.user.tenant_id)
+  if (!r) return fail(404, 'No signing request for this contract.')
+  return json({
+    success: true,
+    contract_id: r.contract_id,
+    status: isExpired(r) && r.status !== 'completed' ? 'expired' : r.status,
+    all_signed: r.signers.every((s) => s.has_signed),
+    signing_order: r.signing_order,
+    expires_at: r.expires_at,
+    signers: publicSigners(r),
+  })
+})
+
+route('GET', `${ESIGN}/requests/`, (req) => {
+  const q = req.query.get('q')
+  const status = req.query.get('status')
+  const items = db.state.signing_requests
+    .filter((r) => r.tenant_id === req.user.tenant_id)
+    .filter((r) => (!status || r.status === status) && (matchesQuery(r, q, ['contract_title', 'owner_email']) || r.signers.some((s) => matchesQuery(s, q, ['email', 'name']))))
+    .map(toListItem)
+  return paginate(req, applyOrdering(items, req.query.get('ordering'), '-updated_at'))
+})
+
+route('GET', `${ESIGN}/audit/:contractId/`, (req) => {
+  const r = latestRequestFor(req.params.contractId, req.user.tenant_id)
+  if (!r) return fail(404, 'No signing request for this contract.')
+  const limit = Number(req.query.get('limit')) || r.audit.length
+  return json({ success: true, contract_id: r.contract_id, logs: [...r.audit].reverse().slice(0, limit) })
+})
+
+async function executedPdf(req: MockRequest) {
+  const r = latestRequestFor(req.params.contractId, req.user.tenant_id)
+  const contract = db.state.contracts.find((c) => c.id === req.params.contractId)
+  if (!r || !contract) return fail(404, 'No signing request for this contract.')
+  if (r.status !== 'completed') return fail(400, 'The contract is not fully signed yet.')
+  const signatures = r.signers.map((s) => `Signed by ${s.name} <${s.email}> on ${s.signed_at}`).join('\n')
+  return blobResponse(await contractPdf(contract, signatures), 'executed.pdf')
+}
+
+async function certificate(req: MockRequest) {
+  const r = latestRequestFor(req.params.contractId, req.user.tenant_id)
+  if (!r) return fail(404, 'No signing request for this contract.')
+  if (r.status !== 'completed') return fail(400, 'The contract is not fully signed yet.')
+  const lines = [
+    `Document: ${r.contract_title}`,
+    `Request ID: ${r.id}`,
+    `Completed: ${r.completed_at}`,
+    '',
+    'Signers',
+    ...r.signers.map((s) => `${s.name} <${s.email}> - signed ${s.signed_at}`),
+    '',
+    'Audit trail',
+    ...r.audit.map((a) => `${a.created_at}  ${a.event}  ${a.message}${a.signer_email ? ` (${a.signer_email})` : ''}`),
+  ]
+  return blobResponse(await renderTextPdf(lines.join('\n'), { title: 'Certificate of Completion' }), 'certificate.pdf')
+}
+
+route('GET', `${ESIGN}/executed/:contractId/`, executedPdf)
+route('GET', `${ESIGN}/certificate/:contractId/`, certificate)
+
+// ==================== SIGNER ENDPOINTS (no login) ====================
+
+route('GET', `${ESIGN}/session/:token/`, async (req) => {
+  const found = findByToken(req.params.token)
+  if (!found) return fail(404, 'This signing link is invalid.')
+  const { request, signer } = found
+  if (isExpired(request) && request.status !== 'completed') return fail(410, 'This signing link has expired.')
+  const contract = db.state.contracts.find((c) => c.id === request.contract_id)
+  if (!signer.has_signed && signer.status === 'pending') {
+    signer.status = 'viewed'
+    audit(request, 'viewed', 'Document viewed', signer.email)
+  }
+  const pdf = contract ? await contractPdf(contract) : null
+  return json({
+    success: true,
+    contract_id: request.contract_id,
+    contract_title: request.contract_title,
+    signer: { email: signer.email, name: signer.name, status: signer.status },
+    pdf_url: pdf ? objectUrl(pdf) : null,
+    status: request.status,
+  })
+}, { public: true })
+
+route('POST', `${ESIGN}/sign/:token/`, (req) => {
+  const found = findByToken(req.params.token)
+  if (!found) return fail(404, 'This signing link is invalid.')
+  const { request, signer } = found
+  if (isExpired(request) && request.status !== 'completed') return fail(410, 'This signing link has expired.')
+  if (signer.has_signed) return fail(400, 'You have already signed this document.')
+  if (!String(req.json.signature_data_url || '').startsWith('data:image/')) {
+    return fail(400, 'A signature image is required.', { signature_data_url: ['This field is required.'] })
+  }
+  if (!canSignNow(request, signer.recipient_index ?? 0)) return fail(403, 'Waiting for an earlier signer.')
+
+  signer.has_signed = true
+  signer.status = 'signed'
+  signer.signed_at = nowIso()
+  request.status = 'in_progress'
+  audit(request, 'signed', `Signed by ${signer.name}`, signer.email)
+
+  const allSigned = request.signers.every((s) => s.has_signed)
+  const owner = db.state.users.find((u) => u.email === request.owner_email)
+  if (allSigned) {
+    request.status = 'completed'
+    request.completed_at = nowIso()
+    audit(request, 'completed', 'All signers have signed')
+    const contract = db.state.contracts.find((c) => c.id === request.contract_id)
+    if (contract) contract.status = 'executed'
+    if (owner) {
+      notify(owner.user_id, {
+        type: 'signature',
+        subject: 'Contract signed',
+        message: `${request.contract_title} was signed by all parties.`,
+        action_url: `/contracts/signing-status?id=${request.contract_id}`,
+      })
+    }
+  } else if (owner) {
+    notify(owner.user_id, {
+      type: 'signature',
+      subject: 'Signature received',
+      message: `${signer.name} signed ${request.contract_title}.`,
+      action_url: `/contracts/signing-status?id=${request.contract_id}`,
+    })
+  }
+  return json({ success: true, status: request.status, all_signed: allSigned })
+}, { public: true })
@@ -0,0 +1,668 @@
+/**
+ * Seed data for the mock backend. Dates are relative to `now`, so dashboards,
+ * calendars and "last 30 days" charts always have something to show.
+ *
+ * Demo accounts (password `Password123!` for all):
+ * - admin@lawflow.dev: tenant admin and superadmin
+ * - alex@lawflow.dev: regular user, same tenant
+ */
+
+import type { TemplateTypeInfo } from '../api'
+import type { MockContract, MockState, MockTemplateFile, MockUser } from './db'
+import { htmlToText, renderContractHtml } from './content'
+
+export const DEMO_PASSWORD = 'Password123!'
+/** Every OTP the mock backend "sends" is this code. */
+export const DEMO_OTP = '123456'
+
+const TENANT_ID = '7f1c2a90-0000-4000-8000-000000000001'
+const OTHER_TENANT_ID = '7f1c2a90-0000-4000-8000-000000000002'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export function seedState(now: number, version: number): MockState {
+  const iso = (offsetDays: number, hour: number = 10) => {
+    const d = new Date(now + offsetDays * DAY)
+    d.setHours(hour, 0, 0, 0)
+    return d.toISOString()
+  }
+  const id = (prefix: string, n: number) => `${prefix}-0000-4000-8000-${String(n).padStart(12, '0')}`
+
+  // ==================== USERS ====================
+  const user = (n: number, email: string, first: string, last: string, extra?: Partial<MockUser>): MockUser => ({
+    user_id: id('00000001', n),
+    email,
+    full_name: `${first} ${last}`,
+    first_name: first,
+    last_name: last,
+    tenant_id: TENANT_ID,
+    password: DEMO_PASSWORD,
+    is_admin: false,
+    is_superadmin: false,
+    is_active: true,
+    email_verified: true,
+    date_joined: iso(-200 + n * 23),
+    last_login: iso(-(n % 5)),
+    ...extra,
+  })
+
+  const users: MockUser[] = [
+    user(1, 'admin@lawflow.dev', 'Morgan', 'Reyes', { is_admin: true, is_superadmin: true, date_joined: iso(-320) }),
+    user(2, 'alex@lawflow.dev', 'Alex', 'Chen'),
+    user(3, 'priya@lawflow.dev', 'Priya', 'Nair', { is_admin: true }),
+    user(4, 'sam@lawflow.dev', 'Sam', 'Okafor'),
+    user(5, 'jordan@lawflow.dev', 'Jordan', 'Blake', { is_active: false, last_login: iso(-90) }),
+    user(6, 'lee@northwind.example', 'Lee', 'Park', { tenant_id: OTHER_TENANT_ID }),
+  ]
+  const [admin, alex, priya, sam] = users
+
+  // ==================== TEMPLATES ====================
+  const field = (name: string, type: string, description: string) => ({ name, type, description })
+
+  const template_types: Record<string, TemplateTypeInfo> = {
+    nda: {
+      display_name: 'Mutual Non-Disclosure Agreement',
+      description: 'Two-way confidentiality agreement for early-stage discussions.',
+      contract_type: 'nda',
+      required_fields: [
+        field('party_a_name', 'string', 'Disclosing party legal name'),
+        field('party_b_name', 'string', 'Receiving party legal name'),
+        field('effective_date', 'date', 'Date the agreement takes effect'),
+      ],
+      optional_fields: [field('term_months', 'number', 'Confidentiality term in months')],
+      mandatory_clauses: ['CONF-001', 'GOV-001'],
+      sample_data: { party_a_name: 'Acme Corp', party_b_name: 'Globex LLC', term_months: 24 },
+    },
+    msa: {
+      display_name: 'Master Services Agreement',
+      description: 'Framework agreement for ongoing professional services.',
+      contract_type: 'msa',
+      required_fields: [
+        field('client_name', 'string', 'Client legal name'),
+        field('provider_name', 'string', 'Service provider legal name'),
+        field('effective_date', 'date', 'Start of the agreement'),
+      ],
+      optional_fields: [field('payment_terms_days', 'number', 'Invoice payment terms'), field('liability_cap', 'string', 'Cap on liability')],
+      mandatory_clauses: ['LIAB-001', 'PAY-001', 'TERM-001'],
+      sample_data: { client_name: 'Acme Corp', provider_name: 'Initech Consulting', payment_terms_days: 30 },
+    },
+    employment_agreement: {
+      display_name: 'Employment Agreement',
+      description: 'Full-time employment offer with standard protective covenants.',
+      contract_type: 'employment',
+      required_fields: [
+        field('employer_name', 'string', 'Employer legal name'),
+        field('employee_name', 'string', 'Employee full name'),
+        field('start_date', 'date', 'First day of employment'),
+        field('annual_salary', 'number', 'Base salary per year'),
+      ],
+      optional_fields: [field('job_title', 'string', 'Position title')],
+      mandatory_clauses: ['CONF-001', 'IP-001'],
+    },
+    statement_of_work: {
+      display_name: 'Statement of Work',
+      description: 'Project-specific scope, milestones and fees under an MSA.',
+      contract_type: 'sow',
+      required_fields: [
+        field('client_name', 'string', 'Client legal name'),
+        field('provider_name', 'string', 'Provider legal name'),
+        field('project_name', 'string', 'Project name'),
+        field('total_fee', 'number', 'Fixed fee'),
+      ],
+      optional_fields: [field('end_date', 'date', 'Target completion date')],
+      mandatory_clauses: ['PAY-001'],
+    },
+  }
+
+  const typeDescription = (contractType: string) =>
+    Object.values(template_types).find((t) => t.contract_type === contractType)?.description
+
+  const templateFile = (n: number, filename: string, name: string, contract_type: string, content: string, owner?: MockUser): MockTemplateFile => ({
+    id: id('00000002', n),
+    filename,
+    name,
+    contract_type,
+    description: typeDescription(contract_type),
+    status: 'published',
+    created_at: iso(-150 + n * 10),
+    updated_at: iso(-40 + n * 3),
+    created_by_id: owner?.user_id,
+    created_by_email: owner?.email,
+    content,
+  })
+
+  const template_files: MockTemplateFile[] = [
+    templateFile(
+      1,
+      'Mutual_NDA.txt',
+      'Mutual NDA',
+      'nda',
+      [
+        'MUTUAL NON-DISCLOSURE AGREEMENT',
+        'This Mutual Non-Disclosure Agreement (the "Agreement") is entered into as of {{effective_date}} between {{party_a_name}} ("Party A") and {{party_b_name}} ("Party B").',
+        '1. Purpose',
+        'The parties wish to evaluate {{purpose}} and may disclose confidential information to each other for that purpose.',
+        '2. Confidentiality',
+        'Each party shall hold the other party\'s Confidential Information in strict confidence for {{term_months}} months and use it only for the Purpose.',
+        '3. Governing Law',
+        'This Agreement is governed by the laws of {{governing_law}}.',
+      ].join('\n\n')
+    ),
+    templateFile(
+      2,
+      'Master_Services_Agreement.txt',
+      'Master Services Agreement',
+      'msa',
+      [
+        'MASTER SERVICES AGREEMENT',
+        'This Master Services Agreement is made on {{effective_date}} between {{client_name}} ("Client") and {{provider_name}} ("Provider").',
+        '1. Services',
+        'Provider shall perform the services described in each Statement of Work agreed by the parties.',
+        '2. Fees and Payment',
+        'Client shall pay undisputed invoices within {{payment_terms_days}} days of receipt.',
+        '3. Limitation of Liability',
+        'Each party\'s aggregate liability is limited to {{liability_cap}}.',
+        '4. Term',
+        'This Agreement starts on the Effective Date and continues until terminated by either party on {{notice_days}} days\' written notice.',
+      ].join('\n\n')
+    ),
+    templateFile(
+      3,
+      'Employment_Agreement.txt',
+      'Employment Agreement',
+      'employment',
+      [
+        'EMPLOYMENT AGREEMENT',
+        'This Employment Agreement is entered into between {{employer_name}} (the "Company") and {{employee_name}} (the "Employee").',
+        '1. Position',
+        'The Employee is employed as {{job_title}} starting on {{start_date}}.',
+        '2. Compensation',
+        'The Company shall pay the Employee an annual base salary of {{annual_salary}}, payable in accordance with its payroll practices.',
+        '3. Confidentiality and Inventions',
+        'The Employee shall keep Company information confidential and assigns to the Company all inventions created in the course of employment.',
+      ].join('\n\n')
+    ),
+    templateFile(
+      4,
+      'Statement_of_Work.txt',
+      'Statement of Work',
+      'sow',
+      [
+        'STATEMENT OF WORK',
+        'This Statement of Work for {{project_name}} is issued under the Master Services Agreement between {{client_name}} and {{provider_name}}.',
+        '1. Scope',
+        '{{scope_summary}}',
+        '2. Fees',
+        'Client shall pay a fixed fee of {{total_fee}}, invoiced on completion of each milestone.',
+        '3. Timeline',
+        'Work starts on {{start_date}} and is expected to complete by {{end_date}}.',
+      ].join('\n\n'),
+      alex
+    ),
+  ]
+
+  const contract_templates = Object.entries(template_types).map(([key, t], i) => ({
+    id: id('00000003', i + 1),
+    name: t.display_name,
+    contract_type: t.contract_type,
+    description: t.description,
+    r2_key: `templates/${key}.txt`,
+    merge_fields: [...t.required_fields, ...t.optional_fields].map((f) => f.name),
+    status: 'published',
+    tenant_id: TENANT_ID,
+    created_at: iso(-180 + i * 12),
+  }))
+
+  // ==================== CLAUSES ====================
+  const clause = (n: number, clause_id: string, name: string, contract_type: string, content: string, is_mandatory = false) => ({
+    id: id('00000004', n),
+    clause_id,
+    name,
+    version: 1 + (n % 3),
+    contract_type,
+    content,
+    status: 'active',
+    is_mandatory,
+    tags: [contract_type],
+  })
+
+  const clauses = [
+    clause(1, 'CONF-001', 'Confidentiality', 'nda', 'Each party shall protect the other party\'s Confidential Information using at least the same degree of care it uses for its own, and no less than reasonable care.', true),
+    clause(2, 'CONF-002', 'Return of Materials', 'nda', 'On written request, the receiving party shall promptly return or destroy all Confidential Information and certify that it has done so.'),
+    clause(3, 'GOV-001', 'Governing Law', 'nda', 'This Agreement is governed by the laws of the State of Delaware, without regard to its conflict of laws rules.', true),
+    clause(4, 'LIAB-001', 'Limitation of Liability', 'msa', 'Neither party is liable for indirect or consequential damages. Each party\'s total liability is capped at the fees paid in the twelve months before the claim.', true),
+    clause(5, 'PAY-001', 'Payment Terms', 'msa', 'Invoices are payable within thirty (30) days of receipt. Late amounts accrue interest at 1% per month.', true),
+    clause(6, 'TERM-001', 'Termination for Convenience', 'msa', 'Either party may terminate this Agreement for convenience on sixty (60) days\' written notice.', true),
+    clause(7, 'INDEM-001', 'Indemnification', 'msa', 'Provider shall indemnify Client against third-party claims that the services infringe intellectual property rights.'),
+    clause(8, 'IP-001', 'Assignment of Inventions', 'employment', 'Employee assigns to the Company all right, title and interest in inventions conceived during employment that relate to the Company\'s business.', true),
+    clause(9, 'NONSOL-001', 'Non-Solicitation', 'employment', 'For twelve (12) months after termination, Employee shall not solicit Company employees or customers.'),
+    clause(10, 'ACC-001', 'Acceptance', 'sow', 'Deliverables are deemed accepted unless Client reports a material non-conformity within ten (10) business days of delivery.'),
+  ]
+
+  const constraints = [
+    'Liability cap',
+    'Payment terms (days)',
+    'Notice period (days)',
+    'Governing law',
+    'Non-solicit period (months)',
+    'Confidentiality term (months)',
+    'Auto-renewal',
+  ].map((name) => ({ name }))
+
+  // ==================== CONTRACTS ====================
+  const contractSections: Record<string, Array<{ heading: string; body: string }>> = {
+    nda: [
+      { heading: 'Definitions', body: '"Confidential Information" means any non-public information disclosed by one party to the other, in any form.' },
+      { heading: 'Obligations', body: clauses[0].content },
+      { heading: 'Term', body: 'The obligations in this Agreement survive for two (2) years from the Effective Date.' },
+      { heading: 'Governing Law', body: clauses[2].content },
+    ],
+    msa: [
+      { heading: 'Services', body: 'Provider shall perform the services described in each Statement of Work.' },
+      { heading: 'Payment', body: clauses[4].content },
+      { heading: 'Limitation of Liability', body: clauses[3].content },
+      { heading: 'Termination', body: clauses[5].content },
+    ],
+    employment: [
+      { heading: 'Position and Duties', body: 'Employee shall serve in the position set out in the offer letter and perform the duties customarily associated with it.' },
+      { heading: 'Compensation', body: 'The Company shall pay an annual base salary in accordance with its standard payroll practices.' },
+      { heading: 'Inventions', body: clauses[7].content },
+      { heading: 'Non-Solicitation', body: clauses[8].content },
+    ],
+    sow: [
+      { heading: 'Scope', body: 'Provider shall design, build and deploy the customer portal described in Appendix A.' },
+      { heading: 'Fees', body: 'Client shall pay a fixed fee, invoiced in three equal milestones.' },
+      { heading: 'Acceptance', body: clauses[9].content },
+    ],
+  }
+
+  const contractRows: Array<[string, string, string, number, number, MockUser, number?]> = [
+    // title, type, status, created (days ago), updated (days ago), owner, value
+    ['Mutual NDA - Globex LLC', 'nda', 'draft', 2, 0, alex],
+    ['Master Services Agreement - Initech', 'msa', 'pending', 14, 1, admin, 240000],
+    ['Employment Agreement - Dana Whitfield', 'employment', 'approved', 30, 6, priya, 135000],
+    ['SOW #4 - Customer Portal Rebuild', 'sow', 'executed', 45, 9, alex, 86000],
+    ['Mutual NDA - Umbrella Health', 'nda', 'executed', 60, 40, sam],
+    ['Master Services Agreement - Stark Industries', 'msa', 'rejected', 75, 50, admin, 500000],
+    ['SOW #5 - Data Migration', 'sow', 'draft', 5, 3, sam, 42000],
+    ['Employment Agreement - Rui Santos', 'employment', 'pending', 8, 2, priya, 118000],
+    ['Mutual NDA - Wayne Enterprises', 'nda', 'approved', 20, 11, alex],
+    ['Master Services Agreement - Hooli', 'msa', 'draft', 1, 0, admin, 180000],
+    ['Reseller NDA - Soylent Corp', 'nda', 'pending', 12, 4, sam],
+    ['SOW #3 - Security Review', 'sow', 'approved', 95, 70, admin, 25000],
+  ]
+
+  const contracts: MockContract[] = contractRows.map(([title, type, status, created, updated, owner, value], i) => {
+    const counterparty = title.split(' - ')[1] || 'Counterparty'
+    const rendered_html = renderContractHtml({
+      title: title.split(' - ')[0],
+      intro: `This Agreement is entered into as of ${new Date(now - created * DAY).toDateString()} (the "Effective Date") between Acme Corp ("Company") and ${counterparty} ("Counterparty").`,
+      sections: contractSections[type],
+    })
+    const updatedAt = now - updated * DAY - i * 3600_000
+    return {
+      id: id('00000005', i + 1),
+      title,
+      description: typeDescription(type),
+      status,
+      contract_type: type,
+      value,
+      created_by: owner.user_id,
+      tenant_id: TENANT_ID,
+      created_at: new Date(now - created * DAY).toISOString(),
+      updated_at: new Date(updatedAt).toISOString(),
+      metadata: { counterparty, contract_type: type, end_date: new Date(now + (365 - created) * DAY).toISOString().slice(0, 10) },
+      rendered_html,
+      rendered_text: htmlToText(rendered_html),
+      server_updated_at_ms: updatedAt,
+      client_updated_at_ms: null,
+    }
+  })
+
+  const contract_versions = contracts.slice(0, 6).map((c, i) => ({
+    id: id('00000006', i + 1),
+    contract_id: c.id,
+    version_number: 1,
+    change_summary: 'Initial draft',
+    created_at: c.created_at,
+    created_by: c.created_by,
+    rendered_html: c.rendered_html,
+    rendered_text: c.rendered_text,
+  }))
+
+  // ==================== COMMENTS ====================
+  // One open thread on the Initech MSA, anchored the way the editor anchors them.
+  const liabilityThread = id('00000011', 1)
+  const msa = contracts[1]
+  msa.rendered_html = msa.rendered_html.replace(
+    '<h2>3. Limitation of Liability</h2>',
+    `<h2><span class="comment-anchor" data-comment-id="${liabilityThread}">3. Limitation of Liability</span></h2>`
+  )
+  const comment_threads: MockState['comment_threads'] = [
+    {
+      id: liabilityThread,
+      contract_id: msa.id,
+      tenant_id: TENANT_ID,
+      quote: '3. Limitation of Liability',
+      resolved: false,
+      resolved_by_id: null,
+      resolved_at: null,
+      created_at: iso(-1, 9),
+      comments: [
+        {
+          id: id('00000012', 1),
+          body: `@${priya.full_name} can we accept a cap at 12 months of fees here?`,
+          author_id: admin.user_id,
+          mention_ids: [priya.user_id],
+          created_at: iso(-1, 9),
+        },
+        {
+          id: id('00000012', 2),
+          body: 'Only if data breaches are carved out of the cap.',
+          author_id: priya.user_id,
+          mention_ids: [],
+          created_at: iso(-1, 11),
+        },
+      ],
+    },
+  ]
+
+  // ==================== SIGNING ====================
+  const executed = contracts[3]
+  const inFlight = contracts[1]
+  const signing_requests: MockState['signing_requests'] = [
+    {
+      id: id('00000007', 1),
+      provider: 'inhouse',
+      contract_id: executed.id,
+      contract_title: executed.title,
+      status: 'completed',
+      signing_order: 'sequential',
+      sent_at: iso(-12),
+      completed_at: iso(-9),
+      expires_at: iso(18),
+      last_activity_at: iso(-9),
+      created_at: iso(-12),
+      updated_at: iso(-9),
+      owner_email: alex.email,
+      owner_name: alex.full_name,
+      tenant_id: TENANT_ID,
+      signers: [
+        { email: 'cfo@acme.example', name: 'Taylor Morgan', status: 'signed', signed_at: iso(-11), has_signed: true, recipient_index: 0, token: 'demo-sign-token-executed-0' },
+        { email: 'legal@customer.example', name: 'Robin Vega', status: 'signed', signed_at: iso(-9), has_signed: true, recipient_index: 1, token: 'demo-sign-token-executed-1' },
+      ],
+      audit: [
+        { event: 'sent', message: 'Signing request sent to 2 signers', created_at: iso(-12) },
+        { event: 'viewed', message: 'Document viewed', signer_email: 'cfo@acme.example', created_at: iso(-11, 9) },
+        { event: 'signed', message: 'Signed by Taylor Morgan', signer_email: 'cfo@acme.example', created_at: iso(-11) },
+        { event: 'signed', message: 'Signed by Robin Vega', signer_email: 'legal@customer.example', created_at: iso(-9) },
+        { event: 'completed', message: 'All signers have signed', created_at: iso(-9) },
+      ],
+    },
+    {
+      id: id('00000007', 2),
+      provider: 'inhouse',
+      contract_id: inFlight.id,
+      contract_title: inFlight.title,
+      status: 'in_progress',
+      signing_order: 'sequential',
+      sent_at: iso(-2),
+      completed_at: null,
+      expires_at: iso(28),
+      last_activity_at: iso(-1),
+      created_at: iso(-2),
+      updated_at: iso(-1),
+      owner_email: admin.email,
+      owner_name: admin.full_name,
+      tenant_id: TENANT_ID,
+      signers: [
+        { email: 'ceo@acme.example', name: 'Jamie Fox', status: 'signed', signed_at: iso(-1), has_signed: true, recipient_index: 0, token: 'demo-sign-token-pending-0' },
+        { email: 'contracts@initech.example', name: 'Bill Lumbergh', status: 'pending', signed_at: null, has_signed: false, recipient_index: 1, token: 'demo-sign-token-pending-1' },
+      ],
+      audit: [
+        { event: 'sent', message: 'Signing request sent to 2 signers', created_at: iso(-2) },
+        { event: 'signed', message: 'Signed by Jamie Fox', signer_email: 'ceo@acme.example', created_at: iso(-1) },
+      ],
+    },
+  ]
+
+  // ==================== REVIEWS ====================
+  const sampleAnalysis = (counterparty: string, risk: 'LOW' | 'MEDIUM' | 'HIGH', score: number) => ({
+    summary: `Services agreement between Acme Corp and ${counterparty}. Liability is uncapped for the provider and renewal is automatic.`,
+    jurisdiction: 'Delaware, USA',
+    analysis_summary: { risk_level: risk, risk_score: score, clauses_count: 4, obligations_count: 3, constraints_count: 2 },
+    parties: [
+      { name: 'Acme Corp', role: 'Customer' },
+      { name: counterparty, role: 'Provider' },
+    ],
+    dates: [
+      { label: 'Effective date', type: 'effective', value: iso(-30).slice(0, 10) },
+      { label: 'End date', type: 'end', value: iso(335).slice(0, 10) },
+      { label: 'Renewal notice deadline', type: 'expire', value: iso(275).slice(0, 10) },
+    ],
+    values: [{ label: 'Annual fee', amount: '120,000', currency: 'usd' }],
+    obligations: [
+      { party: counterparty, text: 'Deliver monthly service reports.' },
+      { party: 'Acme Corp', text: 'Pay invoices within 45 days.' },
+      { party: counterparty, text: 'Maintain SOC 2 Type II certification.' },
+    ],
+    constraints: [
+      { name: 'Payment terms (days)', value: '45' },
+      { name: 'Auto-renewal', value: '12 months' },
+    ],
+    clauses: [
+      { id: 'c1', category: 'Limitation of Liability', title: 'Liability', snippet: 'Provider\'s liability shall not be limited.', risk: 'high', match_percent: 42, recommendation: clauses[3].content },
+      { id: 'c2', category: 'Payment', title: 'Payment Terms', snippet: 'Invoices are payable within forty-five (45) days.', risk: 'medium', match_percent: 71, recommendation: clauses[4].content },
+      { id: 'c3', category: 'Confidentiality', title: 'Confidentiality', snippet: 'Each party shall keep the other party\'s information confidential.', risk: 'low', match_percent: 88 },
+      { id: 'c4', category: 'Termination', title: 'Renewal', snippet: 'This Agreement renews automatically for successive twelve-month terms.', risk: 'medium', match_percent: 55, recommendation: clauses[5].content },
+    ],
+    insights: [
+      { title: 'Uncapped liability', text: 'Provider liability has no cap; align with the 12-month fees standard.', severity: 'high' },
+      { title: 'Auto-renewal', text: 'Calendar the renewal notice deadline to avoid an unwanted renewal.', severity: 'medium' },
+    ],
+    suggestions: [
+      { title: 'Add a liability cap', text: clauses[3].content },
+      { title: 'Shorten payment terms', text: 'Replace 45 days with 30 days to match the standard position.' },
+    ],
+  })
+
+  const reviews: MockState['reviews'] = [
+    ['Vendor Agreement - Cyberdyne', 'Cyberdyne_Vendor_Agreement.pdf', 'ready', 'HIGH', 78, 6],
+    ['Hosting Services - Massive Dynamic', 'Massive_Dynamic_Hosting.pdf', 'ready', 'MEDIUM', 52, 15],
+    ['Scanned Lease (unreadable)', 'Lease_scan.pdf', 'failed', 'LOW', 0, 25],
+  ].map(([title, filename, status, risk, score, days], i) => ({
+    id: id('00000008', i + 1),
+    title: String(title),
+    original_filename: String(filename),
+    file_type: 'pdf',
+    size_bytes: 180_000 + i * 42_000,
+    status: status as 'ready' | 'failed',
+    created_at: iso(-Number(days)),
+    updated_at: iso(-Number(days) + 0.01),
+    r2_key: `reviews/${id('00000008', i + 1)}/${filename}`,
+    error_message: status === 'failed' ? 'No extractable text found. Upload a text-based PDF or DOCX.' : null,
+    analysis: status === 'ready' ? sampleAnalysis(String(title).split(' - ')[1], risk as 'LOW' | 'MEDIUM' | 'HIGH', Number(score)) : null,
+    review_text: status === 'ready' ? `${title}\n\nThis agreement is entered into between Acme Corp and ${String(title).split(' - ')[1]}.` : '',
+    tenant_id: TENANT_ID,
+    ready_at_ms: null,
+  }))
+
+  // ==================== UPLOADS ====================
+  const uploads: MockState['uploads'] = [
+    { key: `private/${TENANT_ID}/Board_Resolution_2024.pdf`, filename: 'Board_Resolution_2024.pdf', file_type: 'pdf', size: 94_211, uploaded_at: iso(-20), tenant_id: TENANT_ID },
+    { key: `private/${TENANT_ID}/Insurance_Certificate.pdf`, filename: 'Insurance_Certificate.pdf', file_type: 'pdf', size: 211_480, uploaded_at: iso(-4), tenant_id: TENANT_ID },
+    { key: `private/${TENANT_ID}/Pricing_Schedule.docx`, filename: 'Pricing_Schedule.docx', file_type: 'docx', size: 38_102, uploaded_at: iso(-1), tenant_id: TENANT_ID },
+  ]
+
+  // ==================== CALENDAR ====================
+  const events: MockState['events'] = [
+    ['Globex NDA renewal', 'renewal', 3, contracts[0]],
+    ['Initech MSA negotiation call', 'meeting', 1, contracts[1]],
+    ['Umbrella NDA expires', 'expiry', 12, contracts[4]],
+    ['Quarterly contract review', 'meeting', 7, null],
+    ['Security Review SOW expiry', 'expiry', 26, contracts[11]],
+    ['Wayne NDA renewal decision', 'renewal', 45, contracts[8]],
+    ['Kick-off: Data Migration', 'meeting', -3, contracts[6]],
+  ].map(([title, category, days, contract], i) => {
+    const c = contract as MockContract | null
+    const allDay = category !== 'meeting'
+    return {
+      id: id('00000009', i + 1),
+      title: String(title),
+      description: c ? `Related to ${c.title}` : '',
+      start_datetime: iso(Number(days), allDay ? 0 : 15),
+      end_datetime: iso(Number(days), allDay ? 23 : 16),
+      all_day: allDay,
+      category: category as 'renewal' | 'expiry' | 'meeting',
+      associated_contract_id: c?.id ?? null,
+      associated_contract_title: c?.title,
+      created_at: iso(-10),
+      updated_at: iso(-10),
+      tenant_id: TENANT_ID,
+    }
+  })
+
+  // ==================== WORKFLOWS / APPROVALS ====================
+  const workflows: MockState['workflows'] = [
+    {
+      id: id('0000000a', 1),
+      name: 'Standard contract approval',
+      description: 'Legal review followed by finance sign-off for contracts over $50k.',
+      status: 'active',
+      steps: [
+        { step_number: 1, name: 'Legal review', assigned_to: [priya.email], action_type: 'review' },
+        { step_number: 2, name: 'Finance approval', assigned_to: [admin.email], action_type: 'approve' },
+      ],
+      created_at: iso(-120),
+    },
+    {
+      id: id('0000000a', 2),
+      name: 'NDA fast track',
+      description: 'Single legal approval for standard NDAs.',
+      status: 'active',
+      steps: [{ step_number: 1, name: 'Legal approval', assigned_to: [priya.email], action_type: 'approve' }],
+      created_at: iso(-90),
+    },
+  ]
+
+  const workflow_instances: MockState['workflow_instances'] = [
+    { id: id('0000000b', 1), workflow_id: workflows[0].id, status: 'in_progress', current_step: 2, created_at: iso(-2) },
+    { id: id('0000000b', 2), workflow_id: workflows[1].id, status: 'completed', current_step: 1, created_at: iso(-20) },
+  ]
+
+  const approvals: MockState['approvals'] = [
+    [contracts[1], alex, 'pending', 'high', 2],
+    [contracts[7], priya, 'pending', 'normal', 1],
+    [contracts[10], sam, 'pending', 'low', 3],
+    [contracts[2], priya, 'approved', 'normal', 8],
+    [contracts[5], admin, 'rejected', 'high', 52],
+  ].map(([c, requester, status, priority, days], i) => ({
+    id: id('0000000c', i + 1),
+    entity_type: 'contract',
+    entity_id: (c as MockContract).id,
+    requester_id: (requester as MockUser).user_id,
+    status: status as 'pending' | 'approved' | 'rejected',
+    priority: priority as 'low' | 'normal' | 'high',
+    comment: status === 'rejected' ? 'Liability terms are not acceptable.' : undefined,
+    created_at: iso(-Number(days)),
+    updated_at: iso(-Number(days) + 0.5),
+  }))
+
+  // ==================== NOTIFICATIONS ====================
+  const notifications: MockState['notifications'] = users.slice(0, 4).flatMap((u, ui) => [
+    {
+      id: id('0000000d', ui * 10 + 1),
+      user_id: u.user_id,
+      type: 'approval',
+      subject: 'Approval requested',
+      message: `${contracts[1].title} is waiting for your approval.`,
+      read: false,
+      created_at: iso(-0.2),
+      action_url: '/approvals',
+    },
+    {
+      id: id('0000000d', ui * 10 + 2),
+      user_id: u.user_id,
+      type: 'signature',
+      subject: 'Contract signed',
+      message: `${contracts[3].title} was signed by all parties.`,
+      read: false,
+      created_at: iso(-9),
+      action_url: `/contracts/signing-status?id=${contracts[3].id}`,
+    },
+    {
+      id: id('0000000d', ui * 10 + 3),
+      user_id: u.user_id,
+      type: 'renewal',
+      subject: 'Renewal coming up',
+      message: `${contracts[0].title} renews in 3 days.`,
+      read: true,
+      created_at: iso(-14),
+      action_url: '/calendar',
+    },
+  ])
+
+  // ==================== ACTIVITY ====================
+  const actions: Array<[string, string]> = [
+    ['create', 'contract'],
+    ['update', 'contract'],
+    ['create', 'template'],
+    ['sign', 'esign'],
+    ['upload', 'review'],
+    ['ai_generate', 'ai'],
+    ['create', 'calendar_event'],
+    ['upload', 'private_upload'],
+  ]
+  const activity: MockState['activity'] = Array.from({ length: 160 }, (_, i) => {
+    const u = users[i % 4]
+    const [action, entity_type] = actions[(i * 7) % actions.length]
+    return {
+      id: id('0000000e', i + 1),
+      action,
+      entity_type,
+      entity_id: contracts[i % contracts.length].id,
+      user_email: u.email,
+      user_id: u.user_id,
+      tenant_id: TENANT_ID,
+      created_at: new Date(now - (i * i * 0.4 + i) * 3600_000).toISOString(),
+    }
+  })
+
+  return {
+    version,
+    users,
+    otps: [],
+    revoked_jtis: [],
+    contracts,
+    contract_versions,
+    comment_threads,
+    clauses,
+    constraints,
+    contract_templates,
+    template_types,
+    template_files,
+    signature_configs: {},
+    workflows,
+    workflow_instances,
+    approvals,
+    notifications,
+    uploads,
+    upload_sessions: [],
+    reviews,
+    events,
+    signing_requests,
+    activity,
+    ai_policies: [{ tenant_id: TENANT_ID, scrub_pii: true, send_full_contract_text: false }],
+    ai_feedback: [],
+    folders: [
+      { id: id('0000000f', 1), name: 'Customer contracts', created_at: iso(-200), parent_id: null },
+      { id: id('0000000f', 2), name: 'Vendor contracts', created_at: iso(-200), parent_id: null },
+      { id: id('0000000f', 3), name: 'HR', created_at: iso(-150), parent_id: null },
+    ],
+    metadata_fields: [
+      { id: id('00000010', 1), name: 'Counterparty', field_type: 'text' },
+      { id: id('00000010', 2), name: 'Renewal date', field_type: 'date' },
+      { id: id('00000010', 3), name: 'Contract value', field_type: 'number' },
+    ],
+  }
+}
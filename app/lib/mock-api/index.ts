@@ -0,0 +1,76 @@
+/**
+ * In-browser mock of the CLM backend.
+ *
+ * With `NEXT_PUBLIC_MOCK_API=1` the HTTP pipeline (`app/lib/http.ts`) hands
+ * every request to `handleMockRequest` instead of the network, so the whole app
+ * runs without Django. Interceptors still run: tokens, refresh-on-401 and retry
+ * behave as they do against the real API.
+ *
+ * Routes live next to their feature (`auth.ts`, `contracts.ts`, ...). Each
+ * module registers its handlers with `route()` when imported below. Data comes
+ * from `fixtures.ts` and is persisted in `localStorage`; run
+ * `window.__clmMockApi.reset()` in the console to start over.
+ */
+
+import type { HttpRequest } from '../http'
+import { MOCK_API_LATENCY_MS } from '../env'
+import { db, newId } from './db'
+import { dispatch, json } from './router'
+
+import './auth'
+import './contracts'
+import './comments'
+import './templates'
+import './esign'
+import './reviews'
+import './uploads'
+import './calendar'
+import './admin'
+import './ai'
+import './misc'
+
+export { DEMO_OTP, DEMO_PASSWORD } from './fixtures'
+
+/** Wait like a network round trip would; rejects like `fetch` when the request is aborted. */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  const abortError = () => new DOMException('The operation was aborted.', 'AbortError')
+  if (signal?.aborted) return Promise.reject(abortError())
+  if (ms <= 0) return Promise.resolve()
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/** Drop every change and reseed the fixtures. */
+export function resetMockApi() {
+  db.reset()
+}
+
+if (typeof window !== 'undefined') {
+  ;(window as unknown as { __clmMockApi?: unknown }).__clmMockApi = { reset: resetMockApi, db }
+}
+
+export async function handleMockRequest(req: HttpRequest): Promise<Response> {
+  // ±50% jitter so loading states and request races show up as they would in production.
+  await delay(MOCK_API_LATENCY_MS * (0.5 + Math.random()), req.signal)
+  let response: Response
+  try {
+    response = await dispatch(req)
+  } catch (e) {
+    console.error('[mock-api] handler failed', req.method, req.url, e)
+    response = json({ error: e instanceof Error ? e.message : 'Mock handler failed' }, 500)
+  }
+  response.headers.set('X-Request-ID', `mock-${newId()}`)
+  // Reads can change state too (analyses finishing, signers viewing), so always persist.
+  db.save()
+  if (req.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError')
+  return response
+}
@@ -0,0 +1,282 @@
+import type { ApprovalRequest, SearchResult, Workflow } from '../api-client'
+import { db, logActivity, newId, notify, nowIso } from './db'
+import { applyOrdering, fail, json, matchesQuery, noContent, paginate, requireFields, route, type MockRequest } from './router'
+
+const V1 = '/api/v1'
+
+// ==================== WORKFLOWS ====================
+
+const findWorkflow = (id: string) => db.state.workflows.find((w) => w.id === id)
+
+function createWorkflow(req: MockRequest) {
+  const invalid = requireFields(req.json, ['name'])
+  if (invalid) return invalid
+  const workflow: Workflow = {
+    id: newId(),
+    name: String(req.json.name).trim(),
+    description: req.json.description,
+    status: ['active', 'inactive', 'archived'].includes(req.json.status) ? req.json.status : 'active',
+    steps: Array.isArray(req.json.steps) ? req.json.steps : [],
+    created_at: nowIso(),
+  }
+  db.state.workflows.unshift(workflow)
+  logActivity(req.user, 'create', 'workflow', workflow.id)
+  return json(workflow, 201)
+}
+
+function getWorkflow(req: MockRequest) {
+  const workflow = findWorkflow(req.params.id)
+  return workflow ? json(workflow) : fail(404, 'Workflow not found.')
+}
+
+for (const base of [`${V1}/workflows`, '/api/workflows']) {
+  route('GET', `${base}/`, () => json(db.state.workflows))
+  route('POST', `${base}/`, createWorkflow)
+  route('GET', `${base}/:id/`, getWorkflow)
+}
+
+route('PUT', `${V1}/workflows/:id/`, (req) => {
+  const workflow = findWorkflow(req.params.id)
+  if (!workflow) return fail(404, 'Workflow not found.')
+  for (const key of ['name', 'description', 'status', 'steps'] as const) {
+    if (req.json[key] !== undefined) Object.assign(workflow, { [key]: req.json[key] })
+  }
+  return json(workflow)
+})
+
+route('DELETE', `${V1}/workflows/:id/`, (req) => {
+  if (!findWorkflow(req.params.id)) return fail(404, 'Workflow not found.')
+  db.state.workflows = db.state.workflows.filter((w) => w.id !== req.params.id)
+  db.state.workflow_instances = db.state.workflow_instances.filter((i) => i.workflow_id !== req.params.id)
+  return noContent()
+})
+
+route('GET', `${V1}/workflows/:id/instances/`, (req) =>
+  json(db.state.workflow_instances.filter((i) => i.workflow_id === req.params.id))
+)
+
+// ==================== APPROVALS ====================
+
+function createApproval(req: MockRequest) {
+  const invalid = requireFields(req.json, ['entity_id'])
+  if (invalid) return invalid
+  const contract = db.state.contracts.find((c) => c.id === req.json.entity_id && c.tenant_id === req.user.tenant_id)
+  const approval: ApprovalRequest = {
+    id: newId(),
+    entity_type: String(req.json.entity_type || 'contract'),
+    entity_id: String(req.json.entity_id),
+    requester_id: req.user.user_id,
+    status: 'pending',
+    comment: req.json.comment,
+    priority: ['low', 'normal', 'high'].includes(req.json.priority) ? req.json.priority : 'normal',
+    created_at: nowIso(),
+    updated_at: nowIso(),
+  }
+  db.state.approvals.unshift(approval)
+  if (contract) contract.status = 'pending'
+  for (const admin of db.state.users.filter((u) => u.is_admin && u.tenant_id === req.user.tenant_id && u.user_id !== req.user.user_id)) {
+    notify(admin.user_id, {
+      type: 'approval',
+      subject: 'Approval requested',
+      message: `${contract?.title || 'A document'} is waiting for your approval.`,
+      action_url: '/approvals',
+    })
+  }
+  logActivity(req.user, 'request_approval', 'approval', approval.id)
+  return json(approval, 201)
+}
+
+route('GET', `${V1}/approvals/`, (req) => {
+  const status = req.query.get('status')
+  const items = db.state.approvals.filter((a) => !status || a.status === status)
+  return paginate(req, applyOrdering(items, req.query.get('ordering'), '-created_at'))
+})
+
+route('POST', `${V1}/approvals/`, createApproval)
+
+route('GET', `${V1}/approvals/:id/`, (req) => {
+  const approval = db.state.approvals.find((a) => a.id === req.params.id)
+  return approval ? json(approval) : fail(404, 'Approval not found.')
+})
+
+route('PUT', `${V1}/approvals/:id/`, (req) => {
+  const approval = db.state.approvals.find((a) => a.id === req.params.id)
+  if (!approval) return fail(404, 'Approval not found.')
+  const status = req.json.status
+  if (status !== undefined && !['pending', 'approved', 'rejected'].includes(status)) {
+    return fail(400, 'Invalid status.', { status: ['Must be pending, approved or rejected.'] })
+  }
+  if (status && status !== 'pending' && approval.status !== 'pending') return fail(400, 'This request has already been decided.')
+  if (status) approval.status = status
+  if (req.json.comment !== undefined) approval.comment = req.json.comment
+  if (req.json.priority !== undefined) approval.priority = req.json.priority
+  approval.updated_at = nowIso()
+
+  if (status === 'approved' || status === 'rejected') {
+    const contract = db.state.contracts.find((c) => c.id === approval.entity_id)
+    if (contract) {
+      contract.status = status
+      contract.updated_at = nowIso()
+    }
+    notify(approval.requester_id, {
+      type: 'approval',
+      subject: status === 'approved' ? 'Approval granted' : 'Approval rejected',
+      message: `${contract?.title || 'Your request'} was ${status} by ${req.user.full_name}.${approval.comment ? ` "${approval.comment}"` : ''}`,
+      action_url: contract ? `/contracts/editor?id=${contract.id}` : '/approvals',
+    })
+    logActivity(req.user, status === 'approved' ? 'approve' : 'reject', 'approval', approval.id)
+  }
+  return json(approval)
+})
+
+route('POST', '/api/approval-requests/', createApproval)
+
+route('GET', '/api/approval-requests/pending/', () => json(db.state.approvals.filter((a) => a.status === 'pending')))
+
+// ==================== NOTIFICATIONS ====================
+
+const toNotification = (n: (typeof db.state.notifications)[number]) => {
+  const out: Partial<typeof n> = { ...n }
+  delete out.user_id
+  return out
+}
+
+route('GET', '/api/notifications/', (req) => {
+  const unread = req.query.get('read') === 'false' || req.query.get('unread') === '1'
+  const items = applyOrdering(
+    db.state.notifications.filter((n) => n.user_id === req.user.user_id && (!unread || !n.read)).map(toNotification),
+    req.query.get('ordering'),
+    '-created_at'
+  )
+  // Unpaginated requests get the bare array, like the backend's plain list view.
+  const paged = ['page', 'page_size', 'limit', 'offset'].some((k) => req.query.has(k))
+  return paged ? paginate(req, items) : json(items)
+})
+
+route('POST', '/api/notifications/', (req) => {
+  const invalid = requireFields(req.json, ['subject', 'message'])
+  if (invalid) return invalid
+  notify(String(req.json.user_id || req.user.user_id), {
+    type: String(req.json.type || 'info'),
+    subject: String(req.json.subject),
+    message: String(req.json.message),
+    action_url: req.json.action_url,
+  })
+  return json(toNotification(db.state.notifications[0]), 201)
+})
+
+route('PUT', '/api/notifications/:id/', (req) => {
+  const notification = db.state.notifications.find((n) => n.id === req.params.id && n.user_id === req.user.user_id)
+  if (!notification) return fail(404, 'Notification not found.')
+  if (typeof req.json.read === 'boolean') notification.read = req.json.read
+  return json(toNotification(notification))
+})
+
+// ==================== SEARCH ====================
+
+/** Keyword search over contracts, template files and library clauses. */
+function search(req: MockRequest, q: string, entityType?: string | null): Array<SearchResult & { metadata?: Record<string, unknown> }> {
+  const needle = q.trim().toLowerCase()
+  if (!needle) return []
+  const score = (...fields: Array<string | undefined>) => {
+    const text = fields.join(' ').toLowerCase()
+    const terms = needle.split(/\s+/)
+    const hits = terms.filter((t) => text.includes(t)).length
+    return hits ? Math.round((hits / terms.length) * (fields[0]?.toLowerCase().includes(needle) ? 1 : 0.8) * 100) / 100 : 0
+  }
+  const preview = (text: string) => {
+    const at = Math.max(0, text.toLowerCase().indexOf(needle.split(/\s+/)[0]) - 60)
+    return `${at > 0 ? '…' : ''}${text.slice(at, at + 200).trim()}…`
+  }
+
+  const contracts = db.state.contracts
+    .filter((c) => c.tenant_id === req.user.tenant_id)
+    .map((c) => ({
+      id: c.id,
+      title: c.title,
+      entity_type: 'contract',
+      content_preview: preview(c.rendered_text),
+      relevance_score: score(c.title, c.description, c.rendered_text),
+      metadata: { status: c.status, contract_type: c.contract_type },
+    }))
+  const templates = db.state.template_files.map((t) => ({
+    id: t.id,
+    title: t.name,
+    entity_type: 'template',
+    content_preview: preview(t.content),
+    relevance_score: score(t.name, t.description, t.content),
+    metadata: { filename: t.filename, contract_type: t.contract_type },
+  }))
+  const clauses = db.state.clauses.map((c) => ({
+    id: c.id,
+    title: c.name,
+    entity_type: 'clause',
+    content_preview: preview(c.content),
+    relevance_score: score(c.name, c.content),
+    metadata: { clause_id: c.clause_id, contract_type: c.contract_type },
+  }))
+
+  return [...contracts, ...templates, ...clauses]
+    .filter((r) => r.relevance_score > 0 && (!entityType || r.entity_type === entityType))
+    .sort((a, b) => b.relevance_score - a.relevance_score)
+}
+
+const searchResponse = (req: MockRequest, q: string, entityType?: string | null) => {
+  const limit = Number(req.query.get('limit') || req.json.limit) || 20
+  const results = search(req, q, entityType).slice(0, limit)
+  return json({ count: results.length, results, query: q })
+}
+
+route('GET', '/api/search/', (req) => searchResponse(req, req.query.get('q') || '', req.query.get('entity_type')))
+
+route('GET', '/api/search/semantic/', (req) => searchResponse(req, req.query.get('q') || '', req.query.get('entity_type')))
+
+route('POST', '/api/search/advanced/', (req) =>
+  searchResponse(req, String(req.json.query || req.json.q || ''), req.json.entity_type || req.json.filters?.entity_type)
+)
+
+route('GET', '/api/search/suggestions/', (req) => {
+  const q = req.query.get('q')
+  const titles = [
+    ...db.state.contracts.filter((c) => c.tenant_id === req.user.tenant_id).map((c) => c.title),
+    ...db.state.template_files.map((t) => t.name),
+    ...db.state.clauses.map((c) => c.name),
+  ]
+  const suggestions = [...new Set(titles)].filter((title) => matchesQuery({ title }, q, ['title'])).slice(0, 8)
+  return json({ suggestions })
+})
+
+// ==================== REPOSITORY ====================
+
+const documents = (req: MockRequest) =>
+  db.state.contracts
+    .filter((c) => c.tenant_id === req.user.tenant_id)
+    .map((c) => ({ id: c.id, title: c.title, created_at: c.created_at }))
+
+route('GET', '/api/documents/', (req) => json(documents(req)))
+
+route('GET', '/api/repository/', (req) => json([...db.state.folders, ...documents(req)]))
+
+route('GET', '/api/repository/folders/', () => json(db.state.folders))
+
+route('POST', '/api/repository/folders/', (req) => {
+  const invalid = requireFields(req.json, ['name'])
+  if (invalid) return invalid
+  const folder = { id: newId(), name: String(req.json.name).trim(), created_at: nowIso(), parent_id: req.json.parent_id ?? null }
+  db.state.folders.push(folder)
+  return json(folder, 201)
+})
+
+route('GET', '/api/metadata/fields/', () => json(db.state.metadata_fields))
+
+route('POST', '/api/metadata/fields/', (req) => {
+  const invalid = requireFields(req.json, ['name'])
+  if (invalid) return invalid
+  const field = { id: newId(), name: String(req.json.name).trim(), field_type: String(req.json.field_type || 'text') }
+  db.state.metadata_fields.push(field)
+  return json(field, 201)
+})
+
+// ==================== HEALTH ====================
+
+route('GET', `${V1}/health/`, () => json({ status: 'ok', backend: 'mock' }), { public: true })
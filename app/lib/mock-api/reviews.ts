@@ -0,0 +1,234 @@
+import { db, logActivity, newId, nowIso, type MockReview, type MockUser } from './db'
+import { escapeHtml } from './content'
+import { renderHtmlPdf, renderTextPdf } from '../html-pdf'
+import { applyOrdering, blobResponse, fail, json, matchesQuery, noContent, paginate, route, type MockRequest } from './router'
+
+const V1 = '/api/v1'
+
+/** How long the simulated analysis takes. */
+const ANALYSIS_MS = 4000
+
+const CLAUSE_KEYWORDS: Array<{ category: string; pattern: RegExp; risk: string; recommendation: string }> = [
+  { category: 'Confidentiality', pattern: /confidential/i, risk: 'low', recommendation: 'Keep the standard mutual confidentiality obligations.' },
+  { category: 'Limitation of Liability', pattern: /liabilit/i, risk: 'high', recommendation: 'Cap liability at the fees paid in the preceding twelve months.' },
+  { category: 'Payment', pattern: /payment|invoice|fee/i, risk: 'medium', recommendation: 'Use 30-day payment terms.' },
+  { category: 'Termination', pattern: /terminat|renew/i, risk: 'medium', recommendation: 'Allow termination for convenience on 60 days\' notice.' },
+  { category: 'Governing Law', pattern: /governing law|laws of/i, risk: 'low', recommendation: 'Prefer Delaware law.' },
+  { category: 'Indemnification', pattern: /indemnif/i, risk: 'high', recommendation: 'Limit indemnities to third-party IP claims.' },
+]
+
+/** Clause-by-clause analysis built from keywords in the document text (or a generic set when there is none). */
+function analyse(review: MockReview) {
+  const text = review.review_text || ''
+  const sentences = text.split(/(?<=[.!?])\s+/)
+  const found = CLAUSE_KEYWORDS.filter((k) => !text || k.pattern.test(text))
+  const clauses = found.map((k, i) => {
+    const snippet = sentences.find((s) => k.pattern.test(s)) || `${k.category} terms were found in the document.`
+    return {
+      id: `c${i + 1}`,
+      category: k.category,
+      title: k.category,
+      snippet: snippet.slice(0, 280),
+      risk: k.risk,
+      match_percent: k.risk === 'high' ? 45 : k.risk === 'medium' ? 68 : 90,
+      recommendation: k.recommendation,
+    }
+  })
+  const high = clauses.filter((c) => c.risk === 'high').length
+  const score = Math.min(95, 20 + high * 25 + clauses.filter((c) => c.risk === 'medium').length * 10)
+  return {
+    summary: `Automated review of ${review.original_filename}. ${clauses.length} clause area${clauses.length === 1 ? '' : 's'} identified, ${high} high risk.`,
+    jurisdiction: /delaware/i.test(text) ? 'Delaware, USA' : '',
+    analysis_summary: {
+      risk_level: score >= 65 ? 'HIGH' : score >= 40 ? 'MEDIUM' : 'LOW',
+      risk_score: score,
+      clauses_count: clauses.length,
+      obligations_count: 1,
+      constraints_count: 0,
+    },
+    parties: [],
+    dates: [{ label: 'Reviewed on', type: 'review', value: nowIso().slice(0, 10) }],
+    values: [],
+    obligations: [{ party: 'Both parties', text: 'Comply with the obligations set out in the agreement.' }],
+    constraints: [],
+    clauses,
+    insights: clauses.filter((c) => c.risk === 'high').map((c) => ({ title: c.title, text: c.recommendation, severity: 'high' })),
+    suggestions: clauses.filter((c) => c.risk !== 'low').map((c) => ({ title: `Revise ${c.title}`, text: c.recommendation })),
+  }
+}
+
+/** Finish simulated analyses whose time has come. Called before every read. */
+function settle(review: MockReview) {
+  if (review.status !== 'processing' || !review.ready_at_ms || review.ready_at_ms > Date.now()) return
+  review.status = 'ready'
+  review.analysis = analyse(review)
+  review.ready_at_ms = null
+  review.updated_at = nowIso()
+}
+
+const visibleReviews = (user: MockUser) => db.state.reviews.filter((r) => r.tenant_id === user.tenant_id)
+
+function findReview(req: MockRequest) {
+  const review = visibleReviews(req.user).find((r) => r.id === req.params.id)
+  if (review) settle(review)
+  return review
+}
+
+function toListItem(r: MockReview) {
+  return {
+    id: r.id,
+    title: r.title,
+    original_filename: r.original_filename,
+    file_type: r.file_type,
+    size_bytes: r.size_bytes,
+    status: r.status,
+    created_at: r.created_at,
+    updated_at: r.updated_at,
+  }
+}
+
+export function toReviewDetail(r: MockReview) {
+  const out: Partial<MockReview> = { ...r }
+  delete out.tenant_id
+  delete out.ready_at_ms
+  return out
+}
+
+function startAnalysis(review: MockReview) {
+  review.status = 'processing'
+  review.error_message = null
+  review.ready_at_ms = Date.now() + ANALYSIS_MS
+  review.updated_at = nowIso()
+}
+
+/** Create a review from uploaded bytes (multipart upload or a completed chunked upload). */
+export async function createReview(user: MockUser, file: Blob, filename: string, opts: { title?: string; analyze?: boolean }) {
+  const id = newId()
+  const r2_key = `reviews/${id}/${filename}`
+  db.files.set(r2_key, file)
+  const isText = /\.(txt|md|html?)$/i.test(filename) || file.type.startsWith('text/')
+  const review: MockReview = {
+    id,
+    title: (opts.title || filename.replace(/\.[^.]+$/, '')).trim(),
+    original_filename: filename,
+    file_type: (filename.split('.').pop() || 'bin').toLowerCase(),
+    size_bytes: file.size,
+    status: 'uploaded',
+    created_at: nowIso(),
+    updated_at: nowIso(),
+    r2_key,
+    error_message: null,
+    analysis: null,
+    review_text: isText ? await file.text() : '',
+    tenant_id: user.tenant_id,
+    ready_at_ms: null,
+  }
+  if (opts.analyze !== false) startAnalysis(review)
+  db.state.reviews.unshift(review)
+  logActivity(user, 'upload', 'review', review.id)
+  return review
+}
+
+async function reportText(review: MockReview) {
+  const a = review.analysis || {}
+  const lines = [
+    `Contract review: ${review.title}`,
+    `File: ${review.original_filename}`,
+    '',
+    String(a.summary || 'No analysis available.'),
+    '',
+    ...((Array.isArray(a.clauses) ? a.clauses : []) as Array<Record<string, string>>).flatMap((c) => [
+      `${c.category} (${String(c.risk || '').toUpperCase()} risk)`,
+      `  ${c.snippet}`,
+      c.recommendation ? `  Recommendation: ${c.recommendation}` : '',
+    ]),
+  ]
+  return lines.filter((l) => l !== '').join('\n')
+}
+
+const RISK_COLORS: Record<string, string> = { high: '#be123c', medium: '#b45309', low: '#047857' }
+
+/** The report as HTML for the PDF: a heading per clause, the clause text quoted. */
+function reportHtml(review: MockReview) {
+  const a = review.analysis || {}
+  const clauses = (Array.isArray(a.clauses) ? a.clauses : []) as Array<Record<string, string>>
+  return [
+    `<h1>Contract review: ${escapeHtml(review.title)}</h1>`,
+    `<p>File: ${escapeHtml(review.original_filename)}</p>`,
+    '<h2>Summary</h2>',
+    `<p>${escapeHtml(String(a.summary || 'No analysis available.'))}</p>`,
+    clauses.length ? '<h2>Clauses</h2>' : '',
+    ...clauses.map((c) =>
+      [
+        `<h3>${escapeHtml(c.category)} <span style="color: ${RISK_COLORS[c.risk] || '#475569'}">(${escapeHtml(String(c.risk || '').toUpperCase())} risk)</span></h3>`,
+        `<blockquote><p>${escapeHtml(c.snippet || '')}</p></blockquote>`,
+        c.recommendation ? `<p><strong>Recommendation:</strong> ${escapeHtml(c.recommendation)}</p>` : '',
+      ].join('')
+    ),
+  ].join('')
+}
+
+route('GET', `${V1}/review-contracts/`, (req) => {
+  const q = req.query.get('q')
+  const items = visibleReviews(req.user).filter((r) => matchesQuery(r, q, ['title', 'original_filename']))
+  items.forEach(settle)
+  return paginate(req, applyOrdering(items.map(toListItem), req.query.get('ordering'), '-created_at'))
+})
+
+route('POST', `${V1}/review-contracts/`, async (req) => {
+  const file = req.form?.get('file')
+  if (!(file instanceof Blob)) return fail(400, 'No file uploaded.', { file: ['No file was submitted.'] })
+  const filename = file instanceof File ? file.name : 'document.pdf'
+  const title = req.form?.get('title')
+  const analyze = req.form?.get('analyze')
+  const review = await createReview(req.user, file, filename, {
+    title: typeof title === 'string' ? title : undefined,
+    analyze: analyze === null || analyze === undefined ? true : analyze !== 'false',
+  })
+  return json({ success: true, review_contract: toReviewDetail(review) }, 201)
+})
+
+route('GET', `${V1}/review-contracts/:id/`, (req) => {
+  const review = findReview(req)
+  return review ? json(toReviewDetail(review)) : fail(404, 'Review not found.')
+})
+
+route('DELETE', `${V1}/review-contracts/:id/`, (req) => {
+  const review = findReview(req)
+  if (!review) return fail(404, 'Review not found.')
+  db.state.reviews = db.state.reviews.filter((r) => r !== review)
+  db.files.delete(review.r2_key)
+  return noContent()
+})
+
+route('GET', `${V1}/review-contracts/:id/url/`, async (req) => {
+  const review = findReview(req)
+  if (!review) return fail(404, 'Review not found.')
+  // Bytes are only kept in memory; after a reload serve a stand-in document.
+  const blob =
+    db.files.get(review.r2_key) ||
+    (await renderTextPdf(review.review_text || 'The original file is not available in the mock backend after a reload.', { title: review.title }))
+  return json({ success: true, url: URL.createObjectURL(blob), expires_in: 3600 })
+})
+
+route('POST', `${V1}/review-contracts/:id/analyze/`, (req) => {
+  const review = findReview(req)
+  if (!review) return fail(404, 'Review not found.')
+  if (review.status === 'processing') return fail(409, 'Analysis is already running.')
+  startAnalysis(review)
+  return json({ success: true, review_contract: toReviewDetail(review) })
+})
+
+route('GET', `${V1}/review-contracts/:id/report-txt/`, async (req) => {
+  const review = findReview(req)
+  if (!review) return fail(404, 'Review not found.')
+  if (review.status !== 'ready') return fail(400, 'The analysis has not finished yet.')
+  return blobResponse(new Blob([await reportText(review)], { type: 'text/plain' }), 'review.txt')
+})
+
+route('GET', `${V1}/review-contracts/:id/report-pdf/`, async (req) => {
+  const review = findReview(req)
+  if (!review) return fail(404, 'Review not found.')
+  if (review.status !== 'ready') return fail(400, 'The analysis has not finished yet.')
+  return blobResponse(await renderHtmlPdf(reportHtml(review), { title: `Review: ${review.title}` }), 'review.pdf')
+})
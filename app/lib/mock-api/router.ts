@@ -0,0 +1,256 @@
+/**
+ * Minimal request router for the mock backend: path patterns with `:params`,
+ * body decoding and the response helpers every handler uses.
+ */
+
+import type { HttpRequest } from '../http'
+import { verifyAccessToken } from './tokens'
+import type { MockUser } from './db'
+
+/** Decoded request body. Untyped on purpose, like DRF's `request.data`; handlers validate what they read. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type JsonBody = Record<string, any>
+
+export interface MockRequest {
+  method: string
+  /** Path without origin or query, always with a trailing slash. */
+  path: string
+  params: Record<string, string>
+  query: URLSearchParams
+  headers: Record<string, string>
+  /** Parsed JSON body (`{}` when absent or not JSON). */
+  json: JsonBody
+  form: FormData | null
+  blob: Blob | null
+  /** Set for authenticated routes. */
+  user: MockUser
+  raw: HttpRequest
+}
+
+export type MockHandler = (req: MockRequest) => Response | Promise<Response>
+
+interface Route {
+  method: string
+  pattern: RegExp
+  keys: string[]
+  handler: MockHandler
+  public: boolean
+}
+
+const routes: Route[] = []
+
+/**
+ * Register a handler. `path` uses `:name` segments (`/api/v1/contracts/:id/`).
+ * Routes are authenticated unless `opts.public` is set.
+ */
+export function route(method: string, path: string, handler: MockHandler, opts?: { public?: boolean }) {
+  const keys: string[] = []
+  const source = path
+    .replace(/\/+$/, '')
+    .split('/')
+    .map((segment) => {
+      if (!segment.startsWith(':')) return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      keys.push(segment.slice(1))
+      return '([^/]+)'
+    })
+    .join('/')
+  routes.push({ method: method.toUpperCase(), pattern: new RegExp(`^${source}/$`), keys, handler, public: !!opts?.public })
+}
+
+// ==================== RESPONSES ====================
+
+export const json = (data: unknown, status: number = 200, headers?: Record<string, string>) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json', ...headers } })
+
+const ERROR_CODES: Record<number, string> = {
+  400: 'bad_request',
+  401: 'not_authenticated',
+  403: 'permission_denied',
+  404: 'not_found',
+  409: 'conflict',
+  413: 'payload_too_large',
+  429: 'throttled',
+  500: 'server_error',
+}
+
+/** Error body in the shape the Django backend uses (`{ error, code }`, plus DRF field errors when given). */
+export const fail = (status: number, error: string, fields?: Record<string, string[]>) =>
+  json({ error, code: fields ? 'validation_error' : ERROR_CODES[status] || 'error', ...(fields || {}) }, status)
+
+export const noContent = () => new Response(null, { status: 204 })
+
+export const blobResponse = (blob: Blob, filename?: string) =>
+  new Response(blob, {
+    status: 200,
+    headers: {
+      'Content-Type': blob.type || 'application/octet-stream',
+      ...(filename ? { 'Content-Disposition': `attachment; filename="${filename}"` } : {}),
+    },
+  })
+
+// ==================== DISPATCH ====================
+
+const normalisePath = (url: string) => {
+  const parsed = new URL(url, 'http://mock.local')
+  const path = parsed.pathname.endsWith('/') ? parsed.pathname : `${parsed.pathname}/`
+  return { path, query: parsed.searchParams }
+}
+
+async function decodeBody(body: HttpRequest['body']): Promise<Pick<MockRequest, 'json' | 'form' | 'blob'>> {
+  if (body == null) return { json: {}, form: null, blob: null }
+  if (typeof body === 'string') {
+    try {
+      const parsed = JSON.parse(body)
+      return { json: parsed && typeof parsed === 'object' ? parsed : {}, form: null, blob: null }
+    } catch {
+      return { json: {}, form: null, blob: new Blob([body]) }
+    }
+  }
+  if (typeof FormData !== 'undefined' && body instanceof FormData) return { json: {}, form: body, blob: null }
+  if (body instanceof Blob) return { json: {}, form: null, blob: body }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return { json: {}, form: null, blob: new Blob([body as BlobPart]) }
+  }
+  return { json: {}, form: null, blob: null }
+}
+
+/** Size of an upload body, for the progress callback. */
+function bodySize(req: Pick<MockRequest, 'form' | 'blob'>): number {
+  if (req.blob) return req.blob.size
+  let total = 0
+  req.form?.forEach((value) => {
+    total += typeof value === 'string' ? value.length : value.size
+  })
+  return total
+}
+
+const lowerCaseKeys = (headers: Record<string, string>) =>
+  Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]))
+
+export async function dispatch(req: HttpRequest): Promise<Response> {
+  const { path, query } = normalisePath(req.url)
+  const method = req.method.toUpperCase()
+  const headers = lowerCaseKeys(req.headers)
+
+  let matched: { route: Route; params: Record<string, string> } | null = null
+  let pathExists = false
+  for (const r of routes) {
+    const m = r.pattern.exec(path)
+    if (!m) continue
+    pathExists = true
+    if (r.method !== method) continue
+    const params: Record<string, string> = {}
+    r.keys.forEach((key, i) => {
+      params[key] = decodeURIComponent(m[i + 1])
+    })
+    matched = { route: r, params }
+    break
+  }
+
+  if (!matched) return pathExists ? fail(405, `Method "${method}" not allowed.`) : fail(404, 'Not found.')
+
+  let user: MockUser | null = null
+  const bearer = /^Bearer\s+(.+)$/i.exec(headers.authorization || '')?.[1]
+  if (bearer) user = verifyAccessToken(bearer)
+  if (!matched.route.public && !user) {
+    return json(
+      {
+        detail: bearer ? 'Given token not valid for any token type' : 'Authentication credentials were not provided.',
+        code: bearer ? 'token_not_valid' : 'not_authenticated',
+      },
+      401
+    )
+  }
+
+  const body = await decodeBody(req.body)
+  if (req.onUploadProgress) {
+    const total = bodySize(body)
+    req.onUploadProgress({ loaded: total, total, percent: 100 })
+  }
+
+  return matched.route.handler({
+    method,
+    path,
+    params: matched.params,
+    query,
+    headers,
+    ...body,
+    user: user as MockUser,
+    raw: req,
+  })
+}
+
+// ==================== LISTS ====================
+
+/** Case-insensitive match of `q` against any of `fields`. */
+export function matchesQuery<T>(item: T, q: string | null, fields: Array<keyof T>): boolean {
+  const needle = (q || '').trim().toLowerCase()
+  if (!needle) return true
+  return fields.some((f) => String(item[f] ?? '').toLowerCase().includes(needle))
+}
+
+/** DRF-style `?ordering=field` / `?ordering=-field`. */
+export function applyOrdering<T>(items: T[], ordering: string | null, fallback: string): T[] {
+  const spec = (ordering || fallback).trim()
+  const desc = spec.startsWith('-')
+  const key = (desc ? spec.slice(1) : spec) as keyof T
+  return [...items].sort((a, b) => {
+    const av = a[key] as unknown
+    const bv = b[key] as unknown
+    const cmp =
+      typeof av === 'number' && typeof bv === 'number' ? av - bv : String(av ?? '').localeCompare(String(bv ?? ''))
+    return desc ? -cmp : cmp
+  })
+}
+
+/**
+ * Paginated list envelope (`{ count, next, previous, results }`). Supports both
+ * `?page=&page_size=` and `?limit=&offset=`; without either, returns everything.
+ */
+export function paginate<T>(req: MockRequest, items: T[]): Response {
+  const q = req.query
+  const link = (params: Record<string, number>) => {
+    const next = new URLSearchParams(q)
+    for (const [k, v] of Object.entries(params)) next.set(k, String(v))
+    return `${req.path}?${next.toString()}`
+  }
+
+  if (q.has('limit') || q.has('offset')) {
+    const limit = Math.max(1, Number(q.get('limit')) || 50)
+    const offset = Math.max(0, Number(q.get('offset')) || 0)
+    return json({
+      count: items.length,
+      next: offset + limit < items.length ? link({ limit, offset: offset + limit }) : null,
+      previous: offset > 0 ? link({ limit, offset: Math.max(0, offset - limit) }) : null,
+      results: items.slice(offset, offset + limit),
+      limit,
+      offset,
+    })
+  }
+
+  if (q.has('page') || q.has('page_size')) {
+    const pageSize = Math.max(1, Number(q.get('page_size')) || 20)
+    const page = Math.max(1, Number(q.get('page')) || 1)
+    const start = (page - 1) * pageSize
+    if (start > 0 && start >= items.length) return fail(404, 'Invalid page.')
+    return json({
+      count: items.length,
+      next: start + pageSize < items.length ? link({ page: page + 1, page_size: pageSize }) : null,
+      previous: page > 1 ? link({ page: page - 1, page_size: pageSize }) : null,
+      results: items.slice(start, start + pageSize),
+    })
+  }
+
+  return json({ count: items.length, next: null, previous: null, results: items })
+}
+
+/** DRF-style validation error: `{ error, field: [messages] }` with status 400. */
+export function requireFields(body: JsonBody, fields: string[]): Response | null {
+  const missing = fields.filter((f) => body[f] === undefined || body[f] === null || String(body[f]).trim() === '')
+  if (!missing.length) return null
+  return fail(
+    400,
+    `Missing required field${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}`,
+    Object.fromEntries(missing.map((f) => [f, ['This field is required.']]))
+  )
+}
@@ -0,0 +1,50 @@
+/**
+ * Server-sent event responses for the mock AI streams. Frames are written with
+ * a small delay between them, so the UI sees a realistic token-by-token stream.
+ * Each frame carries its index as `id:`, and a reconnect with `Last-Event-ID`
+ * resumes after that frame (as long as the handler rebuilds the same frames).
+ */
+
+export interface SseFrame {
+  event: string
+  data: unknown
+}
+
+const DELTA_DELAY_MS = 35
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/** Split generated text into word-sized deltas (whitespace stays attached). */
+export const toDeltas = (text: string): SseFrame[] =>
+  (text.match(/\S+\s*|\s+/g) || []).map((delta) => ({ event: 'delta', data: { delta } }))
+
+/** Index of the first frame to send for a `Last-Event-ID` header value. */
+export const resumeIndex = (lastEventId?: string) => {
+  const id = Number(lastEventId)
+  return lastEventId && Number.isInteger(id) && id >= 0 ? id + 1 : 0
+}
+
+export function sseResponse(frames: SseFrame[], signal?: AbortSignal, lastEventId?: string): Response {
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (let i = resumeIndex(lastEventId); i < frames.length; i++) {
+        const frame = frames[i]
+        if (cancelled || signal?.aborted) break
+        controller.enqueue(encoder.encode(`id: ${i}\nevent: ${frame.event}\ndata: ${JSON.stringify(frame.data)}\n\n`))
+        await sleep(frame.event === 'delta' ? DELTA_DELAY_MS : 0)
+      }
+      if (!cancelled) controller.close()
+    },
+    cancel() {
+      cancelled = true
+    },
+  })
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  })
+}
@@ -0,0 +1,307 @@
+import type { TemplateSchemaField, TemplateSchemaSection, TemplateSignatureFieldsConfig } from '../api-client'
+import { db, logActivity, newId, nowIso, type MockTemplateFile } from './db'
+import { extractPlaceholders } from './content'
+import { fail, json, noContent, paginate, requireFields, route, type MockRequest } from './router'
+
+const V1 = '/api/v1'
+
+const toFileItem = (t: MockTemplateFile) => {
+  const out: Partial<MockTemplateFile> = { ...t }
+  delete out.content
+  return out
+}
+
+const findFile = (filename: string) => db.state.template_files.find((t) => t.filename === filename)
+
+const humanize = (key: string) => key.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase())
+
+const GOVERNING_LAW_OPTIONS = ['Delaware', 'New York', 'California', 'England and Wales', 'Singapore']
+
+/** Field type and grouping inferred from the placeholder name, like the backend's schema builder. */
+function describePlaceholder(key: string): { section: string; field: TemplateSchemaField } {
+  const k = key.toLowerCase()
+  const base = { key, label: humanize(key), required: true, in_template: true }
+  if (k === 'governing_law') {
+    return { section: 'Terms', field: { ...base, type: 'select', options: GOVERNING_LAW_OPTIONS } }
+  }
+  if (k.includes('date')) return { section: 'Dates', field: { ...base, type: 'date' } }
+  if (/(amount|fee|salary|days|months|years|rate|value)/.test(k)) {
+    return { section: 'Commercial terms', field: { ...base, type: 'number', required: false } }
+  }
+  if (/(name|party|client|provider|employer|employee|address|email)/.test(k)) {
+    return { section: 'Parties', field: { ...base, type: 'text' } }
+  }
+  return { section: 'Terms', field: { ...base, type: 'text', required: false } }
+}
+
+/** Placeholders the schema marks as required (the create-contract form stars them). */
+export const requiredPlaceholders = (content: string) =>
+  extractPlaceholders(content).filter((key) => describePlaceholder(key).field.required)
+
+function fileSchema(file: MockTemplateFile) {
+  const placeholders = extractPlaceholders(file.content)
+  const order = ['Parties', 'Dates', 'Commercial terms', 'Terms']
+  const bySection = new Map<string, TemplateSchemaField[]>()
+  for (const key of placeholders) {
+    const { section, field } = describePlaceholder(key)
+    bySection.set(section, [...(bySection.get(section) || []), field])
+  }
+  const sections: TemplateSchemaSection[] = order
+    .filter((title) => bySection.has(title))
+    .map((title) => ({ title, fields: bySection.get(title) || [] }))
+  return {
+    success: true,
+    filename: file.filename,
+    name: file.name,
+    template_type: file.contract_type,
+    placeholders,
+    sections,
+    clauses_ui: { allow_library_selection: true, allow_custom_clauses: true, allow_constraints: true },
+  }
+}
+
+/** Signature boxes stacked at the bottom of the last page, one per recipient. */
+function defaultSignatureConfig(): TemplateSignatureFieldsConfig {
+  return {
+    fields: [0, 1].map((recipient_index) => ({
+      label: `Signer ${recipient_index + 1}`,
+      type: 'signature' as const,
+      page_number: 1,
+      position: { x: 10 + recipient_index * 45, y: 80, width: 35, height: 8 },
+      required: true,
+      recipient_index,
+    })),
+    auto_stack: true,
+    stack_spacing: 12,
+    source: 'default',
+  }
+}
+
+// ==================== CONTRACT TEMPLATES ====================
+
+const visibleTemplates = (req: MockRequest) => db.state.contract_templates.filter((t) => t.tenant_id === req.user.tenant_id)
+
+route('GET', `${V1}/contract-templates/`, (req) => paginate(req, visibleTemplates(req)))
+
+route('POST', `${V1}/contract-templates/`, (req) => {
+  const invalid = requireFields(req.json, ['name', 'contract_type'])
+  if (invalid) return invalid
+  const template = {
+    id: newId(),
+    name: String(req.json.name),
+    contract_type: String(req.json.contract_type),
+    description: req.json.description,
+    r2_key: req.json.r2_key,
+    merge_fields: Array.isArray(req.json.merge_fields) ? req.json.merge_fields : [],
+    status: String(req.json.status || 'draft'),
+    tenant_id: req.user.tenant_id,
+    created_at: nowIso(),
+  }
+  db.state.contract_templates.unshift(template)
+  logActivity(req.user, 'create', 'template', template.id)
+  return json(template, 201)
+})
+
+route('GET', `${V1}/contract-templates/:id/`, (req) => {
+  const t = visibleTemplates(req).find((x) => x.id === req.params.id)
+  return t ? json(t) : fail(404, 'Template not found.')
+})
+
+route('PUT', `${V1}/contract-templates/:id/`, (req) => {
+  const t = visibleTemplates(req).find((x) => x.id === req.params.id)
+  if (!t) return fail(404, 'Template not found.')
+  for (const key of ['name', 'contract_type', 'description', 'r2_key', 'merge_fields', 'status'] as const) {
+    if (req.json[key] !== undefined) Object.assign(t, { [key]: req.json[key] })
+  }
+  return json(t)
+})
+
+route('DELETE', `${V1}/contract-templates/:id/`, (req) => {
+  const t = visibleTemplates(req).find((x) => x.id === req.params.id)
+  if (!t) return fail(404, 'Template not found.')
+  db.state.contract_templates = db.state.contract_templates.filter((x) => x !== t)
+  return noContent()
+})
+
+// ==================== TEMPLATE TYPES (api.ts templateAPI) ====================
+
+route('GET', `${V1}/templates/types/`, () =>
+  json({ success: true, total_types: Object.keys(db.state.template_types).length, template_types: db.state.template_types })
+)
+
+route('GET', `${V1}/templates/types/:type/`, (req) => {
+  const t = db.state.template_types[req.params.type]
+  if (!t) return fail(404, `Unknown template type "${req.params.type}".`)
+  return json({ success: true, template_type: req.params.type, ...t })
+})
+
+route('GET', `${V1}/templates/summary/`, () => {
+  const types = db.state.template_types
+  return json({
+    success: true,
+    total_types: Object.keys(types).length,
+    summary: Object.fromEntries(
+      Object.entries(types).map(([key, t]) => [
+        key,
+        {
+          display_name: t.display_name,
+          required_fields: t.required_fields.length,
+          optional_fields: t.optional_fields.length,
+          mandatory_clauses: t.mandatory_clauses.length,
+        },
+      ])
+    ),
+  })
+})
+
+route('POST', `${V1}/templates/validate/`, (req) => {
+  const t = db.state.template_types[String(req.json.template_type || '')]
+  if (!t) return fail(400, 'Unknown template type.', { template_type: ['Unknown template type.'] })
+  const data: Record<string, unknown> = req.json.data || {}
+  const missing = t.required_fields.filter((f) => !String(data[f.name] ?? '').trim()).map((f) => f.name)
+  return json({
+    success: true,
+    is_valid: missing.length === 0,
+    missing_fields: missing,
+    message: missing.length ? `Missing required fields: ${missing.join(', ')}` : 'All required fields are present.',
+  })
+})
+
+route('POST', `${V1}/templates/create-from-type/`, (req) => {
+  const invalid = requireFields(req.json, ['template_type', 'name'])
+  if (invalid) return invalid
+  const t = db.state.template_types[String(req.json.template_type)]
+  if (!t) return fail(400, 'Unknown template type.', { template_type: ['Unknown template type.'] })
+  const merge_fields = [...t.required_fields, ...t.optional_fields].map((f) => f.name)
+  const template = {
+    id: newId(),
+    name: String(req.json.name),
+    contract_type: t.contract_type,
+    description: req.json.description || t.description,
+    merge_fields,
+    status: String(req.json.status || 'draft'),
+    tenant_id: req.user.tenant_id,
+    created_at: nowIso(),
+  }
+  db.state.contract_templates.unshift(template)
+  logActivity(req.user, 'create', 'template', template.id)
+  return json(
+    {
+      success: true,
+      template_id: template.id,
+      name: template.name,
+      contract_type: template.contract_type,
+      status: template.status,
+      merge_fields,
+      mandatory_clauses: t.mandatory_clauses,
+      message: 'Template created.',
+    },
+    201
+  )
+})
+
+// ==================== FILE TEMPLATES ====================
+
+route('GET', `${V1}/templates/files/`, (req) => paginate(req, db.state.template_files.map(toFileItem)))
+
+route('POST', `${V1}/templates/files/`, (req) => {
+  const invalid = requireFields(req.json, ['content'])
+  if (invalid) return invalid
+  const name = String(req.json.name || req.json.filename || 'Untitled template').trim()
+  const filename = String(req.json.filename || `${name.replace(/[^\w-]+/g, '_')}.txt`).trim()
+  if (findFile(filename)) return fail(400, 'A template with this filename already exists.', { filename: ['Already exists.'] })
+  const template: MockTemplateFile = {
+    id: newId(),
+    filename,
+    name,
+    contract_type: String(req.json.contract_type || 'general'),
+    description: req.json.description,
+    status: 'published',
+    created_at: nowIso(),
+    updated_at: nowIso(),
+    created_by_id: req.user.user_id,
+    created_by_email: req.user.email,
+    content: String(req.json.content),
+  }
+  db.state.template_files.unshift(template)
+  logActivity(req.user, 'create', 'template', template.id)
+  return json({ success: true, template: toFileItem(template) }, 201)
+})
+
+route('GET', `${V1}/templates/files/mine/`, (req) =>
+  paginate(req, db.state.template_files.filter((t) => t.created_by_id === req.user.user_id).map(toFileItem))
+)
+
+route('DELETE', `${V1}/templates/files/delete/:filename/`, (req) => {
+  const file = findFile(req.params.filename)
+  if (!file) return fail(404, 'Template not found.')
+  if (file.created_by_id !== req.user.user_id && !req.user.is_admin) return fail(403, 'You can only delete your own templates.')
+  db.state.template_files = db.state.template_files.filter((t) => t !== file)
+  return json({ success: true, filename: file.filename })
+})
+
+route('GET', `${V1}/templates/files/content/:filename/`, (req) => {
+  const file = findFile(req.params.filename)
+  if (!file) return fail(404, 'Template not found.')
+  return json({
+    success: true,
+    filename: file.filename,
+    name: file.name,
+    template_type: file.contract_type,
+    content: file.content,
+    size: file.content.length,
+  })
+}, { public: true })
+
+route('GET', `${V1}/templates/files/schema/:filename/`, (req) => {
+  const file = findFile(req.params.filename)
+  return file ? json(fileSchema(file)) : fail(404, 'Template not found.')
+}, { public: true })
+
+route('GET', `${V1}/templates/files/signature-fields-config/:filename/`, (req) => {
+  const file = findFile(req.params.filename)
+  if (!file) return fail(404, 'Template not found.')
+  const saved = db.state.signature_configs[file.filename]
+  const config = saved || defaultSignatureConfig()
+  return json({ success: true, filename: file.filename, config, source: config.source })
+})
+
+route('POST', `${V1}/templates/files/drag-signature-positions/:filename/`, (req) => {
+  const file = findFile(req.params.filename)
+  if (!file) return fail(404, 'Template not found.')
+  const positions: Array<{ recipient_index: number; page_number: number; position: { x: number; y: number; width: number; height: number } }> =
+    Array.isArray(req.json.positions) ? req.json.positions : []
+  if (!positions.length) return fail(400, 'No positions given.', { positions: ['This field is required.'] })
+  const config: TemplateSignatureFieldsConfig = {
+    fields: positions.map((p) => ({
+      label: `Signer ${Number(p.recipient_index) + 1}`,
+      type: 'signature',
+      page_number: Number(p.page_number) || 1,
+      position: p.position,
+      required: true,
+      recipient_index: Number(p.recipient_index) || 0,
+    })),
+    auto_stack: false,
+    source: 'drag_drop',
+  }
+  db.state.signature_configs[file.filename] = config
+  return json({ success: true, filename: file.filename, config })
+})
+
+// Legacy per-type template text (`/templates/files/{type}/`); also accepts a filename.
+route('GET', `${V1}/templates/files/:type/`, (req) => {
+  const type = db.state.template_types[req.params.type]
+  const file = type
+    ? db.state.template_files.find((t) => t.contract_type === type.contract_type)
+    : findFile(req.params.type)
+  if (!file) return fail(404, `No template file for "${req.params.type}".`)
+  return json({
+    success: true,
+    template_type: req.params.type,
+    filename: file.filename,
+    content: file.content,
+    size: file.content.length,
+    display_name: type?.display_name || file.name,
+    description: type?.description || file.description,
+  })
+}, { public: true })
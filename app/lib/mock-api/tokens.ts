@@ -0,0 +1,79 @@
+/**
+ * JWT-shaped tokens for the mock backend. They are not signed, but carry the
+ * same claims as the backend's SimpleJWT tokens (`token_type`, `exp`, `iat`,
+ * `jti`, `user_id`), so code that reads `exp` behaves as it would in production.
+ */
+
+import { db, type MockUser } from './db'
+
+/** Short on purpose, so refresh paths get exercised during development. */
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60
+
+interface TokenClaims {
+  token_type: 'access' | 'refresh'
+  exp: number
+  iat: number
+  jti: string
+  user_id: string
+}
+
+const base64Url = (value: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+const fromBase64Url = (value: string) => {
+  const padded = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+  return new TextDecoder().decode(Uint8Array.from(atob(padded), (c) => c.charCodeAt(0)))
+}
+
+const randomId = () => Math.random().toString(36).slice(2) + Date.now().toString(36)
+
+function encode(claims: TokenClaims): string {
+  return [base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' })), base64Url(JSON.stringify(claims)), 'mock'].join('.')
+}
+
+function decode(token: string): TokenClaims | null {
+  const payload = token.split('.')[1]
+  if (!payload) return null
+  try {
+    const claims = JSON.parse(fromBase64Url(payload))
+    return claims && typeof claims === 'object' ? (claims as TokenClaims) : null
+  } catch {
+    return null
+  }
+}
+
+export function issueTokens(user: MockUser): { access: string; refresh: string } {
+  const iat = Math.floor(Date.now() / 1000)
+  return {
+    access: encode({ token_type: 'access', iat, exp: iat + ACCESS_TOKEN_TTL_SECONDS, jti: randomId(), user_id: user.user_id }),
+    refresh: encode({ token_type: 'refresh', iat, exp: iat + REFRESH_TOKEN_TTL_SECONDS, jti: randomId(), user_id: user.user_id }),
+  }
+}
+
+function verify(token: string, type: TokenClaims['token_type']): { claims: TokenClaims; user: MockUser } | null {
+  const claims = decode(token)
+  if (!claims || claims.token_type !== type) return null
+  if (claims.exp * 1000 <= Date.now()) return null
+  if (db.state.revoked_jtis.includes(claims.jti)) return null
+  const user = db.state.users.find((u) => u.user_id === claims.user_id && u.is_active)
+  return user ? { claims, user } : null
+}
+
+export const verifyAccessToken = (token: string): MockUser | null => verify(token, 'access')?.user ?? null
+
+/** Validate a refresh token and revoke it (tokens rotate on every refresh, as on the backend). */
+export function consumeRefreshToken(token: string): MockUser | null {
+  const verified = verify(token, 'refresh')
+  if (!verified) return null
+  revokeToken(token)
+  return verified.user
+}
+
+export function revokeToken(token: string) {
+  const claims = decode(token)
+  if (claims?.jti && !db.state.revoked_jtis.includes(claims.jti)) db.state.revoked_jtis.push(claims.jti)
+}
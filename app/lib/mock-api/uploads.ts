@@ -0,0 +1,177 @@
+import { db, logActivity, newId, nowIso, type MockUploadSession, type MockUser } from './db'
+import { renderTextPdf } from '../html-pdf'
+import { createReview, toReviewDetail } from './reviews'
+import { applyOrdering, fail, json, matchesQuery, noContent, paginate, requireFields, route, type MockRequest } from './router'
+
+const V1 = '/api/v1'
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+const URL_TTL_SECONDS = 15 * 60
+
+/** Received chunks per upload session, in order. Lost on reload, like `db.files`. */
+const chunks = new Map<string, Blob[]>()
+
+const visibleUploads = (user: MockUser) => db.state.uploads.filter((u) => u.tenant_id === user.tenant_id)
+
+function storeUpload(user: MockUser, file: Blob, filename: string) {
+  const key = `private/${user.tenant_id}/${newId()}/${filename}`
+  db.files.set(key, file)
+  db.state.uploads.unshift({
+    key,
+    filename,
+    file_type: (filename.split('.').pop() || 'bin').toLowerCase(),
+    size: file.size,
+    uploaded_at: nowIso(),
+    tenant_id: user.tenant_id,
+  })
+  logActivity(user, 'upload', 'private_upload', key)
+  return key
+}
+
+// ==================== PRIVATE UPLOADS ====================
+
+route('GET', `${V1}/private-uploads/`, (req) => {
+  const q = req.query.get('q')
+  const results = visibleUploads(req.user)
+    .filter((u) => matchesQuery(u, q, ['filename']))
+    .map((u) => ({
+      key: u.key,
+      filename: u.filename,
+      file_type: u.file_type,
+      size: u.size,
+      uploaded_at: u.uploaded_at,
+    }))
+  return paginate(req, applyOrdering(results, req.query.get('ordering'), '-uploaded_at'))
+})
+
+route('POST', `${V1}/private-uploads/`, (req) => {
+  const file = req.form?.get('file')
+  if (!(file instanceof Blob)) return fail(400, 'No file uploaded.', { file: ['No file was submitted.'] })
+  const key = storeUpload(req.user, file, file instanceof File ? file.name : 'upload.bin')
+  return json({ success: true, key }, 201)
+})
+
+route('DELETE', `${V1}/private-uploads/`, (req) => {
+  const key = req.query.get('key') || ''
+  const upload = visibleUploads(req.user).find((u) => u.key === key)
+  if (!upload) return fail(404, 'File not found.')
+  db.state.uploads = db.state.uploads.filter((u) => u !== upload)
+  db.files.delete(key)
+  return json({ success: true, message: 'File deleted.' })
+})
+
+route('GET', `${V1}/private-uploads/url/`, async (req) => {
+  const key = req.query.get('key') || ''
+  const upload = visibleUploads(req.user).find((u) => u.key === key)
+  if (!upload) return fail(404, 'File not found.')
+  const blob =
+    db.files.get(key) ||
+    (await renderTextPdf('The original file is not available in the mock backend after a reload.', { title: upload.filename }))
+  return json({ success: true, key, url: URL.createObjectURL(blob), expires_in: URL_TTL_SECONDS })
+})
+
+// ==================== RESUMABLE UPLOAD SESSIONS ====================
+
+const toSession = (s: MockUploadSession) => ({
+  upload_id: s.upload_id,
+  chunk_size: s.chunk_size,
+  received_bytes: s.received_bytes,
+  size: s.size,
+  expires_at: s.expires_at,
+})
+
+function findSession(req: MockRequest): MockUploadSession | null {
+  const session = db.state.upload_sessions.find((s) => s.upload_id === req.params.id && s.user_id === req.user.user_id)
+  if (!session) return null
+  if (session.expires_at && Date.parse(session.expires_at) < Date.now()) {
+    dropSession(session)
+    return null
+  }
+  // The bytes did not survive a reload: ask the client to start from zero.
+  if (!chunks.has(session.upload_id)) {
+    session.received_bytes = 0
+    chunks.set(session.upload_id, [])
+  }
+  return session
+}
+
+function dropSession(session: MockUploadSession) {
+  db.state.upload_sessions = db.state.upload_sessions.filter((s) => s !== session)
+  chunks.delete(session.upload_id)
+}
+
+/** `bytes <start>-<end>/<total>` */
+const parseContentRange = (header: string | undefined) => {
+  const m = /^bytes (\d+)-(\d+)\/(\d+)$/.exec((header || '').trim())
+  return m ? { start: Number(m[1]), end: Number(m[2]), total: Number(m[3]) } : null
+}
+
+route('POST', `${V1}/uploads/sessions/`, (req) => {
+  const invalid = requireFields(req.json, ['purpose', 'filename', 'size'])
+  if (invalid) return invalid
+  if (!['private', 'review'].includes(req.json.purpose)) {
+    return fail(400, 'Unknown upload purpose.', { purpose: ['Must be "private" or "review".'] })
+  }
+  const session: MockUploadSession = {
+    upload_id: newId(),
+    chunk_size: Math.max(256 * 1024, Number(req.json.chunk_size) || DEFAULT_CHUNK_SIZE),
+    received_bytes: 0,
+    size: Math.max(0, Number(req.json.size) || 0),
+    expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    purpose: req.json.purpose,
+    filename: String(req.json.filename),
+    content_type: String(req.json.content_type || 'application/octet-stream'),
+    title: req.json.title,
+    analyze: req.json.analyze,
+    user_id: req.user.user_id,
+    tenant_id: req.user.tenant_id,
+  }
+  db.state.upload_sessions.push(session)
+  chunks.set(session.upload_id, [])
+  return json(toSession(session), 201)
+})
+
+route('GET', `${V1}/uploads/sessions/:id/`, (req) => {
+  const session = findSession(req)
+  return session ? json(toSession(session)) : fail(404, 'Upload session not found or expired.')
+})
+
+route('PUT', `${V1}/uploads/sessions/:id/`, (req) => {
+  const session = findSession(req)
+  if (!session) return fail(404, 'Upload session not found or expired.')
+  const range = parseContentRange(req.headers['content-range'])
+  const body = req.blob
+  if (!range || !body || range.total !== session.size || range.end - range.start + 1 !== body.size) {
+    return fail(400, 'Invalid Content-Range header.')
+  }
+  // A chunk the server already has: acknowledge without storing it twice.
+  if (range.end < session.received_bytes) return json(toSession(session))
+  if (range.start !== session.received_bytes) {
+    return json({ error: 'Chunk does not start at the received offset.', ...toSession(session) }, 409)
+  }
+  chunks.get(session.upload_id)?.push(body)
+  session.received_bytes += body.size
+  return json(toSession(session))
+})
+
+route('DELETE', `${V1}/uploads/sessions/:id/`, (req) => {
+  const session = findSession(req)
+  if (session) dropSession(session)
+  return noContent()
+})
+
+route('POST', `${V1}/uploads/sessions/:id/complete/`, async (req) => {
+  const session = findSession(req)
+  if (!session) return fail(404, 'Upload session not found or expired.')
+  if (session.received_bytes !== session.size) {
+    return json({ error: 'The upload is incomplete.', ...toSession(session) }, 409)
+  }
+  const file = new Blob(chunks.get(session.upload_id) || [], { type: session.content_type })
+  dropSession(session)
+  if (session.purpose === 'review') {
+    const review = await createReview(req.user, file, session.filename, { title: session.title, analyze: session.analyze })
+    return json({ success: true, review_contract: toReviewDetail(review) }, 201)
+  }
+  return json({ success: true, key: storeUpload(req.user, file, session.filename) }, 201)
+})
@@ -0,0 +1,42 @@
+/**
+ * Page geometry shared by the PDF renderer (`html-pdf.ts`), the Word export
+ * and the editor's page view, so the editor paginates like the PDF. Sizes are
+ * in points; a contract's choice of page size and footer is its page setup,
+ * kept in the contract metadata (`page_setup`).
+ */
+
+export type PageSize = 'letter' | 'a4'
+
+export const PAGE_SIZES: Record<PageSize, { label: string; width: number; height: number }> = {
+  letter: { label: 'Letter', width: 612, height: 792 },
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+}
+
+/** The running header and footer are drawn inside the top and bottom margins. */
+export const PAGE_MARGINS = { x: 64, top: 76, bottom: 72 }
+
+/** Baselines of the running header (from the top edge) and footer (from the bottom edge). */
+export const HEADER_BASELINE = 44
+export const FOOTER_BASELINE = 40
+
+/** CSS pixels per point. */
+export const PX_PER_PT = 4 / 3
+
+export interface PageSetup {
+  size: PageSize
+  /** Printed at the foot of each page, left of the page number. */
+  footer?: string
+}
+
+export const DEFAULT_PAGE_SETUP: PageSetup = { size: 'letter' }
+
+/** The page setup saved in contract metadata; Letter without a footer when there is none. */
+export function pageSetupOf(metadata: unknown): PageSetup {
+  const saved = (metadata && typeof metadata === 'object' ? (metadata as Record<string, unknown>).page_setup : null) as
+    | Partial<PageSetup>
+    | null
+    | undefined
+  const size = saved?.size && saved.size in PAGE_SIZES ? saved.size : DEFAULT_PAGE_SETUP.size
+  const footer = typeof saved?.footer === 'string' && saved.footer.trim() ? saved.footer : undefined
+  return footer ? { size, footer } : { size }
+}
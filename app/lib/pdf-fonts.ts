@@ -0,0 +1,140 @@
+/**
+ * Fonts for generated PDFs.
+ *
+ * Text is set in Liberation Sans (served with the pdf.js assets) and embedded,
+ * so any character the font has comes out as typed, not just WinAnsi.
+ * Characters it lacks (₹, ☐, CJK, Hangul…) are drawn with fallback fonts,
+ * which are only fetched for documents that need them. Characters no font
+ * has print as `?` and are listed in `missing`, so downloads can warn first.
+ */
+
+import * as fontkit from '@pdf-lib/fontkit'
+import type { PDFDocument, PDFFont } from 'pdf-lib'
+
+export type PdfFontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic'
+
+const LIBERATION_SANS: Record<PdfFontStyle, string> = {
+  regular: '/pdfjs/standard_fonts/LiberationSans-Regular.ttf',
+  bold: '/pdfjs/standard_fonts/LiberationSans-Bold.ttf',
+  italic: '/pdfjs/standard_fonts/LiberationSans-Italic.ttf',
+  boldItalic: '/pdfjs/standard_fonts/LiberationSans-BoldItalic.ttf',
+}
+
+// Copied from their npm packages into public/pdf-fonts on install (scripts/copy-pdfjs-assets.mjs);
+// NEXT_PUBLIC_PDF_FONTS_URL can point at another copy of that folder. Tried in order; each has a single (regular) face.
+const FALLBACK_FONTS = [
+  // Symbols (☐ ☑ ✓), currency signs (₹), and Latin / Greek / Cyrillic beyond Liberation.
+  'DejaVuSans.ttf',
+  // Chinese and Japanese.
+  'NotoSansSC-Regular.ttf',
+  // Korean.
+  'NotoSansKR-Regular.ttf',
+]
+
+const FALLBACK_FONTS_URL = (process.env.NEXT_PUBLIC_PDF_FONTS_URL || '/pdf-fonts').replace(/\/+$/, '')
+
+// Drawn for a character no font has.
+const MISSING = '?'
+
+// Zero-width and control characters no font has are left out rather than drawn as MISSING.
+const INVISIBLE = /^[\p{Cc}\p{Cf}]$/u
+
+interface FontFile {
+  bytes: Uint8Array
+  chars: Set<number>
+}
+
+// Per page load: the same files serve every PDF.
+const files = new Map<string, Promise<FontFile | null>>()
+
+function loadFontFile(url: string): Promise<FontFile | null> {
+  let file = files.get(url)
+  if (!file) {
+    file = fetch(url)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`)
+        const bytes = new Uint8Array(await res.arrayBuffer())
+        return { bytes, chars: new Set(fontkit.create(bytes).characterSet) }
+      })
+      .catch(() => {
+        // Not cached, so the next PDF tries again.
+        files.delete(url)
+        return null
+      })
+    files.set(url, file)
+  }
+  return file
+}
+
+export interface PdfFontRun {
+  text: string
+  font: PDFFont
+}
+
+export interface PdfFonts {
+  /** `text` in pieces that one font can draw, in `style` where the font has it. */
+  runs(text: string, style: PdfFontStyle): PdfFontRun[]
+  /** Characters `runs` has been given that no font has, so they print as `?`. */
+  readonly missing: string[]
+}
+
+/** Embeds Liberation Sans in `pdf`, plus whichever fallback fonts `text` (everything the PDF will show) needs. */
+export async function embedPdfFonts(pdf: PDFDocument, text: string): Promise<PdfFonts> {
+  pdf.registerFontkit(fontkit)
+  const styles = Object.keys(LIBERATION_SANS) as PdfFontStyle[]
+  const primary = {} as Record<PdfFontStyle, PDFFont>
+  const primaryChars = {} as Record<PdfFontStyle, Set<number>>
+  await Promise.all(
+    styles.map(async (style) => {
+      const file = await loadFontFile(LIBERATION_SANS[style])
+      if (!file) throw new Error('Could not load the fonts for the PDF.')
+      primary[style] = await pdf.embedFont(file.bytes, { subset: true })
+      primaryChars[style] = file.chars
+    })
+  )
+
+  // Fallbacks are picked for what the regular face lacks; a styled face missing a character falls back to regular first.
+  let missing = new Set<number>()
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!
+    if (code > 0x20 && !primaryChars.regular.has(code)) missing.add(code)
+  }
+  const fallbacks: Array<{ font: PDFFont; chars: Set<number> }> = []
+  for (const path of FALLBACK_FONTS) {
+    if (!missing.size) break
+    const file = await loadFontFile(`${FALLBACK_FONTS_URL}/${path}`)
+    if (!file || ![...missing].some((code) => file.chars.has(code))) continue
+    fallbacks.push({ font: await pdf.embedFont(file.bytes, { subset: true }), chars: file.chars })
+    missing = new Set([...missing].filter((code) => !file.chars.has(code)))
+  }
+
+  const fontFor = (code: number, style: PdfFontStyle): PDFFont | null => {
+    if (code <= 0x20 || primaryChars[style].has(code)) return primary[style]
+    if (primaryChars.regular.has(code)) return primary.regular
+    return fallbacks.find((f) => f.chars.has(code))?.font || null
+  }
+
+  const undrawn = new Set<string>()
+  return {
+    get missing() {
+      return [...undrawn]
+    },
+    runs(text, style) {
+      const runs: PdfFontRun[] = []
+      for (const ch of text) {
+        const code = ch.codePointAt(0)!
+        const found = fontFor(code, style)
+        if (!found) {
+          if (INVISIBLE.test(ch)) continue
+          undrawn.add(ch)
+        }
+        const font = found || primary[style]
+        const drawn = found ? ch : MISSING
+        const last = runs[runs.length - 1]
+        if (last && last.font === font) last.text += drawn
+        else runs.push({ text: drawn, font })
+      }
+      return runs
+    },
+  }
+}
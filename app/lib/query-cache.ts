@@ -0,0 +1,172 @@
+/**
+ * Shared client-side cache for ApiClient reads.
+ *
+ * Keyed by endpoint + query string and shared by every `ApiClient` instance:
+ * - concurrent identical reads share one in-flight request
+ * - fresh entries (< `staleTime`) are served without a request
+ * - stale entries (< `maxAge`) are served immediately and revalidated in the background
+ * - mutations invalidate by tag, so the next read goes to the network
+ *
+ * Screens that want to re-render after a background revalidation or an
+ * invalidation subscribe by tag (see `useQueryRevision`).
+ */
+
+import type { ApiResponse } from './api-client'
+import { tokenStore } from './http'
+
+export type QueryTag =
+  | 'contracts'
+  | 'dashboard'
+  | 'templates'
+  | 'clauses'
+  | 'calendar'
+  | 'approvals'
+  | 'notifications'
+  | 'workflows'
+  | 'uploads'
+  | 'reviews'
+  | 'signing'
+  | 'repository'
+  | 'admin'
+  | 'ai-policy'
+  | 'team'
+  | `contract:${string}`
+  /** Comment threads on one contract. */
+  | `comments:${string}`
+
+export interface QueryOptions {
+  tags: QueryTag[]
+  /** How long a response is served without revalidating. */
+  staleTime?: number
+}
+
+interface CacheEntry {
+  response?: ApiResponse<unknown>
+  updatedAt: number
+  invalidated: boolean
+  inFlight?: Promise<ApiResponse<unknown>>
+  tags: QueryTag[]
+}
+
+type Listener = (tags: QueryTag[]) => void
+
+const DEFAULT_STALE_TIME_MS = 10_000
+const MAX_AGE_MS = 5 * 60_000
+const MAX_ENTRIES = 300
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>()
+  private listeners = new Set<Listener>()
+  private owner: string | null = null
+
+  /** Read through the cache. Only successful responses are stored. */
+  fetch<T>(key: string, fetcher: () => Promise<ApiResponse<T>>, opts: QueryOptions): Promise<ApiResponse<T>> {
+    const entry = this.entries.get(key)
+    if (entry?.response && !entry.invalidated) {
+      const age = Date.now() - entry.updatedAt
+      if (age < (opts.staleTime ?? DEFAULT_STALE_TIME_MS)) {
+        return Promise.resolve(entry.response as ApiResponse<T>)
+      }
+      if (age < MAX_AGE_MS) {
+        void this.load(key, fetcher, opts.tags, true)
+        return Promise.resolve(entry.response as ApiResponse<T>)
+      }
+    }
+    return this.load(key, fetcher, opts.tags, false)
+  }
+
+  /** Mark every entry carrying one of `tags` as stale and notify subscribers. */
+  invalidate(tags: QueryTag[]) {
+    if (!tags.length) return
+    for (const entry of this.entries.values()) {
+      if (entry.tags.some((t) => tags.includes(t))) {
+        entry.invalidated = true
+        // A request started before the mutation may return pre-mutation data; don't store it.
+        entry.inFlight = undefined
+      }
+    }
+    this.emit(tags)
+  }
+
+  /** Drop everything (logout / user switch). */
+  clear() {
+    this.entries.clear()
+    this.owner = null
+  }
+
+  /** Called with the affected tags after an invalidation or a background revalidation. */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Clear the cache when the signed-in user changes, so one account never sees another's data. */
+  syncOwner() {
+    const current = tokenStore.getAccessToken() ? tokenStore.getUser()?.user_id ?? null : null
+    if (current !== this.owner) {
+      this.entries.clear()
+      this.owner = current
+    }
+  }
+
+  private load<T>(key: string, fetcher: () => Promise<ApiResponse<T>>, tags: QueryTag[], background: boolean): Promise<ApiResponse<T>> {
+    const existing = this.entries.get(key)
+    if (existing?.inFlight) return existing.inFlight as Promise<ApiResponse<T>>
+
+    const entry: CacheEntry = existing || { updatedAt: 0, invalidated: true, tags }
+    const promise: Promise<ApiResponse<T>> = fetcher().then(
+      (response) => {
+        if (entry.inFlight !== promise) return response
+        entry.inFlight = undefined
+        if (response.success) {
+          entry.response = response
+          entry.updatedAt = Date.now()
+          entry.invalidated = false
+          entry.tags = tags
+          if (background) this.emit(tags)
+        }
+        return response
+      },
+      (error) => {
+        if (entry.inFlight === promise) entry.inFlight = undefined
+        throw error
+      }
+    )
+    entry.inFlight = promise
+    if (!existing) {
+      this.entries.set(key, entry)
+      this.prune()
+    }
+    return promise
+  }
+
+  private prune() {
+    if (this.entries.size <= MAX_ENTRIES) return
+    const cutoff = Date.now() - MAX_AGE_MS
+    for (const [key, entry] of this.entries) {
+      if (!entry.inFlight && entry.updatedAt < cutoff) this.entries.delete(key)
+    }
+  }
+
+  private emit(tags: QueryTag[]) {
+    for (const listener of this.listeners) {
+      try {
+        listener(tags)
+      } catch {
+        // A broken subscriber must not block the others.
+      }
+    }
+  }
+}
+
+export const queryCache = new QueryCache()
+
+if (typeof window !== 'undefined') {
+  queryCache.syncOwner()
+  window.addEventListener('auth:logout', () => queryCache.clear())
+  window.addEventListener('auth:tokens', () => queryCache.syncOwner())
+  // Raised by the editor (and others) after writes that bypass ApiClient mutations.
+  window.addEventListener('contracts:changed', () => queryCache.invalidate(['contracts']))
+}
@@ -0,0 +1,123 @@
+/**
+ * Redline comparison of two versions of editor HTML.
+ *
+ * Blocks are aligned with `diffBlocks`. A paragraph or heading that was edited
+ * (removed and re-added at the same spot) is compared word by word, so the
+ * reader sees the words that changed rather than two whole paragraphs.
+ */
+
+import { diffBlocks, splitHtmlBlocks } from './merge3'
+
+export type RedlineRow =
+  | { type: 'equal' | 'delete' | 'insert'; html: string }
+  /** An edited block: `before` carries `<del>` marks, `after` `<ins>` marks, `inline` both. */
+  | { type: 'change'; before: string; after: string; inline: string }
+
+export interface RedlineStats {
+  inserted: number
+  deleted: number
+  changed: number
+}
+
+// Blocks whose text can be compared word by word without losing structure.
+const TEXT_BLOCK = /^<(p|h[1-6]|blockquote)\b[^>]*>/i
+
+// Below this share of common words, an edited block reads better as removed + added.
+const MIN_SIMILARITY = 0.4
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+function blockText(html: string): string {
+  if (typeof DOMParser !== 'undefined') {
+    return new DOMParser().parseFromString(html, 'text/html').body.textContent || ''
+  }
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+}
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || []
+
+/** Word-level redline of one edited block, or null when the blocks are too different. */
+function compareBlocks(before: string, after: string): Extract<RedlineRow, { type: 'change' }> | null {
+  const openBefore = before.match(TEXT_BLOCK)
+  const openAfter = after.match(TEXT_BLOCK)
+  if (!openBefore || !openAfter) return null
+
+  const a = tokenize(blockText(before))
+  const b = tokenize(blockText(after))
+  const ops = diffBlocks(a, b)
+
+  const words = (tokens: string[]) => tokens.filter((t) => t.trim()).length
+  const common = ops.filter((op) => op.type === 'equal').reduce((n, op) => n + words(op.blocks), 0)
+  if (common / Math.max(1, words(a), words(b)) < MIN_SIMILARITY) return null
+
+  let left = ''
+  let right = ''
+  let inline = ''
+  for (const op of ops) {
+    const text = escapeHtml(op.blocks.join(''))
+    if (op.type === 'equal') {
+      left += text
+      right += text
+      inline += text
+    } else if (op.type === 'delete') {
+      left += `<del>${text}</del>`
+      inline += `<del>${text}</del>`
+    } else {
+      right += `<ins>${text}</ins>`
+      inline += `<ins>${text}</ins>`
+    }
+  }
+
+  const close = (open: RegExpMatchArray) => `</${open[1].toLowerCase()}>`
+  return {
+    type: 'change',
+    before: `${openBefore[0]}${left}${close(openBefore)}`,
+    after: `${openAfter[0]}${right}${close(openAfter)}`,
+    inline: `${openAfter[0]}${inline}${close(openAfter)}`,
+  }
+}
+
+/** Rows of a redline from `beforeHtml` to `afterHtml`, in document order. */
+export function redline(beforeHtml: string, afterHtml: string): RedlineRow[] {
+  const ops = diffBlocks(splitHtmlBlocks(beforeHtml), splitHtmlBlocks(afterHtml))
+  const rows: RedlineRow[] = []
+
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i]
+    if (op.type === 'equal') {
+      rows.push(...op.blocks.map((html) => ({ type: 'equal' as const, html })))
+      continue
+    }
+    if (op.type === 'insert') {
+      rows.push(...op.blocks.map((html) => ({ type: 'insert' as const, html })))
+      continue
+    }
+
+    // Removed blocks directly followed by added ones: pair them up as edits.
+    const added = ops[i + 1]?.type === 'insert' ? ops[++i].blocks : []
+    const pairs = Math.min(op.blocks.length, added.length)
+    for (let k = 0; k < pairs; k++) {
+      const change = compareBlocks(op.blocks[k], added[k])
+      if (change) rows.push(change)
+      else rows.push({ type: 'delete', html: op.blocks[k] }, { type: 'insert', html: added[k] })
+    }
+    rows.push(...op.blocks.slice(pairs).map((html) => ({ type: 'delete' as const, html })))
+    rows.push(...added.slice(pairs).map((html) => ({ type: 'insert' as const, html })))
+  }
+  return rows
+}
+
+export function redlineStats(rows: RedlineRow[]): RedlineStats {
+  return {
+    inserted: rows.filter((r) => r.type === 'insert').length,
+    deleted: rows.filter((r) => r.type === 'delete').length,
+    changed: rows.filter((r) => r.type === 'change').length,
+  }
+}
@@ -24,6 +24,38 @@ export function sanitizeEditorHtml(html: string): string {
       'data-align',
       'data-x',
       'data-y',
+      // Tables (spans are allowed already; column widths are TipTap's own attribute)
+      'colwidth',
+      // Tracked changes (<ins>/<del>)
+      'data-change-id',
+      'data-author-id',
+      'data-author',
+      'data-date',
+      // Comment anchors
+      'data-comment-id',
+      // Clause library blocks
+      'data-clause-id',
+      'data-clause-version',
+      'data-clause-name',
+      // Merge fields
+      'data-merge-field',
+      'data-field-value',
+      // Clause numbers and cross-references
+      'data-clause-anchor',
+      'data-clause-level',
+      'data-numbering',
+      'data-clause-ref',
+      'data-ref-broken',
+      // Accepted AI rewrites
+      'data-ai-change',
+      'data-ai-instruction',
+      'data-ai-citations',
+      'data-ai-context',
+      'data-ai-author',
+      'data-ai-date',
+      // Page breaks and keep-with-next
+      'data-page-break',
+      'data-keep-with-next',
     ],
     ADD_DATA_URI_TAGS: ['img'],
     FORBID_TAGS: ['script', 'style', 'iframe', 'object', 'embed', 'link', 'meta'],
@@ -0,0 +1,255 @@
+/**
+ * Minimal runtime schema layer for backend payloads.
+ *
+ * Schemas validate what the UI relies on and pass unknown keys through untouched,
+ * so additive backend changes never break a screen. Anything that would make a
+ * page silently render empty (wrong type, missing id, non-list list) is reported
+ * as a list of issues instead.
+ */
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] }
+
+export interface Schema<T> {
+  readonly description: string
+  readonly optional?: boolean
+  parse(input: unknown, path?: string): ParseResult<T>
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+type Shape = Record<string, Schema<unknown>>
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S]
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>
+
+export type ObjectOutput<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>
+} & Record<string, unknown>
+
+/** Normalised list payload: the backend returns either a bare array or a `{ results }` envelope. */
+export interface ApiList<T> {
+  count: number
+  results: T[]
+  next?: string | null
+  previous?: string | null
+}
+
+const ok = <T>(value: T): ParseResult<T> => ({ ok: true, value })
+const fail = <T>(path: string, message: string): ParseResult<T> => ({ ok: false, issues: [{ path: path || '$', message }] })
+
+const describeValue = (input: unknown) => {
+  if (input === null) return 'null'
+  if (Array.isArray(input)) return 'array'
+  return typeof input
+}
+
+const isPlainObject = (input: unknown): input is Record<string, unknown> =>
+  !!input && typeof input === 'object' && !Array.isArray(input)
+
+const join = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path || '$'}[${key}]` : path ? `${path}.${key}` : key
+
+function define<T>(description: string, parse: (input: unknown, path: string) => ParseResult<T>): Schema<T> {
+  return { description, parse: (input, path = '') => parse(input, path) }
+}
+
+function string(): Schema<string> {
+  return define('string', (input, path) =>
+    typeof input === 'string' ? ok(input) : fail(path, `expected string, got ${describeValue(input)}`)
+  )
+}
+
+/** Primary keys: the backend mixes UUID strings and integer ids. Always normalised to string. */
+function id(): Schema<string> {
+  return define('id', (input, path) => {
+    if (typeof input === 'string' && input.trim()) return ok(input)
+    if (typeof input === 'number' && Number.isFinite(input)) return ok(String(input))
+    return fail(path, `expected id, got ${describeValue(input)}`)
+  })
+}
+
+function number(): Schema<number> {
+  return define('number', (input, path) =>
+    typeof input === 'number' && Number.isFinite(input)
+      ? ok(input)
+      : fail(path, `expected number, got ${describeValue(input)}`)
+  )
+}
+
+/** Django serialises DecimalField as a string; accept both and normalise to number. */
+function numeric(): Schema<number> {
+  return define('numeric', (input, path) => {
+    if (typeof input === 'number' && Number.isFinite(input)) return ok(input)
+    if (typeof input === 'string' && input.trim() && Number.isFinite(Number(input))) return ok(Number(input))
+    return fail(path, `expected numeric value, got ${describeValue(input)}`)
+  })
+}
+
+function boolean(): Schema<boolean> {
+  return define('boolean', (input, path) =>
+    typeof input === 'boolean' ? ok(input) : fail(path, `expected boolean, got ${describeValue(input)}`)
+  )
+}
+
+function unknown(): Schema<unknown> {
+  return define('unknown', (input) => ok(input))
+}
+
+function oneOf<const V extends readonly string[]>(values: V): Schema<V[number]> {
+  return define(`one of ${values.join('|')}`, (input, path) =>
+    typeof input === 'string' && (values as readonly string[]).includes(input)
+      ? ok(input as V[number])
+      : fail(path, `expected one of ${values.join(', ')}, got ${JSON.stringify(input)}`)
+  )
+}
+
+/** Accepts `undefined` and `null` (Django emits null for blank optional fields) and yields `undefined`. */
+function optional<T>(inner: Schema<T>): Schema<T | undefined> & { readonly optional: true } {
+  return {
+    description: `${inner.description}?`,
+    optional: true,
+    parse: (input, path = '') => (input === undefined || input === null ? ok(undefined) : inner.parse(input, path)),
+  }
+}
+
+function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return define(`${inner.description} | null`, (input, path) => (input === null ? ok(null) : inner.parse(input, path)))
+}
+
+/** Optional key that keeps an explicit `null` (for `field?: T | null` interfaces). */
+function nullish<T>(inner: Schema<T>): Schema<T | null | undefined> & { readonly optional: true } {
+  return {
+    description: `${inner.description} | null?`,
+    optional: true,
+    parse: (input, path = '') => {
+      if (input === undefined) return ok(undefined)
+      if (input === null) return ok(null)
+      return inner.parse(input, path)
+    },
+  }
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return define(`${item.description}[]`, (input, path) => {
+    if (!Array.isArray(input)) return fail(path, `expected array, got ${describeValue(input)}`)
+    const out: T[] = []
+    const issues: SchemaIssue[] = []
+    input.forEach((entry, idx) => {
+      const r = item.parse(entry, join(path, idx))
+      if (r.ok) out.push(r.value)
+      else issues.push(...r.issues)
+    })
+    return issues.length ? { ok: false, issues } : ok(out)
+  })
+}
+
+function object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+  return define('object', (input, path) => {
+    if (!isPlainObject(input)) return fail(path, `expected object, got ${describeValue(input)}`)
+    const out: Record<string, unknown> = { ...input }
+    const issues: SchemaIssue[] = []
+    for (const [key, schema] of Object.entries(shape)) {
+      const r = schema.parse(input[key], join(path, key))
+      if (!r.ok) {
+        issues.push(...r.issues)
+        continue
+      }
+      if (r.value === undefined) delete out[key]
+      else out[key] = r.value
+    }
+    return issues.length ? { ok: false, issues } : ok(out as ObjectOutput<S>)
+  })
+}
+
+function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return define(`Record<string, ${value.description}>`, (input, path) => {
+    if (!isPlainObject(input)) return fail(path, `expected object, got ${describeValue(input)}`)
+    const out: Record<string, T> = {}
+    const issues: SchemaIssue[] = []
+    for (const [key, entry] of Object.entries(input)) {
+      const r = value.parse(entry, join(path, key))
+      if (r.ok) out[key] = r.value
+      else issues.push(...r.issues)
+    }
+    return issues.length ? { ok: false, issues } : ok(out)
+  })
+}
+
+/**
+ * List endpoint payload. Accepts `T[]`, `{ results: T[] }` (DRF pagination and our
+ * custom list views) and `{ data: T[] }`, and always yields an `ApiList<T>`.
+ */
+function list<T>(item: Schema<T>, opts?: { key?: string }): Schema<ApiList<T>> {
+  const items = array(item)
+  const key = opts?.key || 'results'
+  return define(`list<${item.description}>`, (input, path) => {
+    let rows: unknown = input
+    let envelope: Record<string, unknown> | null = null
+    if (isPlainObject(input)) {
+      envelope = input
+      rows = Array.isArray(input[key]) ? input[key] : Array.isArray(input.data) ? input.data : undefined
+      if (rows === undefined) return fail(join(path, key), `expected list envelope with "${key}" array`)
+    }
+    const r = items.parse(rows, envelope ? join(path, key) : path)
+    if (!r.ok) return r
+    const count = envelope && typeof envelope.count === 'number' ? envelope.count : r.value.length
+    const next = envelope && typeof envelope.next === 'string' ? envelope.next : null
+    const previous = envelope && typeof envelope.previous === 'string' ? envelope.previous : null
+    return ok({ ...(envelope || {}), count, results: r.value, next, previous })
+  })
+}
+
+/** Accepts the first matching alternative. */
+function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  return define<A | B>(`${a.description} | ${b.description}`, (input, path) => {
+    const ra = a.parse(input, path)
+    if (ra.ok) return ra
+    const rb = b.parse(input, path)
+    if (rb.ok) return rb
+    return { ok: false, issues: [...ra.issues, ...rb.issues] }
+  })
+}
+
+/** Runs `inner` then maps the parsed value (e.g. unwrapping `{ contract: {...} }`). */
+function map<T, U>(inner: Schema<T>, fn: (value: T) => U): Schema<U> {
+  return define(inner.description, (input, path) => {
+    const r = inner.parse(input, path)
+    return r.ok ? ok(fn(r.value)) : r
+  })
+}
+
+/** Runs `inner` on a pre-processed input. */
+function preprocess<T>(fn: (input: unknown) => unknown, inner: Schema<T>): Schema<T> {
+  return define(inner.description, (input, path) => inner.parse(fn(input), path))
+}
+
+export const s = {
+  string,
+  id,
+  number,
+  numeric,
+  boolean,
+  unknown,
+  oneOf,
+  optional,
+  nullable,
+  nullish,
+  array,
+  object,
+  record,
+  list,
+  union,
+  map,
+  preprocess,
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[], limit: number = 3): string {
+  const head = issues.slice(0, limit).map((i) => `${i.path}: ${i.message}`)
+  const more = issues.length > limit ? ` (+${issues.length - limit} more)` : ''
+  return `${head.join('; ')}${more}`
+}
@@ -0,0 +1,139 @@
+/**
+ * Keeps the signed-in session alive ahead of time instead of waiting for a 401.
+ *
+ * - Refreshes the access token shortly before its `exp`. Refreshes are
+ *   single-flight across tabs (`refreshSession` in `./http`), so every open tab
+ *   can schedule one and only the first actually calls the backend.
+ * - Tracks when the session ends for good (the refresh token's `exp`), warns
+ *   shortly before, and signs out at that moment in every tab.
+ *
+ * Tokens without an `exp` claim are left to the refresh-on-401 interceptor.
+ */
+
+import { decodeJwt, endSession, refreshSession, tokenExpiresAt, tokenStore } from './http'
+
+export interface SessionStatus {
+  /** When the session ends (refresh token expiry, epoch ms). Null when signed out or unknown. */
+  endsAt: number | null
+  /** Within `SESSION_WARNING_MS` of `endsAt`. */
+  expiring: boolean
+  /** "Stay signed in" did not move `endsAt`: the backend doesn't rotate refresh tokens, so only a new login helps. */
+  cannotExtend: boolean
+}
+
+type Listener = () => void
+
+/** Refresh this long before the access token expires (less for very short-lived tokens). */
+const REFRESH_LEAD_MS = 60_000
+/** Retry delay after a failed proactive refresh (offline, server error). */
+const RETRY_MS = 30_000
+/** Show the expiry warning this long before the session ends. */
+export const SESSION_WARNING_MS = 2 * 60_000
+/** setTimeout overflows past ~24.8 days; longer waits are re-planned when the timer fires. */
+const MAX_TIMER_MS = 2 ** 31 - 1
+
+const isBrowser = () => typeof window !== 'undefined'
+
+const SIGNED_OUT: SessionStatus = { endsAt: null, expiring: false, cannotExtend: false }
+
+export class SessionMonitor {
+  private status: SessionStatus = SIGNED_OUT
+  private listeners = new Set<Listener>()
+  private timers: ReturnType<typeof setTimeout>[] = []
+  private started = false
+
+  /** Current status. Stable between changes (safe for `useSyncExternalStore`). */
+  getStatus(): SessionStatus {
+    return this.status
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  start() {
+    if (this.started || !isBrowser()) return
+    this.started = true
+    const replan = () => this.plan()
+    // Local and cross-tab token changes both arrive as `auth:tokens`.
+    window.addEventListener('auth:tokens', replan)
+    window.addEventListener('auth:logout', replan)
+    // Background tabs throttle timers and laptops sleep: re-check when the user is back.
+    window.addEventListener('online', replan)
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') this.plan()
+    })
+    this.plan()
+  }
+
+  /** "Stay signed in": refresh now. Resolves true when the session end moved later. */
+  async extend(): Promise<boolean> {
+    const before = this.status.endsAt
+    const ok = await refreshSession()
+    const after = tokenExpiresAt(tokenStore.getRefreshToken())
+    const extended = ok && after !== null && (before === null || after > before)
+    if (!extended) this.setStatus({ ...this.status, cannotExtend: true })
+    return extended
+  }
+
+  private plan() {
+    for (const timer of this.timers) clearTimeout(timer)
+    this.timers = []
+
+    const access = tokenStore.getAccessToken()
+    if (!access) {
+      this.setStatus(SIGNED_OUT)
+      return
+    }
+    const now = Date.now()
+
+    const accessExpiresAt = tokenExpiresAt(access)
+    if (accessExpiresAt !== null) {
+      const issuedAt = decodeJwt(access)?.iat
+      const lifetime = typeof issuedAt === 'number' ? accessExpiresAt - issuedAt * 1000 : REFRESH_LEAD_MS * 4
+      const lead = Math.min(REFRESH_LEAD_MS, Math.max(0, lifetime / 4))
+      // A little jitter spreads tabs out; the shared refresh lock makes the rest wait anyway.
+      this.at(accessExpiresAt - lead - Math.random() * (lead / 4), () => void this.refreshAhead(accessExpiresAt))
+    }
+
+    const endsAt = tokenExpiresAt(tokenStore.getRefreshToken())
+    const cannotExtend = this.status.endsAt === endsAt && this.status.cannotExtend
+    this.setStatus({ endsAt, expiring: endsAt !== null && endsAt - now <= SESSION_WARNING_MS, cannotExtend })
+    if (endsAt !== null) {
+      this.at(endsAt - SESSION_WARNING_MS, () => this.setStatus({ ...this.status, expiring: true }))
+      this.at(endsAt, () => endSession())
+    }
+  }
+
+  private async refreshAhead(accessExpiresAt: number) {
+    const ok = await refreshSession()
+    // Success re-plans through `auth:tokens`. On failure keep trying while the token
+    // still works; after that the refresh interceptor handles the next 401.
+    if (!ok && tokenStore.getAccessToken() && Date.now() + RETRY_MS < accessExpiresAt) {
+      this.at(Date.now() + RETRY_MS, () => void this.refreshAhead(accessExpiresAt))
+    }
+  }
+
+  /** Run `fn` at epoch `when` (immediately if already past). */
+  private at(when: number, fn: () => void) {
+    const delay = Math.max(0, when - Date.now())
+    if (delay > MAX_TIMER_MS) {
+      this.timers.push(setTimeout(() => this.plan(), MAX_TIMER_MS))
+      return
+    }
+    this.timers.push(setTimeout(fn, delay))
+  }
+
+  private setStatus(next: SessionStatus) {
+    const prev = this.status
+    if (prev.endsAt === next.endsAt && prev.expiring === next.expiring && prev.cannotExtend === next.cannotExtend) return
+    this.status = next
+    for (const listener of this.listeners) listener()
+  }
+}
+
+/** Started by `AuthProvider`. */
+export const sessionMonitor = new SessionMonitor()
@@ -0,0 +1,52 @@
+/**
+ * Tables as plain text, for `rendered_text` and the TXT download.
+ *
+ * Columns are padded to a common width and separated by ` | `; header rows are
+ * underlined with a `-+-` rule, so the table still reads as one in a plain
+ * text viewer.
+ */
+
+// Longer cell text wraps onto more lines, so one long cell does not push every row off screen.
+const MAX_COLUMN_WIDTH = 40
+
+function wrapCell(text: string, width: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (let word of text.split(' ').filter(Boolean)) {
+    while (word.length > width) {
+      if (line) lines.push(line)
+      lines.push(word.slice(0, width))
+      word = word.slice(width)
+      line = ''
+    }
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  if (line || !lines.length) lines.push(line)
+  return lines
+}
+
+/** `rows` is a full grid (spanned cells empty); the first `headerRows` rows are headings. */
+export function formatTextTable(rows: string[][], headerRows = 0): string {
+  const columns = Math.max(0, ...rows.map((r) => r.length))
+  if (!columns) return ''
+  const cells = rows.map((r) => Array.from({ length: columns }, (_, i) => (r[i] || '').replace(/\s+/g, ' ').trim()))
+  const widths = Array.from({ length: columns }, (_, i) =>
+    Math.min(MAX_COLUMN_WIDTH, Math.max(1, ...cells.map((r) => r[i].length)))
+  )
+
+  const lines: string[] = []
+  cells.forEach((row, index) => {
+    const wrapped = row.map((cell, i) => wrapCell(cell, widths[i]))
+    const height = Math.max(...wrapped.map((w) => w.length))
+    for (let l = 0; l < height; l++) {
+      lines.push(wrapped.map((w, i) => (w[l] || '').padEnd(widths[i])).join(' | ').trimEnd())
+    }
+    if (index === headerRows - 1 && index < cells.length - 1) lines.push(widths.map((w) => '-'.repeat(w)).join('-+-'))
+  })
+  return lines.join('\n')
+}
@@ -0,0 +1,440 @@
+/**
+ * Resumable, chunked uploads that outlive the page that started them.
+ *
+ * `uploadManager` is a module singleton, so uploads keep running while the user
+ * navigates between screens (the tray in `DashboardLayout` shows them). Each
+ * file is sent in chunks to an upload session:
+ *
+ * - every chunk is retried on its own (network errors, 408/429/5xx), waiting for
+ *   the browser to come back online when it is offline
+ * - chunks go through the shared `http` pipeline, so an expired access token is
+ *   refreshed mid-upload and the chunk replayed
+ * - pausing aborts the current chunk; resuming asks the server how much it has
+ * - session ids are kept in `localStorage`, so after a reload the user can pick
+ *   the same file again and continue where it stopped
+ *
+ * Backends without upload sessions fall back to one request per file (no pause).
+ */
+
+import { ApiClient, type ReviewContractDetail, type UploadPurpose, type UploadSession } from './api-client'
+
+export type UploadStatus =
+  | 'queued'
+  | 'uploading'
+  | 'completing'
+  | 'paused'
+  | 'interrupted'
+  | 'failed'
+  | 'done'
+  | 'canceled'
+
+export interface UploadOptions {
+  purpose: UploadPurpose
+  /** Review uploads only. */
+  title?: string
+  analyze?: boolean
+}
+
+export interface UploadTask {
+  id: string
+  purpose: UploadPurpose
+  fileName: string
+  size: number
+  loaded: number
+  status: UploadStatus
+  error?: string
+  /** False when the backend only accepts whole files; such uploads cannot be paused. */
+  resumable: boolean
+  startedAt: number
+  result?: { key?: string; reviewContract?: ReviewContractDetail }
+}
+
+interface UploadRecord extends UploadTask {
+  options: UploadOptions
+  lastModified: number
+  file?: File
+  uploadId?: string
+  controller?: AbortController
+}
+
+type PersistedUpload = Pick<
+  UploadRecord,
+  'id' | 'purpose' | 'options' | 'fileName' | 'size' | 'lastModified' | 'uploadId' | 'loaded' | 'startedAt'
+>
+
+type Listener = (tasks: UploadTask[]) => void
+
+const STORAGE_KEY = 'clm:uploads:sessions:v1'
+const CHUNK_SIZE = 8 * 1024 * 1024
+const MAX_CHUNK_RETRIES = 5
+const RETRYABLE_STATUSES = new Set([0, 408, 429, 500, 502, 503, 504])
+
+const isBrowser = () => typeof window !== 'undefined'
+
+class PausedError extends Error {
+  constructor() {
+    super('Upload paused')
+    this.name = 'PausedError'
+  }
+}
+
+export class UploadManager {
+  private records = new Map<string, UploadRecord>()
+  private listeners = new Set<Listener>()
+  private snapshot: UploadTask[] = []
+  // The record being transferred, until its run has fully unwound (a paused run may still be finishing a request).
+  private running: UploadRecord | null = null
+
+  constructor() {
+    for (const saved of readPersisted()) {
+      this.records.set(saved.id, { ...saved, status: 'interrupted', resumable: true })
+    }
+    this.snapshot = this.buildSnapshot()
+  }
+
+  /** Current tasks, oldest first. Stable between changes (safe for `useSyncExternalStore`). */
+  list(): UploadTask[] {
+    return this.snapshot
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Queue a file; returns the task id. */
+  add(file: File, options: UploadOptions): string {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+    this.records.set(id, {
+      id,
+      purpose: options.purpose,
+      options,
+      fileName: file.name,
+      size: file.size,
+      lastModified: file.lastModified,
+      file,
+      loaded: 0,
+      status: 'queued',
+      resumable: true,
+      startedAt: Date.now(),
+    })
+    this.changed()
+    void this.pump()
+    return id
+  }
+
+  pause(id: string) {
+    const record = this.records.get(id)
+    if (!record || !record.resumable) return
+    if (record.status === 'queued') {
+      record.status = 'paused'
+      this.changed()
+      return
+    }
+    if (record.status !== 'uploading') return
+    record.status = 'paused'
+    record.controller?.abort()
+    this.changed()
+  }
+
+  /**
+   * Continue a paused, failed or interrupted upload. Interrupted uploads (from a
+   * previous page load) need the same file again; returns an error message otherwise.
+   */
+  resume(id: string, file?: File): string | null {
+    const record = this.records.get(id)
+    if (!record || !['paused', 'failed', 'interrupted'].includes(record.status)) return null
+    if (file) {
+      if (file.name !== record.fileName || file.size !== record.size || file.lastModified !== record.lastModified) {
+        return `That is not the same file as “${record.fileName}”.`
+      }
+      record.file = file
+    }
+    if (!record.file) return `Select “${record.fileName}” again to resume.`
+    record.status = 'queued'
+    record.error = undefined
+    this.changed()
+    void this.pump()
+    return null
+  }
+
+  cancel(id: string) {
+    const record = this.records.get(id)
+    if (!record || record.status === 'done' || record.status === 'canceled') return
+    record.status = 'canceled'
+    record.controller?.abort()
+    if (record.uploadId) void new ApiClient().abortUploadSession(record.uploadId)
+    this.changed()
+  }
+
+  /** Remove a finished (or cancelled) task from the list; unfinished ones are cancelled first. */
+  dismiss(id: string) {
+    const record = this.records.get(id)
+    if (!record) return
+    if (record.status !== 'done' && record.status !== 'canceled') this.cancel(id)
+    this.records.delete(id)
+    this.changed()
+  }
+
+  clearFinished() {
+    for (const record of this.records.values()) {
+      if (record.status === 'done' || record.status === 'canceled') this.records.delete(record.id)
+    }
+    this.changed()
+  }
+
+  /** Drop everything without contacting the server (the session is already gone). */
+  reset() {
+    for (const record of this.records.values()) record.controller?.abort()
+    this.records.clear()
+    this.changed()
+  }
+
+  // Uploads run one at a time so a large file gets the whole connection.
+  private async pump() {
+    if (this.running) return
+    const next = [...this.records.values()].find((r) => r.status === 'queued')
+    if (!next) return
+
+    const controller = new AbortController()
+    this.running = next
+    next.controller = controller
+    next.status = 'uploading'
+    this.changed()
+
+    try {
+      const result = await this.transfer(next, controller.signal)
+      // Cancelled while completing: the status stays as cancel left it.
+      if (controller.signal.aborted) return
+      next.result = result
+      next.status = 'done'
+      next.loaded = next.size
+      next.uploadId = undefined
+    } catch (error) {
+      // Pause and cancel abort the controller and have already set the status.
+      if (!controller.signal.aborted) {
+        next.status = 'failed'
+        next.error = error instanceof Error ? error.message : 'Upload failed'
+      }
+    } finally {
+      if (next.controller === controller) next.controller = undefined
+      this.running = null
+      this.changed()
+      void this.pump()
+    }
+  }
+
+  private async transfer(record: UploadRecord, signal: AbortSignal): Promise<UploadTask['result']> {
+    const file = record.file
+    if (!file) throw new Error(`Select “${record.fileName}” again to resume.`)
+    const client = new ApiClient()
+
+    let session: UploadSession | null = null
+    if (record.uploadId) {
+      const existing = await client.getUploadSession(record.uploadId)
+      if (existing.success && existing.data) session = existing.data
+      else if (existing.status === 404 || existing.status === 410) record.uploadId = undefined // expired: start over
+      else throw new Error(existing.error || 'Could not resume the upload')
+    }
+
+    if (!session) {
+      const created = await client.createUploadSession({
+        purpose: record.purpose,
+        filename: file.name,
+        size: file.size,
+        content_type: file.type || 'application/octet-stream',
+        chunk_size: CHUNK_SIZE,
+        title: record.options.title,
+        analyze: record.options.analyze,
+      })
+      if (!created.success || !created.data) {
+        if (created.status === 404 || created.status === 405) return this.transferWhole(record, file, client, signal)
+        throw new Error(created.error || 'Could not start the upload')
+      }
+      session = created.data
+      record.uploadId = session.upload_id
+    }
+
+    const uploadId = session.upload_id
+    const chunkSize = session.chunk_size > 0 ? session.chunk_size : CHUNK_SIZE
+    let offset = session.received_bytes
+    record.loaded = offset
+    this.changed()
+
+    while (offset < file.size) {
+      if (signal.aborted) throw new PausedError()
+      const chunk = file.slice(offset, Math.min(offset + chunkSize, file.size))
+      const next = await this.sendChunk(client, record, uploadId, chunk, offset, signal)
+      offset = next.received_bytes
+      record.loaded = offset
+      this.changed()
+    }
+
+    record.status = 'completing'
+    this.changed()
+    if (record.purpose === 'review') {
+      const res = await client.completeReviewUploadSession(uploadId)
+      if (!res.success || !res.data) throw new Error(res.error || 'Could not finish the upload')
+      return { reviewContract: res.data.review_contract }
+    }
+    const res = await client.completePrivateUploadSession(uploadId)
+    if (!res.success || !res.data) throw new Error(res.error || 'Could not finish the upload')
+    return { key: res.data.key }
+  }
+
+  private async sendChunk(
+    client: ApiClient,
+    record: UploadRecord,
+    uploadId: string,
+    chunk: Blob,
+    offset: number,
+    signal: AbortSignal
+  ): Promise<UploadSession> {
+    for (let attempt = 0; ; attempt++) {
+      const res = await client.uploadChunk(uploadId, chunk, offset, record.size, {
+        signal,
+        onProgress: ({ loaded }) => {
+          record.loaded = offset + loaded
+          this.changed(false)
+        },
+      })
+      if (signal.aborted) throw new PausedError()
+      if (res.success && res.data) return res.data
+
+      if (res.status === 409) {
+        // Offset mismatch (e.g. a chunk landed but its response was lost): continue from the server's count.
+        const current = await client.getUploadSession(uploadId)
+        if (current.success && current.data) return current.data
+      }
+      if (!RETRYABLE_STATUSES.has(res.status) || attempt >= MAX_CHUNK_RETRIES) {
+        throw new Error(res.status === 401 ? 'Session expired. Sign in again, then resume.' : res.error || 'Upload failed')
+      }
+      record.loaded = offset
+      this.changed()
+      await waitBeforeRetry(attempt, signal)
+    }
+  }
+
+  /** Single request for backends without upload sessions. Not resumable. */
+  private async transferWhole(
+    record: UploadRecord,
+    file: File,
+    client: ApiClient,
+    signal: AbortSignal
+  ): Promise<UploadTask['result']> {
+    record.resumable = false
+    const onProgress = ({ loaded }: { loaded: number }) => {
+      record.loaded = loaded
+      this.changed(false)
+    }
+    if (record.purpose === 'review') {
+      const res = await client.uploadReviewContractWithProgress(file, {
+        title: record.options.title,
+        analyze: record.options.analyze,
+        onProgress,
+        signal,
+      })
+      if (!res.success || !res.data) throw new Error(res.error || 'Upload failed')
+      return { reviewContract: res.data.review_contract }
+    }
+    const res = await client.uploadPrivateUploadWithProgress(file, { onProgress, signal })
+    if (!res.success || !res.data) throw new Error(res.error || 'Upload failed')
+    return { key: res.data.key }
+  }
+
+  private buildSnapshot(): UploadTask[] {
+    return [...this.records.values()]
+      .sort((a, b) => a.startedAt - b.startedAt)
+      .map(({ id, purpose, fileName, size, loaded, status, error, resumable, startedAt, result }) => ({
+        id,
+        purpose,
+        fileName,
+        size,
+        loaded,
+        status,
+        error,
+        resumable,
+        startedAt,
+        result,
+      }))
+  }
+
+  /** Rebuild the snapshot, notify, and (unless it's only progress) persist resumable sessions. */
+  private changed(persist = true) {
+    this.snapshot = this.buildSnapshot()
+    if (persist) {
+      writePersisted(
+        [...this.records.values()]
+          .filter((r) => r.uploadId && r.resumable && r.status !== 'done' && r.status !== 'canceled')
+          .map(({ id, purpose, options, fileName, size, lastModified, uploadId, loaded, startedAt }) => ({
+            id,
+            purpose,
+            options,
+            fileName,
+            size,
+            lastModified,
+            uploadId,
+            loaded,
+            startedAt,
+          }))
+      )
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener(this.snapshot)
+      } catch {
+        // A broken subscriber must not block the others.
+      }
+    }
+  }
+}
+
+function readPersisted(): PersistedUpload[] {
+  if (!isBrowser()) return []
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(parsed) ? parsed.filter((p) => p && typeof p.id === 'string' && typeof p.uploadId === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+function writePersisted(entries: PersistedUpload[]) {
+  if (!isBrowser()) return
+  try {
+    if (entries.length) localStorage.setItem(STORAGE_KEY, JSON.stringify(entries))
+    else localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // ignore quota errors; the upload itself is unaffected
+  }
+}
+
+/** Exponential backoff (1s, 2s, 4s … capped at 15s); while offline, wait for the connection instead. */
+function waitBeforeRetry(attempt: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false
+    const done = () => {
+      clearTimeout(timer)
+      window.removeEventListener('online', done)
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      window.removeEventListener('online', done)
+      reject(new PausedError())
+    }
+    const timer = offline ? undefined : setTimeout(done, Math.min(15_000, 1000 * 2 ** attempt))
+    if (offline) window.addEventListener('online', done, { once: true })
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export const uploadManager = new UploadManager()
+
+if (isBrowser()) {
+  // Upload sessions belong to the signed-in user.
+  window.addEventListener('auth:logout', () => uploadManager.reset())
+}
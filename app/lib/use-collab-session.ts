@@ -0,0 +1,189 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { Node as PmNode } from '@tiptap/pm/model'
+import { prosemirrorToYXmlFragment } from '@tiptap/y-tiptap'
+import { WebsocketProvider } from 'y-websocket'
+import * as Y from 'yjs'
+import { COLLAB_URL } from './env'
+import { tokenStore } from './http'
+
+// ==================== Types ====================
+
+/**
+ * - `off`: collaboration is not configured (no `NEXT_PUBLIC_COLLAB_URL`) or nobody is signed in
+ * - `connecting`: waiting for the first sync; the editor should not be shown yet
+ * - `live` / `reconnecting`: editing the shared document; edits made while reconnecting merge on return
+ * - `unavailable`: the first sync did not complete in time; edit alone with the regular autosave
+ */
+export type CollabStatus = 'off' | 'connecting' | 'live' | 'reconnecting' | 'unavailable'
+
+export interface CollabUser {
+  id: string
+  name: string
+  color: string
+}
+
+export interface CollabPeer extends CollabUser {
+  /** Yjs client id; one per open tab. */
+  clientId: number
+  self: boolean
+}
+
+export interface CollabSession {
+  doc: Y.Doc
+  provider: WebsocketProvider
+  user: CollabUser
+}
+
+export interface CollabState {
+  status: CollabStatus
+  session: CollabSession | null
+  peers: CollabPeer[]
+  /**
+   * Whether this tab persists the document. Exactly one connected tab (the lowest
+   * client id) saves a shared document; everyone saves when editing alone.
+   */
+  isSaver: boolean
+}
+
+// ==================== Helpers ====================
+
+const FIRST_SYNC_TIMEOUT_MS = 4000
+
+/**
+ * Y.Map next to the document fragment. The saving tab puts the `EditBase` it
+ * last saved under `saved`, so the others know what the server holds.
+ */
+export const COLLAB_META = 'meta'
+
+const COLORS = ['#e11d48', '#2563eb', '#059669', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d']
+
+function colorFor(id: string): string {
+  let hash = 0
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0
+  return COLORS[Math.abs(hash) % COLORS.length]
+}
+
+function readPeers(provider: WebsocketProvider): CollabPeer[] {
+  const self = provider.awareness.clientID
+  const peers: CollabPeer[] = []
+  provider.awareness.getStates().forEach((state, clientId) => {
+    const user = state?.user as Partial<CollabUser> | undefined
+    if (!user?.id) return
+    peers.push({ id: user.id, name: user.name || 'Someone', color: user.color || colorFor(user.id), clientId, self: clientId === self })
+  })
+  return peers.sort((a, b) => a.clientId - b.clientId)
+}
+
+/**
+ * Fill an empty shared document from the server copy.
+ *
+ * The content is written as client 0, so two tabs that seed the same room at the
+ * same time produce identical updates and Yjs keeps one copy instead of two.
+ * That only holds when both seed the same server copy, which is why the seed is
+ * always `rendered_html` as loaded and never a local draft.
+ */
+export function seedCollabDoc(doc: Y.Doc, content: PmNode, field = 'default'): boolean {
+  if (doc.getXmlFragment(field).length > 0) return false
+  const seed = new Y.Doc()
+  seed.clientID = 0
+  prosemirrorToYXmlFragment(content, seed.getXmlFragment(field))
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(seed))
+  seed.destroy()
+  return true
+}
+
+// ==================== Hook ====================
+
+interface SessionState {
+  key: string
+  status: CollabStatus
+  session: CollabSession | null
+  peers: CollabPeer[]
+}
+
+/**
+ * Joins the collaborative editing room of a contract (`contract-<id>`) on the
+ * y-websocket server at `COLLAB_URL`, with the signed-in user as presence.
+ */
+export function useCollabSession(contractId: string, user: { id: string; name: string } | null): CollabState {
+  const userId = user?.id || ''
+  const userName = user?.name || ''
+  const key = COLLAB_URL && contractId && userId ? `${contractId}:${userId}` : ''
+  const [state, setState] = useState<SessionState>({ key: '', status: 'off', session: null, peers: [] })
+
+  useEffect(() => {
+    if (!key) return
+    const collabUser: CollabUser = { id: userId, name: userName, color: colorFor(userId) }
+    const doc = new Y.Doc()
+    const provider = new WebsocketProvider(COLLAB_URL, `contract-${contractId}`, doc, {
+      connect: false,
+      params: { token: tokenStore.getAccessToken() || '' },
+    })
+    provider.awareness.setLocalStateField('user', collabUser)
+    const session: CollabSession = { doc, provider, user: collabUser }
+    let synced = false
+    let closed = false
+
+    const update = (status?: CollabStatus) =>
+      setState((prev) => ({
+        key,
+        status: status ?? (prev.key === key ? prev.status : 'connecting'),
+        session,
+        peers: readPeers(provider),
+      }))
+
+    const onSync = (isSynced: boolean) => {
+      if (!isSynced || closed) return
+      synced = true
+      update('live')
+    }
+    const onStatus = ({ status }: { status: 'connected' | 'disconnected' | 'connecting' }) => {
+      if (closed) return
+      if (!synced) update('connecting')
+      else if (status !== 'connected') update('reconnecting')
+    }
+    const onAwareness = () => {
+      if (!closed) update()
+    }
+    // Reconnects should present the current token, not the one we started with.
+    const onTokens = () => {
+      provider.params.token = tokenStore.getAccessToken() || ''
+    }
+
+    provider.on('sync', onSync)
+    provider.on('status', onStatus)
+    provider.awareness.on('change', onAwareness)
+    window.addEventListener('auth:tokens', onTokens)
+
+    const timer = window.setTimeout(() => {
+      if (synced || closed) return
+      closed = true
+      provider.destroy()
+      doc.destroy()
+      setState({ key, status: 'unavailable', session: null, peers: [] })
+    }, FIRST_SYNC_TIMEOUT_MS)
+
+    provider.connect()
+
+    return () => {
+      window.clearTimeout(timer)
+      window.removeEventListener('auth:tokens', onTokens)
+      if (closed) return
+      closed = true
+      provider.awareness.off('change', onAwareness)
+      provider.destroy()
+      doc.destroy()
+    }
+  }, [key, contractId, userId, userName])
+
+  if (!key) return { status: 'off', session: null, peers: [], isSaver: true }
+  if (state.key !== key) return { status: 'connecting', session: null, peers: [], isSaver: false }
+
+  const { status, session, peers } = state
+  const self = session?.provider.awareness.clientID
+  const isSaver =
+    status === 'live' ? peers.length === 0 || peers[0].clientId === self : status !== 'connecting'
+  return { status, session: status === 'unavailable' ? null : session, peers, isSaver }
+}
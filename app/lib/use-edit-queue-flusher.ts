@@ -0,0 +1,25 @@
+'use client'
+
+import { useEffect } from 'react'
+import { editQueue, flushEditQueue } from './edit-queue'
+
+const RETRY_INTERVAL_MS = 30_000
+
+/**
+ * Push queued contract edits in the background: on mount, whenever the browser
+ * comes back online, and periodically while anything is still queued.
+ */
+export function useEditQueueFlusher() {
+  useEffect(() => {
+    const flush = () => {
+      if (editQueue.list().length) void flushEditQueue()
+    }
+    flush()
+    window.addEventListener('online', flush)
+    const timer = window.setInterval(flush, RETRY_INTERVAL_MS)
+    return () => {
+      window.removeEventListener('online', flush)
+      window.clearInterval(timer)
+    }
+  }, [])
+}
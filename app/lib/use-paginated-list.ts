@@ -0,0 +1,184 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { ApiList, ApiResponse, PageParams } from './api-client'
+import type { ApiError } from './api-error'
+import type { QueryTag } from './query-cache'
+import { useQueryRevision } from './use-query-revision'
+
+export const DEFAULT_PAGE_SIZE = 25
+
+/** One page request; the caller adds its filters and calls the list method. */
+export type PageFetcher<T> = (page: Required<PageParams>) => Promise<ApiResponse<ApiList<T>>>
+
+export interface PaginatedListOptions {
+  pageSize?: number
+  /**
+   * `scroll` accumulates pages as `loadMore` is called (infinite scroll);
+   * `pages` shows one page at a time (`setPage`). Defaults to `scroll`.
+   */
+  mode?: 'scroll' | 'pages'
+  /** Initial sort order (`-updated_at`). */
+  ordering?: string
+  /** Serialised filters. A change starts over at the first page. */
+  filterKey?: string
+  /** Invalidating any of these re-reads the rows on screen without losing the scroll position. */
+  tags?: QueryTag[]
+  /** Nothing is requested while false (e.g. until the user's role is known). Defaults to true. */
+  enabled?: boolean
+}
+
+export interface PaginatedList<T> {
+  items: T[]
+  /** Rows across all pages (`ApiList.count`). */
+  total: number
+  /** The first page (or a new page in `pages` mode) is loading. */
+  loading: boolean
+  loadingMore: boolean
+  error: string | null
+  apiError: ApiError | null
+  hasMore: boolean
+  loadMore(): void
+  /** Re-read the rows on screen (focus, polling, "Refresh"). */
+  reload(): void
+  /** 1-based, for `pages` mode. */
+  page: number
+  pageCount: number
+  setPage(page: number): void
+  ordering: string
+  setOrdering(ordering: string): void
+}
+
+/**
+ * Server-paginated list state for a screen: windowed `limit`/`offset` reads,
+ * total counts and server-side ordering. Responses that arrive after the
+ * filters, order or page changed are dropped.
+ */
+export function usePaginatedList<T>(fetchPage: PageFetcher<T>, options: PaginatedListOptions = {}): PaginatedList<T> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+  const mode = options.mode ?? 'scroll'
+  const filterKey = options.filterKey ?? ''
+  const enabled = options.enabled ?? true
+
+  const [items, setItems] = useState<T[]>([])
+  const [total, setTotal] = useState(0)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [apiError, setApiError] = useState<ApiError | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [ordering, setOrderingState] = useState(options.ordering ?? '')
+  const [page, setPageState] = useState(1)
+  /** Filters / order / page of the last settled response (see `windowKey`). */
+  const [settledKey, setSettledKey] = useState<string | null>(null)
+  const [lastFilterKey, setLastFilterKey] = useState(filterKey)
+
+  // New filters start over at page 1 (adjusted during render, before the load effect runs).
+  if (filterKey !== lastFilterKey) {
+    setLastFilterKey(filterKey)
+    setPageState(1)
+  }
+
+  const fetchRef = useRef(fetchPage)
+  useEffect(() => {
+    fetchRef.current = fetchPage
+  })
+
+  const requestRef = useRef(0)
+  const loadedRef = useRef(0)
+
+  /**
+   * Read `limit` rows from `offset`; `append` adds them to the rows on screen.
+   * `windowKey` marks which filters / order / page the response settles.
+   */
+  const read = useCallback(
+    async (offset: number, limit: number, append: boolean, windowKey: string) => {
+      const request = ++requestRef.current
+      let response: ApiResponse<ApiList<T>>
+      try {
+        response = await fetchRef.current({ limit, offset, ordering })
+      } catch (e) {
+        response = { success: false, status: 0, error: e instanceof Error ? e.message : 'Failed to load' }
+      }
+      if (request !== requestRef.current) return
+
+      if (response.success && response.data) {
+        const rows = response.data.results
+        setItems((current) => {
+          const next = append ? [...current, ...rows] : rows
+          loadedRef.current = next.length
+          return next
+        })
+        setTotal(response.data.count)
+        setError(null)
+        setApiError(null)
+      } else {
+        setError(response.error || 'Failed to load')
+        setApiError(response.apiError ?? null)
+      }
+      setSettledKey(windowKey)
+      setLoadingMore(false)
+    },
+    [ordering]
+  )
+
+  const pageOffset = mode === 'pages' ? (page - 1) * pageSize : 0
+  // Loading until a response for the current filters / order / page arrives; reloads of the same window stay quiet.
+  const windowKey = `${filterKey}|${ordering}|${pageOffset}|${pageSize}`
+  const loading = settledKey !== windowKey
+
+  useEffect(() => {
+    if (!enabled) return
+    loadedRef.current = 0
+    void read(pageOffset, pageSize, false, windowKey)
+  }, [enabled, read, windowKey, pageOffset, pageSize])
+
+  // Same window again: in scroll mode everything loaded so far, so rows don't jump.
+  const reload = useCallback(() => {
+    if (!enabled) return
+    const limit = mode === 'scroll' ? Math.max(pageSize, loadedRef.current) : pageSize
+    void read(pageOffset, limit, false, windowKey)
+  }, [enabled, mode, pageSize, pageOffset, windowKey, read])
+
+  const revision = useQueryRevision(options.tags ?? [])
+  const seenRevision = useRef(revision)
+  useEffect(() => {
+    if (revision === seenRevision.current) return
+    seenRevision.current = revision
+    reload()
+  }, [revision, reload])
+
+  const hasMore = mode === 'scroll' ? items.length < total : page * pageSize < total
+
+  const loadMore = useCallback(() => {
+    if (mode !== 'scroll' || loading || loadingMore || !hasMore) return
+    setLoadingMore(true)
+    void read(items.length, pageSize, true, windowKey)
+  }, [mode, loading, loadingMore, hasMore, read, items.length, pageSize, windowKey])
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  // Deleting the last rows of the last page leaves it empty: step back.
+  if (mode === 'pages' && !loading && page > pageCount) setPageState(pageCount)
+
+  const setPage = useCallback((next: number) => setPageState(Math.max(1, Math.floor(next))), [])
+
+  const setOrdering = useCallback((next: string) => {
+    setOrderingState(next)
+    setPageState(1)
+  }, [])
+
+  return {
+    items,
+    total,
+    loading,
+    loadingMore,
+    error,
+    apiError,
+    hasMore,
+    loadMore,
+    reload,
+    page,
+    pageCount,
+    setPage,
+    ordering,
+    setOrdering,
+  }
+}
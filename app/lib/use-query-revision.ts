@@ -0,0 +1,23 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { queryCache, type QueryTag } from './query-cache'
+
+/**
+ * Counter that bumps whenever cached data for any of `tags` is invalidated or
+ * revalidated in the background. Add it to a load effect's dependencies to
+ * re-read (from cache, so usually instantly) when the data behind a screen changes.
+ */
+export function useQueryRevision(tags: QueryTag[]): number {
+  const [revision, setRevision] = useState(0)
+  const tagKey = tags.join('|')
+
+  useEffect(() => {
+    const watched = tagKey.split('|') as QueryTag[]
+    return queryCache.subscribe((changed) => {
+      if (changed.some((t) => watched.includes(t))) setRevision((r) => r + 1)
+    })
+  }, [tagKey])
+
+  return revision
+}
@@ -0,0 +1,15 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { sessionMonitor, type SessionStatus } from './session'
+
+const SERVER_STATUS: SessionStatus = { endsAt: null, expiring: false, cannotExtend: false }
+
+/** Live session expiry status from `sessionMonitor` (signed out during server render). */
+export function useSessionStatus(): SessionStatus {
+  return useSyncExternalStore(
+    (onChange) => sessionMonitor.subscribe(onChange),
+    () => sessionMonitor.getStatus(),
+    () => SERVER_STATUS
+  )
+}
@@ -0,0 +1,21 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { uploadManager, type UploadTask } from './uploads'
+
+const NONE: UploadTask[] = []
+
+/** Live list of uploads from `uploadManager` (empty during server render). */
+export function useUploads(): UploadTask[] {
+  return useSyncExternalStore(
+    (onChange) => uploadManager.subscribe(onChange),
+    () => uploadManager.list(),
+    () => NONE
+  )
+}
+
+/** Upload percentage (0–100) of a task, or null when it isn't in progress. */
+export function uploadPercent(task: UploadTask | undefined): number | null {
+  if (!task || !['queued', 'uploading', 'completing', 'paused'].includes(task.status)) return null
+  return task.size > 0 ? Math.min(100, Math.round((task.loaded / task.size) * 100)) : 0
+}
@@ -4,9 +4,15 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useAuth } from '@/app/lib/auth-context'
+import { isApiError, type ApiError } from '@/app/lib/api-error'
+import ApiErrorNotice from '@/app/components/ApiErrorNotice'
+import FieldError, { invalidInputClass } from '@/app/components/FieldError'
 import AuthCardShell from '@/app/components/AuthCardShell'
 import GoogleSignInButton from '@/app/components/GoogleSignInButton'
 
+/** Backend field names rendered with an inline error. */
+const REGISTER_FIELDS = ['full_name', 'email', 'company', 'password']
+
 export default function RegisterPage() {
   const router = useRouter()
   const { register, loginWithGoogle, isLoading, error, clearError, isAuthenticated } = useAuth()
@@ -17,6 +23,7 @@ export default function RegisterPage() {
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
   const [localError, setLocalError] = useState('')
+  const [serverError, setServerError] = useState<ApiError | null>(null)
   const [passwordStrength, setPasswordStrength] = useState(0)
 
   // Redirect if already authenticated
@@ -52,6 +59,7 @@ export default function RegisterPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLocalError('')
+    setServerError(null)
 
     // Validation
     if (!fullName || !email || !password || !confirmPassword) {
@@ -88,21 +96,21 @@ export default function RegisterPage() {
       await register({ email, password, full_name: fullName, company: company.trim() ? company : undefined })
       // Redirect to OTP verification page
       router.push(`/verify-otp?email=${encodeURIComponent(email)}&type=email`)
-    } catch (err: any) {
-      const serverError = err?.message || error
-
-      // Check for specific errors
-      if (serverError?.includes('already') || serverError?.includes('exists')) {
-        setLocalError('Email is already registered. Please log in instead.')
-      } else if (serverError?.includes('invalid')) {
-        setLocalError('Invalid email or password format')
-      } else {
-        setLocalError(serverError || 'Registration failed. Please try again.')
+    } catch (err) {
+      if (isApiError(err)) {
+        // Shown inline and in the notice below instead of the context's plain message.
+        clearError()
+        setServerError(err)
+        return
       }
+      setLocalError((err instanceof Error && err.message) || error || 'Registration failed. Please try again.')
     }
   }
 
-  const displayError = localError || error
+  const displayError = localError || (serverError ? '' : error)
+  const fieldError = (field: string) => serverError?.fieldError(field)
+  const fieldProps = (field: string) =>
+    fieldError(field) ? { 'aria-invalid': true, 'aria-describedby': `${field}-error` } : {}
   const strengthColor =
     passwordStrength === 0
       ? 'bg-gray-300'
@@ -134,6 +142,7 @@ export default function RegisterPage() {
           <p className="text-sm text-red-700">{displayError}</p>
         </div>
       )}
+      {serverError && <ApiErrorNotice error={serverError} inlineFields={REGISTER_FIELDS} className="mb-4 rounded-xl" />}
 
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
@@ -152,11 +161,13 @@ export default function RegisterPage() {
               value={fullName}
               onChange={(e) => setFullName(e.target.value)}
               placeholder="John Doe"
-              className="w-full rounded-xl border border-gray-200 bg-gray-50 px-10 py-3 text-sm text-gray-900 outline-none focus:bg-white focus:ring-2 focus:ring-[#ff6f8a]"
+              className={`w-full rounded-xl border border-gray-200 bg-gray-50 px-10 py-3 text-sm text-gray-900 outline-none focus:bg-white focus:ring-2 focus:ring-[#ff6f8a] ${fieldError('full_name') ? invalidInputClass : ''}`}
               disabled={isLoading}
               autoComplete="name"
+              {...fieldProps('full_name')}
             />
           </div>
+          <FieldError id="full_name-error" message={fieldError('full_name')} />
         </div>
 
         <div>
@@ -176,11 +187,13 @@ export default function RegisterPage() {
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               placeholder="name@company.com"
-              className="w-full rounded-xl border border-gray-200 bg-gray-50 px-10 py-3 text-sm text-gray-900 outline-none focus:bg-white focus:ring-2 focus:ring-[#ff6f8a]"
+              className={`w-full rounded-xl border border-gray-200 bg-gray-50 px-10 py-3 text-sm text-gray-900 outline-none focus:bg-white focus:ring-2 focus:ring-[#ff6f8a] ${fieldError('email') ? invalidInputClass : ''}`}
               disabled={isLoading}
               autoComplete="email"
+              {...fieldProps('email')}
             />
           </div>
+          <FieldError id="email-error" message={fieldError('email')} />
         </div>
 
         <div>
@@ -200,11 +213,13 @@ export default function RegisterPage() {
               value={company}
               onChange={(e) => setCompany(e.target.value)}
               placeholder="Acme Corp"
-              className="w-full rounded-xl border border-gray-200 bg-gray-50 px-10 py-3 text-sm text-gray-900 outline-none focus:bg-white focus:ring-2 focus:ring-[#ff6f8a]"
+              className={`w-full rounded-xl border border-gray-200 bg-gray-50 px-10 py-3 text-sm text-gray-900 outline-none focus:bg-white focus:ring-2 focus:ring-[#ff6f8a] ${fieldError('company') ? invalidInputClass : ''}`}
               disabled={isLoading}
               autoComplete="organization"
+              {...fieldProps('company')}
             />
           </div>
+          <FieldError id="company-error" message={fieldError('company')} />
         </div>
 
         <div>
@@ -224,11 +239,13 @@ export default function RegisterPage() {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               placeholder="••••••••"
-              className="w-full rounded-xl border border-gray-200 bg-gray-50 px-10 py-3 text-sm text-gray-900 outline-none focus:bg-white focus:ring-2 focus:ring-[#ff6f8a]"
+              className={`w-full rounded-xl border border-gray-200 bg-gray-50 px-10 py-3 text-sm text-gray-900 outline-none focus:bg-white focus:ring-2 focus:ring-[#ff6f8a] ${fieldError('password') ? invalidInputClass : ''}`}
               disabled={isLoading}
               autoComplete="new-password"
+              {...fieldProps('password')}
             />
           </div>
+          <FieldError id="password-error" message={fieldError('password')} />
 
           {password ? (
             <div className="mt-2">
@@ -4,6 +4,8 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import DashboardLayout from '../../components/DashboardLayout';
 import { ApiClient, ReviewContractDetail, ReviewContractStatus } from '../../lib/api-client';
+import { analyzeDefinedTerms, type TextSpan } from '../../lib/defined-terms';
+import { DefinedTermsList } from '../../components/DefinedTermsPanel';
 import {
   ArrowLeft,
   ChevronDown,
@@ -65,6 +67,7 @@ export default function ReviewDetailPage() {
   const id = searchParams?.get('id') || '';
 
   const downloadRef = useRef<HTMLDivElement | null>(null);
+  const previewTextRef = useRef<HTMLPreElement | null>(null);
   const [loading, setLoading] = useState(true);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -91,20 +94,23 @@ export default function ReviewDetailPage() {
     try {
       const client = new ApiClient();
       const res = await client.getReviewContractById(id);
-      if (!res.success) throw new Error(res.error || 'Failed to load');
-      setItem(res.data as any);
+      if (!res.success || !res.data) throw new Error(res.error || 'Failed to load');
+      const detail = res.data;
+      setItem(detail);
 
       const urlRes = await client.getReviewContractUrl(id);
-      if (urlRes.success) {
-        const url = (urlRes.data as any)?.url as string | undefined;
+      if (urlRes.success && urlRes.data) {
+        const url = urlRes.data.url;
         setFileUrl(url || null);
         setFileText(null);
 
-        const ft = ((res.data as any)?.file_type || '').toLowerCase();
+        const ft = (detail.file_type || '').toLowerCase();
         if (url && ft === 'txt') {
           const txt = await fetch(url).then((r) => r.text());
           setFileText(txt);
         }
+      } else if (urlRes.violation) {
+        setError(urlRes.error || 'Failed to load the original file');
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load');
@@ -139,20 +145,24 @@ export default function ReviewDetailPage() {
     if (!item) return;
     setError(null);
     setBusy(true);
+    const base = (item.title || item.original_filename || 'lawflow_report').trim().replace(/\s+/g, '_');
     try {
-      const client = new ApiClient();
-      const res =
-        kind === 'txt'
-          ? await client.downloadReviewReportTxt(item.id)
-          : await client.downloadReviewReportPdf(item.id);
+      if (kind === 'pdf') {
+        // Rendered here from the report, like the contract PDF.
+        const { downloadHtmlAsPdf } = await import('../../lib/downloads');
+        const title = (item.original_filename || item.title || 'Contract Review').trim();
+        await downloadHtmlAsPdf({ filename: `${base}_review`, title, header: `${title} – Review report`, html: buildReportPdfHtml() });
+        return;
+      }
+
+      const res = await new ApiClient().downloadReviewReportTxt(item.id);
       if (!res.success || !res.data) throw new Error(res.error || 'Download failed');
 
       const blob = res.data;
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      const base = (item.title || item.original_filename || 'lawflow_report').trim().replace(/\s+/g, '_');
-      a.download = kind === 'txt' ? `${base}_review.txt` : `${base}_review.pdf`;
+      a.download = `${base}_review.txt`;
       document.body.appendChild(a);
       a.click();
       a.remove();
@@ -183,6 +193,25 @@ export default function ReviewDetailPage() {
 
   const q = extractionQuery.trim().toLowerCase();
 
+  // Defined terms of the document text (lines are the blocks, so spans map straight back to the preview).
+  const documentLines = useMemo(() => (fileText ?? item?.review_text ?? '').split('\n'), [fileText, item?.review_text]);
+  const definedTerms = useMemo(() => analyzeDefinedTerms(documentLines), [documentLines]);
+
+  const revealInPreview = (span: TextSpan) => {
+    const textNode = previewTextRef.current?.firstChild;
+    if (!textNode) return;
+    const lineStart = documentLines.slice(0, span.block).reduce((n, line) => n + line.length + 1, 0);
+    const range = document.createRange();
+    range.setStart(textNode, lineStart + span.start);
+    range.setEnd(textNode, lineStart + span.end);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    const pre = previewTextRef.current!;
+    pre.scrollTop += range.getBoundingClientRect().top - pre.getBoundingClientRect().top - pre.clientHeight / 3;
+    pre.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  };
+
   const highlight = (text: string, query: string): React.ReactNode => {
     const t = String(text || '');
     const qq = String(query || '').trim();
@@ -299,14 +328,7 @@ export default function ReviewDetailPage() {
     return `${t.slice(0, limit).trim()}…`;
   };
 
-  const buildStyledReportHtml = () => {
-    if (!item) return '';
-    const title = (item.original_filename || item.title || 'Contract Review').trim();
-    const now = new Date();
-
-    const riskLevel = String(analysisSummary?.risk_level || 'MEDIUM').toUpperCase();
-    const riskScore = Number(analysisSummary?.risk_score || 0);
-
+  const extractedLines = () => {
     const partyLines = parties
       .map((p: any) => String(p?.name || '').trim())
       .filter(Boolean);
@@ -323,6 +345,17 @@ export default function ReviewDetailPage() {
         return m ? `${label}: ${m}` : '';
       })
       .filter(Boolean);
+    return { partyLines, dateLines, valueLines };
+  };
+
+  const buildStyledReportHtml = () => {
+    if (!item) return '';
+    const title = (item.original_filename || item.title || 'Contract Review').trim();
+    const now = new Date();
+
+    const riskLevel = String(analysisSummary?.risk_level || 'MEDIUM').toUpperCase();
+    const riskScore = Number(analysisSummary?.risk_score || 0);
+    const { partyLines, dateLines, valueLines } = extractedLines();
 
     const clauseRows = clauses.map((c: any, idx: number) => {
       const category = String(c?.category || 'Clause');
@@ -510,26 +543,72 @@ export default function ReviewDetailPage() {
     window.URL.revokeObjectURL(url);
   };
 
-  const printStyledReport = () => {
-    if (!item) return;
-    const html = buildStyledReportHtml();
-    const w = window.open('', '_blank', 'noopener,noreferrer');
-    if (!w) {
-      setError('Popup blocked. Allow popups to print the report.');
-      return;
-    }
-    w.document.open();
-    w.document.write(html);
-    w.document.close();
-    w.focus();
-    // Give the browser a moment to layout before printing.
-    setTimeout(() => {
-      try {
-        w.print();
-      } catch {
-        // ignore
-      }
-    }, 300);
+  /** The report as plain headings, paragraphs and tables, which is what the PDF renderer lays out. */
+  const buildReportPdfHtml = () => {
+    if (!item) return '';
+    const riskLevel = String(analysisSummary?.risk_level || 'MEDIUM').toUpperCase();
+    const riskScore = Number(analysisSummary?.risk_score || 0);
+    const { partyLines, dateLines, valueLines } = extractedLines();
+    const paragraphs = (text: string) =>
+      (String(text || '').trim() || '—')
+        .split(/\n\s*\n/)
+        .map((p) => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+        .join('');
+    const lines = (list: string[]) => (list.length ? list.map(escapeHtml).join('<br>') : '—');
+
+    const meta = [
+      `Generated ${new Date().toLocaleString()}`,
+      String(item.status || '').toUpperCase(),
+      `${riskLevel} risk (${riskScore}/100)`,
+      jurisdiction ? `Jurisdiction: ${jurisdiction}` : '',
+      endDate ? `Expiry: ${endDate}` : '',
+    ].filter(Boolean);
+
+    const clauseSections = clauses.map((c) => {
+      const category = String(c?.category || 'Clause');
+      const heading = String(c?.title || c?.matched_library?.title || category);
+      const pct = typeof c?.match_percent === 'number' ? ` (${c.match_percent}%)` : '';
+      const extracted = String(c?.snippet || c?.extracted_text || c?.text || '').trim();
+      const recommendation = String(getClauseRecommendation(c) || '').trim();
+      return `
+        <h3>${escapeHtml(heading)}</h3>
+        <p>${escapeHtml(category)} · ${escapeHtml(clauseMatchLabel(c?.match_percent).label)}${pct}</p>
+        <table>
+          <tr><th>Extracted text</th><th>Recommendation</th></tr>
+          <tr><td>${paragraphs(extracted)}</td><td>${paragraphs(recommendation)}</td></tr>
+        </table>`;
+    });
+
+    const suggestionSections = suggestions
+      .slice(0, 12)
+      .map((sg) => `<h3>${escapeHtml(String(sg?.title || 'Suggestion'))}</h3>${paragraphs(String(sg?.text || ''))}`);
+
+    return `
+      <h1>${escapeHtml((item.original_filename || item.title || 'Contract Review').trim())}</h1>
+      <p>${meta.map(escapeHtml).join(' · ')}</p>
+      <table>
+        <tr><th>Total clauses</th><th>Amount</th><th>Parties</th><th>Date</th></tr>
+        <tr>
+          <td>${escapeHtml(String(Number(analysisSummary?.clauses_count || clauses.length || 0)))}</td>
+          <td>${escapeHtml(primaryValue || '—')}</td>
+          <td>${escapeHtml(partiesChip || (partyLines.length ? `${partyLines.length} parties` : '—'))}</td>
+          <td>${escapeHtml(String(effectiveDate || (dates[0]?.value ? String(dates[0].value) : '—')))}</td>
+        </tr>
+      </table>
+      <h2>Summary</h2>
+      ${paragraphs(summary)}
+      ${partyLines.length || dateLines.length || valueLines.length ? `
+      <h2>Extracted data</h2>
+      <table>
+        <tr><th>Parties</th><th>Dates &amp; values</th></tr>
+        <tr><td>${lines(partyLines)}</td><td>${lines([...dateLines, ...valueLines])}</td></tr>
+      </table>` : ''}
+      <h2>Detected clauses</h2>
+      ${clauseSections.join('') || '<p>—</p>'}
+      <h2>Suggestions</h2>
+      ${suggestionSections.join('') || '<p>—</p>'}
+      <h2>Review notes</h2>
+      ${paragraphs(String(item.review_text || ''))}`;
   };
 
   const copyText = async (text: string) => {
@@ -691,16 +770,6 @@ export default function ReviewDetailPage() {
                       >
                         Styled report (HTML)
                       </button>
-                      <button
-                        type="button"
-                        className="w-full text-left px-4 py-3 text-sm hover:bg-slate-50"
-                        onClick={() => {
-                          setDownloadOpen(false);
-                          printStyledReport();
-                        }}
-                      >
-                        Styled report (Print/PDF)
-                      </button>
                       <div className="h-px bg-slate-100" />
                       <button
                         type="button"
@@ -710,7 +779,7 @@ export default function ReviewDetailPage() {
                           void downloadReport('pdf');
                         }}
                       >
-                        Report (PDF) – basic
+                        Report (PDF)
                       </button>
                       <button
                         type="button"
@@ -776,10 +845,10 @@ export default function ReviewDetailPage() {
                     </div>
                     <button
                       type="button"
-                      onClick={() => printStyledReport()}
+                      onClick={() => void downloadReport('pdf')}
                       className="text-xs font-bold text-rose-600 hover:text-rose-700"
                       disabled={busy || loading}
-                      title="Export styled report"
+                      title="Download the report as a PDF"
                     >
                       Export Report
                     </button>
@@ -1055,7 +1124,10 @@ export default function ReviewDetailPage() {
                     {!fileUrl ? (
                       <div className="text-sm text-slate-500">No preview URL available.</div>
                     ) : fileText != null ? (
-                      <pre className="whitespace-pre-wrap text-sm text-slate-800 bg-slate-50 border border-slate-200 rounded-2xl p-4 max-h-[70vh] overflow-auto">
+                      <pre
+                        ref={previewTextRef}
+                        className="whitespace-pre-wrap text-sm text-slate-800 bg-slate-50 border border-slate-200 rounded-2xl p-4 max-h-[70vh] overflow-auto"
+                      >
                         {fileText}
                       </pre>
                     ) : (item.file_type || '').toLowerCase() === 'pdf' ? (
@@ -1091,6 +1163,22 @@ export default function ReviewDetailPage() {
                   </div>
                 </div>
 
+                {documentLines.some((line) => line.trim()) ? (
+                  <div className="bg-white rounded-[28px] border border-slate-200 p-6">
+                    <div className="font-extrabold text-slate-900">Defined Terms</div>
+                    <div className="text-xs text-slate-500 mt-1">
+                      Definitions in the document, terms used before they are defined or never used, and capitalisation slips
+                    </div>
+                    <div className="mt-4">
+                      <DefinedTermsList
+                        report={definedTerms}
+                        blocks={documentLines}
+                        onSelect={fileText != null ? revealInPreview : undefined}
+                      />
+                    </div>
+                  </div>
+                ) : null}
+
                 {/* Editor-style extracted review notes */}
                 <div className="bg-white rounded-[28px] border border-slate-200 p-6">
                   <div className="font-extrabold text-slate-900">Review Notes (Editor)</div>
@@ -1,9 +1,14 @@
 'use client';
 
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import DashboardLayout from '../components/DashboardLayout';
+import LoadMore from '../components/LoadMore';
+import SortSelect from '../components/SortSelect';
 import { ApiClient, ReviewContractListItem, ReviewContractStatus } from '../lib/api-client';
+import { uploadManager } from '../lib/uploads';
+import { uploadPercent as percentOf, useUploads } from '../lib/use-uploads';
+import { usePaginatedList } from '../lib/use-paginated-list';
 import {
   Download,
   Eye,
@@ -39,6 +44,13 @@ const formatDate = (iso?: string | null): string => {
   return d.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
 };
 
+const SORT_OPTIONS = [
+  { value: '-created_at', label: 'Newest first' },
+  { value: 'created_at', label: 'Oldest first' },
+  { value: 'title', label: 'Title A–Z' },
+  { value: '-size_bytes', label: 'Largest first' },
+];
+
 const statusPill = (status: ReviewContractStatus) => {
   const map: Record<ReviewContractStatus, string> = {
     uploaded: 'bg-slate-50 text-slate-700 border-slate-200',
@@ -54,13 +66,15 @@ export default function ReviewPage() {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const [busy, setBusy] = useState(false);
-  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
+  // Uploads run in `uploadManager` (and keep going if the user leaves); this page shows the one it started.
+  const [uploadTaskId, setUploadTaskId] = useState<string | null>(null);
+  const uploadTask = useUploads().find((t) => t.id === uploadTaskId);
+  const uploadPercent = percentOf(uploadTask);
   const [processing, setProcessing] = useState(false);
 
-  const [items, setItems] = useState<ReviewContractListItem[]>([]);
   const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
   const [dragOver, setDragOver] = useState(false);
 
   const [preview, setPreview] = useState<PreviewState>({
@@ -70,87 +84,50 @@ export default function ReviewPage() {
     text: null,
   });
 
-  const load = async (q?: string) => {
-    setError(null);
-    setLoading(true);
-    try {
-      const client = new ApiClient();
-      const res = await client.listReviewContracts({ q: q?.trim() ? q.trim() : undefined });
-      if (!res.success) throw new Error(res.error || 'Failed to load review contracts');
-      const results = (res.data as any)?.results || [];
-      setItems(results);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : 'Failed to load review contracts');
-    } finally {
-      setLoading(false);
-    }
-  };
-
+  // Debounced search; filtering and sorting happen on the server.
   useEffect(() => {
-    void load();
-  }, []);
+    const t = window.setTimeout(() => setSearch(query.trim()), 250);
+    return () => window.clearTimeout(t);
+  }, [query]);
+
+  // Uploads, analysis and deletes invalidate `reviews`, which re-reads the loaded rows.
+  const reviews = usePaginatedList<ReviewContractListItem>(
+    (page) => new ApiClient().listReviewContracts({ ...page, q: search || undefined }),
+    { ordering: '-created_at', filterKey: search, tags: ['reviews'] }
+  );
+  const loading = reviews.loading;
 
   useEffect(() => {
-    const t = window.setTimeout(() => {
-      void load(query);
-    }, 250);
+    if (uploadTask?.status === 'failed') setError(uploadTask.error || 'Upload failed');
+    if (uploadTask?.status !== 'done') return;
+    // Backend will spend time extracting/embedding/reviewing; the list reloads via `reviewsRevision`.
+    setProcessing(true);
+    const t = window.setTimeout(() => setProcessing(false), 1200);
     return () => window.clearTimeout(t);
-  }, [query]);
+  }, [uploadTask?.status, uploadTask?.error]);
 
-  const filtered = useMemo(() => {
-    const s = query.trim().toLowerCase();
-    if (!s) return items;
-    return items.filter((it) => {
-      const name = (it.title || '').toLowerCase();
-      const fn = (it.original_filename || '').toLowerCase();
-      return name.includes(s) || fn.includes(s);
-    });
-  }, [items, query]);
+  const filtered = reviews.items;
 
   const validateFile = (f: File) => {
     const name = (f.name || '').toLowerCase();
     const ext = name.includes('.') ? name.split('.').pop() : '';
     if (ext !== 'pdf' && ext !== 'txt' && ext !== 'docx') return 'Only .pdf, .docx and .txt files are supported.';
-    const max = 25 * 1024 * 1024;
-    if (f.size > max) return 'File too large. Max size is 25MB.';
+    const max = 200 * 1024 * 1024;
+    if (f.size > max) return 'File too large. Max size is 200MB.';
     return null;
   };
 
   const pickFile = () => fileInputRef.current?.click();
 
-  const upload = async (file: File) => {
+  const upload = (file: File) => {
     const msg = validateFile(file);
     if (msg) {
       setError(msg);
       return;
     }
 
-    setBusy(true);
-    setUploadPercent(0);
-    setProcessing(false);
     setError(null);
-    try {
-      const client = new ApiClient();
-      const res = await client.uploadReviewContractWithProgress(file, {
-        analyze: true,
-        onProgress: ({ percent }) => {
-          if (typeof percent === 'number') setUploadPercent(percent);
-        },
-      });
-      if (!res.success) throw new Error(res.error || 'Upload failed');
-
-      // Backend will spend time extracting/embedding/reviewing.
-      setProcessing(true);
-      await load(query);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : 'Upload failed');
-    } finally {
-      setBusy(false);
-      setTimeout(() => {
-        setUploadPercent(null);
-        setProcessing(false);
-      }, 350);
-    }
+    setUploadTaskId(uploadManager.add(file, { purpose: 'review', analyze: true }));
   };
 
   const openPreview = async (it: ReviewContractListItem) => {
@@ -161,7 +138,7 @@ export default function ReviewPage() {
       const client = new ApiClient();
       const res = await client.getReviewContractUrl(it.id);
       if (!res.success) throw new Error(res.error || 'Failed to get preview URL');
-      const url = (res.data as any)?.url as string | undefined;
+      const url = res.data?.url;
       if (!url) throw new Error('No URL returned');
 
       if ((it.file_type || '').toLowerCase() === 'txt') {
@@ -181,7 +158,7 @@ export default function ReviewPage() {
       const client = new ApiClient();
       const res = await client.getReviewContractUrl(it.id);
       if (!res.success) throw new Error(res.error || 'Failed to get download URL');
-      const url = (res.data as any)?.url as string | undefined;
+      const url = res.data?.url;
       if (!url) throw new Error('No URL returned');
       window.open(url, '_blank', 'noopener,noreferrer');
     } catch (e) {
@@ -219,7 +196,6 @@ export default function ReviewPage() {
       const client = new ApiClient();
       const res = await client.analyzeReviewContract(it.id);
       if (!res.success) throw new Error(res.error || 'Analyze failed');
-      await load(query);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Analyze failed');
     } finally {
@@ -235,7 +211,6 @@ export default function ReviewPage() {
       const client = new ApiClient();
       const res = await client.deleteReviewContract(it.id);
       if (!res.success) throw new Error(res.error || 'Delete failed');
-      await load(query);
       if (preview.item?.id === it.id) {
         setPreview({ open: false, item: null, url: null, text: null });
       }
@@ -303,7 +278,7 @@ export default function ReviewPage() {
               e.stopPropagation();
               setDragOver(false);
               const f = e.dataTransfer.files?.[0];
-              if (f) void upload(f);
+              if (f) upload(f);
             }}
           >
             {/* Animated overlay */}
@@ -336,7 +311,7 @@ export default function ReviewPage() {
               </div>
               <div className="text-base md:text-lg font-extrabold">Drag &amp; Drop files here</div>
               <div className="text-xs md:text-sm text-white/90 mt-2">Support for PDF, DOCX and .TXT files</div>
-              <div className="text-[11px] md:text-xs text-white/80 mt-1">Max file size 25MB</div>
+              <div className="text-[11px] md:text-xs text-white/80 mt-1">Max file size 200MB • Resumable</div>
 
               <button
                 type="button"
@@ -354,7 +329,7 @@ export default function ReviewPage() {
                 className="hidden"
                 onChange={(e) => {
                   const f = e.target.files?.[0];
-                  if (f) void upload(f);
+                  if (f) upload(f);
                   e.currentTarget.value = '';
                 }}
               />
@@ -371,7 +346,7 @@ export default function ReviewPage() {
                     return (
                       <div className="rounded-2xl border border-rose-200 bg-white/70 px-4 py-3 shadow-sm">
                         <div className="flex items-center justify-between text-xs text-slate-700">
-                          <div className="font-extrabold">Uploading</div>
+                          <div className="font-extrabold">{uploadTask?.status === 'paused' ? 'Paused' : 'Uploading'}</div>
                           <div className="font-extrabold tabular-nums">{pct}%</div>
                         </div>
 
@@ -416,7 +391,7 @@ export default function ReviewPage() {
             </div>
           )}
 
-          {error && <div className="mt-4 text-sm text-rose-600">{error}</div>}
+          {(error || reviews.error) && <div className="mt-4 text-sm text-rose-600">{error || reviews.error}</div>}
         </div>
 
         {/* List */}
@@ -424,17 +399,20 @@ export default function ReviewPage() {
           <div className="flex items-center justify-between gap-4 mb-4">
             <div>
               <div className="text-lg font-extrabold text-slate-900">Reviewed Documents</div>
-              <div className="text-sm text-slate-500">{filtered.length} item{filtered.length !== 1 ? 's' : ''}</div>
+              <div className="text-sm text-slate-500">{reviews.total} item{reviews.total !== 1 ? 's' : ''}</div>
+            </div>
+            <div className="flex items-center gap-2">
+              <SortSelect value={reviews.ordering} options={SORT_OPTIONS} onChange={reviews.setOrdering} />
+              <button
+                type="button"
+                onClick={reviews.reload}
+                className="inline-flex items-center gap-2 rounded-full bg-white border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-800 hover:bg-slate-50"
+                disabled={loading}
+              >
+                <RefreshCcw className="w-4 h-4" />
+                Refresh
+              </button>
             </div>
-            <button
-              type="button"
-              onClick={() => load(query)}
-              className="inline-flex items-center gap-2 rounded-full bg-white border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-800 hover:bg-slate-50"
-              disabled={loading}
-            >
-              <RefreshCcw className="w-4 h-4" />
-              Refresh
-            </button>
           </div>
 
           <div className="overflow-x-auto">
@@ -563,6 +541,16 @@ export default function ReviewPage() {
               </tbody>
             </table>
           </div>
+          {!loading && (
+            <LoadMore
+              shown={filtered.length}
+              total={reviews.total}
+              hasMore={reviews.hasMore}
+              loading={reviews.loadingMore}
+              onLoadMore={reviews.loadMore}
+              noun="documents"
+            />
+          )}
         </div>
 
         {/* Preview Modal */}
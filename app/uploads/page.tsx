@@ -1,9 +1,17 @@
 'use client';
 
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import DashboardLayout from '../components/DashboardLayout';
+import PaginationControls from '../components/PaginationControls';
+import SortSelect from '../components/SortSelect';
 import { ApiClient } from '../lib/api-client';
-import { UploadCloud, Download, Eye, FileText, Lock, Search, Trash2 } from 'lucide-react';
+import { uploadManager } from '../lib/uploads';
+import { uploadPercent as percentOf, useUploads } from '../lib/use-uploads';
+import { usePaginatedList } from '../lib/use-paginated-list';
+import { sanitizeEditorHtml } from '../lib/sanitize-html';
+import type { DocxImport } from '../lib/docx';
+import { UploadCloud, Download, Eye, FilePen, FileText, Lock, Search, Trash2 } from 'lucide-react';
 
 type PrivateUploadItem = {
   key: string;
@@ -13,6 +21,15 @@ type PrivateUploadItem = {
   uploaded_at?: string | null;
 };
 
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS = [
+  { value: '-uploaded_at', label: 'Newest first' },
+  { value: 'uploaded_at', label: 'Oldest first' },
+  { value: 'filename', label: 'Name A–Z' },
+  { value: '-size', label: 'Largest first' },
+];
+
 const formatBytes = (bytes: number): string => {
   const b = Number(bytes || 0);
   if (b < 1024) return `${b} B`;
@@ -48,82 +65,63 @@ const iconForType = (type: string) => {
 };
 
 export default function UploadsPage() {
+  const router = useRouter();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [uploadPercent, setUploadPercent] = useState<number | null>(null);
-  const [items, setItems] = useState<PrivateUploadItem[]>([]);
+  // Uploads run in `uploadManager` (and keep going if the user leaves); this page shows the one it started.
+  const [uploadTaskId, setUploadTaskId] = useState<string | null>(null);
+  const uploadTask = useUploads().find((t) => t.id === uploadTaskId);
+  const uploadPercent = percentOf(uploadTask);
   const [query, setQuery] = useState('');
+  const [search, setSearch] = useState('');
   const [dragOver, setDragOver] = useState(false);
 
   const [previewOpen, setPreviewOpen] = useState(false);
   const [previewItem, setPreviewItem] = useState<PrivateUploadItem | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [previewText, setPreviewText] = useState<string | null>(null);
+  // Word files have no in-browser viewer, so they are converted and shown as contract HTML.
+  const [previewDocx, setPreviewDocx] = useState<DocxImport | null>(null);
 
-  const load = async () => {
-    setError(null);
-    setBusy(true);
-    try {
-      const client = new ApiClient();
-      const res = await client.listPrivateUploads();
-      if (!res.success) throw new Error(res.error || 'Failed to load uploads');
-      const results = (res.data as any)?.results || [];
-      setItems(results);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : 'Failed to load uploads');
-    } finally {
-      setBusy(false);
-    }
-  };
+  // Debounced search; filtering and sorting happen on the server.
+  useEffect(() => {
+    const t = window.setTimeout(() => setSearch(query.trim()), 250);
+    return () => window.clearTimeout(t);
+  }, [query]);
+
+  // Finished uploads and deletes invalidate `uploads`, which re-reads the current page.
+  const uploads = usePaginatedList<PrivateUploadItem>(
+    (page) => new ApiClient().listPrivateUploads({ ...page, q: search || undefined }),
+    { mode: 'pages', pageSize: PAGE_SIZE, ordering: '-uploaded_at', filterKey: search, tags: ['uploads'] }
+  );
 
   useEffect(() => {
-    void load();
-  }, []);
+    if (uploadTask?.status === 'failed') setError(uploadTask.error || 'Upload failed');
+  }, [uploadTask?.status, uploadTask?.error]);
 
-  const filtered = useMemo(() => {
-    const s = query.trim().toLowerCase();
-    if (!s) return items;
-    return items.filter((it) => (it.filename || '').toLowerCase().includes(s));
-  }, [items, query]);
+  const filtered = uploads.items;
 
   const pickFile = () => fileInputRef.current?.click();
 
   const validateFile = (f: File) => {
     const name = (f.name || '').toLowerCase();
     const ext = name.includes('.') ? name.split('.').pop() : '';
-    if (ext !== 'pdf' && ext !== 'txt') return 'Only .pdf and .txt files are supported.';
-    const max = 25 * 1024 * 1024;
-    if (f.size > max) return 'File too large. Max size is 25MB.';
+    if (ext !== 'pdf' && ext !== 'txt' && ext !== 'docx') return 'Only .pdf, .docx and .txt files are supported.';
+    const max = 200 * 1024 * 1024;
+    if (f.size > max) return 'File too large. Max size is 200MB.';
     return null;
   };
 
-  const upload = async (file: File) => {
+  const upload = (file: File) => {
     const msg = validateFile(file);
     if (msg) {
       setError(msg);
       return;
     }
 
-    setBusy(true);
-    setUploadPercent(0);
     setError(null);
-    try {
-      const client = new ApiClient();
-      const res = await client.uploadPrivateUploadWithProgress(file, {
-        onProgress: ({ percent }) => {
-          if (typeof percent === 'number') setUploadPercent(percent);
-        },
-      });
-      if (!res.success) throw new Error(res.error || 'Upload failed');
-      await load();
-    } catch (e) {
-      setError(e instanceof Error ? e.message : 'Upload failed');
-    } finally {
-      setBusy(false);
-      // Keep success state briefly, but don't linger at 100%.
-      setTimeout(() => setUploadPercent(null), 350);
-    }
+    setUploadTaskId(uploadManager.add(file, { purpose: 'private' }));
   };
 
   const openPreview = async (it: PrivateUploadItem) => {
@@ -131,27 +129,59 @@ export default function UploadsPage() {
     setPreviewItem(it);
     setPreviewUrl(null);
     setPreviewText(null);
+    setPreviewDocx(null);
     setError(null);
 
     try {
       const client = new ApiClient();
       const res = await client.getPrivateUploadUrl(it.key);
       if (!res.success) throw new Error(res.error || 'Failed to get preview URL');
-      const url = (res.data as any)?.url as string | undefined;
+      const url = res.data?.url;
       if (!url) throw new Error('No URL returned');
+      if ((it.file_type || '').toLowerCase() === 'docx') {
+        const { importDocx } = await import('../lib/docx');
+        const file = await fetch(url);
+        if (!file.ok) throw new Error('Failed to load the file');
+        try {
+          setPreviewDocx(await importDocx(await file.arrayBuffer()));
+        } catch {
+          throw new Error('This file could not be read as a Word document.');
+        }
+      }
       setPreviewUrl(url);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to open preview');
     }
   };
 
+  const openAsContract = async (it: PrivateUploadItem, docx: DocxImport) => {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await new ApiClient().createContractFromContent({
+        title: it.filename.replace(/\.docx$/i, '') || 'Contract',
+        rendered_text: docx.text,
+        rendered_html: sanitizeEditorHtml(docx.html),
+        metadata: { source: 'docx_import', upload_key: it.key, editor_client_updated_at_ms: Date.now() },
+      });
+      if (!res.success) throw new Error(res.error || 'Failed to create contract');
+      const id = String(res.data?.id || '');
+      if (!id) throw new Error('No contract ID returned');
+      router.push(`/contracts/editor?id=${encodeURIComponent(id)}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to create contract');
+    } finally {
+      setBusy(false);
+    }
+  };
+
   const downloadFile = async (it: PrivateUploadItem) => {
     setError(null);
     try {
       const client = new ApiClient();
       const res = await client.getPrivateUploadUrl(it.key);
       if (!res.success) throw new Error(res.error || 'Failed to get download URL');
-      const url = (res.data as any)?.url as string | undefined;
+      const url = res.data?.url;
       if (!url) throw new Error('No URL returned');
 
       // Use the Cloudflare R2 presigned URL directly for maximum compatibility.
@@ -169,12 +199,12 @@ export default function UploadsPage() {
       const client = new ApiClient();
       const res = await client.deletePrivateUpload(it.key);
       if (!res.success) throw new Error(res.error || 'Delete failed');
-      await load();
       if (previewItem?.key === it.key) {
         setPreviewOpen(false);
         setPreviewItem(null);
         setPreviewUrl(null);
         setPreviewText(null);
+        setPreviewDocx(null);
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Delete failed');
@@ -240,7 +270,7 @@ export default function UploadsPage() {
               e.stopPropagation();
               setDragOver(false);
               const f = e.dataTransfer.files?.[0];
-              if (f) void upload(f);
+              if (f) upload(f);
             }}
           >
             {/* Animated overlay */}
@@ -272,8 +302,8 @@ export default function UploadsPage() {
                 </div>
               </div>
               <div className="text-base md:text-lg font-extrabold">Drag &amp; Drop files here</div>
-              <div className="text-xs md:text-sm text-white/90 mt-2">Support for PDF and .TXT files</div>
-              <div className="text-[11px] md:text-xs text-white/80 mt-1">Max file size 25MB • Encryption Enabled</div>
+              <div className="text-xs md:text-sm text-white/90 mt-2">Support for PDF, Word (.DOCX) and .TXT files</div>
+              <div className="text-[11px] md:text-xs text-white/80 mt-1">Max file size 200MB • Resumable • Encryption Enabled</div>
 
               <button
                 type="button"
@@ -287,11 +317,11 @@ export default function UploadsPage() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf,.txt,application/pdf,text/plain"
+                accept=".pdf,.txt,.docx,application/pdf,text/plain,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
                 className="hidden"
                 onChange={(e) => {
                   const f = e.target.files?.[0];
-                  if (f) void upload(f);
+                  if (f) upload(f);
                   if (fileInputRef.current) fileInputRef.current.value = '';
                 }}
               />
@@ -306,7 +336,7 @@ export default function UploadsPage() {
                 return (
                   <div className="rounded-2xl border border-rose-200 bg-white/70 px-4 py-3 shadow-sm">
                     <div className="flex items-center justify-between text-xs text-slate-700">
-                      <div className="font-extrabold">Uploading</div>
+                      <div className="font-extrabold">{uploadTask?.status === 'paused' ? 'Paused' : 'Uploading'}</div>
                       <div className="font-extrabold tabular-nums">{pct}%</div>
                     </div>
 
@@ -337,9 +367,9 @@ export default function UploadsPage() {
             </div>
           )}
 
-          {error && (
+          {(error || uploads.error) && (
             <div className="mt-4 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
-              {error}
+              {error || uploads.error}
             </div>
           )}
 
@@ -353,9 +383,10 @@ export default function UploadsPage() {
                 My Private Files
               </div>
               <span className="text-xs font-semibold text-slate-600 bg-slate-100 rounded-full px-2.5 py-1">
-                {items.length}
+                {uploads.total}
               </span>
             </div>
+            <SortSelect value={uploads.ordering} options={SORT_OPTIONS} onChange={uploads.setOrdering} />
           </div>
 
           <div className="mt-4 rounded-2xl border border-slate-200 overflow-hidden">
@@ -367,7 +398,7 @@ export default function UploadsPage() {
             </div>
 
             <div className="divide-y divide-slate-100">
-              {busy && items.length === 0 ? (
+              {uploads.loading && filtered.length === 0 ? (
                 <div className="px-5 py-6 text-sm text-slate-500">Loading…</div>
               ) : filtered.length === 0 ? (
                 <div className="px-5 py-6 text-sm text-slate-500">No files found</div>
@@ -472,29 +503,15 @@ export default function UploadsPage() {
             </div>
           </div>
 
-          <div className="mt-3 flex items-center justify-between text-xs text-slate-500">
-            <div>
-              Showing {Math.min(filtered.length, 50)} of {items.length} private files
-            </div>
-            <div className="flex items-center gap-2">
-              <button
-                type="button"
-                className="w-9 h-9 rounded-full border border-slate-200 bg-white text-slate-500 hover:bg-slate-50"
-                aria-label="Previous"
-                disabled
-              >
-                ‹
-              </button>
-              <button
-                type="button"
-                className="w-9 h-9 rounded-full border border-slate-200 bg-white text-slate-500 hover:bg-slate-50"
-                aria-label="Next"
-                disabled
-              >
-                ›
-              </button>
-            </div>
-          </div>
+          <PaginationControls
+            page={uploads.page}
+            pageCount={uploads.pageCount}
+            pageSize={PAGE_SIZE}
+            total={uploads.total}
+            onPageChange={uploads.setPage}
+            disabled={uploads.loading}
+            className="mt-3"
+          />
         </div>
 
         {/* Preview Modal */}
@@ -513,6 +530,17 @@ export default function UploadsPage() {
                   <div className="text-xs text-slate-500">Private preview</div>
                 </div>
                 <div className="flex items-center gap-2">
+                  {previewDocx && (
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white hover:bg-slate-800 disabled:opacity-50"
+                      onClick={() => void openAsContract(previewItem, previewDocx)}
+                      disabled={busy}
+                    >
+                      <FilePen className="w-4 h-4" />
+                      Open as contract
+                    </button>
+                  )}
                   <button
                     type="button"
                     className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50"
@@ -545,6 +573,13 @@ export default function UploadsPage() {
                   <div className="h-full flex items-center justify-center text-sm text-slate-500">Loading preview…</div>
                 ) : (previewItem.file_type || '').toLowerCase() === 'pdf' ? (
                   <iframe title="PDF preview" src={previewUrl} className="w-full h-full" />
+                ) : (previewItem.file_type || '').toLowerCase() === 'docx' ? (
+                  <div className="h-full overflow-y-auto bg-white">
+                    <div
+                      className="ProseMirror max-w-3xl mx-auto px-8 py-6 text-[13px] leading-6 text-slate-900 font-serif"
+                      dangerouslySetInnerHTML={{ __html: sanitizeEditorHtml(previewDocx?.html || '') }}
+                    />
+                  </div>
                 ) : (
                   <iframe title="Text preview" src={previewUrl} className="w-full h-full" />
                 )}
@@ -164,31 +164,10 @@ export default function AdminPage() {
 
       // Templates totals: backend admin analytics counts ContractTemplate only.
       // Many deployments primarily use file templates, so compute best-effort counts for both.
-      const ctCount = (() => {
-        if (!ct.success) return null;
-        const d = ct.data;
-        if (Array.isArray(d)) return d.length;
-        if (d && typeof d === 'object') {
-          const obj = d as Record<string, unknown>;
-          if (typeof obj.count === 'number') return obj.count;
-          const results = obj.results;
-          if (Array.isArray(results)) return results.length;
-        }
-        return null;
-      })();
+      const ctCount = ct.success && ct.data ? ct.data.count : null;
       setContractTemplatesCount(ctCount);
 
-      const ftCount = (() => {
-        if (!ft.success) return null;
-        const d = ft.data;
-        if (d && typeof d === 'object') {
-          const obj = d as Record<string, unknown>;
-          if (typeof obj.count === 'number') return obj.count;
-          const results = obj.results;
-          if (Array.isArray(results)) return results.length;
-        }
-        return null;
-      })();
+      const ftCount = ft.success && ft.data ? ft.data.count : null;
       setFileTemplatesCount(ftCount);
     } catch (e: unknown) {
       setError(getErrorMessage(e) || 'Failed to load admin data');
@@ -0,0 +1,221 @@
+// Local sync server for collaborative contract editing (y-websocket protocol).
+//
+//   npm run collab-server
+//   NEXT_PUBLIC_COLLAB_URL=ws://localhost:1234 npm run dev
+//
+// One Yjs document per room (`contract-<id>`), kept in memory while anyone is
+// connected. Set COLLAB_PERSIST_DIR to keep rooms on disk between restarts.
+// The `token` query parameter is accepted but not verified: this server is for
+// local development only. A production server must authenticate the token and
+// check that its user may open the contract.
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import http from 'node:http';
+import path from 'node:path';
+import { WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const HOST = process.env.HOST || 'localhost';
+const PORT = Number(process.env.PORT || 1234);
+const PERSIST_DIR = process.env.COLLAB_PERSIST_DIR ? path.resolve(process.env.COLLAB_PERSIST_DIR) : '';
+const PING_INTERVAL_MS = 30_000;
+const PERSIST_DEBOUNCE_MS = 1_000;
+
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+/** @type {Map<string, Room>} */
+const rooms = new Map();
+
+/**
+ * @typedef {object} Room
+ * @property {string} name
+ * @property {Y.Doc} doc
+ * @property {awarenessProtocol.Awareness} awareness
+ * @property {Map<import('ws').WebSocket, Set<number>>} conns awareness client ids controlled by each connection
+ * @property {Promise<void>} ready
+ * @property {ReturnType<typeof setTimeout> | null} persistTimer
+ */
+
+function roomFile(name) {
+  return path.join(PERSIST_DIR, `${encodeURIComponent(name)}.ydoc`);
+}
+
+async function loadRoom(room) {
+  if (!PERSIST_DIR) return;
+  try {
+    Y.applyUpdate(room.doc, new Uint8Array(await readFile(roomFile(room.name))), 'persistence');
+  } catch (err) {
+    if (err && err.code !== 'ENOENT') console.error(`[collab-server] could not load ${room.name}:`, err);
+  }
+}
+
+async function persistRoom(room) {
+  if (!PERSIST_DIR) return;
+  room.persistTimer = null;
+  try {
+    await mkdir(PERSIST_DIR, { recursive: true });
+    await writeFile(roomFile(room.name), Y.encodeStateAsUpdate(room.doc));
+  } catch (err) {
+    console.error(`[collab-server] could not save ${room.name}:`, err);
+  }
+}
+
+function send(conn, message) {
+  if (conn.readyState !== conn.OPEN) return;
+  conn.send(message, (err) => {
+    if (err) conn.close();
+  });
+}
+
+function broadcast(room, message) {
+  for (const conn of room.conns.keys()) send(conn, message);
+}
+
+function getRoom(name) {
+  const existing = rooms.get(name);
+  if (existing) return existing;
+
+  const doc = new Y.Doc();
+  const awareness = new awarenessProtocol.Awareness(doc);
+  // The server has no cursor of its own.
+  awareness.setLocalState(null);
+
+  /** @type {Room} */
+  const room = { name, doc, awareness, conns: new Map(), ready: Promise.resolve(), persistTimer: null };
+  room.ready = loadRoom(room);
+
+  doc.on('update', (update, origin) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder));
+    if (PERSIST_DIR && origin !== 'persistence' && !room.persistTimer) {
+      room.persistTimer = setTimeout(() => void persistRoom(room), PERSIST_DEBOUNCE_MS);
+    }
+  });
+
+  awareness.on('update', ({ added, updated, removed }, origin) => {
+    const controlled = origin && room.conns.get(origin);
+    if (controlled) {
+      for (const id of added) controlled.add(id);
+      for (const id of removed) controlled.delete(id);
+    }
+    const changed = [...added, ...updated, ...removed];
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+    broadcast(room, encoding.toUint8Array(encoder));
+  });
+
+  rooms.set(name, room);
+  return room;
+}
+
+function closeConn(room, conn) {
+  const controlled = room.conns.get(conn);
+  if (!controlled) return;
+  room.conns.delete(conn);
+  awarenessProtocol.removeAwarenessStates(room.awareness, [...controlled], null);
+
+  if (room.conns.size === 0) {
+    rooms.delete(room.name);
+    if (room.persistTimer) clearTimeout(room.persistTimer);
+    void persistRoom(room).finally(() => room.doc.destroy());
+  }
+}
+
+function handleMessage(room, conn, data) {
+  try {
+    const decoder = decoding.createDecoder(new Uint8Array(data));
+    const encoder = encoding.createEncoder();
+    switch (decoding.readVarUint(decoder)) {
+      case MESSAGE_SYNC:
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+        // Only step 1 needs an answer (step 2); updates are broadcast by the doc listener.
+        if (encoding.length(encoder) > 1) send(conn, encoding.toUint8Array(encoder));
+        break;
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), conn);
+        break;
+      default:
+        break;
+    }
+  } catch (err) {
+    console.error(`[collab-server] bad message in ${room.name}:`, err);
+  }
+}
+
+async function onConnection(conn, req) {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const name = decodeURIComponent(pathname.replace(/^\/+/, '')) || 'default';
+  const room = getRoom(name);
+  room.conns.set(conn, new Set());
+  conn.binaryType = 'arraybuffer';
+
+  // Messages that arrive while the room is loading from disk wait for it.
+  let pending = [];
+  conn.on('message', (data) => {
+    if (pending) pending.push(data);
+    else handleMessage(room, conn, data);
+  });
+
+  let alive = true;
+  conn.on('pong', () => {
+    alive = true;
+  });
+  const ping = setInterval(() => {
+    if (!alive) {
+      conn.terminate();
+      return;
+    }
+    alive = false;
+    conn.ping();
+  }, PING_INTERVAL_MS);
+
+  conn.on('close', () => {
+    clearInterval(ping);
+    closeConn(room, conn);
+  });
+
+  await room.ready;
+
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  syncProtocol.writeSyncStep1(encoder, room.doc);
+  send(conn, encoding.toUint8Array(encoder));
+
+  const clients = [...room.awareness.getStates().keys()];
+  if (clients.length) {
+    const awarenessEncoder = encoding.createEncoder();
+    encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+    encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(room.awareness, clients));
+    send(conn, encoding.toUint8Array(awarenessEncoder));
+  }
+
+  const queued = pending;
+  pending = null;
+  for (const data of queued) handleMessage(room, conn, data);
+}
+
+const server = http.createServer((_req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('collab-server: connect with a y-websocket client\n');
+});
+
+const wss = new WebSocketServer({ server });
+wss.on('connection', (conn, req) => {
+  onConnection(conn, req).catch((err) => {
+    console.error('[collab-server] connection failed:', err);
+    conn.close();
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`[collab-server] listening on ws://${HOST}:${PORT}${PERSIST_DIR ? ` (persisting to ${PERSIST_DIR})` : ''}`);
+});
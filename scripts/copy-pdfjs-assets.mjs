@@ -1,10 +1,18 @@
-import { mkdir, cp, stat } from 'node:fs/promises';
+import { mkdir, cp, copyFile, stat } from 'node:fs/promises';
 import path from 'node:path';
 
 const ROOT = process.cwd();
 const SRC = path.join(ROOT, 'node_modules', 'pdfjs-dist');
 const DEST = path.join(ROOT, 'public', 'pdfjs');
 
+// Fallback fonts for generated PDFs (app/lib/pdf-fonts.ts), served from public/pdf-fonts.
+const PDF_FONTS_DEST = path.join(ROOT, 'public', 'pdf-fonts');
+const PDF_FONTS = {
+  'DejaVuSans.ttf': 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf',
+  'NotoSansSC-Regular.ttf': '@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf',
+  'NotoSansKR-Regular.ttf': '@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf',
+};
+
 async function exists(p) {
   try {
     await stat(p);
@@ -29,9 +37,19 @@ async function copyDir(dirName) {
   await cp(srcDir, destDir, { recursive: true, force: true });
 }
 
+async function copyPdfFonts() {
+  await mkdir(PDF_FONTS_DEST, { recursive: true });
+  for (const [name, from] of Object.entries(PDF_FONTS)) {
+    const src = path.join(ROOT, 'node_modules', from);
+    if (!(await exists(src))) continue;
+    await copyFile(src, path.join(PDF_FONTS_DEST, name));
+  }
+}
+
 async function main() {
   await copyDir('standard_fonts');
   await copyDir('cmaps');
+  await copyPdfFonts();
 }
 
 main().catch((err) => {